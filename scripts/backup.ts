@@ -0,0 +1,59 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Backup Script
+ *
+ * Writes a snapshot of DATA_DIR to BACKUP_DIR (default: ./backups) as a
+ * gzipped tarball with a checksum manifest. Symlinks (badges/, usernames/)
+ * are kept as symlinks.
+ *
+ * --incremental stores only the files changed since the latest backup.
+ * Meant to run from cron: a full backup every day and an incremental one
+ * every hour. --verify restores the new backup into a temporary directory
+ * and checks every checksum.
+ *
+ * Usage:
+ *   npm run backup
+ *   npm run backup -- --incremental
+ *   npm run backup -- --verify
+ */
+
+import { createBackup, getBackupDir, verifyBackup } from '../src/lib/backup';
+import { getDataDir } from '../src/lib/storage';
+
+async function main() {
+  const incremental = process.argv.includes('--incremental');
+  const verify = process.argv.includes('--verify');
+
+  console.log(`=== ${incremental ? 'Incremental' : 'Full'} backup ===\n`);
+  console.log(`Data directory:   ${getDataDir()}`);
+  console.log(`Backup directory: ${getBackupDir()}\n`);
+
+  const result = await createBackup({ incremental });
+  const { manifest } = result;
+
+  console.log(`Entries:      ${manifest.entries.length}`);
+  console.log(`Files stored: ${result.filesStored} (${(result.bytesStored / 1024).toFixed(1)} KB)`);
+  if (manifest.base) {
+    console.log(`Based on:     ${manifest.base}`);
+  }
+  console.log(`\n✅ Wrote ${result.archivePath}`);
+
+  if (verify) {
+    console.log('\nVerifying...');
+    const { problems } = await verifyBackup(result.archivePath);
+    if (problems.length > 0) {
+      console.log(`\n❌ ${problems.length} problem(s):`);
+      for (const problem of problems) {
+        console.log(`  ${problem}`);
+      }
+      process.exit(1);
+    }
+    console.log('✅ Backup restores cleanly');
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Check Data Script
+ *
+ * Walks DATA_DIR and reports inconsistencies: dangling or duplicate badge
+ * and username links, profiles without usernames, asymmetric
+ * invitedBy/invitees, orphaned avatars, offers with unknown authors and
+ * offers missing their room calendar entry (see src/lib/data-check.ts).
+ *
+ * With --fix, repairs the issues that can be repaired safely. Exits with
+ * code 1 if issues remain.
+ *
+ * Usage:
+ *   npm run check-data
+ *   npm run check-data -- --fix
+ */
+
+import { checkData } from '../src/lib/data-check';
+import { getDataDir } from '../src/lib/storage';
+
+async function main() {
+  const fix = process.argv.includes('--fix');
+
+  console.log(`=== Checking ${getDataDir()} ===\n`);
+
+  const report = await checkData({ fix });
+
+  console.log(`Profiles: ${report.profiles}`);
+  console.log(`Offers:   ${report.offers}`);
+
+  if (report.issues.length === 0) {
+    console.log('\n✅ No issues found');
+    return;
+  }
+
+  console.log(`\n${report.issues.length} issue(s):`);
+  for (const issue of report.issues) {
+    const status = issue.fixed
+      ? ' (fixed)'
+      : issue.fixError
+        ? ` (fix failed: ${issue.fixError})`
+        : issue.fixable
+          ? ' (fixable)'
+          : '';
+    console.log(`  [${issue.type}] ${issue.subject}: ${issue.message}${status}`);
+  }
+
+  const remaining = report.issues.filter((i) => !i.fixed);
+  if (fix) {
+    console.log(`\n✅ Fixed ${report.fixed} issue(s)`);
+  } else if (remaining.some((i) => i.fixable)) {
+    console.log('\nRun with --fix to repair the fixable issues');
+  }
+
+  if (remaining.length > 0) {
+    console.log(`❌ ${remaining.length} issue(s) remaining`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
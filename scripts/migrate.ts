@@ -0,0 +1,63 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Migrate Script
+ *
+ * Upgrades every stored profile, offer, proposal event and notification to
+ * the current schema version (see src/lib/schema-migrations.ts) and lists
+ * what changed. Records are also upgraded when read, so this is only needed
+ * to rewrite an old data directory in place.
+ *
+ * Run it while the app and the listeners are stopped.
+ *
+ * Usage:
+ *   npm run migrate
+ *   npm run migrate -- --dry-run
+ */
+
+import { getStorageBackend } from '../src/lib/storage-backend';
+import { SCHEMA_VERSIONS } from '../src/lib/schema-migrations';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const storage = getStorageBackend();
+
+  console.log(`=== ${dryRun ? 'Checking' : 'Migrating'} stored records (${storage.type} backend) ===\n`);
+  console.log('Current schema versions:');
+  for (const [type, version] of Object.entries(SCHEMA_VERSIONS)) {
+    console.log(`  ${type}: v${version}`);
+  }
+
+  const report = await storage.migrateRecords({ dryRun });
+  await storage.close();
+
+  console.log(`\nRecords scanned: ${report.scanned}`);
+
+  if (report.newer.length > 0) {
+    console.log(`\n⚠️  ${report.newer.length} record(s) written by a newer version of the app (left untouched):`);
+    for (const record of report.newer) {
+      console.log(`  [${record.type}] ${record.id}: v${record.from}`);
+    }
+  }
+
+  if (report.changes.length === 0) {
+    console.log('\n✅ All records are up to date');
+    return;
+  }
+
+  console.log(`\n${report.changes.length} record(s) ${dryRun ? 'to migrate' : 'migrated'}:`);
+  for (const change of report.changes) {
+    console.log(`  [${change.type}] ${change.id}: v${change.from} → v${change.to} (${change.applied.join('; ')})`);
+  }
+
+  if (dryRun) {
+    console.log('\nRun without --dry-run to apply');
+  } else {
+    console.log(`\n✅ Migrated ${report.changes.length} record(s)`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -50,6 +50,7 @@ import { getWalletAddressForNpub } from '../src/lib/token-factory';
 import settings from '../settings.json';
 
 const CHAIN_NAME_TO_ID: Record<string, number> = {
+  memory: 1337, // Simulated token, see src/lib/token-backend.ts
   localhost: 31337,
   gnosis: 100,
   gnosis_chiado: 10200,
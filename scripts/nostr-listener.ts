@@ -5,6 +5,7 @@
  * This service combines the functionality of:
  * - record-nostr-events: Records all NOSTR events to disk
  * - receipt-listener: Processes payment receipts and confirms bookings/workshops
+ * It also settles refunds for cancelled offers (see src/lib/refunds.ts).
  *
  * Events are stored in:
  * - DATA_DIR/nostr_events.jsonl (all events, for /nostr page)
@@ -74,6 +75,9 @@ import {
   generateIcsFile,
   getProposalEvent,
 } from '../src/lib/local-calendar';
+import { withLock, atomicWriteFile } from '../src/lib/file-lock';
+import { getOfferLockResource } from '../src/lib/storage-backend';
+import { settleRefund } from '../src/lib/refunds';
 
 // ============================================================================
 // Configuration
@@ -94,6 +98,8 @@ const EVENT_KIND_INFO: Record<number, { name: string; description: string }> = {
   [NOSTR_KINDS.REACTION]: { name: 'Reaction', description: 'Reactions and RSVPs to events' },
   [NOSTR_KINDS.PAYMENT_REQUEST]: { name: 'Payment Request', description: 'Token mint/transfer/burn requests' },
   [NOSTR_KINDS.PAYMENT_RECEIPT]: { name: 'Payment Receipt', description: 'Confirmed token transactions' },
+  [NOSTR_KINDS.BADGE_REBIND]: { name: 'Badge Rebind', description: 'Lost badges revoked and replaced' },
+  [NOSTR_KINDS.INVOICE]: { name: 'Invoice', description: 'Token requests from one villager to another' },
   [NOSTR_KINDS.CALENDAR_EVENT]: { name: 'Calendar Event', description: 'Workshop/calendar events (NIP-52)' },
   31923: { name: 'Calendar RSVP', description: 'Calendar event RSVPs (NIP-52)' },
 };
@@ -354,30 +360,32 @@ async function confirmBookingOrOffer(
       return;
     }
 
-    if (fs.existsSync(offerPath)) {
-      log(`[NostrListener] Offer ${offerId} already exists, updating status`);
-      const existing = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
-      if (existing.status !== 'confirmed') {
-        existing.status = 'confirmed';
-        existing.updatedAt = new Date().toISOString();
-        fs.writeFileSync(offerPath, JSON.stringify(existing, null, 2));
+    await withLock(getOfferLockResource(offerId), async () => {
+      if (fs.existsSync(offerPath)) {
+        log(`[NostrListener] Offer ${offerId} already exists, updating status`);
+        const existing = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
+        if (existing.status !== 'confirmed') {
+          existing.status = 'confirmed';
+          existing.updatedAt = new Date().toISOString();
+          await atomicWriteFile(offerPath, JSON.stringify(existing, null, 2));
+        }
+      } else {
+        const offer: Offer = {
+          id: offerId,
+          type: 'private',
+          title,
+          description,
+          status: 'confirmed',
+          room,
+          startTime,
+          endTime,
+          authors: [sender],
+          updatedAt: new Date().toISOString(),
+        };
+        await atomicWriteFile(offerPath, JSON.stringify(offer, null, 2));
+        log(`[NostrListener] Created confirmed booking: ${offerId}`);
       }
-    } else {
-      const offer: Offer = {
-        id: offerId,
-        type: 'private',
-        title,
-        description,
-        status: 'confirmed',
-        room,
-        startTime,
-        endTime,
-        authors: [sender],
-        updatedAt: new Date().toISOString(),
-      };
-      fs.writeFileSync(offerPath, JSON.stringify(offer, null, 2));
-      log(`[NostrListener] Created confirmed booking: ${offerId}`);
-    }
+    });
 
     // Add to calendar
     try {
@@ -422,18 +430,24 @@ async function confirmBookingOrOffer(
       return;
     }
 
-    const content = fs.readFileSync(offerPath, 'utf-8');
-    const offer: Offer = JSON.parse(content);
     const newStatus = 'tentative';
 
-    if (offer.status === newStatus || offer.status === 'confirmed') {
-      log(`[NostrListener] Offer ${relatedEventId} already has status: ${offer.status}`);
-      return;
-    }
+    // Update the status while holding the offer lock (the API routes write the same file)
+    const offer = await withLock(getOfferLockResource(relatedEventId), async () => {
+      const current: Offer = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
+
+      if (current.status === newStatus || current.status === 'confirmed') {
+        log(`[NostrListener] Offer ${relatedEventId} already has status: ${current.status}`);
+        return null;
+      }
+
+      current.status = newStatus;
+      current.updatedAt = new Date().toISOString();
+      await atomicWriteFile(offerPath, JSON.stringify(current, null, 2));
+      return current;
+    });
 
-    offer.status = newStatus;
-    offer.updatedAt = new Date().toISOString();
-    fs.writeFileSync(offerPath, JSON.stringify(offer, null, 2));
+    if (!offer) return;
     log(`[NostrListener] Updated offer ${relatedEventId} status to: ${newStatus}`);
 
     if (offer.room && offer.startTime && offer.endTime) {
@@ -492,6 +506,14 @@ async function processPaymentReceipt(receiptEvent: NostrEvent): Promise<void> {
     return;
   }
 
+  if (receipt.context === 'refund') {
+    try {
+      await settleRefund(receipt.requestEventId, receipt);
+    } catch (error) {
+      logError(`[NostrListener] Failed to settle refund ${receipt.requestEventId}:`, error);
+    }
+  }
+
   if (!receipt.success) {
     log(`[NostrListener] Receipt indicates failure, skipping: ${receiptEvent.id.slice(0, 8)}...`);
     state.processedReceiptIds.add(receiptEvent.id);
@@ -592,8 +614,9 @@ async function processEvent(event: NostrEvent, relayUrl: string): Promise<void>
     }
   }
 
-  // For reactions (RSVPs), record for the referenced event author
-  if (event.kind === NOSTR_KINDS.REACTION) {
+  // For reactions (RSVPs), record for the referenced event author,
+  // and for invoices, for the villager asked to pay
+  if (event.kind === NOSTR_KINDS.REACTION || event.kind === NOSTR_KINDS.INVOICE) {
     const pTag = event.tags.find(t => t[0] === 'p');
     if (pTag && pTag[1]) {
       try {
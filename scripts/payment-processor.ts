@@ -17,8 +17,30 @@
  * Optional environment variables:
  *   - DATA_DIR: Directory for storing data (default: ./data)
  *   - BACKUP_PRIVATE_KEY: Backup private key for Safe operations
+ *   - CHAIN: memory to settle payments on the simulated token in DATA_DIR/memoryChain
+ *     instead of a chain (see src/lib/token-backend.ts); PRIVATE_KEY isn't needed then
+ *
+ * It also holds RSVP payments in escrow and settles them (see src/lib/escrow.ts):
+ * RSVP transfers to the server account are recorded as deposits, and every
+ * ESCROW_SWEEP_INTERVAL_MS the deposits that are due are released or refunded.
+ *
+ * Payment requests go through a durable work queue (see src/lib/payment-queue.ts):
+ * DATA_DIR/paymentProcessor/queue.jsonl. Jobs are processed one at a time, each
+ * submission with the next nonce of the deployer account (src/lib/nonce-manager.ts),
+ * and RPC or nonce errors are retried with exponential backoff. Attempts that time out may
+ * have gone through and aren't retried. Jobs that are rejected or run out of
+ * retries become dead letters: list and replay them with
+ *   npm run replay-payments
+ *
+ * On startup the subscription resumes from the newest queued request, so requests
+ * published while the processor was down are picked up.
+ *
+ * With PAYMENT_BATCH_WINDOW_MS set (e.g. 2000), requests are collected for that
+ * long and the mints and transfers of each token are submitted together, one
+ * transaction per batch, each request still getting its own receipt
+ * (see src/lib/payment-batch.ts). Only the in-memory token (CHAIN=memory) can
+ * batch for now: on a chain, requests are still sent one at a time.
  *
- * Processed event IDs are tracked in: DATA_DIR/paymentProcessor/processed_events.json
  * Note: Event logging is handled by the separate record-nostr-events process
  */
 
@@ -69,8 +91,6 @@ if (!loadEnvFile('.env.local')) {
   loadEnvFile('.env');
 }
 
-import { Token } from '@opencollective/token-factory';
-import type { SupportedChain } from '@opencollective/token-factory';
 import { getPublicKey, nip19 } from 'nostr-tools';
 import {
   NOSTR_KINDS,
@@ -83,6 +103,33 @@ import {
   NostrConnectionPool,
   getRelayUrls,
 } from '../src/lib/nostr-server';
+import { recordEscrowDeposit, settleDueEscrows, type PaymentLookup, type PaymentOutcome } from '../src/lib/escrow';
+import {
+  enqueuePayment,
+  getLatestRequestTime,
+  getPaymentJob,
+  isRetryablePaymentError,
+  isUncertainJob,
+  listDeadLetters,
+  listPaymentJobs,
+  recoverInterruptedJobs,
+  uncertainOutcomeError,
+  updatePaymentJob,
+  type PaymentJob,
+} from '../src/lib/payment-queue';
+import { validatePaymentRequest, type PaymentRequest } from '../src/lib/payment-validation';
+import { NonceManager } from '../src/lib/nonce-manager';
+import { createTokenBackend, getPendingNonce, type SupportedChain } from '../src/lib/token-factory';
+import type { TokenBackend } from '../src/lib/token-backend';
+import { batchWithErrorIsolation, retryWithBackoff } from '../src/lib/error-recovery';
+import {
+  DEFAULT_MAX_BATCH_SIZE,
+  canBatch,
+  groupPaymentBatches,
+  isBatchMethod,
+  sendPaymentBatch,
+  type BatchPayment,
+} from '../src/lib/payment-batch';
 
 // Load settings with type that allows optional token
 interface TokenConfig {
@@ -112,9 +159,18 @@ function getTokenConfig(): TokenConfig | null {
 const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
 const PROCESSOR_DIR = path.join(DATA_DIR, 'paymentProcessor');
 const PROCESSED_FILE = path.join(PROCESSOR_DIR, 'processed_events.json');
+const ESCROW_SWEEP_INTERVAL_MS = 60 * 1000;
+const QUEUE_POLL_INTERVAL_MS = 30 * 1000; // Picks up dead letters replayed by an admin
+const MAX_SUBMIT_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const SUBSCRIPTION_OVERLAP_SECONDS = 3600; // Look back before the newest queued request on startup
+const BATCH_WINDOW_MS = parseInt(process.env.PAYMENT_BATCH_WINDOW_MS || '0', 10) || 0; // 0: no batching
+const MAX_BATCH_SIZE = DEFAULT_MAX_BATCH_SIZE;
 
 // Chain ID to name mapping
 const CHAIN_ID_TO_NAME: Record<number, SupportedChain> = {
+  1337: 'memory',
   31337: 'localhost',
   100: 'gnosis',
   10200: 'gnosis_chiado',
@@ -127,13 +183,25 @@ const CHAIN_ID_TO_NAME: Record<number, SupportedChain> = {
 // ============================================================================
 
 interface ProcessorState {
-  processedEventIds: Set<string>;
-  tokenCache: Map<string, Token>;
+  processedEventIds: Set<string>; // Legacy: requests processed before the queue existed
+  tokenCache: Map<string, TokenBackend>;
+  nonceManagers: Map<number, NonceManager>; // By chain ID
+  lane: Promise<unknown>; // Jobs are processed one at a time
+  runningJobs: Map<string, Promise<PaymentOutcome>>;
+  draining: boolean;
+  drainRequested: boolean;
+  batchTimer: ReturnType<typeof setTimeout> | null; // Pending drain of the batch window
 }
 
 const state: ProcessorState = {
   processedEventIds: new Set(),
   tokenCache: new Map(),
+  nonceManagers: new Map(),
+  lane: Promise.resolve(),
+  runningJobs: new Map(),
+  draining: false,
+  drainRequested: false,
+  batchTimer: null,
 };
 
 // ============================================================================
@@ -147,6 +215,9 @@ function ensureProcessorDir(): void {
   }
 }
 
+/**
+ * Load the IDs processed before the work queue (see src/lib/payment-queue.ts) replaced this file
+ */
 function loadProcessedEvents(): void {
   ensureProcessorDir();
 
@@ -163,26 +234,11 @@ function loadProcessedEvents(): void {
   }
 }
 
-function saveProcessedEvents(): void {
-  ensureProcessorDir();
-
-  try {
-    const data = {
-      lastUpdated: new Date().toISOString(),
-      count: state.processedEventIds.size,
-      processedIds: Array.from(state.processedEventIds),
-    };
-    fs.writeFileSync(PROCESSED_FILE, JSON.stringify(data, null, 2));
-  } catch (error) {
-    console.error('[PaymentProcessor] Failed to save processed events:', error);
-  }
-}
-
 // ============================================================================
 // Token Operations
 // ============================================================================
 
-function getToken(chainId: number, tokenAddress: string, privateKey: string): Token {
+async function getToken(chainId: number, tokenAddress: string, privateKey: string): Promise<TokenBackend> {
   const chainName = CHAIN_ID_TO_NAME[chainId];
   if (!chainName) {
     throw new Error(`Unsupported chain ID: ${chainId}`);
@@ -192,12 +248,12 @@ function getToken(chainId: number, tokenAddress: string, privateKey: string): To
   let token = state.tokenCache.get(cacheKey);
 
   if (!token) {
-    token = new Token({
+    token = await createTokenBackend({
       name: 'Community Hour Token',
       symbol: 'CHT',
       chain: chainName,
-      deployerPrivateKey: privateKey as `0x${string}`,
-      tokenAddress: tokenAddress as `0x${string}`,
+      deployerPrivateKey: privateKey,
+      tokenAddress,
     });
     state.tokenCache.set(cacheKey, token);
   }
@@ -209,201 +265,430 @@ function getToken(chainId: number, tokenAddress: string, privateKey: string): To
 // Payment Processing
 // ============================================================================
 
-async function processPaymentRequest(
-  event: NostrEvent,
-  secretKey: Uint8Array,
-  privateKey: string
-): Promise<void> {
-  // Check if already processed
-  if (state.processedEventIds.has(event.id)) {
-    log(`[PaymentProcessor] Event ${event.id.slice(0, 8)}... already processed, skipping`);
-    return;
-  }
+/**
+ * Send the token operation of a payment request
+ *
+ * @returns The transaction hash
+ */
+async function submitPayment(token: TokenBackend, request: PaymentRequest): Promise<string> {
+  const method = request.method || 'transfer';
+  let txHash: string;
 
-  log(`[PaymentProcessor] Processing payment request: ${event.id.slice(0, 8)}...`);
+  if (method === 'mint') {
+    // Mint new tokens to the recipient
+    log(`[PaymentProcessor] Minting ${request.amount} tokens to ${request.recipient.slice(0, 15)}...`);
+    txHash = await token.mintTo(request.amount, `nostr:${request.recipient}`) || '0x0';
+  } else if (method === 'burn') {
+    // Burn tokens from sender (used for workshop proposals)
+    log(`[PaymentProcessor] Burning ${request.amount} tokens from ${request.sender.slice(0, 15)}...`);
+    txHash = await token.burnFrom(request.amount, `nostr:${request.sender}`) || '0x0';
+  } else {
+    // Transfer tokens from sender to recipient
+    log(`[PaymentProcessor] Transferring ${request.amount} tokens...`);
+    txHash = await token.transfer(
+      `nostr:${request.sender}`,
+      `nostr:${request.recipient}`,
+      request.amount
+    ) || '0x0';
+  }
 
-  // Parse the payment request
-  const request = parsePaymentRequestEvent(event);
-  if (!request) {
-    logError(`[PaymentProcessor] Failed to parse payment request: ${event.id}`);
-    state.processedEventIds.add(event.id);
-    saveProcessedEvents();
-    return;
+  if (!txHash || txHash === '0x0') {
+    throw new Error(`${method.charAt(0).toUpperCase() + method.slice(1)} returned no transaction hash`);
   }
+  log(`[PaymentProcessor] ${method} successful: ${txHash}`);
+  return txHash;
+}
 
-  const method = request.method || 'transfer';
+/**
+ * Errors after which a transaction may have gone out anyway: the RPC node
+ * didn't answer in time, or the connection dropped while waiting for it
+ */
+const UNCERTAIN_ERROR = /timeout|timed out|ETIMEDOUT|ECONNRESET/i;
 
-  // Validate signature: only process requests signed by the authorized party
-  const serverPubkey = getPublicKey(secretKey);
+/**
+ * Thrown instead of resubmitting when an attempt failed without telling
+ * whether its transaction went through
+ */
+class PossibleDuplicateError extends Error {
+  constructor(cause: Error) {
+    super(uncertainOutcomeError(cause.message));
+    this.name = 'PossibleDuplicateError';
+  }
+}
 
-  if (method === 'mint') {
-    // Mint must be signed by the server
-    if (event.pubkey !== serverPubkey) {
-      logError(`[PaymentProcessor] REJECTED: mint request not signed by server`);
-      logError(`[PaymentProcessor] Event details:`, {
-        eventId: event.id,
-        eventPubkey: event.pubkey,
-        expectedPubkey: serverPubkey,
-        method,
-        sender: request.sender,
-        recipient: request.recipient,
-        amount: request.amount,
-        context: request.context,
-      });
-      state.processedEventIds.add(event.id);
-      saveProcessedEvents();
-      return;
+/**
+ * The nonce manager of a chain, null for the in-memory token, which has no nonces
+ */
+function getNonceManager(chainId: number): NonceManager | null {
+  const chain = CHAIN_ID_TO_NAME[chainId];
+  if (!chain || chain === 'memory') return null;
+
+  let nonces = state.nonceManagers.get(chainId);
+  if (!nonces) {
+    nonces = new NonceManager(() => getPendingNonce(chain));
+    state.nonceManagers.set(chainId, nonces);
+  }
+  return nonces;
+}
+
+/**
+ * Send a transaction for one or more jobs with the next nonce, retrying RPC
+ * and nonce errors with exponential backoff
+ * The jobs are marked submitting, with the nonce, for each attempt, and back
+ * to received when it fails.
+ *
+ * @returns The transaction hash
+ */
+async function submitWithRetries(jobs: PaymentJob[], chainId: number, send: () => Promise<string>): Promise<string> {
+  const nonces = getNonceManager(chainId);
+  const attempts = new Map(jobs.map((job) => [job.requestId, job.attempts]));
+
+  const attempt = async (nonce?: number) => {
+    for (const job of jobs) {
+      const count = (attempts.get(job.requestId) || 0) + 1;
+      attempts.set(job.requestId, count);
+      await updatePaymentJob(job.requestId, { status: 'submitting', nonce, attempts: count });
     }
-  } else if (method === 'burn') {
-    // Burn can be signed by server OR by the sender (user can burn their own tokens)
-    let senderPubkey: string | null = null;
     try {
-      const decoded = nip19.decode(request.sender);
-      if (decoded.type === 'npub') {
-        senderPubkey = decoded.data;
+      return await send();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      for (const job of jobs) {
+        await updatePaymentJob(job.requestId, { status: 'received', error: error.message });
       }
-    } catch {
-      // Failed to decode sender
+      throw UNCERTAIN_ERROR.test(error.message) ? new PossibleDuplicateError(error) : error;
     }
+  };
 
-    const isSignedByServer = event.pubkey === serverPubkey;
-    const isSignedBySender = senderPubkey && event.pubkey === senderPubkey;
-
-    if (!isSignedByServer && !isSignedBySender) {
-      logError(`[PaymentProcessor] REJECTED: burn request not signed by server or sender`);
-      logError(`[PaymentProcessor] Event details:`, {
-        eventId: event.id,
-        eventPubkey: event.pubkey,
-        expectedServerPubkey: serverPubkey,
-        expectedSenderPubkey: senderPubkey,
-        method,
-        sender: request.sender,
-        recipient: request.recipient,
-        amount: request.amount,
-        context: request.context,
-      });
-      state.processedEventIds.add(event.id);
-      saveProcessedEvents();
-      return;
+  return retryWithBackoff(
+    () => (nonces ? nonces.withNonce(attempt) : attempt()),
+    {
+      maxAttempts: MAX_SUBMIT_ATTEMPTS,
+      delay: RETRY_DELAY_MS,
+      maxDelay: MAX_RETRY_DELAY_MS,
+      isRetryable: (error) => !(error instanceof PossibleDuplicateError) && isRetryablePaymentError(error),
+      onRetry: (attempt, error) => {
+        logError(`[PaymentProcessor] Attempt ${attempt} failed, retrying: ${error.message}`);
+      },
     }
+  );
+}
+
+/**
+ * Take a queued payment request through to its receipt
+ *
+ * - received: validated, then submitted with the next nonce, retrying RPC and
+ *   nonce errors with exponential backoff. Rejected or out of retries: failed.
+ * - submitted: the receipt (kind 1735) is published and the job confirmed.
+ *   If publishing fails the job stays submitted and is retried on the next drain.
+ */
+async function processJob(job: PaymentJob, secretKey: Uint8Array, privateKey: string): Promise<PaymentOutcome> {
+  const { event } = job;
+  let txHash = job.txHash;
+
+  if (job.status === 'received') {
+    log(`[PaymentProcessor] Processing payment request: ${event.id.slice(0, 8)}...`);
+
+    const validation = validatePaymentRequest(event, secretKey);
+    if ('error' in validation) {
+      await updatePaymentJob(event.id, { status: 'failed', error: validation.error });
+      return { success: false, error: validation.error };
+    }
+
+    const { request } = validation;
+    const method = request.method || 'transfer';
+
+    log(`[PaymentProcessor] Payment details:`, {
+      method,
+      from: request.sender.slice(0, 15) + '...',
+      to: request.recipient.slice(0, 15) + '...',
+      amount: request.amount,
+      tokenSymbol: request.tokenSymbol,
+      chainId: request.chainId,
+      context: request.context,
+    });
 
-    log(`[PaymentProcessor] Burn request authorized by ${isSignedByServer ? 'server' : 'sender'}`);
-  } else {
-    // Transfer must be signed by the sender
-    // Decode sender npub to hex pubkey for comparison
-    let senderPubkey: string;
     try {
-      const decoded = nip19.decode(request.sender);
-      if (decoded.type !== 'npub') {
-        throw new Error('Sender is not an npub');
-      }
-      senderPubkey = decoded.data;
+      const token = await getToken(request.chainId, request.tokenAddress, privateKey);
+      txHash = await submitWithRetries([job], request.chainId, () => submitPayment(token, request));
     } catch (error) {
-      logError(`[PaymentProcessor] REJECTED: Failed to decode sender npub: ${request.sender}`);
-      state.processedEventIds.add(event.id);
-      saveProcessedEvents();
-      return;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logError(`[PaymentProcessor] ${method} failed:`, errorMessage);
+      await updatePaymentJob(event.id, { status: 'failed', error: errorMessage });
+      log(`[PaymentProcessor] Skipping receipt for failed transaction: ${event.id.slice(0, 8)}...`);
+      return { success: false, error: errorMessage };
     }
 
-    if (event.pubkey !== senderPubkey) {
-      logError(`[PaymentProcessor] REJECTED: Transfer request not signed by sender`);
-      logError(`[PaymentProcessor] Event details:`, {
-        eventId: event.id,
-        eventPubkey: event.pubkey,
-        expectedPubkey: senderPubkey,
-        method,
-        sender: request.sender,
-        recipient: request.recipient,
-        amount: request.amount,
-        context: request.context,
-      });
-      state.processedEventIds.add(event.id);
-      saveProcessedEvents();
-      return;
+    await updatePaymentJob(event.id, { status: 'submitted', txHash, error: undefined });
+  }
+
+  // Only publish payment receipt (kind 1735) on success
+  try {
+    const receiptEvent = createPaymentReceiptEvent(secretKey, {
+      paymentRequestEvent: event,
+      txHash: txHash!,
+      success: true,
+    });
+
+    const { successful } = await publishToRelays(receiptEvent);
+    if (successful === 0) {
+      throw new Error('Receipt not accepted by any relay');
     }
+    log(`[PaymentProcessor] Published payment receipt: ${receiptEvent.id.slice(0, 8)}...`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logError(`[PaymentProcessor] Failed to publish receipt, will retry:`, errorMessage);
+    await updatePaymentJob(event.id, { error: errorMessage });
+    return { success: true, txHash };
   }
 
-  log(`[PaymentProcessor] Payment details:`, {
-    method,
-    from: request.sender.slice(0, 15) + '...',
-    to: request.recipient.slice(0, 15) + '...',
-    amount: request.amount,
-    tokenSymbol: request.tokenSymbol,
-    chainId: request.chainId,
-    context: request.context,
-  });
+  // RSVPs paid to the server account are held in escrow
+  try {
+    await recordEscrowDeposit(event, txHash!);
+  } catch (error) {
+    logError(`[PaymentProcessor] Failed to record escrow deposit:`, error);
+  }
 
-  let txHash: string = '0x0';
-  let success = false;
-  let errorMessage: string | undefined;
+  await updatePaymentJob(event.id, { status: 'confirmed', error: undefined });
+  return { success: true, txHash };
+}
+
+/**
+ * Process a job, one at a time
+ * A job that is already being processed isn't started twice: callers share its outcome.
+ */
+function runJob(job: PaymentJob, secretKey: Uint8Array, privateKey: string): Promise<PaymentOutcome> {
+  let running = state.runningJobs.get(job.requestId);
+  if (!running) {
+    running = state.lane.then(() => processJob(job, secretKey, privateKey));
+    state.lane = running.catch(() => undefined);
+    state.runningJobs.set(job.requestId, running);
+    running.catch(() => undefined).finally(() => state.runningJobs.delete(job.requestId));
+  }
+  return running;
+}
 
+/**
+ * Finish jobs each on their own: received ones are submitted one at a time,
+ * submitted ones get their receipt. A failure only affects its own job.
+ */
+async function finishJobs(jobs: PaymentJob[], secretKey: Uint8Array, privateKey: string): Promise<Map<string, PaymentOutcome>> {
+  const results = await batchWithErrorIsolation(
+    jobs.map((job) => async () => {
+      const current = await getPaymentJob(job.requestId);
+      if (!current) throw new Error('Payment request is not queued');
+      return processJob(current, secretKey, privateKey);
+    })
+  );
+
+  return new Map(
+    jobs.map((job, index): [string, PaymentOutcome] => {
+      const result = results[index];
+      return [job.requestId, result.data || { success: false, error: result.error?.message || 'Unknown error' }];
+    })
+  );
+}
+
+/**
+ * Submit a batch of mints or transfers as one transaction, then publish a
+ * receipt for each of its requests
+ * A batch that reverts is processed again one request at a time. Out of
+ * retries, or possibly sent, its requests are dead-lettered.
+ */
+async function processBatch(
+  jobs: PaymentJob[],
+  batch: BatchPayment[],
+  token: TokenBackend,
+  secretKey: Uint8Array,
+  privateKey: string
+): Promise<Map<string, PaymentOutcome>> {
+  const { method, chainId } = batch[0];
+  log(`[PaymentProcessor] Submitting a batch of ${batch.length} ${method}s...`);
+
+  let txHash: string;
   try {
-    // Get token instance
-    const token = getToken(request.chainId, request.tokenAddress, privateKey);
-
-    if (method === 'mint') {
-      // Mint new tokens to the recipient
-      log(`[PaymentProcessor] Minting ${request.amount} tokens to ${request.recipient.slice(0, 15)}...`);
-      txHash = await token.mintTo(request.amount, `nostr:${request.recipient}`) || '0x0';
-
-      if (txHash && txHash !== '0x0') {
-        log(`[PaymentProcessor] Mint successful: ${txHash}`);
-        success = true;
-      } else {
-        throw new Error('Mint returned no transaction hash');
-      }
-    } else if (method === 'burn') {
-      // Burn tokens from sender (used for workshop proposals)
-      log(`[PaymentProcessor] Burning ${request.amount} tokens from ${request.sender.slice(0, 15)}...`);
-      txHash = await token.burnFrom(request.amount, `nostr:${request.sender}`) || '0x0';
-
-      if (txHash && txHash !== '0x0') {
-        log(`[PaymentProcessor] Burn successful: ${txHash}`);
-        success = true;
-      } else {
-        throw new Error('Burn returned no transaction hash');
-      }
-    } else {
-      // Transfer tokens from sender to recipient
-      log(`[PaymentProcessor] Transferring ${request.amount} tokens...`);
-      txHash = await token.transfer(
-        `nostr:${request.sender}`,
-        `nostr:${request.recipient}`,
-        request.amount
-      ) || '0x0';
-
-      if (txHash && txHash !== '0x0') {
-        log(`[PaymentProcessor] Transfer successful: ${txHash}`);
-        success = true;
-      } else {
-        throw new Error('Transfer returned no transaction hash');
+    txHash = await submitWithRetries(jobs, chainId, () => sendPaymentBatch(token, batch));
+  } catch (error) {
+    const batchError = error instanceof Error ? error : new Error(String(error));
+
+    if (batchError instanceof PossibleDuplicateError || isRetryablePaymentError(batchError)) {
+      logError(`[PaymentProcessor] Batch ${method} failed:`, batchError.message);
+      for (const job of jobs) {
+        await updatePaymentJob(job.requestId, { status: 'failed', error: batchError.message });
       }
+      return new Map(jobs.map((job) => [job.requestId, { success: false, error: batchError.message }]));
     }
-  } catch (error) {
-    errorMessage = error instanceof Error ? error.message : String(error);
-    logError(`[PaymentProcessor] ${method} failed:`, errorMessage);
+
+    logError(`[PaymentProcessor] Batch ${method} reverted, processing its requests one at a time:`, batchError.message);
+    return finishJobs(jobs, secretKey, privateKey);
   }
 
-  // Mark as processed
-  state.processedEventIds.add(event.id);
-  saveProcessedEvents();
+  log(`[PaymentProcessor] Batch ${method} successful: ${txHash}`);
+  for (const job of jobs) {
+    await updatePaymentJob(job.requestId, { status: 'submitted', txHash, error: undefined });
+  }
+  return finishJobs(jobs, secretKey, privateKey);
+}
 
-  // Only publish payment receipt (kind 1735) on success
-  if (success) {
+/**
+ * Submit the received mints and transfers in batches, one at a time
+ *
+ * @returns The ids of the jobs that were batched
+ */
+async function runBatches(jobs: PaymentJob[], secretKey: Uint8Array, privateKey: string): Promise<Set<string>> {
+  const payments: BatchPayment[] = [];
+  const jobsById = new Map<string, PaymentJob>();
+
+  for (const job of jobs) {
+    if (job.status !== 'received' || state.runningJobs.has(job.requestId)) continue;
+
+    // Rejected requests are failed on their own by processJob
+    const request = parsePaymentRequestEvent(job.event);
+    const method = request?.method || 'transfer';
+    if (!request || !isBatchMethod(method) || 'error' in validatePaymentRequest(job.event, secretKey)) continue;
+
+    payments.push({
+      requestId: job.requestId,
+      method,
+      chainId: request.chainId,
+      tokenAddress: request.tokenAddress,
+      sender: request.sender,
+      recipient: request.recipient,
+      amount: request.amount,
+    });
+    jobsById.set(job.requestId, job);
+  }
+
+  const batched = new Set<string>();
+  for (const batch of groupPaymentBatches(payments, MAX_BATCH_SIZE)) {
+    if (batch.length < 2) continue;
+
+    let token: TokenBackend;
     try {
-      const receiptEvent = createPaymentReceiptEvent(secretKey, {
-        paymentRequestEvent: event,
-        txHash,
-        success,
-      });
-
-      await publishToRelays(receiptEvent);
-      log(`[PaymentProcessor] Published payment receipt: ${receiptEvent.id.slice(0, 8)}...`);
-    } catch (error) {
-      logError(`[PaymentProcessor] Failed to publish receipt:`, error);
+      token = await getToken(batch[0].chainId, batch[0].tokenAddress, privateKey);
+    } catch {
+      continue;
     }
-  } else {
-    log(`[PaymentProcessor] Skipping receipt for failed transaction: ${event.id.slice(0, 8)}...`);
+    if (!canBatch(token, batch[0].method)) continue;
+
+    const batchJobs = batch.map((payment) => jobsById.get(payment.requestId)!);
+    const running = state.lane.then(() => processBatch(batchJobs, batch, token, secretKey, privateKey));
+    state.lane = running.catch(() => undefined);
+
+    for (const job of batchJobs) {
+      const outcome = running.then(
+        (outcomes) => outcomes.get(job.requestId) || { success: false, error: 'Missing from its batch' }
+      );
+      state.runningJobs.set(job.requestId, outcome);
+      outcome.catch(() => undefined).finally(() => state.runningJobs.delete(job.requestId));
+      batched.add(job.requestId);
+    }
+
+    await running;
+  }
+
+  return batched;
+}
+
+/**
+ * Process every job that is waiting: new requests, replayed dead letters and
+ * submitted payments whose receipt still has to be published
+ * In batch mode, the mints and transfers among them are batched first.
+ */
+async function drainQueue(secretKey: Uint8Array, privateKey: string): Promise<void> {
+  if (state.draining) {
+    state.drainRequested = true;
+    return;
+  }
+
+  state.draining = true;
+  try {
+    do {
+      state.drainRequested = false;
+      const jobs = await listPaymentJobs(['received', 'submitted']);
+      const batched = BATCH_WINDOW_MS > 0 ? await runBatches(jobs, secretKey, privateKey) : new Set<string>();
+      for (const job of jobs) {
+        if (batched.has(job.requestId)) continue;
+        await runJob(job, secretKey, privateKey);
+      }
+    } while (state.drainRequested);
+  } catch (error) {
+    logError(`[PaymentProcessor] Failed to drain the queue:`, error);
+  } finally {
+    state.draining = false;
+  }
+}
+
+/**
+ * Queue a payment request received from a relay
+ */
+async function receivePaymentRequest(event: NostrEvent, secretKey: Uint8Array, privateKey: string): Promise<void> {
+  // Requests processed before the queue existed
+  if (state.processedEventIds.has(event.id)) {
+    return;
+  }
+
+  const job = await enqueuePayment(event);
+  if (!job) {
+    log(`[PaymentProcessor] Event ${event.id.slice(0, 8)}... already queued, skipping`);
+    return;
+  }
+
+  log(`[PaymentProcessor] Queued payment request: ${event.id.slice(0, 8)}...`);
+
+  // In batch mode, wait for the requests that follow this one
+  if (BATCH_WINDOW_MS > 0) {
+    if (!state.batchTimer) {
+      state.batchTimer = setTimeout(() => {
+        state.batchTimer = null;
+        drainQueue(secretKey, privateKey);
+      }, BATCH_WINDOW_MS);
+    }
+    return;
+  }
+
+  await drainQueue(secretKey, privateKey);
+}
+
+/**
+ * What became of an escrow transfer, from its job in the queue
+ * Jobs still queued, and dead letters that may have gone through, are pending
+ * until they are processed or an admin replays them.
+ */
+const lookupEscrowPayment: PaymentLookup = async (requestId) => {
+  const job = await getPaymentJob(requestId);
+  if (!job) return null;
+  if (job.status === 'submitted' || job.status === 'confirmed') {
+    return { success: true, txHash: job.txHash };
+  }
+  if (job.status === 'failed' && !isUncertainJob(job)) {
+    return { success: false, error: job.error };
+  }
+  return 'pending';
+};
+
+/**
+ * Release or refund the escrow deposits that are due
+ * Settlement requests are queued and processed right away, then published so
+ * they show up in the ledgers (the subscription then skips them as already queued).
+ */
+async function sweepEscrow(secretKey: Uint8Array, privateKey: string): Promise<void> {
+  try {
+    const settlements = await settleDueEscrows(secretKey, async (request) => {
+      await enqueuePayment(request);
+      const job = await getPaymentJob(request.id);
+      if (!job || (job.status !== 'received' && job.status !== 'submitted')) {
+        return { success: false, error: 'Payment request already processed' };
+      }
+      const outcome = await runJob(job, secretKey, privateKey);
+      await publishToRelays(request);
+      return outcome;
+    }, lookupEscrowPayment);
+    if (settlements.length > 0) {
+      log(`[PaymentProcessor] Settled ${settlements.length} escrow deposit(s)`);
+    }
+  } catch (error) {
+    logError(`[PaymentProcessor] Escrow sweep failed:`, error);
   }
 }
 
@@ -413,14 +698,15 @@ async function processPaymentRequest(
 
 let connectionPool: NostrConnectionPool | null = null;
 
-async function publishToRelays(event: NostrEvent): Promise<void> {
+async function publishToRelays(event: NostrEvent): Promise<{ successful: number; failed: number }> {
   if (!connectionPool) {
     console.error('[PaymentProcessor] No connection pool available');
-    return;
+    return { successful: 0, failed: 0 };
   }
 
   const result = await connectionPool.publishToAll(event);
-  log(`[PaymentProcessor] Receipt published to ${result.successful}/${result.successful + result.failed} relays`);
+  log(`[PaymentProcessor] Event published to ${result.successful}/${result.successful + result.failed} relays`);
+  return result;
 }
 
 function setupConnectionPool(
@@ -453,10 +739,11 @@ async function main(): Promise<void> {
   log('='.repeat(60));
 
   // Check required environment variables
-  const privateKey = process.env.PRIVATE_KEY;
+  const privateKey = process.env.PRIVATE_KEY || '';
   const nostrNsec = process.env.NOSTR_NSEC;
 
-  if (!privateKey) {
+  // The in-memory token (CHAIN=memory) doesn't sign transactions
+  if (!privateKey && process.env.CHAIN !== 'memory') {
     console.error('[PaymentProcessor] ERROR: PRIVATE_KEY environment variable is required');
     process.exit(1);
   }
@@ -494,11 +781,26 @@ async function main(): Promise<void> {
   log(`[PaymentProcessor] npub: ${npub}`);
   log(`[PaymentProcessor] Chain: ${tokenConfig.chain}`);
   log(`[PaymentProcessor] Token: ${tokenConfig.symbol} (${tokenConfig.address})`);
+  if (BATCH_WINDOW_MS > 0 && tokenConfig.chain !== 'memory') {
+    log(`[PaymentProcessor] PAYMENT_BATCH_WINDOW_MS is set, but only CHAIN=memory can batch: one transaction per request`);
+  } else if (BATCH_WINDOW_MS > 0) {
+    log(`[PaymentProcessor] Batching mints and transfers every ${BATCH_WINDOW_MS}ms (up to ${MAX_BATCH_SIZE} per transaction)`);
+  }
   console.log('[PaymentProcessor] ------------------------------------');
 
   // Load processed events
   loadProcessedEvents();
 
+  // Jobs a previous run left in flight may or may not have gone through
+  const interrupted = await recoverInterruptedJobs();
+  for (const job of interrupted) {
+    logError(`[PaymentProcessor] Dead-lettered interrupted job ${job.requestId.slice(0, 8)}...`);
+  }
+  const deadLetters = await listDeadLetters();
+  if (deadLetters.length > 0) {
+    log(`[PaymentProcessor] ${deadLetters.length} dead letter(s), replay with: npm run replay-payments`);
+  }
+
   // Get relay URLs from environment variable
   const relayUrls = getRelayUrls();
   if (relayUrls.length === 0) {
@@ -520,15 +822,18 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  // Subscribe to payment request events
+  // Subscribe to payment request events, from before the newest queued request
+  // so that requests published while the processor was down aren't missed
+  const now = Math.floor(Date.now() / 1000);
+  const since = Math.min((await getLatestRequestTime()) ?? now, now) - SUBSCRIPTION_OVERLAP_SECONDS;
   connectionPool.subscribeAll({
     filters: [{
       kinds: [NOSTR_KINDS.PAYMENT_REQUEST],
-      since: Math.floor(Date.now() / 1000) - 3600, // Last hour
+      since,
     }],
     onEvent: async (event, relayUrl) => {
       if (event.kind === NOSTR_KINDS.PAYMENT_REQUEST) {
-        await processPaymentRequest(event, secretKey, privateKey);
+        await receivePaymentRequest(event, secretKey, privateKey);
       }
     },
     onEose: (relayUrl) => {
@@ -536,14 +841,23 @@ async function main(): Promise<void> {
     },
   });
 
-  log(`[PaymentProcessor] Subscribed to kind ${NOSTR_KINDS.PAYMENT_REQUEST} events`);
+  log(`[PaymentProcessor] Subscribed to kind ${NOSTR_KINDS.PAYMENT_REQUEST} events since ${new Date(since * 1000).toISOString()}`);
+
+  // Resume the jobs left in the queue, and pick up replayed dead letters
+  drainQueue(secretKey, privateKey);
+  const queueTimer = setInterval(() => drainQueue(secretKey, privateKey), QUEUE_POLL_INTERVAL_MS);
+
+  // Settle RSVP escrow deposits that are due
+  const escrowTimer = setInterval(() => sweepEscrow(secretKey, privateKey), ESCROW_SWEEP_INTERVAL_MS);
   console.log('[PaymentProcessor] Listening for payment requests...');
   console.log('[PaymentProcessor] Press Ctrl+C to stop');
 
   // Handle shutdown
   const shutdown = () => {
     log('\n[PaymentProcessor] Shutting down...');
-    saveProcessedEvents();
+    clearInterval(escrowTimer);
+    clearInterval(queueTimer);
+    if (state.batchTimer) clearTimeout(state.batchTimer);
     connectionPool?.closeAll();
     process.exit(0);
   };
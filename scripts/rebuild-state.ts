@@ -0,0 +1,51 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Rebuild State Script
+ *
+ * Replays the recorded NOSTR log (kinds 0, 1, 7, 1734, 1735, 31922) and
+ * regenerates offers, RSVP lists and room calendars (events.json and
+ * proposals.ics) from it.
+ *
+ * With --verify, nothing is written: the script lists where the state on
+ * disk differs from the log and exits with code 1 if it does.
+ *
+ * Usage:
+ *   npm run rebuild-state
+ *   npm run rebuild-state -- --verify
+ */
+
+import { rebuildState } from '../src/lib/state-rebuild';
+
+async function main() {
+  const verify = process.argv.includes('--verify');
+
+  console.log(`=== ${verify ? 'Verifying' : 'Rebuilding'} state from the NOSTR log ===\n`);
+
+  const report = await rebuildState({ verify });
+
+  console.log(`Events replayed: ${report.eventsReplayed}`);
+  console.log(`Events ignored:  ${report.eventsIgnored}`);
+
+  if (report.differences.length === 0) {
+    console.log('\n✅ State on disk matches the log');
+    return;
+  }
+
+  console.log(`\n${report.differences.length} difference(s):`);
+  for (const diff of report.differences) {
+    console.log(`  [${diff.type}] ${diff.id}: ${diff.message}`);
+  }
+
+  if (verify) {
+    console.log('\n❌ State on disk differs from the log (run without --verify to rebuild)');
+    process.exit(1);
+  }
+
+  console.log(`\n✅ Rebuilt ${report.offersRebuilt} offer(s) and ${report.roomsRebuilt} room calendar(s)`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -83,6 +83,8 @@ import {
   generateIcsFile,
   getProposalEvent,
 } from '../src/lib/local-calendar';
+import { withLock, atomicWriteFile } from '../src/lib/file-lock';
+import { getOfferLockResource } from '../src/lib/storage-backend';
 
 // ============================================================================
 // Configuration
@@ -216,33 +218,35 @@ async function confirmBookingOrOffer(
     }
 
     // Check if offer already exists
-    if (fs.existsSync(offerPath)) {
-      log(`[ReceiptListener] Offer ${offerId} already exists, updating status`);
-      const existing = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
-      if (existing.status !== 'confirmed') {
-        existing.status = 'confirmed';
-        existing.updatedAt = new Date().toISOString();
-        fs.writeFileSync(offerPath, JSON.stringify(existing, null, 2));
+    await withLock(getOfferLockResource(offerId), async () => {
+      if (fs.existsSync(offerPath)) {
+        log(`[ReceiptListener] Offer ${offerId} already exists, updating status`);
+        const existing = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
+        if (existing.status !== 'confirmed') {
+          existing.status = 'confirmed';
+          existing.updatedAt = new Date().toISOString();
+          await atomicWriteFile(offerPath, JSON.stringify(existing, null, 2));
+        }
+      } else {
+        // Create new offer from booking details
+        const offer: Offer = {
+          id: offerId,
+          type: 'private',
+          title,
+          description,
+          status: 'confirmed',
+          room,
+          startTime,
+          endTime,
+          authors: [sender],
+          updatedAt: new Date().toISOString(),
+          publicationCost: bookingDetails?.publicationCost, // Store the cost for refunds on cancellation
+        };
+
+        await atomicWriteFile(offerPath, JSON.stringify(offer, null, 2));
+        log(`[ReceiptListener] Created confirmed booking: ${offerId}`);
       }
-    } else {
-      // Create new offer from booking details
-      const offer: Offer = {
-        id: offerId,
-        type: 'private',
-        title,
-        description,
-        status: 'confirmed',
-        room,
-        startTime,
-        endTime,
-        authors: [sender],
-        updatedAt: new Date().toISOString(),
-        publicationCost: bookingDetails?.publicationCost, // Store the cost for refunds on cancellation
-      };
-
-      fs.writeFileSync(offerPath, JSON.stringify(offer, null, 2));
-      log(`[ReceiptListener] Created confirmed booking: ${offerId}`);
-    }
+    });
 
     // Add to calendar
     try {
@@ -291,20 +295,25 @@ async function confirmBookingOrOffer(
       return;
     }
 
-    const content = fs.readFileSync(offerPath, 'utf-8');
-    const offer: Offer = JSON.parse(content);
-
     // Needs are confirmed immediately, workshops need RSVPs
     const newStatus = context === 'need' ? 'confirmed' : 'tentative';
 
-    if (offer.status === newStatus || offer.status === 'confirmed') {
-      log(`[ReceiptListener] Offer ${relatedEventId} already has status: ${offer.status}`);
-      return;
-    }
+    // Update the status while holding the offer lock (the API routes write the same file)
+    const offer = await withLock(getOfferLockResource(relatedEventId), async () => {
+      const current: Offer = JSON.parse(fs.readFileSync(offerPath, 'utf-8'));
+
+      if (current.status === newStatus || current.status === 'confirmed') {
+        log(`[ReceiptListener] Offer ${relatedEventId} already has status: ${current.status}`);
+        return null;
+      }
+
+      current.status = newStatus;
+      current.updatedAt = new Date().toISOString();
+      await atomicWriteFile(offerPath, JSON.stringify(current, null, 2));
+      return current;
+    });
 
-    offer.status = newStatus;
-    offer.updatedAt = new Date().toISOString();
-    fs.writeFileSync(offerPath, JSON.stringify(offer, null, 2));
+    if (!offer) return;
     log(`[ReceiptListener] Updated offer ${relatedEventId} status to: ${newStatus}`);
 
     // Update calendar event
@@ -0,0 +1,66 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Reconcile Script
+ *
+ * Compares every profile's on-chain token balance with the balance its
+ * payment receipts (kind 1735) add up to, and lists the discrepancies with
+ * the payment requests that could explain them (see src/lib/reconciliation.ts).
+ *
+ * Uses CHAIN and TOKEN_ADDRESS like the payment processor, so it can be run
+ * against a local Hardhat/Anvil chain with CHAIN=localhost. Exits with code 1
+ * if any balance disagrees or can't be fetched.
+ *
+ * Usage:
+ *   npm run reconcile
+ *   npm run reconcile -- <npub> [<npub>...]
+ */
+
+import { reconcileBalances } from '../src/lib/reconciliation';
+import { getChain } from '../src/lib/token-factory';
+
+async function main() {
+  const npubs = process.argv.slice(2).filter((arg) => arg.startsWith('npub1'));
+
+  console.log(`=== Reconciling balances on ${getChain()} ===\n`);
+
+  const report = await reconcileBalances({ npubs: npubs.length > 0 ? npubs : undefined });
+
+  console.log(`Profiles: ${report.profiles}`);
+  console.log(`Matched:  ${report.matched}`);
+
+  for (const { npub, error } of report.errors) {
+    console.log(`\n  ⚠️ ${npub}: ${error}`);
+  }
+
+  for (const discrepancy of report.discrepancies) {
+    const sign = discrepancy.difference > 0 ? '+' : '';
+    console.log(
+      `\n  ${discrepancy.username || discrepancy.npub}: ${discrepancy.actual} on chain, ` +
+        `${discrepancy.expected} from receipts (${sign}${discrepancy.difference})`
+    );
+    if (discrepancy.candidates.length === 0) {
+      console.log('    No candidate payment request');
+    }
+    for (const candidate of discrepancy.candidates) {
+      const queue = candidate.queueStatus ? `, queue: ${candidate.queueStatus}` : '';
+      const match = candidate.matchesDifference ? ' ← matches' : '';
+      console.log(
+        `    ${candidate.eventId} ${candidate.method} ${candidate.direction} ${candidate.amount} ` +
+          `(${candidate.context}) ${candidate.status}${queue}${match}`
+      );
+    }
+  }
+
+  if (report.discrepancies.length > 0 || report.errors.length > 0) {
+    console.log(`\n❌ ${report.discrepancies.length} discrepancy(ies), ${report.errors.length} error(s)`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ All balances match their receipts');
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -88,6 +88,8 @@ const EVENT_KIND_INFO: Record<number, { name: string; description: string }> = {
   [NOSTR_KINDS.REACTION]: { name: 'Reaction', description: 'Reactions and RSVPs to events' },
   [NOSTR_KINDS.PAYMENT_REQUEST]: { name: 'Payment Request', description: 'Token mint/transfer/burn requests' },
   [NOSTR_KINDS.PAYMENT_RECEIPT]: { name: 'Payment Receipt', description: 'Confirmed token transactions' },
+  [NOSTR_KINDS.BADGE_REBIND]: { name: 'Badge Rebind', description: 'Lost badges revoked and replaced' },
+  [NOSTR_KINDS.INVOICE]: { name: 'Invoice', description: 'Token requests from one villager to another' },
   [NOSTR_KINDS.CALENDAR_EVENT]: { name: 'Calendar Event', description: 'Workshop/calendar events (NIP-52)' },
   31923: { name: 'Calendar RSVP', description: 'Calendar event RSVPs (NIP-52)' },
 };
@@ -296,8 +298,9 @@ function processEvent(event: NostrEvent, relayUrl: string): void {
     }
   }
 
-  // For reactions (RSVPs), record for the referenced event author
-  if (event.kind === NOSTR_KINDS.REACTION) {
+  // For reactions (RSVPs), record for the referenced event author,
+  // and for invoices, for the villager asked to pay
+  if (event.kind === NOSTR_KINDS.REACTION || event.kind === NOSTR_KINDS.INVOICE) {
     const pTag = event.tags.find(t => t[0] === 'p');
     if (pTag && pTag[1]) {
       try {
@@ -0,0 +1,71 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Replay Payments Script
+ *
+ * Lists the payment processor's dead letters: payment requests that were
+ * rejected or ran out of retries (see src/lib/payment-queue.ts), and puts
+ * them back in the queue. The running payment processor picks replayed
+ * requests up within 30 seconds.
+ *
+ * Before replaying a request that was interrupted or may have gone through,
+ * check its nonce on the chain: replaying it sends the payment again.
+ *
+ * Usage:
+ *   npm run replay-payments                 # List the dead letters
+ *   npm run replay-payments -- <requestId>  # Replay one (a unique prefix is enough)
+ *   npm run replay-payments -- --all        # Replay all of them
+ */
+
+import { listDeadLetters, replayDeadLetter, type PaymentJob } from '../src/lib/payment-queue';
+import { parsePaymentRequestEvent } from '../src/lib/nostr-events';
+
+function describeJob(job: PaymentJob): string {
+  const request = parsePaymentRequestEvent(job.event);
+  const payment = request
+    ? `${request.method} ${request.amount} ${request.tokenSymbol || ''} (${request.context})`.replace(/\s+/g, ' ')
+    : 'invalid request';
+  const nonce = job.nonce !== undefined ? `, nonce ${job.nonce}` : '';
+  return `${job.requestId}  ${payment}\n    ${job.updatedAt}, ${job.attempts} attempt(s)${nonce}: ${job.error || 'no error recorded'}`;
+}
+
+async function main() {
+  const [arg] = process.argv.slice(2);
+  const deadLetters = await listDeadLetters();
+
+  if (!arg) {
+    console.log(`=== ${deadLetters.length} dead letter(s) ===\n`);
+    for (const job of deadLetters) {
+      console.log(`  ${describeJob(job)}`);
+    }
+    if (deadLetters.length > 0) {
+      console.log('\nReplay with: npm run replay-payments -- <requestId> (or --all)');
+    }
+    return;
+  }
+
+  const targets = arg === '--all' ? deadLetters : deadLetters.filter((job) => job.requestId.startsWith(arg));
+  if (targets.length === 0) {
+    console.error(`No dead letter matches ${arg}`);
+    process.exit(1);
+  }
+  if (arg !== '--all' && targets.length > 1) {
+    console.error(`${targets.length} dead letters match ${arg}, use a longer prefix`);
+    process.exit(1);
+  }
+
+  let replayed = 0;
+  for (const job of targets) {
+    if (await replayDeadLetter(job.requestId)) {
+      replayed++;
+      console.log(`  Replayed ${describeJob(job)}`);
+    }
+  }
+
+  console.log(`\n✅ ${replayed} payment request(s) back in the queue`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
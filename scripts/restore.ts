@@ -0,0 +1,70 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Restore Script
+ *
+ * Restores a backup made by `npm run backup` into a new (or empty)
+ * directory and verifies every file against the manifest checksums.
+ * Incremental backups also need the earlier archives of their chain in
+ * the same directory.
+ *
+ * Point DATA_DIR at the restored directory (or move it in place) once the
+ * restore succeeds; the live data directory is never overwritten.
+ *
+ * Usage:
+ *   npm run restore -- <backup.tar.gz|latest> <target-dir>
+ *   npm run restore -- --verify <backup.tar.gz|latest>
+ */
+
+import path from 'path';
+import { getBackupDir, listBackups, restoreBackup, verifyBackup } from '../src/lib/backup';
+
+async function resolveArchive(arg: string | undefined): Promise<string> {
+  if (arg && arg !== 'latest') {
+    return path.resolve(arg);
+  }
+
+  const latest = (await listBackups()).pop();
+  if (!latest) {
+    throw new Error(`No backups found in ${getBackupDir()}`);
+  }
+  return latest;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verifyOnly = args.includes('--verify');
+  const [archiveArg, targetArg] = args.filter((a) => !a.startsWith('--'));
+
+  if (!verifyOnly && !targetArg) {
+    console.log('Usage:');
+    console.log('  npm run restore -- <backup.tar.gz|latest> <target-dir>');
+    console.log('  npm run restore -- --verify <backup.tar.gz|latest>');
+    process.exit(1);
+  }
+
+  const archivePath = await resolveArchive(archiveArg);
+  console.log(`=== ${verifyOnly ? 'Verifying' : 'Restoring'} ${path.basename(archivePath)} ===\n`);
+
+  const result = verifyOnly
+    ? await verifyBackup(archivePath)
+    : await restoreBackup(archivePath, path.resolve(targetArg));
+
+  console.log(`Backup taken:  ${result.manifest.createdAt} (${result.manifest.kind})`);
+  console.log(`Entries:       ${result.restored}/${result.manifest.entries.length} restored`);
+
+  if (result.problems.length > 0) {
+    console.log(`\n❌ ${result.problems.length} problem(s):`);
+    for (const problem of result.problems) {
+      console.log(`  ${problem}`);
+    }
+    process.exit(1);
+  }
+
+  console.log(verifyOnly ? '\n✅ Backup restores cleanly' : `\n✅ Restored to ${path.resolve(targetArg)}`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
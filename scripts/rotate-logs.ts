@@ -0,0 +1,53 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Rotate Logs Script
+ *
+ * Applies the "logRetention" policy from settings.json to the JSONL logs in
+ * DATA_DIR (nostr_events.jsonl, per-user nostr_events.jsonl and
+ * notifications.jsonl): rotates them by size or day, compacts replaceable
+ * events, gzips archives and deletes expired ones.
+ *
+ * Meant to run from cron, e.g. every hour.
+ *
+ * Usage:
+ *   npm run rotate-logs
+ */
+
+import { loadRetentionPolicy, runLogRetention } from '../src/lib/log-retention';
+
+async function main() {
+  const policy = loadRetentionPolicy();
+
+  console.log('=== Rotating logs ===\n');
+  console.log(`Rotate at: ${policy.rotateAtMB > 0 ? `${policy.rotateAtMB} MB` : 'never by size'}${policy.rotateDaily ? ', daily' : ''}`);
+  console.log(`Compact kinds: ${policy.compactKinds.join(', ') || 'none'}`);
+  console.log(`Keep archives: ${policy.keepArchivesDays > 0 ? `${policy.keepArchivesDays} days` : 'forever'}\n`);
+
+  const results = await runLogRetention(policy);
+
+  let rotated = 0;
+  let compacted = 0;
+  let pruned = 0;
+  for (const result of results) {
+    if (result.rotatedTo) {
+      rotated++;
+      console.log(`  Rotated ${result.path} -> ${result.rotatedTo}`);
+    }
+    if (result.compacted > 0) {
+      compacted += result.compacted;
+      console.log(`  Compacted ${result.compacted} superseded event(s) in ${result.path} archives`);
+    }
+    for (const archive of result.pruned) {
+      pruned++;
+      console.log(`  Deleted expired archive ${archive}`);
+    }
+  }
+
+  console.log(`\n✅ Checked ${results.length} log(s): ${rotated} rotated, ${compacted} event(s) compacted, ${pruned} archive(s) deleted`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
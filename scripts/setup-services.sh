@@ -470,13 +470,19 @@ chmod 440 /etc/sudoers.d/${SERVICE_PREFIX}-deploy
 echo -e "${GREEN}✓ Created /etc/sudoers.d/${SERVICE_PREFIX}-deploy${NC}"
 
 echo ""
-echo -e "${BLUE}Step 6: Setting up cron job for calendar sync...${NC}"
+echo -e "${BLUE}Step 6: Setting up cron jobs for calendar sync and backups...${NC}"
 # Create cron job for calendar sync (every 5 minutes)
 CRON_CMD="*/5 * * * * cd $APP_DIR && $BUN_PATH run scripts/sync-calendars.ts >> /var/log/osv/calendar-sync.log 2>&1"
 # Check if cron job already exists
 (crontab -u $APP_USER -l 2>/dev/null | grep -v "sync-calendars.ts"; echo "$CRON_CMD") | crontab -u $APP_USER -
 echo -e "${GREEN}✓ Added cron job for calendar sync (every 5 minutes)${NC}"
 
+# Snapshots of the data directory: full every night, incremental every hour
+BACKUP_FULL_CMD="15 3 * * * cd $APP_DIR && $BUN_PATH run scripts/backup.ts >> /var/log/osv/backup.log 2>&1"
+BACKUP_INCREMENTAL_CMD="45 * * * * cd $APP_DIR && $BUN_PATH run scripts/backup.ts --incremental >> /var/log/osv/backup.log 2>&1"
+(crontab -u $APP_USER -l 2>/dev/null | grep -v "scripts/backup.ts"; echo "$BACKUP_FULL_CMD"; echo "$BACKUP_INCREMENTAL_CMD") | crontab -u $APP_USER -
+echo -e "${GREEN}✓ Added cron jobs for data backups (full nightly, incremental hourly)${NC}"
+
 echo ""
 echo -e "${BLUE}Step 7: Reloading systemd daemon...${NC}"
 systemctl daemon-reload
@@ -0,0 +1,354 @@
+'use client';
+
+/**
+ * Admin Page
+ *
+ * Moderation console for the npubs listed under "admins" in settings.json:
+ * hide or cancel offers, suspend users, reassign or re-bind lost badges and
+ * adjust balances.
+ * Every action is recorded in the audit log shown at the bottom.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { getStoredCredentials } from '@/lib/nostr';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import type { Offer, Suspension, TokenBalance } from '@/types';
+import type { AuditLogEntry } from '@/lib/admin';
+
+interface AdminUser {
+  npub: string;
+  username: string;
+  name?: string;
+  serialNumber: string;
+  balance: TokenBalance;
+  suspended?: Suspension;
+  admin: boolean;
+  invites: { quota: number; custom: boolean; invited: number };
+}
+
+export default function AdminPage() {
+  const router = useRouter();
+  const { signedFetch } = useNostrPublisher();
+  const [access, setAccess] = useState<'checking' | 'granted' | 'denied'>('checking');
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Badge reassignment form
+  const [badgeSerial, setBadgeSerial] = useState('');
+  const [badgeUser, setBadgeUser] = useState('');
+  const [badgeLost, setBadgeLost] = useState(false);
+
+  // Balance adjustment form
+  const [balanceUser, setBalanceUser] = useState('');
+  const [balanceAmount, setBalanceAmount] = useState('');
+  const [balanceReason, setBalanceReason] = useState('');
+
+  const loadData = useCallback(async () => {
+    const [offersRes, usersRes, auditRes] = await Promise.all([
+      signedFetch('/api/admin/offers'),
+      signedFetch('/api/admin/users'),
+      signedFetch('/api/admin/audit'),
+    ]);
+
+    if (!offersRes.ok || !usersRes.ok || !auditRes.ok) {
+      setAccess('denied');
+      return;
+    }
+
+    setOffers((await offersRes.json()).offers);
+    setUsers((await usersRes.json()).users);
+    setAuditLog((await auditRes.json()).entries);
+    setAccess('granted');
+  }, [signedFetch]);
+
+  useEffect(() => {
+    if (!getStoredCredentials()) {
+      router.push('/badge');
+      return;
+    }
+    loadData().catch((err) => {
+      console.error('[Admin] Failed to load data:', err);
+      setAccess('denied');
+    });
+  }, [router, loadData]);
+
+  const runAction = async (url: string, body: Record<string, unknown>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await signedFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      setMessage(data.success ? { success: true, text: successText } : { success: false, text: data.error });
+      await loadData();
+      return data.success as boolean;
+    } catch (err) {
+      setMessage({ success: false, text: err instanceof Error ? err.message : 'Request failed' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleHidden = (offer: Offer) =>
+    runAction('/api/admin/offers', { offerId: offer.id, hidden: !offer.hidden },
+      `${offer.hidden ? 'Unhid' : 'Hid'} "${offer.title}"`);
+
+  const cancelOffer = (offer: Offer) => {
+    if (!window.confirm(`Cancel "${offer.title}" and refund its author and attendees?`)) return;
+    runAction(`/api/offers/${offer.id}/cancel`, {}, `Cancelled "${offer.title}"`);
+  };
+
+  const toggleSuspended = (user: AdminUser) => {
+    if (user.suspended) {
+      runAction('/api/admin/users', { npub: user.npub, action: 'unsuspend' }, `Lifted suspension of @${user.username}`);
+      return;
+    }
+    const reason = window.prompt(`Suspend @${user.username}? Reason (optional):`);
+    if (reason === null) return;
+    runAction('/api/admin/users', { npub: user.npub, action: 'suspend', reason }, `Suspended @${user.username}`);
+  };
+
+  const editInviteQuota = (user: AdminUser) => {
+    const input = window.prompt(
+      `Invite quota for @${user.username} (${user.invites.invited} invited so far). Leave empty for the default:`,
+      user.invites.custom ? String(user.invites.quota) : ''
+    );
+    if (input === null) return;
+    const quota = input.trim() === '' ? null : Number(input);
+    runAction('/api/admin/users', { npub: user.npub, action: 'setInviteQuota', quota },
+      `Set invite quota of @${user.username} to ${quota ?? 'the default'}`);
+  };
+
+  const reassignBadge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // A lost badge is re-bound: the user's current badge goes on the revocation list
+    const ok = badgeLost
+      ? await runAction('/api/badge/rebind', { serialNumber: badgeSerial, npub: badgeUser, reason: 'lost' },
+        `Badge ${badgeSerial} linked, previous badge revoked`)
+      : await runAction('/api/admin/badges', { serialNumber: badgeSerial, npub: badgeUser },
+        `Badge ${badgeSerial} reassigned`);
+    if (ok) {
+      setBadgeSerial('');
+      setBadgeUser('');
+      setBadgeLost(false);
+    }
+  };
+
+  const adjustBalance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runAction('/api/admin/balance', { npub: balanceUser, amount: balanceAmount, reason: balanceReason },
+      `Balance adjustment of ${balanceAmount} requested`)) {
+      setBalanceAmount('');
+      setBalanceReason('');
+    }
+  };
+
+  if (access === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-gray-600">Checking access...</div>
+      </div>
+    );
+  }
+
+  if (access === 'denied') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h1>
+          <p className="text-gray-600">
+            This page is only available to the admins listed in settings.json.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder-gray-400';
+  const userOptions = users.map((user) => (
+    <option key={user.npub} value={user.npub}>@{user.username} (badge {user.serialNumber})</option>
+  ));
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800">Admin</h1>
+
+        {message && (
+          <div className={`p-4 rounded-lg text-sm ${message.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Offers</h2>
+          <div className="divide-y divide-gray-100">
+            {offers.map((offer) => (
+              <div key={offer.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className={`font-medium truncate ${offer.hidden ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {offer.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {offer.type} · {offer.status}{offer.hidden ? ' · hidden' : ''}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => toggleHidden(offer)}
+                    disabled={busy}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg"
+                  >
+                    {offer.hidden ? 'Unhide' : 'Hide'}
+                  </button>
+                  {offer.status !== 'cancelled' && (
+                    <button
+                      onClick={() => cancelOffer(offer)}
+                      disabled={busy}
+                      className="px-3 py-1 text-sm bg-red-50 hover:bg-red-100 disabled:opacity-50 text-red-700 rounded-lg"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {offers.length === 0 && <p className="text-sm text-gray-500">No offers yet.</p>}
+          </div>
+        </section>
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Users</h2>
+          <div className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <div key={user.npub} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    @{user.username}{user.admin ? ' (admin)' : ''}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Badge {user.serialNumber} · {user.balance?.total ?? 0} tokens
+                    {' '}· {user.invites.invited}/{user.invites.quota} invites{user.invites.custom ? ' (custom)' : ''}
+                    {user.suspended && ` · suspended ${new Date(user.suspended.at).toLocaleString()}${user.suspended.reason ? `: ${user.suspended.reason}` : ''}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => editInviteQuota(user)}
+                    disabled={busy}
+                    className="px-3 py-1 text-sm rounded-lg disabled:opacity-50 bg-gray-100 hover:bg-gray-200 text-gray-700"
+                  >
+                    Quota
+                  </button>
+                  {!user.admin && (
+                    <button
+                      onClick={() => toggleSuspended(user)}
+                      disabled={busy}
+                      className={`px-3 py-1 text-sm rounded-lg disabled:opacity-50 shrink-0 ${
+                        user.suspended ? 'bg-gray-100 hover:bg-gray-200 text-gray-700' : 'bg-red-50 hover:bg-red-100 text-red-700'
+                      }`}
+                    >
+                      {user.suspended ? 'Unsuspend' : 'Suspend'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Reassign Badge</h2>
+            <form onSubmit={reassignBadge} className="space-y-3">
+              <input
+                value={badgeSerial}
+                onChange={(e) => setBadgeSerial(e.target.value)}
+                placeholder="Badge serial number"
+                className={inputClass}
+                required
+              />
+              <select value={badgeUser} onChange={(e) => setBadgeUser(e.target.value)} className={inputClass} required>
+                <option value="">Select a user</option>
+                {userOptions}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={badgeLost} onChange={(e) => setBadgeLost(e.target.checked)} />
+                Lost badge: revoke the user&apos;s current badge
+              </label>
+              <p className="text-xs text-gray-500">
+                {badgeLost
+                  ? 'The new badge must be unclaimed. The old one can no longer be claimed or scanned.'
+                  : 'If another user holds the badge, the two users swap badges.'}
+              </p>
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+              >
+                Reassign
+              </button>
+            </form>
+          </section>
+
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Adjust Balance</h2>
+            <form onSubmit={adjustBalance} className="space-y-3">
+              <select value={balanceUser} onChange={(e) => setBalanceUser(e.target.value)} className={inputClass} required>
+                <option value="">Select a user</option>
+                {userOptions}
+              </select>
+              <input
+                type="number"
+                step="any"
+                value={balanceAmount}
+                onChange={(e) => setBalanceAmount(e.target.value)}
+                placeholder="Amount (negative to burn)"
+                className={inputClass}
+                required
+              />
+              <input
+                value={balanceReason}
+                onChange={(e) => setBalanceReason(e.target.value)}
+                placeholder="Reason"
+                className={inputClass}
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full py-2 px-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+              >
+                Send {Number(balanceAmount) < 0 ? 'Burn' : 'Mint'} Request
+              </button>
+            </form>
+          </section>
+        </div>
+
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Audit Log</h2>
+          <ul className="space-y-2 text-sm">
+            {auditLog.map((entry) => (
+              <li key={entry.id} className="flex gap-3">
+                <span className="text-gray-400 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                <span className={entry.result === 'success' ? 'text-gray-800' : 'text-red-700'}>
+                  <span className="font-mono">{entry.action}</span> {entry.target}
+                  {' '}by {users.find((u) => u.npub === entry.admin)?.username || entry.admin.substring(0, 16) + '...'}
+                  {entry.error && ` (failed: ${entry.error})`}
+                </span>
+              </li>
+            ))}
+            {auditLog.length === 0 && <li className="text-gray-500">No admin actions yet.</li>}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -3,44 +3,40 @@
  * GET /api/activity - Get recent Nostr events for the activity feed
  *
  * Query Parameters:
- * - limit: Maximum number of events to return (default: 20)
+ * - limit: Maximum number of events to return (default: 20, max: 100)
  * - kinds: Comma-separated list of event kinds to filter by
+ * - since, until: unix timestamps (created_at range, inclusive)
+ * - cursor: nextCursor from the previous page
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { readAllNostrEvents, type GlobalEventEntry } from '@/lib/nostr-logger';
+import { queryNostrEvents } from '@/lib/nostr-logger';
+import { parseEventFilterParams } from '@/lib/nostr-event-index';
 import { NOSTR_KINDS } from '@/lib/nostr-events';
 
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const limitParam = searchParams.get('limit');
-    const kindsParam = searchParams.get('kinds');
-
-    const limit = limitParam ? parseInt(limitParam, 10) : 20;
+    const filter = parseEventFilterParams(request.nextUrl.searchParams, {
+      defaultLimit: 20,
+      maxLimit: 100,
+    });
 
     // Default to payment receipts and calendar events for activity feed
-    let kinds: number[] | undefined;
-    if (kindsParam) {
-      kinds = kindsParam.split(',').map(k => parseInt(k.trim(), 10)).filter(k => !isNaN(k));
-    } else {
-      // Default kinds for activity feed
-      kinds = [
+    if (!filter.kinds) {
+      filter.kinds = [
         NOSTR_KINDS.PAYMENT_RECEIPT,
         NOSTR_KINDS.CALENDAR_EVENT,
         NOSTR_KINDS.NOTE,
       ];
     }
 
-    const entries = readAllNostrEvents({
-      limit,
-      kinds,
-    });
+    const { entries, nextCursor } = queryNostrEvents(filter);
 
     return NextResponse.json({
       success: true,
       events: entries,
       count: entries.length,
+      nextCursor,
     });
   } catch (error) {
     console.error('[Activity API] Error:', error);
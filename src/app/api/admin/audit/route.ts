@@ -0,0 +1,21 @@
+/**
+ * Admin Audit Log API
+ *
+ * GET /api/admin/audit?limit=100 - Admin actions, newest first
+ *
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, readAuditLog, withAdminAuth } from '@/lib/admin';
+
+export const GET = withAdminAuth(async (request) => {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '100', 10);
+    const entries = await readAuditLog(Number.isNaN(limit) || limit <= 0 ? 100 : limit);
+
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Audit API]');
+  }
+});
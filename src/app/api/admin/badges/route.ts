@@ -0,0 +1,29 @@
+/**
+ * Admin Badges API
+ *
+ * POST /api/admin/badges { serialNumber, npub } - Give a badge to a user
+ *
+ * If another user holds the badge, the two users swap badges.
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, reassignBadge, withAdminAuth } from '@/lib/admin';
+
+export const POST = withAdminAuth(async (request, _context, auth) => {
+  try {
+    const { serialNumber, npub } = await request.json();
+
+    if (!serialNumber || !npub) {
+      return NextResponse.json(
+        { success: false, error: 'serialNumber and npub are required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await reassignBadge(auth.npub, String(serialNumber), npub);
+    return NextResponse.json({ success: true, npub: profile.npub, serialNumber: profile.serialNumber });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Badges API]');
+  }
+});
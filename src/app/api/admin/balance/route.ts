@@ -0,0 +1,91 @@
+/**
+ * Admin Balance API
+ *
+ * POST /api/admin/balance { npub, amount, reason? }
+ *
+ * Adjusts a user's balance with a server-signed payment request: a positive
+ * amount is minted to the user, a negative amount is burned from their wallet.
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { nip19, getPublicKey } from 'nostr-tools';
+import { createPaymentRequestEvent, decodeNsec, CHAIN_IDS } from '@/lib/nostr-events';
+import { publishNostrEvent } from '@/lib/nostr-server';
+import { getWalletAddressForNpub } from '@/lib/token-factory';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { AdminActionError, adminErrorResponse, recordAdminAction, withAdminAuth } from '@/lib/admin';
+
+export const POST = withAdminAuth(async (request, _context, auth) => {
+  try {
+    const { npub, amount, reason } = await request.json();
+    const parsedAmount = parseFloat(amount);
+
+    if (!npub || isNaN(parsedAmount) || parsedAmount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'npub and a non-zero amount are required' },
+        { status: 400 }
+      );
+    }
+
+    const method = parsedAmount > 0 ? 'mint' : 'burn';
+    const tokens = Math.abs(parsedAmount);
+
+    const event = await recordAdminAction(auth.npub, 'balance.adjust', npub, { amount: parsedAmount, reason }, async () => {
+      const profile = await getStorageBackend().getProfileByNpub(npub);
+      if (!profile) {
+        throw new AdminActionError('User not found', 404);
+      }
+
+      const nsec = process.env.NOSTR_NSEC;
+      const tokenAddress = process.env.TOKEN_ADDRESS;
+      if (!nsec || !tokenAddress) {
+        throw new AdminActionError('NOSTR_NSEC or TOKEN_ADDRESS is not configured', 500);
+      }
+
+      const secretKey = decodeNsec(nsec);
+      const chainId = CHAIN_IDS[process.env.CHAIN || 'gnosis'] || CHAIN_IDS.gnosis;
+      const tokenSymbol = process.env.TOKEN_SYMBOL || 'OSV';
+      const walletAddress = await getWalletAddressForNpub(npub);
+      const description = `Balance adjustment by admin: ${parsedAmount > 0 ? '+' : '-'}${tokens} ${tokenSymbol}${reason ? ` (${reason})` : ''}`;
+
+      // Mints come from the system; burns are taken from the user's wallet
+      const paymentRequest = createPaymentRequestEvent(secretKey, method === 'mint'
+        ? {
+            recipient: npub,
+            recipientAddress: walletAddress,
+            sender: nip19.npubEncode(getPublicKey(secretKey)),
+            amount: tokens,
+            tokenAddress,
+            chainId,
+            tokenSymbol,
+            context: 'admin_adjustment',
+            description,
+            method,
+          }
+        : {
+            recipient: '',
+            recipientAddress: '',
+            sender: npub,
+            senderAddress: walletAddress,
+            amount: tokens,
+            tokenAddress,
+            chainId,
+            tokenSymbol,
+            context: 'admin_adjustment',
+            description,
+            method,
+          });
+
+      const result = await publishNostrEvent(paymentRequest, { secretKey });
+      if (!result.success) {
+        throw new Error(`Failed to publish ${method} request: ${result.failed.map(f => `${f.url}: ${f.error}`).join('; ')}`);
+      }
+      return paymentRequest;
+    });
+
+    return NextResponse.json({ success: true, method, amount: tokens, eventId: event.id });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Balance API]');
+  }
+});
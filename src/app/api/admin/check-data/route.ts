@@ -0,0 +1,44 @@
+/**
+ * Data Integrity Check API
+ *
+ * GET  /api/admin/check-data              - Report inconsistencies in DATA_DIR
+ * POST /api/admin/check-data { fix: true } - Report and repair the fixable ones
+ *
+ * Same checks as `npm run check-data` (see lib/data-check.ts).
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ * Repairs are recorded in the audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminErrorResponse, recordAdminAction, withAdminAuth } from '@/lib/admin';
+import { checkData } from '@/lib/data-check';
+
+async function runCheck(admin: string, fix: boolean) {
+  try {
+    const report = fix
+      ? await recordAdminAction(admin, 'data.repair', 'data', undefined, () => checkData({ fix }))
+      : await checkData({ fix });
+    console.log(
+      `[Check Data API] ${report.issues.length} issue(s) found${fix ? `, ${report.fixed} fixed` : ''}`
+    );
+    return NextResponse.json({ success: true, report }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return adminErrorResponse(error, '[Check Data API]');
+  }
+}
+
+export const GET = withAdminAuth(async (_request, _context, auth) => {
+  return runCheck(auth.npub, false);
+});
+
+export const POST = withAdminAuth(async (request: NextRequest, _context, auth) => {
+  let fix = false;
+  try {
+    const body = await request.json();
+    fix = body?.fix === true;
+  } catch {
+    // No body: report only
+  }
+
+  return runCheck(auth.npub, fix);
+});
@@ -0,0 +1,43 @@
+/**
+ * Admin Offers API
+ *
+ * GET  /api/admin/offers                       - All offers, including hidden ones
+ * POST /api/admin/offers { offerId, hidden }   - Hide an offer or show it again
+ *
+ * Offers are cancelled through POST /api/offers/[id]/cancel, which admins may
+ * call for any offer.
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { adminErrorResponse, setOfferHidden, withAdminAuth } from '@/lib/admin';
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const offers = await getStorageBackend().listOffers();
+    offers.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return NextResponse.json({ success: true, offers });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Offers API]');
+  }
+});
+
+export const POST = withAdminAuth(async (request, _context, auth) => {
+  try {
+    const { offerId, hidden } = await request.json();
+
+    if (!offerId || typeof hidden !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'offerId and hidden (boolean) are required' },
+        { status: 400 }
+      );
+    }
+
+    const offer = await setOfferHidden(auth.npub, offerId, hidden);
+    return NextResponse.json({ success: true, offer });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Offers API]');
+  }
+});
@@ -0,0 +1,32 @@
+/**
+ * Admin Reconciliation API
+ *
+ * GET /api/admin/reconcile           - Compare every profile's on-chain balance with its receipts
+ * GET /api/admin/reconcile?npub=...  - Only for these npubs (repeatable)
+ *
+ * Same report as `npm run reconcile` (see lib/reconciliation.ts).
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, withAdminAuth } from '@/lib/admin';
+import { reconcileBalances } from '@/lib/reconciliation';
+
+export const GET = withAdminAuth(async (request) => {
+  try {
+    const npubs = request.nextUrl.searchParams.getAll('npub');
+    if (npubs.some((npub) => !npub.startsWith('npub1'))) {
+      return NextResponse.json({ success: false, error: 'Invalid npub format' }, { status: 400 });
+    }
+
+    const report = await reconcileBalances({ npubs: npubs.length > 0 ? npubs : undefined });
+    console.log(
+      `[Admin Reconcile API] ${report.matched}/${report.profiles} balance(s) match, ` +
+        `${report.discrepancies.length} discrepancy(ies), ${report.errors.length} error(s)`
+    );
+
+    return NextResponse.json({ success: true, report }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Reconcile API]');
+  }
+});
@@ -0,0 +1,75 @@
+/**
+ * Admin Users API
+ *
+ * GET  /api/admin/users                                  - All users with badge and suspension state
+ * POST /api/admin/users { npub, action: 'suspend', reason? }
+ * POST /api/admin/users { npub, action: 'unsuspend' }
+ * POST /api/admin/users { npub, action: 'setInviteQuota', quota }   - quota null for the default
+ *
+ * Suspended users can't make signed requests and are removed from the
+ * relays' allowed lists (NIP-86).
+ * Requires a NIP-98 signed request from an admin (see lib/admin.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { getInviteQuota } from '@/lib/invites';
+import {
+  adminErrorResponse,
+  isAdmin,
+  setInviteQuota,
+  suspendUser,
+  unsuspendUser,
+  withAdminAuth,
+} from '@/lib/admin';
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const profiles = await getStorageBackend().getAllProfiles();
+
+    const users = profiles.map((profile) => ({
+      npub: profile.npub,
+      username: profile.username,
+      name: profile.profile.name,
+      serialNumber: profile.serialNumber,
+      balance: profile.balance,
+      suspended: profile.suspended,
+      admin: isAdmin(profile.npub),
+      invites: {
+        quota: getInviteQuota(profile),
+        custom: profile.inviteQuota !== undefined,
+        invited: profile.profile.invitees?.length || 0,
+      },
+    }));
+
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Users API]');
+  }
+});
+
+export const POST = withAdminAuth(async (request, _context, auth) => {
+  try {
+    const { npub, action, reason, quota } = await request.json();
+
+    if (!npub || !['suspend', 'unsuspend', 'setInviteQuota'].includes(action)) {
+      return NextResponse.json(
+        { success: false, error: "npub and action ('suspend', 'unsuspend' or 'setInviteQuota') are required" },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'setInviteQuota') {
+      const profile = await setInviteQuota(auth.npub, npub, quota ?? null);
+      return NextResponse.json({ success: true, inviteQuota: getInviteQuota(profile) });
+    }
+
+    const profile = action === 'suspend'
+      ? await suspendUser(auth.npub, npub, reason || undefined)
+      : await unsuspendUser(auth.npub, npub);
+
+    return NextResponse.json({ success: true, suspended: profile.suspended ?? null });
+  } catch (error) {
+    return adminErrorResponse(error, '[Admin Users API]');
+  }
+});
@@ -1,7 +1,7 @@
 /**
  * Avatar Upload API Endpoint
  *
- * POST /api/avatar - Upload user avatar image
+ * POST /api/avatar - Upload user avatar image (NIP-98 signed by the owner)
  *
  * Flow:
  * 1. Save to $DATA_DIR/npubs/{npub}/avatar.png
@@ -16,6 +16,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { validateNpub } from '@/lib/nostr-server';
+import { withNostrAuth } from '@/lib/nip98-auth';
 
 // Maximum avatar file size: 5MB
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
@@ -30,7 +31,7 @@ const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data');
 // POST /api/avatar
 // ============================================================================
 
-export async function POST(request: NextRequest) {
+export const POST = withNostrAuth(async (request: NextRequest, _context, auth) => {
   try {
     // Parse form data
     const formData = await request.formData();
@@ -59,6 +60,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (npub !== auth.npub) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - you can only change your own avatar' },
+        { status: 403 }
+      );
+    }
+
     // Validate file type
     if (!ALLOWED_TYPES.includes(file.type)) {
       return NextResponse.json(
@@ -126,7 +134,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // Helper Functions
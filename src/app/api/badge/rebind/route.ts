@@ -0,0 +1,59 @@
+/**
+ * API endpoint for re-binding a lost badge
+ * POST /api/badge/rebind
+ * Body: { serialNumber, npub?, reason? }
+ *
+ * Links the new badge (serialNumber) to the caller's profile and revokes the
+ * old one. The caller proves key ownership with a NIP-98 signed request.
+ * Admins can vouch for someone who lost their key too by passing their npub;
+ * those re-bindings are recorded in the admin audit log.
+ */
+
+import { NextResponse } from 'next/server';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { isAdmin, recordAdminAction } from '@/lib/admin';
+import { BadgeRebindError, rebindBadge } from '@/lib/badge-rebind';
+
+export const POST = withNostrAuth(async (request, _context, auth) => {
+  try {
+    const body = await request.json();
+    const { serialNumber, reason } = body;
+    const npub: string = body.npub || auth.npub;
+
+    if (!serialNumber) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: serialNumber' },
+        { status: 400 }
+      );
+    }
+
+    const vouched = npub !== auth.npub;
+    if (vouched && !isAdmin(auth.npub)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: only admins can re-bind badges for other users' },
+        { status: 403 }
+      );
+    }
+
+    const rebind = () => rebindBadge({ npub, serialNumber, by: auth.npub, reason });
+    const result = vouched
+      ? await recordAdminAction(auth.npub, 'badge.rebind', serialNumber, { npub, reason }, rebind)
+      : await rebind();
+
+    return NextResponse.json({
+      success: true,
+      serialNumber: result.profile.serialNumber,
+      revokedSerialNumber: result.revocation?.serialNumber ?? null,
+      eventId: result.eventId,
+    });
+  } catch (error) {
+    if (error instanceof BadgeRebindError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Badge Rebind API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
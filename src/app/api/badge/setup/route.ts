@@ -8,7 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { setupBadge, isBadgeSetup, isBadgeClaimed } from '@/lib/storage';
+import { getStorageBackend } from '@/lib/storage-backend';
 
 export interface SetupBadgeRequest {
   serialNumber: string;
@@ -51,7 +51,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Set up the badge
-    const result = await setupBadge(serialNumber);
+    const result = await getStorageBackend().setupBadge(serialNumber);
 
     console.log(`[Badge Setup] Badge ${serialNumber} setup complete (alreadyExists: ${result.alreadyExists})`);
 
@@ -90,14 +90,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const exists = await isBadgeSetup(serialNumber);
-    const claimed = exists ? await isBadgeClaimed(serialNumber) : false;
+    const storage = getStorageBackend();
+    const exists = await storage.isBadgeSetup(serialNumber);
+    const claimed = exists ? await storage.isBadgeClaimed(serialNumber) : false;
+    const revoked = exists ? !!(await storage.getBadgeRevocation(serialNumber)) : false;
 
     return NextResponse.json({
       success: true,
       exists,
       serialNumber,
       claimed,
+      revoked,
     });
 
   } catch (error) {
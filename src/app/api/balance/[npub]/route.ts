@@ -5,8 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getTokenInfo, getChain } from '@/lib/token-factory';
-import { Token } from '@opencollective/token-factory';
+import { getTokenInfo, getChain, createTokenBackend } from '@/lib/token-factory';
 
 export async function GET(
   request: NextRequest,
@@ -38,12 +37,12 @@ export async function GET(
     // Query blockchain for balance
     try {
       const chain = getChain();
-      const token = new Token({
+      const token = await createTokenBackend({
         name: tokenInfo.name,
         symbol: tokenInfo.symbol,
         chain,
-        tokenAddress: tokenInfo.address as `0x${string}`,
-        deployerPrivateKey: process.env.PRIVATE_KEY as `0x${string}`,
+        tokenAddress: tokenInfo.address,
+        deployerPrivateKey: process.env.PRIVATE_KEY,
       });
 
       const balance = await token.getBalance(`nostr:${npub}`);
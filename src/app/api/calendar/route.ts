@@ -18,21 +18,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchAllRoomEvents, ROOMS, getCacheMetadata } from '@/lib/google-calendar';
 import { getAllProposalEvents, getProposalEvents, getRoomSlug } from '@/lib/local-calendar';
-import type { CalendarEvent, Offer } from '@/types';
-import fs from 'fs/promises';
-import path from 'path';
-
-const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+import { getStorageBackend } from '@/lib/storage-backend';
+import type { CalendarEvent } from '@/types';
 
 // Load offer details by offerId
 async function getOfferDetails(offerId: string): Promise<{ tags: string[]; type: string }> {
   try {
-    const offerPath = path.join(DATA_DIR, 'offers', `${offerId}.json`);
-    const content = await fs.readFile(offerPath, 'utf-8');
-    const offer: Offer = JSON.parse(content);
+    const offer = await getStorageBackend().getOffer(offerId);
     return {
-      tags: offer.tags || [],
-      type: offer.type || 'workshop',
+      tags: offer?.tags || [],
+      type: offer?.type || 'workshop',
     };
   } catch {
     return { tags: [], type: 'workshop' };
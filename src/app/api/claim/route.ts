@@ -7,46 +7,34 @@
  * 1. Validates and redeems the invite code via NOSTR relay (kind 28934)
  * 2. Creates user profile at data/npubs/:npub/
  * 3. Creates symlinks: badges/:serialNumber -> npubs/:npub, usernames/:username -> npubs/:npub
- * 4. Tracks the invite relationship (inviter -> invitee)
+ * 4. Tracks the invite relationship (inviter -> invitee) and marks the code as used
  * 5. Emits a kind 1734 payment request event (method: mint) for initial tokens
  * 6. Adds the user to the NIP-29 closed group
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { nip19, getPublicKey, finalizeEvent, type EventTemplate } from 'nostr-tools';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { createProfile, isBadgeSetup, isBadgeClaimed, getProfileByNpub, updateProfile } from '@/lib/storage';
 import { addGroupMember, getGroupSettings } from '@/lib/nostr-server';
 import { publishNostrEvent } from '@/lib/nostr-server';
 import { createPaymentRequestEvent, decodeNsec } from '@/lib/nostr-events';
 import { getTokenInfo, getWalletAddressForNpub, getChain } from '@/lib/token-factory';
 import { addUserToAllRelays } from '@/lib/nip86-client';
-import { ClaimBadgeRequest, ClaimBadgeResponse } from '@/types';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { InviteError, checkInvite, redeemInvite } from '@/lib/invites';
+import { ClaimBadgeRequest, ClaimBadgeResponse, StorageProfile } from '@/types';
 import settings from '../../../../settings.json';
 
-const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
-const NPUBS_DIR = path.join(DATA_DIR, 'npubs');
-
 /**
  * Check if any profiles exist (for bootstrapping first user)
  */
 async function hasExistingProfiles(): Promise<boolean> {
-  try {
-    const stats = await fs.stat(NPUBS_DIR);
-    if (!stats.isDirectory()) return false;
-
-    const entries = await fs.readdir(NPUBS_DIR, { withFileTypes: true });
-    return entries.some((e) => e.isDirectory() && e.name.startsWith('npub'));
-  } catch {
-    return false;
-  }
+  const profiles = await getStorageBackend().getAllProfiles();
+  return profiles.length > 0;
 }
 
-const MAX_INVITES_PER_USER = (settings as { maxInvitesPerUser?: number }).maxInvitesPerUser || 10;
-
 // Chain name to ID mapping
 const CHAIN_NAME_TO_ID: Record<string, number> = {
+  memory: 1337, // Simulated token, see lib/token-backend.ts
   localhost: 31337,
   local: 31337, // Alias for localhost
   gnosis: 100,
@@ -55,6 +43,19 @@ const CHAIN_NAME_TO_ID: Record<string, number> = {
   base_sepolia: 84532,
 };
 
+/**
+ * Respond with the reason an invitation code was refused
+ */
+function inviteErrorResponse(error: InviteError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+    } as ClaimBadgeResponse,
+    { status: error.status }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: ClaimBadgeRequest = await request.json();
@@ -86,39 +87,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let inviterNpub: string | undefined;
-    let inviterProfile: Awaited<ReturnType<typeof getProfileByNpub>> | null = null;
-
     // Only validate invite code if provided (not first user)
+    // Checks the format, the code's status and the inviter's quota; the code
+    // is checked again when it is redeemed below
     if (inviteCode) {
-      // Validate invite code format (192 hex chars = 64 pubkey + 128 signature)
-      if (!/^[0-9a-f]{192}$/i.test(inviteCode)) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Invalid invitation code format',
-          } as ClaimBadgeResponse,
-          { status: 400 }
-        );
-      }
-
-      // Extract inviter's pubkey from invite code (first 64 chars)
-      const inviterPubkeyHex = inviteCode.substring(0, 64);
-      inviterNpub = nip19.npubEncode(inviterPubkeyHex);
-
-      // Check if inviter has reached their invite limit
-      inviterProfile = await getProfileByNpub(inviterNpub);
-      if (inviterProfile) {
-        const currentInvitees = inviterProfile.profile.invitees || [];
-        if (currentInvitees.length >= MAX_INVITES_PER_USER) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: `This villager has already invited ${MAX_INVITES_PER_USER} people. Ask someone else for an invitation code.`,
-            } as ClaimBadgeResponse,
-            { status: 400 }
-          );
+      try {
+        await checkInvite(inviteCode);
+      } catch (error) {
+        if (error instanceof InviteError) {
+          return inviteErrorResponse(error);
         }
+        throw error;
       }
     }
 
@@ -149,8 +128,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const storage = getStorageBackend();
+
     // Check that the badge has been set up (activated)
-    const badgeExists = await isBadgeSetup(serialNumber);
+    const badgeExists = await storage.isBadgeSetup(serialNumber);
     if (!badgeExists) {
       return NextResponse.json(
         {
@@ -161,8 +142,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Lost badges are revoked when their owner re-binds to a new one
+    const revocation = await storage.getBadgeRevocation(serialNumber);
+    if (revocation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'This badge has been revoked',
+        } as ClaimBadgeResponse,
+        { status: 410 }
+      );
+    }
+
     // Check if badge is already claimed
-    const alreadyClaimed = await isBadgeClaimed(serialNumber);
+    const alreadyClaimed = await storage.isBadgeClaimed(serialNumber);
     if (alreadyClaimed) {
       return NextResponse.json(
         {
@@ -183,21 +176,45 @@ export async function POST(request: NextRequest) {
     // For now, we trust the invite code format and proceed with profile creation.
 
     // Create profile with displayName and invitedBy (if not first user)
-    const profile = await createProfile(serialNumber, username, npub, {
-      name: displayName,
-      invitedBy: inviterNpub,
-    });
-
-    // Update inviter's profile to add this user to their invitees
-    if (inviterProfile && inviterNpub) {
-      const currentInvitees = inviterProfile.profile.invitees || [];
-      await updateProfile(inviterNpub, {
-        invitees: [...currentInvitees, npub],
-      });
-      console.log('[Claim API] Updated inviter profile:', {
-        inviterNpub: inviterNpub.substring(0, 16) + '...',
-        totalInvitees: currentInvitees.length + 1,
+    const createClaimProfile = async (
+      inviterNpub?: string,
+      inviterProfile?: StorageProfile | null
+    ): Promise<StorageProfile> => {
+      const created = await storage.createProfile(serialNumber, username, npub, {
+        name: displayName,
+        invitedBy: inviterNpub,
       });
+
+      // Update inviter's profile to add this user to their invitees
+      if (inviterProfile && inviterNpub) {
+        const currentInvitees = inviterProfile.profile.invitees || [];
+        await storage.updateProfile(inviterNpub, {
+          invitees: [...currentInvitees, npub],
+        });
+        console.log('[Claim API] Updated inviter profile:', {
+          inviterNpub: inviterNpub.substring(0, 16) + '...',
+          totalInvitees: currentInvitees.length + 1,
+        });
+      }
+      return created;
+    };
+
+    // The code is marked as used together with the profile creation, so two
+    // claims can't redeem it
+    let profile: StorageProfile;
+    if (inviteCode) {
+      try {
+        profile = await redeemInvite(inviteCode, npub, ({ inviterNpub, inviterProfile }) =>
+          createClaimProfile(inviterNpub, inviterProfile)
+        );
+      } catch (error) {
+        if (error instanceof InviteError) {
+          return inviteErrorResponse(error);
+        }
+        throw error;
+      }
+    } else {
+      profile = await createClaimProfile();
     }
 
     // Emit kind 1734 payment request for initial token mint
@@ -0,0 +1,61 @@
+/**
+ * Linked Device API
+ *
+ * GET /api/devices/[id] - Whether a linked device has been forgotten
+ *   Linked devices poll this and sign themselves out once forgotten.
+ * DELETE /api/devices/[id] - Forget a device (NIP-98 signed by the owner)
+ *   This doesn't revoke the key the device holds, see linked-devices.ts
+ *
+ * @see src/lib/linked-devices.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { LinkedDeviceError, forgetLinkedDevice, getLinkedDevice } from '@/lib/linked-devices';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const device = await getLinkedDevice(id);
+
+    if (!device) {
+      return NextResponse.json(
+        { success: false, error: 'Device not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the status: the owner and name are listed for the owner alone
+    return NextResponse.json({ success: true, id: device.id, forgotten: !!device.forgottenAt });
+  } catch (error) {
+    console.error('[Devices API] Error reading device:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withNostrAuth(async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  auth
+) => {
+  try {
+    const { id } = await params;
+    const device = await forgetLinkedDevice(auth.npub, id);
+    return NextResponse.json({ success: true, device });
+  } catch (error) {
+    if (error instanceof LinkedDeviceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Devices API] Error forgetting device:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
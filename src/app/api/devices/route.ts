@@ -0,0 +1,53 @@
+/**
+ * Linked Devices API
+ *
+ * GET /api/devices - The caller's linked devices, most recent first
+ * POST /api/devices - Record a device linked with the QR handoff
+ * Body: { deviceId, name }
+ *
+ * Both require a NIP-98 signed request from the account owner.
+ *
+ * @see src/lib/linked-devices.ts
+ */
+
+import { NextResponse } from 'next/server';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { LinkedDeviceError, listLinkedDevices, recordLinkedDevice } from '@/lib/linked-devices';
+
+export const GET = withNostrAuth(async (_request, _context, auth) => {
+  try {
+    const devices = await listLinkedDevices(auth.npub);
+    return NextResponse.json({ success: true, devices });
+  } catch (error) {
+    console.error('[Devices API] Error listing devices:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withNostrAuth(async (request, _context, auth) => {
+  try {
+    const { deviceId, name } = await request.json();
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: deviceId' },
+        { status: 400 }
+      );
+    }
+
+    const device = await recordLinkedDevice(auth.npub, deviceId, String(name || ''));
+    return NextResponse.json({ success: true, device });
+  } catch (error) {
+    if (error instanceof LinkedDeviceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Devices API] Error linking device:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,58 @@
+/**
+ * Invite Code API
+ *
+ * DELETE /api/invites/[code] - Revoke an unused code
+ *
+ * Requires a NIP-98 signed request from the inviter or an admin. Admins
+ * revoking someone else's code are recorded in the admin audit log.
+ *
+ * @see src/lib/invites.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { isAdmin, recordAdminAction } from '@/lib/admin';
+import { InviteError, getInvite, revokeInvite } from '@/lib/invites';
+
+export const DELETE = withNostrAuth(async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+  auth
+) => {
+  try {
+    const { code } = await params;
+
+    const invite = await getInvite(code);
+    if (!invite) {
+      return NextResponse.json(
+        { success: false, error: 'Invitation code not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invite.inviter !== auth.npub) {
+      if (!isAdmin(auth.npub)) {
+        return NextResponse.json(
+          { success: false, error: 'Forbidden: you can only revoke your own invitation codes' },
+          { status: 403 }
+        );
+      }
+      const revoked = await recordAdminAction(auth.npub, 'invite.revoke', code, { inviter: invite.inviter }, () =>
+        revokeInvite(code, auth.npub)
+      );
+      return NextResponse.json({ success: true, invite: revoked });
+    }
+
+    const revoked = await revokeInvite(code, auth.npub);
+    return NextResponse.json({ success: true, invite: revoked });
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Invites API] Error revoking invite:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
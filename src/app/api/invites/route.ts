@@ -0,0 +1,54 @@
+/**
+ * Invite Codes API
+ *
+ * GET /api/invites - The caller's invite codes, newest first, and their quota usage
+ * POST /api/invites - Register a code the relay issued to the caller
+ * Body: { code }
+ *
+ * Both require a NIP-98 signed request.
+ *
+ * @see src/lib/invites.ts
+ */
+
+import { NextResponse } from 'next/server';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { InviteError, getInviteUsage, listInvites, registerInvite } from '@/lib/invites';
+
+export const GET = withNostrAuth(async (_request, _context, auth) => {
+  try {
+    const [invites, usage] = await Promise.all([listInvites(auth.npub), getInviteUsage(auth.npub)]);
+    return NextResponse.json({ success: true, invites, usage });
+  } catch (error) {
+    console.error('[Invites API] Error listing invites:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withNostrAuth(async (request, _context, auth) => {
+  try {
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: code' },
+        { status: 400 }
+      );
+    }
+
+    const invite = await registerInvite(auth.npub, String(code).trim());
+    const usage = await getInviteUsage(auth.npub);
+    return NextResponse.json({ success: true, invite, usage });
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[Invites API] Error registering invite:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
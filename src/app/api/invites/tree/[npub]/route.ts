@@ -0,0 +1,35 @@
+/**
+ * Invite Tree API
+ *
+ * GET /api/invites/tree/[npub] - Who invited a villager and whom they invited
+ *
+ * @see src/lib/invites.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getInviteTree } from '@/lib/invites';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ npub: string }> }
+) {
+  try {
+    const { npub } = await params;
+    const tree = await getInviteTree(npub);
+
+    if (!tree) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...tree });
+  } catch (error) {
+    console.error('[Invites API] Error reading invite tree:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -27,6 +27,7 @@ const CHAIN_EXPLORERS: Record<number, string> = {
 };
 
 const CHAIN_NAME_TO_ID: Record<string, number> = {
+  memory: 1337, // Simulated token, see lib/token-backend.ts
   localhost: 31337,
   local: 31337, // Alias for localhost
   gnosis: 100,
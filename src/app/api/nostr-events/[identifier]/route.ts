@@ -7,9 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getProfileByUsername,
-} from '@/lib/storage';
+import { getStorageBackend } from '@/lib/storage-backend';
 import { readNostrEvents, type NostrEvent } from '@/lib/nostr-logger';
 
 /**
@@ -31,7 +29,7 @@ export async function GET(
       npub = identifier;
     } else {
       // Otherwise, look up by username to get npub
-      const profile = await getProfileByUsername(identifier);
+      const profile = await getStorageBackend().getProfileByUsername(identifier);
 
       if (!profile) {
         return NextResponse.json(
@@ -3,14 +3,20 @@
  * GET /api/nostr/events - Get all NOSTR events with optional filters
  *
  * Query parameters:
- * - limit: number (default: 100)
- * - offset: number (default: 0)
+ * - limit: number (default: 100, max: 500)
+ * - ids: comma-separated list of event ids
  * - kinds: comma-separated list of event kinds (e.g., "1,7,1734")
  * - pubkeys: comma-separated list of hex pubkeys
+ * - e, p, d: comma-separated tag values (events referencing them)
+ * - since, until: unix timestamps (created_at range, inclusive)
+ * - cursor: nextCursor from the previous page
+ *
+ * Events are returned newest first. nextCursor is null on the last page.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { readAllNostrEvents, getUniquePubkeys, type GlobalEventEntry } from '@/lib/nostr-logger';
+import { queryNostrEvents, getUniquePubkeys } from '@/lib/nostr-logger';
+import { parseEventFilterParams } from '@/lib/nostr-event-index';
 import { NOSTR_KINDS } from '@/lib/nostr-events';
 import { nip19 } from 'nostr-tools';
 
@@ -21,6 +27,7 @@ const EVENT_KIND_INFO: Record<number, { name: string; description: string }> = {
   [NOSTR_KINDS.REACTION]: { name: 'Reaction', description: 'Reactions and RSVPs to events' },
   [NOSTR_KINDS.PAYMENT_REQUEST]: { name: 'Payment Request', description: 'Token mint/transfer/burn requests' },
   [NOSTR_KINDS.PAYMENT_RECEIPT]: { name: 'Payment Receipt', description: 'Confirmed token transactions' },
+  [NOSTR_KINDS.INVOICE]: { name: 'Invoice', description: 'Token requests from one villager to another' },
   [NOSTR_KINDS.CALENDAR_EVENT]: { name: 'Calendar Event', description: 'Workshop/calendar events (NIP-52)' },
   31923: { name: 'Calendar RSVP', description: 'Calendar event RSVPs (NIP-52)' },
   22242: { name: 'Auth', description: 'NIP-42 authentication' },
@@ -44,26 +51,8 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
-    // Parse query parameters
-    const limit = parseInt(searchParams.get('limit') || '100', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
-    const kindsParam = searchParams.get('kinds');
-    const pubkeysParam = searchParams.get('pubkeys');
-
-    // Parse kinds array
-    let kinds: number[] | undefined;
-    if (kindsParam) {
-      kinds = kindsParam.split(',').map(k => parseInt(k.trim(), 10)).filter(k => !isNaN(k));
-    }
-
-    // Parse pubkeys array
-    let pubkeys: string[] | undefined;
-    if (pubkeysParam) {
-      pubkeys = pubkeysParam.split(',').map(p => p.trim()).filter(Boolean);
-    }
-
-    // Read events from global file
-    const entries = readAllNostrEvents({ limit, offset, kinds, pubkeys });
+    const filter = parseEventFilterParams(searchParams, { defaultLimit: 100, maxLimit: 500 });
+    const { entries, nextCursor } = queryNostrEvents(filter);
 
     // Get unique pubkeys for filter dropdown
     const allPubkeys = getUniquePubkeys();
@@ -92,6 +81,7 @@ export async function GET(request: NextRequest) {
       success: true,
       events,
       count: events.length,
+      nextCursor,
       pubkeys: pubkeyList,
       kindInfo: EVENT_KIND_INFO,
     });
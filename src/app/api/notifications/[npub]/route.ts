@@ -18,6 +18,7 @@ import {
   NotificationType,
 } from '@/lib/notifications';
 import { validateNpub } from '@/lib/nostr-server';
+import { withNostrAuth } from '@/lib/nip98-auth';
 
 // ============================================================================
 // GET /api/notifications/[npub]
@@ -103,10 +104,11 @@ export async function GET(
 // PATCH /api/notifications/[npub]
 // ============================================================================
 
-export async function PATCH(
+export const PATCH = withNostrAuth(async (
   request: NextRequest,
-  { params }: { params: Promise<{ npub: string }> }
-) {
+  { params }: { params: Promise<{ npub: string }> },
+  auth
+) => {
   try {
     const { npub } = await params;
 
@@ -118,6 +120,14 @@ export async function PATCH(
       );
     }
 
+    // Only the owner can change their notifications
+    if (auth.npub !== npub) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - you can only update your own notifications' },
+        { status: 403 }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
     const { action, notificationId } = body;
@@ -180,4 +190,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,97 @@
+/**
+ * API endpoint for the RSVP escrow of an offer (see lib/escrow.ts)
+ * GET /api/offers/[id]/escrow - Escrow account and deposits (public)
+ * POST /api/offers/[id]/escrow - Confirm attendance, releasing the deposits to the author
+ *
+ * Attendance is confirmed by an attendee with tokens in escrow, not by the
+ * authors the deposits are released to. Admins may confirm attendance for any
+ * offer; those confirmations are recorded in the admin audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EscrowError, confirmAttendance, getEscrowState, listEscrowDeposits } from '@/lib/escrow';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { isAdmin, appendAuditLog } from '@/lib/admin';
+
+/**
+ * GET - Get the escrow state of an offer
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: offerId } = await params;
+    const escrow = await getEscrowState(offerId);
+
+    return NextResponse.json({ success: true, ...escrow });
+  } catch (error) {
+    console.error('[Escrow API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Confirm that the session took place
+ * Requires a NIP-98 signed request from an attendee with a deposit or an admin
+ */
+export const POST = withNostrAuth(async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  auth
+) => {
+  try {
+    const { id: offerId } = await params;
+    const { npub } = auth;
+
+    const offer = await getStorageBackend().getOffer(offerId);
+    if (!offer) {
+      return NextResponse.json(
+        { success: false, error: 'Offer not found' },
+        { status: 404 }
+      );
+    }
+
+    const deposits = await listEscrowDeposits(offerId);
+    const isAttendee = deposits.some((deposit) => deposit.attendee === npub);
+    if (!isAttendee && !isAdmin(npub)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized: Only attendees with tokens in escrow can confirm attendance' },
+        { status: 403 }
+      );
+    }
+
+    const confirmed = await confirmAttendance(offerId);
+
+    if (!isAttendee) {
+      await appendAuditLog({
+        admin: npub,
+        action: 'offer.attendance',
+        target: offerId,
+        result: 'success',
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      attendanceConfirmedAt: confirmed.attendanceConfirmedAt,
+      ...(await getEscrowState(offerId)),
+    });
+  } catch (error) {
+    if (error instanceof EscrowError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('[Escrow API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,9 +5,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Offer } from '@/types';
-import { nip19, verifyEvent } from 'nostr-tools';
+import { verifyEvent } from 'nostr-tools';
 import { publishNostrEvent } from '@/lib/nostr-server';
 import { addProposalEvent, getRoomSlug, generateIcsFile, getProposalEvent } from '@/lib/local-calendar';
+import { withNostrAuth } from '@/lib/nip98-auth';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -15,12 +16,14 @@ const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
 
 /**
  * PUT - Update an existing offer
- * Body: { title, description, tags, startTime, endTime, room, maxAttendees, nostrEvent, npub }
+ * Requires a NIP-98 signed request from one of the offer's authors
+ * Body: { title, description, tags, startTime, endTime, room, maxAttendees, nostrEvent }
  */
-export async function PUT(
+export const PUT = withNostrAuth(async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  auth
+) => {
   try {
     const { id: offerId } = await params;
     const body = await request.json();
@@ -33,19 +36,8 @@ export async function PUT(
       room,
       maxAttendees,
       nostrEvent, // Signed kind 31922 event from client
-      npub,
     } = body;
-
-    // Validate required fields
-    if (!npub) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Missing required field: npub',
-        },
-        { status: 400 }
-      );
-    }
+    const { npub, pubkey: userPubkey } = auth;
 
     // Load existing offer
     const offerPath = path.join(DATA_DIR, 'offers', `${offerId}.json`);
@@ -64,12 +56,8 @@ export async function PUT(
       );
     }
 
-    // Authorization: Check if user is the original author
-    // Note: npub always decodes to type 'npub' and data is the pubkey string
-    const decoded = nip19.decode(npub) as unknown as { type: string; data: string };
-    const userPubkey = decoded.data;
-
-    if (offer.nostrAuthorPubkey && userPubkey && offer.nostrAuthorPubkey !== userPubkey) {
+    // Authorization: Check if the signer is the original author
+    if (offer.nostrAuthorPubkey && offer.nostrAuthorPubkey !== userPubkey) {
       return NextResponse.json(
         {
           success: false,
@@ -265,7 +253,7 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Helper to find profile by npub
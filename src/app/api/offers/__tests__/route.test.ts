@@ -6,17 +6,53 @@
  * - Type validation (workshop, 1:1, other)
  * - Authorization and balance checks
  * - Offer listing with filters
+ * - Creation requests are NIP-98 signed by the author
+ *
+ * @jest-environment node
  */
 
 import { NextRequest } from 'next/server';
 import { POST, GET } from '../route';
 import { createProfile } from '@/lib/storage';
+import { createHttpAuthHeader } from '@/lib/nostr-events';
+import { clearSeenAuthEvents } from '@/lib/nip98-auth';
+import { MemoryToken } from '@/lib/token-backend';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
 import fs from 'fs/promises';
 import path from 'path';
 
 // Use a test data directory
 const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-offers');
 process.env.DATA_DIR = TEST_DATA_DIR;
+// Balances are read from the in-memory chain
+process.env.CHAIN = 'memory';
+process.env.TOKEN_ADDRESS = '0x00000000000000000000000000000000000000bb';
+
+const aliceKey = generateSecretKey();
+const ALICE_NPUB = nip19.npubEncode(getPublicKey(aliceKey));
+
+/**
+ * Build a POST /api/offers request signed by the given key
+ */
+async function createOfferRequest(body: unknown, secretKey: Uint8Array = aliceKey): Promise<NextRequest> {
+  const url = 'http://localhost:3000/api/offers';
+  const payload = JSON.stringify(body);
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: await createHttpAuthHeader(secretKey, url, 'POST', payload),
+    },
+    body: payload,
+  });
+}
+
+/**
+ * Mint tokens to a user on the in-memory chain
+ */
+async function mintTokens(npub: string, amount: number): Promise<void> {
+  await new MemoryToken(process.env.TOKEN_ADDRESS).mintTo(amount, `nostr:${npub}`);
+}
 
 /**
  * Helper to create profile with confirmed balance
@@ -32,11 +68,13 @@ async function createProfileWithBalance(
   profile.balance.confirmed = confirmedBalance;
   const profilePath = path.join(TEST_DATA_DIR, 'npubs', npub, 'profile.json');
   await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
+  await mintTokens(npub, confirmedBalance);
   return profile;
 }
 
 describe('Offers API Endpoints', () => {
   beforeEach(async () => {
+    clearSeenAuthEvents();
     await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
     await fs.mkdir(TEST_DATA_DIR, { recursive: true });
   });
@@ -47,7 +85,7 @@ describe('Offers API Endpoints', () => {
 
   describe('POST /api/offers', () => {
     it('should create a workshop offer', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       const body = {
         type: 'workshop',
@@ -59,13 +97,9 @@ describe('Offers API Endpoints', () => {
         room: 'Room A',
         minAttendees: 5,
         maxAttendees: 20,
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -76,24 +110,20 @@ describe('Offers API Endpoints', () => {
       expect(data.offer.title).toBe('Intro to NOSTR');
       expect(data.offer.type).toBe('workshop');
       expect(data.offer.status).toBe('pending');
-      expect(data.offer.authors).toContain('npub1test123');
+      expect(data.offer.authors).toContain(ALICE_NPUB);
     });
 
     it('should create a 1:1 offer', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       const body = {
         type: '1:1',
         title: 'Code Review Session',
         description: 'I will review your code',
         tags: ['mentorship'],
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -104,20 +134,16 @@ describe('Offers API Endpoints', () => {
     });
 
     it('should create a generic offer', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       const body = {
         type: 'other',
         title: 'Coffee Chat',
         description: 'Let\'s grab coffee and chat',
         tags: ['networking'],
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -129,7 +155,7 @@ describe('Offers API Endpoints', () => {
 
     it('should reject offer creation with insufficient tokens', async () => {
       // Create profile with 0 tokens
-      const profile = await createProfile('ABC123', 'alice', 'npub1test123');
+      const profile = await createProfile('ABC123', 'alice', ALICE_NPUB);
       profile.balance.confirmed = 0;
       profile.balance.total = 0;
 
@@ -140,13 +166,9 @@ describe('Offers API Endpoints', () => {
         type: 'workshop',
         title: 'Test Workshop',
         description: 'Test',
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -157,19 +179,15 @@ describe('Offers API Endpoints', () => {
     });
 
     it('should reject invalid offer type', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       const body = {
         type: 'invalid',
         title: 'Test',
         description: 'Test',
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -184,13 +202,10 @@ describe('Offers API Endpoints', () => {
         type: 'workshop',
         title: 'Test',
         description: 'Test',
-        npub: 'npub1nonexistent',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      // Signed by a key without a profile
+      const request = await createOfferRequest(body, generateSecretKey());
 
       const response = await POST(request);
       const data = await response.json();
@@ -201,19 +216,15 @@ describe('Offers API Endpoints', () => {
     });
 
     it('should return pendingBurn flag (tokens burned via payment processor)', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       const body = {
         type: 'workshop',
         title: 'Test Workshop',
         description: 'Test',
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -230,7 +241,7 @@ describe('Offers API Endpoints', () => {
     });
 
     it('should calculate room cost based on hourly rate and duration', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       // User has 50 tokens, trying to book Ostrom Room (3 tokens/hour) for 1 hour
       const body = {
@@ -240,13 +251,9 @@ describe('Offers API Endpoints', () => {
         startTime: '2026-01-28T14:00:00Z',
         endTime: '2026-01-28T15:00:00Z',
         room: 'Ostrom Room', // 3 tokens/hour per settings.json
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -257,12 +264,13 @@ describe('Offers API Endpoints', () => {
 
     it('should reject workshop if balance is less than room cost', async () => {
       // Create profile with only 2 tokens
-      const profile = await createProfile('ABC123', 'alice', 'npub1test123');
+      const profile = await createProfile('ABC123', 'alice', ALICE_NPUB);
       profile.balance.confirmed = 2;
       profile.balance.total = 2;
 
       const profilePath = path.join(TEST_DATA_DIR, 'badges', 'ABC123', 'profile.json');
       await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
+      await mintTokens(ALICE_NPUB, 2);
 
       // Try to book Ostrom Room (3 tokens/hour) for 1 hour
       const body = {
@@ -272,13 +280,9 @@ describe('Offers API Endpoints', () => {
         startTime: '2026-01-28T14:00:00Z',
         endTime: '2026-01-28T15:00:00Z',
         room: 'Ostrom Room',
-        npub: 'npub1test123',
       };
 
-      const request = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+      const request = await createOfferRequest(body);
 
       const response = await POST(request);
       const data = await response.json();
@@ -291,7 +295,7 @@ describe('Offers API Endpoints', () => {
 
   describe('GET /api/offers', () => {
     it('should list all offers', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       // Create two offers (check responses to ensure they succeed)
       for (let i = 0; i < 2; i++) {
@@ -299,13 +303,9 @@ describe('Offers API Endpoints', () => {
           type: 'workshop',
           title: `Workshop ${i}`,
           description: 'Test',
-          npub: 'npub1test123',
         };
 
-        const request = new NextRequest('http://localhost:3000/api/offers', {
-          method: 'POST',
-          body: JSON.stringify(body),
-        });
+        const request = await createOfferRequest(body);
 
         const response = await POST(request);
         const postData = await response.json();
@@ -324,29 +324,21 @@ describe('Offers API Endpoints', () => {
     });
 
     it('should filter offers by type', async () => {
-      await createProfileWithBalance('ABC123', 'alice', 'npub1test123', 50);
+      await createProfileWithBalance('ABC123', 'alice', ALICE_NPUB, 50);
 
       // Create workshop
-      const workshopReq = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify({
-          type: 'workshop',
-          title: 'Workshop',
-          description: 'Test',
-          npub: 'npub1test123',
-        }),
+      const workshopReq = await createOfferRequest({
+        type: 'workshop',
+        title: 'Workshop',
+        description: 'Test',
       });
       await POST(workshopReq);
 
       // Create other
-      const otherReq = new NextRequest('http://localhost:3000/api/offers', {
-        method: 'POST',
-        body: JSON.stringify({
-          type: 'other',
-          title: 'Other',
-          description: 'Test',
-          npub: 'npub1test123',
-        }),
+      const otherReq = await createOfferRequest({
+        type: 'other',
+        title: 'Other',
+        description: 'Test',
       });
       await POST(otherReq);
 
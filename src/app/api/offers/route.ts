@@ -3,14 +3,14 @@
  * POST /api/offers - Create new offer/workshop
  *
  * For workshop proposals:
- * 1. Validates fields including minRsvps (minimum 2)
+ * 1. Validates fields including minRsvps (at least settings.defaults.workshops.attendees.min)
  * 2. Checks conflicts via local calendar and Google Calendar
  * 3. Creates offer with status: 'pending'
  * 4. Returns pendingBurn: true to indicate client should create burn payment request
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getProfileByNpub, addToBlockchainQueue } from "@/lib/storage";
+import { getStorageBackend } from "@/lib/storage-backend";
 import { CreateOfferRequest, CreateOfferResponse, Offer } from "@/types";
 import { publishNostrEvent } from "@/lib/nostr-server";
 import {
@@ -21,17 +21,13 @@ import {
   type ProposalEvent,
 } from "@/lib/local-calendar";
 import { fetchAllRoomEvents, ROOMS } from "@/lib/google-calendar";
-import { getTokenInfo, getChain } from "@/lib/token-factory";
-import { Token } from "@opencollective/token-factory";
-import { nip19, verifyEvent } from "nostr-tools";
+import { getTokenInfo, getChain, createTokenBackend } from "@/lib/token-factory";
+import { verifyEvent } from "nostr-tools";
+import { getEventCoAuthors } from "@/lib/nostr-events";
+import { withNostrAuth } from "@/lib/nip98-auth";
 import fs from "fs/promises";
 import path from "path";
 
-// Use function to get DATA_DIR at runtime (for testing)
-function getDataDir(): string {
-  return process.env.DATA_DIR || path.join(process.cwd(), "data");
-}
-
 /**
  * Get user's on-chain token balance
  */
@@ -42,12 +38,12 @@ async function getOnChainBalance(npub: string): Promise<number> {
   }
 
   const chain = getChain();
-  const token = new Token({
+  const token = await createTokenBackend({
     name: tokenInfo.name,
     symbol: tokenInfo.symbol,
     chain,
-    tokenAddress: tokenInfo.address as `0x${string}`,
-    deployerPrivateKey: process.env.PRIVATE_KEY as `0x${string}`,
+    tokenAddress: tokenInfo.address,
+    deployerPrivateKey: process.env.PRIVATE_KEY,
   });
 
   const balance = await token.getBalance(`nostr:${npub}`);
@@ -212,9 +208,10 @@ async function checkAllConflicts(
 
 /**
  * POST - Create a new offer/workshop
- * Body: { type, title, description, tags, startTime, endTime, room, maxAttendees, minRsvps, npub, nostrEvent (optional) }
+ * Requires a NIP-98 signed request; the signer becomes the author
+ * Body: { type, title, description, tags, startTime, endTime, room, maxAttendees, minRsvps, nostrEvent (optional) }
  */
-export async function POST(request: NextRequest) {
+export const POST = withNostrAuth(async (request: NextRequest, _context, auth) => {
   try {
     const body = await request.json();
     const settings = await loadSettings();
@@ -228,16 +225,16 @@ export async function POST(request: NextRequest) {
       room,
       maxAttendees = settings.defaults.workshops.attendees.max,
       minRsvps = settings.defaults.workshops.attendees.min,
-      npub,
       nostrEvent, // Optional: signed kind 31922 calendar event from client
     } = body;
+    const { npub } = auth;
 
     // Validate required fields
-    if (!type || !title || !description || !npub) {
+    if (!type || !title || !description) {
       return NextResponse.json(
         {
           success: false,
-          error: "Missing required fields: type, title, description, npub",
+          error: "Missing required fields: type, title, description",
         } as CreateOfferResponse,
         { status: 400 },
       );
@@ -254,7 +251,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate minRsvps for workshops (must be >= 2)
+    // Validate minRsvps for workshops (must be >= the settings minimum)
     if (
       type === "workshop" &&
       minRsvps < settings.defaults.workshops.attendees.min
@@ -268,8 +265,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const storage = getStorageBackend();
+
     // Get profile to verify user exists and has tokens
-    const profile = await getProfileByNpub(npub);
+    const profile = await storage.getProfileByNpub(npub);
     if (!profile) {
       return NextResponse.json(
         {
@@ -393,12 +392,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Verify event is signed by the offer author
-        const decoded = nip19.decode(npub) as unknown as {
-          type: string;
-          data: string;
-        };
-        const authorPubkey = decoded.data;
-        if (nostrEvent.pubkey !== authorPubkey) {
+        if (nostrEvent.pubkey !== auth.pubkey) {
           return NextResponse.json(
             {
               success: false,
@@ -420,10 +414,13 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // Co-authors tagged in the event share the RSVP rewards
+        offer.authors = [npub, ...getEventCoAuthors(nostrEvent).filter((a) => a !== npub)];
+
         // Store NOSTR event info in offer
         offer.nostrEventId = nostrEvent.id;
         offer.nostrDTag = dTag;
-        offer.nostrAuthorPubkey = authorPubkey as string;
+        offer.nostrAuthorPubkey = auth.pubkey;
 
         // Publish to NOSTR relays (async, don't block response)
         publishNostrEvent(nostrEvent).catch((err) => {
@@ -450,22 +447,12 @@ export async function POST(request: NextRequest) {
       console.warn("[Offer API] Workshop created without NOSTR calendar event");
     }
 
-    // Save offer to file system
-    const offersDir = path.join(getDataDir(), "offers");
-    await fs.mkdir(offersDir, { recursive: true });
-
-    const offerPath = path.join(offersDir, `${offerId}.json`);
-    await fs.writeFile(offerPath, JSON.stringify(offer, null, 2));
+    // Save offer
+    await storage.saveOffer(offer);
 
     // Add to user's offers list in their profile
-    const profilePath = path.join(
-      getDataDir(),
-      "badges",
-      profile.serialNumber,
-      "profile.json",
-    );
     profile.offers.push(offer);
-    await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
+    await storage.saveProfile(profile);
 
     // NOTE: We no longer deduct tokens here.
     // The client should publish a burn payment request (kind 1734)
@@ -540,14 +527,14 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
 
 /**
  * Get username for an npub from profile data
  */
 async function getUsernameByNpub(npub: string): Promise<string | null> {
   try {
-    const profile = await getProfileByNpub(npub);
+    const profile = await getStorageBackend().getProfileByNpub(npub);
     return profile?.username || null;
   } catch {
     return null;
@@ -565,14 +552,16 @@ export async function GET(request: NextRequest) {
     const typeFilter = searchParams.get("type");
     const statusFilter = searchParams.get("status");
 
-    const offersDir = path.join(getDataDir(), "offers");
+    const storage = getStorageBackend();
 
     // If fetching a single offer by ID
     if (idFilter) {
       try {
-        const offerPath = path.join(offersDir, `${idFilter}.json`);
-        const content = await fs.readFile(offerPath, "utf-8");
-        const offer = JSON.parse(content);
+        const offer: (Offer & { authorUsername?: string }) | null =
+          await storage.getOffer(idFilter);
+        if (!offer) {
+          throw new Error("Offer not found");
+        }
 
         // Get author username
         if (offer.authors && offer.authors.length > 0) {
@@ -597,31 +586,15 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Ensure directory exists
-    try {
-      await fs.access(offersDir);
-    } catch {
-      return NextResponse.json({
-        success: true,
-        offers: [],
-      });
-    }
-
-    // Read all offer files
-    const files = await fs.readdir(offersDir);
-    const offers: (Offer & { authorUsername?: string })[] = [];
-
-    for (const file of files) {
-      if (!file.endsWith(".json")) continue;
-
-      const offerPath = path.join(offersDir, file);
-      const content = await fs.readFile(offerPath, "utf-8");
-      const offer = JSON.parse(content);
-
-      // Apply filters
-      if (typeFilter && offer.type !== typeFilter) continue;
-      if (statusFilter && offer.status !== statusFilter) continue;
+    // Offers hidden by an admin are left out of listings
+    const offers: (Offer & { authorUsername?: string })[] = (
+      await storage.listOffers({
+        type: typeFilter || undefined,
+        status: statusFilter || undefined,
+      })
+    ).filter((offer) => !offer.hidden);
 
+    for (const offer of offers) {
       // Get author username for the first author
       if (offer.authors && offer.authors.length > 0) {
         const authorUsername = await getUsernameByNpub(offer.authors[0]);
@@ -629,8 +602,6 @@ export async function GET(request: NextRequest) {
           offer.authorUsername = authorUsername;
         }
       }
-
-      offers.push(offer);
     }
 
     // Sort by creation date (newest first)
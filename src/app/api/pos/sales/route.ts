@@ -0,0 +1,47 @@
+/**
+ * Point of Sale Sales API
+ *
+ * GET /api/pos/sales                  - The vendor's sales today
+ * GET /api/pos/sales?date=YYYY-MM-DD  - Sales of another day (in settings.timezone)
+ * GET /api/pos/sales?format=csv       - As a CSV download
+ *
+ * Requires a NIP-98 signed request from a vendor (see lib/vendors.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { getSalesDate, getSalesTimezone, getVendorSales, salesToCsv, withVendorAuth } from '@/lib/vendors';
+
+export const GET = withVendorAuth(async (request, _context, auth, vendor) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const timezone = getSalesTimezone();
+    const date = searchParams.get('date') || getSalesDate(Math.floor(Date.now() / 1000), timezone);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ success: false, error: 'Invalid date, use YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const report = await getVendorSales(auth.npub, date, timezone);
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(salesToCsv(report.sales), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="sales-${date}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, vendor, ...report },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[POS Sales API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,13 +5,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getProfileByUsername,
-  getProfileByNpub,
-  updateProfile,
-  getProfileBySerialNumber,
-} from '@/lib/storage';
+import { getStorageBackend } from '@/lib/storage-backend';
 import { logNostrEventToAll, type NostrEvent } from '@/lib/nostr-logger';
+import { withNostrAuth } from '@/lib/nip98-auth';
 import { UserProfile } from '@/types';
 
 /**
@@ -24,17 +20,26 @@ export async function GET(
 ) {
   try {
     const { identifier } = await params;
+    const storage = getStorageBackend();
 
     // Try to fetch by username first, then npub, then serial number
-    let profile = await getProfileByUsername(identifier);
+    let profile = await storage.getProfileByUsername(identifier);
 
     if (!profile && identifier.startsWith('npub1')) {
-      profile = await getProfileByNpub(identifier);
+      profile = await storage.getProfileByNpub(identifier);
     }
 
     // Try serial number lookup (for badge scans)
     if (!profile) {
-      profile = await getProfileBySerialNumber(identifier);
+      profile = await storage.getProfileBySerialNumber(identifier);
+    }
+
+    // A revoked (lost) badge must not lead to its former owner
+    if (!profile && await storage.getBadgeRevocation(identifier)) {
+      return NextResponse.json(
+        { success: false, error: 'Badge has been revoked', revoked: true },
+        { status: 410 }
+      );
     }
 
     if (!profile) {
@@ -75,29 +80,34 @@ export async function GET(
 /**
  * PUT - Update profile
  * /api/profile/[identifier]
- * Body: { updates: Partial<UserProfile>, npub: string, nostrEvent?: NostrEvent }
+ * Requires a NIP-98 signed request from the profile owner
+ * Body: { updates: Partial<UserProfile>, nostrEvent?: NostrEvent }
  */
-export async function PUT(
+export const PUT = withNostrAuth(async (
   request: NextRequest,
-  { params }: { params: Promise<{ identifier: string }> }
-) {
+  { params }: { params: Promise<{ identifier: string }> },
+  auth
+) => {
   try {
     const { identifier } = await params;
     const body = await request.json();
-    const { updates, npub, nostrEvent } = body;
+    const { updates, nostrEvent } = body;
+    const { npub } = auth;
 
-    if (!updates || !npub) {
+    if (!updates) {
       return NextResponse.json(
-        { success: false, error: 'Missing updates or npub' },
+        { success: false, error: 'Missing updates' },
         { status: 400 }
       );
     }
 
-    // Fetch the profile to verify ownership and get serialNumber
-    let profile = await getProfileByUsername(identifier);
+    const storage = getStorageBackend();
+
+    // Fetch the profile to verify ownership
+    let profile = await storage.getProfileByUsername(identifier);
 
     if (!profile && identifier.startsWith('npub1')) {
-      profile = await getProfileByNpub(identifier);
+      profile = await storage.getProfileByNpub(identifier);
     }
 
     if (!profile) {
@@ -126,7 +136,7 @@ export async function PUT(
     }
 
     // Update the profile
-    const updated = await updateProfile(profile.serialNumber, sanitizedUpdates);
+    const updated = await storage.updateProfile(profile.npub, sanitizedUpdates);
 
     // Log NOSTR event if provided
     if (nostrEvent) {
@@ -147,4 +157,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
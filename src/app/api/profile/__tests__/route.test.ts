@@ -5,16 +5,19 @@
  * - Profile retrieval by username and npub
  * - Profile updates with authorization
  * - Error handling for missing profiles
- * - Authorization checks
+ * - Authorization checks (NIP-98 signed requests)
  * - NOSTR event logging
+ *
+ * @jest-environment node
  */
 
 import { NextRequest } from 'next/server';
 import { GET, PUT } from '../[identifier]/route';
 import { createProfile } from '@/lib/storage';
 import { readNostrEvents } from '@/lib/nostr-logger';
+import { clearSeenAuthEvents } from '@/lib/nip98-auth';
 import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
-import { createProfileEvent } from '@/lib/nostr-events';
+import { createProfileEvent, createHttpAuthHeader } from '@/lib/nostr-events';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -22,8 +25,34 @@ import path from 'path';
 const TEST_DATA_DIR = path.join(process.cwd(), `data-test-api-profile-${Date.now()}`);
 process.env.DATA_DIR = TEST_DATA_DIR;
 
+/**
+ * Build a PUT request signed by the given key
+ */
+async function signedPut(secretKey: Uint8Array, identifier: string, body: unknown): Promise<NextRequest> {
+  const url = `http://localhost:3000/api/profile/${identifier}`;
+  const payload = JSON.stringify(body);
+  return new NextRequest(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: await createHttpAuthHeader(secretKey, url, 'PUT', payload),
+    },
+    body: payload,
+  });
+}
+
+/**
+ * A fresh keypair for a test user
+ */
+function newUser(): { secretKey: Uint8Array; publicKey: string; npub: string } {
+  const secretKey = generateSecretKey();
+  const publicKey = getPublicKey(secretKey);
+  return { secretKey, publicKey, npub: nip19.npubEncode(publicKey) };
+}
+
 describe('Profile API Endpoints', () => {
   beforeEach(async () => {
+    clearSeenAuthEvents();
     await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
     await fs.mkdir(TEST_DATA_DIR, { recursive: true });
   });
@@ -98,7 +127,7 @@ describe('Profile API Endpoints', () => {
     it('should update profile when authorized', async () => {
       const serialNumber = 'SN004';
       const username = 'dave';
-      const npub = 'npub1test111';
+      const { secretKey, npub } = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -107,15 +136,9 @@ describe('Profile API Endpoints', () => {
         shortbio: 'Web3 developer',
       };
 
-      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          updates,
-          npub,
-        }),
-      });
+      const request = await signedPut(secretKey, username, { updates });
 
-      const response = await PUT(request, { params: { identifier: username } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
       const data = await response.json();
 
       expect(response.status).toBe(200);
@@ -124,10 +147,11 @@ describe('Profile API Endpoints', () => {
       expect(data.profile.shortbio).toBe('Web3 developer');
     });
 
-    it('should reject update with wrong npub', async () => {
+    it('should reject update signed by another key', async () => {
       const serialNumber = 'SN005';
       const username = 'eve';
-      const npub = 'npub1test222';
+      const { npub } = newUser();
+      const attacker = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -135,15 +159,10 @@ describe('Profile API Endpoints', () => {
         name: 'Hacker',
       };
 
-      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          updates,
-          npub: 'npub1wrongkey',
-        }),
-      });
+      // Claiming the owner's npub in the body doesn't help
+      const request = await signedPut(attacker.secretKey, username, { updates, npub });
 
-      const response = await PUT(request, { params: { identifier: username } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
       const data = await response.json();
 
       expect(response.status).toBe(403);
@@ -151,16 +170,29 @@ describe('Profile API Endpoints', () => {
       expect(data.error).toContain('Unauthorized');
     });
 
-    it('should return 404 for non-existent profile', async () => {
-      const request = new NextRequest('http://localhost:3000/api/profile/nonexistent', {
+    it('should reject unsigned updates', async () => {
+      const serialNumber = 'SN010';
+      const username = 'mallory';
+      const { npub } = newUser();
+
+      await createProfile(serialNumber, username, npub);
+
+      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
         method: 'PUT',
-        body: JSON.stringify({
-          updates: { name: 'Test' },
-          npub: 'npub1test',
-        }),
+        body: JSON.stringify({ updates: { name: 'Hacker' }, npub }),
       });
 
-      const response = await PUT(request, { params: { identifier: 'nonexistent' } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.success).toBe(false);
+    });
+
+    it('should return 404 for non-existent profile', async () => {
+      const request = await signedPut(newUser().secretKey, 'nonexistent', { updates: { name: 'Test' } });
+
+      const response = await PUT(request, { params: Promise.resolve({ identifier: 'nonexistent' }) });
       const data = await response.json();
 
       expect(response.status).toBe(404);
@@ -170,7 +202,7 @@ describe('Profile API Endpoints', () => {
     it('should not allow updating protected fields', async () => {
       const serialNumber = 'SN006';
       const username = 'frank';
-      const npub = 'npub1test333';
+      const { secretKey, npub } = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -180,15 +212,9 @@ describe('Profile API Endpoints', () => {
         name: 'Frank Miller', // Should be allowed
       };
 
-      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          updates,
-          npub,
-        }),
-      });
+      const request = await signedPut(secretKey, username, { updates });
 
-      const response = await PUT(request, { params: { identifier: username } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
       const data = await response.json();
 
       expect(response.status).toBe(200);
@@ -199,13 +225,10 @@ describe('Profile API Endpoints', () => {
       expect(data.profile.npub).toBe(npub); // Not 'npub1hacker'
     });
 
-    it('should return 400 if updates or npub missing', async () => {
-      const request = new NextRequest('http://localhost:3000/api/profile/alice', {
-        method: 'PUT',
-        body: JSON.stringify({}),
-      });
+    it('should return 400 if updates missing', async () => {
+      const request = await signedPut(newUser().secretKey, 'alice', {});
 
-      const response = await PUT(request, { params: { identifier: 'alice' } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: 'alice' }) });
       const data = await response.json();
 
       expect(response.status).toBe(400);
@@ -218,9 +241,7 @@ describe('Profile API Endpoints', () => {
       const username = 'grace';
 
       // Generate a real keypair for testing
-      const secretKey = generateSecretKey();
-      const publicKey = getPublicKey(secretKey);
-      const npub = nip19.npubEncode(publicKey);
+      const { secretKey, publicKey, npub } = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -236,23 +257,19 @@ describe('Profile API Endpoints', () => {
         shortbio: 'Computer scientist',
       };
 
-      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          updates,
-          npub,
-          nostrEvent, // Include the signed NOSTR event
-        }),
+      const request = await signedPut(secretKey, username, {
+        updates,
+        nostrEvent, // Include the signed NOSTR event
       });
 
-      const response = await PUT(request, { params: { identifier: username } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
       const data = await response.json();
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
 
       // Verify the NOSTR event was logged
-      const events = readNostrEvents(serialNumber);
+      const events = readNostrEvents(npub);
       expect(events.length).toBe(1);
       expect(events[0].id).toBe(nostrEvent.id);
       expect(events[0].kind).toBe(0); // Profile event
@@ -267,7 +284,7 @@ describe('Profile API Endpoints', () => {
     it('should work without NOSTR event (backwards compatibility)', async () => {
       const serialNumber = 'SN008';
       const username = 'henry';
-      const npub = 'npub1test444';
+      const { secretKey, npub } = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -275,23 +292,19 @@ describe('Profile API Endpoints', () => {
         name: 'Henry Ford',
       };
 
-      const request = new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          updates,
-          npub,
-          // No nostrEvent provided
-        }),
+      const request = await signedPut(secretKey, username, {
+        updates,
+        // No nostrEvent provided
       });
 
-      const response = await PUT(request, { params: { identifier: username } });
+      const response = await PUT(request, { params: Promise.resolve({ identifier: username }) });
       const data = await response.json();
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
 
       // Verify no events were logged
-      const events = readNostrEvents(serialNumber);
+      const events = readNostrEvents(npub);
       expect(events.length).toBe(0);
     });
 
@@ -299,9 +312,7 @@ describe('Profile API Endpoints', () => {
       const serialNumber = 'SN009';
       const username = 'iris';
 
-      const secretKey = generateSecretKey();
-      const publicKey = getPublicKey(secretKey);
-      const npub = nip19.npubEncode(publicKey);
+      const { secretKey, npub } = newUser();
 
       await createProfile(serialNumber, username, npub);
 
@@ -312,15 +323,11 @@ describe('Profile API Endpoints', () => {
       });
 
       await PUT(
-        new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-          method: 'PUT',
-          body: JSON.stringify({
-            updates: { name: 'Iris Chang' },
-            npub,
-            nostrEvent: event1,
-          }),
+        await signedPut(secretKey, username, {
+        updates: { name: 'Iris Chang' },
+        nostrEvent: event1,
         }),
-        { params: { identifier: username } }
+        { params: Promise.resolve({ identifier: username }) }
       );
 
       // Second update
@@ -331,19 +338,15 @@ describe('Profile API Endpoints', () => {
       });
 
       await PUT(
-        new NextRequest(`http://localhost:3000/api/profile/${username}`, {
-          method: 'PUT',
-          body: JSON.stringify({
-            updates: { shortbio: 'Historian and Writer' },
-            npub,
-            nostrEvent: event2,
-          }),
+        await signedPut(secretKey, username, {
+        updates: { shortbio: 'Historian and Writer' },
+        nostrEvent: event2,
         }),
-        { params: { identifier: username } }
+        { params: Promise.resolve({ identifier: username }) }
       );
 
       // Verify both events were logged
-      const events = readNostrEvents(serialNumber);
+      const events = readNostrEvents(npub);
       expect(events.length).toBe(2);
       expect(events[0].id).toBe(event1.id);
       expect(events[1].id).toBe(event2.id);
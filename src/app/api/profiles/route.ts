@@ -4,14 +4,14 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getAllProfiles } from '@/lib/storage';
+import { getStorageBackend } from '@/lib/storage-backend';
 
 /**
  * GET all profiles
  */
 export async function GET() {
   try {
-    const profiles = await getAllProfiles();
+    const profiles = await getStorageBackend().getAllProfiles();
 
     // Return profiles without sensitive information
     const publicProfiles = profiles.map((profile) => ({
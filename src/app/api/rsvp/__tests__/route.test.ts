@@ -7,17 +7,52 @@
  * - Balance checks and validation
  * - Offer status updates (pending -> confirmed)
  * - Duplicate RSVP prevention
+ * - Requests are NIP-98 signed by the attendee
+ *
+ * @jest-environment node
  */
 
 import { NextRequest } from 'next/server';
 import { POST, DELETE, GET } from '../route';
 import { createProfile } from '@/lib/storage';
+import { getStorageBackend } from '@/lib/storage-backend';
+import { buildHttpAuthEvent, encodeHttpAuthHeader } from '@/lib/nostr-events';
+import { clearSeenAuthEvents } from '@/lib/nip98-auth';
+import { MemoryToken } from '@/lib/token-backend';
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
 import fs from 'fs/promises';
 import path from 'path';
 
 // Use a test data directory
 const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-rsvp');
 process.env.DATA_DIR = TEST_DATA_DIR;
+// Balances are read from the in-memory chain
+process.env.CHAIN = 'memory';
+process.env.TOKEN_ADDRESS = '0x00000000000000000000000000000000000000bb';
+
+const aliceKey = generateSecretKey();
+const bobKey = generateSecretKey();
+
+// Identical requests within a second would otherwise sign the same auth event
+let requestCount = 0;
+
+/**
+ * Build an /api/rsvp request signed by the given key
+ */
+async function rsvpRequest(secretKey: Uint8Array, method: string, body: unknown): Promise<NextRequest> {
+  const url = 'http://localhost:3000/api/rsvp';
+  const payload = JSON.stringify(body);
+  const authEvent = await buildHttpAuthEvent(url, method, payload);
+  authEvent.created_at -= requestCount++;
+  return new NextRequest(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: encodeHttpAuthHeader(finalizeEvent(authEvent, secretKey)),
+    },
+    body: payload,
+  });
+}
 
 describe('RSVP API Endpoints', () => {
   let aliceNpub: string;
@@ -25,15 +60,27 @@ describe('RSVP API Endpoints', () => {
   let testOfferId: string;
 
   beforeEach(async () => {
+    clearSeenAuthEvents();
     await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
     await fs.mkdir(TEST_DATA_DIR, { recursive: true });
 
     // Create test users
-    await createProfile('ALICE123', 'alice', 'npub1alice');
-    await createProfile('BOB456', 'bob', 'npub1bob');
-
-    aliceNpub = 'npub1alice';
-    bobNpub = 'npub1bob';
+    aliceNpub = nip19.npubEncode(getPublicKey(aliceKey));
+    bobNpub = nip19.npubEncode(getPublicKey(bobKey));
+
+    // 50 confirmed tokens each, on-chain and in the profiles
+    for (const [serialNumber, username, npub] of [
+      ['ALICE123', 'alice', aliceNpub],
+      ['BOB456', 'bob', bobNpub],
+    ]) {
+      const profile = await createProfile(serialNumber, username, npub);
+      profile.balance = { confirmed: 50, pending: 0, total: 50 };
+      await getStorageBackend().saveProfile(profile);
+    }
+    await new MemoryToken(process.env.TOKEN_ADDRESS).batchMintTo([
+      { amount: 50, to: `nostr:${aliceNpub}` },
+      { amount: 50, to: `nostr:${bobNpub}` },
+    ]);
 
     // Create a test offer
     testOfferId = 'test-offer-123';
@@ -66,13 +113,7 @@ describe('RSVP API Endpoints', () => {
 
   describe('POST /api/rsvp', () => {
     it('should create an RSVP successfully', async () => {
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
 
       const response = await POST(request);
       const data = await response.json();
@@ -87,13 +128,7 @@ describe('RSVP API Endpoints', () => {
     });
 
     it('should deduct 1 token from user balance', async () => {
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
 
       await POST(request);
 
@@ -113,14 +148,9 @@ describe('RSVP API Endpoints', () => {
       profile.balance.confirmed = 0;
       profile.balance.total = 0;
       await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
+      await new MemoryToken(process.env.TOKEN_ADDRESS).burnFrom(50, `nostr:${bobNpub}`);
 
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
 
       const response = await POST(request);
       const data = await response.json();
@@ -132,23 +162,11 @@ describe('RSVP API Endpoints', () => {
 
     it('should reject duplicate RSVP', async () => {
       // Create first RSVP
-      const request1 = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request1 = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
       await POST(request1);
 
       // Try to RSVP again
-      const request2 = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request2 = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
 
       const response = await POST(request2);
       const data = await response.json();
@@ -159,13 +177,7 @@ describe('RSVP API Endpoints', () => {
     });
 
     it('should reject author RSVPing to own offer', async () => {
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: aliceNpub, // Alice is the author
-        }),
-      });
+      const request = await rsvpRequest(aliceKey, 'POST', { offerId: testOfferId }); // Alice is the author
 
       const response = await POST(request);
       const data = await response.json();
@@ -176,13 +188,7 @@ describe('RSVP API Endpoints', () => {
     });
 
     it('should return 404 for non-existent offer', async () => {
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: 'nonexistent',
-          npub: bobNpub,
-        }),
-      });
+      const request = await rsvpRequest(bobKey, 'POST', { offerId: 'nonexistent' });
 
       const response = await POST(request);
       const data = await response.json();
@@ -191,28 +197,30 @@ describe('RSVP API Endpoints', () => {
       expect(data.success).toBe(false);
       expect(data.error).toBe('Offer not found');
     });
-  });
 
-  describe('DELETE /api/rsvp', () => {
-    it('should cancel RSVP and refund token', async () => {
-      // First, create an RSVP
-      const createRequest = new NextRequest('http://localhost:3000/api/rsvp', {
+    it('should reject unsigned RSVPs', async () => {
+      const request = new NextRequest('http://localhost:3000/api/rsvp', {
         method: 'POST',
         body: JSON.stringify({
           offerId: testOfferId,
           npub: bobNpub,
         }),
       });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('DELETE /api/rsvp', () => {
+    it('should cancel RSVP and refund token', async () => {
+      // First, create an RSVP
+      const createRequest = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
       await POST(createRequest);
 
       // Then cancel it
-      const cancelRequest = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'DELETE',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const cancelRequest = await rsvpRequest(bobKey, 'DELETE', { offerId: testOfferId });
 
       const response = await DELETE(cancelRequest);
       const data = await response.json();
@@ -229,13 +237,7 @@ describe('RSVP API Endpoints', () => {
     });
 
     it('should return 404 when no active RSVP exists', async () => {
-      const request = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'DELETE',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request = await rsvpRequest(bobKey, 'DELETE', { offerId: testOfferId });
 
       const response = await DELETE(request);
       const data = await response.json();
@@ -249,13 +251,7 @@ describe('RSVP API Endpoints', () => {
   describe('GET /api/rsvp', () => {
     it('should return RSVP count for an offer', async () => {
       // Create a couple of RSVPs
-      const request1 = new NextRequest('http://localhost:3000/api/rsvp', {
-        method: 'POST',
-        body: JSON.stringify({
-          offerId: testOfferId,
-          npub: bobNpub,
-        }),
-      });
+      const request1 = await rsvpRequest(bobKey, 'POST', { offerId: testOfferId });
       await POST(request1);
 
       // Get RSVPs
@@ -10,7 +10,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getProfileByNpub, addToBlockchainQueue } from '@/lib/storage';
+import { addToBlockchainQueue } from '@/lib/storage';
+import {
+  getStorageBackend,
+  getActiveRsvps,
+  getOfferLockResource,
+  getProfileLockResource,
+  latestRsvpPerUser,
+} from '@/lib/storage-backend';
+import { withLocks } from '@/lib/file-lock';
+import { withNostrAuth } from '@/lib/nip98-auth';
+import { getRewardShares } from '@/lib/rewards';
 import { CreateRSVPRequest, CreateRSVPResponse, RSVP } from '@/types';
 import {
   addAttendee,
@@ -20,12 +30,7 @@ import {
   getRoomSlug,
   getProposalEvent,
 } from '@/lib/local-calendar';
-import { getTokenInfo, getChain } from '@/lib/token-factory';
-import { Token } from '@opencollective/token-factory';
-import fs from 'fs/promises';
-import path from 'path';
-
-const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+import { getTokenInfo, getChain, createTokenBackend } from '@/lib/token-factory';
 
 /**
  * Get user's on-chain token balance
@@ -37,12 +42,12 @@ async function getOnChainBalance(npub: string): Promise<number> {
   }
 
   const chain = getChain();
-  const token = new Token({
+  const token = await createTokenBackend({
     name: tokenInfo.name,
     symbol: tokenInfo.symbol,
     chain,
-    tokenAddress: tokenInfo.address as `0x${string}`,
-    deployerPrivateKey: process.env.PRIVATE_KEY as `0x${string}`,
+    tokenAddress: tokenInfo.address,
+    deployerPrivateKey: process.env.PRIVATE_KEY,
   });
 
   const balance = await token.getBalance(`nostr:${npub}`);
@@ -51,26 +56,30 @@ async function getOnChainBalance(npub: string): Promise<number> {
 
 /**
  * POST - RSVP to an offer/workshop
- * Body: { offerId, npub }
+ * Requires a NIP-98 signed request; the signer is the attendee
+ * Body: { offerId }
  */
-export async function POST(request: NextRequest) {
+export const POST = withNostrAuth(async (request: NextRequest, _context, auth) => {
   try {
     const body = await request.json();
-    const { offerId, npub } = body;
+    const { offerId } = body;
+    const { npub } = auth;
 
     // Validate required fields
-    if (!offerId || !npub) {
+    if (!offerId) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Missing required fields: offerId, npub',
+          error: 'Missing required field: offerId',
         } as CreateRSVPResponse,
         { status: 400 }
       );
     }
 
+    const storage = getStorageBackend();
+
     // Get user profile
-    const profile = await getProfileByNpub(npub);
+    const profile = await storage.getProfileByNpub(npub);
     if (!profile) {
       return NextResponse.json(
         {
@@ -95,161 +104,115 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Load the offer
-    const offerPath = path.join(DATA_DIR, 'offers', `${offerId}.json`);
-    let offerContent;
-    try {
-      offerContent = await fs.readFile(offerPath, 'utf-8');
-    } catch (error) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Offer not found',
-        } as CreateRSVPResponse,
-        { status: 404 }
-      );
-    }
+    // Record the RSVP while holding the offer and profile locks so that
+    // concurrent RSVPs can't lose count or balance updates or confirm the
+    // offer twice
+    const now = new Date().toISOString();
+    const result = await withLocks([getOfferLockResource(offerId), getProfileLockResource(npub)], async () => {
+      // Load the offer
+      const offer = await storage.getOffer(offerId);
+      if (!offer) {
+        return { error: 'Offer not found', status: 404 } as const;
+      }
 
-    const offer = JSON.parse(offerContent);
+      // Only cancelled offers cannot receive RSVPs
+      // Pending/tentative offers CAN receive RSVPs - they become confirmed once threshold is reached
+      if (offer.status === 'cancelled') {
+        return { error: 'Cannot RSVP to a cancelled offer.', status: 400 } as const;
+      }
 
-    // Only cancelled offers cannot receive RSVPs
-    // Pending/tentative offers CAN receive RSVPs - they become confirmed once threshold is reached
-    if (offer.status === 'cancelled') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Cannot RSVP to a cancelled offer.',
-        } as CreateRSVPResponse,
-        { status: 400 }
-      );
-    }
+      // Cannot RSVP to an event that has already started
+      if (offer.startTime && new Date(offer.startTime) <= new Date()) {
+        return { error: 'Cannot RSVP to an event that has already started.', status: 400 } as const;
+      }
 
-    // Cannot RSVP to an event that has already started
-    if (offer.startTime && new Date(offer.startTime) <= new Date()) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Cannot RSVP to an event that has already started.',
-        } as CreateRSVPResponse,
-        { status: 400 }
-      );
-    }
+      // Check if user already has an active RSVP
+      // (the RSVP log is authoritative, the profile may lag behind a concurrent request)
+      const currentRSVPs = await getActiveRsvps(offerId);
+      const lockedProfile = (await storage.getProfileByNpub(npub)) || profile;
+      const alreadyRSVPed =
+        currentRSVPs.some((r) => r.npub === npub) ||
+        lockedProfile.rsvps.some((r) => r.offerId === offerId && r.status === 'active');
+      if (alreadyRSVPed) {
+        return { error: 'You have already RSVPed to this offer', status: 400 } as const;
+      }
 
-    // Check if user already has an active RSVP
-    const existingRSVP = profile.rsvps.find(
-      (r) => r.offerId === offerId && r.status === 'active'
-    );
-    if (existingRSVP) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'You have already RSVPed to this offer',
-        } as CreateRSVPResponse,
-        { status: 400 }
-      );
-    }
+      // Check if user is the author
+      if (offer.authors.includes(npub)) {
+        return { error: 'You cannot RSVP to your own offer', status: 400 } as const;
+      }
 
-    // Check if user is the author
-    if (offer.authors.includes(npub)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'You cannot RSVP to your own offer',
-        } as CreateRSVPResponse,
-        { status: 400 }
-      );
-    }
+      // Check max attendees
+      if (offer.maxAttendees && currentRSVPs.length >= offer.maxAttendees) {
+        return { error: 'This workshop is full.', status: 400 } as const;
+      }
 
-    // Check max attendees
-    if (offer.maxAttendees) {
-      const currentRsvpCount = offer.rsvpCount || 0;
-      if (currentRsvpCount >= offer.maxAttendees) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'This workshop is full.',
-          } as CreateRSVPResponse,
-          { status: 400 }
-        );
+      // Create RSVP
+      const rsvp: RSVP = {
+        offerId,
+        npub,
+        createdAt: now,
+        status: 'active',
+        tokensPaid: 1,
+      };
+
+      // Add RSVP to user's profile
+      lockedProfile.rsvps.push(rsvp);
+
+      // Update user's balance (deduct 1 token)
+      lockedProfile.balance.confirmed -= 1;
+      lockedProfile.balance.total -= 1;
+
+      // Save updated profile
+      await storage.saveProfile(lockedProfile);
+
+      // Queue blockchain transactions (the token is split between the offer's authors)
+      for (const share of getRewardShares(offer, 1)) {
+        await addToBlockchainQueue(lockedProfile.serialNumber, {
+          type: 'transfer',
+          from: npub,
+          to: share.npub,
+          amount: share.amount,
+        });
       }
-    }
 
-    // Create RSVP
-    const now = new Date().toISOString();
-    const rsvp: RSVP = {
-      offerId,
-      npub,
-      createdAt: now,
-      status: 'active',
-      tokensPaid: 1,
-    };
-
-    // Add RSVP to user's profile
-    profile.rsvps.push(rsvp);
-
-    // Update user's balance (deduct 1 token)
-    profile.balance.confirmed -= 1;
-    profile.balance.total -= 1;
-
-    // Save updated profile
-    const profilePath = path.join(
-      DATA_DIR,
-      'badges',
-      profile.serialNumber,
-      'profile.json'
-    );
-    await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
-
-    // Queue blockchain transaction (transfer 1 token to offer author)
-    await addToBlockchainQueue(profile.serialNumber, {
-      type: 'transfer',
-      from: npub,
-      to: offer.authors[0], // Primary author gets the token
-      amount: 1,
-    });
+      // Record the RSVP for this offer
+      await storage.appendRsvp(rsvp);
+      const activeCount = currentRSVPs.length + 1;
 
-    // Load RSVPs file for this offer
-    const rsvpsDir = path.join(DATA_DIR, 'rsvps');
-    await fs.mkdir(rsvpsDir, { recursive: true });
-
-    const rsvpsPath = path.join(rsvpsDir, `${offerId}.jsonl`);
-    const rsvpLine = JSON.stringify(rsvp) + '\n';
-    await fs.appendFile(rsvpsPath, rsvpLine);
-
-    // Count total active RSVPs
-    const rsvpsContent = await fs.readFile(rsvpsPath, 'utf-8');
-    const allRSVPs = rsvpsContent
-      .split('\n')
-      .filter((line) => line.trim())
-      .map((line) => JSON.parse(line));
-
-    // Get latest status for each user
-    const rsvpsByUser = new Map<string, typeof rsvp>();
-    for (const r of allRSVPs) {
-      rsvpsByUser.set(r.npub, r);
-    }
-    const activeRSVPs = Array.from(rsvpsByUser.values()).filter(
-      (r) => r.status === 'active'
-    );
+      // Update rsvpCount in offer
+      offer.rsvpCount = activeCount;
+      offer.updatedAt = now;
 
-    // Update rsvpCount in offer
-    offer.rsvpCount = activeRSVPs.length;
-    offer.updatedAt = now;
+      // Track if status changed to confirmed
+      let statusChanged = false;
+
+      // Check threshold for workshop proposals
+      // Status changes: pending/tentative → confirmed when threshold is reached
+      const minRsvps = offer.minRsvps || offer.minAttendees || 5;
+      if (activeCount >= minRsvps && (offer.status === 'tentative' || offer.status === 'pending')) {
+        offer.status = 'confirmed';
+        statusChanged = true;
+        console.log(`[RSVP API] Offer ${offerId} confirmed - threshold reached (${activeCount}/${minRsvps})`);
+      }
 
-    // Track if status changed to confirmed
-    let statusChanged = false;
+      // Save updated offer
+      await storage.saveOffer(offer);
 
-    // Check threshold for workshop proposals
-    // Status changes: pending/tentative → confirmed when threshold is reached
-    const minRsvps = offer.minRsvps || offer.minAttendees || 5;
-    if (activeRSVPs.length >= minRsvps && (offer.status === 'tentative' || offer.status === 'pending')) {
-      offer.status = 'confirmed';
-      statusChanged = true;
-      console.log(`[RSVP API] Offer ${offerId} confirmed - threshold reached (${activeRSVPs.length}/${minRsvps})`);
+      return { offer, rsvp, activeCount, statusChanged };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+        } as CreateRSVPResponse,
+        { status: result.status }
+      );
     }
 
-    // Save updated offer
-    await fs.writeFile(offerPath, JSON.stringify(offer, null, 2));
+    const { offer, rsvp, activeCount, statusChanged } = result;
 
     // Update local calendar if offer has a room
     if (offer.room) {
@@ -272,7 +235,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       rsvp,
-      rsvpCount: activeRSVPs.length,
+      rsvpCount: activeCount,
       statusChanged,
       offerStatus: offer.status,
     } as CreateRSVPResponse & {
@@ -291,94 +254,103 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE - Cancel an RSVP
- * Body: { offerId, npub }
+ * Requires a NIP-98 signed request; the signer is the attendee
+ * Body: { offerId }
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withNostrAuth(async (request: NextRequest, _context, auth) => {
   try {
     const body = await request.json();
-    const { offerId, npub } = body;
+    const { offerId } = body;
+    const { npub } = auth;
 
-    if (!offerId || !npub) {
+    if (!offerId) {
       return NextResponse.json(
-        { success: false, error: 'Missing required fields: offerId, npub' },
+        { success: false, error: 'Missing required field: offerId' },
         { status: 400 }
       );
     }
 
-    // Get user profile
-    const profile = await getProfileByNpub(npub);
-    if (!profile) {
-      return NextResponse.json(
-        { success: false, error: 'Profile not found' },
-        { status: 404 }
-      );
-    }
+    const storage = getStorageBackend();
 
-    // Find the active RSVP
-    const rsvpIndex = profile.rsvps.findIndex(
-      (r) => r.offerId === offerId && r.status === 'active'
-    );
+    // Cancel while holding the offer and profile locks so the RSVP count and
+    // the user's balance stay consistent
+    const result = await withLocks([getOfferLockResource(offerId), getProfileLockResource(npub)], async () => {
+      // Get user profile
+      const profile = await storage.getProfileByNpub(npub);
+      if (!profile) {
+        return { error: 'Profile not found', status: 404 } as const;
+      }
 
-    if (rsvpIndex === -1) {
-      return NextResponse.json(
-        { success: false, error: 'No active RSVP found for this offer' },
-        { status: 404 }
+      // Find the active RSVP
+      const rsvpIndex = profile.rsvps.findIndex(
+        (r) => r.offerId === offerId && r.status === 'active'
       );
-    }
 
-    // Load the offer to check if event has started
-    const offerPath = path.join(DATA_DIR, 'offers', `${offerId}.json`);
-    let offer;
-    try {
-      const offerContent = await fs.readFile(offerPath, 'utf-8');
-      offer = JSON.parse(offerContent);
+      if (rsvpIndex === -1) {
+        return { error: 'No active RSVP found for this offer', status: 404 } as const;
+      }
+
+      // Load the offer to check if event has started
+      // If the offer doesn't exist, allow cancellation anyway
+      const offer = await storage.getOffer(offerId);
 
       // Cannot cancel RSVP for an event that has already started
-      if (offer.startTime && new Date(offer.startTime) <= new Date()) {
-        return NextResponse.json(
-          { success: false, error: 'Cannot cancel RSVP for an event that has already started.' },
-          { status: 400 }
-        );
+      if (offer?.startTime && new Date(offer.startTime) <= new Date()) {
+        return { error: 'Cannot cancel RSVP for an event that has already started.', status: 400 } as const;
       }
-    } catch {
-      // Offer doesn't exist, allow cancellation anyway
-    }
 
-    // Cancel the RSVP
-    profile.rsvps[rsvpIndex].status = 'cancelled';
+      // Cancel the RSVP
+      profile.rsvps[rsvpIndex].status = 'cancelled';
 
-    // Refund 1 token
-    profile.balance.confirmed += 1;
-    profile.balance.total += 1;
+      // Refund 1 token
+      profile.balance.confirmed += 1;
+      profile.balance.total += 1;
 
-    // Save updated profile
-    const profilePath = path.join(
-      DATA_DIR,
-      'badges',
-      profile.serialNumber,
-      'profile.json'
-    );
-    await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
-
-    // Update RSVP in the JSONL file
-    const rsvpsPath = path.join(DATA_DIR, 'rsvps', `${offerId}.jsonl`);
-    const cancelledRSVP = { ...profile.rsvps[rsvpIndex] };
-    const rsvpLine = JSON.stringify(cancelledRSVP) + '\n';
-    await fs.appendFile(rsvpsPath, rsvpLine);
-
-    // Queue blockchain transaction (refund)
-    await addToBlockchainQueue(profile.serialNumber, {
-      type: 'transfer',
-      from: 'system', // System refund
-      to: npub,
-      amount: 1,
+      // Save updated profile
+      await storage.saveProfile(profile);
+
+      // Record the cancellation in the RSVP log
+      const cancelledRSVP = { ...profile.rsvps[rsvpIndex] };
+      await storage.appendRsvp(cancelledRSVP);
+
+      // Queue blockchain transaction (refund)
+      await addToBlockchainQueue(profile.serialNumber, {
+        type: 'transfer',
+        from: 'system', // System refund
+        to: npub,
+        amount: 1,
+      });
+
+      // If the offer doesn't exist there is no count to update
+      if (!offer) {
+        return { offer: null, activeCount: 0 };
+      }
+
+      // Count active RSVPs
+      const activeRSVPs = await getActiveRsvps(offerId);
+
+      // Update rsvpCount
+      offer.rsvpCount = activeRSVPs.length;
+      offer.updatedAt = new Date().toISOString();
+      await storage.saveOffer(offer);
+
+      return { offer, activeCount: activeRSVPs.length };
     });
 
-    // If offer wasn't loaded earlier, just return success
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { offer, activeCount } = result;
+
+    // If offer wasn't found, just return success
     if (!offer) {
       return NextResponse.json({
         success: true,
@@ -386,26 +358,6 @@ export async function DELETE(request: NextRequest) {
       });
     }
 
-    // Count active RSVPs
-    const rsvpsContent = await fs.readFile(rsvpsPath, 'utf-8');
-    const allRSVPs = rsvpsContent
-      .split('\n')
-      .filter((line) => line.trim())
-      .map((line) => JSON.parse(line));
-
-    const rsvpsByUser = new Map();
-    for (const r of allRSVPs) {
-      rsvpsByUser.set(r.npub, r);
-    }
-    const activeRSVPs = Array.from(rsvpsByUser.values()).filter(
-      (r: any) => r.status === 'active'
-    );
-
-    // Update rsvpCount
-    offer.rsvpCount = activeRSVPs.length;
-    offer.updatedAt = new Date().toISOString();
-    await fs.writeFile(offerPath, JSON.stringify(offer, null, 2));
-
     // Update local calendar if offer has a room
     if (offer.room) {
       const roomSlug = getRoomSlug(offer.room);
@@ -422,7 +374,7 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'RSVP cancelled and token refunded',
-      rsvpCount: activeRSVPs.length,
+      rsvpCount: activeCount,
     });
 
   } catch (error) {
@@ -432,7 +384,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET - Get RSVPs for an offer
@@ -450,48 +402,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const rsvpsPath = path.join(DATA_DIR, 'rsvps', `${offerId}.jsonl`);
-
-    try {
-      const rsvpsContent = await fs.readFile(rsvpsPath, 'utf-8');
-      const allRSVPs = rsvpsContent
-        .split('\n')
-        .filter((line) => line.trim())
-        .map((line) => JSON.parse(line));
+    const storage = getStorageBackend();
 
-      // Get only the latest status for each user
-      const rsvpsByUser = new Map<string, RSVP>();
-      for (const rsvp of allRSVPs) {
-        rsvpsByUser.set(rsvp.npub, rsvp);
-      }
-
-      const activeRSVPs = Array.from(rsvpsByUser.values()).filter(
-        (r) => r.status === 'active'
-      );
-
-      // Load offer to get minRsvps for threshold info
-      let offerInfo = null;
-      try {
-        const offerPath = path.join(DATA_DIR, 'offers', `${offerId}.json`);
-        const offerContent = await fs.readFile(offerPath, 'utf-8');
-        const offer = JSON.parse(offerContent);
-        offerInfo = {
-          minRsvps: offer.minRsvps || offer.minAttendees || 5,
-          status: offer.status,
-          rsvpCount: offer.rsvpCount || activeRSVPs.length,
-        };
-      } catch {
-        // Offer not found, just return RSVPs
-      }
+    const allRSVPs = await storage.getRsvps(offerId);
 
-      return NextResponse.json({
-        success: true,
-        rsvps: activeRSVPs,
-        count: activeRSVPs.length,
-        offer: offerInfo,
-      });
-    } catch (error) {
-      // File doesn't exist, no RSVPs yet
+    // No RSVPs yet
+    if (allRSVPs.length === 0) {
       return NextResponse.json({
         success: true,
         rsvps: [],
@@ -499,6 +415,29 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Get only the latest status for each user
+    const activeRSVPs: RSVP[] = latestRsvpPerUser(allRSVPs).filter(
+      (r) => r.status === 'active'
+    );
+
+    // Load offer to get minRsvps for threshold info
+    let offerInfo = null;
+    const offer = await storage.getOffer(offerId);
+    if (offer) {
+      offerInfo = {
+        minRsvps: offer.minRsvps || offer.minAttendees || 5,
+        status: offer.status,
+        rsvpCount: offer.rsvpCount || activeRSVPs.length,
+      };
+    }
+
+    return NextResponse.json({
+      success: true,
+      rsvps: activeRSVPs,
+      count: activeRSVPs.length,
+      offer: offerInfo,
+    });
+
   } catch (error) {
     console.error('Get RSVPs error:', error);
     return NextResponse.json(
@@ -23,6 +23,7 @@ import { getTokenInfo, getChain } from '@/lib/token-factory';
 
 // Chain name to ID mapping
 const CHAIN_NAME_TO_ID: Record<string, number> = {
+  memory: 1337, // Simulated token, see lib/token-backend.ts
   localhost: 31337,
   gnosis: 100,
   gnosis_chiado: 10200,
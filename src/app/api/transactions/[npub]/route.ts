@@ -0,0 +1,80 @@
+/**
+ * GET /api/transactions/[npub] - Get a villager's transaction history
+ *
+ * Built from the payment requests and receipts recorded for them
+ * (see lib/transactions.ts).
+ *
+ * Query Parameters:
+ * - type: Comma-separated list of mint, transfer, burn, rsvp, booking
+ * - status: pending, confirmed or failed
+ * - limit: Maximum number of transactions to return (default: 20, max: 100)
+ * - cursor: nextCursor from the previous page
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  TRANSACTION_TYPES,
+  getTransactions,
+  type TransactionStatus,
+  type TransactionType,
+} from '@/lib/transactions';
+
+const STATUSES: TransactionStatus[] = ['pending', 'confirmed', 'failed'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ npub: string }> }
+) {
+  try {
+    const { npub } = await params;
+
+    // Validate npub format
+    if (!npub || !npub.startsWith('npub1')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid npub format' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const types = (searchParams.get('type') || '').split(',').map((t) => t.trim()).filter(Boolean);
+    const invalidType = types.find((t) => !TRANSACTION_TYPES.includes(t as TransactionType));
+    if (invalidType) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type: ${invalidType}` },
+        { status: 400 }
+      );
+    }
+
+    const status = searchParams.get('status') || undefined;
+    if (status && !STATUSES.includes(status as TransactionStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+
+    const { transactions, nextCursor } = await getTransactions(npub, {
+      types: types as TransactionType[],
+      status: status as TransactionStatus | undefined,
+      limit: Math.min(Math.max(isNaN(limit) ? 20 : limit, 1), 100),
+      cursor: searchParams.get('cursor') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      transactions,
+      count: transactions.length,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error('[Transactions API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -20,6 +20,7 @@ import { CHAIN_IDS } from '@/lib/nostr-events';
 
 // Chain name to ID mapping
 const CHAIN_NAME_TO_ID: Record<string, number> = {
+  memory: 1337, // Simulated token, see lib/token-backend.ts
   localhost: 31337,
   gnosis: 100,
   gnosis_chiado: 10200,
@@ -6,8 +6,9 @@
  * Handles GitHub push webhooks to auto-deploy on new commits.
  * Verifies the webhook secret, then runs:
  * 1. git pull origin main
- * 2. bun install
- * 3. Restarts the systemd service
+ * 2. An incremental backup of DATA_DIR (the deploy stops if it fails)
+ * 3. bun install and bun run build
+ * 4. Restarts the systemd services
  *
  * Environment Variables:
  * - WEBHOOK_SECRET: GitHub webhook secret for signature verification
@@ -18,6 +19,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createHmac } from 'crypto';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { createBackup } from '@/lib/backup';
 
 const execAsync = promisify(exec);
 
@@ -147,24 +149,29 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // 2. Install dependencies
-    console.log('[Webhook] Step 2: bun install');
+    // 2. Snapshot the data before the new code touches it
+    console.log('[Webhook] Step 2: backup');
+    const backup = await createBackup({ incremental: true });
+    results.push(`backup: ${backup.archivePath}`);
+
+    // 3. Install dependencies
+    console.log('[Webhook] Step 3: bun install');
     const installResult = await runCommand('bun install', cwd);
     results.push(`bun install: completed`);
 
-    // 3. Build the application
-    console.log('[Webhook] Step 3: bun run build');
+    // 4. Build the application
+    console.log('[Webhook] Step 4: bun run build');
     const buildResult = await runCommand('bun run build', cwd);
     results.push(`build: completed`);
 
-    // 4. Restart all systemd services
+    // 5. Restart all systemd services
     const services = [
       serviceName,
       `${serviceName}-payment-processor`,
       `${serviceName}-nostr-recorder`,
     ];
 
-    console.log(`[Webhook] Step 4: Restarting services...`);
+    console.log(`[Webhook] Step 5: Restarting services...`);
     for (const service of services) {
       try {
         await runCommand(`sudo systemctl restart ${service}`, cwd);
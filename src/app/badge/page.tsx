@@ -6,18 +6,21 @@
  *
  * Behavior:
  * 1. Check if badge is already claimed
- * 2. If claimed: redirect to owner's profile
+ * 2. If claimed: redirect to owner's profile (offering a key backup restore
+ *    when this device isn't logged in)
  * 3. If not claimed: redirect to /claim#{serialNumber}
+ * 4. If revoked (reported lost): say so instead of redirecting
  */
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getSerialNumberFromURL, hashSerialNumber } from '@/lib/nostr';
+import { getSerialNumberFromURL, hashSerialNumber, getStoredCredentials } from '@/lib/nostr';
 
 export default function BadgePage() {
   const router = useRouter();
   const [error, setError] = useState('');
   const [status, setStatus] = useState('Checking badge...');
+  const [revoked, setRevoked] = useState(false);
 
   useEffect(() => {
     const serialNumber = getSerialNumberFromURL();
@@ -31,6 +34,10 @@ export default function BadgePage() {
   }, [router]);
 
   const checkBadgeAndRedirect = async (badgeId: string) => {
+    // On a device that isn't logged in, the badge owner may be setting up a new phone
+    const profileUrl = (username: string, serial = badgeId) =>
+      getStoredCredentials() ? `/profile/${username}` : `/profile/${username}#restore=${serial}`;
+
     try {
       setStatus('Looking up badge...');
 
@@ -39,7 +46,7 @@ export default function BadgePage() {
       const cachedUsername = localStorage.getItem(cacheKey);
       if (cachedUsername) {
         setStatus(`Redirecting to ${cachedUsername}'s profile...`);
-        router.replace(`/profile/${cachedUsername}`);
+        router.replace(profileUrl(cachedUsername));
         return;
       }
 
@@ -55,7 +62,12 @@ export default function BadgePage() {
         // Save username to localStorage for future lookups
         localStorage.setItem(cacheKey, data.profile.username);
         setStatus(`Redirecting to ${data.profile.username}'s profile...`);
-        router.replace(`/profile/${data.profile.username}`);
+        router.replace(profileUrl(data.profile.username));
+        return;
+      }
+
+      if (data.revoked) {
+        setRevoked(true);
         return;
       }
 
@@ -68,7 +80,7 @@ export default function BadgePage() {
           // Also cache under original key for faster future lookups
           localStorage.setItem(cacheKey, hashedCachedUsername);
           setStatus(`Redirecting to ${hashedCachedUsername}'s profile...`);
-          router.replace(`/profile/${hashedCachedUsername}`);
+          router.replace(profileUrl(hashedCachedUsername, hashedSerial));
           return;
         }
 
@@ -83,7 +95,12 @@ export default function BadgePage() {
           localStorage.setItem(cacheKey, data.profile.username);
           localStorage.setItem(hashedCacheKey, data.profile.username);
           setStatus(`Redirecting to ${data.profile.username}'s profile...`);
-          router.replace(`/profile/${data.profile.username}`);
+          router.replace(profileUrl(data.profile.username, hashedSerial));
+          return;
+        }
+
+        if (data.revoked) {
+          setRevoked(true);
           return;
         }
       }
@@ -96,6 +113,26 @@ export default function BadgePage() {
     }
   };
 
+  if (revoked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-lg p-8 text-center">
+          <div className="text-5xl mb-4">🚫</div>
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Badge Revoked</h1>
+          <p className="text-gray-600 mb-6">
+            This badge was reported lost and has been replaced. If you found it, please hand it in at the welcome desk.
+          </p>
+          <button
+            onClick={() => router.push('/')}
+            className="text-blue-600 font-medium hover:text-blue-700"
+          >
+            Go to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
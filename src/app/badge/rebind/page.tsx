@@ -0,0 +1,153 @@
+'use client';
+
+/**
+ * Badge re-binding page - link a new badge after losing the old one
+ * Accessed via URL fragment: /badge/rebind#{serialNumber}
+ *
+ * Logged-in users who scan an unclaimed badge land here from /claim. Rebinding
+ * is only offered once they say they lost their badge, and asks again before
+ * the new badge is linked to their profile and the old one is revoked, so it
+ * can't be claimed or used to reach their profile anymore.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getStoredCredentials, getSerialNumberFromURL } from '@/lib/nostr';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+
+export default function BadgeRebindPage() {
+  const router = useRouter();
+  const { signedFetch } = useNostrPublisher();
+  const [serialNumber, setSerialNumber] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<{ username: string; npub: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [lostBadge, setLostBadge] = useState(false);
+
+  useEffect(() => {
+    const creds = getStoredCredentials();
+    const serial = getSerialNumberFromURL();
+
+    if (!creds) {
+      // Not logged in: this is a first claim
+      router.replace(serial ? `/claim#${serial}` : '/badge');
+      return;
+    }
+
+    setCredentials(creds);
+    setSerialNumber(serial);
+  }, [router]);
+
+  const rebind = async () => {
+    if (!serialNumber) return;
+    if (!confirm('Revoke your current badge and link this one? Your current badge will stop working for good.')) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await signedFetch('/api/badge/rebind', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serialNumber, reason: 'lost' }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to link badge');
+        return;
+      }
+
+      // Cached badge lookups may still point the old serial at this profile
+      if (data.revokedSerialNumber) {
+        localStorage.removeItem(`badge_${data.revokedSerialNumber}`);
+      }
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link badge');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!credentials) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-lg p-8 text-center">
+        <div className="text-5xl mb-4">{done ? '✅' : '🏷️'}</div>
+
+        {done ? (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Badge Linked</h1>
+            <p className="text-gray-600 mb-6">
+              This badge now opens your profile. Your old badge has been revoked.
+            </p>
+            <button
+              onClick={() => router.push(`/profile/${credentials.username}`)}
+              className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              Go to my profile
+            </button>
+          </>
+        ) : !serialNumber ? (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">No Badge Detected</h1>
+            <p className="text-gray-600 mb-6">Scan your new NFC badge to link it to your account.</p>
+          </>
+        ) : !lostBadge ? (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Unclaimed badge</h1>
+            <p className="text-gray-600 mb-6">
+              You are logged in as <span className="font-semibold">@{credentials.username}</span>, and
+              this badge isn&apos;t claimed yet. If you lost your badge, you can link this one instead.
+            </p>
+            <button
+              onClick={() => setLostBadge(true)}
+              className="w-full py-3 px-4 border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-lg transition-colors mb-3"
+            >
+              I lost my badge
+            </button>
+            <button
+              onClick={() => router.push(`/profile/${credentials.username}`)}
+              className="text-gray-500 font-medium hover:text-gray-700"
+            >
+              Go to my profile
+            </button>
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Lost your badge?</h1>
+            <p className="text-gray-600 mb-6">
+              Link this badge to <span className="font-semibold">@{credentials.username}</span>. Your
+              current badge will be revoked and stop working.
+            </p>
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+            <button
+              onClick={rebind}
+              disabled={isLoading}
+              className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors mb-3"
+            >
+              {isLoading ? 'Linking...' : 'Link this badge'}
+            </button>
+            <button
+              onClick={() => router.push(`/profile/${credentials.username}`)}
+              className="text-gray-500 font-medium hover:text-gray-700"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
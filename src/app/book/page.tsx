@@ -9,7 +9,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { getStoredCredentials, getServerNpub, publishToAllRelays } from '@/lib/nostr';
-import { getStoredSecretKey, decodeNsec, createCalendarEventClient, NOSTR_KINDS, formatTime, formatRelativeDate } from '@/lib/nostr-events';
+import { buildCalendarEvent, NOSTR_KINDS, formatTime, formatRelativeDate } from '@/lib/nostr-events';
+import { requireActiveSigner } from '@/lib/signer';
 import { useNostrPublisher } from '@/hooks/useNostrPublisher';
 import BookingGrid, { BookedSlot, RoomConfig, PendingSlot } from '@/components/BookingGrid';
 import settings from '../../../settings.json';
@@ -362,20 +363,14 @@ export default function BookRoomPage() {
       const roomName = BOOKING_ROOMS.find(r => r.id === roomId)?.name || roomId;
       const title = `${credentials.username}'s booking`;
 
-      // Get secret key for signing events
-      const nsec = getStoredSecretKey();
-      console.log('[Book] Got nsec:', nsec ? `${nsec.slice(0, 10)}...` : 'null');
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      const secretKey = decodeNsec(nsec);
-      console.log('[Book] Decoded secretKey, length:', secretKey?.length);
+      // Get the signer for signing events (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
+      console.log('[Book] Got signer:', signer.type);
 
       // Create NOSTR calendar event (kind 31922)
       // Use a temporary d-tag, the event ID will become the booking ID
       const tempDTag = `booking-${Date.now()}`;
-      const nostrEvent = createCalendarEventClient(secretKey, {
+      const nostrEvent = await signer.signEvent(buildCalendarEvent({
         dTag: tempDTag,
         title,
         description: `Private room booking for ${roomName}`,
@@ -383,7 +378,7 @@ export default function BookRoomPage() {
         endTime: endTimeUTC,
         location: roomId,
         tags: ['booking', 'private'],
-      });
+      }));
 
       // The NOSTR event ID is the booking ID
       const bookingId = nostrEvent.id;
@@ -400,9 +395,9 @@ export default function BookRoomPage() {
       const relayUrls = typeof window !== 'undefined' && window.__OSV_RELAY_URLS__;
       console.log('[Book] Relay URLs:', relayUrls);
 
-      // Publish calendar event directly to relays (pass secretKey for AUTH handling)
+      // Publish calendar event directly to relays (pass signer for AUTH handling)
       console.log('[Book] Calling publishToAllRelays...');
-      const calendarResult = await publishToAllRelays(nostrEvent, secretKey);
+      const calendarResult = await publishToAllRelays(nostrEvent, signer);
       console.log('[Book] publishToAllRelays result:', {
         successful: calendarResult.successful,
         failed: calendarResult.failed,
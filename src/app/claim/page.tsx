@@ -7,13 +7,18 @@
  * Steps:
  * 1. How should we call you? (display name)
  * 2. How can people mention you? @username
- * 3. Pick a password (or PIN) - shows debug info on localhost
+ * 3. Pick a password (or PIN), or use an existing Nostr identity
+ *    (browser extension or remote signer)
  * 4. Paste invitation code from a buddy
  * 5. Redirect to /onboarding for community values
+ *
+ * On a new device, the owner of a claimed badge restores their identity
+ * from an encrypted key backup instead.
  */
 
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { nip19 } from 'nostr-tools';
 import {
   deriveNostrKeypair,
@@ -22,8 +27,18 @@ import {
   getSerialNumberFromURL,
   redeemInviteCode,
 } from '@/lib/nostr';
-import { storeSecretKey } from '@/lib/nostr-events';
+import {
+  LocalKeySigner,
+  connectNip07,
+  connectNip46,
+  getSignerNpub,
+  hasNip07Extension,
+  saveSigner,
+  type Signer,
+  type SignerChoice,
+} from '@/lib/signer';
 import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import RestoreFromBackup from '@/components/RestoreFromBackup';
 import { QRCodeSVG } from 'qrcode.react';
 
 const QRScanner = lazy(() => import('@/components/QRScanner'));
@@ -68,13 +83,35 @@ export default function ClaimPage() {
     secretKey: Uint8Array;
   } | null>(null);
 
+  // Existing identity from a Nostr extension or remote signer (step 3)
+  const [externalIdentity, setExternalIdentity] = useState<{
+    npub: string;
+    signer: Signer;
+    choice: SignerChoice;
+  } | null>(null);
+  const [bunkerInput, setBunkerInput] = useState('');
+  const [isConnectingSigner, setIsConnectingSigner] = useState(false);
+  const [hasExtension, setHasExtension] = useState(false);
+
+  // Owner of the scanned badge, if it's already claimed (restore flow)
+  const [badgeOwner, setBadgeOwner] = useState<string | null>(null);
+
+  // The identity the badge will be claimed with
+  const identity = externalIdentity || (keypair && {
+    npub: keypair.npub,
+    signer: new LocalKeySigner(keypair.secretKey),
+    choice: { type: 'local', nsec: keypair.nsec } as SignerChoice,
+  });
+
   // Check environment and serial number on mount
   useEffect(() => {
     const init = async () => {
-      // Check for existing credentials
+      // Check for existing credentials: a logged-in user scanning a new
+      // badge may be replacing a lost one, which /badge/rebind asks first
       const credentials = getStoredCredentials();
       if (credentials) {
-        router.replace(`/profile/${credentials.username}`);
+        const serial = getSerialNumberFromURL();
+        router.replace(serial ? `/badge/rebind#${serial}` : `/profile/${credentials.username}`);
         return;
       }
 
@@ -94,6 +131,18 @@ export default function ClaimPage() {
 
       if (!serial) {
         setError('No badge serial number found. Please scan your NFC badge.');
+      } else {
+        // A claimed badge on a device without credentials: its owner is
+        // setting up a new device
+        try {
+          const response = await fetch(`/api/profile/${encodeURIComponent(serial)}`, { cache: 'no-store' });
+          const data = await response.json();
+          if (data.success && data.profile?.username) {
+            setBadgeOwner(data.profile.username);
+          }
+        } catch {
+          // Fall back to the claim flow
+        }
       }
       setStep(1);
     };
@@ -217,15 +266,56 @@ export default function ClaimPage() {
     }
   }, [password, step, serialNumber, canProceedStep3]);
 
+  // Extensions inject window.nostr after the page loads
+  useEffect(() => {
+    setHasExtension(hasNip07Extension());
+  }, [step]);
+
+  // Use the identity from a NIP-07 extension (Alby, nos2x...)
+  const handleUseExtension = async () => {
+    setIsConnectingSigner(true);
+    setError('');
+
+    try {
+      const signer = await connectNip07();
+      setExternalIdentity({ npub: await getSignerNpub(signer), signer, choice: { type: 'nip07' } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect to your Nostr extension');
+    } finally {
+      setIsConnectingSigner(false);
+    }
+  };
+
+  // Use the identity from a NIP-46 remote signer (Amber, nsec.app...)
+  const handleUseBunker = async () => {
+    setIsConnectingSigner(true);
+    setError('');
+
+    try {
+      const { signer, bunker, clientKey } = await connectNip46(bunkerInput, (url) => {
+        window.open(url, '_blank', 'noopener');
+      });
+      setExternalIdentity({
+        npub: await getSignerNpub(signer),
+        signer,
+        choice: { type: 'nip46', bunker, clientKey, signer },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect to your remote signer');
+    } finally {
+      setIsConnectingSigner(false);
+    }
+  };
+
   const handleNextStep = async () => {
     if (step === 3) {
-      if (!keypair) {
+      if (!identity) {
         setError('Please enter a password first');
         return;
       }
       // Save credentials locally so DebugInfo can show them
-      storeCredentials(username, keypair.npub);
-      storeSecretKey(keypair.nsec);
+      storeCredentials(username, identity.npub);
+      saveSigner(identity.choice);
 
       if (isFirstUser) {
         // First user - skip invite code step and claim directly
@@ -250,7 +340,7 @@ export default function ClaimPage() {
 
   // First user claiming badge without invite code
   const handleClaimBadge = async () => {
-    if (!keypair || !serialNumber) {
+    if (!identity || !serialNumber) {
       setError('Session expired. Please refresh and try again.');
       return;
     }
@@ -267,7 +357,7 @@ export default function ClaimPage() {
           username,
           displayName,
           serialNumber,
-          npub: keypair.npub,
+          npub: identity.npub,
           // No inviteCode for first user
         }),
       });
@@ -281,8 +371,8 @@ export default function ClaimPage() {
       }
 
       // Store credentials locally
-      storeCredentials(username, keypair.npub);
-      storeSecretKey(keypair.nsec);
+      storeCredentials(username, identity.npub);
+      saveSigner(identity.choice);
       localStorage.setItem('osv_displayName', displayName);
 
       // Publish kind 0 profile event and kind 1 join note
@@ -314,7 +404,7 @@ export default function ClaimPage() {
 
   // Regular user joining with invite code
   const handleJoinVillage = async () => {
-    if (!keypair || !serialNumber) {
+    if (!identity || !serialNumber) {
       setError('Session expired. Please refresh and try again.');
       return;
     }
@@ -325,7 +415,7 @@ export default function ClaimPage() {
 
     try {
       // 1. Redeem invite code directly with the relay (kind 28934)
-      const redeemResult = await redeemInviteCode(cleanCode, keypair.secretKey);
+      const redeemResult = await redeemInviteCode(cleanCode, identity.signer);
 
       if (!redeemResult.success) {
         // "already a member" is OK - they can still create their profile
@@ -346,7 +436,7 @@ export default function ClaimPage() {
           username,
           displayName,
           serialNumber,
-          npub: keypair.npub,
+          npub: identity.npub,
           inviteCode: cleanCode,
         }),
       });
@@ -360,8 +450,8 @@ export default function ClaimPage() {
       }
 
       // 3. Store credentials locally
-      storeCredentials(username, keypair.npub);
-      storeSecretKey(keypair.nsec);
+      storeCredentials(username, identity.npub);
+      saveSigner(identity.choice);
       localStorage.setItem('osv_displayName', displayName);
 
       // 4. Publish kind 0 profile event
@@ -477,6 +567,38 @@ export default function ClaimPage() {
     );
   }
 
+  // Restore an identity from an encrypted key backup
+  if (badgeOwner) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-lg p-8 space-y-6">
+          <div className="text-center">
+            <div className="text-4xl mb-3">🔑</div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Restore your identity
+            </h1>
+            <p className="text-gray-500 mt-2">
+              This badge belongs to @{badgeOwner}. If that&apos;s you, restore your key
+              from the backup you exported in Settings.
+            </p>
+          </div>
+
+          <RestoreFromBackup
+            serialNumber={serialNumber}
+            onRestored={({ username: restoredUsername }) => router.replace(`/profile/${restoredUsername}`)}
+          />
+
+          <p className="text-sm text-gray-500 text-center mt-6">
+            Still logged in on another device?{' '}
+            <Link href="/link" className="text-blue-600 hover:text-blue-700 font-medium">
+              Link this device instead
+            </Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
       <div className="max-w-md w-full">
@@ -601,7 +723,22 @@ export default function ClaimPage() {
                 </p>
               </div>
 
-              {!usePinMode ? (
+              {externalIdentity ? (
+                <div className="bg-purple-50 border border-purple-200 rounded-xl p-4 text-center space-y-2">
+                  <p className="text-sm text-purple-900">
+                    Using your existing Nostr identity
+                    {externalIdentity.signer.type === 'nip07' ? ' from your browser extension' : ' from your remote signer'}
+                  </p>
+                  <p className="font-mono text-xs text-purple-700 break-all">{externalIdentity.npub}</p>
+                  <button
+                    type="button"
+                    onClick={() => setExternalIdentity(null)}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    Use a password instead
+                  </button>
+                </div>
+              ) : !usePinMode ? (
                 <input
                   type="password"
                   name="password"
@@ -625,16 +762,53 @@ export default function ClaimPage() {
                 />
               )}
 
-              <button
-                type="button"
-                onClick={() => {
-                  setUsePinMode(!usePinMode);
-                  setPassword('');
-                }}
-                className="w-full text-sm text-blue-600 hover:text-blue-700"
-              >
-                {usePinMode ? 'Use a password instead' : 'Use a simple PIN code instead'}
-              </button>
+              {!externalIdentity && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUsePinMode(!usePinMode);
+                    setPassword('');
+                  }}
+                  className="w-full text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {usePinMode ? 'Use a password instead' : 'Use a simple PIN code instead'}
+                </button>
+              )}
+
+              {!externalIdentity && (
+                <div className="border-t border-gray-200 pt-4 space-y-3">
+                  <p className="text-sm text-gray-500 text-center">
+                    Already have a Nostr identity?
+                  </p>
+                  {hasExtension && (
+                    <button
+                      type="button"
+                      onClick={handleUseExtension}
+                      disabled={isConnectingSigner}
+                      className="w-full border border-purple-300 text-purple-700 font-medium py-2 px-4 rounded-xl hover:bg-purple-50 transition disabled:opacity-50"
+                    >
+                      Use my browser extension
+                    </button>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="bunker://..."
+                      value={bunkerInput}
+                      onChange={(e) => setBunkerInput(e.target.value)}
+                      className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-gray-900 placeholder-gray-400"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleUseBunker}
+                      disabled={!bunkerInput.trim() || isConnectingSigner}
+                      className="border border-purple-300 text-purple-700 font-medium py-2 px-4 rounded-xl hover:bg-purple-50 transition disabled:opacity-50"
+                    >
+                      {isConnectingSigner ? 'Connecting...' : 'Connect'}
+                    </button>
+                  </div>
+                </div>
+              )}
 
               {error && (
                 <div className="bg-red-50 border border-red-200 rounded-xl p-3">
@@ -651,7 +825,7 @@ export default function ClaimPage() {
                 </button>
                 <button
                   onClick={handleNextStep}
-                  disabled={!keypair || isLoading}
+                  disabled={!identity || isLoading}
                   className={`flex-1 font-semibold py-3 px-4 rounded-xl transition disabled:bg-gray-300 disabled:cursor-not-allowed ${
                     isFirstUser
                       ? 'bg-green-600 text-white hover:bg-green-700'
@@ -0,0 +1,271 @@
+'use client';
+
+/**
+ * Link a device page - use the same account on a phone and a laptop
+ *
+ * On a new device (not logged in): shows a link request QR, then scans the
+ * handoff QR from the logged-in device and stores the same credentials.
+ * On a logged-in device: scans the link request (or arrives here from it via
+ * /link#request=...), records the device and shows the handoff QR.
+ *
+ * @see src/lib/device-link.ts
+ */
+
+import { useEffect, useState, lazy, Suspense } from 'react';
+import { useRouter } from 'next/navigation';
+import { QRCodeSVG } from 'qrcode.react';
+import { getStoredCredentials, storeCredentials } from '@/lib/nostr';
+import { getSavedSignerChoice, requireActiveSigner, saveSigner } from '@/lib/signer';
+import {
+  LINK_TTL_SECONDS,
+  createLinkRequest,
+  encodeLinkRequest,
+  guessDeviceName,
+  openHandoff,
+  parseLinkRequest,
+  sealHandoff,
+  storeLinkedDeviceId,
+  type LinkRequest,
+} from '@/lib/device-link';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+
+const QRScanner = lazy(() => import('@/components/QRScanner'));
+
+function ScannerFallback() {
+  return (
+    <div className="w-full bg-gray-100 rounded-xl p-8 text-center text-gray-500">
+      Loading camera...
+    </div>
+  );
+}
+
+export default function LinkDevicePage() {
+  const [credentials, setCredentials] = useState<{ username: string; npub: string } | null>(null);
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setCredentials(getStoredCredentials());
+    setMounted(true);
+  }, []);
+
+  if (!mounted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-lg p-8 text-center">
+        {credentials ? <SendCredentials credentials={credentials} /> : <ReceiveCredentials />}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Logged-in device: scan the link request and show the handoff
+ */
+function SendCredentials({ credentials }: { credentials: { username: string; npub: string } }) {
+  const router = useRouter();
+  const { signedFetch } = useNostrPublisher();
+  const [request, setRequest] = useState<LinkRequest | null>(null);
+  const [handoff, setHandoff] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(LINK_TTL_SECONDS);
+  const [isLinking, setIsLinking] = useState(false);
+  const [error, setError] = useState('');
+
+  // Arrived from a link request scanned with the camera app
+  useEffect(() => {
+    if (window.location.hash.includes('request=')) {
+      handleRequest(window.location.hash);
+      window.history.replaceState(null, '', '/link');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!handoff) return;
+    const interval = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearInterval(interval);
+  }, [handoff]);
+
+  const handleRequest = (scanned: string) => {
+    setError('');
+    try {
+      setRequest(parseLinkRequest(scanned));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid link request');
+    }
+  };
+
+  const link = async () => {
+    if (!request) return;
+
+    const signer = getSavedSignerChoice();
+    if (!signer) {
+      setError('No key found on this device. Please log in again.');
+      return;
+    }
+
+    setIsLinking(true);
+    setError('');
+
+    try {
+      const response = await signedFetch('/api/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deviceId: request.devicePubkey, name: request.deviceName }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to link device');
+        return;
+      }
+
+      setHandoff(await sealHandoff({ ...credentials, signer }, request, await requireActiveSigner()));
+      setSecondsLeft(LINK_TTL_SECONDS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link device');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  if (handoff) {
+    return (
+      <>
+        <h1 className="text-xl font-bold text-gray-900 mb-2">Scan this on {request?.deviceName}</h1>
+        {secondsLeft > 0 ? (
+          <>
+            <div className="flex justify-center my-6">
+              <QRCodeSVG value={handoff} size={260} level="L" />
+            </div>
+            <p className="text-sm text-gray-500 mb-6">
+              This code contains your key, encrypted for that device only. It expires in {secondsLeft}s.
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-600 my-6">This code has expired. Start again on both devices.</p>
+        )}
+        <button
+          onClick={() => router.push('/settings')}
+          className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+        >
+          Done
+        </button>
+      </>
+    );
+  }
+
+  if (request) {
+    return (
+      <>
+        <div className="text-5xl mb-4">📱</div>
+        <h1 className="text-xl font-bold text-gray-900 mb-2">Link {request.deviceName}?</h1>
+        <p className="text-gray-600 mb-6">
+          It will be logged in as <span className="font-semibold">@{credentials.username}</span> with your
+          key. Only link devices you trust: forgetting it in Settings signs it out, but can&apos;t take
+          the key back.
+        </p>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        <button
+          onClick={link}
+          disabled={isLinking}
+          className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors mb-3"
+        >
+          {isLinking ? 'Linking...' : 'Link this device'}
+        </button>
+        <button
+          onClick={() => setRequest(null)}
+          className="text-gray-500 font-medium hover:text-gray-700"
+        >
+          Cancel
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Link another device</h1>
+      <p className="text-gray-600 mb-6">
+        Open <span className="font-mono">/link</span> on the new device and scan the code it shows.
+      </p>
+      <Suspense fallback={<ScannerFallback />}>
+        <QRScanner onScan={handleRequest} onError={(err) => setError(err)} />
+      </Suspense>
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+    </>
+  );
+}
+
+/**
+ * New device: show the link request, then scan the handoff
+ */
+function ReceiveCredentials() {
+  const router = useRouter();
+  const [link, setLink] = useState<{ secretKey: Uint8Array; url: string } | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const { secretKey, request } = createLinkRequest(guessDeviceName(navigator.userAgent));
+    setLink({ secretKey, url: encodeLinkRequest(request, window.location.origin) });
+  }, []);
+
+  const handleHandoff = (scanned: string) => {
+    if (!link) return;
+    setError('');
+
+    try {
+      const handoff = openHandoff(scanned, link.secretKey);
+
+      saveSigner(handoff.signer);
+      storeCredentials(handoff.username, handoff.npub);
+      storeLinkedDeviceId(handoff.deviceId);
+      console.log('[Link] ✓ Device linked for', handoff.username);
+
+      router.replace(`/profile/${handoff.username}`);
+    } catch (err) {
+      setShowScanner(false);
+      setError(err instanceof Error ? err.message : 'Failed to link this device');
+    }
+  };
+
+  if (!link) {
+    return <div className="text-gray-500">Loading...</div>;
+  }
+
+  return (
+    <>
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Link this device</h1>
+      {showScanner ? (
+        <>
+          <p className="text-gray-600 mb-6">Scan the code shown on your other device.</p>
+          <Suspense fallback={<ScannerFallback />}>
+            <QRScanner onScan={handleHandoff} onError={(err) => setError(err)} />
+          </Suspense>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-2">
+            On the device where you are logged in, open Settings → Link another device and scan this code.
+          </p>
+          <div className="flex justify-center my-6">
+            <QRCodeSVG value={link.url} size={220} level="M" />
+          </div>
+          <button
+            onClick={() => setShowScanner(true)}
+            className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+          >
+            Next: scan the code on my other device
+          </button>
+        </>
+      )}
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+    </>
+  );
+}
@@ -8,6 +8,7 @@
  * - List of events with date, time, kind (with hover description), and content
  * - Expandable rows to see full event JSON
  * - Filter by npub (shows username if available, cached in localStorage)
+ * - Loads a page at a time (newest first), older events on demand
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -38,12 +39,17 @@ interface PubkeyInfo {
 // Cache key for usernames
 const USERNAME_CACHE_KEY = 'nostr_npub_usernames';
 
+// Events per page
+const PAGE_SIZE = 100;
+
 export default function NostrEventsPage() {
   const router = useRouter();
   const [events, setEvents] = useState<EventEntry[]>([]);
   const [pubkeys, setPubkeys] = useState<PubkeyInfo[]>([]);
   const [kindInfo, setKindInfo] = useState<Record<number, KindInfo>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedPubkey, setSelectedPubkey] = useState<string>('');
   const [selectedKinds, setSelectedKinds] = useState<number[]>([]);
@@ -99,6 +105,35 @@ export default function NostrEventsPage() {
     pubkeys.forEach(p => fetchUsername(p.npub));
   }, [pubkeys, fetchUsername]);
 
+  // Fetch a page of events (first page, or the page after cursor)
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams();
+    params.set('limit', PAGE_SIZE.toString());
+
+    if (selectedPubkey) {
+      params.set('pubkeys', selectedPubkey);
+    }
+
+    if (selectedKinds.length > 0) {
+      params.set('kinds', selectedKinds.join(','));
+    }
+
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    const res = await fetch(`/api/nostr/events?${params.toString()}`);
+    if (!res.ok) {
+      throw new Error('Failed to fetch events');
+    }
+
+    const data = await res.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Unknown error');
+    }
+    return data;
+  }, [selectedPubkey, selectedKinds]);
+
   // Fetch events
   const fetchEvents = useCallback(async () => {
     setIsLoading(true);
@@ -106,36 +141,36 @@ export default function NostrEventsPage() {
     setLiveEventCount(0); // Reset live event count on refresh
 
     try {
-      const params = new URLSearchParams();
-      params.set('limit', '200');
-
-      if (selectedPubkey) {
-        params.set('pubkeys', selectedPubkey);
-      }
-
-      if (selectedKinds.length > 0) {
-        params.set('kinds', selectedKinds.join(','));
-      }
+      const data = await fetchPage();
+      setEvents(data.events);
+      setNextCursor(data.nextCursor);
+      setPubkeys(data.pubkeys);
+      setKindInfo(data.kindInfo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch events');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage]);
 
-      const res = await fetch(`/api/nostr/events?${params.toString()}`);
-      if (!res.ok) {
-        throw new Error('Failed to fetch events');
-      }
+  // Load older events
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
 
-      const data = await res.json();
-      if (data.success) {
-        setEvents(data.events);
-        setPubkeys(data.pubkeys);
-        setKindInfo(data.kindInfo);
-      } else {
-        throw new Error(data.error || 'Unknown error');
-      }
+    try {
+      const data = await fetchPage(nextCursor);
+      setEvents(prev => {
+        const known = new Set(prev.map(e => e.event.id));
+        return [...prev, ...data.events.filter((e: EventEntry) => !known.has(e.event.id))];
+      });
+      setNextCursor(data.nextCursor);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch events');
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [selectedPubkey, selectedKinds]);
+  };
 
   useEffect(() => {
     fetchEvents();
@@ -519,6 +554,19 @@ export default function NostrEventsPage() {
           </div>
         )}
 
+        {/* Load older events */}
+        {!isLoading && !error && nextCursor && (
+          <div className="text-center mt-4">
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load older events'}
+            </button>
+          </div>
+        )}
+
         {/* Event count */}
         {!isLoading && !error && events.length > 0 && (
           <div className="text-center text-sm text-gray-500 mt-4">
@@ -3,19 +3,22 @@
  *
  * Displays real-time notifications from Nostr relays:
  * - Payment requests and receipts (kind 1734, 1735)
+ * - Requests for tokens from other villagers (kind 1737), payable with one tap
  * - Calendar events (kind 31922)
  *
- * Subscribes to events where user is author or mentioned (p tag)
+ * Subscribes to events where user is author, mentioned (p tag) or paying (P tag)
  */
 
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { getStoredCredentials } from '@/lib/nostr';
+import { getServerNpub, getStoredCredentials } from '@/lib/nostr';
 import { useNostrEvents, type NostrEvent } from '@/hooks/useNostrEvents';
-import { NOSTR_KINDS, parsePaymentRequestEvent, parsePaymentReceiptEvent, pubkeyTagToNpub } from '@/lib/nostr-events';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import { NOSTR_KINDS, parsePaymentRequestEvent, parsePaymentReceiptEvent, parseInvoiceEvent, pubkeyTagToNpub } from '@/lib/nostr-events';
 import { getRelativeTime } from '@/lib/notifications-utils';
+import { getInvoiceStatus, type InvoiceStatus } from '@/lib/invoices';
 
 type TabType = 'all' | 'workshops' | 'transactions';
 
@@ -28,7 +31,7 @@ interface BookingDetails {
 
 interface ParsedNotification {
   id: string;
-  type: 'payment_request' | 'payment_receipt' | 'calendar_event';
+  type: 'payment_request' | 'payment_receipt' | 'payment_invoice' | 'calendar_event';
   createdAt: string;
   event: NostrEvent;
   // Payment fields
@@ -41,6 +44,7 @@ interface ParsedNotification {
   success?: boolean;
   message?: string; // Description/note from the payment
   booking?: BookingDetails; // Booking details for burn events
+  expiresAt?: number; // Unix timestamp, for invoices
   // Calendar fields
   title?: string;
   description?: string;
@@ -152,6 +156,24 @@ function parseNostrEvent(event: NostrEvent, userNpub: string): ParsedNotificatio
     };
   }
 
+  if (event.kind === NOSTR_KINDS.INVOICE) {
+    const parsed = parseInvoiceEvent(event);
+    if (!parsed) return null;
+
+    // The payer sends the tokens to the requester
+    return {
+      id: event.id,
+      type: 'payment_invoice',
+      createdAt,
+      event,
+      amount: parsed.amount,
+      sender: parsed.payer,
+      recipient: parsed.requester,
+      message: parsed.description || undefined,
+      expiresAt: parsed.expiresAt,
+    };
+  }
+
   if (event.kind === NOSTR_KINDS.CALENDAR_EVENT) {
     const tags = new Map(event.tags.map(t => [t[0], t[1]]));
 
@@ -179,6 +201,9 @@ function getNotificationIcon(type: ParsedNotification['type'], success?: boolean
   if (type === 'payment_request') {
     return '⏳';
   }
+  if (type === 'payment_invoice') {
+    return '🧾';
+  }
   if (type === 'calendar_event') {
     return '📅';
   }
@@ -189,7 +214,7 @@ function getNotificationColor(type: ParsedNotification['type'], success?: boolea
   if (type === 'payment_receipt') {
     return success ? 'green' : 'red';
   }
-  if (type === 'payment_request') {
+  if (type === 'payment_request' || type === 'payment_invoice') {
     return 'blue';
   }
   if (type === 'calendar_event') {
@@ -204,6 +229,9 @@ export default function NotificationsPage() {
   const [activeTab, setActiveTab] = useState<TabType>('all');
   const [usernames, setUsernames] = useState<Map<string, string | null>>(new Map());
   const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
+  const [payingInvoiceId, setPayingInvoiceId] = useState<string | null>(null);
+  const [payErrors, setPayErrors] = useState<Map<string, string>>(new Map());
+  const { payInvoice } = useNostrPublisher();
 
   // Toggle expanded state for nostr event
   const toggleExpanded = (eventId: string) => {
@@ -232,6 +260,7 @@ export default function NotificationsPage() {
   const eventKinds = useMemo(() => [
     NOSTR_KINDS.PAYMENT_REQUEST,
     NOSTR_KINDS.PAYMENT_RECEIPT,
+    NOSTR_KINDS.INVOICE,
     NOSTR_KINDS.CALENDAR_EVENT,
   ], []);
 
@@ -248,7 +277,8 @@ export default function NotificationsPage() {
     autoConnect: !!credentials?.npub,
   });
 
-  // Subscribe to Nostr events where user is mentioned (p tag)
+  // Subscribe to Nostr events where user is mentioned (p tag) or paying (P tag),
+  // so the payer of an invoice gets its receipt too
   const {
     events: mentionedEvents,
     isLoading: loadingMentioned,
@@ -256,6 +286,7 @@ export default function NotificationsPage() {
     isConnected: connectedMentioned,
   } = useNostrEvents({
     mentionedPubkey: credentials?.npub,
+    senderPubkey: credentials?.npub,
     kinds: eventKinds,
     limit: 100,
     autoConnect: !!credentials?.npub,
@@ -276,6 +307,35 @@ export default function NotificationsPage() {
       .filter((n): n is ParsedNotification => n !== null);
   }, [allEvents, credentials?.npub]);
 
+  // Invoice statuses, from the payments and receipts referencing them
+  const invoiceStatuses = useMemo(() => {
+    const statuses = new Map<string, InvoiceStatus>();
+    allEvents
+      .filter(e => e.kind === NOSTR_KINDS.INVOICE)
+      .forEach(e => {
+        const status = getInvoiceStatus(e, allEvents, getServerNpub());
+        if (status) statuses.set(e.id, status);
+      });
+    return statuses;
+  }, [allEvents]);
+
+  const handlePayInvoice = async (notification: ParsedNotification) => {
+    if (!credentials?.npub) return;
+    setPayingInvoiceId(notification.id);
+
+    const result = await payInvoice(notification.event, credentials.npub);
+    setPayErrors(prev => {
+      const next = new Map(prev);
+      if (result.success) {
+        next.delete(notification.id);
+      } else {
+        next.set(notification.id, result.error || 'Failed to pay');
+      }
+      return next;
+    });
+    setPayingInvoiceId(null);
+  };
+
   // Fetch usernames for all counterparties
   const fetchUsernames = useCallback(async () => {
     if (!credentials?.npub) return;
@@ -283,7 +343,7 @@ export default function NotificationsPage() {
     const npubsToFetch = new Set<string>();
 
     notifications.forEach(n => {
-      if (n.type === 'payment_request' || n.type === 'payment_receipt') {
+      if (n.type === 'payment_request' || n.type === 'payment_receipt' || n.type === 'payment_invoice') {
         // Get counterparty (the other person in the transaction)
         if (n.sender && n.sender !== credentials.npub && n.sender !== 'system') {
           npubsToFetch.add(n.sender);
@@ -326,7 +386,7 @@ export default function NotificationsPage() {
       return notifications.filter(n => n.type === 'calendar_event');
     }
     if (activeTab === 'transactions') {
-      return notifications.filter(n => n.type === 'payment_request' || n.type === 'payment_receipt');
+      return notifications.filter(n => n.type === 'payment_request' || n.type === 'payment_receipt' || n.type === 'payment_invoice');
     }
     return notifications;
   }, [notifications, activeTab]);
@@ -357,7 +417,7 @@ export default function NotificationsPage() {
 
   // Calculate tab counts
   const workshopCount = notifications.filter(n => n.type === 'calendar_event').length;
-  const transactionCount = notifications.filter(n => n.type === 'payment_request' || n.type === 'payment_receipt').length;
+  const transactionCount = notifications.filter(n => n.type === 'payment_request' || n.type === 'payment_receipt' || n.type === 'payment_invoice').length;
 
   const isLoading = loadingAuthored || loadingMentioned;
   const isConnected = connectedAuthored || connectedMentioned;
@@ -415,6 +475,18 @@ export default function NotificationsPage() {
       }
     }
 
+    if (type === 'payment_invoice') {
+      if (recipient === userNpub) {
+        if (!sender) {
+          return <>You requested {tokenText} with a QR code</>;
+        }
+        const payerUsername = usernames.get(sender);
+        return <>You requested {tokenText} from {renderUsernameLink(payerUsername)}</>;
+      }
+      const requesterUsername = recipient ? usernames.get(recipient) : null;
+      return <>{renderUsernameLink(requesterUsername)} requests {tokenText}</>;
+    }
+
     if (type === 'calendar_event') {
       const statusText = status === 'CONFIRMED' ? 'confirmed' : status === 'CANCELLED' ? 'cancelled' : 'proposed';
       return (
@@ -435,6 +507,47 @@ export default function NotificationsPage() {
     return <>Unknown notification</>;
   }
 
+  // Status and Pay button of an invoice
+  function renderInvoiceStatus(notification: ParsedNotification) {
+    const status = invoiceStatuses.get(notification.id);
+    if (!status) return null;
+
+    const isPayer = notification.recipient !== credentials?.npub;
+    const payError = payErrors.get(notification.id);
+
+    if (status === 'open' && isPayer) {
+      return (
+        <div className="mt-2">
+          <button
+            onClick={() => handlePayInvoice(notification)}
+            disabled={payingInvoiceId !== null}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm font-semibold py-1.5 px-4 rounded-lg transition-colors"
+          >
+            {payingInvoiceId === notification.id ? 'Paying...' : `Pay ${notification.amount} token${notification.amount !== 1 ? 's' : ''}`}
+          </button>
+          {notification.expiresAt && (
+            <span className="ml-2 text-xs text-gray-400">
+              Expires {new Date(notification.expiresAt * 1000).toLocaleString()}
+            </span>
+          )}
+          {payError && <p className="text-xs text-red-600 mt-1">{payError}</p>}
+        </div>
+      );
+    }
+
+    const labels: Record<InvoiceStatus, { text: string; className: string }> = {
+      open: { text: 'Waiting for payment', className: 'bg-gray-100 text-gray-700' },
+      pending: { text: 'Payment pending', className: 'bg-yellow-100 text-yellow-800' },
+      paid: { text: 'Paid', className: 'bg-green-100 text-green-800' },
+      expired: { text: 'Expired', className: 'bg-red-100 text-red-800' },
+    };
+    return (
+      <span className={`inline-block mt-1 text-xs font-medium px-2 py-0.5 rounded-full ${labels[status].className}`}>
+        {labels[status].text}
+      </span>
+    );
+  }
+
   // Format booking date and time
   function formatBookingDateTime(startTime?: string, endTime?: string) {
     if (!startTime || !endTime) return null;
@@ -514,6 +627,8 @@ export default function NotificationsPage() {
               </p>
             )}
 
+            {notification.type === 'payment_invoice' && renderInvoiceStatus(notification)}
+
             {/* Time and links on same line */}
             <p className="text-xs text-gray-400 mt-1">
               {time}
@@ -665,6 +780,7 @@ export default function NotificationsPage() {
               {activeTab === 'all' && (
                 <>
                   <li>• Someone sends you tokens</li>
+                  <li>• Someone requests tokens from you</li>
                   <li>• Your workshops get confirmed</li>
                   <li>• Your transactions are processed</li>
                 </>
@@ -678,6 +794,7 @@ export default function NotificationsPage() {
               {activeTab === 'transactions' && (
                 <>
                   <li>• Someone sends you tokens</li>
+                  <li>• Someone requests tokens from you</li>
                   <li>• Your transactions are confirmed</li>
                 </>
               )}
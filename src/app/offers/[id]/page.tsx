@@ -16,17 +16,27 @@ interface RSVPData {
   userHasRSVP: boolean;
 }
 
+interface EscrowData {
+  enabled: boolean;
+  held: number;
+  released: number;
+  refunded: number;
+  deposits: { attendee: string }[];
+}
+
 export default function OfferDetailPage() {
   const params = useParams();
   const router = useRouter();
   const offerId = params.id as string;
-  const { publishNote, publishReaction } = useNostrPublisher();
+  const { publishNote, publishReaction, signedFetch } = useNostrPublisher();
 
   const [credentials, setCredentials] = useState<{ username: string; npub: string } | null>(null);
   const [offer, setOffer] = useState<Offer | null>(null);
   const [rsvpData, setRSVPData] = useState<RSVPData>({ count: 0, userHasRSVP: false });
   const [isLoading, setIsLoading] = useState(true);
   const [isRSVPing, setIsRSVPing] = useState(false);
+  const [escrow, setEscrow] = useState<EscrowData | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -61,6 +71,13 @@ export default function OfferDetailPage() {
               userHasRSVP,
             });
           }
+
+          // Load RSVP escrow state
+          const escrowResponse = await fetch(`/api/offers/${offerId}/escrow`);
+          const escrowData = await escrowResponse.json();
+          if (escrowData.success) {
+            setEscrow(escrowData);
+          }
         } else {
           setError('Offer not found');
         }
@@ -84,14 +101,13 @@ export default function OfferDetailPage() {
     setError('');
 
     try {
-      const response = await fetch('/api/rsvp', {
+      const response = await signedFetch('/api/rsvp', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           offerId,
-          npub: credentials.npub,
         }),
       });
 
@@ -150,14 +166,13 @@ export default function OfferDetailPage() {
     setError('');
 
     try {
-      const response = await fetch('/api/rsvp', {
+      const response = await signedFetch('/api/rsvp', {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           offerId,
-          npub: credentials.npub,
         }),
       });
 
@@ -180,6 +195,31 @@ export default function OfferDetailPage() {
     }
   };
 
+  const handleConfirmAttendance = async () => {
+    setIsConfirming(true);
+    setError('');
+
+    try {
+      const response = await signedFetch(`/api/offers/${offerId}/escrow`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to confirm attendance');
+        setIsConfirming(false);
+        return;
+      }
+
+      setOffer((prev) => (prev ? { ...prev, attendanceConfirmedAt: data.attendanceConfirmedAt } : prev));
+      setEscrow(data);
+      setIsConfirming(false);
+
+    } catch (err) {
+      console.error('Confirm attendance failed:', err);
+      setError('Failed to confirm attendance');
+      setIsConfirming(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -212,6 +252,7 @@ export default function OfferDetailPage() {
   const isPending = offer.status === 'pending';
   const remainingRSVPs = Math.max(0, minAttendees - rsvpData.count);
   const eventHasStarted = offer.startTime ? new Date(offer.startTime) <= new Date() : false;
+  const hasEscrowDeposit = !!credentials && !!escrow?.deposits.some((deposit) => deposit.attendee === credentials.npub);
 
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
@@ -299,6 +340,34 @@ export default function OfferDetailPage() {
             )}
           </div>
 
+          {/* RSVP Escrow */}
+          {escrow && (escrow.enabled || escrow.held + escrow.released + escrow.refunded > 0) && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+              <p className="text-sm font-semibold text-gray-900 mb-1">🔒 RSVP escrow</p>
+              <p className="text-sm text-gray-600">
+                {escrow.held} held · {escrow.released} released · {escrow.refunded} refunded
+              </p>
+              {offer.status !== 'cancelled' && (offer.attendanceConfirmedAt ? (
+                <p className="text-sm text-green-700 mt-1">
+                  Attendance confirmed, tokens are released to the author
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Released to the author once attendance is confirmed or the session ends, refunded if it is cancelled
+                </p>
+              ))}
+              {hasEscrowDeposit && eventHasStarted && !offer.attendanceConfirmedAt && offer.status !== 'cancelled' && escrow.held > 0 && (
+                <button
+                  onClick={handleConfirmAttendance}
+                  disabled={isConfirming}
+                  className="w-full mt-3 bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700 transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {isConfirming ? 'Confirming...' : 'Confirm attendance'}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
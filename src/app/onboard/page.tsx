@@ -2,18 +2,16 @@
 
 /**
  * Onboard page - Show QR code to onboard another villager
- * Directly displays the invite QR code for easy sharing
+ * Directly displays the newest unused invite code for easy sharing,
+ * generating one if needed (see hooks/useInvites.ts)
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { QRCodeSVG } from "qrcode.react";
-import { getStoredCredentials, getOrRequestInviteCode } from "@/lib/nostr";
-import { getSecretKey, getStoredSecretKey } from "@/lib/nostr-events";
-import settings from "../../../settings.json";
-
-const MAX_INVITES =
-  (settings as { maxInvitesPerUser?: number }).maxInvitesPerUser || 5;
+import { getStoredCredentials } from "@/lib/nostr";
+import { getActiveSignerType } from "@/lib/signer";
+import { useInvites } from "@/hooks/useInvites";
 
 export default function OnboardPage() {
   const router = useRouter();
@@ -21,12 +19,17 @@ export default function OnboardPage() {
     username: string;
     npub: string;
   } | null>(null);
-  const [inviteCode, setInviteCode] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [needsAuth, setNeedsAuth] = useState(false);
-  const [remainingInvites, setRemainingInvites] = useState(MAX_INVITES);
   const [codeCopied, setCodeCopied] = useState(false);
+  const autoCreated = useRef(false);
+
+  const {
+    usage,
+    shareableCode: inviteCode,
+    loading: isLoading,
+    error,
+    createInvite,
+  } = useInvites(!!credentials && !needsAuth);
 
   useEffect(() => {
     const creds = getStoredCredentials();
@@ -34,63 +37,20 @@ export default function OnboardPage() {
       router.push("/badge");
       return;
     }
+    // A signer (local key, extension or remote signer) is needed to generate codes
+    setNeedsAuth(!getActiveSignerType());
     setCredentials(creds);
-    loadInviteCode(creds);
   }, [router]);
 
-  const loadInviteCode = async (creds: { username: string; npub: string }) => {
-    setIsLoading(true);
-    setError(null);
+  // Generate a code if there is no unused one left
+  useEffect(() => {
+    if (isLoading || !usage || inviteCode || usage.remaining <= 0 || autoCreated.current) return;
+    autoCreated.current = true;
+    createInvite();
+  }, [isLoading, usage, inviteCode, createInvite]);
 
-    try {
-      // Fetch profile to get invitees count
-      const profileRes = await fetch(`/api/profile/${creds.username}`);
-      const profileData = await profileRes.json();
-
-      if (profileData.success && profileData.profile) {
-        const invitees = profileData.profile.invitees || [];
-        setRemainingInvites(MAX_INVITES - invitees.length);
-
-        if (invitees.length >= MAX_INVITES) {
-          setError(
-            `You have reached your onboarding limit (${MAX_INVITES} villagers)`,
-          );
-          setIsLoading(false);
-          return;
-        }
-      }
-
-      // Check for stored invite code first
-      const storedCode = localStorage.getItem("osv_invite_code");
-      if (storedCode) {
-        setInviteCode(storedCode);
-        setIsLoading(false);
-        return;
-      }
-
-      // Check for stored secret key (need Uint8Array for signing)
-      const secretKey = getSecretKey();
-      if (!secretKey) {
-        setNeedsAuth(true);
-        setIsLoading(false);
-        return;
-      }
-
-      // Request invite code from relay
-      const result = await getOrRequestInviteCode(secretKey);
-
-      if (result.success && result.inviteCode) {
-        setInviteCode(result.inviteCode);
-      } else {
-        setError(result.error || "Failed to get invite code");
-      }
-    } catch (err) {
-      console.error("Failed to load invite code:", err);
-      setError("Failed to load invite code");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const remainingInvites = usage ? usage.quota - usage.invited : 0;
+  const limitReached = usage !== null && !inviteCode && usage.remaining <= 0;
 
   const handleCopyCode = async () => {
     if (!inviteCode) return;
@@ -119,6 +79,9 @@ export default function OnboardPage() {
             {remainingInvites > 0
               ? `You can onboard ${remainingInvites} more villager${remainingInvites > 1 ? "s" : ""}`
               : "You have reached your onboarding limit"}
+            {usage && usage.outstanding > 1 && (
+              <> · {usage.outstanding} unused codes, manage them on your profile</>
+            )}
           </p>
 
           {isLoading && (
@@ -128,9 +91,12 @@ export default function OnboardPage() {
             </div>
           )}
 
-          {error && !isLoading && (
+          {(error || limitReached) && !isLoading && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
-              <p className="text-sm text-red-800">{error}</p>
+              <p className="text-sm text-red-800">
+                {error ||
+                  `You have reached your onboarding limit (${usage?.quota} villagers). Revoke an unused code on your profile to free one up.`}
+              </p>
             </div>
           )}
 
@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * Pay a payment request (invoice, kind 1737)
+ *
+ * Opened from the QR code of a request (see RequestTokensDrawer). Loads the
+ * invoice and the payments referencing it from the recorded events, and
+ * refreshes until the payment is confirmed.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { getServerNpub, getStoredCredentials } from '@/lib/nostr';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import { NOSTR_KINDS, parseInvoiceEvent, type NostrEvent } from '@/lib/nostr-events';
+import { getInvoiceStatus, type InvoiceStatus } from '@/lib/invoices';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_TEXT: Record<InvoiceStatus, string> = {
+  open: 'Waiting for payment',
+  pending: 'Payment sent, waiting for confirmation...',
+  paid: 'Paid',
+  expired: 'This request has expired',
+};
+
+async function fetchEvents(query: string): Promise<NostrEvent[]> {
+  const response = await fetch(`/api/nostr/events?${query}`);
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load events');
+  }
+  return data.events.map((entry: { event: NostrEvent }) => entry.event);
+}
+
+export default function PayPage() {
+  const params = useParams();
+  const invoiceId = params.id as string;
+  const { payInvoice, isPublishing } = useNostrPublisher();
+
+  const [credentials, setCredentials] = useState<{ username: string; npub: string } | null>(null);
+  const [invoiceEvent, setInvoiceEvent] = useState<NostrEvent | null>(null);
+  const [payments, setPayments] = useState<NostrEvent[]>([]);
+  const [requesterUsername, setRequesterUsername] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadPayments = useCallback(async () => {
+    setPayments(await fetchEvents(
+      `e=${invoiceId}&kinds=${NOSTR_KINDS.PAYMENT_REQUEST},${NOSTR_KINDS.PAYMENT_RECEIPT}&limit=100`
+    ));
+  }, [invoiceId]);
+
+  useEffect(() => {
+    setCredentials(getStoredCredentials());
+
+    const load = async () => {
+      try {
+        const [event] = await fetchEvents(`ids=${invoiceId}&kinds=${NOSTR_KINDS.INVOICE}&limit=1`);
+        const invoice = event ? parseInvoiceEvent(event) : null;
+        if (!event || !invoice) {
+          setError('Payment request not found');
+          return;
+        }
+        setInvoiceEvent(event);
+        await loadPayments();
+
+        const response = await fetch(`/api/profile/${invoice.requester}`);
+        if (response.ok) {
+          const data = await response.json();
+          setRequesterUsername(data.profile?.username || null);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load payment request');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [invoiceId, loadPayments]);
+
+  const invoice = invoiceEvent ? parseInvoiceEvent(invoiceEvent) : null;
+  const status = invoiceEvent ? getInvoiceStatus(invoiceEvent, payments, getServerNpub()) : null;
+
+  // Refresh until the payment is confirmed
+  useEffect(() => {
+    if (status !== 'open' && status !== 'pending') return;
+    const interval = setInterval(() => {
+      loadPayments().catch((err) => console.error('[Pay] Failed to refresh payments:', err));
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [status, loadPayments]);
+
+  const handlePay = async () => {
+    if (!invoiceEvent || !credentials?.npub) return;
+    setError('');
+
+    const result = await payInvoice(invoiceEvent, credentials.npub);
+    if (!result.success) {
+      setError(result.error || 'Failed to pay');
+      return;
+    }
+    await loadPayments();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const isRequester = !!invoice && credentials?.npub === invoice.requester;
+  const isOtherPayer = !!invoice?.payer && !!credentials && credentials.npub !== invoice.payer;
+  const canPay = status === 'open' && !!credentials && !isRequester && !isOtherPayer;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <main className="max-w-lg mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+          {invoice && status ? (
+            <>
+              <p className="text-sm text-gray-500 mb-1">
+                {requesterUsername ? (
+                  <a href={`/profile/${requesterUsername}`} className="text-blue-600 hover:underline">
+                    @{requesterUsername}
+                  </a>
+                ) : 'Someone'}{' '}
+                requests
+              </p>
+              <p className="text-4xl font-bold text-gray-900 mb-2">
+                {invoice.amount} {invoice.tokenSymbol || `token${invoice.amount !== 1 ? 's' : ''}`}
+              </p>
+              {invoice.description && (
+                <p className="text-gray-600 mb-4">{invoice.description}</p>
+              )}
+              {invoice.expiresAt && status === 'open' && (
+                <p className="text-xs text-gray-400 mb-4">
+                  Expires {new Date(invoice.expiresAt * 1000).toLocaleString()}
+                </p>
+              )}
+
+              <p className={`text-sm font-medium mb-6 ${
+                status === 'paid' ? 'text-green-600' : status === 'expired' ? 'text-red-600' : 'text-gray-600'
+              }`}>
+                {STATUS_TEXT[status]}
+              </p>
+
+              {canPay && (
+                <button
+                  type="button"
+                  onClick={handlePay}
+                  disabled={isPublishing}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-4 px-6 rounded-xl transition-colors text-lg"
+                >
+                  {isPublishing ? 'Paying...' : `Pay ${invoice.amount} token${invoice.amount !== 1 ? 's' : ''}`}
+                </button>
+              )}
+              {status === 'open' && !credentials && (
+                <p className="text-sm text-gray-500">Log in with your badge to pay this request</p>
+              )}
+              {status === 'open' && isOtherPayer && (
+                <p className="text-sm text-gray-500">This request is addressed to someone else</p>
+              )}
+            </>
+          ) : null}
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
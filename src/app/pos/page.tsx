@@ -0,0 +1,391 @@
+'use client';
+
+/**
+ * Point of Sale - for vendors listed in settings.json
+ *
+ * The vendor enters an amount and the app publishes a payment request
+ * (kind 1737) shown as a QR code. The payer scans it and pays from their
+ * phone, or taps their NFC badge on the vendor's phone: the tap only tells
+ * who the payer is, and the sale is charged again with a request addressed
+ * to them, which shows in their notifications to pay from their own phone.
+ * Their password is never typed on the vendor's phone.
+ * The screen watches for the kind 1735 receipt of either request (the QR code
+ * stays payable) and shows the sale as paid once one of them is.
+ *
+ * Note: badge taps use the Web NFC API, only available on Android Chrome.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { getServerNpub, getStoredCredentials } from '@/lib/nostr';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import { NOSTR_KINDS, type NostrEvent } from '@/lib/nostr-events';
+import { getInvoiceStatus, type InvoiceStatus } from '@/lib/invoices';
+
+const REFRESH_INTERVAL_MS = 3000;
+const CHARGE_EXPIRY_SECONDS = 15 * 60;
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '0', '⌫'];
+
+interface Sales {
+  vendor: { name: string };
+  total: number;
+  sales: unknown[];
+}
+
+interface BadgePayer {
+  username: string;
+  npub: string;
+}
+
+/**
+ * Status of a sale charged with several requests: paid once any of them is
+ */
+function getSaleStatus(invoices: NostrEvent[], payments: NostrEvent[]): InvoiceStatus | null {
+  const statuses = invoices.map((invoice) => getInvoiceStatus(invoice, payments, getServerNpub()));
+  if (statuses.length === 0) return null;
+  if (statuses.includes('paid')) return 'paid';
+  if (statuses.includes('pending')) return 'pending';
+  return statuses.every((status) => status === 'expired') ? 'expired' : 'open';
+}
+
+export default function PointOfSalePage() {
+  const { publishInvoice, signedFetch, isPublishing } = useNostrPublisher();
+
+  const [sales, setSales] = useState<Sales | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [accessError, setAccessError] = useState('');
+
+  const [amount, setAmount] = useState('');
+  const [memo, setMemo] = useState('');
+  const [invoices, setInvoices] = useState<NostrEvent[]>([]); // Requests of this sale, the QR code first
+  const [payments, setPayments] = useState<NostrEvent[]>([]);
+  const [error, setError] = useState('');
+
+  const [nfcSupported, setNfcSupported] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [badgePayer, setBadgePayer] = useState<BadgePayer | null>(null);
+  const scanController = useRef<AbortController | null>(null);
+
+  const loadSales = useCallback(async () => {
+    const response = await signedFetch('/api/pos/sales');
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to load sales');
+    }
+    setSales(data);
+  }, [signedFetch]);
+
+  useEffect(() => {
+    setNfcSupported('NDEFReader' in window);
+
+    if (!getStoredCredentials()?.npub) {
+      setAccessError('Log in with your vendor account to use the point of sale');
+      setIsLoading(false);
+      return;
+    }
+
+    loadSales()
+      .catch((err) => setAccessError(err instanceof Error ? err.message : 'Failed to load sales'))
+      .finally(() => setIsLoading(false));
+  }, [loadSales]);
+
+  const loadPayments = useCallback(async (invoiceIds: string[]) => {
+    const response = await fetch(
+      `/api/nostr/events?e=${invoiceIds.join(',')}&kinds=${NOSTR_KINDS.PAYMENT_REQUEST},${NOSTR_KINDS.PAYMENT_RECEIPT}&limit=100`
+    );
+    const data = await response.json();
+    if (data.success) {
+      setPayments(data.events.map((entry: { event: NostrEvent }) => entry.event));
+    }
+  }, []);
+
+  const invoiceEvent = invoices[0] || null;
+  const status = getSaleStatus(invoices, payments);
+
+  // Watch for a receipt until the sale is paid or expires
+  useEffect(() => {
+    if (invoices.length === 0 || (status !== 'open' && status !== 'pending')) return;
+    const interval = setInterval(() => {
+      loadPayments(invoices.map((invoice) => invoice.id))
+        .catch((err) => console.error('[POS] Failed to refresh payments:', err));
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [invoices, status, loadPayments]);
+
+  const stopScanning = useCallback(() => {
+    scanController.current?.abort();
+    scanController.current = null;
+    setIsScanning(false);
+  }, []);
+
+  // Stop scanning and refresh the day's total once paid
+  useEffect(() => {
+    if (status !== 'paid') return;
+    stopScanning();
+    loadSales().catch((err) => console.error('[POS] Failed to refresh sales:', err));
+  }, [status, stopScanning, loadSales]);
+
+  useEffect(() => stopScanning, [stopScanning]);
+
+  const handleKey = (key: string) => {
+    setAmount((prev) => {
+      if (key === '⌫') return prev.slice(0, -1);
+      if (key === '.' && (prev.includes('.') || !prev)) return prev;
+      if (prev.includes('.') && prev.split('.')[1].length >= 2) return prev;
+      return prev === '0' && key !== '.' ? key : prev + key;
+    });
+  };
+
+  /**
+   * Publish the payment request for the amount, addressed to the payer if known
+   * A request addressed to a payer is added to the sale: the one shown as a QR
+   * code can still be paid, and is still watched.
+   */
+  const charge = async (payer?: string): Promise<boolean> => {
+    const credentials = getStoredCredentials();
+    const value = parseFloat(amount);
+    if (!credentials?.npub || !(value > 0)) return false;
+    setError('');
+
+    const result = await publishInvoice({
+      requester: credentials.npub,
+      payer,
+      amount: value,
+      description: memo || undefined,
+      expiresAt: Math.floor(Date.now() / 1000) + CHARGE_EXPIRY_SECONDS,
+    });
+    if (!result.success || !result.event) {
+      setError(result.error || 'Failed to create the payment request');
+      return false;
+    }
+    if (payer) {
+      setInvoices((prev) => [...prev, result.event!]);
+    } else {
+      setPayments([]);
+      setInvoices([result.event]);
+    }
+    return true;
+  };
+
+  const handleCharge = () => charge();
+
+  const handleNewSale = () => {
+    stopScanning();
+    setInvoices([]);
+    setPayments([]);
+    setAmount('');
+    setMemo('');
+    setBadgePayer(null);
+    setError('');
+  };
+
+  const handleTapBadge = async () => {
+    if (!window.NDEFReader) return;
+    setError('');
+    setBadgePayer(null);
+
+    const controller = new AbortController();
+    scanController.current = controller;
+    setIsScanning(true);
+
+    try {
+      const ndef = new window.NDEFReader();
+      ndef.addEventListener('reading', async (event) => {
+        // Badges hold a URL record: {origin}/badge#{serialNumber}
+        const url = event.message.records
+          .filter((record) => record.recordType === 'url')
+          .map((record) => new TextDecoder().decode(record.data))
+          .find((value) => value.includes('/badge#'));
+        const serial = url?.split('#')[1];
+        if (!serial) {
+          setError('This is not a village badge');
+          return;
+        }
+
+        stopScanning();
+        const response = await fetch(`/api/profile/${encodeURIComponent(serial)}`);
+        const data = await response.json();
+        if (!data.success || !data.profile?.npub) {
+          setError(data.revoked ? 'This badge was reported lost' : 'This badge is not claimed yet');
+          return;
+        }
+
+        // Charge the payer by name: they confirm on their own phone
+        if (await charge(data.profile.npub)) {
+          setBadgePayer({ username: data.profile.username, npub: data.profile.npub });
+        }
+      });
+
+      await ndef.scan({ signal: controller.signal });
+    } catch (err) {
+      console.error('[POS] NFC scan error:', err);
+      setError(err instanceof Error && err.name === 'NotAllowedError'
+        ? 'NFC permission denied. Please allow NFC access.'
+        : 'Could not read badges on this device');
+      setIsScanning(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError('');
+    try {
+      const response = await signedFetch('/api/pos/sales?format=csv');
+      if (!response.ok) {
+        throw new Error('Failed to export sales');
+      }
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'sales.csv';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export sales');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (accessError || !sales) {
+    return (
+      <div className="min-h-screen bg-gray-50 pb-20">
+        <main className="max-w-lg mx-auto px-4 py-8">
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+            <p className="text-gray-600">{accessError || 'Failed to load sales'}</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const value = parseFloat(amount) || 0;
+  const errorBox = error && (
+    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+      <p className="text-sm text-red-800">{error}</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <main className="max-w-lg mx-auto px-4 py-6">
+        {/* Today's sales */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <p className="font-semibold text-gray-900">{sales.vendor.name}</p>
+            <p className="text-sm text-gray-500">
+              Today: {sales.total} token{sales.total !== 1 ? 's' : ''} · {sales.sales.length} sale{sales.sales.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleExport}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Export CSV
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+          {!invoiceEvent ? (
+            /* Amount entry */
+            <>
+              <p className="text-5xl font-bold text-gray-900 mb-4 h-14">{amount || '0'}</p>
+              <input
+                type="text"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+                placeholder="What's this for? (optional)"
+                maxLength={100}
+                className="w-full px-4 py-3 mb-4 border border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+              />
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                {KEYPAD.map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => handleKey(key)}
+                    className="h-16 rounded-xl bg-gray-100 hover:bg-gray-200 text-2xl font-bold text-gray-700 transition-colors active:scale-95"
+                  >
+                    {key}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={handleCharge}
+                disabled={isPublishing || value <= 0}
+                className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-4 px-6 rounded-xl transition-colors text-lg"
+              >
+                {isPublishing ? 'Creating...' : `Charge ${value} token${value !== 1 ? 's' : ''}`}
+              </button>
+            </>
+          ) : status === 'paid' ? (
+            /* Paid */
+            <>
+              <div className="text-6xl mb-4">✅</div>
+              <p className="text-2xl font-bold text-green-600 mb-6">Paid {amount} token{value !== 1 ? 's' : ''}</p>
+              <button
+                type="button"
+                onClick={handleNewSale}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl transition-colors text-lg"
+              >
+                New sale
+              </button>
+            </>
+          ) : (
+            /* Waiting for the payer */
+            <>
+              <p className="text-4xl font-bold text-gray-900 mb-1">
+                {amount} token{value !== 1 ? 's' : ''}
+              </p>
+              {memo && <p className="text-gray-600 mb-2">{memo}</p>}
+
+              {status === 'expired' ? (
+                <p className="text-sm font-medium text-red-600 my-6">This payment request has expired</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-500 mb-4">
+                    {status === 'pending'
+                      ? 'Payment sent, waiting for confirmation...'
+                      : badgePayer
+                        ? `Sent to @${badgePayer.username}: pay from your notifications, or scan`
+                        : 'Scan to pay'}
+                  </p>
+                  <div className="flex justify-center mb-4">
+                    <QRCodeSVG value={`${window.location.origin}/pay/${invoiceEvent.id}`} size={240} level="M" />
+                  </div>
+                  {nfcSupported && status === 'open' && !badgePayer && (
+                    <button
+                      type="button"
+                      onClick={isScanning ? stopScanning : handleTapBadge}
+                      className="w-full border border-blue-600 text-blue-600 hover:bg-blue-50 font-bold py-3 px-6 rounded-xl transition-colors"
+                    >
+                      {isScanning ? 'Hold the badge near the phone... (cancel)' : isPublishing ? 'Charging...' : 'Tap a badge to pay'}
+                    </button>
+                  )}
+                </>
+              )}
+
+              <button
+                type="button"
+                onClick={handleNewSale}
+                className="w-full mt-3 text-gray-500 hover:text-gray-700 font-medium py-2 transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+
+          {errorBox}
+        </div>
+      </main>
+    </div>
+  );
+}
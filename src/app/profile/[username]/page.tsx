@@ -6,15 +6,15 @@
  * Shows user profile with balance, offers, workshops, and social links
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { QRCodeSVG } from "qrcode.react";
 import { nip19 } from "nostr-tools";
-import { getStoredCredentials, getOrRequestInviteCode } from "@/lib/nostr";
-import { getSecretKey, getStoredSecretKey } from "@/lib/nostr-events";
-import settings from "../../../../settings.json";
-
-const MAX_INVITES = (settings as { maxInvitesPerUser?: number }).maxInvitesPerUser || 5;
+import { getStoredCredentials, requestInviteCode } from "@/lib/nostr";
+import { getStoredSecretKey } from "@/lib/nostr-events";
+import { getActiveSigner } from "@/lib/signer";
+import type { InviteTree } from "@/lib/invites";
+import { useInvites } from "@/hooks/useInvites";
 
 // localStorage key prefix for storing kind 0 profile event content (keyed by npub)
 const PROFILE_CACHE_PREFIX = 'osv_profile_kind0_';
@@ -47,6 +47,7 @@ function setCachedProfile(npub: string, content: Record<string, unknown>): void
 import { Avatar } from "@/components/Avatar";
 import { useNostrEvents, type NostrEvent } from "@/hooks/useNostrEvents";
 import SendTokensDrawer from "@/components/SendTokensDrawer";
+import RequestTokensDrawer from "@/components/RequestTokensDrawer";
 
 /**
  * Convert npub to hex pubkey for comparison
@@ -352,14 +353,25 @@ export default function PublicProfilePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [isOwnProfile, setIsOwnProfile] = useState(false);
+  // Badge scanned on a device that isn't logged in (see /badge)
+  const [restoreSerial, setRestoreSerial] = useState<string | null>(null);
   const [expandedTalkAbout, setExpandedTalkAbout] = useState(false);
   const [expandedHelpWith, setExpandedHelpWith] = useState(false);
 
-  // Invite state
-  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  // Invite state (own profile)
+  const {
+    invites,
+    usage: inviteUsage,
+    shareableCode: inviteCode,
+    loading: invitesLoading,
+    error: invitesError,
+    registerInvite,
+    revokeInvite,
+  } = useInvites(isOwnProfile);
   const [inviteLoading, setInviteLoading] = useState(false);
   const [inviteError, setInviteError] = useState("");
-  const [remainingInvites, setRemainingInvites] = useState(MAX_INVITES);
+  const autoRequestedInvite = useRef(false);
+  const remainingInvites = inviteUsage ? inviteUsage.quota - inviteUsage.invited : 0;
   const [codeCopied, setCodeCopied] = useState(false);
   const [showInviteQR, setShowInviteQR] = useState(false);
   const [needsAuth, setNeedsAuth] = useState(false);
@@ -375,6 +387,7 @@ export default function PublicProfilePage() {
 
   // Send tokens drawer state
   const [showSendDrawer, setShowSendDrawer] = useState(false);
+  const [showRequestDrawer, setShowRequestDrawer] = useState(false);
   const [senderBalance, setSenderBalance] = useState(0);
   const [balanceAnimating, setBalanceAnimating] = useState(false);
 
@@ -390,11 +403,9 @@ export default function PublicProfilePage() {
   // Wallet address for Safe link
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
 
-  // Onboarded by info
-  const [onboardedByUsername, setOnboardedByUsername] = useState<string | null>(null);
-
-  // Invitees info (npub -> { username, inviteesCount } mapping)
-  const [inviteesProfiles, setInviteesProfiles] = useState<Map<string, { username: string; inviteesCount: number }>>(new Map());
+  // Who onboarded this villager and whom they onboarded
+  const [inviteTree, setInviteTree] = useState<InviteTree | null>(null);
+  const onboardedByUsername = inviteTree?.invitedBy?.username || null;
 
   // User profiles cache (hex pubkey -> username) - used for followers and payment senders
   const [userProfiles, setUserProfiles] = useState<Map<string, string>>(new Map());
@@ -431,6 +442,8 @@ export default function PublicProfilePage() {
         const isOwn = credentials && credentials.username === data.profile.username;
         if (isOwn) {
           setIsOwnProfile(true);
+        } else if (!credentials && window.location.hash.startsWith("#restore=")) {
+          setRestoreSerial(window.location.hash.slice("#restore=".length));
         }
 
         // Try to merge cached kind 0 profile data (works for any profile)
@@ -500,62 +513,19 @@ export default function PublicProfilePage() {
             // Keep using cached balance from profile
           }
 
-          // Fetch inviter's username if this user was onboarded by someone
-          if (data.profile.profile.invitedBy) {
-            try {
-              const inviterResponse = await fetch(`/api/profile/${data.profile.profile.invitedBy}`);
-              const inviterData = await inviterResponse.json();
-              if (inviterData.success && inviterData.profile?.username) {
-                setOnboardedByUsername(inviterData.profile.username);
-              }
-            } catch (err) {
-              console.error("Failed to fetch inviter profile:", err);
+          // Fetch the invite tree around this villager
+          try {
+            const treeResponse = await fetch(`/api/invites/tree/${data.profile.npub}`);
+            const treeData = await treeResponse.json();
+            if (treeData.success) {
+              setInviteTree({ invitedBy: treeData.invitedBy, invitees: treeData.invitees });
             }
-          }
-
-          // Fetch invitees' usernames and their invitee counts
-          if (data.profile.profile.invitees && data.profile.profile.invitees.length > 0) {
-            const inviteesMap = new Map<string, { username: string; inviteesCount: number }>();
-            await Promise.all(
-              data.profile.profile.invitees.map(async (inviteeNpub: string) => {
-                try {
-                  const inviteeResponse = await fetch(`/api/profile/${inviteeNpub}`);
-                  const inviteeData = await inviteeResponse.json();
-                  if (inviteeData.success && inviteeData.profile?.username) {
-                    const inviteesCount = inviteeData.profile.profile?.invitees?.length || 0;
-                    inviteesMap.set(inviteeNpub, {
-                      username: inviteeData.profile.username,
-                      inviteesCount,
-                    });
-                  }
-                } catch (err) {
-                  console.error("Failed to fetch invitee profile:", err);
-                }
-              })
-            );
-            setInviteesProfiles(inviteesMap);
+          } catch (err) {
+            console.error("Failed to fetch invite tree:", err);
           }
         }
 
         setIsLoading(false);
-
-        // Load invite info for own profile
-        if (credentials && credentials.username === data.profile.username) {
-          // Check for stored invite code
-          const storedCode = localStorage.getItem("osv_invite_code");
-          if (storedCode) {
-            setInviteCode(storedCode);
-          }
-
-          // Get remaining invites
-          const invitees = data.profile.profile.invitees || [];
-          setRemainingInvites(MAX_INVITES - invitees.length);
-
-          // Automatically request invite code if not stored and has remaining invites
-          if (!storedCode && invitees.length < MAX_INVITES) {
-            requestInviteCodeAutomatically();
-          }
-        }
       } catch (err) {
         console.error("Failed to fetch profile:", err);
         setError("Failed to load profile");
@@ -755,7 +725,14 @@ export default function PublicProfilePage() {
     }
   }, [nostrEvents, profile?.npub]);
 
-  // Automatically request invite code when profile loads (if not already stored)
+  // Automatically request an invite code when there is no unused one left
+  useEffect(() => {
+    if (!isOwnProfile || invitesLoading || !inviteUsage || inviteCode) return;
+    if (inviteUsage.remaining <= 0 || autoRequestedInvite.current) return;
+    autoRequestedInvite.current = true;
+    requestInviteCodeAutomatically();
+  }, [isOwnProfile, invitesLoading, inviteUsage, inviteCode]);
+
   const requestInviteCodeAutomatically = async () => {
     console.log(
       "[Profile] requestInviteCodeAutomatically called, inviteLoading:",
@@ -767,15 +744,13 @@ export default function PublicProfilePage() {
     if (inviteLoading || inviteCode) return;
 
     setInviteLoading(true);
+    setInviteError("");
 
     try {
-      // Get the user's secret key from localStorage
-      const secretKey = getSecretKey();
-      console.log(
-        "[Profile] getSecretKey result:",
-        secretKey ? `Uint8Array(${secretKey.length})` : "null",
-      );
-      if (!secretKey) {
+      // Get the user's signer (local key, extension or remote signer)
+      const signer = await getActiveSigner();
+      console.log("[Profile] getActiveSigner result:", signer ? signer.type : "null");
+      if (!signer) {
         console.log(
           "[Profile] No secret key available for automatic invite code request",
         );
@@ -785,22 +760,27 @@ export default function PublicProfilePage() {
       }
 
       console.log(
-        "[Profile] Automatically requesting invite code with secretKey...",
+        "[Profile] Automatically requesting invite code with signer...",
       );
 
       // Request invite code from relay (client-side)
-      const result = await getOrRequestInviteCode(secretKey);
+      const result = await requestInviteCode(signer);
       console.log(
-        "[Profile] getOrRequestInviteCode result:",
+        "[Profile] requestInviteCode result:",
         result.success ? "success" : result.error,
       );
 
       if (result.success && result.inviteCode) {
+        // Register it so it shows up in the list and can be revoked
+        const registered = await registerInvite(result.inviteCode);
+        if (!registered.success) {
+          setInviteError(registered.error || "Failed to register invitation code");
+          return;
+        }
         console.log(
-          "[Profile] Invite code received and stored, length:",
+          "[Profile] Invite code received and registered, length:",
           result.inviteCode.length,
         );
-        setInviteCode(result.inviteCode);
         setInviteRequestFailed(false);
         setNotAMember(false);
       } else {
@@ -822,41 +802,9 @@ export default function PublicProfilePage() {
     }
   };
 
-  // Generate or retrieve invite code (client-side relay interaction) - manual button click
-  const handleGetInviteCode = async () => {
-    if (!profile) return;
-
-    // If we already have a code, it's already shown
-    if (inviteCode) return;
-
-    setInviteLoading(true);
-    setInviteError("");
-
-    try {
-      // Get the user's secret key from localStorage
-      const secretKey = getSecretKey();
-      if (!secretKey) {
-        setInviteError("Please scan your badge to authenticate first");
-        setInviteLoading(false);
-        return;
-      }
-
-      // Request invite code from relay (client-side)
-      const result = await getOrRequestInviteCode(secretKey);
-
-      if (!result.success || !result.inviteCode) {
-        setInviteError(result.error || "Failed to get invite code from relay");
-        setInviteLoading(false);
-        return;
-      }
-
-      setInviteCode(result.inviteCode);
-    } catch (err) {
-      console.error("Failed to get invite code:", err);
-      setInviteError("Failed to generate invite code");
-    } finally {
-      setInviteLoading(false);
-    }
+  const handleRevokeInvite = async (code: string) => {
+    if (!window.confirm("Revoke this invitation code? Nobody will be able to use it anymore.")) return;
+    await revokeInvite(code);
   };
 
   // Copy invite code to clipboard
@@ -996,6 +944,21 @@ export default function PublicProfilePage() {
     <div className="min-h-screen bg-gray-50 pb-20">
       {/* Profile Content */}
       <main className="max-w-2xl mx-auto px-4 py-6">
+        {/* Restore from an encrypted key backup */}
+        {restoreSerial && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+            <p className="text-sm text-blue-900">
+              Is this your badge? Restore your identity on this device from your key backup.
+            </p>
+            <a
+              href={`/claim#${restoreSerial}`}
+              className="text-sm font-medium text-blue-700 hover:text-blue-900"
+            >
+              Restore from backup →
+            </a>
+          </div>
+        )}
+
         {/* Profile Header */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-4">
           <div className="flex items-start gap-4 mb-4">
@@ -1137,6 +1100,13 @@ export default function PublicProfilePage() {
               {senderBalance > 0 ? "Send Tokens" : "No tokens to send"}
             </button>
           )}
+
+          <button
+            className={`w-full bg-white text-blue-600 font-semibold py-3 px-4 rounded-lg border border-blue-600 hover:bg-blue-50 transition ${isOwnProfile ? "" : "mt-2"}`}
+            onClick={() => setShowRequestDrawer(true)}
+          >
+            {isOwnProfile ? "Request Tokens with a QR Code" : "Request Tokens"}
+          </button>
         </div>
 
         {/* Social Links */}
@@ -1215,13 +1185,13 @@ export default function PublicProfilePage() {
               </p>
             </div>
 
-            {inviteError && (
+            {(inviteError || invitesError) && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
-                <p className="text-sm text-red-800">{inviteError}</p>
+                <p className="text-sm text-red-800">{inviteError || invitesError}</p>
               </div>
             )}
 
-            {inviteLoading && !inviteCode && (
+            {(inviteLoading || invitesLoading) && !inviteCode && (
               <p className="text-sm text-gray-500">
                 Loading invitation code...
               </p>
@@ -1434,48 +1404,81 @@ export default function PublicProfilePage() {
                   </div>
                 )}
 
-                {/* Show invitees if any */}
-                {profile?.profile.invitees &&
-                  profile.profile.invitees.length > 0 && (
-                    <div className="border-t pt-4 mt-4">
-                      <p className="text-sm font-medium text-gray-700 mb-2">
-                        Villagers you&apos;ve onboarded (
-                        {profile.profile.invitees.length}/{MAX_INVITES}):
-                      </p>
-                      <div className="space-y-1">
-                        {profile.profile.invitees.map((inviteeNpub, index) => {
-                          const inviteeInfo = inviteesProfiles.get(inviteeNpub);
-                          return inviteeInfo ? (
-                            <div key={index} className="flex items-center gap-2">
-                              <a
-                                href={`/profile/${inviteeInfo.username}`}
-                                className="text-sm text-blue-600 hover:underline"
-                              >
-                                @{inviteeInfo.username}
-                              </a>
-                              {inviteeInfo.inviteesCount > 0 && (
-                                <span className="text-xs text-gray-500">
-                                  ({inviteeInfo.inviteesCount} onboarded)
-                                </span>
-                              )}
-                            </div>
-                          ) : (
-                            <p
-                              key={index}
-                              className="text-xs text-gray-500 font-mono truncate"
-                            >
-                              {inviteeNpub.substring(0, 20)}...
-                            </p>
-                          );
-                        })}
-                      </div>
+              </div>
+            )}
+
+            {/* Codes this villager generated */}
+            {invites.length > 0 && (
+              <div className="border-t pt-4 mt-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Your invitation codes
+                  {inviteUsage && ` (${inviteUsage.invited}/${inviteUsage.quota} used)`}:
+                </p>
+                <div className="space-y-1">
+                  {invites.map((invite) => (
+                    <div key={invite.code} className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-gray-500 font-mono truncate">
+                        {invite.code.substring(64, 76)}...
+                      </span>
+                      <span className="text-xs text-gray-500 shrink-0">
+                        {invite.status === "active" &&
+                          `expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                        {invite.status === "redeemed" &&
+                          `used ${new Date(invite.redeemedAt!).toLocaleDateString()}`}
+                        {invite.status === "revoked" && "revoked"}
+                        {invite.status === "expired" && "expired"}
+                      </span>
+                      {invite.status === "active" && (
+                        <button
+                          onClick={() => handleRevokeInvite(invite.code)}
+                          className="text-xs text-red-600 hover:text-red-700 font-medium shrink-0"
+                        >
+                          Revoke
+                        </button>
+                      )}
                     </div>
-                  )}
+                  ))}
+                </div>
               </div>
             )}
           </div>
         )}
 
+        {/* Invite tree: who onboarded this villager and whom they onboarded */}
+        {inviteTree && inviteTree.invitees.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mt-4">
+            <h3 className="font-semibold text-gray-900 mb-3">
+              {isOwnProfile ? "Villagers you've onboarded" : "Villagers onboarded"} ({inviteTree.invitees.length})
+            </h3>
+            <div className="space-y-1">
+              {inviteTree.invitees.map((invitee) =>
+                invitee.username ? (
+                  <div key={invitee.npub} className="flex items-center gap-2">
+                    <a
+                      href={`/profile/${invitee.username}`}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      @{invitee.username}
+                    </a>
+                    {invitee.inviteesCount > 0 && (
+                      <span className="text-xs text-gray-500">
+                        ({invitee.inviteesCount} onboarded)
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <p
+                    key={invitee.npub}
+                    className="text-xs text-gray-500 font-mono truncate"
+                  >
+                    {invitee.npub.substring(0, 20)}...
+                  </p>
+                ),
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Nostr Identity - shown only for own profile */}
         {isOwnProfile && (
           <div className="bg-white rounded-lg shadow-sm p-6 mt-4">
@@ -1894,6 +1897,16 @@ export default function PublicProfilePage() {
         </div>
       </main>
 
+      {/* Request Tokens Drawer */}
+      {profile && (
+        <RequestTokensDrawer
+          isOpen={showRequestDrawer}
+          onClose={() => setShowRequestDrawer(false)}
+          payer={isOwnProfile ? undefined : profile.npub}
+          payerUsername={isOwnProfile ? undefined : profile.username}
+        />
+      )}
+
       {/* Send Tokens Drawer */}
       {!isOwnProfile && profile && (
         <SendTokensDrawer
@@ -8,7 +8,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { getStoredCredentials, deriveNostrKeypair, getSerialNumberFromURL, publishToAllRelays } from '@/lib/nostr';
-import { getStoredSecretKey, decodeNsec, createProfileEvent, storeSecretKey } from '@/lib/nostr-events';
+import { buildProfileEvent } from '@/lib/nostr-events';
+import { getActiveSigner, getActiveSignerType, saveSigner, type Signer } from '@/lib/signer';
 
 // localStorage key prefix for storing kind 0 profile event content (keyed by npub)
 const PROFILE_CACHE_PREFIX = 'osv_profile_kind0_';
@@ -46,9 +47,8 @@ export default function ProfileEditPage() {
     setCredentials(creds);
     loadProfile(creds);
 
-    // Check if secret key exists
-    const nsec = getStoredSecretKey();
-    if (!nsec) {
+    // Check if a signer exists (local key, extension or remote signer)
+    if (!getActiveSignerType()) {
       console.log('[Profile Edit] No secret key found - will prompt for password');
     }
   }, [router]);
@@ -137,7 +137,7 @@ export default function ProfileEditPage() {
       }
 
       // Store the secret key
-      storeSecretKey(nsec);
+      saveSigner({ type: 'local', nsec });
       console.log('[Profile Edit] ✓ Secret key restored and stored');
 
       setShowPasswordPrompt(false);
@@ -162,9 +162,15 @@ export default function ProfileEditPage() {
 
     if (!credentials) return;
 
-    // Check if secret key exists first
-    const nsec = getStoredSecretKey();
-    if (!nsec) {
+    // Check if a signer exists first
+    let signer: Signer | null;
+    try {
+      signer = await getActiveSigner();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reach your signer');
+      return;
+    }
+    if (!signer) {
       console.log('[Profile Edit] No secret key found - prompting for password');
       setShowPasswordPrompt(true);
       return;
@@ -177,8 +183,6 @@ export default function ProfileEditPage() {
     try {
       console.log('[Profile Edit] Creating NOSTR profile event...');
 
-      const secretKey = decodeNsec(nsec);
-
       // Build NOSTR profile content (NIP-01 format with custom fields)
       const profileContent: Record<string, unknown> = {};
       if (name.trim()) profileContent.name = name.trim();
@@ -193,12 +197,12 @@ export default function ProfileEditPage() {
       if (links.length > 0) profileContent.links = links;
 
       // Create and sign the event
-      const nostrEvent = createProfileEvent(secretKey, profileContent);
+      const nostrEvent = await signer.signEvent(buildProfileEvent(profileContent));
       console.log('[Profile Edit] NOSTR event created:', nostrEvent.id);
 
       // Publish to NOSTR relays
       console.log('[Profile Edit] Publishing event to NOSTR relays...');
-      const publishResult = await publishToAllRelays(nostrEvent, secretKey);
+      const publishResult = await publishToAllRelays(nostrEvent, signer);
 
       if (publishResult.successful.length === 0) {
         setError('Failed to publish profile to any relay. Please try again.');
@@ -2,22 +2,41 @@
 
 /**
  * Settings page
- * Allows users to manage their account settings, view keys, and export data
+ * Allows users to manage their account settings, view keys, back up the key
+ * (NIP-49 ncryptsec), link and forget devices, and export data
  */
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { getStoredCredentials, clearCredentials } from '@/lib/nostr';
-import { getStoredSecretKey } from '@/lib/nostr-events';
+import { getStoredSecretKey, decodeNsec } from '@/lib/nostr-events';
+import { createKeyBackup } from '@/lib/key-backup';
+import { getLinkedDeviceId } from '@/lib/device-link';
+import type { LinkedDevice } from '@/lib/linked-devices';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import { QRCodeSVG } from 'qrcode.react';
 
 export default function SettingsPage() {
   const router = useRouter();
+  const { signedFetch } = useNostrPublisher();
   const [credentials, setCredentials] = useState<{ username: string; npub: string } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [nsecVisible, setNsecVisible] = useState(false);
   const [nsec, setNsec] = useState<string | null>(null);
   const [ethereumAddress, setEthereumAddress] = useState<string>('');
 
+  // Encrypted key backup state
+  const [backupPassword, setBackupPassword] = useState('');
+  const [backupPasswordConfirm, setBackupPasswordConfirm] = useState('');
+  const [backupError, setBackupError] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [ncryptsec, setNcryptsec] = useState<string | null>(null);
+
+  // Linked devices state
+  const [devices, setDevices] = useState<LinkedDevice[]>([]);
+  const [thisDeviceId, setThisDeviceId] = useState<string | null>(null);
+  const [forgettingDevice, setForgettingDevice] = useState<string | null>(null);
+
   // Username editing state
   const [isEditingUsername, setIsEditingUsername] = useState(false);
   const [newUsername, setNewUsername] = useState('');
@@ -43,9 +62,49 @@ export default function SettingsPage() {
     // In production, this should use proper HD wallet derivation
     deriveEthereumAddress(creds.npub);
 
+    setThisDeviceId(getLinkedDeviceId());
+    loadDevices();
+
     setIsLoading(false);
   }, [router]);
 
+  const loadDevices = async () => {
+    try {
+      const response = await signedFetch('/api/devices');
+      const data = await response.json();
+      if (data.success) {
+        setDevices(data.devices);
+      }
+    } catch (err) {
+      console.error('Failed to load linked devices:', err);
+    }
+  };
+
+  const forgetDevice = async (device: LinkedDevice) => {
+    const confirmed = window.confirm(
+      `Forget "${device.name}"? It will be logged out the next time it opens the app.\n\n` +
+      'It still holds your key: if it was lost or stolen, whoever has it can keep signing as you ' +
+      'until you rotate your key.'
+    );
+    if (!confirmed) return;
+
+    setForgettingDevice(device.id);
+    try {
+      const response = await signedFetch(`/api/devices/${device.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || 'Failed to forget device');
+        return;
+      }
+      await loadDevices();
+    } catch (err) {
+      console.error('Failed to forget device:', err);
+      alert('Failed to forget device. Please try again.');
+    } finally {
+      setForgettingDevice(null);
+    }
+  };
+
   const deriveEthereumAddress = (npub: string) => {
     // Create a deterministic Ethereum-style address from npub
     // This is a placeholder - in production, use proper BIP-44 derivation
@@ -99,6 +158,54 @@ export default function SettingsPage() {
     }
   };
 
+  const createBackup = () => {
+    if (!nsec) return;
+    setBackupError('');
+
+    if (backupPassword.length < 8) {
+      setBackupError('Use at least 8 characters for your backup password');
+      return;
+    }
+    if (backupPassword !== backupPasswordConfirm) {
+      setBackupError('Passwords do not match');
+      return;
+    }
+
+    setIsEncrypting(true);
+    // scrypt blocks for about a second, let the button show "Encrypting..." first
+    setTimeout(() => {
+      try {
+        setNcryptsec(createKeyBackup(decodeNsec(nsec), backupPassword));
+        setBackupPassword('');
+        setBackupPasswordConfirm('');
+      } catch (err) {
+        setBackupError(err instanceof Error ? err.message : 'Failed to encrypt your key');
+      } finally {
+        setIsEncrypting(false);
+      }
+    }, 50);
+  };
+
+  const printBackup = () => {
+    const qr = document.getElementById('key-backup-qr');
+    const printWindow = window.open('', '_blank');
+    if (!qr || !printWindow || !ncryptsec || !credentials) return;
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head><title>Open Source Village - key backup for @${credentials.username}</title></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 2rem;">
+    <h2>Open Source Village - @${credentials.username}</h2>
+    <div>${qr.outerHTML}</div>
+    <p style="font-family: monospace; word-break: break-all; max-width: 32rem; margin: 1rem auto;">${ncryptsec}</p>
+    <p>Encrypted key backup (NIP-49). You will need your backup password to restore it.</p>
+  </body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
   const validateUsername = (username: string): boolean => {
     setUsernameError('');
 
@@ -135,7 +242,7 @@ export default function SettingsPage() {
       }
 
       // Update username in profile
-      const updateResponse = await fetch(`/api/profile/${credentials.username}`, {
+      const updateResponse = await signedFetch(`/api/profile/${credentials.username}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ username: newUsername }),
@@ -349,6 +456,73 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* Encrypted Key Backup (NIP-49) */}
+            {nsec && (
+              <div>
+                <label className="text-sm text-gray-600 mb-1 block">Encrypted Key Backup</label>
+                {!ncryptsec ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-500">
+                      Your key only lives on this device. Back it up, encrypted with a password,
+                      to restore your identity if you lose or wipe your phone.
+                    </p>
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Backup password"
+                      value={backupPassword}
+                      onChange={(e) => setBackupPassword(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-gray-900 placeholder-gray-400"
+                    />
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Confirm backup password"
+                      value={backupPasswordConfirm}
+                      onChange={(e) => setBackupPasswordConfirm(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-gray-900 placeholder-gray-400"
+                    />
+                    {backupError && (
+                      <p className="text-xs text-red-600">{backupError}</p>
+                    )}
+                    <button
+                      onClick={createBackup}
+                      disabled={!backupPassword || isEncrypting}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm font-medium transition disabled:opacity-50"
+                    >
+                      {isEncrypting ? 'Encrypting...' : 'Create Backup'}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="flex justify-center bg-white p-4 border border-gray-200 rounded-lg">
+                      <QRCodeSVG id="key-backup-qr" value={ncryptsec} size={200} level="M" />
+                    </div>
+                    <code className="block text-xs font-mono text-gray-900 bg-gray-100 px-3 py-2 rounded-lg break-all">
+                      {ncryptsec}
+                    </code>
+                    <div className="flex gap-4">
+                      <button
+                        onClick={() => copyToClipboard(ncryptsec, 'Backup')}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        Copy
+                      </button>
+                      <button
+                        onClick={printBackup}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        Print
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      To restore, scan your badge on the new device and enter this backup with its password.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Ethereum Address */}
             <div>
               <label className="text-sm text-gray-600 mb-1 block">Ethereum Address (Gnosis Chain)</label>
@@ -378,6 +552,49 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Linked Devices Section */}
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-4">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-4">Linked Devices</h2>
+
+          {devices.length > 0 && (
+            <ul className="divide-y divide-gray-100 mb-4">
+              {devices.map((device) => (
+                <li key={device.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {device.name}
+                      {device.id === thisDeviceId && <span className="text-gray-500 font-normal"> (this device)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Linked {new Date(device.linkedAt).toLocaleDateString()}
+                      {device.forgottenAt && ` · forgotten ${new Date(device.forgottenAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {!device.forgottenAt && (
+                    <button
+                      onClick={() => forgetDevice(device)}
+                      disabled={forgettingDevice === device.id}
+                      className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                    >
+                      {forgettingDevice === device.id ? 'Forgetting...' : 'Forget'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={() => router.push('/link')}
+            className="w-full text-left p-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            <p className="font-medium text-gray-900">Link Another Device</p>
+            <p className="text-sm text-gray-600 mt-1">
+              Use your account on your laptop or another phone by scanning a QR code
+            </p>
+          </button>
+        </div>
+
         {/* Data Section */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-4">
           <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-4">Data</h2>
@@ -3,15 +3,106 @@
 /**
  * Transactions Page
  *
- * Shows user's token transaction history.
- * Currently displays balance only - transaction history is fetched from blockchain.
+ * Shows user's token balance and transaction history, built from the
+ * payment requests and receipts recorded for them (GET /api/transactions/[npub]).
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { getStoredCredentials } from '@/lib/nostr';
 import { useTokenBalance } from '@/hooks/useTokenBalance';
 import { TOKEN_ECONOMICS } from '@/lib/token-balance';
+import type { Transaction, TransactionStatus, TransactionType } from '@/lib/transactions';
+
+const FILTERS: { label: string; type: TransactionType | null }[] = [
+  { label: 'All', type: null },
+  { label: 'Mints', type: 'mint' },
+  { label: 'Transfers', type: 'transfer' },
+  { label: 'Burns', type: 'burn' },
+  { label: 'RSVPs', type: 'rsvp' },
+  { label: 'Bookings', type: 'booking' },
+];
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const CONTEXT_LABELS: Record<string, string> = {
+  rsvp: 'RSVP',
+  tip: 'Tip',
+  transfer: 'Transfer',
+  offer_creation: 'Offer published',
+  badge_claim: 'Welcome tokens',
+  refund: 'Refund',
+  workshop_proposal: 'Workshop proposal',
+  booking: 'Room booking',
+  need: 'Need published',
+  admin_adjustment: 'Balance adjustment',
+  escrow_release: 'RSVP escrow released',
+  escrow_refund: 'RSVP escrow refund',
+  invoice: 'Payment request',
+};
+
+function TransactionRow({ transaction }: { transaction: Transaction }) {
+  const { counterparty, relatedEventId, relatedTitle } = transaction;
+  const sign = transaction.direction === 'in' ? '+' : '-';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 flex items-start gap-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900">
+          {CONTEXT_LABELS[transaction.context] || transaction.context}
+          {counterparty && (
+            <>
+              {transaction.direction === 'in' ? ' from ' : ' to '}
+              <a
+                href={`/profile/${counterparty.username || counterparty.npub}`}
+                className="text-blue-600 hover:underline"
+              >
+                @{counterparty.username || `${counterparty.npub.substring(0, 12)}...`}
+              </a>
+            </>
+          )}
+        </p>
+        {relatedEventId && relatedTitle && (
+          <a
+            href={`/offers/${relatedEventId}`}
+            className="text-sm text-gray-600 hover:underline truncate block"
+          >
+            {relatedTitle}
+          </a>
+        )}
+        <p className="text-xs text-gray-400 mt-0.5">
+          {new Date(transaction.createdAt * 1000).toLocaleString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </p>
+        {transaction.split && (
+          <p className="text-xs text-gray-500 mt-0.5">
+            {transaction.direction === 'in' ? 'Your share' : 'Share'} of {transaction.split.total}{' '}
+            {transaction.symbol || TOKEN_ECONOMICS.TOKEN_SYMBOL}, split between {transaction.split.shares} authors
+          </p>
+        )}
+        {transaction.status === 'failed' && transaction.error && (
+          <p className="text-xs text-red-600 mt-1">{transaction.error}</p>
+        )}
+      </div>
+      <div className="text-right shrink-0">
+        <p className={`font-semibold ${transaction.direction === 'in' ? 'text-green-700' : 'text-gray-900'}`}>
+          {sign}{transaction.amount} {transaction.symbol || TOKEN_ECONOMICS.TOKEN_SYMBOL}
+        </p>
+        <span className={`inline-block mt-1 text-xs px-2 py-0.5 rounded ${STATUS_STYLES[transaction.status]}`}>
+          {transaction.status}
+        </span>
+      </div>
+    </div>
+  );
+}
 
 export default function TransactionsPage() {
   const router = useRouter();
@@ -26,7 +117,47 @@ export default function TransactionsPage() {
     setCredentials(creds);
   }, [router]);
 
-  const { balance, isLoading, refresh } = useTokenBalance(credentials?.npub || null);
+  const { balance, isLoading, refresh: refreshBalance } = useTokenBalance(credentials?.npub || null);
+  const [filter, setFilter] = useState<TransactionType | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingTransactions, setLoadingTransactions] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTransactions = useCallback(async (cursor?: string) => {
+    if (!credentials) return;
+    setLoadingTransactions(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: '20' });
+      if (filter) params.set('type', filter);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/transactions/${credentials.npub}?${params}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load transactions');
+      }
+
+      setTransactions((previous) => (cursor ? [...previous, ...data.transactions] : data.transactions));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('[Transactions] Failed to load transactions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load transactions');
+    } finally {
+      setLoadingTransactions(false);
+    }
+  }, [credentials, filter]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const refresh = () => {
+    refreshBalance();
+    loadTransactions();
+  };
 
   if (!credentials) {
     return (
@@ -75,17 +206,54 @@ export default function TransactionsPage() {
         </div>
       </div>
 
+      {/* Filters */}
+      <div className="max-w-2xl mx-auto px-4 pt-4 flex gap-2 overflow-x-auto">
+        {FILTERS.map(({ label, type }) => (
+          <button
+            key={label}
+            onClick={() => setFilter(type)}
+            className={`px-3 py-1 rounded-full text-sm whitespace-nowrap ${
+              filter === type ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* Content */}
-      <main className="max-w-2xl mx-auto px-4 py-6">
-        <div className="bg-gray-100 rounded-lg p-8 text-center">
-          <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          <p className="text-gray-600 mb-2">Transaction history coming soon</p>
-          <p className="text-sm text-gray-500">
-            Your balance is tracked on the Gnosis Chain blockchain
-          </p>
-        </div>
+      <main className="max-w-2xl mx-auto px-4 py-4 space-y-2">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {transactions.map((transaction) => (
+          <TransactionRow key={transaction.id} transaction={transaction} />
+        ))}
+
+        {loadingTransactions && (
+          <p className="text-center text-gray-500 text-sm py-4">Loading transactions...</p>
+        )}
+
+        {!loadingTransactions && !error && transactions.length === 0 && (
+          <div className="bg-gray-100 rounded-lg p-8 text-center">
+            <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            <p className="text-gray-600">No transactions yet</p>
+          </div>
+        )}
+
+        {!loadingTransactions && nextCursor && (
+          <button
+            onClick={() => loadTransactions(nextCursor)}
+            className="w-full py-2 text-blue-600 hover:text-blue-700 text-sm font-medium"
+          >
+            Load more
+          </button>
+        )}
       </main>
     </div>
   );
@@ -17,6 +17,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import Image from 'next/image';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
 
 interface AvatarUploadProps {
   npub: string;
@@ -30,6 +31,7 @@ export function AvatarUpload({ npub, currentAvatarUrl, onAvatarUpdated }: Avatar
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { signedFetch } = useNostrPublisher();
 
   // Get initial avatar (current or generated)
   const avatarUrl = previewUrl || currentAvatarUrl || getGeneratedAvatar(npub);
@@ -84,7 +86,7 @@ export function AvatarUpload({ npub, currentAvatarUrl, onAvatarUpdated }: Avatar
       formData.append('npub', npub);
 
       // Upload to server
-      const response = await fetch('/api/avatar', {
+      const response = await signedFetch('/api/avatar', {
         method: 'POST',
         body: formData,
       });
@@ -119,7 +121,7 @@ export function AvatarUpload({ npub, currentAvatarUrl, onAvatarUpdated }: Avatar
     } finally {
       setUploading(false);
     }
-  }, [npub, onAvatarUpdated]);
+  }, [npub, onAvatarUpdated, signedFetch]);
 
   /**
    * Handle cancel
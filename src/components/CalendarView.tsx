@@ -12,6 +12,8 @@ import { useTokenBalance } from "@/hooks/useTokenBalance";
 import { useNostrPublisher } from "@/hooks/useNostrPublisher";
 import RoomDetailDrawer, { RoomInfo } from "@/components/RoomDetailDrawer";
 import WelcomeActions from "@/components/WelcomeActions";
+import { getPaymentSplit, getRewardShares } from "@/lib/rewards";
+import type { Offer } from "@/types";
 import settings from "../../settings.json";
 
 // Get the configured timezone (defaults to Europe/Brussels)
@@ -122,7 +124,7 @@ export default function CalendarView({
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 
   // Nostr publisher hook for sending burn events
-  const { publishPaymentRequest, isPublishing } = useNostrPublisher();
+  const { publishPaymentRequest, signedFetch, isPublishing } = useNostrPublisher();
 
   // Parse event dates
   const eventStart = new Date(eventDates.start + "T00:00:00");
@@ -462,32 +464,50 @@ export default function CalendarView({
     setRsvpError(null);
 
     try {
-      // Step 1: Send NOSTR payment request to transfer 1 token to author
-      console.log("[CalendarView] Publishing transfer event for RSVP to author:", event.author);
-      const transferResult = await publishPaymentRequest({
-        recipient: event.author, // Workshop author receives the token
-        sender: credentials.npub,
-        amount: 1,
-        context: "rsvp",
-        relatedEventId: event.offerId,
-        description: `RSVP to "${event.title}"`,
-        method: "transfer",
-      });
+      // Step 1: Send NOSTR payment requests for the RSVP reward: one transfer per
+      // author share, or a single one to the escrow account when RSVP escrow is enabled
+      const [offerResponse, escrowResponse] = await Promise.all([
+        fetch(`/api/offers?id=${encodeURIComponent(event.offerId)}`),
+        fetch(`/api/offers/${event.offerId}/escrow`),
+      ]);
+      const [offerData, escrow] = await Promise.all([offerResponse.json(), escrowResponse.json()]);
+      const offer: Pick<Offer, "authors" | "rewardPerAttendee"> = offerData.success
+        ? offerData.offer
+        : { authors: [event.author], rewardPerAttendee: 1 };
+      const amount = offer.rewardPerAttendee || 1;
+      const escrowAccount: string | null = escrow.success && escrow.enabled ? escrow.account : null;
+      const shares = escrowAccount ? [{ npub: escrowAccount, amount }] : getRewardShares(offer, amount);
+      const split = escrowAccount ? undefined : getPaymentSplit(amount, shares);
+
+      for (const share of shares) {
+        console.log("[CalendarView] Publishing transfer event for RSVP to:", share.npub, share.amount);
+        const transferResult = await publishPaymentRequest({
+          recipient: share.npub,
+          sender: credentials.npub,
+          amount: share.amount,
+          context: "rsvp",
+          relatedEventId: event.offerId,
+          description: escrowAccount
+            ? `RSVP to "${event.title}" (held in escrow)`
+            : `RSVP to "${event.title}"`,
+          method: "transfer",
+          split,
+        });
+
+        if (!transferResult.success) {
+          throw new Error(transferResult.error || "Failed to transfer token");
+        }
 
-      if (!transferResult.success) {
-        throw new Error(transferResult.error || "Failed to transfer token");
+        console.log("[CalendarView] Transfer event published:", transferResult.eventId);
       }
 
-      console.log("[CalendarView] Transfer event published:", transferResult.eventId);
-
       // Step 2: Call RSVP API to add user to calendar and increment counter
       console.log("[CalendarView] Calling RSVP API...");
-      const response = await fetch("/api/rsvp", {
+      const response = await signedFetch("/api/rsvp", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           offerId: event.offerId,
-          npub: credentials.npub,
         }),
       });
 
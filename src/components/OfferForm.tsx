@@ -16,7 +16,8 @@ import { useNostrPublisher } from "@/hooks/useNostrPublisher";
 import BookingGrid, { BookedSlot, RoomConfig } from "@/components/BookingGrid";
 import ProposalCostInfo from "@/components/ProposalCostInfo";
 import { Offer } from "@/types";
-import { getStoredSecretKey, decodeNsec, createCalendarEventClient, formatRelativeDate, formatTime } from "@/lib/nostr-events";
+import { buildCalendarEvent, formatRelativeDate, formatTime } from "@/lib/nostr-events";
+import { getActiveSigner } from "@/lib/signer";
 import settings from "../../settings.json";
 
 // Get the configured timezone (defaults to Europe/Brussels)
@@ -186,7 +187,7 @@ export default function OfferForm({
   onSuccess,
 }: OfferFormProps) {
   const router = useRouter();
-  const { publishPaymentRequest, publishNote, isPublishing } = useNostrPublisher();
+  const { publishPaymentRequest, publishNote, signedFetch, isPublishing } = useNostrPublisher();
 
   // Form state
   const [type, setType] = useState<OfferType>(
@@ -550,7 +551,6 @@ export default function OfferForm({
         title: title.trim(),
         description: description.trim(),
         tags,
-        npub: credentials.npub,
       };
 
       // Add schedule fields for workshops/1:1
@@ -576,15 +576,14 @@ export default function OfferForm({
         // Create NOSTR calendar event (kind 31922) for workshops
         if (type === "workshop" && startDate && startTime && body.startTime && body.endTime) {
           try {
-            const nsec = getStoredSecretKey();
-            if (nsec) {
-              const secretKey = decodeNsec(nsec);
+            const signer = await getActiveSigner();
+            if (signer) {
               // Use existing d-tag in edit mode, or create new one
               const dTag = mode === "edit" && initialData?.nostrDTag
                 ? initialData.nostrDTag
                 : `offer-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 
-              const calendarEvent = createCalendarEventClient(secretKey, {
+              const calendarEvent = await signer.signEvent(buildCalendarEvent({
                 dTag,
                 title: title.trim(),
                 description: description.trim(),
@@ -592,12 +591,12 @@ export default function OfferForm({
                 endTime: body.endTime as string,
                 location: room,
                 tags,
-              });
+              }));
 
               body.nostrEvent = calendarEvent;
               console.log("[OfferForm] Created NOSTR calendar event:", calendarEvent.id);
             } else {
-              console.warn("[OfferForm] No secret key found, skipping NOSTR calendar event");
+              console.warn("[OfferForm] No signer found, skipping NOSTR calendar event");
             }
           } catch (nostrError) {
             console.error("[OfferForm] Failed to create NOSTR calendar event:", nostrError);
@@ -611,7 +610,7 @@ export default function OfferForm({
 
       if (mode === "edit" && initialData) {
         // Update existing offer
-        response = await fetch(`/api/offers/${initialData.id}`, {
+        response = await signedFetch(`/api/offers/${initialData.id}`, {
           method: "PUT",
           headers: {
             "Content-Type": "application/json",
@@ -621,7 +620,7 @@ export default function OfferForm({
         data = await response.json();
       } else {
         // Create new offer
-        response = await fetch("/api/offers", {
+        response = await signedFetch("/api/offers", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -741,14 +740,8 @@ export default function OfferForm({
     setError("");
 
     try {
-      const response = await fetch(`/api/offers/${initialData.id}/cancel`, {
+      const response = await signedFetch(`/api/offers/${initialData.id}/cancel`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          npub: credentials.npub,
-        }),
       });
 
       const data = await response.json();
@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+import { getStoredCredentials } from '@/lib/nostr';
+
+interface RequestTokensDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Villager asked to pay; without one, the request is only shown as a QR code */
+  payer?: string;
+  payerUsername?: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '1 week', seconds: 7 * 24 * 60 * 60 },
+];
+
+export function RequestTokensDrawer({
+  isOpen,
+  onClose,
+  payer,
+  payerUsername,
+}: RequestTokensDrawerProps) {
+  const [amount, setAmount] = useState(1);
+  const [description, setDescription] = useState('');
+  const [expiresIn, setExpiresIn] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const { publishInvoice, isPublishing } = useNostrPublisher();
+
+  // Reset state when drawer opens
+  useEffect(() => {
+    if (isOpen) {
+      setAmount(1);
+      setDescription('');
+      setExpiresIn(0);
+      setError('');
+      setInvoiceId(null);
+    }
+  }, [isOpen]);
+
+  const handleIncrement = useCallback(() => {
+    setAmount((prev) => prev + 1);
+  }, []);
+
+  const handleDecrement = useCallback(() => {
+    setAmount((prev) => Math.max(prev - 1, 1));
+  }, []);
+
+  const handleAmountChange = useCallback((value: string) => {
+    const num = parseInt(value, 10);
+    if (!isNaN(num) && num >= 1) {
+      setAmount(num);
+    }
+  }, []);
+
+  const handleConfirm = async () => {
+    const credentials = getStoredCredentials();
+    if (!credentials?.npub) {
+      setError('Please log in to request tokens');
+      return;
+    }
+
+    setIsSending(true);
+    setError('');
+
+    try {
+      const result = await publishInvoice({
+        requester: credentials.npub,
+        payer,
+        amount,
+        description: description || undefined,
+        expiresAt: expiresIn > 0 ? Math.floor(Date.now() / 1000) + expiresIn : undefined,
+      });
+
+      if (!result.success || !result.eventId) {
+        throw new Error(result.error || 'Failed to request tokens');
+      }
+
+      setInvoiceId(result.eventId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request tokens');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const payUrl = invoiceId ? `${window.location.origin}/pay/${invoiceId}` : '';
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`fixed inset-0 bg-black transition-opacity z-40 ${
+          isOpen ? 'opacity-50' : 'opacity-0 pointer-events-none'
+        }`}
+        onClick={onClose}
+      />
+
+      {/* Drawer */}
+      <div
+        className={`fixed inset-x-0 bottom-0 z-50 transform transition-transform duration-300 ease-out ${
+          isOpen ? 'translate-y-0' : 'translate-y-full'
+        }`}
+      >
+        <div className="bg-white rounded-t-3xl shadow-2xl max-w-lg mx-auto">
+          {/* Handle */}
+          <div className="flex justify-center pt-3 pb-2">
+            <div className="w-12 h-1.5 bg-gray-300 rounded-full" />
+          </div>
+
+          {invoiceId ? (
+            /* Request created: QR code to pay it */
+            <div className="px-6 pb-8 pt-4 text-center">
+              <h3 className="text-2xl font-bold text-gray-900 mb-2">
+                {amount} token{amount !== 1 ? 's' : ''} requested
+              </h3>
+              <p className="text-gray-600 mb-4">
+                {payerUsername
+                  ? <>@{payerUsername} will see it in their notifications, or can scan this code</>
+                  : <>Scan this code to pay</>}
+              </p>
+              <div className="flex justify-center mb-4">
+                <QRCodeSVG value={payUrl} size={220} level="M" />
+              </div>
+              {description && <p className="text-sm text-gray-500 mb-4">{description}</p>}
+              <button
+                type="button"
+                onClick={onClose}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl transition-colors text-lg"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            /* Form State */
+            <div className="px-6 pb-8 pt-2">
+              {/* Header */}
+              <div className="text-center mb-6">
+                <h2 className="text-xl font-bold text-gray-900">Request Tokens</h2>
+                <p className="text-gray-500 text-sm">
+                  {payerUsername ? `from @${payerUsername}` : 'shown as a QR code'}
+                </p>
+              </div>
+
+              {/* Amount Input */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2 text-center">
+                  Amount to request
+                </label>
+                <div className="flex items-center justify-center gap-4">
+                  {/* Decrement Button */}
+                  <button
+                    type="button"
+                    onClick={handleDecrement}
+                    disabled={amount <= 1 || isSending}
+                    className="w-16 h-16 rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-3xl font-bold text-gray-700 transition-colors active:scale-95"
+                  >
+                    −
+                  </button>
+
+                  {/* Amount Display */}
+                  <input
+                    type="number"
+                    value={amount}
+                    onChange={(e) => handleAmountChange(e.target.value)}
+                    min={1}
+                    disabled={isSending}
+                    className="w-24 h-20 text-center text-4xl font-bold text-gray-900 border-2 border-gray-200 rounded-2xl focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                  />
+
+                  {/* Increment Button */}
+                  <button
+                    type="button"
+                    onClick={handleIncrement}
+                    disabled={isSending}
+                    className="w-16 h-16 rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-3xl font-bold text-gray-700 transition-colors active:scale-95"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+
+              {/* Memo */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Memo (optional)
+                </label>
+                <input
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What's this for?"
+                  disabled={isSending}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                  maxLength={100}
+                />
+              </div>
+
+              {/* Expiry */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Expires
+                </label>
+                <div className="flex gap-2">
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <button
+                      key={option.seconds}
+                      type="button"
+                      onClick={() => setExpiresIn(option.seconds)}
+                      disabled={isSending}
+                      className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-colors ${
+                        expiresIn === option.seconds
+                          ? 'border-blue-600 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Error Message */}
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              {/* Confirm Button */}
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={isSending || isPublishing || amount < 1}
+                className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl transition-colors text-lg"
+              >
+                {isSending || isPublishing ? 'Requesting...' : `Request ${amount} token${amount !== 1 ? 's' : ''}`}
+              </button>
+
+              {/* Cancel Link */}
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSending}
+                className="w-full mt-3 text-gray-500 hover:text-gray-700 font-medium py-2 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default RequestTokensDrawer;
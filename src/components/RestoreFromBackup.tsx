@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * Restore From Backup Component
+ *
+ * Restores an identity on a new device from an encrypted key backup
+ * (NIP-49 ncryptsec), scanned from the printed QR or pasted as text.
+ * The restored key must belong to the profile bound to the scanned badge.
+ */
+
+import { useState, lazy, Suspense } from 'react';
+import { storeCredentials } from '@/lib/nostr';
+import { isNcryptsec, restoreKeyBackup } from '@/lib/key-backup';
+import { saveSigner } from '@/lib/signer';
+
+const QRScanner = lazy(() => import('@/components/QRScanner'));
+
+interface RestoreFromBackupProps {
+  serialNumber: string;
+  onRestored: (identity: { username: string; npub: string }) => void;
+  onCancel?: () => void;
+}
+
+export default function RestoreFromBackup({ serialNumber, onRestored, onCancel }: RestoreFromBackupProps) {
+  const [backup, setBackup] = useState('');
+  const [password, setPassword] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    setError('');
+
+    try {
+      const identity = await restoreKeyBackup(backup, password, serialNumber);
+
+      saveSigner({ type: 'local', nsec: identity.nsec });
+      storeCredentials(identity.username, identity.npub);
+      localStorage.setItem(`badge_${serialNumber}`, identity.username);
+      console.log('[Restore] ✓ Identity restored for', identity.username);
+
+      onRestored({ username: identity.username, npub: identity.npub });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore your backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {showScanner ? (
+        <Suspense fallback={
+          <div className="w-full bg-gray-100 rounded-xl p-8 text-center text-gray-500">
+            Loading camera...
+          </div>
+        }>
+          <QRScanner
+            onScan={(result) => {
+              setBackup(result);
+              setShowScanner(false);
+            }}
+            onError={(err) => setError(err)}
+          />
+        </Suspense>
+      ) : (
+        <textarea
+          placeholder="ncryptsec1..."
+          value={backup}
+          onChange={(e) => setBackup(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder-gray-400 font-mono text-sm resize-none"
+          rows={3}
+        />
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowScanner(!showScanner)}
+        className="w-full text-sm text-blue-600 hover:text-blue-700"
+      >
+        {showScanner ? 'Paste the backup instead' : 'Scan the printed backup QR code'}
+      </button>
+
+      <input
+        type="password"
+        placeholder="Backup password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className="w-full px-4 py-3 text-lg border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 placeholder-gray-400"
+      />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-3 text-gray-600 font-medium hover:text-gray-800 transition"
+          >
+            Back
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleRestore}
+          disabled={!isNcryptsec(backup) || !password || isRestoring}
+          className="flex-1 bg-blue-600 text-white font-semibold py-3 px-4 rounded-xl hover:bg-blue-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {isRestoring ? 'Restoring...' : 'Restore my identity'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -30,7 +30,9 @@ const PAGE_TITLES: Record<string, string> = {
   '/onboarding': 'Welcome',
   '/onboard': 'Onboard a Villager',
   '/directory': 'Directory',
+  '/link': 'Link a Device',
   '/post': 'Post a Message',
+  '/pos': 'Point of Sale',
 };
 
 // Get title for dynamic routes
@@ -56,6 +58,9 @@ function getPageTitle(pathname: string): string {
   if (pathname.startsWith('/rooms/')) {
     return 'Room Details';
   }
+  if (pathname.startsWith('/pay/')) {
+    return 'Payment Request';
+  }
 
   // Default to site name
   return 'Open Source Village';
@@ -8,6 +8,7 @@
  * - Balance displayed to the left of avatar
  * - Only shown when user is logged in (has credentials in localStorage)
  * - Subscribes to payment receipt events (kind 1735) to auto-refresh balance
+ * - Signs out devices linked with the QR handoff once they have been forgotten
  *
  * Usage: Include in layout.tsx for global display
  */
@@ -15,7 +16,9 @@
 import { useEffect, useState, useRef, useMemo } from 'react';
 import Link from 'next/link';
 import { Avatar } from './Avatar';
-import { getStoredCredentials } from '@/lib/nostr';
+import { clearCredentials, getStoredCredentials } from '@/lib/nostr';
+import { forgetSigner } from '@/lib/signer';
+import { clearLinkedDeviceId, getLinkedDeviceId } from '@/lib/device-link';
 import { useTokenBalance } from '@/hooks/useTokenBalance';
 import { useNostrEvents } from '@/hooks/useNostrEvents';
 import { NOSTR_KINDS } from '@/lib/nostr-events';
@@ -82,6 +85,24 @@ export default function UserHeader() {
           // Silently fail - will use default dicebear avatar
         });
     }
+
+    const deviceId = getLinkedDeviceId();
+    if (creds && deviceId) {
+      fetch(`/api/devices/${deviceId}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.success && data.forgotten) {
+            console.log('[UserHeader] This device has been forgotten, signing out');
+            forgetSigner();
+            clearCredentials();
+            clearLinkedDeviceId();
+            window.location.href = '/';
+          }
+        })
+        .catch(() => {
+          // Offline - check again next time
+        });
+    }
   }, [mounted]);
 
   // Listen for storage changes (e.g., login in another tab)
@@ -0,0 +1,131 @@
+/**
+ * useInvites Hook
+ *
+ * The logged-in villager's invite codes and quota (see lib/invites.ts).
+ * New codes are requested from the relay (kind 28935) and registered with
+ * the server, so they can be listed and revoked.
+ *
+ * @example
+ * ```tsx
+ * const { invites, usage, shareableCode, createInvite, revokeInvite } = useInvites(isOwnProfile);
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { requestInviteCode } from '@/lib/nostr';
+import { requireActiveSigner } from '@/lib/signer';
+import type { Invite, InviteUsage } from '@/lib/invites';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
+
+interface UseInvitesReturn {
+  invites: Invite[];
+  usage: InviteUsage | null;
+  shareableCode: string | null; // Newest active code
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createInvite: () => Promise<string | null>;
+  registerInvite: (code: string) => Promise<{ success: boolean; error?: string }>;
+  revokeInvite: (code: string) => Promise<void>;
+}
+
+export function useInvites(enabled: boolean): UseInvitesReturn {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [usage, setUsage] = useState<InviteUsage | null>(null);
+  const [loading, setLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  const { signedFetch } = useNostrPublisher();
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+
+    try {
+      const response = await signedFetch('/api/invites');
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load invitation codes');
+      }
+
+      setInvites(data.invites);
+      setUsage(data.usage);
+    } catch (err) {
+      console.error('[Invites] Failed to load invitation codes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invitation codes');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, signedFetch]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const registerInvite = useCallback(async (code: string) => {
+    try {
+      const response = await signedFetch('/api/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        return { success: false, error: data.error || 'Failed to register the invitation code' };
+      }
+
+      await refresh();
+      return { success: true };
+    } catch (err) {
+      console.error('[Invites] Failed to register invitation code:', err);
+      return { success: false, error: 'Failed to register the invitation code' };
+    }
+  }, [refresh, signedFetch]);
+
+  const createInvite = useCallback(async (): Promise<string | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const signer = await requireActiveSigner();
+      const result = await requestInviteCode(signer);
+      if (!result.success || !result.inviteCode) {
+        throw new Error(result.error || 'Failed to get an invitation code');
+      }
+
+      const registered = await registerInvite(result.inviteCode);
+      if (!registered.success) {
+        throw new Error(registered.error);
+      }
+      return result.inviteCode;
+    } catch (err) {
+      console.error('[Invites] Failed to create invitation code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create invitation code');
+      setLoading(false);
+      return null;
+    }
+  }, [registerInvite]);
+
+  const revokeInvite = useCallback(async (code: string) => {
+    setError(null);
+
+    try {
+      const response = await signedFetch(`/api/invites/${code}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to revoke invitation code');
+      }
+
+      await refresh();
+    } catch (err) {
+      console.error('[Invites] Failed to revoke invitation code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation code');
+    }
+  }, [refresh, signedFetch]);
+
+  const shareableCode = invites.find((invite) => invite.status === 'active')?.code || null;
+
+  return { invites, usage, shareableCode, loading, error, refresh, createInvite, registerInvite, revokeInvite };
+}
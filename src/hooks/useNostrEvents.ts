@@ -28,6 +28,8 @@ interface UseNostrEventsOptions {
   authorPubkey?: string;
   /** Subscribe to events mentioning this pubkey in p tags */
   mentionedPubkey?: string;
+  /** Subscribe to payment events sent by this pubkey (P tags) */
+  senderPubkey?: string;
   /** Filter by specific event kinds */
   kinds?: number[];
   /** Maximum number of events to keep */
@@ -78,6 +80,7 @@ export function useNostrEvents(options: UseNostrEventsOptions): UseNostrEventsRe
   const {
     authorPubkey,
     mentionedPubkey,
+    senderPubkey,
     kinds,
     limit = 50,
     autoConnect = true,
@@ -96,6 +99,7 @@ export function useNostrEvents(options: UseNostrEventsOptions): UseNostrEventsRe
   // Convert pubkeys to hex if needed
   const authorHex = authorPubkey ? npubToHex(authorPubkey) : undefined;
   const mentionedHex = mentionedPubkey ? npubToHex(mentionedPubkey) : undefined;
+  const senderHex = senderPubkey ? npubToHex(senderPubkey) : undefined;
 
   const connect = useCallback(async () => {
     const relayUrl = getPrimaryRelayUrl();
@@ -139,6 +143,14 @@ export function useNostrEvents(options: UseNostrEventsOptions): UseNostrEventsRe
         }
         filters.push(mentionedFilter);
       }
+
+      if (senderHex) {
+        const senderFilter: NostrFilter = { '#P': [senderHex], limit };
+        if (kinds && kinds.length > 0) {
+          senderFilter.kinds = kinds;
+        }
+        filters.push(senderFilter);
+      }
     }
 
     if (filters.length === 0) {
@@ -181,7 +193,7 @@ export function useNostrEvents(options: UseNostrEventsOptions): UseNostrEventsRe
       setError('Failed to subscribe');
       setIsLoading(false);
     }
-  }, [authorHex, mentionedHex, kinds, limit, subscribeAll]);
+  }, [authorHex, mentionedHex, senderHex, kinds, limit, subscribeAll]);
 
   const disconnect = useCallback(() => {
     if (subscriptionIdRef.current && relayUrlRef.current) {
@@ -193,14 +205,14 @@ export function useNostrEvents(options: UseNostrEventsOptions): UseNostrEventsRe
 
   // Auto-connect on mount if enabled
   useEffect(() => {
-    if (autoConnect && (authorPubkey || mentionedPubkey || subscribeAll)) {
+    if (autoConnect && (authorPubkey || mentionedPubkey || senderPubkey || subscribeAll)) {
       connect();
     }
 
     return () => {
       disconnect();
     };
-  }, [autoConnect, authorPubkey, mentionedPubkey, subscribeAll, connect, disconnect]);
+  }, [autoConnect, authorPubkey, mentionedPubkey, senderPubkey, subscribeAll, connect, disconnect]);
 
   return {
     events,
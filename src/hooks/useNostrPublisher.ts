@@ -1,30 +1,36 @@
 /**
  * Client-side hook for publishing NOSTR events
- * Handles event creation, signing, and publishing to relays
+ * Handles event creation, signing (through the active Signer), and publishing to relays
  */
 
 'use client';
 
 import { useState, useCallback } from 'react';
 import {
-  createProfileEvent,
-  createRelayListEvent,
-  createContactListEvent,
-  createOfferEvent,
-  createRSVPEvent,
-  createRSVPCancellationEvent,
-  createPaymentRequestEvent,
-  createNoteEvent,
-  createReactionEvent,
-  getStoredSecretKey,
-  decodeNsec,
+  buildProfileEvent,
+  buildRelayListEvent,
+  buildContactListEvent,
+  buildOfferEvent,
+  buildRSVPEvent,
+  buildRSVPCancellationEvent,
+  buildPaymentRequestEvent,
+  buildInvoiceEvent,
+  parseInvoiceEvent,
+  buildNoteEvent,
+  buildReactionEvent,
+  buildHttpAuthEvent,
+  encodeHttpAuthHeader,
   npubToHex,
   type OfferEventOptions,
   type PaymentRequestOptions,
+  type PaymentSplit,
+  type NostrEvent,
   type NoteEventOptions,
   type ReactionEventOptions,
 } from '@/lib/nostr-events';
 import { publishToAllRelays, getRelayUrls } from '@/lib/nostr';
+import { requireActiveSigner } from '@/lib/signer';
+import { isInvoiceExpired } from '@/lib/invoices';
 
 /**
  * Options for publishing a payment request
@@ -37,18 +43,37 @@ export interface PaymentRequestInput {
   /** Amount in tokens */
   amount: number;
   /** Context of the payment */
-  context: 'rsvp' | 'tip' | 'transfer' | 'offer_creation' | 'workshop_proposal' | 'booking';
+  context: 'rsvp' | 'tip' | 'transfer' | 'offer_creation' | 'workshop_proposal' | 'booking' | 'invoice';
   /** Related event ID (e.g., offer ID for RSVP) */
   relatedEventId?: string;
   /** Human-readable description */
   description?: string;
   /** Method: transfer tokens between users, or burn for workshop proposals */
   method?: 'transfer' | 'burn';
+  /** Set when paying one author's share of an RSVP reward */
+  split?: PaymentSplit;
+}
+
+/**
+ * Options for requesting tokens from a villager
+ */
+export interface InvoiceInput {
+  /** Requester's npub (current user) */
+  requester: string;
+  /** Payer's npub, omit for a request shown as a QR code */
+  payer?: string;
+  /** Amount in tokens */
+  amount: number;
+  /** Memo shown to the payer */
+  description?: string;
+  /** Unix timestamp after which the request can't be paid */
+  expiresAt?: number;
 }
 
 interface PublishResult {
   success: boolean;
   eventId?: string;
+  event?: NostrEvent; // The signed event, for callers that act on it right away
   error?: string;
   published?: string[];
   failed?: Array<{ url: string; error: string }>;
@@ -72,24 +97,18 @@ export function useNostrPublisher() {
     setLastError(null);
 
     try {
-      // Get stored secret key
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      // Decode nsec to secret key
-      const secretKey = decodeNsec(nsec);
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
 
       // Get configured relays to include in profile
       const relays = getRelayUrls();
 
       // Create and sign profile event (including relays)
-      const event = createProfileEvent(secretKey, { ...profile, relays });
+      const event = await signer.signEvent(buildProfileEvent({ ...profile, relays }));
       console.log('[useNostrPublisher] Profile event created:', event.id);
 
-      // Publish to relays (pass secretKey for AUTH handling)
-      const result = await publishToAllRelays(event, secretKey);
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -103,10 +122,10 @@ export function useNostrPublisher() {
 
       if (!hasPublishedRelayList && relays.length > 0) {
         try {
-          const relayListEvent = createRelayListEvent(secretKey, relays);
+          const relayListEvent = await signer.signEvent(buildRelayListEvent(relays));
           console.log('[useNostrPublisher] Publishing NIP-65 relay list event:', relayListEvent.id);
 
-          const relayListResult = await publishToAllRelays(relayListEvent, secretKey);
+          const relayListResult = await publishToAllRelays(relayListEvent, signer);
 
           if (relayListResult.successful.length > 0) {
             console.log('[useNostrPublisher] ✓ Relay list event published successfully');
@@ -139,10 +158,10 @@ export function useNostrPublisher() {
             }));
 
           if (contacts.length > 0) {
-            const contactListEvent = createContactListEvent(secretKey, contacts);
+            const contactListEvent = await signer.signEvent(buildContactListEvent(contacts));
             console.log('[useNostrPublisher] Publishing NIP-02 contact list event:', contactListEvent.id);
 
-            const contactListResult = await publishToAllRelays(contactListEvent, secretKey);
+            const contactListResult = await publishToAllRelays(contactListEvent, signer);
 
             if (contactListResult.successful.length > 0) {
               console.log('[useNostrPublisher] ✓ Contact list event published successfully');
@@ -184,21 +203,15 @@ export function useNostrPublisher() {
     setLastError(null);
 
     try {
-      // Get stored secret key
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      // Decode nsec to secret key
-      const secretKey = decodeNsec(nsec);
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
 
       // Create and sign offer event
-      const event = createOfferEvent(secretKey, offer);
+      const event = await signer.signEvent(buildOfferEvent(offer));
       console.log('[useNostrPublisher] Offer event created:', event.id);
 
-      // Publish to relays (pass secretKey for AUTH handling)
-      const result = await publishToAllRelays(event, secretKey);
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -236,21 +249,15 @@ export function useNostrPublisher() {
     setLastError(null);
 
     try {
-      // Get stored secret key
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      // Decode nsec to secret key
-      const secretKey = decodeNsec(nsec);
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
 
       // Create and sign RSVP event
-      const event = createRSVPEvent(secretKey, offerEventId, author);
+      const event = await signer.signEvent(buildRSVPEvent(offerEventId, author));
       console.log('[useNostrPublisher] RSVP event created:', event.id);
 
-      // Publish to relays (pass secretKey for AUTH handling)
-      const result = await publishToAllRelays(event, secretKey);
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -285,21 +292,15 @@ export function useNostrPublisher() {
     setLastError(null);
 
     try {
-      // Get stored secret key
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      // Decode nsec to secret key
-      const secretKey = decodeNsec(nsec);
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
 
       // Create and sign cancellation event
-      const event = createRSVPCancellationEvent(secretKey, rsvpEventId);
+      const event = await signer.signEvent(buildRSVPCancellationEvent(rsvpEventId));
       console.log('[useNostrPublisher] RSVP cancellation event created:', event.id);
 
-      // Publish to relays (pass secretKey for AUTH handling)
-      const result = await publishToAllRelays(event, secretKey);
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -337,14 +338,8 @@ export function useNostrPublisher() {
     setLastError(null);
 
     try {
-      // Get stored secret key
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      // Decode nsec to secret key
-      const secretKey = decodeNsec(nsec);
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
 
       // Fetch token info
       const tokenResponse = await fetch('/api/token/info');
@@ -400,14 +395,15 @@ export function useNostrPublisher() {
         relatedEventId: input.relatedEventId,
         description: input.description,
         method,
+        split: input.split,
       };
 
       // Create and sign payment request event
-      const event = createPaymentRequestEvent(secretKey, paymentOptions);
+      const event = await signer.signEvent(buildPaymentRequestEvent(paymentOptions));
       console.log('[useNostrPublisher] Payment request event created:', event.id);
 
-      // Publish to relays (pass secretKey for AUTH handling)
-      const result = await publishToAllRelays(event, secretKey);
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -433,6 +429,109 @@ export function useNostrPublisher() {
     }
   }, []);
 
+  /**
+   * Publish an invoice event (kind 1737) requesting tokens from a villager
+   * The payer sees it in their notifications and pays it with payInvoice()
+   */
+  const publishInvoice = useCallback(async (
+    input: InvoiceInput
+  ): Promise<PublishResult> => {
+    console.log('[useNostrPublisher] Publishing invoice event...');
+    setIsPublishing(true);
+    setLastError(null);
+
+    try {
+      // Get the signer (local key, extension or remote signer)
+      const signer = await requireActiveSigner();
+
+      // Fetch token info and the wallet address the payment goes to
+      const [tokenResponse, walletResponse] = await Promise.all([
+        fetch('/api/token/info'),
+        fetch(`/api/wallet/address/${input.requester}`),
+      ]);
+      const tokenData = await tokenResponse.json();
+      const walletData = await walletResponse.json();
+
+      if (!tokenData.success || !tokenData.token) {
+        throw new Error('Token not deployed. Please contact an administrator.');
+      }
+      if (!walletData.success) {
+        throw new Error(`Failed to get wallet address: ${walletData.error}`);
+      }
+
+      const event = await signer.signEvent(buildInvoiceEvent({
+        requester: input.requester,
+        requesterAddress: walletData.walletAddress,
+        payer: input.payer,
+        amount: input.amount,
+        tokenAddress: tokenData.token.address,
+        chainId: tokenData.token.chainId,
+        tokenSymbol: tokenData.token.symbol,
+        description: input.description,
+        expiresAt: input.expiresAt,
+      }));
+      console.log('[useNostrPublisher] Invoice event created:', event.id);
+
+      // Publish to relays (pass signer for AUTH handling)
+      const result = await publishToAllRelays(event, signer);
+
+      if (result.successful.length === 0) {
+        throw new Error('Failed to publish to any relay');
+      }
+
+      console.log('[useNostrPublisher] ✓ Invoice event published successfully');
+      return {
+        success: true,
+        eventId: event.id,
+        event,
+        published: result.successful,
+        failed: result.failed,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[useNostrPublisher] ✗ Failed to publish invoice:', errorMsg);
+      setLastError(errorMsg);
+      return {
+        success: false,
+        error: errorMsg,
+      };
+    } finally {
+      setIsPublishing(false);
+    }
+  }, []);
+
+  /**
+   * Pay an invoice (kind 1737): signs a transfer to the requester that
+   * references the invoice, so its receipt marks the invoice as paid
+   */
+  const payInvoice = useCallback(async (
+    invoiceEvent: NostrEvent,
+    payer: string
+  ): Promise<PublishResult> => {
+    const invoice = parseInvoiceEvent(invoiceEvent);
+    if (!invoice) {
+      return { success: false, error: 'Invalid payment request' };
+    }
+    if (invoice.payer && invoice.payer !== payer) {
+      return { success: false, error: 'This payment request is addressed to someone else' };
+    }
+    if (invoice.requester === payer) {
+      return { success: false, error: "You can't pay your own payment request" };
+    }
+    if (isInvoiceExpired(invoice)) {
+      return { success: false, error: 'This payment request has expired' };
+    }
+
+    return publishPaymentRequest({
+      recipient: invoice.requester,
+      sender: payer,
+      amount: invoice.amount,
+      context: 'invoice',
+      relatedEventId: invoiceEvent.id,
+      description: invoice.description,
+    });
+  }, [publishPaymentRequest]);
+
   /**
    * Publish a human-readable note (kind 1)
    * Used for activity that regular Nostr clients can display
@@ -443,16 +542,11 @@ export function useNostrPublisher() {
     console.log('[useNostrPublisher] Publishing note event...');
 
     try {
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      const secretKey = decodeNsec(nsec);
-      const event = createNoteEvent(secretKey, options);
+      const signer = await requireActiveSigner();
+      const event = await signer.signEvent(buildNoteEvent(options));
       console.log('[useNostrPublisher] Note event created:', event.id);
 
-      const result = await publishToAllRelays(event, secretKey);
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -485,16 +579,11 @@ export function useNostrPublisher() {
     console.log('[useNostrPublisher] Publishing reaction event...');
 
     try {
-      const nsec = getStoredSecretKey();
-      if (!nsec) {
-        throw new Error('No secret key found. Please log in again.');
-      }
-
-      const secretKey = decodeNsec(nsec);
-      const event = createReactionEvent(secretKey, options);
+      const signer = await requireActiveSigner();
+      const event = await signer.signEvent(buildReactionEvent(options));
       console.log('[useNostrPublisher] Reaction event created:', event.id);
 
-      const result = await publishToAllRelays(event, secretKey);
+      const result = await publishToAllRelays(event, signer);
 
       if (result.successful.length === 0) {
         throw new Error('Failed to publish to any relay');
@@ -517,14 +606,36 @@ export function useNostrPublisher() {
     }
   }, []);
 
+  /**
+   * fetch() with a NIP-98 Authorization header signed by the active signer
+   * Mutating API routes identify the caller from this signature
+   */
+  const signedFetch = useCallback(async (
+    input: string,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const signer = await requireActiveSigner();
+    const url = new URL(input, window.location.origin).toString();
+    const body = typeof init.body === 'string' ? init.body : undefined;
+
+    const headers = new Headers(init.headers);
+    const authEvent = await signer.signEvent(await buildHttpAuthEvent(url, init.method || 'GET', body));
+    headers.set('Authorization', encodeHttpAuthHeader(authEvent));
+
+    return fetch(input, { ...init, headers });
+  }, []);
+
   return {
     publishProfile,
     publishOffer,
     publishRSVP,
     cancelRSVP,
     publishPaymentRequest,
+    publishInvoice,
+    payInvoice,
     publishNote,
     publishReaction,
+    signedFetch,
     isPublishing,
     lastError,
   };
@@ -16,6 +16,7 @@ import {
   NotificationStats,
   NotificationType,
 } from '@/lib/notifications';
+import { useNostrPublisher } from '@/hooks/useNostrPublisher';
 
 interface UseNotificationsOptions {
   type?: NotificationType;
@@ -41,6 +42,7 @@ export function useNotifications(
   const [stats, setStats] = useState<NotificationStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { signedFetch } = useNostrPublisher();
 
   const { type, unreadOnly, autoRefresh } = options;
 
@@ -111,7 +113,7 @@ export function useNotifications(
       if (!npub) return;
 
       try {
-        const response = await fetch(`/api/notifications/${npub}`, {
+        const response = await signedFetch(`/api/notifications/${npub}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -135,7 +137,7 @@ export function useNotifications(
         console.error('Failed to mark notification as read:', err);
       }
     },
-    [npub, loadNotifications]
+    [npub, loadNotifications, signedFetch]
   );
 
   // Mark all as read
@@ -143,7 +145,7 @@ export function useNotifications(
     if (!npub) return;
 
     try {
-      const response = await fetch(`/api/notifications/${npub}`, {
+      const response = await signedFetch(`/api/notifications/${npub}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -163,7 +165,7 @@ export function useNotifications(
     } catch (err) {
       console.error('Failed to mark all as read:', err);
     }
-  }, [npub, loadNotifications]);
+  }, [npub, loadNotifications, signedFetch]);
 
   return {
     notifications,
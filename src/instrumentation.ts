@@ -3,7 +3,7 @@
  * Runs once when the server starts
  *
  * Validates critical service connections:
- * - Blockchain RPC (based on CHAIN env var)
+ * - Blockchain RPC (based on CHAIN env var, skipped for the in-memory token: CHAIN=memory)
  * - At least one Nostr relay
  */
 
@@ -80,35 +80,39 @@ export async function register() {
     // ─────────────────────────────────────────────────────────────────
     // CRITICAL CHECK 1: Blockchain RPC Connectivity
     // ─────────────────────────────────────────────────────────────────
-    console.log(`[RPC] Testing connection to ${chainConfig.name} (${chain})...`);
-    console.log(`[RPC] URL: ${chainConfig.rpc}`);
-
-    const rpcResult = await testRpcConnection(chainConfig.rpc);
-
-    if (!rpcResult.success) {
-      const suggestions = chain === 'localhost'
-        ? [
-            'Start a local blockchain node (e.g., Anvil, Hardhat, or Ganache)',
-            'Run: anvil (if using Foundry)',
-            'Run: npx hardhat node (if using Hardhat)',
-            'Or change CHAIN to a public network: CHAIN=gnosis or CHAIN=base',
-          ]
-        : [
-            `Check if ${chainConfig.name} RPC is available: ${chainConfig.rpc}`,
-            'Try a different RPC endpoint for this chain',
-            'Check your internet connection',
-            'The public RPC might be rate-limited - try again later',
-          ];
+    if (chain === 'memory') {
+      console.log('[RPC] Using the in-memory token (CHAIN=memory), no RPC to test\n');
+    } else {
+      console.log(`[RPC] Testing connection to ${chainConfig.name} (${chain})...`);
+      console.log(`[RPC] URL: ${chainConfig.rpc}`);
+
+      const rpcResult = await testRpcConnection(chainConfig.rpc);
+
+      if (!rpcResult.success) {
+        const suggestions = chain === 'localhost'
+          ? [
+              'Start a local blockchain node (e.g., Anvil, Hardhat, or Ganache)',
+              'Run: anvil (if using Foundry)',
+              'Run: npx hardhat node (if using Hardhat)',
+              'Or change CHAIN to a public network: CHAIN=gnosis or CHAIN=base',
+            ]
+          : [
+              `Check if ${chainConfig.name} RPC is available: ${chainConfig.rpc}`,
+              'Try a different RPC endpoint for this chain',
+              'Check your internet connection',
+              'The public RPC might be rate-limited - try again later',
+            ];
+
+        exitWithError(
+          `Blockchain RPC (${chainConfig.name})`,
+          `Error: ${rpcResult.error}`,
+          suggestions
+        );
+      }
 
-      exitWithError(
-        `Blockchain RPC (${chainConfig.name})`,
-        `Error: ${rpcResult.error}`,
-        suggestions
-      );
+      console.log(`[RPC] ✓ Connected to ${chainConfig.name} (chainId: ${rpcResult.chainId})\n`);
     }
 
-    console.log(`[RPC] ✓ Connected to ${chainConfig.name} (chainId: ${rpcResult.chainId})\n`);
-
     // ─────────────────────────────────────────────────────────────────
     // CRITICAL CHECK 2: Nostr Relay Connectivity
     // ─────────────────────────────────────────────────────────────────
@@ -0,0 +1,248 @@
+/**
+ * Tests for the admin role and moderation actions
+ *
+ * - Admin routes require a signed request from an admin
+ * - Hiding offers, suspending users (under the profile lock), reassigning badges
+ * - Every action, including failed ones, lands in the audit log
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { createHttpAuthHeader } from '../nostr-events';
+import { clearSeenAuthEvents, withNostrAuth } from '../nip98-auth';
+import {
+  AdminActionError,
+  getAdmins,
+  isAdmin,
+  readAuditLog,
+  reassignBadge,
+  setInviteQuota,
+  setOfferHidden,
+  suspendUser,
+  unsuspendUser,
+  withAdminAuth,
+} from '../admin';
+import { getProfileLockResource, getStorageBackend } from '../storage-backend';
+import { withLock } from '../file-lock';
+import { addUserToAllRelays, removeUserFromAllRelays } from '../nip86-client';
+import { POST as checkDataPost } from '@/app/api/admin/check-data/route';
+import type { Offer, StorageProfile } from '@/types';
+
+jest.mock('../nip86-client', () => ({
+  addUserToAllRelays: jest.fn().mockResolvedValue({ successful: [], failed: [] }),
+  removeUserFromAllRelays: jest.fn().mockResolvedValue({ successful: [], failed: [] }),
+}));
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-admin');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const ADMIN = 'npub1admin';
+const ALICE = 'npub1alice';
+const BOB = 'npub1bob';
+const CAROL = 'npub1carol';
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: [ALICE],
+    tags: [],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'tentative',
+    publicationCost: 1,
+    rewardPerAttendee: 1,
+    ...overrides,
+  };
+}
+
+async function signedRequest(secretKey: Uint8Array, url: string, method: string): Promise<NextRequest> {
+  const authorization = await createHttpAuthHeader(secretKey, url, method);
+  return new NextRequest(url, { method, headers: { Authorization: authorization } });
+}
+
+describe('Admin', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    clearSeenAuthEvents();
+    jest.clearAllMocks();
+
+    const storage = getStorageBackend();
+    for (const serial of ['0001', '0002', '0003']) {
+      await storage.setupBadge(serial);
+    }
+    await storage.createProfile('0001', 'alice', ALICE);
+    await storage.createProfile('0002', 'bob', BOB);
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('access', () => {
+    it('should read admins from settings.json', () => {
+      expect(Array.isArray(getAdmins())).toBe(true);
+      expect(isAdmin(ADMIN, [ADMIN])).toBe(true);
+      expect(isAdmin(ALICE, [ADMIN])).toBe(false);
+    });
+
+    it('should answer 401 unsigned and 403 for non-admins', async () => {
+      const handler = withAdminAuth(async () => NextResponse.json({ success: true }));
+
+      const unsigned = await handler(new NextRequest('http://localhost:3000/api/admin/users'), {});
+      const signed = await handler(
+        await signedRequest(generateSecretKey(), 'http://localhost:3000/api/admin/users', 'GET'),
+        {}
+      );
+
+      expect(unsigned.status).toBe(401);
+      expect(signed.status).toBe(403);
+      expect(await signed.json()).toEqual({ success: false, error: 'Forbidden: admin access required' });
+    });
+
+    it('should not trust localhost headers for data repairs', async () => {
+      const url = 'http://localhost:3000/api/admin/check-data';
+      const headers = { host: 'localhost:3000', 'x-forwarded-host': 'localhost:3000', 'Content-Type': 'application/json' };
+      const body = JSON.stringify({ fix: true });
+      const authorization = await createHttpAuthHeader(generateSecretKey(), url, 'POST', body);
+
+      const unsigned = await checkDataPost(new NextRequest(url, { method: 'POST', headers, body }), {});
+      const nonAdmin = await checkDataPost(
+        new NextRequest(url, { method: 'POST', headers: { ...headers, Authorization: authorization }, body }),
+        {}
+      );
+
+      expect(unsigned.status).toBe(401);
+      expect(nonAdmin.status).toBe(403);
+    });
+
+    it('should refuse signed requests from suspended users', async () => {
+      const secretKey = generateSecretKey();
+      const npub = nip19.npubEncode(getPublicKey(secretKey));
+      await getStorageBackend().createProfile('0003', 'carol', npub);
+      await suspendUser(ADMIN, npub, 'spam');
+      const handler = withNostrAuth(async () => NextResponse.json({ success: true }));
+
+      const response = await handler(await signedRequest(secretKey, 'http://localhost:3000/api/rsvp', 'DELETE'), {});
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ success: false, error: 'Forbidden: account suspended' });
+    });
+  });
+
+  describe('offers', () => {
+    it('should hide and unhide an offer', async () => {
+      await getStorageBackend().saveOffer(makeOffer());
+
+      await setOfferHidden(ADMIN, 'offer-1', true);
+      expect((await getStorageBackend().getOffer('offer-1'))?.hidden).toBe(true);
+
+      await setOfferHidden(ADMIN, 'offer-1', false);
+      expect((await getStorageBackend().getOffer('offer-1'))?.hidden).toBe(false);
+
+      expect((await readAuditLog()).map((e) => e.action)).toEqual(['offer.unhide', 'offer.hide']);
+    });
+
+    it('should record failed actions', async () => {
+      await expect(setOfferHidden(ADMIN, 'missing', true)).rejects.toThrow(AdminActionError);
+
+      const [entry] = await readAuditLog();
+      expect(entry).toMatchObject({
+        admin: ADMIN,
+        action: 'offer.hide',
+        target: 'missing',
+        result: 'failure',
+        error: 'Offer not found',
+      });
+    });
+  });
+
+  describe('users', () => {
+    it('should suspend a user and remove them from the relays', async () => {
+      await suspendUser(ADMIN, ALICE, 'spam');
+
+      const profile = await getStorageBackend().getProfileByNpub(ALICE);
+      expect(profile?.suspended).toMatchObject({ by: ADMIN, reason: 'spam' });
+      expect(removeUserFromAllRelays).toHaveBeenCalledWith(ALICE);
+      expect((await readAuditLog())[0]).toMatchObject({ action: 'user.suspend', details: { reason: 'spam' } });
+    });
+
+    it('should not lose a suspension to a concurrent profile update', async () => {
+      const storage = getStorageBackend();
+      // Like an RSVP: reads the profile, then saves it under the profile lock
+      const rsvp = withLock(getProfileLockResource(ALICE), async () => {
+        const profile = (await storage.getProfileByNpub(ALICE))!;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await storage.saveProfile({ ...profile, balance: { ...profile.balance, confirmed: 1 } });
+      });
+
+      await Promise.all([rsvp, suspendUser(ADMIN, ALICE), setInviteQuota(ADMIN, ALICE, 3)]);
+
+      expect(await storage.getProfileByNpub(ALICE)).toMatchObject({
+        suspended: { by: ADMIN },
+        inviteQuota: 3,
+        balance: { confirmed: 1 },
+      });
+    });
+
+    it('should lift a suspension and add the user back to the relays', async () => {
+      await suspendUser(ADMIN, ALICE);
+      await unsuspendUser(ADMIN, ALICE);
+
+      expect((await getStorageBackend().getProfileByNpub(ALICE))?.suspended).toBeUndefined();
+      expect(addUserToAllRelays).toHaveBeenCalledWith(ALICE);
+    });
+  });
+
+  describe('badges', () => {
+    it('should move a user to an unclaimed badge and release the old one', async () => {
+      await reassignBadge(ADMIN, '0003', ALICE);
+
+      const storage = getStorageBackend();
+      expect((await storage.getProfileBySerialNumber('0003'))?.npub).toBe(ALICE);
+      expect((await storage.getProfileByNpub(ALICE))?.serialNumber).toBe('0003');
+      expect(await storage.isBadgeClaimed('0001')).toBe(false);
+    });
+
+    it('should swap badges with the current holder', async () => {
+      await reassignBadge(ADMIN, '0002', ALICE);
+
+      const storage = getStorageBackend();
+      expect((await storage.getProfileBySerialNumber('0002'))?.npub).toBe(ALICE);
+      expect((await storage.getProfileBySerialNumber('0001'))?.npub).toBe(BOB);
+      expect((await storage.getProfileByNpub(BOB))?.serialNumber).toBe('0001');
+    });
+
+    it('should move a badge onto a user without one', async () => {
+      const storage = getStorageBackend();
+      const { serialNumber: _serial, ...alice } = (await storage.getProfileByNpub(ALICE))!;
+      await storage.saveProfile({ ...alice, npub: CAROL, username: 'carol' } as StorageProfile);
+
+      await reassignBadge(ADMIN, '0002', CAROL);
+
+      expect((await storage.getProfileBySerialNumber('0002'))?.npub).toBe(CAROL);
+      expect((await storage.getProfileByNpub(CAROL))?.serialNumber).toBe('0002');
+      expect((await storage.getProfileBySerialNumber('0001'))?.npub).toBe(ALICE);
+      expect(await storage.isBadgeClaimed('undefined')).toBe(false);
+    });
+
+    it('should refuse badges that are not set up', async () => {
+      await expect(reassignBadge(ADMIN, '9999', ALICE)).rejects.toThrow('Badge is not set up');
+      expect((await getStorageBackend().getProfileByNpub(ALICE))?.serialNumber).toBe('0001');
+    });
+  });
+
+  it('should return the newest audit entries first', async () => {
+    await suspendUser(ADMIN, ALICE);
+    await suspendUser(ADMIN, BOB);
+
+    expect((await readAuditLog(1)).map((e) => e.target)).toEqual([BOB]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for snapshot backups and restores of DATA_DIR
+ *
+ * - Full backups: checksum manifest, symlinks, derived files left out
+ * - Incremental backups: only changed files stored, restore across the chain
+ * - Restore verification
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  createBackup,
+  listBackups,
+  readBackupManifest,
+  restoreBackup,
+  verifyBackup,
+  verifyDirectory,
+} from '../backup';
+import { createStorageBackend } from '../storage-backend';
+
+const TEST_ROOT = path.join(process.cwd(), 'data-test-backup');
+const DATA_DIR = path.join(TEST_ROOT, 'data');
+const BACKUP_DIR = path.join(TEST_ROOT, 'backups');
+const RESTORE_DIR = path.join(TEST_ROOT, 'restored');
+
+const NPUB = 'npub1alice';
+
+async function write(relPath: string, content: string): Promise<void> {
+  const filePath = path.join(DATA_DIR, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+async function read(dir: string, relPath: string): Promise<string> {
+  return fs.readFile(path.join(dir, relPath), 'utf-8');
+}
+
+/**
+ * A small village: a claimed badge, an offer and the event log
+ */
+async function seedVillage(): Promise<void> {
+  await write(`npubs/${NPUB}/profile.json`, JSON.stringify({ npub: NPUB, username: 'alice' }));
+  await write('offers/offer-1.json', JSON.stringify({ id: 'offer-1', title: 'Intro to Nostr' }));
+  await write('badges/whitelist.txt', '0001\n');
+  await write('nostr_events.jsonl', '{"event":{"id":"1"}}\n{"event":{"id":"2"}}\n{"event":{"id"');
+  await write('nostr_events.index.json', '{}');
+  await write('.locks/offer_offer-1.lock', '{"pid":1}');
+
+  await fs.mkdir(path.join(DATA_DIR, 'usernames'), { recursive: true });
+  await fs.symlink(`../npubs/${NPUB}`, path.join(DATA_DIR, 'usernames', 'alice'));
+  await fs.symlink(`../npubs/${NPUB}`, path.join(DATA_DIR, 'badges', '0001'));
+}
+
+describe('Backup', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    process.env.DATA_DIR = DATA_DIR;
+    process.env.BACKUP_DIR = BACKUP_DIR;
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+    delete process.env.BACKUP_DIR;
+  });
+
+  describe('full backups', () => {
+    it('should write a manifest with checksums and restore it', async () => {
+      await seedVillage();
+
+      const result = await createBackup({ now: new Date('2026-01-28T01:00:00.000Z') });
+
+      expect(path.basename(result.archivePath)).toBe('osv-20260128-010000-000-full.tar.gz');
+      expect(await listBackups()).toEqual([result.archivePath]);
+
+      const manifest = await readBackupManifest(result.archivePath);
+      const offer = manifest.entries.find((e) => e.path === 'offers/offer-1.json');
+      expect(offer).toMatchObject({ type: 'file', sha256: expect.stringMatching(/^[0-9a-f]{64}$/) });
+      expect(manifest.entries.find((e) => e.path === 'usernames/alice')).toEqual({
+        path: 'usernames/alice',
+        type: 'symlink',
+        target: `../npubs/${NPUB}`,
+      });
+
+      const restore = await restoreBackup(result.archivePath, RESTORE_DIR);
+
+      expect(restore.problems).toEqual([]);
+      expect(await read(RESTORE_DIR, 'offers/offer-1.json')).toContain('Intro to Nostr');
+      expect(await fs.readlink(path.join(RESTORE_DIR, 'badges', '0001'))).toBe(`../npubs/${NPUB}`);
+      expect(JSON.parse(await read(RESTORE_DIR, 'usernames/alice/profile.json')).username).toBe('alice');
+    });
+
+    it('should leave out derived files and incomplete log lines', async () => {
+      await seedVillage();
+
+      const { manifest, archivePath } = await createBackup();
+      const paths = manifest.entries.map((e) => e.path);
+
+      expect(paths).not.toContain('nostr_events.index.json');
+      expect(paths.some((p) => p.startsWith('.locks'))).toBe(false);
+
+      await restoreBackup(archivePath, RESTORE_DIR);
+      expect(await read(RESTORE_DIR, 'nostr_events.jsonl')).toBe('{"event":{"id":"1"}}\n{"event":{"id":"2"}}\n');
+    });
+
+    it('should copy SQLite databases consistently', async () => {
+      process.env.SQLITE_PATH = path.join(DATA_DIR, 'osv.sqlite');
+      const storage = createStorageBackend('sqlite');
+      await storage.setupBadge('0001');
+
+      try {
+        const { archivePath } = await createBackup();
+        await restoreBackup(archivePath, RESTORE_DIR);
+      } finally {
+        await storage.close();
+        delete process.env.SQLITE_PATH;
+      }
+
+      process.env.SQLITE_PATH = path.join(RESTORE_DIR, 'osv.sqlite');
+      const restored = createStorageBackend('sqlite');
+      try {
+        expect(await restored.isBadgeSetup('0001')).toBe(true);
+      } finally {
+        await restored.close();
+        delete process.env.SQLITE_PATH;
+      }
+    });
+
+    it('should not include a backup directory inside DATA_DIR', async () => {
+      await seedVillage();
+
+      const { manifest } = await createBackup({ backupDir: path.join(DATA_DIR, 'backups') });
+
+      expect(manifest.entries.some((e) => e.path.startsWith('backups'))).toBe(false);
+    });
+  });
+
+  describe('incremental backups', () => {
+    it('should store only changed files and restore the latest state', async () => {
+      await seedVillage();
+      const full = await createBackup({ now: new Date('2026-01-28T01:00:00.000Z') });
+
+      await write('offers/offer-1.json', JSON.stringify({ id: 'offer-1', title: 'Advanced Nostr' }));
+      await write('offers/offer-2.json', JSON.stringify({ id: 'offer-2' }));
+      await fs.unlink(path.join(DATA_DIR, 'badges', 'whitelist.txt'));
+
+      const incremental = await createBackup({ incremental: true, now: new Date('2026-01-28T02:00:00.000Z') });
+
+      expect(incremental.manifest.kind).toBe('incremental');
+      expect(incremental.manifest.base).toBe(full.manifest.name);
+      expect(incremental.filesStored).toBe(2);
+
+      const profile = incremental.manifest.entries.find((e) => e.path.endsWith('profile.json'));
+      expect(profile?.snapshot).toBe(full.manifest.name);
+
+      const restore = await restoreBackup(incremental.archivePath, RESTORE_DIR);
+
+      expect(restore.problems).toEqual([]);
+      expect(await read(RESTORE_DIR, 'offers/offer-1.json')).toContain('Advanced Nostr');
+      expect(await read(RESTORE_DIR, 'offers/offer-2.json')).toContain('offer-2');
+      expect(await read(RESTORE_DIR, `npubs/${NPUB}/profile.json`)).toContain('alice');
+      await expect(fs.access(path.join(RESTORE_DIR, 'badges', 'whitelist.txt'))).rejects.toThrow();
+    });
+
+    it('should start with a full backup when there is none', async () => {
+      await seedVillage();
+
+      const result = await createBackup({ incremental: true });
+
+      expect(result.manifest.kind).toBe('full');
+      expect(result.manifest.base).toBeNull();
+    });
+
+    it('should fail to restore without the earlier archives', async () => {
+      await seedVillage();
+      const full = await createBackup({ now: new Date('2026-01-28T01:00:00.000Z') });
+      const incremental = await createBackup({ incremental: true, now: new Date('2026-01-28T02:00:00.000Z') });
+      await fs.unlink(full.archivePath);
+
+      await expect(restoreBackup(incremental.archivePath, RESTORE_DIR)).rejects.toThrow(
+        `Backup ${full.manifest.name} needed by ${incremental.manifest.name} not found`
+      );
+    });
+  });
+
+  describe('verification', () => {
+    it('should refuse to restore over existing data', async () => {
+      await seedVillage();
+      const { archivePath } = await createBackup();
+
+      await expect(restoreBackup(archivePath, DATA_DIR)).rejects.toThrow('is not empty');
+    });
+
+    it('should detect files that differ from the manifest', async () => {
+      await seedVillage();
+      const { archivePath, manifest } = await createBackup();
+      expect((await verifyBackup(archivePath)).problems).toEqual([]);
+
+      await write('offers/offer-1.json', '{}');
+      await fs.unlink(path.join(DATA_DIR, 'usernames', 'alice'));
+
+      expect(await verifyDirectory(manifest, DATA_DIR)).toEqual([
+        // The snapshot left out the incomplete last line
+        'nostr_events.jsonl: checksum mismatch',
+        'offers/offer-1.json: checksum mismatch',
+        'usernames/alice: missing',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for lost badge recovery
+ *
+ * - The new badge is linked and the old one revoked
+ * - Revoked, claimed and unknown badges can't be bound
+ * - The re-binding is announced with a server-signed kind 1736 event
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19, verifyEvent } from 'nostr-tools';
+import { rebindBadge, BadgeRebindError } from '../badge-rebind';
+import { getStorageBackend } from '../storage-backend';
+import { publishNostrEvent } from '../nostr-server';
+import { NOSTR_KINDS, type NostrEvent } from '../nostr-events';
+
+jest.mock('../nostr-server', () => ({
+  publishNostrEvent: jest.fn().mockResolvedValue({ success: true, published: [], failed: [] }),
+}));
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-badge-rebind');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const ALICE = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const ADMIN = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+describe('Badge Rebind', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    jest.clearAllMocks();
+    delete process.env.NOSTR_NSEC;
+
+    const storage = getStorageBackend();
+    for (const serial of ['0001', '0002', '0003']) {
+      await storage.setupBadge(serial);
+    }
+    await storage.createProfile('0001', 'alice', ALICE);
+    await storage.createProfile('0002', 'bob', BOB);
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should link the new badge and revoke the old one', async () => {
+    const result = await rebindBadge({ npub: ALICE, serialNumber: '0003', by: ALICE });
+
+    const storage = getStorageBackend();
+    expect(result.profile.serialNumber).toBe('0003');
+    expect((await storage.getProfileBySerialNumber('0003'))?.npub).toBe(ALICE);
+    expect(await storage.getProfileBySerialNumber('0001')).toBeNull();
+    expect(await storage.getBadgeRevocation('0001')).toMatchObject({
+      serialNumber: '0001',
+      npub: ALICE,
+      revokedBy: ALICE,
+      reason: 'lost',
+      replacedBy: '0003',
+    });
+    expect(await storage.getBadgeRevocation('0003')).toBeNull();
+  });
+
+  it('should refuse claimed, revoked and unknown badges', async () => {
+    await expect(rebindBadge({ npub: ALICE, serialNumber: '0002', by: ALICE })).rejects.toThrow('Badge already claimed');
+    await expect(rebindBadge({ npub: ALICE, serialNumber: '9999', by: ALICE })).rejects.toThrow('Unknown badge');
+
+    await rebindBadge({ npub: ALICE, serialNumber: '0003', by: ALICE });
+
+    const error = await rebindBadge({ npub: BOB, serialNumber: '0001', by: BOB }).catch((e) => e);
+    expect(error).toBeInstanceOf(BadgeRebindError);
+    expect(error.status).toBe(410);
+    expect((await getStorageBackend().getProfileByNpub(BOB))?.serialNumber).toBe('0002');
+  });
+
+  it('should not announce without a server key', async () => {
+    const result = await rebindBadge({ npub: ALICE, serialNumber: '0003', by: ALICE });
+
+    expect(result.eventId).toBeUndefined();
+    expect(publishNostrEvent).not.toHaveBeenCalled();
+  });
+
+  it('should announce the re-binding with a server-signed event', async () => {
+    const serverKey = generateSecretKey();
+    process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+
+    const result = await rebindBadge({ npub: ALICE, serialNumber: '0003', by: ADMIN, reason: 'stolen' });
+
+    const event = (publishNostrEvent as jest.Mock).mock.calls[0][0] as NostrEvent;
+    expect(result.eventId).toBe(event.id);
+    expect(verifyEvent(event)).toBe(true);
+    expect(event.kind).toBe(NOSTR_KINDS.BADGE_REBIND);
+    expect(event.pubkey).toBe(getPublicKey(serverKey));
+    expect(event.tags).toEqual([
+      ['p', nip19.decode(ALICE).data],
+      ['serial', '0003'],
+      ['revoked', '0001'],
+      ['reason', 'stolen'],
+      ['P', nip19.decode(ADMIN).data, '', 'voucher'],
+    ]);
+  });
+});
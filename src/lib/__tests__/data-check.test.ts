@@ -0,0 +1,188 @@
+/**
+ * Tests for the data integrity checker
+ *
+ * - Badge and username symlinks (dangling, duplicate, missing, stale)
+ * - invitedBy / invitees symmetry
+ * - Orphaned avatars, unknown offer authors, missing calendar entries
+ * - --fix repairs what it can and a second run comes back clean
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { checkData, type DataCheckReport } from '../data-check';
+import { getStorageBackend } from '../storage-backend';
+import { getProposalEvents, getRoomSlug } from '../local-calendar';
+import type { Offer } from '@/types';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-data-check');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const ALICE = 'npub1alice';
+const BOB = 'npub1bob';
+
+function issues(report: DataCheckReport): string[] {
+  return report.issues.map((i) => `${i.type} ${i.subject}`);
+}
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: [ALICE],
+    tags: [],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'tentative',
+    publicationCost: 1,
+    rewardPerAttendee: 1,
+    room: 'Ostrom Room',
+    startTime: '2026-02-10T14:00:00.000Z',
+    endTime: '2026-02-10T15:00:00.000Z',
+    minRsvps: 3,
+    ...overrides,
+  };
+}
+
+describe('Data Check', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+
+    const storage = getStorageBackend();
+    await storage.createProfile('0001', 'alice', ALICE);
+    await storage.createProfile('0002', 'bob', BOB, { invitedBy: ALICE });
+    await storage.updateProfile(ALICE, { invitees: [BOB] });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should report nothing for consistent data', async () => {
+    const report = await checkData();
+
+    expect(report.profiles).toBe(2);
+    expect(report.issues).toEqual([]);
+  });
+
+  describe('links', () => {
+    it('should find and remove dangling links', async () => {
+      await fs.symlink('../npubs/npub1gone', path.join(TEST_DATA_DIR, 'usernames', 'gone'));
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual(['dangling-link usernames/gone']);
+      expect(report.fixed).toBe(1);
+      await expect(fs.lstat(path.join(TEST_DATA_DIR, 'usernames', 'gone'))).rejects.toThrow();
+    });
+
+    it('should find several badges linked to one profile', async () => {
+      await fs.symlink(`../npubs/${ALICE}`, path.join(TEST_DATA_DIR, 'badges', '0003'));
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual(['duplicate-claim badges/0003']);
+      expect((await checkData()).issues).toEqual([]);
+    });
+
+    it('should not fix a badge claimed by two profiles', async () => {
+      const profile = await getStorageBackend().getProfileByNpub(BOB);
+      await getStorageBackend().saveProfile({ ...profile!, serialNumber: '0001' });
+      await fs.unlink(path.join(TEST_DATA_DIR, 'badges', '0002'));
+
+      const report = await checkData({ fix: true });
+
+      expect(report.issues.map((i) => [i.type, i.subject, i.fixable])).toEqual([
+        ['duplicate-claim', 'badges/0001', false],
+        ['duplicate-claim', 'badges/0001', false],
+      ]);
+    });
+
+    it('should recreate missing links and remove stale ones', async () => {
+      await fs.unlink(path.join(TEST_DATA_DIR, 'badges', '0001'));
+      await getStorageBackend().saveProfile({
+        ...(await getStorageBackend().getProfileByNpub(BOB))!,
+        username: 'bobby',
+      });
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual([
+        'missing-link usernames/bobby',
+        'missing-link badges/0001',
+        'stale-link usernames/bob',
+      ]);
+      expect(report.fixed).toBe(3);
+      expect((await getStorageBackend().getProfileByUsername('bobby'))?.npub).toBe(BOB);
+      expect((await getStorageBackend().getProfileBySerialNumber('0001'))?.npub).toBe(ALICE);
+      expect((await checkData()).issues).toEqual([]);
+    });
+
+    it('should report profiles without a username', async () => {
+      await getStorageBackend().saveProfile({
+        ...(await getStorageBackend().getProfileByNpub(BOB))!,
+        username: '',
+      });
+
+      const report = await checkData();
+
+      expect(issues(report)).toContain(`missing-username npubs/${BOB}`);
+    });
+  });
+
+  describe('invites', () => {
+    it('should add a missing invitee to the inviter', async () => {
+      await getStorageBackend().updateProfile(ALICE, { invitees: [] });
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual([`asymmetric-invite npubs/${ALICE}`]);
+      expect((await getStorageBackend().getProfileByNpub(ALICE))?.profile.invitees).toEqual([BOB]);
+    });
+
+    it('should set invitedBy for a listed invitee', async () => {
+      await getStorageBackend().updateProfile(BOB, { invitedBy: undefined });
+
+      await checkData({ fix: true });
+
+      expect((await getStorageBackend().getProfileByNpub(BOB))?.profile.invitedBy).toBe(ALICE);
+      expect((await checkData()).issues).toEqual([]);
+    });
+
+    it('should report invites from unknown npubs without fixing them', async () => {
+      await getStorageBackend().updateProfile(ALICE, { invitedBy: 'npub1stranger' });
+
+      const report = await checkData({ fix: true });
+
+      expect(report.issues.map((i) => [i.type, i.fixable, i.fixed])).toEqual([['unknown-inviter', false, undefined]]);
+    });
+  });
+
+  describe('avatars and offers', () => {
+    it('should remove avatars of npubs without a profile', async () => {
+      const avatar = path.join(TEST_DATA_DIR, 'npubs', 'npub1gone', 'avatar.png');
+      await fs.mkdir(path.dirname(avatar), { recursive: true });
+      await fs.writeFile(avatar, 'png');
+      await fs.writeFile(path.join(TEST_DATA_DIR, 'npubs', ALICE, 'avatar.png'), 'png');
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual(['orphaned-avatar npubs/npub1gone/avatar.png']);
+      await expect(fs.access(avatar)).rejects.toThrow();
+    });
+
+    it('should report unknown authors and restore missing calendar entries', async () => {
+      await getStorageBackend().saveOffer(makeOffer({ authors: [ALICE, 'npub1stranger'] }));
+      // Not scheduled: no calendar entry needed
+      await getStorageBackend().saveOffer(makeOffer({ id: 'offer-2', type: 'offer', room: undefined }));
+
+      const report = await checkData({ fix: true });
+
+      expect(issues(report)).toEqual(['unknown-author offers/offer-1', 'missing-calendar-entry offers/offer-1']);
+      const [event] = await getProposalEvents(getRoomSlug('Ostrom Room'));
+      expect(event).toMatchObject({ offerId: 'offer-1', status: 'TENTATIVE', minRsvps: 3, authorUsername: 'alice' });
+    });
+  });
+});
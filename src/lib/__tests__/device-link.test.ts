@@ -0,0 +1,142 @@
+/**
+ * Tests for linking another device
+ *
+ * - Handoffs only open on the device that made the link request, in time,
+ *   and only if signed by the account they hand over
+ * - Linked devices are recorded and can only be forgotten by their owner
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  LINK_TTL_SECONDS,
+  createLinkRequest,
+  encodeLinkRequest,
+  guessDeviceName,
+  openHandoff,
+  parseLinkRequest,
+  sealHandoff,
+} from '../device-link';
+import {
+  LinkedDeviceError,
+  forgetLinkedDevice,
+  getLinkedDevice,
+  listLinkedDevices,
+  recordLinkedDevice,
+} from '../linked-devices';
+import type { Signer } from '../signer';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-device-link');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const secretKey = generateSecretKey();
+const ALICE = nip19.npubEncode(getPublicKey(secretKey));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const credentials = { username: 'alice', npub: ALICE, signer: { type: 'local' as const, nsec: nip19.nsecEncode(secretKey) } };
+
+function localSigner(key: Uint8Array): Signer {
+  return {
+    type: 'local',
+    getPublicKey: async () => getPublicKey(key),
+    signEvent: async (template) => finalizeEvent(template, key),
+  };
+}
+
+const signer = localSigner(secretKey);
+
+describe('Device Link', () => {
+  it('should round-trip a link request through its URL', () => {
+    const { request } = createLinkRequest('Firefox on Linux');
+
+    const url = encodeLinkRequest(request, 'https://app.example');
+
+    expect(url.startsWith('https://app.example/link#request=')).toBe(true);
+    expect(parseLinkRequest(url)).toEqual(request);
+    expect(() => parseLinkRequest('https://app.example/link#request=nope')).toThrow('not a link request');
+  });
+
+  it('should hand the credentials to the requesting device', async () => {
+    const { secretKey: deviceKey, request } = createLinkRequest('Laptop');
+
+    const handoff = openHandoff(await sealHandoff(credentials, request, signer), deviceKey);
+
+    expect(handoff).toMatchObject({ username: 'alice', npub: ALICE, signer: credentials.signer });
+    expect(handoff.deviceId).toBe(request.devicePubkey);
+  });
+
+  it('should refuse handoffs for another device or expired ones', async () => {
+    const { request } = createLinkRequest('Laptop');
+    const other = createLinkRequest('Other');
+    const now = Math.floor(Date.now() / 1000);
+    const sealed = await sealHandoff(credentials, request, signer, now);
+
+    expect(() => openHandoff(sealed, other.secretKey)).toThrow('made for another device');
+
+    const { secretKey: deviceKey, request: laterRequest } = createLinkRequest('Laptop');
+    const expired = await sealHandoff(credentials, laterRequest, signer, now - LINK_TTL_SECONDS - 1);
+    expect(() => openHandoff(expired, deviceKey, now)).toThrow('expired');
+    expect(() => openHandoff('nsec1abc', deviceKey)).toThrow('not a device link code');
+  });
+
+  it('should refuse handoffs not signed by the account they hand over', async () => {
+    const { secretKey: deviceKey, request } = createLinkRequest('Laptop');
+    const extension = { username: 'alice', npub: ALICE, signer: { type: 'nip07' as const } };
+    const forged = await sealHandoff(extension, request, localSigner(generateSecretKey()));
+
+    expect(() => openHandoff(forged, deviceKey)).toThrow('not sent by the account');
+  });
+
+  it('should refuse keys that do not match the account', async () => {
+    const bobKey = generateSecretKey();
+    const { secretKey: deviceKey, request } = createLinkRequest('Laptop');
+    const bob = nip19.npubEncode(getPublicKey(bobKey));
+    const sealed = await sealHandoff({ ...credentials, npub: bob }, request, localSigner(bobKey));
+
+    expect(() => openHandoff(sealed, deviceKey)).toThrow('does not match the account');
+  });
+
+  it('should name devices from their user agent', () => {
+    expect(guessDeviceName('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) AppleWebKit Version/17.0 Safari/604.1'))
+      .toBe('Safari on iPhone');
+    expect(guessDeviceName('curl/8.0')).toBe('Unknown device');
+  });
+});
+
+describe('Linked Devices', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should record and list linked devices', async () => {
+    const { request } = createLinkRequest('Laptop');
+
+    await recordLinkedDevice(ALICE, request.devicePubkey, request.deviceName);
+
+    const devices = await listLinkedDevices(ALICE);
+    expect(devices).toHaveLength(1);
+    expect(devices[0]).toMatchObject({ id: request.devicePubkey, npub: ALICE, name: 'Laptop' });
+    expect(await listLinkedDevices(BOB)).toEqual([]);
+    await expect(recordLinkedDevice(ALICE, request.devicePubkey, 'Again')).rejects.toThrow(LinkedDeviceError);
+    await expect(recordLinkedDevice(ALICE, 'not-a-key', 'Laptop')).rejects.toThrow('Invalid device id');
+  });
+
+  it('should only let the owner forget a device', async () => {
+    const { request } = createLinkRequest('Laptop');
+    await recordLinkedDevice(ALICE, request.devicePubkey, request.deviceName);
+
+    await expect(forgetLinkedDevice(BOB, request.devicePubkey)).rejects.toThrow('Device not found');
+    expect((await getLinkedDevice(request.devicePubkey))?.forgottenAt).toBeUndefined();
+
+    await forgetLinkedDevice(ALICE, request.devicePubkey);
+    expect((await getLinkedDevice(request.devicePubkey))?.forgottenAt).toBeDefined();
+    expect(await listLinkedDevices(ALICE)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for the RSVP escrow
+ *
+ * - Settled RSVP transfers to the escrow account are recorded once
+ * - Held deposits are released or refunded depending on the offer
+ * - Failed settlements put the deposit back on hold
+ * - Interrupted settlements resume without paying a transfer twice
+ * - Cancelling an offer stops releases that haven't finished
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  EscrowError,
+  confirmAttendance,
+  getDueEscrowSettlements,
+  getEscrowState,
+  listEscrowDeposits,
+  recordEscrowDeposit,
+  settleDueEscrows,
+} from '../escrow';
+import { createPaymentRequestEvent, parsePaymentRequestEvent, type NostrEvent } from '../nostr-events';
+import { getStorageBackend } from '../storage-backend';
+import { notifyWorkshopCancelled } from '../notification-triggers';
+import type { Offer } from '@/types';
+
+jest.mock('../token-factory', () => ({
+  getWalletAddressForNpub: jest.fn().mockResolvedValue('0x0000000000000000000000000000000000000001'),
+}));
+jest.mock('../notification-triggers', () => ({
+  notifyWorkshopCancelled: jest.fn().mockResolvedValue(undefined),
+}));
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-escrow');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const aliceKey = generateSecretKey();
+const ESCROW = nip19.npubEncode(getPublicKey(serverKey));
+const ALICE = nip19.npubEncode(getPublicKey(aliceKey));
+const [AUTHOR, BOB, CAROL] = [1, 2, 3].map(() => nip19.npubEncode(getPublicKey(generateSecretKey())));
+
+const NOW = new Date('2026-02-01T12:00:00.000Z');
+const PAST = '2026-02-01T09:00:00.000Z';
+const FUTURE = '2026-02-02T09:00:00.000Z';
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: [AUTHOR],
+    tags: [],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'confirmed',
+    startTime: PAST,
+    endTime: '2026-02-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function rsvpPayment(recipient = ESCROW): NostrEvent {
+  return createPaymentRequestEvent(aliceKey, {
+    sender: ALICE,
+    senderAddress: '0x0000000000000000000000000000000000000002',
+    recipient,
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    amount: 1,
+    tokenAddress: '0x0000000000000000000000000000000000000003',
+    chainId: 100,
+    context: 'rsvp',
+    method: 'transfer',
+    relatedEventId: 'offer-1',
+  });
+}
+
+async function setup(offer: Partial<Offer> = {}, rsvpStatus: 'active' | 'cancelled' = 'active'): Promise<void> {
+  const storage = getStorageBackend();
+  await storage.saveOffer(makeOffer(offer));
+  await storage.appendRsvp({ offerId: 'offer-1', npub: ALICE, createdAt: '2026-01-21T10:00:00.000Z', tokensPaid: 1, status: 'active' });
+  if (rsvpStatus === 'cancelled') {
+    await storage.appendRsvp({ offerId: 'offer-1', npub: ALICE, createdAt: '2026-01-22T10:00:00.000Z', tokensPaid: 1, status: 'cancelled' });
+  }
+  await recordEscrowDeposit(rsvpPayment(), '0xdeposit');
+}
+
+describe('RSVP escrow', () => {
+  const lookup = jest.fn().mockResolvedValue(null);
+
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    jest.clearAllMocks();
+    process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    delete process.env.NOSTR_NSEC;
+  });
+
+  it('should record RSVP payments to the escrow account once', async () => {
+    const payment = rsvpPayment();
+
+    const deposit = await recordEscrowDeposit(payment, '0xdeposit');
+    expect(deposit).toMatchObject({ requestId: payment.id, offerId: 'offer-1', attendee: ALICE, amount: 1, status: 'held' });
+    expect(await recordEscrowDeposit(payment, '0xdeposit')).toEqual(deposit);
+    expect(await recordEscrowDeposit(rsvpPayment(AUTHOR), '0xdirect')).toBeNull();
+
+    expect(await listEscrowDeposits('offer-1')).toHaveLength(1);
+    expect(await getEscrowState('offer-1')).toMatchObject({ held: 1, released: 0, refunded: 0 });
+  });
+
+  it.each([
+    ['the offer is cancelled', { status: 'cancelled' as const }, 'active' as const, 'offer_cancelled'],
+    ['the attendee cancelled their RSVP', { startTime: FUTURE, endTime: FUTURE }, 'cancelled' as const, 'rsvp_cancelled'],
+    ['the session ended below minRsvps', { minRsvps: 2 }, 'active' as const, 'min_rsvps_not_reached'],
+  ])('should refund the attendee when %s', async (_case, offer, rsvpStatus, reason) => {
+    await setup(offer, rsvpStatus);
+
+    expect(await getDueEscrowSettlements(NOW)).toEqual([
+      expect.objectContaining({ action: 'refund', shares: [{ npub: ALICE, amount: 1 }], reason }),
+    ]);
+  });
+
+  it('should release to the author once the session ended or attendance is confirmed', async () => {
+    await setup({ startTime: '2026-02-01T11:00:00.000Z', endTime: FUTURE });
+    expect(await getDueEscrowSettlements(NOW)).toEqual([]);
+
+    await confirmAttendance('offer-1', NOW);
+    expect(await getDueEscrowSettlements(NOW)).toEqual([
+      expect.objectContaining({ action: 'release', shares: [{ npub: AUTHOR, amount: 1 }], reason: 'attendance_confirmed' }),
+    ]);
+
+    await getStorageBackend().saveOffer(makeOffer());
+    expect(await getDueEscrowSettlements(NOW)).toEqual([
+      expect.objectContaining({ action: 'release', shares: [{ npub: AUTHOR, amount: 1 }], reason: 'session_ended' }),
+    ]);
+  });
+
+  it('should settle deposits and retry failed settlements', async () => {
+    await setup({ status: 'cancelled' });
+    const execute = jest.fn().mockResolvedValueOnce({ success: false, error: 'insufficient balance' });
+
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({ status: 'held', error: 'insufficient balance' });
+
+    execute.mockResolvedValueOnce({ success: true, txHash: '0xrefund' });
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+
+    const request = parsePaymentRequestEvent(execute.mock.calls[1][0]);
+    expect(request).toMatchObject({ sender: ESCROW, recipient: ALICE, amount: 1, context: 'escrow_refund' });
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({
+      status: 'refunded',
+      payouts: [{ npub: ALICE, amount: 1, txHash: '0xrefund' }],
+    });
+    expect(await getEscrowState('offer-1')).toMatchObject({ held: 0, refunded: 1 });
+    expect(notifyWorkshopCancelled).toHaveBeenCalledWith(
+      expect.objectContaining({ rsvpedUserNpubs: [ALICE], refundAmount: 1 })
+    );
+    expect(await getDueEscrowSettlements(NOW)).toEqual([]);
+  });
+
+  it('should split releases between co-authors and not pay a share twice', async () => {
+    await setup({ authors: [AUTHOR, BOB, CAROL] });
+    const execute = jest.fn()
+      .mockResolvedValueOnce({ success: true, txHash: '0x1' })
+      .mockResolvedValueOnce({ success: false, error: 'relay timeout' });
+
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({ status: 'held', payouts: [{ npub: AUTHOR }] });
+
+    execute.mockResolvedValue({ success: true, txHash: '0x2' });
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+
+    const paid = execute.mock.calls.map(([request]) => parsePaymentRequestEvent(request));
+    expect(paid.map((request) => [request?.recipient, request?.amount])).toEqual([
+      [AUTHOR, 0.333334],
+      [BOB, 0.333333],
+      [BOB, 0.333333],
+      [CAROL, 0.333333],
+    ]);
+    expect(paid[0]).toMatchObject({ context: 'escrow_release', split: { total: 1, shares: 3 } });
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({ status: 'released' });
+    expect((await listEscrowDeposits('offer-1'))[0].payouts).toHaveLength(3);
+  });
+
+  it('should resume interrupted settlements once the transfer in flight is resolved', async () => {
+    await setup({ authors: [AUTHOR, BOB] });
+    // The processor stops while paying Bob's share
+    const execute = jest.fn()
+      .mockResolvedValueOnce({ success: true, txHash: '0x1' })
+      .mockImplementationOnce(() => new Promise(() => {}));
+    void settleDueEscrows(serverKey, execute, lookup, NOW);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const interrupted = (await listEscrowDeposits('offer-1'))[0];
+    expect(interrupted).toMatchObject({ status: 'releasing', pendingPayout: { npub: BOB } });
+
+    execute.mockReset().mockResolvedValue({ success: true, txHash: '0x3' });
+    lookup.mockResolvedValueOnce('pending');
+    expect(await settleDueEscrows(serverKey, execute, lookup, NOW)).toEqual([]);
+    expect(execute).not.toHaveBeenCalled();
+
+    lookup.mockResolvedValueOnce({ success: true, txHash: '0x2' });
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+    expect(lookup).toHaveBeenLastCalledWith(interrupted.pendingPayout!.requestId);
+    expect(execute).not.toHaveBeenCalled();
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({
+      status: 'released',
+      payouts: [{ npub: AUTHOR, txHash: '0x1' }, { npub: BOB, txHash: '0x2' }],
+    });
+  });
+
+  it('should pay a transfer again if it never went through', async () => {
+    await setup({ status: 'cancelled' });
+    const execute = jest.fn().mockImplementationOnce(() => new Promise(() => {}));
+    void settleDueEscrows(serverKey, execute, lookup, NOW);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({ status: 'refunding' });
+
+    execute.mockReset().mockResolvedValue({ success: true, txHash: '0xrefund' });
+    lookup.mockResolvedValueOnce({ success: false, error: 'insufficient balance' });
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({
+      status: 'refunded',
+      payouts: [{ npub: ALICE, amount: 1, txHash: '0xrefund' }],
+    });
+  });
+
+  it('should refund what is left of an unfinished release when the offer is cancelled', async () => {
+    await setup({ authors: [AUTHOR, BOB] });
+    const execute = jest.fn()
+      .mockResolvedValueOnce({ success: true, txHash: '0x1' })
+      .mockImplementationOnce(() => new Promise(() => {}));
+    void settleDueEscrows(serverKey, execute, lookup, NOW);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({ status: 'releasing', pendingPayout: { npub: BOB } });
+
+    await getStorageBackend().saveOffer(makeOffer({ authors: [AUTHOR, BOB], status: 'cancelled' }));
+    execute.mockReset().mockResolvedValue({ success: true, txHash: '0xrefund' });
+    lookup.mockResolvedValueOnce(null);
+    await settleDueEscrows(serverKey, execute, lookup, NOW);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(parsePaymentRequestEvent(execute.mock.calls[0][0])).toMatchObject({
+      recipient: ALICE,
+      amount: 0.5,
+      context: 'escrow_refund',
+    });
+    expect((await listEscrowDeposits('offer-1'))[0]).toMatchObject({
+      status: 'refunded',
+      settlementReason: 'offer_cancelled',
+      payouts: [{ npub: AUTHOR, amount: 0.5 }, { npub: ALICE, amount: 0.5 }],
+    });
+  });
+
+  it('should only confirm attendance for sessions that started', async () => {
+    await getStorageBackend().saveOffer(makeOffer({ startTime: FUTURE }));
+
+    await expect(confirmAttendance('offer-1', NOW)).rejects.toThrow(EscrowError);
+    await expect(confirmAttendance('missing', NOW)).rejects.toMatchObject({ status: 404 });
+
+    await getStorageBackend().saveOffer(makeOffer({ status: 'cancelled' }));
+    await expect(confirmAttendance('offer-1', NOW)).rejects.toThrow('cancelled');
+  });
+});
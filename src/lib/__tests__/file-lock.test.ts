@@ -0,0 +1,353 @@
+/**
+ * Concurrency tests for per-resource locking and atomic writes
+ *
+ * These tests hammer the read-modify-write paths that used to lose updates:
+ * - withLock serialization, timeouts and stale lock recovery
+ * - atomicWriteFile under concurrent writers
+ * - updateOffer (RSVP counts, confirmation firing exactly once)
+ * - local calendar attendee and status updates
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { withLock, withLocks, acquireFileLock, atomicWriteFile, getLockPath, LockTimeoutError } from '../file-lock';
+import { getStorageBackend, updateOffer } from '../storage-backend';
+import {
+  addProposalEvent,
+  addAttendee,
+  removeAttendee,
+  updateEventStatus,
+  getProposalEvent,
+} from '../local-calendar';
+import type { Offer } from '@/types';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-file-lock');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: ['npub1author'],
+    tags: [],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'tentative',
+    publicationCost: 1,
+    rewardPerAttendee: 1,
+    rsvpCount: 0,
+    minRsvps: 5,
+    ...overrides,
+  };
+}
+
+describe('File Locking', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('withLock', () => {
+    it('should run critical sections for the same resource one at a time', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      await Promise.all(
+        Array.from({ length: 10 }, () =>
+          withLock('counter', async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(2);
+            active--;
+          })
+        )
+      );
+
+      expect(maxActive).toBe(1);
+    });
+
+    it('should not serialize different resources', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      await Promise.all(
+        ['a', 'b', 'c'].map((resource) =>
+          withLock(resource, async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await sleep(20);
+            active--;
+          })
+        )
+      );
+
+      expect(maxActive).toBeGreaterThan(1);
+    });
+
+    it('should return the result and release the lock file', async () => {
+      const result = await withLock('offer:abc', async () => {
+        await expect(fs.access(getLockPath('offer:abc'))).resolves.toBeUndefined();
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      await expect(fs.access(getLockPath('offer:abc'))).rejects.toThrow();
+    });
+
+    it('should release the lock when the critical section throws', async () => {
+      await expect(
+        withLock('failing', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      await expect(withLock('failing', async () => 'ok')).resolves.toBe('ok');
+    });
+
+    it('should wait for a lock held by another process', async () => {
+      // Simulate another live process holding the lock
+      const lockPath = getLockPath('shared');
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.ppid, acquiredAt: Date.now() }));
+
+      let acquired = false;
+      const pending = withLock('shared', async () => {
+        acquired = true;
+      });
+
+      await sleep(50);
+      expect(acquired).toBe(false);
+
+      await fs.unlink(lockPath);
+      await pending;
+      expect(acquired).toBe(true);
+    });
+
+    it('should reclaim a lock left behind by a dead process', async () => {
+      const lockPath = getLockPath('orphaned');
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      // PIDs are capped well below this value, so no such process exists
+      await fs.writeFile(lockPath, JSON.stringify({ pid: 2 ** 30, acquiredAt: Date.now() }));
+
+      await expect(withLock('orphaned', async () => 'ok', { timeoutMs: 1000 })).resolves.toBe('ok');
+    });
+
+    it('should let only one contender reclaim a stale lock', async () => {
+      const lockPath = getLockPath('contended');
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await fs.writeFile(lockPath, JSON.stringify({ pid: 2 ** 30, acquiredAt: Date.now() }));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      let active = 0;
+      let maxActive = 0;
+      // acquireFileLock skips the in-process queue, like two separate processes
+      const contender = async () => {
+        const lock = await acquireFileLock('contended', { timeoutMs: 2000 });
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await sleep(30);
+        active--;
+        await lock.release();
+      };
+
+      await Promise.all([contender(), contender(), contender()]);
+
+      expect(maxActive).toBe(1);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      (console.warn as jest.Mock).mockRestore();
+    });
+
+    it('should keep the lock of a critical section that outlives the stale timeout', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const contender = async () => {
+        const lock = await acquireFileLock('slow', { timeoutMs: 2000, staleMs: 60 });
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await sleep(200);
+        active--;
+        await lock.release();
+      };
+
+      await Promise.all([contender(), contender()]);
+
+      expect(maxActive).toBe(1);
+    });
+
+    it('should not remove a lock it no longer owns on release', async () => {
+      const lock = await acquireFileLock('taken-over');
+      // Reclaimed by someone else in the meantime
+      await fs.unlink(lock.path);
+      await fs.writeFile(lock.path, JSON.stringify({ pid: process.ppid, token: 'other', acquiredAt: Date.now() }));
+
+      await lock.release();
+
+      expect(JSON.parse(await fs.readFile(lock.path, 'utf-8')).token).toBe('other');
+    });
+
+    it('should time out when the lock is never released', async () => {
+      const lockPath = getLockPath('stuck');
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.ppid, acquiredAt: Date.now() }));
+
+      await expect(withLock('stuck', async () => 'never', { timeoutMs: 100 })).rejects.toThrow(
+        LockTimeoutError
+      );
+    });
+  });
+
+  describe('withLocks', () => {
+    it('should serialize overlapping lock sets without deadlocking', async () => {
+      const active = new Set<string>();
+      let overlaps = 0;
+      const run = (resources: string[]) =>
+        withLocks(resources, async () => {
+          if (resources.some((resource) => active.has(resource))) overlaps++;
+          resources.forEach((resource) => active.add(resource));
+          await sleep(5);
+          resources.forEach((resource) => active.delete(resource));
+        }, { timeoutMs: 2000 });
+
+      // An RSVP to offer a and one to offer b by the same user share the profile lock
+      await Promise.all([
+        run(['offer:a', 'profile:alice']),
+        run(['profile:alice', 'offer:b']),
+        run(['offer:b', 'offer:a']),
+      ]);
+
+      expect(overlaps).toBe(0);
+    });
+  });
+
+  describe('atomicWriteFile', () => {
+    it('should leave one complete version under concurrent writers', async () => {
+      const filePath = path.join(TEST_DATA_DIR, 'offers', 'offer-1.json');
+      const payloads = Array.from({ length: 20 }, (_, i) =>
+        JSON.stringify({ writer: i, padding: 'x'.repeat(10000) })
+      );
+
+      await Promise.all(payloads.map((payload) => atomicWriteFile(filePath, payload)));
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(payloads).toContain(content);
+
+      // No temp files left behind
+      const files = await fs.readdir(path.dirname(filePath));
+      expect(files).toEqual(['offer-1.json']);
+    });
+  });
+
+  describe('updateOffer', () => {
+    it('should not lose concurrent RSVP count updates', async () => {
+      await getStorageBackend().saveOffer(makeOffer({ minRsvps: 100 }));
+
+      await Promise.all(
+        Array.from({ length: 25 }, () =>
+          updateOffer('offer-1', async (offer) => {
+            const count = offer.rsvpCount || 0;
+            await sleep(1);
+            offer.rsvpCount = count + 1;
+          })
+        )
+      );
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      expect(offer?.rsvpCount).toBe(25);
+    });
+
+    it('should confirm an offer exactly once when the threshold is reached', async () => {
+      await getStorageBackend().saveOffer(makeOffer({ minRsvps: 5 }));
+      let confirmations = 0;
+
+      await Promise.all(
+        Array.from({ length: 12 }, () =>
+          updateOffer('offer-1', (offer) => {
+            offer.rsvpCount = (offer.rsvpCount || 0) + 1;
+            if (offer.rsvpCount >= (offer.minRsvps || 5) && offer.status === 'tentative') {
+              offer.status = 'confirmed';
+              confirmations++;
+            }
+          })
+        )
+      );
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      expect(offer?.status).toBe('confirmed');
+      expect(offer?.rsvpCount).toBe(12);
+      expect(confirmations).toBe(1);
+    });
+
+    it('should return null for a missing offer', async () => {
+      const mutate = jest.fn();
+      expect(await updateOffer('missing', mutate)).toBeNull();
+      expect(mutate).not.toHaveBeenCalled();
+    });
+
+    it('should skip saving when the mutation returns false', async () => {
+      await getStorageBackend().saveOffer(makeOffer());
+
+      await updateOffer('offer-1', (offer) => {
+        offer.status = 'cancelled';
+        return false;
+      });
+
+      expect((await getStorageBackend().getOffer('offer-1'))?.status).toBe('tentative');
+    });
+  });
+
+  describe('local calendar', () => {
+    const roomSlug = 'ostrom-room';
+
+    beforeEach(async () => {
+      await addProposalEvent(roomSlug, {
+        offerId: 'offer-1',
+        title: 'Intro to Nostr',
+        description: 'Learn the basics',
+        startTime: new Date('2026-01-27T10:00:00.000Z'),
+        endTime: new Date('2026-01-27T11:00:00.000Z'),
+        room: 'Ostrom Room',
+        status: 'TENTATIVE',
+        minRsvps: 5,
+        attendees: [],
+      });
+    });
+
+    it('should keep every attendee added concurrently', async () => {
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          addAttendee(roomSlug, 'offer-1', `user${i}`, `npub1user${i}`)
+        )
+      );
+
+      const event = await getProposalEvent(roomSlug, 'offer-1');
+      expect(event?.attendees).toHaveLength(20);
+    });
+
+    it('should not lose attendees when adds, removes and status changes interleave', async () => {
+      await Promise.all([
+        ...Array.from({ length: 10 }, (_, i) =>
+          addAttendee(roomSlug, 'offer-1', `user${i}`, `npub1user${i}`)
+        ),
+        removeAttendee(roomSlug, 'offer-1', 'npub1nobody'),
+        updateEventStatus(roomSlug, 'offer-1', 'CONFIRMED'),
+        ...Array.from({ length: 10 }, (_, i) =>
+          addAttendee(roomSlug, 'offer-1', `late${i}`, `npub1late${i}`)
+        ),
+      ]);
+
+      const event = await getProposalEvent(roomSlug, 'offer-1');
+      expect(event?.attendees).toHaveLength(20);
+      expect(event?.status).toBe('CONFIRMED');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for invite codes
+ *
+ * - Villagers can only register their own codes, within their quota
+ * - Unregistered, revoked, used and expired codes can't be redeemed
+ * - A code is redeemed at most once, even by concurrent claims
+ * - The invite tree follows invitedBy / invitees
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  InviteError,
+  checkInvite,
+  getInviteStatus,
+  getInviteTree,
+  getInviteUsage,
+  listInvites,
+  redeemInvite,
+  registerInvite,
+  revokeInvite,
+} from '../invites';
+import { getStorageBackend } from '../storage-backend';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-invites');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const alicePubkey = getPublicKey(generateSecretKey());
+const ALICE = nip19.npubEncode(alicePubkey);
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+let counter = 0;
+function makeCode(pubkey = alicePubkey): string {
+  counter++;
+  return pubkey + counter.toString(16).padStart(128, '0');
+}
+
+describe('Invites', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+
+    const storage = getStorageBackend();
+    for (const serial of ['0001', '0002']) {
+      await storage.setupBadge(serial);
+    }
+    await storage.createProfile('0001', 'alice', ALICE);
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should register and list a villager\'s codes', async () => {
+    const code = makeCode();
+
+    const invite = await registerInvite(ALICE, code);
+
+    expect(invite).toMatchObject({ code, inviter: ALICE, status: 'active' });
+    expect(await listInvites(ALICE)).toHaveLength(1);
+    expect(await getInviteUsage(ALICE)).toMatchObject({ invited: 0, outstanding: 1, remaining: 9 });
+    await expect(registerInvite(ALICE, code)).rejects.toThrow('already registered');
+    await expect(registerInvite(BOB, makeCode())).rejects.toThrow('not issued to you');
+    await expect(registerInvite(ALICE, 'abc')).rejects.toThrow(InviteError);
+  });
+
+  it('should enforce the quota, including an admin override', async () => {
+    const storage = getStorageBackend();
+    const profile = (await storage.getProfileByNpub(ALICE))!;
+    await storage.saveProfile({ ...profile, inviteQuota: 1 });
+
+    const first = makeCode();
+    await registerInvite(ALICE, first);
+    await expect(registerInvite(ALICE, makeCode())).rejects.toThrow("can't invite more than 1");
+
+    await revokeInvite(first, ALICE);
+    await expect(registerInvite(ALICE, makeCode())).resolves.toMatchObject({ status: 'active' });
+  });
+
+  it('should refuse revoked, used and expired codes', async () => {
+    const revoked = makeCode();
+    await registerInvite(ALICE, revoked);
+    await revokeInvite(revoked, ALICE);
+    await expect(checkInvite(revoked)).rejects.toThrow('revoked');
+
+    const used = makeCode();
+    await registerInvite(ALICE, used);
+    await expect(checkInvite(used)).resolves.toMatchObject({ inviterNpub: ALICE });
+    await redeemInvite(used, BOB, async () => undefined);
+    await expect(checkInvite(used)).rejects.toThrow('already been used');
+    await expect(revokeInvite(used, ALICE)).rejects.toThrow('already been used');
+
+    const expired = await registerInvite(ALICE, makeCode());
+    const later = new Date(new Date(expired.expiresAt).getTime() + 1000);
+    expect(getInviteStatus(expired, later)).toBe('expired');
+  });
+
+  it('should refuse codes that were never registered', async () => {
+    const code = makeCode();
+
+    await expect(checkInvite(code)).rejects.toThrow('Unknown invitation code');
+    await expect(redeemInvite(code, BOB, async () => undefined)).rejects.toThrow(InviteError);
+    expect(await listInvites(ALICE)).toEqual([]);
+  });
+
+  it('should redeem a code once when claims race', async () => {
+    const code = makeCode();
+    await registerInvite(ALICE, code);
+    const claim = jest.fn(async () => new Promise((resolve) => setTimeout(resolve, 20)));
+
+    const results = await Promise.allSettled([
+      redeemInvite(code, BOB, claim),
+      redeemInvite(code, nip19.npubEncode(getPublicKey(generateSecretKey())), claim),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(claim).toHaveBeenCalledTimes(1);
+    expect((await listInvites(ALICE))[0]).toMatchObject({ code, status: 'redeemed' });
+  });
+
+  it('should leave the code unused when the claim fails', async () => {
+    const code = makeCode();
+    await registerInvite(ALICE, code);
+
+    await expect(redeemInvite(code, BOB, async () => {
+      throw new Error('Username already taken');
+    })).rejects.toThrow('Username already taken');
+    await expect(checkInvite(code)).resolves.toMatchObject({ inviterNpub: ALICE });
+  });
+
+  it('should build the invite tree from profiles', async () => {
+    const storage = getStorageBackend();
+    await storage.createProfile('0002', 'bob', BOB, { invitedBy: ALICE });
+    await storage.updateProfile(ALICE, { invitees: [BOB] });
+
+    expect(await getInviteTree(ALICE)).toEqual({
+      invitedBy: null,
+      invitees: [{ npub: BOB, username: 'bob', inviteesCount: 0 }],
+    });
+    expect((await getInviteTree(BOB))?.invitedBy).toEqual({ npub: ALICE, username: 'alice', inviteesCount: 1 });
+    expect(await getInviteTree('npub1nobody')).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for peer-to-peer payment requests (invoices, kind 1737)
+ *
+ * - Invoices round-trip through build/parse
+ * - An invoice is pending once the payer signs the transfer, paid once the
+ *   receipt arrives, and expires unless paid
+ * - Only receipts signed by the payment processor count
+ *
+ * @jest-environment node
+ */
+
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  buildInvoiceEvent,
+  buildPaymentRequestEvent,
+  createPaymentReceiptEvent,
+  parseInvoiceEvent,
+  type InvoiceEventOptions,
+  type NostrEvent,
+} from '../nostr-events';
+import { getInvoiceStatus } from '../invoices';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const requesterKey = generateSecretKey();
+const payerKey = generateSecretKey();
+const serverKey = generateSecretKey();
+const SERVER = nip19.npubEncode(getPublicKey(serverKey));
+const REQUESTER = nip19.npubEncode(getPublicKey(requesterKey));
+const PAYER = nip19.npubEncode(getPublicKey(payerKey));
+const NOW = 1_800_000_000;
+
+function invoice(overrides: Partial<InvoiceEventOptions> = {}): NostrEvent {
+  return finalizeEvent(buildInvoiceEvent({
+    requester: REQUESTER,
+    requesterAddress: '0x0000000000000000000000000000000000000001',
+    payer: PAYER,
+    amount: 3,
+    tokenAddress: TOKEN,
+    chainId: 1337,
+    description: 'Pizza',
+    expiresAt: NOW + 3600,
+    ...overrides,
+  }), requesterKey);
+}
+
+function pay(invoiceEvent: NostrEvent, amount = 3, key = payerKey): NostrEvent {
+  return finalizeEvent(buildPaymentRequestEvent({
+    recipient: REQUESTER,
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    sender: nip19.npubEncode(getPublicKey(key)),
+    amount,
+    tokenAddress: TOKEN,
+    chainId: 1337,
+    context: 'invoice',
+    relatedEventId: invoiceEvent.id,
+    method: 'transfer',
+  }), key);
+}
+
+describe('Invoices', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should round-trip through build and parse', () => {
+    const event = invoice();
+
+    expect(parseInvoiceEvent(event)).toEqual({
+      requester: REQUESTER,
+      requesterAddress: '0x0000000000000000000000000000000000000001',
+      payer: PAYER,
+      amount: 3,
+      tokenAddress: TOKEN,
+      chainId: 1337,
+      tokenSymbol: undefined,
+      description: 'Pizza',
+      expiresAt: NOW + 3600,
+    });
+    expect(event.tags).toContainEqual(['p', getPublicKey(payerKey)]);
+    expect(event.tags).toContainEqual(['paymentUrl', `ethereum:${TOKEN}@1337/transfer?address=0x0000000000000000000000000000000000000001&uint256=3000000`]);
+    expect(parseInvoiceEvent({ ...event, kind: 1734 })).toBeNull();
+  });
+
+  it('should be pending once paid and paid once the receipt arrives', () => {
+    const event = invoice();
+    const payment = pay(event);
+
+    expect(getInvoiceStatus(event, [], SERVER, NOW)).toBe('open');
+    expect(getInvoiceStatus(event, [payment], SERVER, NOW)).toBe('pending');
+
+    const receipt = createPaymentReceiptEvent(serverKey, { paymentRequestEvent: payment, txHash: '0xabc', success: true });
+    // The payer may only see the receipt, the requester sees both
+    expect(getInvoiceStatus(event, [receipt], SERVER, NOW)).toBe('paid');
+    expect(getInvoiceStatus(event, [payment, receipt], SERVER, NOW + 7200)).toBe('paid');
+  });
+
+  it('should reopen after a failed payment and expire unless paid', () => {
+    const event = invoice();
+    const payment = pay(event);
+    const failed = createPaymentReceiptEvent(serverKey, { paymentRequestEvent: payment, txHash: '0x0', success: false, error: 'ERC20: transfer amount exceeds balance' });
+
+    expect(getInvoiceStatus(event, [payment, failed], SERVER, NOW)).toBe('open');
+    expect(getInvoiceStatus(event, [payment, failed], SERVER, NOW + 3600)).toBe('expired');
+    expect(getInvoiceStatus(invoice({ expiresAt: undefined }), [], SERVER, NOW + 10 ** 6)).toBe('open');
+  });
+
+  it('should ignore payments that do not match the invoice', () => {
+    const event = invoice();
+    const someoneElse = pay(event, 3, generateSecretKey());
+    const tooLittle = pay(event, 1);
+    const otherInvoice = pay(invoice({ description: 'Coffee' }));
+
+    expect(getInvoiceStatus(event, [someoneElse, tooLittle, otherInvoice], SERVER, NOW)).toBe('open');
+    expect(getInvoiceStatus(event, [createPaymentReceiptEvent(serverKey, { paymentRequestEvent: tooLittle, txHash: '0xabc', success: true })], SERVER, NOW)).toBe('open');
+    // Requests shown as a QR code can be paid by anyone
+    const open = invoice({ payer: undefined });
+    expect(getInvoiceStatus(open, [pay(open, 3, generateSecretKey())], SERVER, NOW)).toBe('pending');
+  });
+
+  it('should ignore receipts not signed by the payment processor', () => {
+    const event = invoice();
+    const payment = pay(event);
+    const forged = createPaymentReceiptEvent(payerKey, { paymentRequestEvent: payment, txHash: '0xabc', success: true });
+
+    expect(getInvoiceStatus(event, [forged], SERVER, NOW)).toBe('open');
+    expect(getInvoiceStatus(event, [payment, forged], SERVER, NOW)).toBe('pending');
+    expect(getInvoiceStatus(event, [payment, forged], null, NOW)).toBe('pending');
+
+    const failed = createPaymentReceiptEvent(payerKey, { paymentRequestEvent: payment, txHash: '0x0', success: false, error: 'forged' });
+    expect(getInvoiceStatus(event, [payment, failed], SERVER, NOW)).toBe('pending');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for encrypted key backups (NIP-49)
+ *
+ * - Backups round-trip with the right password only
+ * - Restoring checks the key against the profile bound to the badge
+ *
+ * @jest-environment node
+ */
+
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  KeyBackupError,
+  createKeyBackup,
+  decryptKeyBackup,
+  isNcryptsec,
+  restoreKeyBackup,
+} from '../key-backup';
+
+// Low scrypt cost to keep the tests fast
+const LOG_N = 4;
+
+const secretKey = generateSecretKey();
+const npub = nip19.npubEncode(getPublicKey(secretKey));
+
+function mockProfileResponse(body: unknown) {
+  return jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(body)));
+}
+
+describe('Key Backup', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should round-trip a key with the right password', () => {
+    const backup = createKeyBackup(secretKey, 'correct horse', LOG_N);
+
+    expect(isNcryptsec(backup)).toBe(true);
+    const restored = decryptKeyBackup(backup, 'correct horse');
+    expect(restored.npub).toBe(npub);
+    expect(restored.nsec).toBe(nip19.nsecEncode(secretKey));
+  });
+
+  it('should refuse a wrong password and things that are not backups', () => {
+    const backup = createKeyBackup(secretKey, 'correct horse', LOG_N);
+
+    expect(() => decryptKeyBackup(backup, 'wrong')).toThrow('Wrong password or damaged backup');
+    expect(() => decryptKeyBackup(nip19.nsecEncode(secretKey), 'x')).toThrow(KeyBackupError);
+    expect(() => createKeyBackup(secretKey, '', LOG_N)).toThrow('Please choose a backup password');
+  });
+
+  it('should restore a key that matches the badge owner', async () => {
+    const fetchMock = mockProfileResponse({ success: true, profile: { username: 'alice', npub } });
+    const backup = createKeyBackup(secretKey, 'pw', LOG_N);
+
+    const restored = await restoreKeyBackup(backup, 'pw', 'BADGE-001');
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/profile/BADGE-001', expect.anything());
+    expect(restored).toMatchObject({ username: 'alice', npub });
+  });
+
+  it('should refuse a key that belongs to someone else', async () => {
+    const otherNpub = nip19.npubEncode(getPublicKey(generateSecretKey()));
+    mockProfileResponse({ success: true, profile: { username: 'bob', npub: otherNpub } });
+    const backup = createKeyBackup(secretKey, 'pw', LOG_N);
+
+    await expect(restoreKeyBackup(backup, 'pw', 'BADGE-002')).rejects.toThrow('belongs to another villager');
+  });
+
+  it('should refuse badges without a profile', async () => {
+    mockProfileResponse({ success: false, error: 'Profile not found' });
+    const backup = createKeyBackup(secretKey, 'pw', LOG_N);
+
+    await expect(restoreKeyBackup(backup, 'pw', 'BADGE-003')).rejects.toThrow('not linked to a profile');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for JSONL log rotation, compaction and retention
+ *
+ * - Rotation by size and by day, gzip archives
+ * - Compaction of replaceable events (latest version wins across segments)
+ * - Pruning expired archives
+ * - Readers across segments (event index, notifications)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionPolicy,
+  applyRetention,
+  listLogArchives,
+  listLogSegments,
+  needsRotation,
+  readLogEntries,
+  runLogRetention,
+} from '../log-retention';
+import { queryNostrEvents, type NostrEvent } from '../nostr-logger';
+import { createStorageBackend } from '../storage-backend';
+import type { Notification } from '../notifications-utils';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-log-retention');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const LOG_PATH = path.join(TEST_DATA_DIR, 'nostr_events.jsonl');
+const ALICE = 'a'.repeat(64);
+
+const policy: RetentionPolicy = { ...DEFAULT_RETENTION_POLICY, rotateAtMB: 0, rotateDaily: true };
+
+let counter = 0;
+
+function makeEvent(kind: number, created_at: number, overrides: Partial<NostrEvent> = {}): NostrEvent {
+  counter++;
+  return {
+    id: counter.toString(16).padStart(64, '0'),
+    pubkey: ALICE,
+    created_at,
+    kind,
+    tags: [],
+    content: `Event ${counter}`,
+    sig: 'sig',
+    ...overrides,
+  };
+}
+
+function appendEvents(events: NostrEvent[], logPath = LOG_PATH): void {
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  const lines = events.map((event) =>
+    JSON.stringify({ timestamp: new Date(event.created_at * 1000).toISOString(), source: 'test', event })
+  );
+  fs.appendFileSync(logPath, lines.join('\n') + '\n');
+}
+
+function day(date: string): number {
+  return Math.floor(new Date(`${date}T12:00:00Z`).getTime() / 1000);
+}
+
+async function readEvents(logPath = LOG_PATH): Promise<NostrEvent[]> {
+  const entries = await readLogEntries<{ event: NostrEvent }>(logPath);
+  return entries.map((e) => e.event);
+}
+
+describe('Log Retention', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('needsRotation', () => {
+    it('should rotate when the log starts on an earlier day', () => {
+      appendEvents([makeEvent(1, day('2026-01-27'))]);
+
+      expect(needsRotation(LOG_PATH, policy, new Date('2026-01-27T23:00:00Z'))).toBe(false);
+      expect(needsRotation(LOG_PATH, policy, new Date('2026-01-28T00:10:00Z'))).toBe(true);
+      expect(
+        needsRotation(LOG_PATH, { ...policy, rotateDaily: false }, new Date('2026-01-28T00:10:00Z'))
+      ).toBe(false);
+    });
+
+    it('should rotate when the log reaches the size limit', () => {
+      appendEvents(Array.from({ length: 50 }, () => makeEvent(1, day('2026-01-27'), { content: 'x'.repeat(500) })));
+      const now = new Date('2026-01-27T13:00:00Z');
+
+      expect(needsRotation(LOG_PATH, { ...policy, rotateAtMB: 0.01 }, now)).toBe(true);
+      expect(needsRotation(LOG_PATH, { ...policy, rotateAtMB: 1 }, now)).toBe(false);
+    });
+
+    it('should not rotate a missing log', () => {
+      expect(needsRotation(LOG_PATH, policy)).toBe(false);
+    });
+  });
+
+  describe('applyRetention', () => {
+    it('should move the log to a gzipped archive and keep it readable', async () => {
+      const events = [makeEvent(1, day('2026-01-27')), makeEvent(7, day('2026-01-27'))];
+      appendEvents(events);
+
+      const result = await applyRetention(LOG_PATH, 'events', policy, new Date('2026-01-28T01:00:00Z'));
+
+      expect(result.rotatedTo).toBe(path.join(TEST_DATA_DIR, 'nostr_events.20260128-010000.jsonl.gz'));
+      expect(fs.existsSync(LOG_PATH)).toBe(false);
+
+      const later = makeEvent(1, day('2026-01-28'));
+      appendEvents([later]);
+
+      expect(listLogSegments(LOG_PATH)).toEqual([result.rotatedTo, LOG_PATH]);
+      expect((await readEvents()).map((e) => e.id)).toEqual([...events, later].map((e) => e.id));
+    });
+
+    it('should keep uncompressed archives when compression is off', async () => {
+      appendEvents([makeEvent(1, day('2026-01-27'))]);
+
+      const result = await applyRetention(
+        LOG_PATH,
+        'events',
+        { ...policy, compress: false },
+        new Date('2026-01-28T01:00:00Z')
+      );
+
+      expect(result.rotatedTo).toMatch(/nostr_events\.20260128-010000\.jsonl$/);
+    });
+
+    it('should not overwrite an archive from the same second', async () => {
+      const now = new Date('2026-01-28T01:00:00Z');
+      appendEvents([makeEvent(1, day('2026-01-27'))]);
+      await applyRetention(LOG_PATH, 'events', policy, now);
+      appendEvents([makeEvent(1, day('2026-01-27'))]);
+      await applyRetention(LOG_PATH, 'events', policy, now);
+
+      expect(listLogArchives(LOG_PATH).map((a) => path.basename(a))).toEqual([
+        'nostr_events.20260128-010000.jsonl.gz',
+        'nostr_events.20260128-010000-1.jsonl.gz',
+      ]);
+    });
+
+    it('should compact replaceable events down to their latest version', async () => {
+      const profileV1 = makeEvent(0, day('2026-01-26'));
+      const profileV2 = makeEvent(0, day('2026-01-26') + 60);
+      const calendarA1 = makeEvent(31922, day('2026-01-26'), { tags: [['d', 'a']] });
+      const calendarB = makeEvent(31922, day('2026-01-26'), { tags: [['d', 'b']] });
+      const note = makeEvent(1, day('2026-01-26'));
+      appendEvents([profileV1, profileV2, calendarA1, calendarB, note]);
+      const first = await applyRetention(LOG_PATH, 'events', policy, new Date('2026-01-27T01:00:00Z'));
+      expect(first.compacted).toBe(1);
+
+      // A newer version in the active log supersedes the archived one
+      const calendarA2 = makeEvent(31922, day('2026-01-27'), { tags: [['d', 'a']] });
+      appendEvents([calendarA2]);
+      const second = await applyRetention(LOG_PATH, 'events', policy, new Date('2026-01-28T01:00:00Z'));
+
+      expect(second.compacted).toBe(1);
+      expect((await readEvents()).map((e) => e.id)).toEqual(
+        [profileV2, calendarB, note, calendarA2].map((e) => e.id)
+      );
+    });
+
+    it('should delete archives past the retention age', async () => {
+      appendEvents([makeEvent(1, day('2026-01-01'))]);
+      await applyRetention(LOG_PATH, 'events', policy, new Date('2026-01-02T01:00:00Z'));
+      appendEvents([makeEvent(1, day('2026-01-20'))]);
+      await applyRetention(LOG_PATH, 'events', policy, new Date('2026-01-21T01:00:00Z'));
+
+      const result = await applyRetention(
+        LOG_PATH,
+        'events',
+        { ...policy, keepArchivesDays: 7 },
+        new Date('2026-01-22T01:00:00Z')
+      );
+
+      expect(result.pruned.map((a) => path.basename(a))).toEqual(['nostr_events.20260102-010000.jsonl.gz']);
+      expect(listLogArchives(LOG_PATH)).toHaveLength(1);
+    });
+  });
+
+  describe('readers', () => {
+    it('should query events across rotated segments', async () => {
+      const old = makeEvent(1, day('2026-01-27'));
+      appendEvents([old]);
+      expect(queryNostrEvents().entries).toHaveLength(1);
+
+      await runLogRetention(policy, new Date('2026-01-28T01:00:00Z'));
+      const recent = makeEvent(1, day('2026-01-28'));
+      appendEvents([recent]);
+
+      const page = queryNostrEvents({ limit: 1 });
+      expect(page.entries.map((e) => e.event.id)).toEqual([recent.id]);
+
+      const next = queryNostrEvents({ limit: 1, cursor: page.nextCursor! });
+      expect(next.entries.map((e) => e.event.id)).toEqual([old.id]);
+    });
+
+    it('should read and replace notifications across rotated segments', async () => {
+      const npub = 'npub1alice';
+      const storage = createStorageBackend('file');
+      const notification = (id: string, createdAt: string): Notification => ({
+        id,
+        type: 'token_receipt',
+        recipient: npub,
+        createdAt,
+        read: false,
+        amount: 1,
+      });
+
+      await storage.addNotification(notification('n1', '2026-01-27T10:00:00.000Z'));
+      const results = await runLogRetention(policy, new Date('2026-01-28T01:00:00Z'));
+      expect(results.find((r) => r.path.endsWith('notifications.jsonl'))?.rotatedTo).toBeTruthy();
+
+      await storage.addNotification(notification('n2', '2026-01-28T10:00:00.000Z'));
+      expect((await storage.getNotifications(npub)).map((n) => n.id)).toEqual(['n1', 'n2']);
+
+      await storage.replaceNotifications(npub, [notification('n2', '2026-01-28T10:00:00.000Z')]);
+      expect((await storage.getNotifications(npub)).map((n) => n.id)).toEqual(['n2']);
+      expect(listLogArchives(path.join(TEST_DATA_DIR, 'npubs', npub, 'notifications.jsonl'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for NIP-98 signed API requests
+ *
+ * - Headers created by createHttpAuthHeader verify on the server
+ * - URL, method, payload, age and signature checks
+ * - Replayed authorization events are rejected
+ * - withNostrAuth passes the pubkey to the handler or answers 401
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { createHttpAuthHeader } from '../nostr-events';
+import {
+  NIP98_MAX_AGE_SECONDS,
+  NostrAuthError,
+  clearSeenAuthEvents,
+  verifyNostrAuth,
+  withNostrAuth,
+} from '../nip98-auth';
+
+const URL_RSVP = 'http://localhost:3000/api/rsvp';
+
+const secretKey = generateSecretKey();
+const pubkey = getPublicKey(secretKey);
+
+async function signedRequest(
+  url: string,
+  method: string,
+  body?: string,
+  options: { signedUrl?: string; signedMethod?: string; signedBody?: string; headers?: Record<string, string> } = {}
+): Promise<NextRequest> {
+  const authorization = await createHttpAuthHeader(
+    secretKey,
+    options.signedUrl ?? url,
+    options.signedMethod ?? method,
+    options.signedBody ?? body
+  );
+  return new NextRequest(url, {
+    method,
+    body,
+    headers: { 'Content-Type': 'application/json', Authorization: authorization, ...options.headers },
+  });
+}
+
+describe('NIP-98 Auth', () => {
+  beforeEach(() => {
+    clearSeenAuthEvents();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('verifyNostrAuth', () => {
+    it('should return the signer of a valid request', async () => {
+      const request = await signedRequest(URL_RSVP, 'POST', JSON.stringify({ offerId: 'offer-1' }));
+
+      const auth = await verifyNostrAuth(request);
+
+      expect(auth.pubkey).toBe(pubkey);
+      expect(auth.npub).toBe(nip19.npubEncode(pubkey));
+      expect(auth.event.kind).toBe(27235);
+      // The handler can still read the body
+      expect(await request.json()).toEqual({ offerId: 'offer-1' });
+    });
+
+    it('should reject requests without a Nostr authorization', async () => {
+      await expect(verifyNostrAuth(new NextRequest(URL_RSVP, { method: 'POST' }))).rejects.toThrow(
+        'Missing Authorization header'
+      );
+      await expect(
+        verifyNostrAuth(new NextRequest(URL_RSVP, { method: 'POST', headers: { Authorization: 'Bearer abc' } }))
+      ).rejects.toThrow('Authorization scheme must be Nostr');
+    });
+
+    it('should reject a header signed for another URL or method', async () => {
+      await expect(
+        verifyNostrAuth(await signedRequest(URL_RSVP, 'DELETE', undefined, { signedUrl: 'http://localhost:3000/api/offers' }))
+      ).rejects.toThrow('different URL');
+      await expect(
+        verifyNostrAuth(await signedRequest(URL_RSVP, 'DELETE', undefined, { signedMethod: 'POST' }))
+      ).rejects.toThrow('different method');
+    });
+
+    it('should reject a body that does not match the payload hash', async () => {
+      const request = await signedRequest(URL_RSVP, 'POST', JSON.stringify({ offerId: 'offer-2' }), {
+        signedBody: JSON.stringify({ offerId: 'offer-1' }),
+      });
+
+      await expect(verifyNostrAuth(request)).rejects.toThrow('does not match the request body');
+    });
+
+    it('should require a payload hash for JSON bodies', async () => {
+      const request = await signedRequest(URL_RSVP, 'POST', JSON.stringify({ offerId: 'offer-1' }), {
+        signedBody: '',
+      });
+
+      await expect(verifyNostrAuth(request)).rejects.toThrow('does not match the request body');
+    });
+
+    it('should reject expired events', async () => {
+      jest.useFakeTimers({ now: Date.now() - (NIP98_MAX_AGE_SECONDS + 5) * 1000 });
+      const request = await signedRequest(URL_RSVP, 'DELETE');
+      jest.useRealTimers();
+
+      await expect(verifyNostrAuth(request)).rejects.toThrow('expired');
+    });
+
+    it('should reject a tampered signature', async () => {
+      const request = await signedRequest(URL_RSVP, 'DELETE');
+      const event = JSON.parse(
+        Buffer.from(request.headers.get('authorization')!.slice('Nostr '.length), 'base64').toString()
+      );
+      event.pubkey = getPublicKey(generateSecretKey());
+      const forged = new NextRequest(URL_RSVP, {
+        method: 'DELETE',
+        headers: { Authorization: `Nostr ${Buffer.from(JSON.stringify(event)).toString('base64')}` },
+      });
+
+      await expect(verifyNostrAuth(forged)).rejects.toThrow('Invalid authorization event signature');
+    });
+
+    it('should accept each authorization event only once', async () => {
+      const request = await signedRequest(URL_RSVP, 'DELETE');
+      const replay = new NextRequest(URL_RSVP, { method: 'DELETE', headers: request.headers });
+
+      await verifyNostrAuth(request);
+
+      await expect(verifyNostrAuth(replay)).rejects.toThrow('already been used');
+    });
+
+    it('should use APP_URL behind a reverse proxy and ignore the host headers', async () => {
+      process.env.APP_URL = 'https://app.example.org';
+      try {
+        const request = await signedRequest('http://127.0.0.1:3000/api/rsvp?x=1', 'DELETE', undefined, {
+          signedUrl: 'https://app.example.org/api/rsvp?x=1',
+        });
+        const forged = await signedRequest('http://127.0.0.1:3000/api/rsvp?x=1', 'DELETE', undefined, {
+          signedUrl: 'https://evil.example.com/api/rsvp?x=1',
+          headers: { Host: 'evil.example.com', 'X-Forwarded-Host': 'evil.example.com' },
+        });
+
+        expect((await verifyNostrAuth(request)).pubkey).toBe(pubkey);
+        await expect(verifyNostrAuth(forged)).rejects.toThrow('different URL');
+      } finally {
+        delete process.env.APP_URL;
+      }
+    });
+  });
+
+  describe('withNostrAuth', () => {
+    const handler = withNostrAuth(async (_request: NextRequest, context: { id: string }, auth) =>
+      NextResponse.json({ success: true, id: context.id, npub: auth.npub })
+    );
+
+    it('should pass the authenticated npub to the handler', async () => {
+      const response = await handler(await signedRequest(URL_RSVP, 'DELETE'), { id: 'offer-1' });
+
+      expect(await response.json()).toEqual({ success: true, id: 'offer-1', npub: nip19.npubEncode(pubkey) });
+    });
+
+    it('should answer 401 for unsigned requests', async () => {
+      const response = await handler(new NextRequest(URL_RSVP, { method: 'DELETE' }), { id: 'offer-1' });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe('Nostr');
+      expect(await response.json()).toEqual({ success: false, error: 'Unauthorized: Missing Authorization header' });
+    });
+
+    it('should let unexpected errors through', async () => {
+      const failing = withNostrAuth(async () => {
+        throw new NostrAuthError('from handler', 403);
+      });
+
+      await expect(failing(await signedRequest(URL_RSVP, 'DELETE'), {})).rejects.toThrow('from handler');
+    });
+  });
+});
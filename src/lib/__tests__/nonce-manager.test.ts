@@ -0,0 +1,80 @@
+/**
+ * Tests for sequential nonces
+ *
+ * @jest-environment node
+ */
+
+import { NonceManager, isNonceError } from '../nonce-manager';
+
+describe('NonceManager', () => {
+  it('should hand out sequential nonces to concurrent submissions', async () => {
+    // The chain counts each transaction once it is sent
+    let pending = 5;
+    const nonces = new NonceManager(async () => pending, { syncIntervalMs: 1 });
+    const used: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        nonces.withNonce(async (nonce) => {
+          used.push(nonce);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          pending++;
+        })
+      )
+    );
+
+    expect(used).toEqual([5, 6, 7]);
+    expect(nonces.peek()).toBe(8);
+  });
+
+  it('should wait for a lagging RPC node before the next submission', async () => {
+    const fetchPendingNonce = jest.fn()
+      .mockResolvedValueOnce(5)
+      .mockResolvedValueOnce(5)
+      .mockResolvedValueOnce(5)
+      .mockResolvedValue(6);
+    const nonces = new NonceManager(fetchPendingNonce, { syncIntervalMs: 1 });
+
+    await nonces.withNonce(async () => undefined);
+    const submit = jest.fn().mockResolvedValue(undefined);
+    await nonces.withNonce(submit);
+
+    expect(submit).toHaveBeenCalledWith(6);
+    expect(fetchPendingNonce).toHaveBeenCalledTimes(4);
+  });
+
+  it('should resync from the chain when the RPC node does not catch up', async () => {
+    const fetchPendingNonce = jest.fn().mockResolvedValue(5);
+    const nonces = new NonceManager(fetchPendingNonce, { syncTimeoutMs: 5, syncIntervalMs: 1 });
+    await nonces.withNonce(async () => undefined);
+
+    const submit = jest.fn();
+    await expect(nonces.withNonce(submit)).rejects.toThrow('Invalid nonce');
+    expect(submit).not.toHaveBeenCalled();
+    expect(nonces.peek()).toBeNull();
+
+    expect(await nonces.withNonce(async (nonce) => nonce)).toBe(5);
+  });
+
+  it('should not use up the nonce of a failed submission', async () => {
+    const nonces = new NonceManager(jest.fn().mockResolvedValue(0));
+
+    await expect(nonces.withNonce(async () => { throw new Error('execution reverted'); })).rejects.toThrow('reverted');
+    expect(await nonces.withNonce(async (nonce) => nonce)).toBe(0);
+  });
+
+  it('should resync from the chain after a nonce error', async () => {
+    let pending = 3;
+    const nonces = new NonceManager(async () => pending, { syncIntervalMs: 1 });
+    await nonces.withNonce(async () => { pending++; });
+    await nonces.withNonce(async () => { pending++; });
+    expect(nonces.peek()).toBe(5);
+
+    await expect(nonces.withNonce(async () => { throw new Error('nonce too low'); })).rejects.toThrow();
+    expect(nonces.peek()).toBeNull();
+
+    pending = 9;
+    expect(await nonces.withNonce(async (nonce) => nonce)).toBe(9);
+    expect(isNonceError(new Error('replacement transaction underpriced'))).toBe(true);
+  });
+});
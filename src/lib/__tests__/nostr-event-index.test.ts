@@ -0,0 +1,242 @@
+/**
+ * Tests for the indexed NOSTR event log queries
+ *
+ * - NIP-01 style filters (kinds, authors, e/p/d tags, since/until)
+ * - Cursor pagination (no gaps or duplicates within the same second)
+ * - Incremental indexing, replaced logs and the persisted index
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  NostrEventIndex,
+  getEventIndex,
+  parseEventFilterParams,
+} from '../nostr-event-index';
+import { queryNostrEvents, readAllNostrEvents, type NostrEvent } from '../nostr-logger';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-nostr-event-index');
+const LOG_PATH = path.join(TEST_DATA_DIR, 'nostr_events.jsonl');
+
+let counter = 0;
+
+function makeEvent(kind: number, created_at: number, overrides: Partial<NostrEvent> = {}): NostrEvent {
+  counter++;
+  return {
+    id: counter.toString(16).padStart(64, '0'),
+    pubkey: 'a'.repeat(64),
+    created_at,
+    kind,
+    tags: [],
+    content: `Event ${counter}`,
+    sig: 'sig',
+    ...overrides,
+  };
+}
+
+function appendEvents(events: NostrEvent[], logPath = LOG_PATH): void {
+  const lines = events.map((event) =>
+    JSON.stringify({ timestamp: new Date(event.created_at * 1000).toISOString(), source: 'test', event })
+  );
+  fs.appendFileSync(logPath, lines.join('\n') + '\n');
+}
+
+function ids(page: { entries: { event: NostrEvent }[] }): string[] {
+  return page.entries.map((e) => e.event.id);
+}
+
+describe('NostrEventIndex', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.DATA_DIR = TEST_DATA_DIR;
+  });
+
+  afterAll(() => {
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('filters', () => {
+    it('should return events newest first', () => {
+      const events = [makeEvent(1, 100), makeEvent(1, 300), makeEvent(1, 200)];
+      appendEvents(events);
+
+      const page = new NostrEventIndex(LOG_PATH).query();
+      expect(ids(page)).toEqual([events[1].id, events[2].id, events[0].id]);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should filter by kinds, authors and tags', () => {
+      const bob = 'b'.repeat(64);
+      const offer = makeEvent(31922, 100, { tags: [['d', 'offer-1']] });
+      const rsvp = makeEvent(7, 200, { pubkey: bob, tags: [['e', offer.id], ['p', offer.pubkey]] });
+      const note = makeEvent(1, 300, { pubkey: bob });
+      appendEvents([offer, rsvp, note]);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(ids(index.query({ kinds: [7, 31922] }))).toEqual([rsvp.id, offer.id]);
+      expect(ids(index.query({ authors: [bob] }))).toEqual([note.id, rsvp.id]);
+      expect(ids(index.query({ authors: [bob], kinds: [1] }))).toEqual([note.id]);
+      expect(ids(index.query({ '#e': [offer.id] }))).toEqual([rsvp.id]);
+      expect(ids(index.query({ '#p': [offer.pubkey] }))).toEqual([rsvp.id]);
+      expect(ids(index.query({ '#d': ['offer-1'] }))).toEqual([offer.id]);
+      expect(ids(index.query({ ids: [note.id, offer.id] }))).toEqual([note.id, offer.id]);
+      expect(ids(index.query({ kinds: [0] }))).toEqual([]);
+    });
+
+    it('should apply since and until inclusively', () => {
+      const events = [100, 200, 300, 400].map((t) => makeEvent(1, t));
+      appendEvents(events);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(ids(index.query({ since: 200, until: 300 }))).toEqual([events[2].id, events[1].id]);
+    });
+
+    it('should skip duplicates and malformed lines', () => {
+      const event = makeEvent(1, 100);
+      appendEvents([event, event]);
+      fs.appendFileSync(LOG_PATH, 'not json\n');
+      // Old format: raw event
+      fs.appendFileSync(LOG_PATH, JSON.stringify(makeEvent(0, 50)) + '\n');
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(index.size).toBe(2);
+      expect(index.countByKind()).toEqual({ 0: 1, 1: 1 });
+    });
+  });
+
+  describe('pagination', () => {
+    it('should walk every event exactly once with cursors', () => {
+      // Several events per second, as during a busy event
+      const events = Array.from({ length: 25 }, (_, i) => makeEvent(1, 1000 + Math.floor(i / 4)));
+      appendEvents(events);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+
+      do {
+        const page = index.query({ limit: 10, cursor });
+        seen.push(...ids(page));
+        cursor = page.nextCursor || undefined;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(seen).toHaveLength(25);
+      expect(new Set(seen).size).toBe(25);
+    });
+
+    it('should not return a cursor when the last page is exactly full', () => {
+      appendEvents([makeEvent(1, 100), makeEvent(1, 200)]);
+
+      expect(new NostrEventIndex(LOG_PATH).query({ limit: 2 }).nextCursor).toBeNull();
+    });
+  });
+
+  describe('incremental indexing', () => {
+    it('should pick up appended events and wait for incomplete lines', () => {
+      const first = makeEvent(1, 100);
+      appendEvents([first]);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(index.size).toBe(1);
+
+      const second = makeEvent(1, 200);
+      const line = JSON.stringify({ timestamp: '', source: 'test', event: second });
+      fs.appendFileSync(LOG_PATH, line.slice(0, 20));
+      expect(index.size).toBe(1);
+
+      fs.appendFileSync(LOG_PATH, line.slice(20) + '\n');
+      expect(ids(index.query())).toEqual([second.id, first.id]);
+    });
+
+    it('should rebuild when the log is replaced', () => {
+      appendEvents([makeEvent(1, 100), makeEvent(1, 200)]);
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(index.size).toBe(2);
+
+      fs.unlinkSync(LOG_PATH);
+      const replacement = makeEvent(7, 300);
+      appendEvents([replacement]);
+
+      expect(ids(index.query())).toEqual([replacement.id]);
+    });
+
+    it('should return nothing for a missing log', () => {
+      expect(new NostrEventIndex(LOG_PATH).query()).toEqual({ entries: [], nextCursor: null });
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist large indexes and load them in a new process', () => {
+      const events = Array.from({ length: 600 }, (_, i) => makeEvent(i % 2 ? 1 : 7, 1000 + i));
+      appendEvents(events);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(index.size).toBe(600);
+      expect(fs.existsSync(index.indexPath)).toBe(true);
+
+      const later = makeEvent(1, 5000);
+      appendEvents([later]);
+
+      const reloaded = new NostrEventIndex(LOG_PATH);
+      const page = reloaded.query({ kinds: [1], limit: 2 });
+      expect(ids(page)).toEqual([later.id, events[599].id]);
+      expect(reloaded.size).toBe(601);
+    });
+
+    it('should ignore a persisted index for another log', () => {
+      appendEvents(Array.from({ length: 600 }, (_, i) => makeEvent(1, 1000 + i)));
+      new NostrEventIndex(LOG_PATH).query();
+
+      fs.unlinkSync(LOG_PATH);
+      const events = Array.from({ length: 601 }, (_, i) => makeEvent(7, 2000 + i));
+      appendEvents(events);
+
+      const index = new NostrEventIndex(LOG_PATH);
+      expect(index.countByKind()).toEqual({ 7: 601 });
+    });
+  });
+
+  describe('global log helpers', () => {
+    it('should share one index per file', () => {
+      expect(getEventIndex(LOG_PATH)).toBe(getEventIndex(LOG_PATH));
+    });
+
+    it('should query the global log from DATA_DIR', () => {
+      const events = [makeEvent(1, 100), makeEvent(7, 200), makeEvent(1, 300)];
+      appendEvents(events);
+
+      expect(ids(queryNostrEvents({ kinds: [1] }))).toEqual([events[2].id, events[0].id]);
+      expect(readAllNostrEvents({ limit: 1, offset: 1 }).map((e) => e.event.id)).toEqual([
+        events[1].id,
+      ]);
+    });
+  });
+
+  describe('parseEventFilterParams', () => {
+    it('should parse lists, timestamps and cap the limit', () => {
+      const params = new URLSearchParams('kinds=1,7,x&pubkeys=abc&e=e1,e2&since=100&until=200&limit=9999&cursor=200:abc');
+
+      expect(parseEventFilterParams(params, { defaultLimit: 20, maxLimit: 500 })).toEqual({
+        kinds: [1, 7],
+        authors: ['abc'],
+        '#e': ['e1', 'e2'],
+        '#p': undefined,
+        '#d': undefined,
+        since: 100,
+        until: 200,
+        cursor: '200:abc',
+        limit: 500,
+      });
+    });
+
+    it('should use the default limit', () => {
+      const filter = parseEventFilterParams(new URLSearchParams(), { defaultLimit: 20, maxLimit: 500 });
+      expect(filter.limit).toBe(20);
+      expect(filter.kinds).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for batched mints and transfers
+ *
+ * - Payments are grouped by chain, token and method
+ * - A batch is one transaction that goes through or reverts as a whole
+ * - Tokens without batch methods (the chain tokens) never batch
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { MemoryToken, type TokenBackend } from '../token-backend';
+import { canBatch, groupPaymentBatches, isBatchMethod, sendPaymentBatch, type BatchPayment } from '../payment-batch';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-payment-batch');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const OTHER_TOKEN = '0x00000000000000000000000000000000000000bb';
+const SERVER = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const ALICE = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+let nextId = 0;
+
+function payment(overrides: Partial<BatchPayment> = {}): BatchPayment {
+  return {
+    requestId: `request-${nextId++}`,
+    method: 'mint',
+    chainId: 1337,
+    tokenAddress: TOKEN,
+    sender: SERVER,
+    recipient: ALICE,
+    amount: 50,
+    ...overrides,
+  };
+}
+
+describe('Payment batches', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should group payments by chain, token and method, in order', () => {
+    const mints = [payment(), payment({ recipient: BOB }), payment()];
+    const transfer = payment({ method: 'transfer', sender: ALICE, recipient: BOB, amount: 1 });
+    const otherToken = payment({ tokenAddress: OTHER_TOKEN });
+
+    const batches = groupPaymentBatches([mints[0], transfer, mints[1], otherToken, mints[2]], 2);
+
+    expect(batches).toEqual([[mints[0], mints[1]], [mints[2]], [transfer], [otherToken]]);
+    expect(isBatchMethod('burn')).toBe(false);
+  });
+
+  it('should mint and transfer a batch in one transaction', async () => {
+    const token = new MemoryToken(TOKEN);
+
+    const mintHash = await sendPaymentBatch(token, [payment(), payment({ recipient: BOB, amount: 20 })]);
+    const transferHash = await sendPaymentBatch(token, [
+      payment({ method: 'transfer', sender: ALICE, recipient: BOB, amount: 1 }),
+      payment({ method: 'transfer', sender: BOB, recipient: ALICE, amount: 5 }),
+    ]);
+
+    expect(mintHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(transferHash).not.toBe(mintHash);
+    expect(await token.getBalance(`nostr:${ALICE}`)).toBe(BigInt(54_000_000));
+    expect(await token.getBalance(`nostr:${BOB}`)).toBe(BigInt(16_000_000));
+    expect(await token.getTransactionCount()).toBe(2);
+  });
+
+  it('should revert the whole batch when one payment fails', async () => {
+    const token = new MemoryToken(TOKEN);
+    await token.mintTo(1, `nostr:${ALICE}`);
+
+    await expect(
+      sendPaymentBatch(token, [
+        payment({ method: 'transfer', sender: ALICE, recipient: BOB, amount: 1 }),
+        payment({ method: 'transfer', sender: ALICE, recipient: BOB, amount: 1 }),
+      ])
+    ).rejects.toThrow('ERC20: transfer amount exceeds balance');
+
+    expect(await token.getBalance(`nostr:${ALICE}`)).toBe(BigInt(1_000_000));
+    expect(await token.getBalance(`nostr:${BOB}`)).toBe(BigInt(0));
+  });
+
+  it('should not batch with a token without batch methods', async () => {
+    // Like the token-factory Token used on chains
+    const chainToken: TokenBackend = {
+      mintTo: jest.fn().mockResolvedValue('0x1'),
+      burnFrom: jest.fn().mockResolvedValue('0x2'),
+      transfer: jest.fn().mockResolvedValue('0x3'),
+      getBalance: jest.fn().mockResolvedValue(BigInt(0)),
+    };
+    const transfers = [
+      payment({ method: 'transfer', sender: ALICE, recipient: BOB, amount: 1 }),
+      payment({ method: 'transfer', sender: BOB, recipient: ALICE, amount: 1 }),
+    ];
+
+    expect(canBatch(chainToken, 'mint')).toBe(false);
+    expect(canBatch(chainToken, 'transfer')).toBe(false);
+    await expect(sendPaymentBatch(chainToken, transfers)).rejects.toThrow("Token can't batch transfers");
+    expect(chainToken.transfer).not.toHaveBeenCalled();
+    expect(chainToken.mintTo).not.toHaveBeenCalled();
+  });
+
+  it('should refuse batches the token cannot submit', async () => {
+    const single: TokenBackend = {
+      mintTo: jest.fn(),
+      burnFrom: jest.fn(),
+      transfer: jest.fn(),
+      getBalance: jest.fn(),
+    };
+
+    expect(canBatch(single, 'mint')).toBe(false);
+    expect(canBatch(new MemoryToken(TOKEN), 'transfer')).toBe(true);
+    await expect(sendPaymentBatch(single, [payment(), payment()])).rejects.toThrow("Token can't batch mints");
+    await expect(
+      sendPaymentBatch(new MemoryToken(TOKEN), [payment(), payment({ method: 'transfer' })])
+    ).rejects.toThrow('same method');
+  });
+});
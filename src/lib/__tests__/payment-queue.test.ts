@@ -0,0 +1,102 @@
+/**
+ * Tests for the payment processor work queue
+ *
+ * - Requests are queued once and move through their states
+ * - Jobs interrupted while submitting are dead-lettered on restart
+ * - Dead letters can be replayed
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { createPaymentRequestEvent, type NostrEvent } from '../nostr-events';
+import {
+  enqueuePayment,
+  getLatestRequestTime,
+  getPaymentJob,
+  isRetryablePaymentError,
+  isUncertainJob,
+  listDeadLetters,
+  listPaymentJobs,
+  recoverInterruptedJobs,
+  replayDeadLetter,
+  updatePaymentJob,
+} from '../payment-queue';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-payment-queue');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const SERVER = nip19.npubEncode(getPublicKey(serverKey));
+const ALICE = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+function mintRequest(amount = 50): NostrEvent {
+  return createPaymentRequestEvent(serverKey, {
+    sender: SERVER,
+    recipient: ALICE,
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    amount,
+    tokenAddress: '0x0000000000000000000000000000000000000003',
+    chainId: 100,
+    context: 'badge_claim',
+    method: 'mint',
+  });
+}
+
+describe('Payment queue', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should queue a request once and track its progress', async () => {
+    const event = mintRequest();
+
+    expect(await enqueuePayment(event)).toMatchObject({ requestId: event.id, status: 'received', attempts: 0 });
+    expect(await enqueuePayment(event)).toBeNull();
+
+    await updatePaymentJob(event.id, { status: 'submitting', nonce: 7, attempts: 1 });
+    await updatePaymentJob(event.id, { status: 'submitted', txHash: '0xabc' });
+
+    expect(await getPaymentJob(event.id)).toMatchObject({ status: 'submitted', nonce: 7, attempts: 1, txHash: '0xabc' });
+    expect(await listPaymentJobs(['received', 'submitted'])).toHaveLength(1);
+    expect(await updatePaymentJob('unknown', { status: 'confirmed' })).toBeNull();
+    expect(await getLatestRequestTime()).toBe(event.created_at);
+  });
+
+  it('should dead-letter interrupted jobs and replay them', async () => {
+    const interrupted = mintRequest(1);
+    const confirmed = mintRequest(2);
+    await enqueuePayment(interrupted);
+    await enqueuePayment(confirmed);
+    await updatePaymentJob(interrupted.id, { status: 'submitting', nonce: 3, attempts: 1 });
+    await updatePaymentJob(confirmed.id, { status: 'confirmed', txHash: '0xabc' });
+
+    const recovered = await recoverInterruptedJobs();
+
+    expect(recovered.map((job) => job.requestId)).toEqual([interrupted.id]);
+    expect(await listDeadLetters()).toEqual([
+      expect.objectContaining({ requestId: interrupted.id, status: 'failed', error: expect.stringMatching(/nonce 3.*check the chain/) }),
+    ]);
+    expect(isUncertainJob(recovered[0])).toBe(true);
+
+    const replayed = await replayDeadLetter(interrupted.id);
+    expect(replayed).toMatchObject({ status: 'received', attempts: 0, replays: 1 });
+    expect(replayed?.error).toBeUndefined();
+    expect(await listDeadLetters()).toEqual([]);
+    expect(await replayDeadLetter(confirmed.id)).toBeNull();
+  });
+
+  it('should only retry RPC and nonce errors', () => {
+    expect(isRetryablePaymentError(new Error('nonce too low'))).toBe(true);
+    expect(isRetryablePaymentError(new Error('request timed out'))).toBe(true);
+    expect(isRetryablePaymentError(new Error('HTTP request failed. Status: 503'))).toBe(true);
+    expect(isRetryablePaymentError(new Error('ERC20: transfer amount exceeds balance'))).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for balance reconciliation
+ *
+ * - Balances matching their receipts are counted as matched
+ * - Discrepancies list the unconfirmed requests that could explain them
+ * - Balances that can't be fetched are reported as errors
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  createPaymentReceiptEvent,
+  createPaymentRequestEvent,
+  type NostrEvent,
+  type PaymentRequestOptions,
+} from '../nostr-events';
+import { logNostrEvent, logNostrEventToAll } from '../nostr-logger';
+import { getStorageBackend } from '../storage-backend';
+import { enqueuePayment, updatePaymentJob } from '../payment-queue';
+import { reconcileBalances } from '../reconciliation';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-reconciliation');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const aliceKey = generateSecretKey();
+const SERVER = nip19.npubEncode(getPublicKey(serverKey));
+const ALICE = nip19.npubEncode(getPublicKey(aliceKey));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+
+function request(
+  secretKey: Uint8Array,
+  options: Pick<PaymentRequestOptions, 'sender' | 'recipient' | 'amount' | 'context' | 'method'>
+): NostrEvent {
+  const event = createPaymentRequestEvent(secretKey, {
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    senderAddress: '0x0000000000000000000000000000000000000002',
+    tokenAddress: '0x0000000000000000000000000000000000000003',
+    chainId: 100,
+    ...options,
+  });
+  logNostrEventToAll(event);
+  return event;
+}
+
+function receipt(paymentRequestEvent: NostrEvent, npubs: string[]): void {
+  const event = createPaymentReceiptEvent(serverKey, { paymentRequestEvent, txHash: '0xabc', success: true });
+  for (const npub of npubs) {
+    logNostrEvent(npub, event);
+  }
+}
+
+function balances(tokens: Record<string, number>) {
+  return async (npub: string) => {
+    if (!(npub in tokens)) throw new Error('RPC error');
+    return BigInt(Math.round(tokens[npub] * 1e6));
+  };
+}
+
+describe('Reconciliation', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+
+    const storage = getStorageBackend();
+    await storage.setupBadge('0001');
+    await storage.createProfile('0001', 'alice', ALICE);
+    await storage.setupBadge('0002');
+    await storage.createProfile('0002', 'bob', BOB);
+
+    const mint = request(serverKey, { sender: SERVER, recipient: ALICE, amount: 50, context: 'badge_claim', method: 'mint' });
+    receipt(mint, [ALICE]);
+    const rsvp = request(aliceKey, { sender: ALICE, recipient: BOB, amount: 1.5, context: 'rsvp', method: 'transfer' });
+    receipt(rsvp, [ALICE, BOB]);
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should match balances that agree with their receipts', async () => {
+    const report = await reconcileBalances({ getBalance: balances({ [ALICE]: 48.5, [BOB]: 1.5 }) });
+
+    expect(report).toMatchObject({ profiles: 2, matched: 2, discrepancies: [], errors: [] });
+  });
+
+  it('should list the requests behind a discrepancy', async () => {
+    // The processor burned the tokens but crashed before publishing the receipt
+    const burn = request(aliceKey, { sender: ALICE, recipient: ALICE, amount: 2, context: 'offer_creation', method: 'burn' });
+    await enqueuePayment(burn);
+    await updatePaymentJob(burn.id, { status: 'submitted', txHash: '0xdef' });
+    const refund = request(serverKey, { sender: SERVER, recipient: ALICE, amount: 1, context: 'refund', method: 'mint' });
+    const offer = request(aliceKey, { sender: ALICE, recipient: ALICE, amount: 1, context: 'offer_creation', method: 'burn' });
+
+    const report = await reconcileBalances({ getBalance: balances({ [ALICE]: 46.5, [BOB]: 1.5 }) });
+
+    expect(report.matched).toBe(1);
+    expect(report.discrepancies).toHaveLength(1);
+    expect(report.discrepancies[0]).toMatchObject({
+      npub: ALICE,
+      username: 'alice',
+      expected: 48.5,
+      actual: 46.5,
+      difference: -2,
+    });
+    expect(report.discrepancies[0].candidates).toEqual([
+      expect.objectContaining({ eventId: burn.id, status: 'pending', queueStatus: 'submitted', txHash: '0xdef', matchesDifference: true }),
+      expect.objectContaining({ eventId: offer.id, matchesDifference: false }),
+    ]);
+    expect(report.discrepancies[0].candidates.map((c) => c.eventId)).not.toContain(refund.id);
+  });
+
+  it('should report balances that cannot be fetched', async () => {
+    const report = await reconcileBalances({ npubs: [BOB, ALICE], getBalance: balances({ [BOB]: 1.5 }) });
+
+    expect(report).toMatchObject({ profiles: 2, matched: 1, errors: [{ npub: ALICE, error: 'RPC error' }] });
+  });
+});
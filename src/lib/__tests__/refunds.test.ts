@@ -0,0 +1,164 @@
+/**
+ * Tests for refunds of cancelled offers
+ *
+ * - The author and every active RSVP holder get a pending refund request
+ * - Co-authors' rewards are burned, and every request passes the payment processor's checks
+ * - Receipts settle refunds once, and attendees are notified then
+ * - Late private booking cancellations aren't refunded
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { isEligibleForRefund, listRefunds, refundCancelledOffer, settleRefund } from '../refunds';
+import { validatePaymentRequest } from '../payment-validation';
+import type { NostrEvent } from '../nostr-events';
+import { getStorageBackend } from '../storage-backend';
+import { publishNostrEvent } from '../nostr-server';
+import { notifyWorkshopCancelled } from '../notification-triggers';
+import type { Offer } from '@/types';
+
+jest.mock('../token-factory', () => ({
+  getWalletAddressForNpub: jest.fn().mockResolvedValue('0x0000000000000000000000000000000000000001'),
+}));
+jest.mock('../nostr-server', () => ({
+  publishNostrEvent: jest.fn().mockResolvedValue({ published: [], failed: [] }),
+}));
+jest.mock('../notification-triggers', () => ({
+  notifyWorkshopCancelled: jest.fn().mockResolvedValue(undefined),
+}));
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-refunds');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const SERVER = nip19.npubEncode(getPublicKey(serverKey));
+const [AUTHOR, ALICE, BOB] = [1, 2, 3].map(() => nip19.npubEncode(getPublicKey(generateSecretKey())));
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: [AUTHOR],
+    tags: [],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'cancelled',
+    publicationCost: 2,
+    ...overrides,
+  };
+}
+
+function parseMethod(event: NostrEvent): string | undefined {
+  return event.tags.find(([name]) => name === 'method')?.[1];
+}
+
+describe('Refunds', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    jest.clearAllMocks();
+    process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+    process.env.TOKEN_ADDRESS = '0x0000000000000000000000000000000000000003';
+
+    const storage = getStorageBackend();
+    const rsvp = { offerId: 'offer-1', createdAt: '2026-01-21T10:00:00.000Z', tokensPaid: 1 };
+    await storage.appendRsvp({ ...rsvp, npub: ALICE, status: 'active' });
+    await storage.appendRsvp({ ...rsvp, npub: BOB, status: 'active' });
+    await storage.appendRsvp({ ...rsvp, npub: BOB, status: 'cancelled' });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    delete process.env.NOSTR_NSEC;
+    delete process.env.TOKEN_ADDRESS;
+  });
+
+  it('should issue pending refunds to the author and active RSVP holders', async () => {
+    const result = await refundCancelledOffer(makeOffer(), AUTHOR);
+
+    expect(result).toMatchObject({ eligible: true, author: 2, attendees: 1 });
+    expect(result.refunds).toEqual([
+      expect.objectContaining({ reason: 'publication', sender: SERVER, recipient: AUTHOR, amount: 2, status: 'pending' }),
+      expect.objectContaining({ reason: 'rsvp', sender: SERVER, recipient: ALICE, amount: 1, status: 'pending' }),
+      expect.objectContaining({ reason: 'reclaim', sender: AUTHOR, recipient: AUTHOR, amount: 1, status: 'pending' }),
+    ]);
+    expect(publishNostrEvent).toHaveBeenCalledTimes(3);
+    expect(notifyWorkshopCancelled).not.toHaveBeenCalled();
+    expect(await listRefunds('offer-1')).toHaveLength(3);
+  });
+
+  it('should only issue requests the payment processor accepts', async () => {
+    await refundCancelledOffer(makeOffer({ authors: [AUTHOR, BOB] }), AUTHOR);
+
+    const events = jest.mocked(publishNostrEvent).mock.calls.map(([event]) => event as NostrEvent);
+    expect(events.map((event) => parseMethod(event))).toEqual(['mint', 'mint', 'burn', 'burn']);
+    for (const event of events) {
+      expect(validatePaymentRequest(event, serverKey)).toHaveProperty('request');
+    }
+  });
+
+  it('should settle a refund once and notify the attendee', async () => {
+    const { refunds } = await refundCancelledOffer(makeOffer(), AUTHOR);
+    const attendeeRefund = refunds.find((refund) => refund.recipient === ALICE)!;
+
+    const settled = await settleRefund(attendeeRefund.requestId, { success: true, txHash: '0xabc' });
+
+    expect(settled).toMatchObject({ status: 'settled', txHash: '0xabc' });
+    expect(notifyWorkshopCancelled).toHaveBeenCalledWith(
+      expect.objectContaining({ workshopId: 'offer-1', rsvpedUserNpubs: [ALICE], refundAmount: 1 })
+    );
+    expect(await settleRefund(attendeeRefund.requestId, { success: true, txHash: '0xabc' })).toBeNull();
+    expect(await settleRefund('unknown', { success: true, txHash: '0xabc' })).toBeNull();
+    expect(notifyWorkshopCancelled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reclaim each co-author share without notifying anyone', async () => {
+    const { refunds } = await refundCancelledOffer(makeOffer({ authors: [AUTHOR, BOB] }), AUTHOR);
+    const reclaims = refunds.filter((refund) => refund.reason === 'reclaim');
+
+    expect(reclaims).toEqual([
+      expect.objectContaining({ sender: AUTHOR, recipient: AUTHOR, amount: 0.5 }),
+      expect.objectContaining({ sender: BOB, recipient: BOB, amount: 0.5 }),
+    ]);
+
+    await settleRefund(reclaims[0].requestId, { success: false, error: 'burn amount exceeds balance' });
+    await settleRefund(reclaims[1].requestId, { success: true, txHash: '0xdef' });
+    expect(notifyWorkshopCancelled).not.toHaveBeenCalled();
+  });
+
+  it('should record failed refunds and still notify the attendee', async () => {
+    const { refunds } = await refundCancelledOffer(makeOffer(), AUTHOR);
+    const attendeeRefund = refunds.find((refund) => refund.recipient === ALICE)!;
+
+    const failed = await settleRefund(attendeeRefund.requestId, { success: false, error: 'insufficient balance' });
+
+    expect(failed).toMatchObject({ status: 'failed', error: 'insufficient balance' });
+    expect(notifyWorkshopCancelled).toHaveBeenCalledWith(expect.objectContaining({ refundAmount: undefined }));
+  });
+
+  it('should not refund private bookings cancelled less than an hour before', async () => {
+    const soon = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    const booking = makeOffer({ type: 'private', startTime: soon });
+
+    expect(isEligibleForRefund(booking)).toBe(false);
+    expect(isEligibleForRefund({ ...booking, startTime: new Date(Date.now() + 2 * 3600 * 1000).toISOString() })).toBe(true);
+
+    const result = await refundCancelledOffer(booking, AUTHOR);
+    expect(result).toMatchObject({ eligible: false, author: 0, attendees: 0, refunds: [] });
+    expect(publishNostrEvent).not.toHaveBeenCalled();
+  });
+
+  it('should notify attendees right away when refunds are not configured', async () => {
+    delete process.env.NOSTR_NSEC;
+
+    const result = await refundCancelledOffer(makeOffer(), AUTHOR);
+
+    expect(result.refunds).toEqual([]);
+    expect(notifyWorkshopCancelled).toHaveBeenCalledWith(expect.objectContaining({ rsvpedUserNpubs: [ALICE] }));
+  });
+});
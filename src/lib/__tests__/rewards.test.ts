@@ -0,0 +1,54 @@
+/**
+ * Tests for RSVP rewards split between co-authors
+ *
+ * @jest-environment node
+ */
+
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { getPaymentSplit, getRewardShares, splitReward } from '../rewards';
+import { createCalendarEventClient, getEventCoAuthors } from '../nostr-events';
+
+const [ALICE, BOB, CAROL] = [1, 2, 3].map(() => nip19.npubEncode(getPublicKey(generateSecretKey())));
+
+describe('Rewards', () => {
+  it('should split equally and give the remainder to the first author', () => {
+    expect(splitReward(2, [ALICE, BOB])).toEqual([
+      { npub: ALICE, amount: 1 },
+      { npub: BOB, amount: 1 },
+    ]);
+    expect(splitReward(1, [ALICE, BOB, CAROL])).toEqual([
+      { npub: ALICE, amount: 0.333334 },
+      { npub: BOB, amount: 0.333333 },
+      { npub: CAROL, amount: 0.333333 },
+    ]);
+    expect(splitReward(0.000001, [ALICE, BOB])).toEqual([{ npub: ALICE, amount: 0.000001 }]);
+    expect(splitReward(1, [ALICE, ALICE])).toEqual([{ npub: ALICE, amount: 1 }]);
+    expect(splitReward(1, [])).toEqual([]);
+  });
+
+  it('should use the reward per attendee of an offer', () => {
+    const shares = getRewardShares({ authors: [ALICE, BOB], rewardPerAttendee: 3 });
+
+    expect(shares).toEqual([
+      { npub: ALICE, amount: 1.5 },
+      { npub: BOB, amount: 1.5 },
+    ]);
+    expect(getPaymentSplit(3, shares)).toEqual({ total: 3, shares: 2 });
+    expect(getPaymentSplit(1, splitReward(1, [ALICE]))).toBeUndefined();
+  });
+
+  it('should read the co-authors tagged in calendar events', () => {
+    const secretKey = generateSecretKey();
+    const event = createCalendarEventClient(secretKey, {
+      dTag: 'offer-1',
+      title: 'Intro to Nostr',
+      description: 'Learn the basics',
+      startTime: '2026-01-27T14:00:00Z',
+      endTime: '2026-01-27T15:00:00Z',
+      coAuthors: [BOB, nip19.npubEncode(getPublicKey(secretKey))],
+    });
+
+    expect(event.tags).toContainEqual(['p', nip19.decode(BOB).data, '', 'author']);
+    expect(getEventCoAuthors(event)).toEqual([BOB]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for versioned record schemas and the migration runner
+ *
+ * - Upgrading unversioned (version 1) records of each type
+ * - Records from a newer app version are left alone
+ * - Backends upgrade on read and stamp the version on write
+ * - Bulk migration (dry run and apply) for both backends
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  SCHEMA_VERSIONS,
+  getMigrations,
+  migrateRecord,
+  upgradeRecord,
+} from '../schema-migrations';
+import { createStorageBackend, StorageBackend, StorageBackendType } from '../storage-backend';
+import { getSqlitePath } from '../sqlite-storage-backend';
+import type { Offer, StorageProfile } from '@/types';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-schema-migrations');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const NPUB = 'npub1alice';
+
+// Records as written before schema versions existed
+const legacyOffer = {
+  id: 'offer-1',
+  type: 'workshop',
+  title: 'Intro to Nostr',
+  description: 'Learn the basics',
+  createdAt: '2025-06-01T10:00:00.000Z',
+  updatedAt: '2025-06-01T10:00:00.000Z',
+  status: 'tentative',
+  publicationCost: 1,
+  rewardPerAttendee: 1,
+  minRsvps: 3,
+};
+
+const legacyProfile = {
+  npub: NPUB,
+  username: 'alice',
+  serialNumber: '0001',
+  profile: { name: 'Alice', createdAt: '2025-06-01T10:00:00.000Z', updatedAt: '2025-06-01T10:00:00.000Z' },
+};
+
+const legacyProposalEvent = {
+  offerId: 'offer-1',
+  title: 'Intro to Nostr',
+  description: 'Learn the basics',
+  startTime: '2025-06-10T14:00:00.000Z',
+  endTime: '2025-06-10T15:00:00.000Z',
+  room: 'Ostrom Room',
+  status: 'TENTATIVE',
+};
+
+const legacyNotification = {
+  id: 'n1',
+  type: 'token_receipt',
+  recipient: NPUB,
+  createdAt: '2025-06-01T10:00:00.000Z',
+  amount: 5,
+};
+
+describe('Schema Migrations', () => {
+  describe('migrateRecord', () => {
+    it('should upgrade unversioned records to the current version', () => {
+      const result = migrateRecord<Offer>('offer', legacyOffer as unknown as Offer);
+
+      expect(result.from).toBe(1);
+      expect(result.to).toBe(SCHEMA_VERSIONS.offer);
+      expect(result.applied).toHaveLength(getMigrations('offer').length);
+      expect(result.record).toMatchObject({ tags: [], authors: [], rsvpCount: 0, schemaVersion: SCHEMA_VERSIONS.offer });
+      // The stored record is not modified
+      expect(legacyOffer).not.toHaveProperty('schemaVersion');
+    });
+
+    it('should fill in profile defaults', () => {
+      const profile = upgradeRecord('profile', legacyProfile as unknown as StorageProfile);
+
+      expect(profile.offers).toEqual([]);
+      expect(profile.rsvps).toEqual([]);
+      expect(profile.balance).toEqual({ confirmed: 0, pending: 0, total: 0 });
+      expect(profile.profile).toMatchObject({ npub: NPUB, username: 'alice', name: 'Alice', invitees: [] });
+    });
+
+    it('should keep existing values', () => {
+      const offer = upgradeRecord('offer', { ...legacyOffer, tags: ['nostr'], rsvpCount: 2 });
+
+      expect(offer.tags).toEqual(['nostr']);
+      expect(offer.rsvpCount).toBe(2);
+      expect(upgradeRecord('offer', { ...legacyOffer, minRsvps: undefined })).not.toHaveProperty('rsvpCount');
+    });
+
+    it('should leave current and newer records unchanged', () => {
+      const current = upgradeRecord('notification', legacyNotification);
+      expect(migrateRecord('notification', current)).toEqual({
+        record: current,
+        from: SCHEMA_VERSIONS.notification,
+        to: SCHEMA_VERSIONS.notification,
+        applied: [],
+      });
+
+      const newer = { ...legacyNotification, schemaVersion: 99 };
+      expect(migrateRecord('notification', newer).record).toBe(newer);
+    });
+  });
+
+  const backendTypes: StorageBackendType[] = ['file', 'sqlite'];
+
+  describe.each(backendTypes)('%s backend', (type) => {
+    let storage: StorageBackend;
+
+    beforeEach(async () => {
+      await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+      await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+      storage = createStorageBackend(type);
+    });
+
+    afterEach(async () => {
+      await storage.close();
+    });
+
+    afterAll(async () => {
+      await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    /**
+     * Store the legacy records exactly as an old version of the app would have
+     */
+    async function writeLegacyData(): Promise<void> {
+      if (type === 'file') {
+        const write = async (file: string, content: string) => {
+          await fs.mkdir(path.dirname(path.join(TEST_DATA_DIR, file)), { recursive: true });
+          await fs.writeFile(path.join(TEST_DATA_DIR, file), content);
+        };
+        await write(`npubs/${NPUB}/profile.json`, JSON.stringify(legacyProfile));
+        await write(`npubs/${NPUB}/notifications.jsonl`, JSON.stringify(legacyNotification) + '\n');
+        await write('offers/offer-1.json', JSON.stringify(legacyOffer));
+        await write('calendars/ostrom-room/events.json', JSON.stringify([legacyProposalEvent]));
+        return;
+      }
+
+      // Create the tables through the backend, then overwrite the documents
+      await storage.saveProfile(legacyProfile as unknown as StorageProfile);
+      await storage.saveOffer(legacyOffer as unknown as Offer);
+      await storage.saveProposalEvents('ostrom-room', [upgradeRecord('proposalEvent', legacyProposalEvent) as never]);
+      await storage.addNotification(legacyNotification as never);
+
+      const db = new Database(getSqlitePath());
+      db.prepare('UPDATE profiles SET data = ?').run(JSON.stringify(legacyProfile));
+      db.prepare('UPDATE offers SET data = ?').run(JSON.stringify(legacyOffer));
+      db.prepare('UPDATE proposal_events SET data = ?').run(JSON.stringify(legacyProposalEvent));
+      db.prepare('UPDATE notifications SET data = ?').run(JSON.stringify(legacyNotification));
+      db.close();
+    }
+
+    it('should upgrade old records on read', async () => {
+      await writeLegacyData();
+
+      expect((await storage.getProfileByNpub(NPUB))?.schemaVersion).toBe(SCHEMA_VERSIONS.profile);
+      expect((await storage.getOffer('offer-1'))?.tags).toEqual([]);
+      expect((await storage.listOffers())[0].schemaVersion).toBe(SCHEMA_VERSIONS.offer);
+
+      const [event] = await storage.getProposalEvents('ostrom-room');
+      expect(event.attendees).toEqual([]);
+      expect(event.startTime).toEqual(new Date(legacyProposalEvent.startTime));
+
+      expect((await storage.getNotifications(NPUB))[0].read).toBe(false);
+    });
+
+    it('should stamp the current version on write', async () => {
+      await storage.saveOffer(legacyOffer as unknown as Offer);
+
+      const report = await storage.migrateRecords({ dryRun: true });
+      expect(report.scanned).toBe(1);
+      expect(report.changes).toEqual([]);
+    });
+
+    it('should report changes without writing on a dry run', async () => {
+      await writeLegacyData();
+
+      const report = await storage.migrateRecords({ dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.scanned).toBe(4);
+      expect(report.changes.map((c) => [c.type, c.id, c.from, c.to])).toEqual(
+        expect.arrayContaining([
+          ['profile', NPUB, 1, SCHEMA_VERSIONS.profile],
+          ['notification', 'n1', 1, SCHEMA_VERSIONS.notification],
+          ['offer', 'offer-1', 1, SCHEMA_VERSIONS.offer],
+          ['proposalEvent', 'ostrom-room/offer-1', 1, SCHEMA_VERSIONS.proposalEvent],
+        ])
+      );
+      expect((await storage.migrateRecords({ dryRun: true })).changes).toHaveLength(4);
+    });
+
+    it('should rewrite old records in bulk', async () => {
+      await writeLegacyData();
+
+      expect((await storage.migrateRecords()).changes).toHaveLength(4);
+
+      const again = await storage.migrateRecords();
+      expect(again.scanned).toBe(4);
+      expect(again.changes).toEqual([]);
+    });
+
+    it('should leave records from a newer version alone', async () => {
+      await storage.saveOffer({ ...legacyOffer, schemaVersion: 99 } as unknown as Offer);
+
+      const report = await storage.migrateRecords();
+
+      expect(report.newer.map((r) => [r.type, r.id, r.from])).toEqual([['offer', 'offer-1', 99]]);
+      expect((await storage.getOffer('offer-1'))?.schemaVersion).toBe(99);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for client-side event signers
+ *
+ * - Local keys and NIP-07 extensions sign the same templates
+ * - Templates from the build* helpers match the create* events
+ * - NIP-98 headers signed through a Signer verify on the server
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19, verifyEvent, type EventTemplate } from 'nostr-tools';
+import type { WindowNostr } from 'nostr-tools/nip07';
+import {
+  buildHttpAuthEvent,
+  buildRSVPEvent,
+  createRSVPEvent,
+  encodeHttpAuthHeader,
+} from '../nostr-events';
+import { clearSeenAuthEvents, verifyNostrAuth } from '../nip98-auth';
+import { LocalKeySigner, Nip07Signer, getSignerNpub, toSigner } from '../signer';
+
+const secretKey = generateSecretKey();
+const pubkey = getPublicKey(secretKey);
+const AUTHOR = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+// What an extension like Alby or nos2x exposes as window.nostr
+function fakeExtension(): WindowNostr & { signEvent: jest.Mock } {
+  return {
+    getPublicKey: jest.fn().mockResolvedValue(pubkey),
+    signEvent: jest.fn(async (template: EventTemplate) => finalizeEvent(template, secretKey)),
+  };
+}
+
+describe('Signer', () => {
+  it('should sign templates with a local key', async () => {
+    const signer = new LocalKeySigner(secretKey);
+
+    const event = await signer.signEvent(buildRSVPEvent('a'.repeat(64), AUTHOR));
+
+    expect(signer.type).toBe('local');
+    expect(await signer.getPublicKey()).toBe(pubkey);
+    expect(verifyEvent(event)).toBe(true);
+    expect(event.pubkey).toBe(pubkey);
+  });
+
+  it('should build the same event as the create helpers', async () => {
+    const signed = createRSVPEvent(secretKey, 'a'.repeat(64), AUTHOR);
+    const template = buildRSVPEvent('a'.repeat(64), AUTHOR);
+
+    expect(template).toEqual({
+      kind: signed.kind,
+      created_at: template.created_at,
+      tags: signed.tags,
+      content: signed.content,
+    });
+  });
+
+  it('should delegate to a NIP-07 extension', async () => {
+    const extension = fakeExtension();
+    const signer = new Nip07Signer(extension);
+    const template = buildRSVPEvent('a'.repeat(64), AUTHOR);
+
+    const event = await signer.signEvent(template);
+
+    expect(extension.signEvent).toHaveBeenCalledWith(template);
+    expect(verifyEvent(event)).toBe(true);
+    expect(await getSignerNpub(signer)).toBe(nip19.npubEncode(pubkey));
+  });
+
+  it('should wrap raw keys and pass signers through', () => {
+    const signer = new Nip07Signer(fakeExtension());
+
+    expect(toSigner(secretKey)).toBeInstanceOf(LocalKeySigner);
+    expect(toSigner(signer)).toBe(signer);
+  });
+
+  it('should sign NIP-98 headers that verify on the server', async () => {
+    clearSeenAuthEvents();
+    const url = 'http://localhost:3000/api/rsvp';
+    const body = JSON.stringify({ offerId: 'offer-1' });
+    const signer = new Nip07Signer(fakeExtension());
+
+    const authEvent = await signer.signEvent(await buildHttpAuthEvent(url, 'POST', body));
+    const request = new NextRequest(url, {
+      method: 'POST',
+      body,
+      headers: { Authorization: encodeHttpAuthHeader(authEvent) },
+    });
+
+    const auth = await verifyNostrAuth(request);
+    expect(auth.pubkey).toBe(pubkey);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Tests for rebuilding derived state from the recorded NOSTR log
+ *
+ * Uses real signed events:
+ * - Workshop proposals (kind 31922) with RSVP reactions and cancellations
+ * - Bookings known only from their payment request and receipt (1734/1735)
+ * - --verify mode and log reading (both log formats, per-npub logs)
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  createCalendarEventClient,
+  createRSVPEvent,
+  createRSVPCancellationEvent,
+  createPaymentRequestEvent,
+  createPaymentReceiptEvent,
+  type NostrEvent,
+} from '../nostr-events';
+import { rebuildState, readEventLog, replayEvents } from '../state-rebuild';
+import { getStorageBackend, getActiveRsvps } from '../storage-backend';
+import { getProposalEvents, getRoomSlug, readIcsFile } from '../local-calendar';
+import type { Offer, StorageProfile } from '@/types';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-state-rebuild');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const ROOM = 'Ostrom Room';
+const START = '2026-02-10T14:00:00.000Z';
+const END = '2026-02-10T15:00:00.000Z';
+
+interface TestUser {
+  secretKey: Uint8Array;
+  pubkey: string;
+  npub: string;
+}
+
+function makeUser(): TestUser {
+  const secretKey = generateSecretKey();
+  const pubkey = getPublicKey(secretKey);
+  return { secretKey, pubkey, npub: nip19.npubEncode(pubkey) };
+}
+
+function makeProfile(user: TestUser, username: string): StorageProfile {
+  return {
+    username,
+    npub: user.npub,
+    profile: { name: username, username },
+    offers: [],
+    rsvps: [],
+  } as unknown as StorageProfile;
+}
+
+async function writeLog(entries: unknown[], file = 'nostr_events.jsonl'): Promise<void> {
+  const filePath = path.join(TEST_DATA_DIR, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, entries.map((e) => JSON.stringify(e)).join('\n') + '\n');
+}
+
+function logged(event: NostrEvent) {
+  return { timestamp: new Date().toISOString(), source: 'test', event };
+}
+
+describe('State Rebuild', () => {
+  let author: TestUser;
+  let bob: TestUser;
+  let carol: TestUser;
+  let server: TestUser;
+
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    author = makeUser();
+    bob = makeUser();
+    carol = makeUser();
+    server = makeUser();
+    process.env.NOSTR_NSEC = nip19.nsecEncode(server.secretKey);
+  });
+
+  afterEach(async () => {
+    delete process.env.NOSTR_NSEC;
+    jest.restoreAllMocks();
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  /**
+   * A workshop proposal as created through the offers API, plus its events
+   */
+  async function setupWorkshop(): Promise<{ offer: Offer; events: NostrEvent[] }> {
+    const proposal = createCalendarEventClient(author.secretKey, {
+      dTag: 'workshop-1',
+      title: 'Intro to Nostr',
+      description: 'Learn the basics',
+      startTime: START,
+      endTime: END,
+      location: ROOM,
+      tags: ['workshop'],
+      status: 'TENTATIVE',
+    });
+
+    const offer: Offer = {
+      id: 'offer-1',
+      type: 'workshop',
+      title: 'Intro to Nostr',
+      description: 'Learn the basics',
+      authors: [author.npub],
+      tags: ['workshop'],
+      createdAt: '2026-02-01T10:00:00.000Z',
+      updatedAt: '2026-02-01T10:00:00.000Z',
+      status: 'tentative',
+      publicationCost: 1,
+      rewardPerAttendee: 1,
+      room: ROOM,
+      startTime: START,
+      endTime: END,
+      minRsvps: 5,
+      rsvpCount: 0,
+      nostrEventId: proposal.id,
+      nostrDTag: 'workshop-1',
+      nostrAuthorPubkey: author.pubkey,
+    };
+
+    const bobRsvp = createRSVPEvent(bob.secretKey, proposal.id, author.npub);
+    const carolRsvp = createRSVPEvent(carol.secretKey, proposal.id, author.npub);
+    const carolCancel = createRSVPCancellationEvent(carol.secretKey, carolRsvp.id);
+
+    await getStorageBackend().saveOffer(offer);
+    await getStorageBackend().saveProfile(makeProfile(bob, 'bob'));
+    await getStorageBackend().saveProfile(makeProfile(carol, 'carol'));
+
+    return { offer, events: [proposal, bobRsvp, carolRsvp, carolCancel] };
+  }
+
+  describe('workshop proposals', () => {
+    it('should rebuild RSVPs, the offer and the room calendar from the log', async () => {
+      const { events } = await setupWorkshop();
+      await writeLog(events.map(logged));
+
+      const report = await rebuildState();
+
+      expect(report.applied).toBe(true);
+      expect(report.eventsReplayed).toBe(4);
+
+      const active = await getActiveRsvps('offer-1');
+      expect(active.map((r) => r.npub)).toEqual([bob.npub]);
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      expect(offer?.rsvpCount).toBe(1);
+      expect(offer?.status).toBe('tentative');
+
+      const bobProfile = await getStorageBackend().getProfileByNpub(bob.npub);
+      expect(bobProfile?.rsvps.filter((r) => r.status === 'active')).toHaveLength(1);
+
+      const calendar = await getProposalEvents(getRoomSlug(ROOM));
+      expect(calendar).toHaveLength(1);
+      expect(calendar[0]).toMatchObject({ offerId: 'offer-1', status: 'TENTATIVE' });
+      expect(calendar[0].attendees).toEqual([{ npub: bob.npub, username: 'bob' }]);
+
+      const ics = await readIcsFile(getRoomSlug(ROOM));
+      expect(ics).toContain('SUMMARY:Intro to Nostr');
+    });
+
+    it('should be idempotent', async () => {
+      const { events } = await setupWorkshop();
+      await writeLog(events.map(logged));
+
+      await rebuildState();
+      const rsvpCount = (await getStorageBackend().getRsvps('offer-1')).length;
+
+      const second = await rebuildState();
+      expect(second.differences).toEqual([]);
+      expect(await getStorageBackend().getRsvps('offer-1')).toHaveLength(rsvpCount);
+    });
+
+    it('should apply status updates published by the server', async () => {
+      const { events } = await setupWorkshop();
+      const confirmation = createCalendarEventClient(server.secretKey, {
+        dTag: 'offer-1',
+        title: 'Intro to Nostr',
+        description: 'Learn the basics',
+        startTime: START,
+        endTime: END,
+        location: ROOM,
+        status: 'CONFIRMED',
+        relatedEventId: 'offer-1',
+      });
+      await writeLog([...events, confirmation].map(logged));
+
+      await rebuildState();
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      expect(offer?.status).toBe('confirmed');
+      // Status updates from others don't take over the offer
+      expect(offer?.nostrAuthorPubkey).toBe(author.pubkey);
+      expect((await getProposalEvents(getRoomSlug(ROOM)))[0].status).toBe('CONFIRMED');
+    });
+
+    it('should ignore status updates from anyone but the author and the server', async () => {
+      const { events } = await setupWorkshop();
+      const cancellation = (dTag: string, relatedEventId?: string) => createCalendarEventClient(carol.secretKey, {
+        dTag,
+        title: 'Intro to Nostr',
+        description: 'Learn the basics',
+        startTime: START,
+        endTime: END,
+        location: ROOM,
+        status: 'CANCELLED',
+        relatedEventId,
+      });
+      await writeLog([...events, cancellation('offer-1', 'offer-1'), cancellation('offer-1')].map(logged));
+
+      await rebuildState();
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      expect(offer?.status).toBe('tentative');
+      expect(offer?.startTime).toBe(START);
+    });
+
+    it('should keep an offer cancelled on disk cancelled', async () => {
+      const { offer, events } = await setupWorkshop();
+      await getStorageBackend().saveOffer({ ...offer, status: 'cancelled' });
+      await writeLog(events.map(logged));
+
+      await rebuildState();
+
+      expect((await getStorageBackend().getOffer('offer-1'))?.status).toBe('cancelled');
+    });
+  });
+
+  describe('bookings', () => {
+    it('should recreate a booking from its payment request and receipt', async () => {
+      const booking = createCalendarEventClient(author.secretKey, {
+        dTag: 'booking-1',
+        title: 'Team sync',
+        description: 'Weekly sync',
+        startTime: START,
+        endTime: END,
+        location: ROOM,
+        tags: ['booking'],
+      });
+
+      const request = createPaymentRequestEvent(server.secretKey, {
+        recipient: author.npub,
+        recipientAddress: '0x0000000000000000000000000000000000000001',
+        sender: author.npub,
+        senderAddress: '0x0000000000000000000000000000000000000001',
+        amount: 2,
+        tokenAddress: '0x0000000000000000000000000000000000000002',
+        chainId: 100,
+        relatedEventId: booking.id,
+        context: 'booking',
+        method: 'burn',
+        description: JSON.stringify({ type: 'booking', id: booking.id, title: 'Team sync', room: ROOM }),
+      });
+
+      const receipt = createPaymentReceiptEvent(server.secretKey, {
+        paymentRequestEvent: request,
+        txHash: '0xabc',
+        success: true,
+      });
+
+      // Only the receipt recorded: the request is read from its content
+      await writeLog([booking, receipt].map(logged));
+
+      await rebuildState();
+
+      const offer = await getStorageBackend().getOffer(booking.id);
+      expect(offer).toMatchObject({
+        type: 'private',
+        title: 'Team sync',
+        status: 'confirmed',
+        room: ROOM,
+        publicationCost: 2,
+        authors: [author.npub],
+      });
+
+      const calendar = await getProposalEvents(getRoomSlug(ROOM));
+      expect(calendar.map((e) => [e.offerId, e.status])).toEqual([[booking.id, 'CONFIRMED']]);
+    });
+
+    it('should ignore failed payments', async () => {
+      const request = createPaymentRequestEvent(server.secretKey, {
+        recipient: author.npub,
+        recipientAddress: '0x0000000000000000000000000000000000000001',
+        sender: author.npub,
+        amount: 2,
+        tokenAddress: '0x0000000000000000000000000000000000000002',
+        chainId: 100,
+        relatedEventId: 'booking-x',
+        context: 'booking',
+        method: 'burn',
+      });
+      const receipt = createPaymentReceiptEvent(server.secretKey, {
+        paymentRequestEvent: request,
+        txHash: '0x0',
+        success: false,
+        error: 'insufficient balance',
+      });
+
+      const result = replayEvents([request, receipt]);
+
+      expect(result.offers.size).toBe(0);
+      expect(result.ignored).toBe(1);
+    });
+  });
+
+  describe('verify', () => {
+    it('should report differences without writing anything', async () => {
+      const { events } = await setupWorkshop();
+      await writeLog(events.map(logged));
+
+      const report = await rebuildState({ verify: true });
+
+      expect(report.applied).toBe(false);
+      expect(report.differences.map((d) => d.type)).toEqual(
+        expect.arrayContaining(['rsvp', 'offer', 'calendar'])
+      );
+      expect(await getStorageBackend().getRsvps('offer-1')).toEqual([]);
+      expect((await getStorageBackend().getOffer('offer-1'))?.rsvpCount).toBe(0);
+      expect(await getProposalEvents(getRoomSlug(ROOM))).toEqual([]);
+    });
+
+    it('should report a drifted RSVP count after a rebuild', async () => {
+      const { events } = await setupWorkshop();
+      await writeLog(events.map(logged));
+      await rebuildState();
+
+      const offer = await getStorageBackend().getOffer('offer-1');
+      await getStorageBackend().saveOffer({ ...offer!, rsvpCount: 7 });
+
+      const report = await rebuildState({ verify: true });
+      expect(report.differences).toEqual([
+        { type: 'offer', id: 'offer-1', message: 'rsvpCount: 7 → 1' },
+      ]);
+    });
+  });
+
+  describe('readEventLog', () => {
+    it('should merge the global and per-user logs in order', async () => {
+      const { events } = await setupWorkshop();
+      const [proposal, bobRsvp, carolRsvp] = events;
+
+      // Old raw format, a duplicate, a truncated line and an unreplayed kind
+      await writeLog([logged(proposal), bobRsvp, { ...proposal, kind: 5, id: 'deletion' }]);
+      await fs.appendFile(path.join(TEST_DATA_DIR, 'nostr_events.jsonl'), '{"event": {"id"\n');
+      await writeLog([logged(carolRsvp), logged(bobRsvp)], `npubs/${carol.npub}/nostr_events.jsonl`);
+
+      const log = await readEventLog();
+
+      expect(log.map((e) => e.id)).toEqual([proposal.id, bobRsvp.id, carolRsvp.id]);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Tests for the pluggable storage backend
+ *
+ * The same behaviour is checked against every backend implementation:
+ * - Profile creation, lookup and updates
+ * - Badge setup and claim
+ * - Offers, RSVP log and proposal events
+ * - Notifications
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  createStorageBackend,
+  getStorageBackend,
+  setStorageBackend,
+  getActiveRsvps,
+  latestRsvpPerUser,
+  StorageBackend,
+  StorageBackendType,
+} from '../storage-backend';
+import type { Offer, RSVP } from '@/types';
+import type { ProposalEvent } from '../local-calendar';
+import type { Notification } from '../notifications-utils';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-storage-backend');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+function makeOffer(overrides: Partial<Offer> = {}): Offer {
+  return {
+    id: 'offer-1',
+    type: 'workshop',
+    title: 'Intro to Nostr',
+    description: 'Learn the basics',
+    authors: ['npub1alice'],
+    tags: ['nostr'],
+    createdAt: '2026-01-20T10:00:00.000Z',
+    updatedAt: '2026-01-20T10:00:00.000Z',
+    status: 'pending',
+    publicationCost: 1,
+    rewardPerAttendee: 1,
+    ...overrides,
+  };
+}
+
+function makeRsvp(npub: string, status: RSVP['status'] = 'active'): RSVP {
+  return {
+    offerId: 'offer-1',
+    npub,
+    createdAt: new Date().toISOString(),
+    status,
+    tokensPaid: 1,
+  };
+}
+
+function makeNotification(id: string, overrides: Partial<Notification> = {}): Notification {
+  return {
+    id,
+    type: 'token_receipt',
+    recipient: 'npub1alice',
+    createdAt: '2026-01-20T10:00:00.000Z',
+    read: false,
+    amount: 5,
+    ...overrides,
+  };
+}
+
+const backendTypes: StorageBackendType[] = ['file', 'sqlite'];
+
+describe.each(backendTypes)('StorageBackend (%s)', (type) => {
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+    storage = createStorageBackend(type);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('profiles', () => {
+    it('should create and look up a profile by npub, username and serial', async () => {
+      await storage.setupBadge('BADGE-001');
+      const profile = await storage.createProfile('BADGE-001', 'alice', 'npub1alice', {
+        name: 'Alice',
+      });
+
+      expect(profile.npub).toBe('npub1alice');
+      expect(profile.profile.name).toBe('Alice');
+
+      expect((await storage.getProfileByNpub('npub1alice'))?.username).toBe('alice');
+      expect((await storage.getProfileByUsername('ALICE'))?.npub).toBe('npub1alice');
+      expect((await storage.getProfileBySerialNumber('BADGE-001'))?.npub).toBe('npub1alice');
+    });
+
+    it('should reject duplicate usernames', async () => {
+      await storage.createProfile('BADGE-001', 'alice', 'npub1alice');
+      await expect(
+        storage.createProfile('BADGE-002', 'alice', 'npub1other')
+      ).rejects.toThrow('Username already taken');
+    });
+
+    it('should return null for unknown profiles', async () => {
+      expect(await storage.getProfileByNpub('npub1nobody')).toBeNull();
+      expect(await storage.getProfileByUsername('nobody')).toBeNull();
+      expect(await storage.getProfileBySerialNumber('NOPE')).toBeNull();
+    });
+
+    it('should update and save profiles', async () => {
+      await storage.createProfile('BADGE-001', 'alice', 'npub1alice');
+
+      const updated = await storage.updateProfile('npub1alice', { shortbio: 'Hello' });
+      expect(updated.profile.shortbio).toBe('Hello');
+
+      updated.offers.push(makeOffer());
+      await storage.saveProfile(updated);
+
+      const reloaded = await storage.getProfileByNpub('npub1alice');
+      expect(reloaded?.profile.shortbio).toBe('Hello');
+      expect(reloaded?.offers).toHaveLength(1);
+    });
+
+    it('should list all profiles', async () => {
+      await storage.createProfile('BADGE-001', 'alice', 'npub1alice');
+      await storage.createProfile('BADGE-002', 'bob', 'npub1bob');
+
+      const profiles = await storage.getAllProfiles();
+      expect(profiles.map((p) => p.npub).sort()).toEqual(['npub1alice', 'npub1bob']);
+    });
+  });
+
+  describe('badges', () => {
+    it('should track setup and claim status', async () => {
+      expect(await storage.isBadgeSetup('BADGE-001')).toBe(false);
+
+      expect((await storage.setupBadge('BADGE-001')).alreadyExists).toBe(false);
+      expect((await storage.setupBadge('BADGE-001')).alreadyExists).toBe(true);
+      expect(await storage.isBadgeSetup('BADGE-001')).toBe(true);
+      expect(await storage.isBadgeClaimed('BADGE-001')).toBe(false);
+
+      await storage.createProfile('BADGE-001', 'alice', 'npub1alice');
+      expect(await storage.isBadgeClaimed('BADGE-001')).toBe(true);
+    });
+
+    it('should assign a badge and release the previous one', async () => {
+      await storage.setupBadge('BADGE-001');
+      await storage.setupBadge('BADGE-002');
+      await storage.createProfile('BADGE-001', 'alice', 'npub1alice');
+
+      const profile = await storage.assignBadge('BADGE-002', 'npub1alice');
+
+      expect(profile.serialNumber).toBe('BADGE-002');
+      expect((await storage.getProfileBySerialNumber('BADGE-002'))?.npub).toBe('npub1alice');
+      expect((await storage.getProfileByNpub('npub1alice'))?.serialNumber).toBe('BADGE-002');
+      expect(await storage.isBadgeClaimed('BADGE-001')).toBe(false);
+      expect(await storage.getProfileBySerialNumber('BADGE-001')).toBeNull();
+    });
+
+    it('should keep the first revocation of a badge', async () => {
+      const revocation = {
+        serialNumber: 'BADGE-001',
+        npub: 'npub1alice',
+        revokedAt: '2026-01-28T10:00:00.000Z',
+        revokedBy: 'npub1alice',
+        reason: 'lost',
+        replacedBy: 'BADGE-002',
+      };
+
+      expect(await storage.getBadgeRevocation('BADGE-001')).toBeNull();
+
+      await storage.revokeBadge(revocation);
+      await storage.revokeBadge({ ...revocation, reason: 'stolen' });
+
+      expect(await storage.getBadgeRevocation('BADGE-001')).toEqual(revocation);
+      expect(await storage.getBadgeRevocation('BADGE-002')).toBeNull();
+    });
+  });
+
+  describe('offers', () => {
+    it('should save, get and filter offers', async () => {
+      await storage.saveOffer(makeOffer());
+      await storage.saveOffer(makeOffer({ id: 'offer-2', type: '1:1', status: 'confirmed' }));
+
+      expect((await storage.getOffer('offer-1'))?.title).toBe('Intro to Nostr');
+      expect(await storage.getOffer('missing')).toBeNull();
+
+      expect(await storage.listOffers()).toHaveLength(2);
+      expect((await storage.listOffers({ type: 'workshop' })).map((o) => o.id)).toEqual([
+        'offer-1',
+      ]);
+      expect((await storage.listOffers({ status: 'confirmed' })).map((o) => o.id)).toEqual([
+        'offer-2',
+      ]);
+    });
+
+    it('should overwrite an offer on save', async () => {
+      await storage.saveOffer(makeOffer());
+      await storage.saveOffer(makeOffer({ rsvpCount: 3 }));
+
+      expect((await storage.getOffer('offer-1'))?.rsvpCount).toBe(3);
+      expect(await storage.listOffers()).toHaveLength(1);
+    });
+  });
+
+  describe('rsvps', () => {
+    it('should keep the RSVP log in order', async () => {
+      await storage.appendRsvp(makeRsvp('npub1alice'));
+      await storage.appendRsvp(makeRsvp('npub1bob'));
+      await storage.appendRsvp(makeRsvp('npub1alice', 'cancelled'));
+
+      const rsvps = await storage.getRsvps('offer-1');
+      expect(rsvps.map((r) => `${r.npub}:${r.status}`)).toEqual([
+        'npub1alice:active',
+        'npub1bob:active',
+        'npub1alice:cancelled',
+      ]);
+
+      const latest = latestRsvpPerUser(rsvps);
+      expect(latest).toHaveLength(2);
+      expect(latest.find((r) => r.npub === 'npub1alice')?.status).toBe('cancelled');
+    });
+
+    it('should return an empty log for offers without RSVPs', async () => {
+      expect(await storage.getRsvps('offer-1')).toEqual([]);
+    });
+  });
+
+  describe('proposal events', () => {
+    it('should save and revive proposal events per room', async () => {
+      const event: ProposalEvent = {
+        offerId: 'offer-1',
+        title: 'Intro to Nostr',
+        description: 'Learn the basics',
+        startTime: new Date('2026-01-27T10:00:00.000Z'),
+        endTime: new Date('2026-01-27T11:00:00.000Z'),
+        room: 'Ostrom Room',
+        status: 'TENTATIVE',
+        minRsvps: 2,
+        attendees: [],
+        createdAt: new Date('2026-01-20T10:00:00.000Z'),
+      };
+
+      await storage.saveProposalEvents('ostrom-room', [event]);
+
+      const events = await storage.getProposalEvents('ostrom-room');
+      expect(events).toHaveLength(1);
+      expect(events[0].startTime).toBeInstanceOf(Date);
+      expect(events[0].startTime.toISOString()).toBe('2026-01-27T10:00:00.000Z');
+      expect(events[0].updatedAt).toBeUndefined();
+
+      expect(await storage.getRoomSlugs()).toEqual(['ostrom-room']);
+      expect(await storage.getProposalEvents('unknown-room')).toEqual([]);
+    });
+  });
+
+  describe('notifications', () => {
+    it('should add, list and replace notifications', async () => {
+      await storage.addNotification(makeNotification('n1'));
+      await storage.addNotification(makeNotification('n2'));
+      await storage.addNotification(makeNotification('n3', { recipient: 'npub1bob' }));
+
+      const notifications = await storage.getNotifications('npub1alice');
+      expect(notifications.map((n) => n.id)).toEqual(['n1', 'n2']);
+
+      await storage.replaceNotifications('npub1alice', [{ ...notifications[1], read: true }]);
+
+      const replaced = await storage.getNotifications('npub1alice');
+      expect(replaced).toHaveLength(1);
+      expect(replaced[0]).toMatchObject({ id: 'n2', read: true });
+      expect(await storage.getNotifications('npub1bob')).toHaveLength(1);
+    });
+  });
+});
+
+describe('getStorageBackend', () => {
+  const originalBackend = process.env.STORAGE_BACKEND;
+
+  afterEach(async () => {
+    if (originalBackend === undefined) {
+      delete process.env.STORAGE_BACKEND;
+    } else {
+      process.env.STORAGE_BACKEND = originalBackend;
+    }
+    setStorageBackend(null);
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should default to the file backend', () => {
+    delete process.env.STORAGE_BACKEND;
+    expect(getStorageBackend().type).toBe('file');
+  });
+
+  it('should select the sqlite backend from STORAGE_BACKEND', () => {
+    process.env.STORAGE_BACKEND = 'sqlite';
+    expect(getStorageBackend().type).toBe('sqlite');
+  });
+
+  it('should count only the latest active RSVP per user', async () => {
+    delete process.env.STORAGE_BACKEND;
+    const storage = getStorageBackend();
+
+    await storage.appendRsvp(makeRsvp('npub1alice'));
+    await storage.appendRsvp(makeRsvp('npub1bob'));
+    await storage.appendRsvp(makeRsvp('npub1bob', 'cancelled'));
+
+    const active = await getActiveRsvps('offer-1');
+    expect(active.map((r) => r.npub)).toEqual(['npub1alice']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for the in-memory token backend (CHAIN=memory)
+ *
+ * - Mints, transfers and burns move balances like an ERC20
+ * - Overdrafts revert and leave balances untouched
+ * - Balances persist in DATA_DIR and token-factory.ts uses it for CHAIN=memory
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { MemoryToken } from '../token-backend';
+import { getBalanceForNpub, getTokenInstance, getWalletAddressForNpub, mintToNpub, transferTokens } from '../token-factory';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-token-backend');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const TOKEN_ADDRESS = '0x00000000000000000000000000000000000000aa';
+const ALICE = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+
+describe('MemoryToken', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should mint, transfer and burn', async () => {
+    const token = new MemoryToken(TOKEN_ADDRESS);
+
+    const hash = await token.mintTo(50, `nostr:${ALICE}`);
+    await token.transfer(`nostr:${ALICE}`, `nostr:${BOB}`, 1.5);
+    await token.burnFrom(2, `nostr:${ALICE}`);
+
+    expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(await token.getBalance(`nostr:${ALICE}`)).toBe(BigInt(46_500_000));
+    expect(await token.getBalance(`nostr:${BOB}`)).toBe(BigInt(1_500_000));
+    expect(await token.getTransactionCount()).toBe(3);
+  });
+
+  it('should revert overdrafts', async () => {
+    const token = new MemoryToken(TOKEN_ADDRESS);
+    await token.mintTo(1, `nostr:${ALICE}`);
+
+    await expect(token.transfer(`nostr:${ALICE}`, `nostr:${BOB}`, 2)).rejects.toThrow('ERC20: transfer amount exceeds balance');
+    await expect(token.burnFrom(2, `nostr:${ALICE}`)).rejects.toThrow('ERC20: burn amount exceeds balance');
+    await expect(token.mintTo(0, `nostr:${ALICE}`)).rejects.toThrow('Invalid amount');
+
+    expect(await token.getBalance(`nostr:${ALICE}`)).toBe(BigInt(1_000_000));
+    expect(await token.getBalance(`nostr:${BOB}`)).toBe(BigInt(0));
+  });
+
+  it('should accept wallet addresses and keep tokens apart', async () => {
+    const token = new MemoryToken(TOKEN_ADDRESS);
+    await token.mintTo(5, `nostr:${ALICE}`);
+
+    expect(await token.getBalance(MemoryToken.getUserAddress('nostr', ALICE))).toBe(BigInt(5_000_000));
+    expect(await new MemoryToken('0x00000000000000000000000000000000000000bb').getBalance(`nostr:${ALICE}`)).toBe(BigInt(0));
+  });
+
+  describe('with CHAIN=memory', () => {
+    const originalEnv = process.env;
+
+    beforeAll(() => {
+      process.env = { ...originalEnv, CHAIN: 'memory', TOKEN_ADDRESS, PRIVATE_KEY: '' };
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should back the token-factory helpers, persisting balances', async () => {
+      expect(await getTokenInstance()).toBeInstanceOf(MemoryToken);
+      expect(await getWalletAddressForNpub(ALICE)).toBe(MemoryToken.getUserAddress('nostr', ALICE));
+
+      await mintToNpub(ALICE, 50);
+      await transferTokens(ALICE, BOB, 1);
+
+      // A fresh instance reads the same log
+      expect(await new MemoryToken(TOKEN_ADDRESS).getBalance(`nostr:${ALICE}`)).toBe(BigInt(49_000_000));
+      expect(await getBalanceForNpub(BOB)).toBe(BigInt(1_000_000));
+    });
+  });
+});
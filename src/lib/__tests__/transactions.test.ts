@@ -0,0 +1,213 @@
+/**
+ * Tests for the transaction ledger
+ *
+ * - Payment requests are matched with their receipts
+ * - Only receipts signed by the payment processor count
+ * - Counterparties and related offers are resolved
+ * - Type/status filters and cursor pagination
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  createPaymentReceiptEvent,
+  createPaymentRequestEvent,
+  type NostrEvent,
+  type PaymentRequestOptions,
+} from '../nostr-events';
+import { logNostrEvent, logNostrEventToAll } from '../nostr-logger';
+import { getStorageBackend } from '../storage-backend';
+import { getTransactions } from '../transactions';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-transactions');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const aliceKey = generateSecretKey();
+const SERVER = nip19.npubEncode(getPublicKey(serverKey));
+const ALICE = nip19.npubEncode(getPublicKey(aliceKey));
+const BOB = nip19.npubEncode(getPublicKey(generateSecretKey()));
+process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+const OFFER_ID = 'a'.repeat(64);
+
+function request(
+  secretKey: Uint8Array,
+  options: Pick<PaymentRequestOptions, 'sender' | 'recipient' | 'amount' | 'context' | 'method'> & Partial<PaymentRequestOptions>
+): NostrEvent {
+  const event = createPaymentRequestEvent(secretKey, {
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    senderAddress: '0x0000000000000000000000000000000000000002',
+    tokenAddress: '0x0000000000000000000000000000000000000003',
+    chainId: 100,
+    tokenSymbol: 'CHT',
+    ...options,
+  });
+  logNostrEventToAll(event);
+  return event;
+}
+
+function receipt(paymentRequestEvent: NostrEvent, success = true, signer = serverKey): NostrEvent {
+  const event = createPaymentReceiptEvent(signer, {
+    paymentRequestEvent,
+    txHash: '0xabc',
+    success,
+    error: success ? undefined : 'insufficient balance',
+  });
+  // nostr-listener records receipts for the sender (P tag) as well
+  logNostrEvent(ALICE, event);
+  return event;
+}
+
+describe('Transactions', () => {
+  beforeEach(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+
+    const storage = getStorageBackend();
+    await storage.setupBadge('0001');
+    await storage.createProfile('0001', 'bob', BOB);
+    await storage.saveOffer({
+      id: OFFER_ID,
+      type: 'workshop',
+      title: 'Intro to Nostr',
+      description: 'Learn the basics',
+      authors: [BOB],
+      tags: [],
+      createdAt: '2026-01-20T10:00:00.000Z',
+      updatedAt: '2026-01-20T10:00:00.000Z',
+      status: 'tentative',
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should list requests with their status, counterparty and context', async () => {
+    const mint = request(serverKey, { sender: SERVER, recipient: ALICE, amount: 50, context: 'badge_claim', method: 'mint' });
+    receipt(mint);
+    const rsvp = request(aliceKey, {
+      sender: ALICE,
+      recipient: BOB,
+      amount: 1,
+      context: 'rsvp',
+      method: 'transfer',
+      relatedEventId: OFFER_ID,
+    });
+    receipt(rsvp, false);
+    request(aliceKey, { sender: ALICE, recipient: ALICE, amount: 2, context: 'offer_creation', method: 'burn' });
+
+    const { transactions, nextCursor } = await getTransactions(ALICE);
+
+    expect(nextCursor).toBeNull();
+    const byId = new Map(transactions.map((t) => [t.id, t]));
+    expect(byId.get(mint.id)).toMatchObject({
+      method: 'mint',
+      amount: 50,
+      direction: 'in',
+      counterparty: null,
+      status: 'confirmed',
+      txHash: '0xabc',
+    });
+    expect(byId.get(rsvp.id)).toMatchObject({
+      direction: 'out',
+      counterparty: { npub: BOB, username: 'bob' },
+      relatedTitle: 'Intro to Nostr',
+      status: 'failed',
+      error: 'insufficient balance',
+    });
+    expect(transactions.find((t) => t.method === 'burn')).toMatchObject({ direction: 'out', status: 'pending' });
+
+    const bob = await getTransactions(BOB);
+    expect(bob.transactions).toHaveLength(1);
+    expect(bob.transactions[0]).toMatchObject({ direction: 'in', counterparty: { npub: ALICE } });
+  });
+
+  it('should fall back to the request embedded in a receipt', async () => {
+    const event = createPaymentRequestEvent(serverKey, {
+      sender: SERVER,
+      recipient: ALICE,
+      recipientAddress: '0x0000000000000000000000000000000000000001',
+      amount: 3,
+      tokenAddress: '0x0000000000000000000000000000000000000003',
+      chainId: 100,
+      context: 'refund',
+      method: 'mint',
+    });
+    receipt(event);
+
+    const { transactions } = await getTransactions(ALICE);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ id: event.id, context: 'refund', status: 'confirmed' });
+  });
+
+  it('should ignore receipts not signed by the payment processor', async () => {
+    const paid = request(aliceKey, { sender: ALICE, recipient: BOB, amount: 5, context: 'transfer', method: 'transfer' });
+    receipt(paid, true, aliceKey);
+
+    const forged = createPaymentRequestEvent(aliceKey, {
+      sender: SERVER,
+      recipient: ALICE,
+      recipientAddress: '0x0000000000000000000000000000000000000001',
+      amount: 1000,
+      tokenAddress: '0x0000000000000000000000000000000000000003',
+      chainId: 100,
+      context: 'refund',
+      method: 'mint',
+    });
+    receipt(forged, true, aliceKey);
+
+    const { transactions } = await getTransactions(ALICE);
+
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ id: paid.id, status: 'pending' });
+  });
+
+  it('should ignore embedded requests that are not the request the receipt is for', async () => {
+    const event = createPaymentRequestEvent(serverKey, {
+      sender: SERVER,
+      recipient: ALICE,
+      recipientAddress: '0x0000000000000000000000000000000000000001',
+      amount: 3,
+      tokenAddress: '0x0000000000000000000000000000000000000003',
+      chainId: 100,
+      context: 'refund',
+      method: 'mint',
+    });
+    const tampered = createPaymentReceiptEvent(serverKey, {
+      paymentRequestEvent: { ...event, tags: event.tags.map((tag) => (tag[0] === 'amount' ? ['amount', '3000000000'] : tag)) },
+      txHash: '0xabc',
+      success: true,
+    });
+    logNostrEvent(ALICE, tampered);
+
+    const { transactions } = await getTransactions(ALICE);
+
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('should filter by type and status and page with a cursor', async () => {
+    for (let i = 0; i < 3; i++) {
+      request(aliceKey, { sender: ALICE, recipient: BOB, amount: i + 1, context: 'rsvp', method: 'transfer' });
+    }
+    const mint = request(serverKey, { sender: SERVER, recipient: ALICE, amount: 50, context: 'badge_claim', method: 'mint' });
+    receipt(mint);
+
+    expect((await getTransactions(ALICE, { types: ['mint'] })).transactions.map((t) => t.id)).toEqual([mint.id]);
+    expect((await getTransactions(ALICE, { types: ['rsvp'] })).transactions).toHaveLength(3);
+    expect((await getTransactions(ALICE, { status: 'pending' })).transactions).toHaveLength(3);
+
+    const first = await getTransactions(ALICE, { limit: 3 });
+    expect(first.transactions).toHaveLength(3);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getTransactions(ALICE, { limit: 3, cursor: first.nextCursor! });
+    expect(second.transactions).toHaveLength(1);
+    expect(second.nextCursor).toBeNull();
+    expect(new Set([...first.transactions, ...second.transactions].map((t) => t.id)).size).toBe(4);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for point of sale vendors
+ *
+ * - Sales are the vendor's confirmed incoming payment request transfers of a day
+ * - CSV export quotes cells and guards against spreadsheet formulas
+ *
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import {
+  createPaymentReceiptEvent,
+  createPaymentRequestEvent,
+  type NostrEvent,
+  type PaymentRequestOptions,
+} from '../nostr-events';
+import { logNostrEventToAll } from '../nostr-logger';
+import { getSalesDate, getVendor, getVendorSales, salesToCsv } from '../vendors';
+
+const TEST_DATA_DIR = path.join(process.cwd(), 'data-test-vendors');
+process.env.DATA_DIR = TEST_DATA_DIR;
+
+const serverKey = generateSecretKey();
+const payerKey = generateSecretKey();
+const VENDOR = nip19.npubEncode(getPublicKey(generateSecretKey()));
+const PAYER = nip19.npubEncode(getPublicKey(payerKey));
+process.env.NOSTR_NSEC = nip19.nsecEncode(serverKey);
+const INVOICE_ID = 'b'.repeat(64);
+// 2026-01-27 10:00:00 UTC
+const DAY = 1769508000;
+
+function sale(
+  at: number,
+  options: Partial<PaymentRequestOptions> = {},
+  success = true
+): NostrEvent {
+  jest.spyOn(Date, 'now').mockReturnValue(at * 1000);
+  const request = createPaymentRequestEvent(payerKey, {
+    sender: PAYER,
+    recipient: VENDOR,
+    recipientAddress: '0x0000000000000000000000000000000000000001',
+    amount: 2.5,
+    tokenAddress: '0x0000000000000000000000000000000000000003',
+    chainId: 100,
+    tokenSymbol: 'CHT',
+    context: 'invoice',
+    relatedEventId: INVOICE_ID,
+    description: 'Coffee',
+    method: 'transfer',
+    ...options,
+  });
+  logNostrEventToAll(request);
+  logNostrEventToAll(createPaymentReceiptEvent(serverKey, {
+    paymentRequestEvent: request,
+    txHash: '0xabc',
+    success,
+  }));
+  return request;
+}
+
+describe('Vendors', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+    await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should find vendors by npub', () => {
+    const vendors = [{ npub: VENDOR, name: 'Café' }];
+
+    expect(getVendor(VENDOR, vendors)).toEqual({ npub: VENDOR, name: 'Café' });
+    expect(getVendor(PAYER, vendors)).toBeNull();
+  });
+
+  it('should group sales by day in the timezone', () => {
+    expect(getSalesDate(DAY, 'UTC')).toBe('2026-01-27');
+    expect(getSalesDate(DAY + 14 * 3600, 'UTC')).toBe('2026-01-28');
+    expect(getSalesDate(DAY + 14 * 3600, 'America/Los_Angeles')).toBe('2026-01-27');
+  });
+
+  it("should list the day's confirmed payment request sales", async () => {
+    const first = sale(DAY);
+    const second = sale(DAY + 60, { amount: 0.1, description: 'Cookie' });
+    sale(DAY + 120, { amount: 4 }, false);
+    sale(DAY + 180, { context: 'tip' });
+    sale(DAY + 86400);
+    // Paid by the vendor, not to them
+    sale(DAY + 240, { sender: VENDOR, recipient: PAYER });
+
+    const report = await getVendorSales(VENDOR, '2026-01-27', 'UTC');
+
+    expect(report.date).toBe('2026-01-27');
+    expect(report.sales.map((s) => s.id)).toEqual([first.id, second.id]);
+    expect(report.sales[0]).toMatchObject({
+      invoiceId: INVOICE_ID,
+      settledAt: '2026-01-27T10:00:00.000Z',
+      amount: 2.5,
+      symbol: 'CHT',
+      payer: { npub: PAYER },
+      memo: 'Coffee',
+      txHash: '0xabc',
+    });
+    expect(report.total).toBe(2.6);
+  });
+
+  it('should export sales as CSV', () => {
+    const csv = salesToCsv([{
+      id: 'c'.repeat(64),
+      invoiceId: INVOICE_ID,
+      settledAt: '2026-01-27T10:00:00.000Z',
+      amount: 2.5,
+      symbol: 'CHT',
+      payer: { npub: PAYER, username: 'alice' },
+      memo: '=HYPERLINK("x"), with "quotes"',
+    }]);
+
+    expect(csv.split('\n')).toEqual([
+      'time,amount,symbol,payer,payer_npub,memo,payment_request,tx_hash',
+      `2026-01-27T10:00:00.000Z,2.5,CHT,alice,${PAYER},"'=HYPERLINK(""x""), with ""quotes""",${INVOICE_ID},`,
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Admin role, moderation actions and audit log
+ *
+ * Admins are the npubs listed under "admins" in settings.json. Admin API
+ * routes are wrapped with `withAdminAuth`, which requires a NIP-98 signed
+ * request from one of them.
+ *
+ * Every admin action goes through `recordAdminAction`, which appends an
+ * entry to DATA_DIR/admin_audit.jsonl whether the action succeeds or not.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Offer, StorageProfile } from '@/types';
+import { withNostrAuth, type NostrAuth } from './nip98-auth';
+import { getProfileLockResource, getStorageBackend, updateOffer } from './storage-backend';
+import { withLock } from './file-lock';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { addUserToAllRelays, removeUserFromAllRelays } from './nip86-client';
+
+export type AdminAction =
+  | 'offer.hide'
+  | 'offer.unhide'
+  | 'offer.cancel'
+  | 'offer.attendance'
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'badge.reassign'
+  | 'badge.rebind'
+  | 'balance.adjust'
+  | 'invite.quota'
+  | 'invite.revoke'
+  | 'data.repair';
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  admin: string; // npub
+  action: AdminAction;
+  target: string; // offer id, npub, badge serial number or "data"
+  details?: Record<string, unknown>;
+  result: 'success' | 'failure';
+  error?: string;
+}
+
+/**
+ * Thrown by admin actions for requests that can't be carried out
+ * The status is used as the HTTP status by the admin routes.
+ */
+export class AdminActionError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AdminActionError';
+  }
+}
+
+// ============================================================================
+// Admins
+// ============================================================================
+
+/**
+ * Load the admin npubs from settings.json
+ * Read on every call so edits apply without a restart.
+ */
+export function getAdmins(): string[] {
+  try {
+    const settings = JSON.parse(readFileSync(path.join(process.cwd(), 'settings.json'), 'utf-8'));
+    return Array.isArray(settings.admins) ? settings.admins : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check whether an npub is an admin
+ */
+export function isAdmin(npub: string, admins: string[] = getAdmins()): boolean {
+  return admins.includes(npub);
+}
+
+/**
+ * Require a NIP-98 signed request from an admin before running a route handler
+ * Unsigned requests get a 401, signed requests from non-admins a 403.
+ */
+export function withAdminAuth<C = unknown>(
+  handler: (request: NextRequest, context: C, auth: NostrAuth) => Promise<NextResponse>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return withNostrAuth<C>(async (request, context, auth) => {
+    if (!isAdmin(auth.npub)) {
+      console.warn(`[Admin] ${request.method} ${new URL(request.url).pathname} rejected for non-admin ${auth.npub}`);
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: admin access required' },
+        { status: 403 }
+      );
+    }
+    return handler(request, context, auth);
+  });
+}
+
+// ============================================================================
+// Audit log
+// ============================================================================
+
+function getAuditLogPath(): string {
+  return path.join(getDataDir(), 'admin_audit.jsonl');
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function appendAuditLog(
+  entry: Omit<AuditLogEntry, 'id' | 'timestamp'>
+): Promise<AuditLogEntry> {
+  const logged: AuditLogEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  await appendJsonLine(getAuditLogPath(), logged);
+  return logged;
+}
+
+/**
+ * Read the audit log, newest first
+ */
+export async function readAuditLog(limit?: number): Promise<AuditLogEntry[]> {
+  const entries = (await readJsonLines<AuditLogEntry>(getAuditLogPath())).reverse();
+  return limit ? entries.slice(0, limit) : entries;
+}
+
+/**
+ * Run an admin action and record the outcome in the audit log
+ * Errors are logged and re-thrown.
+ */
+export async function recordAdminAction<T>(
+  admin: string,
+  action: AdminAction,
+  target: string,
+  details: Record<string, unknown> | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await run();
+    await appendAuditLog({ admin, action, target, details, result: 'success' });
+    console.log(`[Admin] ${action} ${target} by ${admin}`);
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await appendAuditLog({ admin, action, target, details, result: 'failure', error: message });
+    console.error(`[Admin] ${action} ${target} by ${admin} failed:`, message);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Hide an offer from listings, or show it again
+ */
+export async function setOfferHidden(admin: string, offerId: string, hidden: boolean): Promise<Offer> {
+  return recordAdminAction(admin, hidden ? 'offer.hide' : 'offer.unhide', offerId, undefined, async () => {
+    const offer = await updateOffer(offerId, (o) => {
+      o.hidden = hidden;
+      o.updatedAt = new Date().toISOString();
+    });
+    if (!offer) {
+      throw new AdminActionError('Offer not found', 404);
+    }
+    return offer;
+  });
+}
+
+async function requireProfile(npub: string): Promise<StorageProfile> {
+  const profile = await getStorageBackend().getProfileByNpub(npub);
+  if (!profile) {
+    throw new AdminActionError('User not found', 404);
+  }
+  return profile;
+}
+
+/**
+ * Load, change and save a profile while holding its lock, so a concurrent
+ * RSVP (which saves the profile under the same lock) can't undo the change
+ */
+async function updateProfile(npub: string, mutate: (profile: StorageProfile) => void): Promise<StorageProfile> {
+  return withLock(getProfileLockResource(npub), async () => {
+    const profile = await requireProfile(npub);
+    mutate(profile);
+    await getStorageBackend().saveProfile(profile);
+    return profile;
+  });
+}
+
+/**
+ * Suspend a user: their signed requests are refused and they are removed
+ * from the relays' allowed lists (NIP-86)
+ */
+export async function suspendUser(admin: string, npub: string, reason?: string): Promise<StorageProfile> {
+  return recordAdminAction(admin, 'user.suspend', npub, { reason }, async () => {
+    if (isAdmin(npub)) {
+      throw new AdminActionError('Admins cannot be suspended');
+    }
+
+    const profile = await updateProfile(npub, (current) => {
+      current.suspended = { at: new Date().toISOString(), by: admin, reason };
+    });
+
+    const relays = await removeUserFromAllRelays(npub);
+    if (relays.failed.length > 0) {
+      console.warn('[Admin] Some relays failed NIP-86 remove user:', relays.failed);
+    }
+    return profile;
+  });
+}
+
+/**
+ * Lift a suspension and add the user back to the relays
+ */
+export async function unsuspendUser(admin: string, npub: string): Promise<StorageProfile> {
+  return recordAdminAction(admin, 'user.unsuspend', npub, undefined, async () => {
+    const profile = await updateProfile(npub, (current) => {
+      delete current.suspended;
+    });
+
+    const relays = await addUserToAllRelays(npub);
+    if (relays.failed.length > 0) {
+      console.warn('[Admin] Some relays failed NIP-86 add user:', relays.failed);
+    }
+    return profile;
+  });
+}
+
+/**
+ * Set how many people a user may invite
+ *
+ * @param quota - The new quota, or null to go back to settings.maxInvitesPerUser
+ */
+export async function setInviteQuota(admin: string, npub: string, quota: number | null): Promise<StorageProfile> {
+  return recordAdminAction(admin, 'invite.quota', npub, { quota }, async () => {
+    if (quota !== null && (!Number.isInteger(quota) || quota < 0)) {
+      throw new AdminActionError('Quota must be a whole number of 0 or more');
+    }
+
+    return updateProfile(npub, (profile) => {
+      if (quota === null) {
+        delete profile.inviteQuota;
+      } else {
+        profile.inviteQuota = quota;
+      }
+    });
+  });
+}
+
+/**
+ * Give a badge to a user
+ *
+ * If another user holds the badge and the user had one, the two users swap
+ * badges, so nobody is left without one. Otherwise the user's previous badge,
+ * if any, is released.
+ */
+export async function reassignBadge(admin: string, serialNumber: string, npub: string): Promise<StorageProfile> {
+  return recordAdminAction(admin, 'badge.reassign', serialNumber, { npub }, async () => {
+    const storage = getStorageBackend();
+    if (!(await storage.isBadgeSetup(serialNumber))) {
+      throw new AdminActionError('Badge is not set up');
+    }
+    if (await storage.getBadgeRevocation(serialNumber)) {
+      throw new AdminActionError('Badge has been revoked', 410);
+    }
+
+    const profile = await requireProfile(npub);
+    if (profile.serialNumber === serialNumber) {
+      return profile;
+    }
+
+    const holder = await storage.getProfileBySerialNumber(serialNumber);
+    const previousSerial = profile.serialNumber;
+
+    const updated = await storage.assignBadge(serialNumber, npub);
+    if (holder && holder.npub !== npub && previousSerial) {
+      await storage.assignBadge(previousSerial, holder.npub);
+    }
+    return updated;
+  });
+}
+
+/**
+ * Turn an error from an admin action into the usual { success, error } response
+ */
+export function adminErrorResponse(error: unknown, logPrefix: string): NextResponse {
+  if (error instanceof AdminActionError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error(`${logPrefix} Error:`, error);
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
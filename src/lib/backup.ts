@@ -0,0 +1,400 @@
+/**
+ * Snapshot backups of DATA_DIR
+ *
+ * A backup is a gzipped tarball (BACKUP_DIR/osv-YYYYMMDD-HHmmss-SSS-<kind>.tar.gz)
+ * holding a manifest.json and the snapshot under data/:
+ * - every file with its size, mode and sha256 checksum
+ * - directories and symlinks (badges/:serial and usernames/:username point
+ *   at npub directories, see storage.ts) recorded as links, not copies
+ *
+ * Incremental backups only contain the files whose checksum changed since
+ * the previous backup. Their manifest still lists the whole tree, and each
+ * file names the snapshot its content is stored in, so a restore needs the
+ * chain of archives back to the last full backup.
+ *
+ * Files are copied one at a time while the app keeps running:
+ * - JSON files are replaced atomically (file-lock.ts), so each copy is whole
+ * - JSONL logs are cut after their last complete line
+ * - SQLite databases are copied with the online backup API
+ * Derived files (event log indexes, lock files) are not backed up.
+ *
+ * Archives are written and read with the system tar.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import Database from 'better-sqlite3';
+import { getDataDir } from './storage';
+
+const execFileAsync = promisify(execFile);
+
+const MANIFEST_FILE = 'manifest.json';
+const SNAPSHOT_DIR = 'data';
+const ARCHIVE_PATTERN = /^osv-\d{8}-\d{6}-\d{3}-(full|incremental)\.tar\.gz$/;
+
+export type BackupKind = 'full' | 'incremental';
+
+export interface BackupEntry {
+  path: string; // Relative to DATA_DIR, with forward slashes
+  type: 'file' | 'directory' | 'symlink';
+  mode?: number;
+  size?: number;
+  sha256?: string;
+  snapshot?: string; // Archive holding the file content
+  target?: string; // Symlink target, as stored
+}
+
+export interface BackupManifest {
+  version: 1;
+  name: string;
+  kind: BackupKind;
+  base: string | null; // Previous backup (incremental only)
+  createdAt: string;
+  dataDir: string;
+  entries: BackupEntry[];
+}
+
+export interface BackupResult {
+  archivePath: string;
+  manifest: BackupManifest;
+  filesStored: number;
+  bytesStored: number;
+}
+
+export interface RestoreResult {
+  manifest: BackupManifest;
+  restored: number;
+  problems: string[];
+}
+
+/**
+ * Get the backup directory (BACKUP_DIR or ./backups)
+ */
+export function getBackupDir(): string {
+  return process.env.BACKUP_DIR || path.join(process.cwd(), 'backups');
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function toPosix(relPath: string): string {
+  return relPath.split(path.sep).join('/');
+}
+
+/**
+ * Files that are rebuilt on demand or only meaningful to a running process
+ */
+function isDerived(relPath: string): boolean {
+  const name = path.basename(relPath);
+  return (
+    relPath === '.locks' ||
+    relPath.startsWith('.locks/') ||
+    name.endsWith('.index.json') ||
+    name.endsWith('.tmp') ||
+    name.endsWith('.sqlite-wal') ||
+    name.endsWith('.sqlite-shm')
+  );
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}-` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}-` +
+    pad(date.getUTCMilliseconds(), 3)
+  );
+}
+
+async function tar(args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('tar', args, { maxBuffer: 256 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * List the backups in a directory, oldest first
+ */
+export async function listBackups(backupDir: string = getBackupDir()): Promise<string[]> {
+  try {
+    const files = await fs.readdir(backupDir);
+    return files
+      .filter((f) => ARCHIVE_PATTERN.test(f))
+      .sort()
+      .map((f) => path.join(backupDir, f));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the manifest of a backup archive
+ */
+export async function readBackupManifest(archivePath: string): Promise<BackupManifest> {
+  const content = await tar(['-xzOf', archivePath, MANIFEST_FILE]);
+  const manifest = JSON.parse(content) as BackupManifest;
+  if (manifest.version !== 1 || !Array.isArray(manifest.entries)) {
+    throw new Error(`Unsupported backup manifest in ${archivePath}`);
+  }
+  return manifest;
+}
+
+/**
+ * Read a file's content as it should be stored in a snapshot
+ */
+async function snapshotFile(source: string, staged: string): Promise<Buffer> {
+  if (source.endsWith('.sqlite')) {
+    const db = new Database(source, { readonly: true, fileMustExist: true });
+    try {
+      await db.backup(staged);
+    } finally {
+      db.close();
+    }
+    return fs.readFile(staged);
+  }
+
+  let content = await fs.readFile(source);
+  if (source.endsWith('.jsonl')) {
+    // Leave out a line that is still being appended
+    const end = content.lastIndexOf(0x0a);
+    content = content.subarray(0, end + 1);
+  }
+  return content;
+}
+
+/**
+ * Create a backup of DATA_DIR
+ *
+ * With incremental, the backup is based on the latest one in the backup
+ * directory (a full backup is made if there is none).
+ */
+export async function createBackup(
+  options: { dataDir?: string; backupDir?: string; incremental?: boolean; now?: Date } = {}
+): Promise<BackupResult> {
+  const dataDir = path.resolve(options.dataDir || getDataDir());
+  const backupDir = path.resolve(options.backupDir || getBackupDir());
+  const now = options.now || new Date();
+
+  const previous = options.incremental ? (await listBackups(backupDir)).pop() : undefined;
+  const base = previous ? await readBackupManifest(previous) : null;
+  const baseFiles = new Map(
+    (base?.entries || []).filter((e) => e.type === 'file').map((e) => [e.path, e])
+  );
+
+  const kind: BackupKind = base ? 'incremental' : 'full';
+  const name = `osv-${formatTimestamp(now)}-${kind}.tar.gz`;
+  const archivePath = path.join(backupDir, name);
+
+  await fs.mkdir(backupDir, { recursive: true });
+  const staging = await fs.mkdtemp(path.join(backupDir, '.staging-'));
+  const stagedData = path.join(staging, SNAPSHOT_DIR);
+  await fs.mkdir(stagedData);
+
+  const entries: BackupEntry[] = [];
+  let filesStored = 0;
+  let bytesStored = 0;
+
+  async function walk(dir: string): Promise<void> {
+    const items = await fs.readdir(dir, { withFileTypes: true });
+    items.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const item of items) {
+      const fullPath = path.join(dir, item.name);
+      const relPath = toPosix(path.relative(dataDir, fullPath));
+
+      // A backup directory inside DATA_DIR is not part of the snapshot
+      if (isDerived(relPath) || fullPath === backupDir) continue;
+
+      const stat = await fs.lstat(fullPath);
+      if (stat.isSymbolicLink()) {
+        entries.push({ path: relPath, type: 'symlink', target: await fs.readlink(fullPath) });
+      } else if (stat.isDirectory()) {
+        entries.push({ path: relPath, type: 'directory', mode: stat.mode & 0o777 });
+        await walk(fullPath);
+      } else if (stat.isFile()) {
+        const staged = path.join(stagedData, relPath);
+        await fs.mkdir(path.dirname(staged), { recursive: true });
+
+        let content: Buffer;
+        try {
+          content = await snapshotFile(fullPath, staged);
+        } catch (error) {
+          // Deleted while the backup was running
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+
+        const checksum = sha256(content);
+        const previousEntry = baseFiles.get(relPath);
+        const unchanged = previousEntry?.sha256 === checksum;
+
+        if (unchanged) {
+          await fs.rm(staged, { force: true });
+        } else {
+          await fs.writeFile(staged, content);
+          filesStored++;
+          bytesStored += content.length;
+        }
+
+        entries.push({
+          path: relPath,
+          type: 'file',
+          mode: stat.mode & 0o777,
+          size: content.length,
+          sha256: checksum,
+          snapshot: unchanged ? previousEntry!.snapshot : name,
+        });
+      }
+    }
+  }
+
+  const manifest: BackupManifest = {
+    version: 1,
+    name,
+    kind,
+    base: base ? base.name : null,
+    createdAt: now.toISOString(),
+    dataDir,
+    entries,
+  };
+
+  try {
+    await walk(dataDir);
+    await fs.writeFile(path.join(staging, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    // Write next to the final name so a partial archive is never listed
+    const tmpArchive = path.join(backupDir, `.${name}.tmp`);
+    await tar(['-czf', tmpArchive, '-C', staging, MANIFEST_FILE, SNAPSHOT_DIR]);
+    await fs.rename(tmpArchive, archivePath);
+  } finally {
+    await fs.rm(staging, { recursive: true, force: true });
+  }
+
+  return { archivePath, manifest, filesStored, bytesStored };
+}
+
+/**
+ * Check a directory against a backup manifest
+ *
+ * Returns a list of problems (empty when the directory matches).
+ */
+export async function verifyDirectory(manifest: BackupManifest, dir: string): Promise<string[]> {
+  const problems: string[] = [];
+
+  for (const entry of manifest.entries) {
+    const fullPath = path.join(dir, entry.path);
+    let stat;
+    try {
+      stat = await fs.lstat(fullPath);
+    } catch {
+      problems.push(`${entry.path}: missing`);
+      continue;
+    }
+
+    if (entry.type === 'symlink') {
+      if (!stat.isSymbolicLink()) {
+        problems.push(`${entry.path}: not a symlink`);
+      } else if ((await fs.readlink(fullPath)) !== entry.target) {
+        problems.push(`${entry.path}: symlink target differs`);
+      }
+    } else if (entry.type === 'directory') {
+      if (!stat.isDirectory()) {
+        problems.push(`${entry.path}: not a directory`);
+      }
+    } else if (!stat.isFile()) {
+      problems.push(`${entry.path}: not a file`);
+    } else if (sha256(await fs.readFile(fullPath)) !== entry.sha256) {
+      problems.push(`${entry.path}: checksum mismatch`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Restore a backup into a new (or empty) directory and verify it
+ *
+ * Incremental backups pull unchanged files from the earlier archives of
+ * their chain, which must be in the same directory.
+ */
+export async function restoreBackup(archivePath: string, targetDir: string): Promise<RestoreResult> {
+  const manifest = await readBackupManifest(archivePath);
+
+  const existing = await fs.readdir(targetDir).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  });
+  if (existing.length > 0) {
+    throw new Error(`Restore target ${targetDir} is not empty`);
+  }
+  await fs.mkdir(targetDir, { recursive: true });
+
+  const extractDir = await fs.mkdtemp(path.join(os.tmpdir(), 'osv-restore-'));
+  let restored = 0;
+
+  try {
+    // Extract every archive the files are stored in
+    const snapshots = new Set(
+      manifest.entries.filter((e) => e.type === 'file').map((e) => e.snapshot || manifest.name)
+    );
+    for (const snapshot of snapshots) {
+      const snapshotPath = path.join(path.dirname(archivePath), snapshot);
+      try {
+        await fs.access(snapshotPath);
+      } catch {
+        throw new Error(`Backup ${snapshot} needed by ${manifest.name} not found`);
+      }
+
+      const dir = path.join(extractDir, snapshot);
+      await fs.mkdir(dir);
+      await tar(['-xzf', snapshotPath, '-C', dir, SNAPSHOT_DIR]);
+    }
+
+    for (const entry of manifest.entries) {
+      const dest = path.join(targetDir, entry.path);
+
+      if (entry.type === 'directory') {
+        await fs.mkdir(dest, { recursive: true });
+        await fs.chmod(dest, entry.mode ?? 0o755);
+      } else if (entry.type === 'symlink') {
+        await fs.mkdir(path.dirname(dest), { recursive: true });
+        await fs.symlink(entry.target!, dest);
+      } else {
+        const source = path.join(extractDir, entry.snapshot || manifest.name, SNAPSHOT_DIR, entry.path);
+        await fs.mkdir(path.dirname(dest), { recursive: true });
+        try {
+          await fs.copyFile(source, dest);
+        } catch (error) {
+          // Reported as missing by the verification below
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+        await fs.chmod(dest, entry.mode ?? 0o644);
+      }
+      restored++;
+    }
+  } finally {
+    await fs.rm(extractDir, { recursive: true, force: true });
+  }
+
+  const problems = await verifyDirectory(manifest, targetDir);
+  return { manifest, restored, problems };
+}
+
+/**
+ * Check that a backup (and its chain) restores to exactly its manifest
+ */
+export async function verifyBackup(archivePath: string): Promise<RestoreResult> {
+  const targetDir = await fs.mkdtemp(path.join(os.tmpdir(), 'osv-verify-'));
+  try {
+    return await restoreBackup(archivePath, targetDir);
+  } finally {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Lost badge recovery
+ *
+ * Links a new badge to an existing profile and puts the old badge on the
+ * revocation list, so whoever finds it can neither claim it nor use it to
+ * reach the owner's profile. The owner proves key ownership with a NIP-98
+ * signed request, or an admin vouches for them (POST /api/badge/rebind).
+ *
+ * The change is announced with a server-signed kind 1736 event.
+ */
+
+import type { BadgeRevocation, StorageProfile } from '@/types';
+import { getStorageBackend } from './storage-backend';
+import { createBadgeRebindEvent, decodeNsec } from './nostr-events';
+import { publishNostrEvent } from './nostr-server';
+
+export interface RebindBadgeOptions {
+  npub: string; // Owner of the profile
+  serialNumber: string; // New badge
+  by: string; // npub of the owner, or of the admin who vouched
+  reason?: string; // Why the old badge is revoked (default 'lost')
+}
+
+export interface RebindBadgeResult {
+  profile: StorageProfile;
+  revocation: BadgeRevocation | null; // null if the profile had no badge
+  eventId?: string; // Announcement event, if NOSTR_NSEC is configured
+}
+
+/**
+ * Thrown when a badge can't be re-bound
+ */
+export class BadgeRebindError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BadgeRebindError';
+  }
+}
+
+/**
+ * Link a new badge to a profile and revoke the previous one
+ */
+export async function rebindBadge(options: RebindBadgeOptions): Promise<RebindBadgeResult> {
+  const { npub, serialNumber, by } = options;
+  const reason = options.reason || 'lost';
+  const storage = getStorageBackend();
+
+  const profile = await storage.getProfileByNpub(npub);
+  if (!profile) {
+    throw new BadgeRebindError('Profile not found', 404);
+  }
+  if (profile.serialNumber === serialNumber) {
+    throw new BadgeRebindError('This badge is already linked to the profile');
+  }
+  if (!(await storage.isBadgeSetup(serialNumber))) {
+    throw new BadgeRebindError('Unknown badge', 404);
+  }
+  if (await storage.getBadgeRevocation(serialNumber)) {
+    throw new BadgeRebindError('Badge has been revoked', 410);
+  }
+  if (await storage.isBadgeClaimed(serialNumber)) {
+    throw new BadgeRebindError('Badge already claimed');
+  }
+
+  const previousSerial = profile.serialNumber;
+  let revocation: BadgeRevocation | null = null;
+  if (previousSerial) {
+    revocation = {
+      serialNumber: previousSerial,
+      npub,
+      revokedAt: new Date().toISOString(),
+      revokedBy: by,
+      reason,
+      replacedBy: serialNumber,
+    };
+    // Revoke first: if linking fails, the lost badge is still unusable
+    await storage.revokeBadge(revocation);
+  }
+
+  const updated = await storage.assignBadge(serialNumber, npub);
+  console.log(`[Badge Rebind] ${npub} moved from badge ${previousSerial || '(none)'} to ${serialNumber}`);
+
+  const eventId = revocation ? announceRebind(revocation, by !== npub ? by : undefined) : undefined;
+
+  return { profile: updated, revocation, eventId };
+}
+
+/**
+ * Publish the kind 1736 announcement (doesn't fail the re-binding)
+ */
+function announceRebind(revocation: BadgeRevocation, vouchedBy?: string): string | undefined {
+  const nsec = process.env.NOSTR_NSEC;
+  if (!nsec) {
+    console.log('[Badge Rebind] Skipping announcement - NOSTR_NSEC not configured');
+    return undefined;
+  }
+
+  try {
+    const secretKey = decodeNsec(nsec);
+    const event = createBadgeRebindEvent(secretKey, {
+      owner: revocation.npub,
+      revokedSerialNumber: revocation.serialNumber,
+      serialNumber: revocation.replacedBy!,
+      reason: revocation.reason,
+      vouchedBy,
+    });
+
+    publishNostrEvent(event, { secretKey }).then((result) => {
+      console.log('[Badge Rebind] Published announcement:', {
+        eventId: event.id,
+        published: result.published.length,
+      });
+    }).catch((err) => {
+      console.error('[Badge Rebind] Failed to publish announcement:', err);
+    });
+
+    return event.id;
+  } catch (err) {
+    console.error('[Badge Rebind] Failed to create announcement:', err);
+    return undefined;
+  }
+}
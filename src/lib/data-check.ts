@@ -0,0 +1,478 @@
+/**
+ * Data integrity checker (fsck) for DATA_DIR
+ *
+ * Walks profiles, offers and the file layout (see storage.ts) and reports:
+ * - dangling-link:          badges/:serial or usernames/:username pointing at no profile
+ * - duplicate-claim:        several badges linked to one profile, or one badge claimed by several
+ * - missing-link:           a profile not reachable through its badge or username link
+ * - stale-link:             a badge or username link that no longer matches the profile
+ * - missing-username:       a profile without a username
+ * - asymmetric-invite:      invitedBy and the inviter's invitees disagree
+ * - unknown-inviter:        invitedBy or invitees naming an npub without a profile
+ * - orphaned-avatar:        npubs/:npub/avatar.* without a profile
+ * - unknown-author:         an offer author without a profile
+ * - missing-calendar-entry: a scheduled offer missing from its room calendar
+ *
+ * Issues marked fixable are repaired by checkData({ fix: true }). Nothing is
+ * changed otherwise. Link checks only apply to the file storage backend; the
+ * SQLite backend has no symlinks.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Offer, StorageProfile } from '@/types';
+import { getDataDir, getNpubDir } from './storage';
+import { getActiveRsvps, getStorageBackend } from './storage-backend';
+import {
+  addProposalEvent,
+  generateIcsFile,
+  getProposalEvents,
+  getRoomSlug,
+  type ProposalEvent,
+} from './local-calendar';
+
+export type DataIssueType =
+  | 'dangling-link'
+  | 'duplicate-claim'
+  | 'missing-link'
+  | 'stale-link'
+  | 'missing-username'
+  | 'asymmetric-invite'
+  | 'unknown-inviter'
+  | 'orphaned-avatar'
+  | 'unknown-author'
+  | 'missing-calendar-entry';
+
+export interface DataIssue {
+  type: DataIssueType;
+  subject: string; // What the issue is about, e.g. "badges/0001" or "offers/abc"
+  message: string;
+  fixable: boolean;
+  fixed?: boolean;
+  fixError?: string;
+}
+
+export interface DataCheckReport {
+  checkedAt: string;
+  fix: boolean;
+  profiles: number;
+  offers: number;
+  issues: DataIssue[];
+  fixed: number;
+}
+
+/**
+ * An issue found during the walk, with the repair to run in fix mode
+ */
+interface PendingIssue {
+  issue: DataIssue;
+  repair?: () => Promise<void>;
+}
+
+const AVATAR_PATTERN = /^avatar\.[a-z]+$/;
+
+/**
+ * Read the links in badges/ or usernames/ (name -> npub it points at)
+ */
+async function readLinks(dirName: string): Promise<Map<string, string>> {
+  const dir = path.join(getDataDir(), dirName);
+  const links = new Map<string, string>();
+
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return links;
+    }
+    throw error;
+  }
+
+  for (const entry of entries) {
+    // whitelist.txt and unclaimed badge directories aren't links
+    if (!entry.isSymbolicLink()) continue;
+
+    const target = await fs.readlink(path.join(dir, entry.name));
+    links.set(entry.name, path.basename(path.resolve(dir, target)));
+  }
+
+  return links;
+}
+
+/**
+ * Point badges/:name or usernames/:name at an npub directory
+ */
+async function createLink(dirName: string, name: string, npub: string): Promise<void> {
+  const dir = path.join(getDataDir(), dirName);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.symlink(path.relative(dir, getNpubDir(npub)), path.join(dir, name));
+}
+
+async function removeLink(dirName: string, name: string): Promise<void> {
+  await fs.unlink(path.join(getDataDir(), dirName, name));
+}
+
+/**
+ * Load a profile, change it and save it (profiles may be fixed several times)
+ */
+async function updateStoredProfile(npub: string, mutate: (profile: StorageProfile) => void): Promise<void> {
+  const storage = getStorageBackend();
+  const profile = await storage.getProfileByNpub(npub);
+  if (!profile) {
+    throw new Error(`Profile ${npub} not found`);
+  }
+
+  mutate(profile);
+  profile.profile.updatedAt = new Date().toISOString();
+  await storage.saveProfile(profile);
+}
+
+/**
+ * The calendar entry an offer should have (as created by the offers API)
+ */
+async function offerToProposalEvent(offer: Offer, profiles: Map<string, StorageProfile>): Promise<ProposalEvent> {
+  const rsvps = await getActiveRsvps(offer.id);
+  const author = offer.authors[0];
+
+  return {
+    offerId: offer.id,
+    title: offer.title,
+    description: offer.description || '',
+    startTime: new Date(offer.startTime!),
+    endTime: new Date(offer.endTime!),
+    room: offer.room!,
+    status: offer.status === 'confirmed' ? 'CONFIRMED' : offer.status === 'cancelled' ? 'CANCELLED' : 'TENTATIVE',
+    minRsvps: offer.type === 'workshop' ? offer.minRsvps ?? 0 : 1,
+    attendees: rsvps.map((r) => ({ npub: r.npub, username: profiles.get(r.npub)?.username || '' })),
+    author,
+    authorUsername: author ? profiles.get(author)?.username : undefined,
+  };
+}
+
+/**
+ * Badge and username links (file backend only)
+ */
+async function checkLinks(profiles: Map<string, StorageProfile>, pending: PendingIssue[]): Promise<void> {
+  const badges = await readLinks('badges');
+  const usernames = await readLinks('usernames');
+
+  for (const [dirName, links] of [['badges', badges], ['usernames', usernames]] as const) {
+    for (const [name, npub] of links) {
+      if (!profiles.has(npub)) {
+        pending.push({
+          issue: {
+            type: 'dangling-link',
+            subject: `${dirName}/${name}`,
+            message: `Points at ${npub}, which has no profile`,
+            fixable: true,
+          },
+          repair: () => removeLink(dirName, name),
+        });
+      }
+    }
+  }
+
+  // Badges linked to each profile
+  const badgesByNpub = new Map<string, string[]>();
+  for (const [serial, npub] of badges) {
+    if (!profiles.has(npub)) continue;
+    badgesByNpub.set(npub, [...(badgesByNpub.get(npub) || []), serial]);
+  }
+
+  for (const [npub, serials] of badgesByNpub) {
+    const own = profiles.get(npub)!.serialNumber;
+    for (const serial of serials.filter((s) => s !== own)) {
+      pending.push({
+        issue: {
+          type: serials.length > 1 ? 'duplicate-claim' : 'stale-link',
+          subject: `badges/${serial}`,
+          message: `Linked to ${npub}, whose badge is ${own}`,
+          fixable: true,
+        },
+        repair: () => removeLink('badges', serial),
+      });
+    }
+  }
+
+  for (const [npub, profile] of profiles) {
+    const serial = profile.serialNumber;
+    const badgeOwner = serial ? badges.get(serial) : undefined;
+    if (serial && badgeOwner !== npub) {
+      // A dangling link in the way is removed first
+      const conflict = !!badgeOwner && profiles.has(badgeOwner);
+      pending.push({
+        issue: {
+          type: conflict ? 'duplicate-claim' : 'missing-link',
+          subject: `badges/${serial}`,
+          message: conflict ? `Badge of ${npub} is linked to ${badgeOwner}` : `Badge of ${npub} has no link`,
+          fixable: !conflict,
+        },
+        repair: conflict ? undefined : () => createLink('badges', serial, npub),
+      });
+    }
+
+    const username = profile.username?.toLowerCase();
+    const usernameOwner = username ? usernames.get(username) : undefined;
+    if (username && usernameOwner !== npub) {
+      const conflict = !!usernameOwner && profiles.has(usernameOwner);
+      pending.push({
+        issue: {
+          type: 'missing-link',
+          subject: `usernames/${username}`,
+          message: conflict
+            ? `Username of ${npub} is linked to ${usernameOwner}`
+            : `Username of ${npub} has no link`,
+          fixable: !conflict,
+        },
+        repair: conflict ? undefined : () => createLink('usernames', username, npub),
+      });
+    }
+  }
+
+  for (const [name, npub] of usernames) {
+    const profile = profiles.get(npub);
+    if (profile?.username && profile.username.toLowerCase() !== name) {
+      pending.push({
+        issue: {
+          type: 'stale-link',
+          subject: `usernames/${name}`,
+          message: `${npub} is now ${profile.username}`,
+          fixable: true,
+        },
+        repair: () => removeLink('usernames', name),
+      });
+    }
+  }
+}
+
+/**
+ * invitedBy / invitees symmetry
+ */
+function checkInvites(profiles: Map<string, StorageProfile>, pending: PendingIssue[]): void {
+  for (const [npub, profile] of profiles) {
+    const inviter = profile.profile?.invitedBy;
+    if (inviter) {
+      const inviterProfile = profiles.get(inviter);
+      if (!inviterProfile) {
+        pending.push({
+          issue: {
+            type: 'unknown-inviter',
+            subject: `npubs/${npub}`,
+            message: `Invited by ${inviter}, who has no profile`,
+            fixable: false,
+          },
+        });
+      } else if (!(inviterProfile.profile.invitees || []).includes(npub)) {
+        pending.push({
+          issue: {
+            type: 'asymmetric-invite',
+            subject: `npubs/${inviter}`,
+            message: `Missing invitee ${npub} (invited by ${inviter})`,
+            fixable: true,
+          },
+          repair: () =>
+            updateStoredProfile(inviter, (p) => {
+              p.profile.invitees = [...(p.profile.invitees || []).filter((n) => n !== npub), npub];
+            }),
+        });
+      }
+    }
+
+    for (const invitee of profile.profile?.invitees || []) {
+      const inviteeProfile = profiles.get(invitee);
+      if (!inviteeProfile) {
+        pending.push({
+          issue: {
+            type: 'unknown-inviter',
+            subject: `npubs/${npub}`,
+            message: `Invitee ${invitee} has no profile`,
+            fixable: false,
+          },
+        });
+        continue;
+      }
+
+      const invitedBy = inviteeProfile.profile.invitedBy;
+      if (invitedBy === npub) continue;
+
+      pending.push({
+        issue: {
+          type: 'asymmetric-invite',
+          subject: invitedBy ? `npubs/${npub}` : `npubs/${invitee}`,
+          message: invitedBy
+            ? `Lists invitee ${invitee}, who was invited by ${invitedBy}`
+            : `Listed as invitee of ${npub} but has no invitedBy`,
+          fixable: true,
+        },
+        repair: invitedBy
+          ? () =>
+              updateStoredProfile(npub, (p) => {
+                p.profile.invitees = (p.profile.invitees || []).filter((n) => n !== invitee);
+              })
+          : () =>
+              updateStoredProfile(invitee, (p) => {
+                p.profile.invitedBy = npub;
+              }),
+      });
+    }
+  }
+}
+
+/**
+ * Avatars left in npub directories without a profile
+ */
+async function checkAvatars(profiles: Map<string, StorageProfile>, pending: PendingIssue[]): Promise<void> {
+  const npubsDir = path.join(getDataDir(), 'npubs');
+  let dirs: string[];
+  try {
+    dirs = await fs.readdir(npubsDir);
+  } catch {
+    return;
+  }
+
+  for (const npub of dirs) {
+    if (profiles.has(npub)) continue;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(npubsDir, npub));
+    } catch {
+      continue;
+    }
+
+    for (const file of files.filter((f) => AVATAR_PATTERN.test(f))) {
+      const avatarPath = path.join(npubsDir, npub, file);
+      pending.push({
+        issue: {
+          type: 'orphaned-avatar',
+          subject: `npubs/${npub}/${file}`,
+          message: `${npub} has no profile`,
+          fixable: true,
+        },
+        repair: () => fs.unlink(avatarPath),
+      });
+    }
+  }
+}
+
+/**
+ * Offer authors and room calendar entries
+ */
+async function checkOffers(
+  offers: Offer[],
+  profiles: Map<string, StorageProfile>,
+  pending: PendingIssue[]
+): Promise<void> {
+  const calendars = new Map<string, Set<string>>();
+
+  for (const offer of offers) {
+    for (const author of offer.authors || []) {
+      if (!profiles.has(author)) {
+        pending.push({
+          issue: {
+            type: 'unknown-author',
+            subject: `offers/${offer.id}`,
+            message: `Author ${author} has no profile`,
+            fixable: false,
+          },
+        });
+      }
+    }
+
+    if (!offer.room || !offer.startTime || !offer.endTime) continue;
+
+    const roomSlug = getRoomSlug(offer.room);
+    if (!calendars.has(roomSlug)) {
+      const events = await getProposalEvents(roomSlug);
+      calendars.set(roomSlug, new Set(events.map((e) => e.offerId)));
+    }
+    if (calendars.get(roomSlug)!.has(offer.id)) continue;
+
+    pending.push({
+      issue: {
+        type: 'missing-calendar-entry',
+        subject: `offers/${offer.id}`,
+        message: `"${offer.title}" is not in the ${offer.room} calendar`,
+        fixable: true,
+      },
+      repair: async () => {
+        await addProposalEvent(roomSlug, await offerToProposalEvent(offer, profiles));
+        await generateIcsFile(roomSlug);
+      },
+    });
+  }
+}
+
+/**
+ * Check the data directory and optionally repair what can be repaired
+ */
+export async function checkData(options: { fix?: boolean } = {}): Promise<DataCheckReport> {
+  const storage = getStorageBackend();
+  const allProfiles = await storage.getAllProfiles();
+  const offers = await storage.listOffers();
+
+  const profiles = new Map(allProfiles.map((p) => [p.npub, p]));
+  const pending: PendingIssue[] = [];
+
+  // Badges claimed by several profiles
+  const bySerial = new Map<string, string[]>();
+  for (const profile of allProfiles) {
+    if (!profile.serialNumber) continue;
+    bySerial.set(profile.serialNumber, [...(bySerial.get(profile.serialNumber) || []), profile.npub]);
+  }
+  for (const [serial, npubs] of bySerial) {
+    if (npubs.length > 1) {
+      pending.push({
+        issue: {
+          type: 'duplicate-claim',
+          subject: `badges/${serial}`,
+          message: `Claimed by ${npubs.length} profiles: ${npubs.join(', ')}`,
+          fixable: false,
+        },
+      });
+    }
+  }
+
+  for (const profile of allProfiles) {
+    if (!profile.username) {
+      pending.push({
+        issue: {
+          type: 'missing-username',
+          subject: `npubs/${profile.npub}`,
+          message: 'Profile has no username',
+          fixable: false,
+        },
+      });
+    }
+  }
+
+  if (storage.type === 'file') {
+    await checkLinks(profiles, pending);
+  }
+  checkInvites(profiles, pending);
+  await checkAvatars(profiles, pending);
+  await checkOffers(offers, profiles, pending);
+
+  let fixed = 0;
+  if (options.fix) {
+    for (const { issue, repair } of pending) {
+      if (!repair) continue;
+      try {
+        await repair();
+        issue.fixed = true;
+        fixed++;
+      } catch (error) {
+        issue.fixError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    fix: !!options.fix,
+    profiles: allProfiles.length,
+    offers: offers.length,
+    issues: pending.map((p) => p.issue),
+    fixed,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Linking another device (QR handoff)
+ *
+ * 1. The new device generates an ephemeral key and shows a link request QR
+ *    (a /link URL carrying the ephemeral pubkey and a device name)
+ * 2. The logged-in device scans it, records the device (POST /api/devices)
+ *    and shows a handoff QR: the credentials, signed by the account's signer
+ *    and NIP-44 encrypted to the ephemeral pubkey, valid for LINK_TTL_SECONDS
+ * 3. The new device scans the handoff, checks it was signed by the account it
+ *    hands over, and stores the same credentials
+ *
+ * The ephemeral pubkey doubles as the device id, so the device can be
+ * forgotten from /settings later.
+ */
+
+import { generateSecretKey, getPublicKey, nip19, verifyEvent } from 'nostr-tools';
+import * as nip44 from 'nostr-tools/nip44';
+import { decodeNsec, type NostrEvent } from './nostr-events';
+import type { Signer, SignerChoice } from './signer';
+
+/**
+ * How long a handoff QR can be scanned
+ */
+export const LINK_TTL_SECONDS = 120;
+
+const HANDOFF_PREFIX = 'osvlink:';
+// Ephemeral kind for the signed handoff, never published to relays
+const HANDOFF_EVENT_KIND = 24734;
+const DEVICE_STORAGE_KEY = 'osv_device';
+
+/**
+ * Thrown when a link request or handoff can't be read
+ */
+export class DeviceLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceLinkError';
+  }
+}
+
+/**
+ * What the new device shows first
+ */
+export interface LinkRequest {
+  devicePubkey: string; // Hex ephemeral pubkey, also the device id
+  deviceName: string;
+}
+
+/**
+ * The credentials handed to the new device
+ */
+export interface LinkHandoff {
+  username: string;
+  npub: string;
+  signer: { type: 'local'; nsec: string } | { type: 'nip07' } | { type: 'nip46'; bunker: string; clientKey: string };
+  deviceId: string;
+  expiresAt: number; // Unix timestamp (seconds)
+}
+
+/**
+ * Guess a readable name for this device from the user agent
+ */
+export function guessDeviceName(userAgent: string): string {
+  const os = /iPhone|iPad|Android|Mac OS|Windows|Linux/.exec(userAgent)?.[0];
+  const browser = /Firefox|Edg|Chrome|Safari/.exec(userAgent)?.[0];
+  const names: Record<string, string> = { 'Mac OS': 'Mac', Edg: 'Edge' };
+  const parts = [browser, os].filter(Boolean).map((part) => names[part!] || part);
+  return parts.length ? parts.join(' on ') : 'Unknown device';
+}
+
+/**
+ * Start linking on the new device
+ * Keep the secret key until the handoff is scanned; it's needed to open it.
+ */
+export function createLinkRequest(deviceName: string): { secretKey: Uint8Array; request: LinkRequest } {
+  const secretKey = generateSecretKey();
+  return { secretKey, request: { devicePubkey: getPublicKey(secretKey), deviceName } };
+}
+
+/**
+ * Encode a link request as a /link URL
+ * Scanning it with the phone's camera app opens the link page too.
+ */
+export function encodeLinkRequest(request: LinkRequest, origin: string): string {
+  const params = new URLSearchParams({ request: request.devicePubkey, name: request.deviceName });
+  return `${origin}/link#${params.toString()}`;
+}
+
+/**
+ * Read a link request from a scanned URL or a /link hash
+ */
+export function parseLinkRequest(value: string): LinkRequest {
+  const hash = value.includes('#') ? value.slice(value.indexOf('#') + 1) : value;
+  const params = new URLSearchParams(hash);
+  const devicePubkey = params.get('request') || '';
+
+  if (!/^[0-9a-f]{64}$/.test(devicePubkey)) {
+    throw new DeviceLinkError('This is not a link request. Scan the code shown on your other device.');
+  }
+
+  return { devicePubkey, deviceName: (params.get('name') || 'Unknown device').slice(0, 64) };
+}
+
+/**
+ * Sign and encrypt the credentials for the device that made a link request
+ *
+ * @param accountSigner - The account's signer: the new device only accepts
+ *   handoffs signed by the account they hand over
+ * @returns The handoff to show as a QR code
+ */
+export async function sealHandoff(
+  credentials: { username: string; npub: string; signer: SignerChoice },
+  request: LinkRequest,
+  accountSigner: Signer,
+  now = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  // A connected NIP-46 signer can't be serialized, only its connection details
+  const signer = credentials.signer.type === 'nip46'
+    ? { type: 'nip46' as const, bunker: credentials.signer.bunker, clientKey: credentials.signer.clientKey }
+    : credentials.signer;
+
+  const handoff: LinkHandoff = {
+    username: credentials.username,
+    npub: credentials.npub,
+    signer,
+    deviceId: request.devicePubkey,
+    expiresAt: now + LINK_TTL_SECONDS,
+  };
+
+  const signed = await accountSigner.signEvent({
+    kind: HANDOFF_EVENT_KIND,
+    created_at: now,
+    tags: [['p', request.devicePubkey]],
+    content: JSON.stringify(handoff),
+  });
+
+  // A one-off sender key: the handoff is only readable with the device's ephemeral key
+  const senderKey = generateSecretKey();
+  const conversationKey = nip44.getConversationKey(senderKey, request.devicePubkey);
+  const payload = nip44.encrypt(JSON.stringify(signed), conversationKey);
+
+  return `${HANDOFF_PREFIX}${getPublicKey(senderKey)}:${payload}`;
+}
+
+/**
+ * Decrypt a scanned handoff on the new device
+ *
+ * @param value - The scanned handoff
+ * @param secretKey - The ephemeral key from createLinkRequest()
+ * @throws DeviceLinkError if the handoff is for another device, expired, not
+ *   signed by the account it hands over or inconsistent
+ */
+export function openHandoff(
+  value: string,
+  secretKey: Uint8Array,
+  now = Math.floor(Date.now() / 1000)
+): LinkHandoff {
+  const match = new RegExp(`^${HANDOFF_PREFIX}([0-9a-f]{64}):(.+)$`).exec(value.trim());
+  if (!match) {
+    throw new DeviceLinkError('This is not a device link code. Scan the code shown on your other device.');
+  }
+
+  let signed: NostrEvent;
+  let handoff: LinkHandoff;
+  try {
+    const conversationKey = nip44.getConversationKey(secretKey, match[1]);
+    signed = JSON.parse(nip44.decrypt(match[2], conversationKey));
+    handoff = JSON.parse(signed.content);
+  } catch {
+    throw new DeviceLinkError('This code was made for another device. Start again on both devices.');
+  }
+
+  const devicePubkey = getPublicKey(secretKey);
+  if (handoff.deviceId !== devicePubkey || !signed.tags.some((t) => t[0] === 'p' && t[1] === devicePubkey)) {
+    throw new DeviceLinkError('This code was made for another device. Start again on both devices.');
+  }
+
+  let validSignature = false;
+  try {
+    validSignature = signed.kind === HANDOFF_EVENT_KIND && verifyEvent(signed);
+  } catch {
+    // Malformed events throw instead of returning false
+  }
+  if (!validSignature || nip19.npubEncode(signed.pubkey) !== handoff.npub) {
+    throw new DeviceLinkError('This code was not sent by the account it links. Start again on both devices.');
+  }
+  if (handoff.expiresAt < now) {
+    throw new DeviceLinkError('This code has expired. Start again on both devices.');
+  }
+  if (handoff.signer.type === 'local') {
+    if (nip19.npubEncode(getPublicKey(decodeNsec(handoff.signer.nsec))) !== handoff.npub) {
+      throw new DeviceLinkError('The key in this code does not match the account');
+    }
+  }
+
+  return handoff;
+}
+
+/**
+ * Remember the id of this device after it was linked
+ */
+export function storeLinkedDeviceId(deviceId: string): void {
+  localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+}
+
+/**
+ * Get the id of this device, if it was linked from another one
+ */
+export function getLinkedDeviceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(DEVICE_STORAGE_KEY);
+}
+
+export function clearLinkedDeviceId(): void {
+  localStorage.removeItem(DEVICE_STORAGE_KEY);
+}
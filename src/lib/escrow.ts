@@ -0,0 +1,443 @@
+/**
+ * RSVP escrow
+ *
+ * With settings.tokenEconomics.rsvpEscrow enabled, RSVP payments go to the
+ * server's account (the npub of NOSTR_NSEC) instead of the author, so an
+ * author who doesn't show up doesn't keep them. The payment processor:
+ * - records a deposit when it settles an RSVP transfer to the escrow account
+ * - periodically settles held deposits (settleDueEscrows()):
+ *   - released to the authors once an attendee or an admin confirms
+ *     attendance, or the session
+ *     ended with at least minRsvps active RSVPs (split between co-authors,
+ *     one transfer per author, see rewards.ts)
+ *   - refunded to the attendee if the offer is cancelled, the attendee
+ *     cancelled their RSVP, or the session ended below minRsvps
+ *
+ * DATA_DIR/escrow.jsonl is append-only: the latest entry per deposit wins.
+ * A failed settlement puts the deposit back on hold, to be retried; shares
+ * that were already paid out aren't paid again. A settlement interrupted by a
+ * restart stays releasing or refunding: the next sweep looks up the transfer
+ * that was in flight before carrying on, so it isn't paid twice. A release
+ * that hasn't finished when the offer is cancelled stops, and what is left in
+ * escrow goes back to the attendee (shares already paid stay with the authors).
+ */
+
+import path from 'path';
+import type { Offer } from '@/types';
+import { getPublicKey, nip19 } from 'nostr-tools';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { getActiveRsvps, getStorageBackend, latestRsvpPerUser, updateOffer } from './storage-backend';
+import { withLock } from './file-lock';
+import {
+  createPaymentRequestEvent,
+  decodeNsec,
+  parsePaymentRequestEvent,
+  type NostrEvent,
+  type PaymentSplit,
+} from './nostr-events';
+import { getWalletAddressForNpub } from './token-factory';
+import { notifyWorkshopCancelled } from './notification-triggers';
+import { getPaymentSplit, getRewardShares, type RewardShare } from './rewards';
+import settings from '../../settings.json';
+
+export type EscrowStatus = 'held' | 'releasing' | 'released' | 'refunding' | 'refunded';
+
+export type EscrowSettlementReason =
+  | 'attendance_confirmed'
+  | 'session_ended'
+  | 'offer_cancelled'
+  | 'rsvp_cancelled'
+  | 'min_rsvps_not_reached';
+
+export interface EscrowDeposit {
+  requestId: string; // The attendee's RSVP payment request (kind 1734)
+  offerId: string;
+  attendee: string; // npub
+  amount: number;
+  tokenAddress: string;
+  chainId: number;
+  tokenSymbol?: string;
+  status: EscrowStatus;
+  depositedAt: string; // ISO 8601
+  depositTxHash: string;
+  pendingPayout?: EscrowPayout; // Release or refund transfer in flight
+  settlementReason?: EscrowSettlementReason;
+  payouts?: EscrowPayout[]; // Transfers out of escrow so far
+  settledAt?: string; // ISO 8601
+  error?: string; // Last failed settlement attempt
+}
+
+export interface EscrowPayout {
+  npub: string;
+  amount: number;
+  requestId: string; // kind 1734
+  txHash?: string;
+}
+
+export interface EscrowState {
+  offerId: string;
+  enabled: boolean;
+  account: string | null; // npub RSVP payments should go to, null when escrow is off
+  held: number; // Tokens held, including settlements in flight
+  released: number;
+  refunded: number;
+  deposits: EscrowDeposit[];
+}
+
+export interface EscrowSettlement {
+  deposit: EscrowDeposit;
+  action: 'release' | 'refund';
+  shares: RewardShare[]; // Still to be paid out
+  split?: PaymentSplit; // Set when released to several co-authors
+  reason: EscrowSettlementReason;
+}
+
+export interface PaymentOutcome {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Looks up what became of a payment request: its outcome, 'pending' while it
+ * is still being processed (or waits for an admin), null if it never reached
+ * the payment processor
+ */
+export type PaymentLookup = (requestId: string) => Promise<PaymentOutcome | 'pending' | null>;
+
+/**
+ * Thrown when attendance can't be confirmed
+ */
+export class EscrowError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'EscrowError';
+  }
+}
+
+function getEscrowLogPath(): string {
+  return path.join(getDataDir(), 'escrow.jsonl');
+}
+
+async function readDeposits(): Promise<Map<string, EscrowDeposit>> {
+  const deposits = new Map<string, EscrowDeposit>();
+  for (const entry of await readJsonLines<EscrowDeposit>(getEscrowLogPath())) {
+    deposits.set(entry.requestId, entry);
+  }
+  return deposits;
+}
+
+/**
+ * Whether new RSVP payments go to escrow
+ */
+export function isEscrowEnabled(): boolean {
+  return (settings.tokenEconomics as { rsvpEscrow?: boolean }).rsvpEscrow === true;
+}
+
+/**
+ * The escrow account (the server's npub), null if NOSTR_NSEC isn't configured
+ */
+export function getEscrowAccount(): string | null {
+  const nsec = process.env.NOSTR_NSEC;
+  if (!nsec) return null;
+  try {
+    return nip19.npubEncode(getPublicKey(decodeNsec(nsec)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the deposits for an offer
+ */
+export async function listEscrowDeposits(offerId: string): Promise<EscrowDeposit[]> {
+  return Array.from((await readDeposits()).values()).filter((deposit) => deposit.offerId === offerId);
+}
+
+/**
+ * Get the escrow state of an offer
+ */
+export async function getEscrowState(offerId: string): Promise<EscrowState> {
+  const deposits = await listEscrowDeposits(offerId);
+  const total = (statuses: EscrowStatus[]) =>
+    deposits.filter((d) => statuses.includes(d.status)).reduce((sum, d) => sum + d.amount, 0);
+  const account = getEscrowAccount();
+
+  return {
+    offerId,
+    enabled: isEscrowEnabled() && account !== null,
+    account: isEscrowEnabled() ? account : null,
+    held: total(['held', 'releasing', 'refunding']),
+    released: total(['released']),
+    refunded: total(['refunded']),
+    deposits,
+  };
+}
+
+/**
+ * Record a settled RSVP payment to the escrow account
+ * Payments that aren't RSVPs to the escrow account are ignored.
+ *
+ * @returns The deposit, or null if the payment isn't an escrow deposit
+ */
+export async function recordEscrowDeposit(request: NostrEvent, txHash: string): Promise<EscrowDeposit | null> {
+  const payment = parsePaymentRequestEvent(request);
+  const account = getEscrowAccount();
+  if (!payment || payment.context !== 'rsvp' || payment.method !== 'transfer') return null;
+  if (!account || payment.recipient !== account || !payment.relatedEventId) return null;
+
+  return withLock(getEscrowLogPath(), async () => {
+    const existing = (await readDeposits()).get(request.id);
+    if (existing) return existing;
+
+    const deposit: EscrowDeposit = {
+      requestId: request.id,
+      offerId: payment.relatedEventId!,
+      attendee: payment.sender,
+      amount: payment.amount,
+      tokenAddress: payment.tokenAddress,
+      chainId: payment.chainId,
+      tokenSymbol: payment.tokenSymbol,
+      status: 'held',
+      depositedAt: new Date().toISOString(),
+      depositTxHash: txHash,
+    };
+    await appendJsonLine(getEscrowLogPath(), deposit);
+    console.log(`[Escrow] Holding ${deposit.amount} tokens from ${deposit.attendee} for offer ${deposit.offerId}`);
+    return deposit;
+  });
+}
+
+/**
+ * Confirm that a session took place, releasing its deposits to the author
+ *
+ * @throws EscrowError if the offer doesn't exist, is cancelled or hasn't started yet
+ */
+export async function confirmAttendance(offerId: string, now = new Date()): Promise<Offer> {
+  let error: EscrowError | null = null;
+
+  const offer = await updateOffer(offerId, (current) => {
+    if (current.status === 'cancelled') {
+      error = new EscrowError('This offer has been cancelled');
+    } else if (current.startTime && new Date(current.startTime) > now) {
+      error = new EscrowError("Attendance can only be confirmed once the session has started");
+    } else if (!current.attendanceConfirmedAt) {
+      current.attendanceConfirmedAt = now.toISOString();
+      return;
+    }
+    return false;
+  });
+
+  if (!offer) throw new EscrowError('Offer not found', 404);
+  if (error) throw error;
+  return offer;
+}
+
+/**
+ * Decide what happens to the deposits still held
+ * Settlements that were interrupted carry on where they stopped, unless their
+ * transfer in flight hasn't been resolved yet (see resolvePendingPayouts()).
+ */
+export async function getDueEscrowSettlements(now = new Date()): Promise<EscrowSettlement[]> {
+  const storage = getStorageBackend();
+  const due = Array.from((await readDeposits()).values()).filter((deposit) =>
+    deposit.status === 'held' ||
+    ((deposit.status === 'releasing' || deposit.status === 'refunding') && !deposit.pendingPayout)
+  );
+  const settlements: EscrowSettlement[] = [];
+  const offers = new Map<string, Offer | null>();
+
+  for (const deposit of due) {
+    if (!offers.has(deposit.offerId)) {
+      offers.set(deposit.offerId, await storage.getOffer(deposit.offerId));
+    }
+    const offer = offers.get(deposit.offerId);
+    const payouts = deposit.payouts || [];
+    const refund = (reason: EscrowSettlementReason) => {
+      const remaining = deposit.amount - payouts.reduce((sum, payout) => sum + payout.amount, 0);
+      const shares = remaining > 0 ? [{ npub: deposit.attendee, amount: remaining }] : [];
+      settlements.push({ deposit, action: 'refund', shares, reason });
+    };
+    const release = (reason: EscrowSettlementReason) => {
+      const all = getRewardShares(offer!, deposit.amount);
+      const shares = all.filter((share) => !payouts.some((payout) => payout.npub === share.npub));
+      settlements.push({ deposit, action: 'release', shares, split: getPaymentSplit(deposit.amount, all), reason });
+    };
+
+    if (deposit.status === 'releasing' && offer && offer.status !== 'cancelled') {
+      release(deposit.settlementReason || 'session_ended');
+      continue;
+    }
+    if (deposit.status === 'refunding') {
+      refund(deposit.settlementReason || 'offer_cancelled');
+      continue;
+    }
+
+    if (!offer || offer.status === 'cancelled') {
+      refund('offer_cancelled');
+      continue;
+    }
+
+    const rsvps = latestRsvpPerUser(await storage.getRsvps(offer.id));
+    if (rsvps.find((rsvp) => rsvp.npub === deposit.attendee)?.status === 'cancelled') {
+      refund('rsvp_cancelled');
+      continue;
+    }
+
+    if (offer.attendanceConfirmedAt) {
+      release('attendance_confirmed');
+      continue;
+    }
+
+    const end = offer.endTime || offer.startTime;
+    if (end && new Date(end) <= now) {
+      const active = await getActiveRsvps(offer.id);
+      if (!active.some((rsvp) => rsvp.npub === deposit.attendee)) {
+        refund('rsvp_cancelled');
+      } else if (active.length < (offer.minRsvps || 0)) {
+        refund('min_rsvps_not_reached');
+      } else {
+        release('session_ended');
+      }
+    }
+  }
+
+  return settlements;
+}
+
+/**
+ * Resolve the transfers left in flight by an interrupted settlement
+ * A transfer that went through becomes a payout; one that failed or never
+ * reached the payment processor is dropped, to be paid again. Transfers still
+ * being processed are left alone, and so is their deposit.
+ */
+async function resolvePendingPayouts(lookup: PaymentLookup): Promise<void> {
+  await withLock(getEscrowLogPath(), async () => {
+    const interrupted = Array.from((await readDeposits()).values()).filter((deposit) => deposit.pendingPayout);
+
+    for (const deposit of interrupted) {
+      const pending = deposit.pendingPayout!;
+      const outcome = await lookup(pending.requestId);
+      if (outcome === 'pending') continue;
+
+      await appendJsonLine(getEscrowLogPath(), {
+        ...deposit,
+        pendingPayout: undefined,
+        payouts: outcome?.success
+          ? [...(deposit.payouts || []), { ...pending, txHash: outcome.txHash }]
+          : deposit.payouts,
+      } satisfies EscrowDeposit);
+    }
+  });
+}
+
+/**
+ * Release or refund every deposit that is due
+ *
+ * @param secretKey - Server key: signs the transfers out of the escrow account
+ * @param execute - Publishes and processes a payment request (the payment processor)
+ * @param lookup - Finds out what became of a transfer left in flight by a restart
+ * @returns The settlements that were attempted
+ */
+export async function settleDueEscrows(
+  secretKey: Uint8Array,
+  execute: (request: NostrEvent) => Promise<PaymentOutcome>,
+  lookup: PaymentLookup,
+  now = new Date()
+): Promise<EscrowSettlement[]> {
+  const account = nip19.npubEncode(getPublicKey(secretKey));
+  await resolvePendingPayouts(lookup);
+  const settlements = await getDueEscrowSettlements(now);
+
+  for (const settlement of settlements) {
+    const { action, shares, split, reason } = settlement;
+    let deposit: EscrowDeposit = {
+      ...settlement.deposit,
+      status: action === 'release' ? 'releasing' : 'refunding',
+      settlementReason: reason,
+    };
+
+    try {
+      for (const share of shares) {
+        const [recipientAddress, senderAddress] = await Promise.all([
+          getWalletAddressForNpub(share.npub),
+          getWalletAddressForNpub(account),
+        ]);
+
+        const request = createPaymentRequestEvent(secretKey, {
+          recipient: share.npub,
+          recipientAddress,
+          sender: account,
+          senderAddress,
+          amount: share.amount,
+          tokenAddress: deposit.tokenAddress,
+          chainId: deposit.chainId,
+          tokenSymbol: deposit.tokenSymbol,
+          relatedEventId: deposit.offerId,
+          context: action === 'release' ? 'escrow_release' : 'escrow_refund',
+          method: 'transfer',
+          split,
+          description: action === 'release'
+            ? `Release ${share.amount} RSVP token${share.amount !== 1 ? 's' : ''} from escrow`
+            : `Refund ${share.amount} RSVP token${share.amount !== 1 ? 's' : ''} from escrow`,
+        });
+
+        const payout: EscrowPayout = { npub: share.npub, amount: share.amount, requestId: request.id };
+        deposit = { ...deposit, pendingPayout: payout };
+        await appendJsonLine(getEscrowLogPath(), deposit);
+
+        const outcome = await execute(request);
+        if (!outcome.success) {
+          throw new Error(outcome.error || 'Payment failed');
+        }
+
+        deposit = {
+          ...deposit,
+          pendingPayout: undefined,
+          payouts: [...(deposit.payouts || []), { ...payout, txHash: outcome.txHash }],
+        };
+        await appendJsonLine(getEscrowLogPath(), deposit);
+      }
+    } catch (err) {
+      console.error(`[Escrow] Failed to ${action} deposit ${deposit.requestId}:`, err);
+      await appendJsonLine(getEscrowLogPath(), {
+        ...deposit,
+        status: 'held',
+        pendingPayout: undefined,
+        error: err instanceof Error ? err.message : String(err),
+      } satisfies EscrowDeposit);
+      continue;
+    }
+
+    await completeEscrowSettlement(deposit);
+  }
+
+  return settlements;
+}
+
+/**
+ * Mark a deposit whose shares were all paid out as released or refunded
+ */
+async function completeEscrowSettlement(deposit: EscrowDeposit): Promise<void> {
+  const completed: EscrowDeposit = {
+    ...deposit,
+    status: deposit.status === 'releasing' ? 'released' : 'refunded',
+    settledAt: new Date().toISOString(),
+    error: undefined,
+  };
+  await appendJsonLine(getEscrowLogPath(), completed);
+  console.log(`[Escrow] Deposit ${completed.requestId.substring(0, 8)}... ${completed.status}`);
+
+  if (completed.status === 'refunded' && completed.settlementReason === 'offer_cancelled') {
+    const offer = await getStorageBackend().getOffer(completed.offerId);
+    await notifyWorkshopCancelled({
+      workshopId: completed.offerId,
+      workshopTitle: offer?.title || 'Workshop',
+      author: offer?.authors[0] || '',
+      rsvpedUserNpubs: [completed.attendee],
+      refundAmount: (completed.payouts || [])
+        .filter((payout) => payout.npub === completed.attendee)
+        .reduce((sum, payout) => sum + payout.amount, 0),
+    });
+  }
+}
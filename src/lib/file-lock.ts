@@ -0,0 +1,309 @@
+/**
+ * Per-resource locking and atomic writes
+ *
+ * Read-modify-write cycles on shared files (offers, RSVP counts, room
+ * calendars) must not interleave. The API routes and the listener scripts
+ * run in separate processes, so a lock is two layers:
+ * - an in-process queue per resource (cheap, keeps one process fair)
+ * - a lock file in DATA_DIR/.locks created with O_EXCL (works across processes)
+ *
+ * Lock files record the owner's pid and a unique token. The holder touches
+ * its lock file while it runs, so a lock is reclaimed only when its owner is
+ * gone or it hasn't been refreshed within the stale timeout. Reclaiming and
+ * releasing rename the lock file away first and check the token, so a
+ * waiter never deletes a lock someone else has just taken.
+ */
+
+import fs from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { mkdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export interface LockOptions {
+  /** Give up acquiring after this many ms (default: 10000) */
+  timeoutMs?: number;
+  /** Treat a lock file not refreshed for this many ms as abandoned (default: 30000) */
+  staleMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const RETRY_MIN_MS = 5;
+const RETRY_MAX_MS = 100;
+
+/**
+ * Thrown when a lock can't be acquired within the timeout
+ */
+export class LockTimeoutError extends Error {
+  constructor(public readonly resource: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock on ${resource}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * A lock file held by this process
+ */
+export interface HeldLock {
+  path: string;
+  token: string;
+  /** Stop refreshing and remove the lock file (if it is still ours) */
+  release(): Promise<void>;
+}
+
+interface LockOwner {
+  pid?: number;
+  token?: string;
+  acquiredAt?: number;
+}
+
+// Tail of the in-process queue for each resource
+const queues = new Map<string, Promise<void>>();
+
+function getLockDir(): string {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), '.locks');
+}
+
+/**
+ * Get the lock file path for a resource name (e.g. "offer:abc123")
+ */
+export function getLockPath(resource: string): string {
+  const safeName = resource.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return path.join(getLockDir(), `${safeName}.lock`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function uniqueSuffix(): string {
+  return `${process.pid}.${randomBytes(6).toString('hex')}`;
+}
+
+async function readOwner(filePath: string): Promise<LockOwner> {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8')) as LockOwner;
+}
+
+function isSameOwner(a: LockOwner, b: LockOwner): boolean {
+  return a.pid === b.pid && a.token === b.token && a.acquiredAt === b.acquiredAt;
+}
+
+/**
+ * Remove the lock file if it still belongs to the given owner
+ *
+ * The file is renamed to a unique name first, so only one caller can take
+ * it. If it turns out to be someone else's lock it is linked back, unless
+ * the resource was locked again in the meantime.
+ */
+async function removeLockIfOwned(lockPath: string, expected: LockOwner): Promise<boolean> {
+  const takenPath = `${lockPath}.${uniqueSuffix()}.taken`;
+  try {
+    await fs.rename(lockPath, takenPath);
+  } catch {
+    // Already removed by someone else
+    return false;
+  }
+
+  try {
+    const owner = await readOwner(takenPath).catch((): LockOwner => ({ pid: -1 }));
+    if (isSameOwner(owner, expected)) {
+      return true;
+    }
+    await fs.link(takenPath, lockPath).catch(() => {});
+    return false;
+  } finally {
+    await fs.unlink(takenPath).catch(() => {});
+  }
+}
+
+/**
+ * Remove a lock file if its owner is gone or it has gone stale
+ */
+async function reclaimIfStale(lockPath: string, staleMs: number): Promise<void> {
+  try {
+    const [owner, stat] = await Promise.all([readOwner(lockPath), fs.stat(lockPath)]);
+    const ownerGone =
+      typeof owner.pid === 'number' && owner.pid !== process.pid && !isProcessAlive(owner.pid);
+    const expired = Date.now() - stat.mtimeMs > staleMs;
+
+    if ((ownerGone || expired) && await removeLockIfOwned(lockPath, owner)) {
+      console.warn(`[FileLock] Reclaimed stale lock ${path.basename(lockPath)}`);
+    }
+  } catch {
+    // Lock released in the meantime: retry
+  }
+}
+
+/**
+ * Acquire the lock file for a resource (the cross-process layer of withLock)
+ *
+ * The lock file is written in full under a temporary name and linked into
+ * place, which fails if the lock exists, so its token is always readable.
+ * Prefer withLock, which also queues callers within this process.
+ */
+export async function acquireFileLock(
+  resource: string,
+  options: LockOptions = {}
+): Promise<HeldLock> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const lockPath = getLockPath(resource);
+  const token = randomBytes(16).toString('hex');
+  const owner: LockOwner = { pid: process.pid, token, acquiredAt: Date.now() };
+  const deadline = Date.now() + timeoutMs;
+  let delay = RETRY_MIN_MS;
+
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  const tempPath = `${lockPath}.${uniqueSuffix()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(owner));
+
+  try {
+    while (true) {
+      try {
+        // Staleness is judged by mtime, so stamp it at the moment of linking
+        const now = new Date();
+        await fs.utimes(tempPath, now, now);
+        await fs.link(tempPath, lockPath);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      await reclaimIfStale(lockPath, staleMs);
+
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(resource, timeoutMs);
+      }
+
+      await sleep(delay + Math.random() * delay);
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+    }
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+
+  // Keep the lock fresh while the holder runs, however long that takes
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(staleMs / 3, 1));
+
+  return {
+    path: lockPath,
+    token,
+    release: async () => {
+      clearInterval(refresh);
+      await removeLockIfOwned(lockPath, owner);
+    },
+  };
+}
+
+/**
+ * Run fn while holding the lock for a resource
+ *
+ * Calls for the same resource run one at a time, in this process and
+ * across processes sharing DATA_DIR. Locks are not re-entrant: don't take
+ * the same resource again inside fn.
+ */
+export async function withLock<T>(
+  resource: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const previous = queues.get(resource) || Promise.resolve();
+  let releaseQueue!: () => void;
+  const current = new Promise<void>((resolve) => {
+    releaseQueue = resolve;
+  });
+  const tail = previous.then(() => current);
+  queues.set(resource, tail);
+
+  await previous;
+
+  try {
+    const lock = await acquireFileLock(resource, options);
+    try {
+      return await fn();
+    } finally {
+      await lock.release();
+    }
+  } finally {
+    releaseQueue();
+    if (queues.get(resource) === tail) {
+      queues.delete(resource);
+    }
+  }
+}
+
+/**
+ * Run fn while holding the locks for several resources
+ *
+ * Locks are taken in sorted order, so callers locking overlapping sets
+ * (e.g. an offer and the RSVPing user's profile) can't deadlock.
+ */
+export async function withLocks<T>(
+  resources: string[],
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const [first, ...rest] = Array.from(new Set(resources)).sort();
+  if (!first) {
+    return fn();
+  }
+  return withLock(first, () => withLocks(rest, fn, options), options);
+}
+
+/**
+ * Write a file atomically (unique temp file + rename)
+ *
+ * Readers see either the old or the new content, never a partial write.
+ */
+export async function atomicWriteFile(filePath: string, content: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${Math.random()
+    .toString(36)
+    .slice(2, 8)}.tmp`;
+
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Synchronous variant of atomicWriteFile, for code paths that can't await
+ */
+export function atomicWriteFileSync(filePath: string, content: string): void {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${Math.random()
+    .toString(36)
+    .slice(2, 8)}.tmp`;
+
+  try {
+    writeFileSync(tempPath, content, 'utf-8');
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Temp file was never created
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * File-based storage backend
+ *
+ * The original JSON/JSONL layout under DATA_DIR:
+ *   npubs/:npub/profile.json         - profiles (see storage.ts)
+ *   npubs/:npub/notifications.jsonl  - notifications (plus rotated archives, see log-retention.ts)
+ *   badges/whitelist.txt, badges/:serial -> ../npubs/:npub
+ *   usernames/:username -> ../npubs/:npub
+ *   offers/:id.json                  - offers
+ *   rsvps/:offerId.jsonl             - RSVP log
+ *   calendars/:roomSlug/events.json  - proposal events
+ */
+
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import type { BadgeRevocation, Offer, RSVP, StorageProfile, UserProfile } from '@/types';
+import type { ProposalEvent } from './local-calendar';
+import type { Notification } from './notifications-utils';
+import type { CreateProfileOptions, MigrateOptions, OfferFilter, StorageBackend } from './storage-backend';
+import {
+  getDataDir,
+  getNpubDir,
+  readJsonFile,
+  writeJsonFile,
+  appendJsonLine,
+  readJsonLines,
+  ensureDir,
+  getProfileByNpub,
+  getProfileByUsername,
+  getProfileBySerialNumber,
+  getAllProfiles,
+  createProfile,
+  updateProfile,
+  isBadgeSetup,
+  isBadgeClaimed,
+  setupBadge,
+  assignBadge,
+  revokeBadge,
+  getBadgeRevocation,
+  writeProfileFile,
+} from './storage';
+import { atomicWriteFile } from './file-lock';
+import { readLogEntries, removeLogArchives } from './log-retention';
+import {
+  MigrationReport,
+  createMigrationReport,
+  migrateRecord,
+  recordMigration,
+  upgradeRecord,
+} from './schema-migrations';
+
+/**
+ * A proposal event as serialized to JSON (dates as ISO strings)
+ */
+export type StoredProposalEvent = Omit<ProposalEvent, 'startTime' | 'endTime' | 'createdAt' | 'updatedAt'> & {
+  startTime: string;
+  endTime: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/**
+ * Convert a stored proposal event (ISO date strings) back to a ProposalEvent
+ */
+export function reviveProposalEvent(stored: StoredProposalEvent): ProposalEvent {
+  const event = upgradeRecord('proposalEvent', stored);
+  return {
+    ...event,
+    startTime: new Date(event.startTime),
+    endTime: new Date(event.endTime),
+    createdAt: event.createdAt ? new Date(event.createdAt) : undefined,
+    updatedAt: event.updatedAt ? new Date(event.updatedAt) : undefined,
+  };
+}
+
+export class FileStorageBackend implements StorageBackend {
+  readonly type = 'file' as const;
+
+  private offersDir(): string {
+    return path.join(getDataDir(), 'offers');
+  }
+
+  private rsvpsPath(offerId: string): string {
+    return path.join(getDataDir(), 'rsvps', `${offerId}.jsonl`);
+  }
+
+  private calendarsDir(): string {
+    return path.join(getDataDir(), 'calendars');
+  }
+
+  private notificationsPath(npub: string): string {
+    return path.join(getNpubDir(npub), 'notifications.jsonl');
+  }
+
+  private async listDir(dir: string, filter: (entry: Dirent) => boolean): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter(filter).map((e) => e.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // Profiles
+  // ==========================================================================
+
+  getProfileByNpub(npub: string): Promise<StorageProfile | null> {
+    return getProfileByNpub(npub);
+  }
+
+  getProfileByUsername(username: string): Promise<StorageProfile | null> {
+    return getProfileByUsername(username);
+  }
+
+  getProfileBySerialNumber(serialNumber: string): Promise<StorageProfile | null> {
+    return getProfileBySerialNumber(serialNumber);
+  }
+
+  getAllProfiles(): Promise<StorageProfile[]> {
+    return getAllProfiles();
+  }
+
+  createProfile(
+    serialNumber: string,
+    username: string,
+    npub: string,
+    options?: CreateProfileOptions
+  ): Promise<StorageProfile> {
+    return createProfile(serialNumber, username, npub, options);
+  }
+
+  updateProfile(npub: string, updates: Partial<UserProfile>): Promise<StorageProfile> {
+    return updateProfile(npub, updates);
+  }
+
+  saveProfile(profile: StorageProfile): Promise<void> {
+    return writeProfileFile(profile);
+  }
+
+  // ==========================================================================
+  // Badges
+  // ==========================================================================
+
+  isBadgeSetup(serialNumber: string): Promise<boolean> {
+    return isBadgeSetup(serialNumber);
+  }
+
+  isBadgeClaimed(serialNumber: string): Promise<boolean> {
+    return isBadgeClaimed(serialNumber);
+  }
+
+  setupBadge(serialNumber: string): Promise<{ alreadyExists: boolean }> {
+    return setupBadge(serialNumber);
+  }
+
+  assignBadge(serialNumber: string, npub: string): Promise<StorageProfile> {
+    return assignBadge(serialNumber, npub);
+  }
+
+  revokeBadge(revocation: BadgeRevocation): Promise<void> {
+    return revokeBadge(revocation);
+  }
+
+  getBadgeRevocation(serialNumber: string): Promise<BadgeRevocation | null> {
+    return getBadgeRevocation(serialNumber);
+  }
+
+  // ==========================================================================
+  // Offers
+  // ==========================================================================
+
+  async getOffer(offerId: string): Promise<Offer | null> {
+    const offer = await readJsonFile<Offer>(path.join(this.offersDir(), `${offerId}.json`));
+    return offer ? upgradeRecord('offer', offer) : null;
+  }
+
+  async listOffers(filter?: OfferFilter): Promise<Offer[]> {
+    const files = await this.listDir(this.offersDir(), (e) => e.name.endsWith('.json'));
+
+    const offers: Offer[] = [];
+    for (const file of files) {
+      const stored = await readJsonFile<Offer>(path.join(this.offersDir(), file));
+      if (!stored) continue;
+
+      const offer = upgradeRecord('offer', stored);
+      if (filter?.type && offer.type !== filter.type) continue;
+      if (filter?.status && offer.status !== filter.status) continue;
+
+      offers.push(offer);
+    }
+
+    return offers;
+  }
+
+  async saveOffer(offer: Offer): Promise<void> {
+    await writeJsonFile(path.join(this.offersDir(), `${offer.id}.json`), upgradeRecord('offer', offer));
+  }
+
+  // ==========================================================================
+  // RSVPs
+  // ==========================================================================
+
+  async appendRsvp(rsvp: RSVP): Promise<void> {
+    await appendJsonLine(this.rsvpsPath(rsvp.offerId), rsvp);
+  }
+
+  getRsvps(offerId: string): Promise<RSVP[]> {
+    return readJsonLines<RSVP>(this.rsvpsPath(offerId));
+  }
+
+  // ==========================================================================
+  // Proposal events
+  // ==========================================================================
+
+  async getProposalEvents(roomSlug: string): Promise<ProposalEvent[]> {
+    const eventsPath = path.join(this.calendarsDir(), roomSlug, 'events.json');
+    try {
+      const data = await readJsonFile<StoredProposalEvent[]>(eventsPath);
+      return (data || []).map(reviveProposalEvent);
+    } catch {
+      // Unreadable or partially written file
+      return [];
+    }
+  }
+
+  async getRoomSlugs(): Promise<string[]> {
+    try {
+      return await this.listDir(this.calendarsDir(), (e) => e.isDirectory());
+    } catch {
+      return [];
+    }
+  }
+
+  async saveProposalEvents(roomSlug: string, events: ProposalEvent[]): Promise<void> {
+    await writeJsonFile(
+      path.join(this.calendarsDir(), roomSlug, 'events.json'),
+      events.map((event) => upgradeRecord('proposalEvent', event))
+    );
+  }
+
+  // ==========================================================================
+  // Notifications
+  // ==========================================================================
+
+  async getNotifications(npub: string): Promise<Notification[]> {
+    const notifications = await readLogEntries<Notification>(this.notificationsPath(npub));
+    return notifications.map((n) => upgradeRecord('notification', n));
+  }
+
+  async addNotification(notification: Notification): Promise<void> {
+    await appendJsonLine(
+      this.notificationsPath(notification.recipient),
+      upgradeRecord('notification', notification)
+    );
+  }
+
+  async replaceNotifications(npub: string, notifications: Notification[]): Promise<void> {
+    const filePath = this.notificationsPath(npub);
+    await ensureDir(path.dirname(filePath));
+    // The new feed replaces the rotated segments too
+    await removeLogArchives(filePath);
+    await fs.writeFile(
+      filePath,
+      notifications.map((n) => JSON.stringify(upgradeRecord('notification', n))).join('\n') + '\n',
+      'utf-8'
+    );
+  }
+
+  // ==========================================================================
+  // Schema migrations
+  // ==========================================================================
+
+  async migrateRecords(options: MigrateOptions = {}): Promise<MigrationReport> {
+    const report = createMigrationReport(!!options.dryRun);
+    const write = !options.dryRun;
+
+    const npubs = await this.listDir(
+      path.join(getDataDir(), 'npubs'),
+      (e) => e.isDirectory() && e.name.startsWith('npub1')
+    );
+    for (const npub of npubs) {
+      const profilePath = path.join(getNpubDir(npub), 'profile.json');
+      const profile = await readJsonFile<StorageProfile>(profilePath);
+      if (profile) {
+        const result = migrateRecord('profile', profile);
+        if (recordMigration(report, 'profile', npub, result) && write) {
+          await writeJsonFile(profilePath, result.record);
+        }
+      }
+
+      // Rotated archives are immutable and upgraded when read
+      const notificationsPath = this.notificationsPath(npub);
+      const notifications = await readJsonLines<Notification>(notificationsPath);
+      let changed = false;
+      const migrated = notifications.map((notification) => {
+        const result = migrateRecord('notification', notification);
+        changed = recordMigration(report, 'notification', notification.id, result) || changed;
+        return result.record;
+      });
+      if (changed && write) {
+        await atomicWriteFile(notificationsPath, migrated.map((n) => JSON.stringify(n)).join('\n') + '\n');
+      }
+    }
+
+    for (const file of await this.listDir(this.offersDir(), (e) => e.name.endsWith('.json'))) {
+      const offerPath = path.join(this.offersDir(), file);
+      const offer = await readJsonFile<Offer>(offerPath);
+      if (!offer) continue;
+
+      const result = migrateRecord('offer', offer);
+      if (recordMigration(report, 'offer', offer.id, result) && write) {
+        await writeJsonFile(offerPath, result.record);
+      }
+    }
+
+    for (const roomSlug of await this.getRoomSlugs()) {
+      const eventsPath = path.join(this.calendarsDir(), roomSlug, 'events.json');
+      const events = await readJsonFile<ProposalEvent[]>(eventsPath);
+      if (!events) continue;
+
+      let changed = false;
+      const migrated = events.map((event) => {
+        const result = migrateRecord('proposalEvent', event);
+        changed = recordMigration(report, 'proposalEvent', `${roomSlug}/${event.offerId}`, result) || changed;
+        return result.record;
+      });
+      if (changed && write) {
+        await writeJsonFile(eventsPath, migrated);
+      }
+    }
+
+    return report;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
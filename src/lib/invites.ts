@@ -0,0 +1,306 @@
+/**
+ * Invite codes
+ *
+ * Codes are issued by the relay (kind 28935, see requestInviteCode() in
+ * nostr.ts): the inviter's hex pubkey followed by a signature. The app
+ * registers every code it gets (POST /api/invites), so villagers can list
+ * the codes they generated, see which were redeemed and revoke one they
+ * shared by mistake. Codes are single use and expire after
+ * settings.inviteExpiryHours. The server can't check the relay's signature,
+ * so only registered codes can be redeemed: registering takes a request
+ * signed by the inviter.
+ *
+ * DATA_DIR/invites.jsonl is append-only: the latest entry per code wins.
+ *
+ * A villager's invitees plus their outstanding codes can't exceed their
+ * quota: settings.maxInvitesPerUser, or the quota an admin set for them.
+ */
+
+import path from 'path';
+import { nip19 } from 'nostr-tools';
+import type { StorageProfile } from '@/types';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { getStorageBackend } from './storage-backend';
+import { withLock } from './file-lock';
+import settings from '../../settings.json';
+
+const DEFAULT_QUOTA = (settings as { maxInvitesPerUser?: number }).maxInvitesPerUser || 10;
+const EXPIRY_HOURS = (settings as { inviteExpiryHours?: number }).inviteExpiryHours || 72;
+
+export type InviteStatus = 'active' | 'redeemed' | 'revoked' | 'expired';
+
+export interface InviteRecord {
+  code: string;
+  inviter: string; // npub
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+  redeemedBy?: string; // npub
+  redeemedAt?: string; // ISO 8601
+  revokedAt?: string; // ISO 8601
+  revokedBy?: string; // npub of the inviter or an admin
+}
+
+export interface Invite extends InviteRecord {
+  status: InviteStatus;
+}
+
+export interface InviteUsage {
+  quota: number;
+  invited: number; // Redeemed invitations
+  outstanding: number; // Active codes
+  remaining: number;
+}
+
+export interface InviteTreeNode {
+  npub: string;
+  username?: string;
+  inviteesCount: number;
+}
+
+export interface InviteTree {
+  invitedBy: InviteTreeNode | null;
+  invitees: InviteTreeNode[];
+}
+
+/**
+ * Thrown when a code can't be registered, revoked or redeemed
+ */
+export class InviteError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+function getInvitesLogPath(): string {
+  return path.join(getDataDir(), 'invites.jsonl');
+}
+
+async function readInvites(): Promise<Map<string, InviteRecord>> {
+  const invites = new Map<string, InviteRecord>();
+  for (const entry of await readJsonLines<InviteRecord>(getInvitesLogPath())) {
+    invites.set(entry.code, entry);
+  }
+  return invites;
+}
+
+/**
+ * Get the status of a code at a point in time
+ */
+export function getInviteStatus(invite: InviteRecord, now = new Date()): InviteStatus {
+  if (invite.redeemedAt) return 'redeemed';
+  if (invite.revokedAt) return 'revoked';
+  if (new Date(invite.expiresAt) <= now) return 'expired';
+  return 'active';
+}
+
+function withStatus(invite: InviteRecord, now = new Date()): Invite {
+  return { ...invite, status: getInviteStatus(invite, now) };
+}
+
+/**
+ * Get the npub of the villager who generated a code
+ *
+ * @throws InviteError if the code is malformed
+ */
+export function getInviterNpub(code: string): string {
+  // 192 hex chars = 64 pubkey + 128 signature
+  if (!/^[0-9a-f]{192}$/i.test(code)) {
+    throw new InviteError('Invalid invitation code format');
+  }
+  return nip19.npubEncode(code.substring(0, 64).toLowerCase());
+}
+
+/**
+ * How many people a villager may invite
+ */
+export function getInviteQuota(profile: StorageProfile | null): number {
+  return profile?.inviteQuota ?? DEFAULT_QUOTA;
+}
+
+/**
+ * Get a code with its status
+ */
+export async function getInvite(code: string): Promise<Invite | null> {
+  const invite = (await readInvites()).get(code);
+  return invite ? withStatus(invite) : null;
+}
+
+/**
+ * List the codes a villager generated, newest first
+ */
+export async function listInvites(npub: string): Promise<Invite[]> {
+  return (await listAllInvites()).filter((invite) => invite.inviter === npub);
+}
+
+/**
+ * List every registered code, newest first
+ */
+export async function listAllInvites(): Promise<Invite[]> {
+  const now = new Date();
+  return Array.from((await readInvites()).values())
+    .map((invite) => withStatus(invite, now))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Count a villager's invitations against their quota
+ */
+export async function getInviteUsage(npub: string): Promise<InviteUsage> {
+  const profile = await getStorageBackend().getProfileByNpub(npub);
+  const quota = getInviteQuota(profile);
+  const invited = profile?.profile.invitees?.length || 0;
+  const outstanding = (await listInvites(npub)).filter((invite) => invite.status === 'active').length;
+
+  return { quota, invited, outstanding, remaining: Math.max(0, quota - invited - outstanding) };
+}
+
+/**
+ * Register a code the relay issued to a villager
+ *
+ * @throws InviteError if the code isn't theirs, is already registered or the quota is used up
+ */
+export async function registerInvite(npub: string, code: string): Promise<Invite> {
+  if (getInviterNpub(code) !== npub) {
+    throw new InviteError('This invitation code was not issued to you', 403);
+  }
+
+  return withLock(getInvitesLogPath(), async () => {
+    if ((await readInvites()).has(code)) {
+      throw new InviteError('This invitation code is already registered', 409);
+    }
+
+    const usage = await getInviteUsage(npub);
+    if (usage.remaining <= 0) {
+      throw new InviteError(
+        `You can't invite more than ${usage.quota} people. Revoke an unused code to free one up.`,
+        403
+      );
+    }
+
+    const now = new Date();
+    const invite: InviteRecord = {
+      code,
+      inviter: npub,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + EXPIRY_HOURS * 3600 * 1000).toISOString(),
+    };
+    await appendJsonLine(getInvitesLogPath(), invite);
+    console.log(`[Invites] Registered code ${code.substring(0, 8)}... for ${npub}`);
+    return withStatus(invite, now);
+  });
+}
+
+/**
+ * Revoke an unused code
+ *
+ * @param by - The inviter, or an admin (checked by the caller)
+ */
+export async function revokeInvite(code: string, by: string): Promise<Invite> {
+  return withLock(getInvitesLogPath(), async () => {
+    const invite = (await readInvites()).get(code);
+    if (!invite) {
+      throw new InviteError('Invitation code not found', 404);
+    }
+
+    const status = getInviteStatus(invite);
+    if (status === 'redeemed') {
+      throw new InviteError('This invitation code has already been used');
+    }
+    if (status === 'revoked') {
+      return withStatus(invite);
+    }
+
+    const revoked: InviteRecord = { ...invite, revokedAt: new Date().toISOString(), revokedBy: by };
+    await appendJsonLine(getInvitesLogPath(), revoked);
+    console.log(`[Invites] Revoked code ${code.substring(0, 8)}... of ${invite.inviter} by ${by}`);
+    return withStatus(revoked);
+  });
+}
+
+/**
+ * Check that a code can be used to claim a badge
+ *
+ * @returns The inviter's npub and profile (null if they have no profile)
+ * @throws InviteError if the code is malformed, unknown, used, revoked or expired, or the inviter's quota is used up
+ */
+export async function checkInvite(code: string): Promise<{ inviterNpub: string; inviterProfile: StorageProfile | null }> {
+  const inviterNpub = getInviterNpub(code);
+
+  const invite = await getInvite(code);
+  if (!invite) {
+    throw new InviteError('Unknown invitation code. Ask your inviter to share it again from their profile.', 404);
+  }
+  if (invite.status === 'redeemed') {
+    throw new InviteError('This invitation code has already been used');
+  }
+  if (invite.status === 'revoked') {
+    throw new InviteError('This invitation code has been revoked', 410);
+  }
+  if (invite.status === 'expired') {
+    throw new InviteError('This invitation code has expired. Ask for a new one.', 410);
+  }
+
+  const inviterProfile = await getStorageBackend().getProfileByNpub(inviterNpub);
+  if (inviterProfile) {
+    const quota = getInviteQuota(inviterProfile);
+    if ((inviterProfile.profile.invitees || []).length >= quota) {
+      throw new InviteError(
+        `This villager has already invited ${quota} people. Ask someone else for an invitation code.`
+      );
+    }
+  }
+
+  return { inviterNpub, inviterProfile };
+}
+
+/**
+ * Redeem a code: check it, run the claim and mark the code as used while
+ * holding the invites lock, so a code can't be redeemed twice
+ *
+ * @param claim - Creates the invitee's profile; the code stays unused if it throws
+ * @throws InviteError if checkInvite() refuses the code
+ */
+export async function redeemInvite<T>(
+  code: string,
+  inviteeNpub: string,
+  claim: (inviter: { inviterNpub: string; inviterProfile: StorageProfile | null }) => Promise<T>
+): Promise<T> {
+  return withLock(getInvitesLogPath(), async () => {
+    const inviter = await checkInvite(code);
+    const result = await claim(inviter);
+
+    const invite = (await readInvites()).get(code)!; // checkInvite() found it
+    await appendJsonLine(getInvitesLogPath(), {
+      ...invite,
+      redeemedBy: inviteeNpub,
+      redeemedAt: new Date().toISOString(),
+    } satisfies InviteRecord);
+    console.log(`[Invites] Code ${code.substring(0, 8)}... of ${invite.inviter} redeemed by ${inviteeNpub}`);
+    return result;
+  });
+}
+
+/**
+ * Who invited a villager and whom they invited
+ */
+export async function getInviteTree(npub: string): Promise<InviteTree | null> {
+  const storage = getStorageBackend();
+  const profile = await storage.getProfileByNpub(npub);
+  if (!profile) return null;
+
+  const toNode = async (nodeNpub: string): Promise<InviteTreeNode> => {
+    const node = await storage.getProfileByNpub(nodeNpub);
+    return {
+      npub: nodeNpub,
+      username: node?.username,
+      inviteesCount: node?.profile.invitees?.length || 0,
+    };
+  };
+
+  const { invitedBy, invitees = [] } = profile.profile;
+  return {
+    invitedBy: invitedBy ? await toNode(invitedBy) : null,
+    invitees: await Promise.all(invitees.map(toNode)),
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Peer-to-peer payment requests ("request tokens from a villager")
+ *
+ * A villager publishes an invoice (kind 1737, see buildInvoiceEvent) for an
+ * amount, with a memo and an optional expiry, addressed to another villager
+ * or shown as a QR code linking to /pay/{invoiceId}. The payer approves it
+ * with a kind 1734 transfer to the requester that references the invoice
+ * ('e' tag marked 'related'), and the payment processor's kind 1735 receipt
+ * copies that reference, which is how an invoice is known to be paid. Receipts
+ * only count when the payment processor (the server's npub) signed them.
+ *
+ * Client-safe: statuses are derived from the events a page already has.
+ */
+
+import {
+  NOSTR_KINDS,
+  parseInvoiceEvent,
+  parsePaymentReceiptEvent,
+  parsePaymentRequestEvent,
+  npubToHex,
+  type InvoiceEventOptions,
+  type NostrEvent,
+} from './nostr-events';
+
+/**
+ * - open: can be paid
+ * - pending: the payer approved it, waiting for the receipt
+ * - paid: a successful receipt arrived
+ * - expired: past its expiry without being paid
+ */
+export type InvoiceStatus = 'open' | 'pending' | 'paid' | 'expired';
+
+const TOKEN_DECIMALS = 6;
+
+/**
+ * Whether an invoice is past its expiry
+ */
+export function isInvoiceExpired(invoice: InvoiceEventOptions, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return invoice.expiresAt !== undefined && invoice.expiresAt <= now;
+}
+
+/**
+ * Whether a payment request pays an invoice: a transfer of at least the
+ * amount to the requester, signed by the sender (the payer if the invoice
+ * names one)
+ */
+function paysInvoice(request: NostrEvent, invoiceId: string, invoice: InvoiceEventOptions): boolean {
+  const payment = parsePaymentRequestEvent(request);
+  return !!payment &&
+    payment.relatedEventId === invoiceId &&
+    payment.method === 'transfer' &&
+    request.pubkey === npubToHex(payment.sender) &&
+    payment.recipient === invoice.requester &&
+    payment.amount >= invoice.amount &&
+    (!invoice.payer || payment.sender === invoice.payer);
+}
+
+/**
+ * Status of an invoice, from the payment requests and receipts in events
+ *
+ * @param invoiceEvent - The invoice (kind 1737)
+ * @param events - Events that may pay it: the payer's payment requests and receipts
+ * @param serverNpub - The payment processor, the only signer of receipts (null: no receipt counts)
+ * @param now - Unix timestamp (default: now)
+ * @returns The status, or null if invoiceEvent isn't a valid invoice
+ */
+export function getInvoiceStatus(
+  invoiceEvent: NostrEvent,
+  events: NostrEvent[],
+  serverNpub: string | null,
+  now: number = Math.floor(Date.now() / 1000)
+): InvoiceStatus | null {
+  const invoice = parseInvoiceEvent(invoiceEvent);
+  if (!invoice) return null;
+
+  const serverPubkey = serverNpub ? npubToHex(serverNpub) : null;
+  const requesterHex = npubToHex(invoice.requester);
+  const amount = BigInt(Math.round(invoice.amount * 10 ** TOKEN_DECIMALS));
+  const payments = events.filter((e) => e.kind === NOSTR_KINDS.PAYMENT_REQUEST && paysInvoice(e, invoiceEvent.id, invoice));
+
+  const receipts = events
+    .filter((e) => e.kind === NOSTR_KINDS.PAYMENT_RECEIPT && !!serverPubkey && e.pubkey === serverPubkey)
+    .map(parsePaymentReceiptEvent)
+    .filter((receipt): receipt is NonNullable<typeof receipt> => !!receipt && receipt.relatedEventId === invoiceEvent.id);
+
+  // The receipt copies the request's tags, so it's enough on its own
+  const paid = receipts.some((receipt) =>
+    receipt.success &&
+    receipt.recipient === requesterHex &&
+    !!receipt.amount && /^\d+$/.test(receipt.amount) && BigInt(receipt.amount) >= amount &&
+    (!invoice.payer || receipt.sender === npubToHex(invoice.payer))
+  );
+  if (paid) return 'paid';
+
+  const failed = new Set(receipts.filter((receipt) => !receipt.success).map((receipt) => receipt.requestEventId));
+  if (payments.some((payment) => !failed.has(payment.id))) return 'pending';
+
+  return isInvoiceExpired(invoice, now) ? 'expired' : 'open';
+}
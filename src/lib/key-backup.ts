@@ -0,0 +1,112 @@
+/**
+ * Encrypted key backups (NIP-49)
+ *
+ * The key only lives in localStorage, so a wiped phone loses the identity.
+ * Villagers export it from /settings as a password-encrypted `ncryptsec`
+ * (text or printable QR) and restore it on a new device from /claim.
+ */
+
+import { getPublicKey, nip19 } from 'nostr-tools';
+import * as nip49 from 'nostr-tools/nip49';
+
+/**
+ * scrypt cost (2^16): about a second on a phone, which is the point
+ */
+const DEFAULT_LOG_N = 16;
+
+/**
+ * Thrown when a backup can't be created or restored
+ */
+export class KeyBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyBackupError';
+  }
+}
+
+export interface RestoredIdentity {
+  nsec: string;
+  npub: string;
+  secretKey: Uint8Array;
+}
+
+/**
+ * Whether a string looks like a NIP-49 encrypted key
+ */
+export function isNcryptsec(value: string): boolean {
+  return /^ncryptsec1[02-9ac-hj-np-z]+$/.test(value.trim());
+}
+
+/**
+ * Encrypt a secret key with a password
+ *
+ * @param secretKey - The key to back up
+ * @param password - Backup password (NFKC-normalized by nostr-tools)
+ * @param logN - scrypt cost exponent (tests use a low value)
+ * @returns The ncryptsec string
+ */
+export function createKeyBackup(secretKey: Uint8Array, password: string, logN = DEFAULT_LOG_N): string {
+  if (!password) {
+    throw new KeyBackupError('Please choose a backup password');
+  }
+  // 0x02: the key was never handled insecurely as far as we know (NIP-49)
+  return nip49.encrypt(secretKey, password, logN, 0x02);
+}
+
+/**
+ * Decrypt an ncryptsec backup
+ *
+ * @throws KeyBackupError if the backup is malformed or the password is wrong
+ */
+export function decryptKeyBackup(ncryptsec: string, password: string): RestoredIdentity {
+  const value = ncryptsec.trim();
+  if (!isNcryptsec(value)) {
+    throw new KeyBackupError('This is not an encrypted key backup (ncryptsec1...)');
+  }
+
+  let secretKey: Uint8Array;
+  try {
+    secretKey = nip49.decrypt(value, password);
+  } catch {
+    throw new KeyBackupError('Wrong password or damaged backup');
+  }
+
+  return {
+    secretKey,
+    nsec: nip19.nsecEncode(secretKey),
+    npub: nip19.npubEncode(getPublicKey(secretKey)),
+  };
+}
+
+/**
+ * Decrypt a backup and check it belongs to the profile bound to a badge
+ *
+ * @param ncryptsec - The backup
+ * @param password - Backup password
+ * @param serialNumber - Serial of the scanned badge
+ * @returns The identity and the username of the badge's profile
+ * @throws KeyBackupError if the backup is for another profile
+ */
+export async function restoreKeyBackup(
+  ncryptsec: string,
+  password: string,
+  serialNumber: string
+): Promise<RestoredIdentity & { username: string }> {
+  const identity = decryptKeyBackup(ncryptsec, password);
+
+  const response = await fetch(`/api/profile/${encodeURIComponent(serialNumber)}`, { cache: 'no-store' });
+  const data = await response.json();
+
+  if (!data.success || !data.profile) {
+    throw new KeyBackupError(
+      data.revoked
+        ? 'This badge has been revoked. Restore your backup by scanning your current badge.'
+        : 'This badge is not linked to a profile yet'
+    );
+  }
+  if (data.profile.npub !== identity.npub) {
+    throw new KeyBackupError('This backup belongs to another villager, not to the owner of this badge');
+  }
+
+  return { ...identity, username: data.profile.username };
+}
@@ -0,0 +1,111 @@
+/**
+ * Linked devices
+ *
+ * Every device linked with the QR handoff (see device-link.ts) is recorded
+ * in DATA_DIR/linked_devices.jsonl, so villagers can see and forget them
+ * from /settings. The log is append-only: the latest entry per device wins.
+ *
+ * A linked device holds the same key as the device that linked it, and its
+ * signatures can't be told apart from the owner's. Forgetting a device only
+ * asks it to sign itself out the next time it checks its status
+ * (GET /api/devices/{id}): it is not a revocation, a lost or stolen device
+ * can keep signing as the owner until they move to a new key. Revoking a
+ * device's key is out of scope, see "Linked Devices" in TECHNICAL_SPEC.md.
+ */
+
+import path from 'path';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { withLock } from './file-lock';
+
+export interface LinkedDevice {
+  id: string; // Hex ephemeral pubkey the device generated for the handoff
+  npub: string; // Owner
+  name: string;
+  linkedAt: string; // ISO 8601
+  forgottenAt?: string; // ISO 8601
+}
+
+/**
+ * Thrown when a device can't be linked or forgotten
+ */
+export class LinkedDeviceError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'LinkedDeviceError';
+  }
+}
+
+function getDevicesLogPath(): string {
+  return path.join(getDataDir(), 'linked_devices.jsonl');
+}
+
+async function readDevices(): Promise<Map<string, LinkedDevice>> {
+  const devices = new Map<string, LinkedDevice>();
+  for (const entry of await readJsonLines<LinkedDevice>(getDevicesLogPath())) {
+    devices.set(entry.id, entry);
+  }
+  return devices;
+}
+
+/**
+ * Get a linked device by id
+ */
+export async function getLinkedDevice(id: string): Promise<LinkedDevice | null> {
+  return (await readDevices()).get(id) || null;
+}
+
+/**
+ * List the devices linked to an account, most recent first
+ */
+export async function listLinkedDevices(npub: string): Promise<LinkedDevice[]> {
+  return Array.from((await readDevices()).values())
+    .filter((device) => device.npub === npub)
+    .sort((a, b) => b.linkedAt.localeCompare(a.linkedAt));
+}
+
+/**
+ * Record a newly linked device
+ */
+export async function recordLinkedDevice(npub: string, id: string, name: string): Promise<LinkedDevice> {
+  if (!/^[0-9a-f]{64}$/.test(id)) {
+    throw new LinkedDeviceError('Invalid device id');
+  }
+
+  return withLock(getDevicesLogPath(), async () => {
+    if (await getLinkedDevice(id)) {
+      throw new LinkedDeviceError('This device was already linked, start again on the new device', 409);
+    }
+
+    const device: LinkedDevice = {
+      id,
+      npub,
+      name: name.trim().slice(0, 64) || 'Unknown device',
+      linkedAt: new Date().toISOString(),
+    };
+    await appendJsonLine(getDevicesLogPath(), device);
+    console.log(`[Devices] Linked "${device.name}" to ${npub}`);
+    return device;
+  });
+}
+
+/**
+ * Forget a linked device, so it signs itself out
+ *
+ * @param npub - The caller; only the owner can forget their devices
+ */
+export async function forgetLinkedDevice(npub: string, id: string): Promise<LinkedDevice> {
+  return withLock(getDevicesLogPath(), async () => {
+    const device = await getLinkedDevice(id);
+    if (!device || device.npub !== npub) {
+      throw new LinkedDeviceError('Device not found', 404);
+    }
+    if (device.forgottenAt) {
+      return device;
+    }
+
+    const forgotten: LinkedDevice = { ...device, forgottenAt: new Date().toISOString() };
+    await appendJsonLine(getDevicesLogPath(), forgotten);
+    console.log(`[Devices] Forgot "${device.name}" of ${npub}`);
+    return forgotten;
+  });
+}
@@ -7,17 +7,22 @@
  * Storage structure:
  * data/calendars/
  *   ostrom/
- *     events.json       # JSON store of proposal events
+ *     events.json       # JSON store of proposal events (file storage backend)
  *     proposals.ics     # Generated ICS file for Google sync
  *     .sync-metadata    # Last sync timestamp
+ *
+ * Proposal events are read and written through the storage backend;
+ * the ICS files are always generated on disk. Every read-modify-write of a
+ * room's events holds that room's lock (see file-lock.ts), since the API
+ * routes and the listener scripts update the same rooms concurrently.
  */
 
 import fs from 'fs/promises';
 import fsSync from 'fs';
 import path from 'path';
-
-const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
-const CALENDARS_DIR = path.join(DATA_DIR, 'calendars');
+import { getDataDir } from './storage';
+import { getStorageBackend } from './storage-backend';
+import { withLock, atomicWriteFile } from './file-lock';
 
 // Cache for room slug lookup from settings.json
 interface RoomConfig {
@@ -54,6 +59,7 @@ export interface Attendee {
  * Proposal event stored in local calendar
  */
 export interface ProposalEvent {
+  schemaVersion?: number; // see schema-migrations.ts
   offerId: string;
   title: string;
   description: string;
@@ -95,14 +101,7 @@ export function getRoomSlug(roomName: string): string {
  * Get the directory path for a room's calendar data
  */
 function getRoomDir(roomSlug: string): string {
-  return path.join(CALENDARS_DIR, roomSlug);
-}
-
-/**
- * Get the path to the events JSON file for a room
- */
-function getEventsPath(roomSlug: string): string {
-  return path.join(getRoomDir(roomSlug), 'events.json');
+  return path.join(getDataDir(), 'calendars', roomSlug);
 }
 
 /**
@@ -120,32 +119,38 @@ async function ensureRoomDir(roomSlug: string): Promise<void> {
 }
 
 /**
- * Load events from JSON file
+ * Load events for a room from the storage backend
  */
 async function loadEvents(roomSlug: string): Promise<ProposalEvent[]> {
   try {
-    const content = await fs.readFile(getEventsPath(roomSlug), 'utf-8');
-    const data = JSON.parse(content);
-    // Convert date strings back to Date objects
-    return data.map((event: any) => ({
-      ...event,
-      startTime: new Date(event.startTime),
-      endTime: new Date(event.endTime),
-      createdAt: event.createdAt ? new Date(event.createdAt) : undefined,
-      updatedAt: event.updatedAt ? new Date(event.updatedAt) : undefined,
-    }));
+    return await getStorageBackend().getProposalEvents(roomSlug);
   } catch (error) {
-    // File doesn't exist or is empty
+    console.error(`[LocalCalendar] Failed to load events for ${roomSlug}:`, error);
     return [];
   }
 }
 
 /**
- * Save events to JSON file
+ * Save events for a room to the storage backend
  */
 async function saveEvents(roomSlug: string, events: ProposalEvent[]): Promise<void> {
-  await ensureRoomDir(roomSlug);
-  await fs.writeFile(getEventsPath(roomSlug), JSON.stringify(events, null, 2));
+  await getStorageBackend().saveProposalEvents(roomSlug, events);
+}
+
+/**
+ * Load, modify and save a room's events while holding the room lock
+ * The callback returns false to skip saving
+ */
+async function updateEvents(
+  roomSlug: string,
+  mutate: (events: ProposalEvent[]) => boolean | void
+): Promise<void> {
+  await withLock(`calendar:${roomSlug}`, async () => {
+    const events = await loadEvents(roomSlug);
+    if (mutate(events) !== false) {
+      await saveEvents(roomSlug, events);
+    }
+  });
 }
 
 /**
@@ -155,26 +160,24 @@ export async function addProposalEvent(
   roomSlug: string,
   event: ProposalEvent
 ): Promise<void> {
-  const events = await loadEvents(roomSlug);
-
-  // Check if event already exists
-  const existingIndex = events.findIndex((e) => e.offerId === event.offerId);
-  if (existingIndex >= 0) {
-    // Update existing event
-    events[existingIndex] = {
-      ...event,
-      updatedAt: new Date(),
-    };
-  } else {
-    // Add new event
-    events.push({
-      ...event,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-  }
-
-  await saveEvents(roomSlug, events);
+  await updateEvents(roomSlug, (events) => {
+    // Check if event already exists
+    const existingIndex = events.findIndex((e) => e.offerId === event.offerId);
+    if (existingIndex >= 0) {
+      // Update existing event
+      events[existingIndex] = {
+        ...event,
+        updatedAt: new Date(),
+      };
+    } else {
+      // Add new event
+      events.push({
+        ...event,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+  });
 }
 
 /**
@@ -185,14 +188,13 @@ export async function updateEventStatus(
   offerId: string,
   status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'
 ): Promise<void> {
-  const events = await loadEvents(roomSlug);
-  const eventIndex = events.findIndex((e) => e.offerId === offerId);
+  await updateEvents(roomSlug, (events) => {
+    const eventIndex = events.findIndex((e) => e.offerId === offerId);
+    if (eventIndex < 0) return false;
 
-  if (eventIndex >= 0) {
     events[eventIndex].status = status;
     events[eventIndex].updatedAt = new Date();
-    await saveEvents(roomSlug, events);
-  }
+  });
 }
 
 /**
@@ -204,18 +206,14 @@ export async function addAttendee(
   username: string,
   npub: string
 ): Promise<void> {
-  const events = await loadEvents(roomSlug);
-  const eventIndex = events.findIndex((e) => e.offerId === offerId);
-
-  if (eventIndex >= 0) {
-    const event = events[eventIndex];
+  await updateEvents(roomSlug, (events) => {
+    const event = events.find((e) => e.offerId === offerId);
     // Check if attendee already exists
-    if (!event.attendees.some((a) => a.npub === npub)) {
-      event.attendees.push({ username, npub });
-      event.updatedAt = new Date();
-      await saveEvents(roomSlug, events);
-    }
-  }
+    if (!event || event.attendees.some((a) => a.npub === npub)) return false;
+
+    event.attendees.push({ username, npub });
+    event.updatedAt = new Date();
+  });
 }
 
 /**
@@ -226,15 +224,25 @@ export async function removeAttendee(
   offerId: string,
   npub: string
 ): Promise<void> {
-  const events = await loadEvents(roomSlug);
-  const eventIndex = events.findIndex((e) => e.offerId === offerId);
+  await updateEvents(roomSlug, (events) => {
+    const event = events.find((e) => e.offerId === offerId);
+    if (!event) return false;
 
-  if (eventIndex >= 0) {
-    const event = events[eventIndex];
     event.attendees = event.attendees.filter((a) => a.npub !== npub);
     event.updatedAt = new Date();
-    await saveEvents(roomSlug, events);
-  }
+  });
+}
+
+/**
+ * Replace all proposal events for a room (used by the state rebuild)
+ */
+export async function replaceProposalEvents(
+  roomSlug: string,
+  events: ProposalEvent[]
+): Promise<void> {
+  await updateEvents(roomSlug, (current) => {
+    current.splice(0, current.length, ...events);
+  });
 }
 
 /**
@@ -251,7 +259,7 @@ export async function getAllProposalEvents(): Promise<ProposalEvent[]> {
   const allEvents: ProposalEvent[] = [];
 
   try {
-    const roomDirs = await fs.readdir(CALENDARS_DIR);
+    const roomDirs = await getStorageBackend().getRoomSlugs();
     console.log('[LocalCalendar] Reading from room directories:', roomDirs);
 
     for (const roomDir of roomDirs) {
@@ -331,7 +339,7 @@ function escapeIcsText(text: string): string {
 /**
  * Generate ICS file content from events
  */
-function generateIcsContent(events: ProposalEvent[]): string {
+export function generateIcsContent(events: ProposalEvent[]): string {
   const lines: string[] = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
@@ -382,7 +390,18 @@ export async function generateIcsFile(roomSlug: string): Promise<void> {
   const icsContent = generateIcsContent(events);
 
   await ensureRoomDir(roomSlug);
-  await fs.writeFile(getIcsPath(roomSlug), icsContent);
+  await atomicWriteFile(getIcsPath(roomSlug), icsContent);
+}
+
+/**
+ * Read the generated ICS file for a room (null if not generated yet)
+ */
+export async function readIcsFile(roomSlug: string): Promise<string | null> {
+  try {
+    return await fs.readFile(getIcsPath(roomSlug), 'utf-8');
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -495,13 +514,12 @@ export async function updateEventRsvpCount(
 ): Promise<void> {
   // This is a convenience method - the actual count comes from attendees array
   // Useful for triggering ICS regeneration
-  const events = await loadEvents(roomSlug);
-  const eventIndex = events.findIndex((e) => e.offerId === offerId);
+  await updateEvents(roomSlug, (events) => {
+    const event = events.find((e) => e.offerId === offerId);
+    if (!event) return false;
 
-  if (eventIndex >= 0) {
-    events[eventIndex].updatedAt = new Date();
-    await saveEvents(roomSlug, events);
-  }
+    event.updatedAt = new Date();
+  });
 }
 
 /**
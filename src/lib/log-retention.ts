@@ -0,0 +1,471 @@
+/**
+ * JSONL log rotation, compaction and retention
+ *
+ * Applies to the append-only logs in DATA_DIR:
+ * - nostr_events.jsonl                  (all events, nostr-listener)
+ * - npubs/:npub/nostr_events.jsonl      (per-user events, event-logger)
+ * - npubs/:npub/notifications.jsonl     (notifications, file backend)
+ *
+ * A log is a set of segments: rotated archives next to it
+ * (nostr_events.20260130-120000.jsonl.gz, oldest first) followed by the
+ * active file that writers append to. Readers go through listLogSegments /
+ * readLogSegment / readLogEntries and see one continuous log.
+ *
+ * Rotation (by size and/or day) renames the active file to an archive,
+ * so writers just start a new file on their next append. Archives of event
+ * logs are compacted: replaceable events (kinds 0, 3, 10002, 31922 by
+ * default) are dropped when a newer version exists in a later segment.
+ * Archives are then gzipped and deleted once they pass the retention age.
+ *
+ * Policy: "logRetention" in settings.json (see DEFAULT_RETENTION_POLICY).
+ * Run with: npm run rotate-logs
+ */
+
+import fs from 'fs/promises';
+import { existsSync, readdirSync, readFileSync, statSync, openSync, readSync, closeSync } from 'fs';
+import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { withLock, atomicWriteFile } from './file-lock';
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+export interface RetentionPolicy {
+  /** Rotate when the active log reaches this size in MB (0: never by size) */
+  rotateAtMB: number;
+  /** Rotate when the active log starts on an earlier day (UTC) */
+  rotateDaily: boolean;
+  /** Gzip rotated segments */
+  compress: boolean;
+  /** Replaceable event kinds compacted down to their latest version */
+  compactKinds: number[];
+  /** Delete archives older than this many days (0: keep forever) */
+  keepArchivesDays: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rotateAtMB: 10,
+  rotateDaily: true,
+  compress: true,
+  compactKinds: [0, 3, 10002, 31922],
+  keepArchivesDays: 0,
+};
+
+/**
+ * Load the retention policy from settings.json (missing fields use defaults)
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  try {
+    const settings = JSON.parse(readFileSync(path.join(process.cwd(), 'settings.json'), 'utf-8'));
+    return { ...DEFAULT_RETENTION_POLICY, ...(settings.logRetention || {}) };
+  } catch {
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+const ARCHIVE_STAMP = /^(\d{8}-\d{6})(?:-(\d+))?$/;
+
+/**
+ * Split a log path into directory and base name (nostr_events.jsonl -> nostr_events)
+ */
+function splitLogPath(logPath: string): { dir: string; base: string } {
+  return { dir: path.dirname(logPath), base: path.basename(logPath).replace(/\.jsonl$/, '') };
+}
+
+/**
+ * Parse an archive file name of a log: base.STAMP[-n].jsonl[.gz]
+ */
+function parseArchiveName(base: string, fileName: string): { stamp: string; counter: number } | null {
+  const prefix = `${base}.`;
+  if (!fileName.startsWith(prefix)) return null;
+
+  const rest = fileName.slice(prefix.length).replace(/\.jsonl(\.gz)?$/, '');
+  if (rest === fileName.slice(prefix.length)) return null;
+
+  const match = rest.match(ARCHIVE_STAMP);
+  return match ? { stamp: match[1], counter: parseInt(match[2] || '0', 10) } : null;
+}
+
+function formatStamp(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, '')}-${iso.slice(11, 19).replace(/:/g, '')}`;
+}
+
+function stampToDate(stamp: string): Date {
+  return new Date(
+    `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+      `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}Z`
+  );
+}
+
+/**
+ * Rotated archives of a log, oldest first
+ */
+export function listLogArchives(logPath: string): string[] {
+  const { dir, base } = splitLogPath(logPath);
+
+  let files: string[];
+  try {
+    files = readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  return files
+    .map((file) => ({ file, parsed: parseArchiveName(base, file) }))
+    .filter((a): a is { file: string; parsed: { stamp: string; counter: number } } => a.parsed !== null)
+    .sort(
+      (a, b) =>
+        a.parsed.stamp.localeCompare(b.parsed.stamp) ||
+        a.parsed.counter - b.parsed.counter ||
+        a.file.localeCompare(b.file)
+    )
+    .map((a) => path.join(dir, a.file));
+}
+
+/**
+ * All segments of a log in order: archives, then the active file
+ */
+export function listLogSegments(logPath: string): string[] {
+  const segments = listLogArchives(logPath);
+  if (existsSync(logPath)) {
+    segments.push(logPath);
+  }
+  return segments;
+}
+
+/**
+ * Read a segment (decompressing archives)
+ */
+export function readLogSegment(segmentPath: string): Buffer {
+  const content = readFileSync(segmentPath);
+  return segmentPath.endsWith('.gz') ? gunzipSync(content) : content;
+}
+
+/**
+ * Read and parse every line of a log across its segments
+ * Throws on malformed lines, like readJsonLines
+ */
+export async function readLogEntries<T>(logPath: string): Promise<T[]> {
+  const entries: T[] = [];
+  for (const segment of listLogSegments(logPath)) {
+    let content: string;
+    try {
+      content = readLogSegment(segment).toString('utf-8');
+    } catch (error) {
+      // Rotated away between listing and reading
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (line.trim()) entries.push(JSON.parse(line));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Delete all archives of a log (when its full content is rewritten)
+ */
+export async function removeLogArchives(logPath: string): Promise<void> {
+  for (const archive of listLogArchives(logPath)) {
+    await fs.unlink(archive).catch(() => {});
+  }
+}
+
+// ============================================================================
+// Rotation
+// ============================================================================
+
+/**
+ * Time of the first entry of a log file (timestamp, createdAt or created_at)
+ */
+function firstEntryTime(logPath: string): Date | null {
+  let fd: number;
+  try {
+    fd = openSync(logPath, 'r');
+  } catch {
+    return null;
+  }
+
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const bytesRead = readSync(fd, buffer, 0, buffer.length, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString('utf-8').split('\n')[0];
+    const entry = JSON.parse(firstLine);
+    const raw = entry.timestamp || entry.createdAt || (entry.event || entry).created_at * 1000;
+    const date = new Date(raw);
+    return isNaN(date.getTime()) ? null : date;
+  } catch {
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Whether the active log is due for rotation
+ */
+export function needsRotation(logPath: string, policy: RetentionPolicy, now = new Date()): boolean {
+  let size: number;
+  try {
+    size = statSync(logPath).size;
+  } catch {
+    return false;
+  }
+  if (size === 0) return false;
+
+  if (policy.rotateAtMB > 0 && size >= policy.rotateAtMB * 1024 * 1024) {
+    return true;
+  }
+
+  if (policy.rotateDaily) {
+    const first = firstEntryTime(logPath);
+    if (first && first.toISOString().slice(0, 10) < now.toISOString().slice(0, 10)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function getLogLockResource(logPath: string): string {
+  return `log:${path.relative(process.env.DATA_DIR || process.cwd(), logPath)}`;
+}
+
+/**
+ * Move the active log to a new archive
+ *
+ * @returns The archive path (uncompressed), or null if there was nothing to rotate
+ */
+async function moveToArchive(logPath: string, now: Date): Promise<string | null> {
+  if (!existsSync(logPath)) return null;
+
+  const { dir, base } = splitLogPath(logPath);
+  const stamp = formatStamp(now);
+  const existing = new Set(listLogArchives(logPath).map((a) => path.basename(a)));
+
+  let counter = 0;
+  let name = `${base}.${stamp}.jsonl`;
+  while (existing.has(name) || existing.has(`${name}.gz`)) {
+    counter++;
+    name = `${base}.${stamp}-${counter}.jsonl`;
+  }
+
+  const archivePath = path.join(dir, name);
+  // Writers open the log by path on every append: after the rename they
+  // start a new active file
+  await fs.rename(logPath, archivePath);
+  return archivePath;
+}
+
+async function writeSegment(segmentPath: string, content: Buffer): Promise<void> {
+  const data = segmentPath.endsWith('.gz') ? gzipSync(content) : content;
+  await atomicWriteFile(segmentPath, data);
+}
+
+async function compressArchive(archivePath: string): Promise<string> {
+  if (archivePath.endsWith('.gz')) return archivePath;
+
+  const compressedPath = `${archivePath}.gz`;
+  await writeSegment(compressedPath, await fs.readFile(archivePath));
+  await fs.unlink(archivePath);
+  return compressedPath;
+}
+
+// ============================================================================
+// Compaction
+// ============================================================================
+
+interface EventRef {
+  id: string;
+  pubkey: string;
+  kind: number;
+  created_at: number;
+  tags?: string[][];
+}
+
+function lineEvent(line: string): EventRef | null {
+  try {
+    const parsed = JSON.parse(line);
+    const event = parsed.event && typeof parsed.event === 'object' ? parsed.event : parsed;
+    return event && event.id && event.pubkey && typeof event.kind === 'number' ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key shared by all versions of a replaceable event
+ * (pubkey + kind, plus the d tag for parameterized kinds 30000-39999)
+ */
+function replaceableKey(event: EventRef): string {
+  const key = `${event.kind}:${event.pubkey}`;
+  if (event.kind >= 30000 && event.kind < 40000) {
+    return `${key}:${event.tags?.find((t) => t[0] === 'd')?.[1] || ''}`;
+  }
+  return key;
+}
+
+/**
+ * NIP-01: newest created_at wins, the lowest id breaks ties
+ */
+function isNewer(a: EventRef, b: EventRef): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id < b.id);
+}
+
+/**
+ * Drop superseded versions of replaceable events from the archives of an
+ * event log. The active file is never rewritten (writers append to it),
+ * but versions in it do supersede archived ones.
+ *
+ * @returns Number of events dropped
+ */
+export async function compactLogArchives(logPath: string, kinds: number[]): Promise<number> {
+  if (kinds.length === 0) return 0;
+
+  const segments = listLogSegments(logPath);
+  const latest = new Map<string, EventRef>();
+
+  for (const segment of segments) {
+    for (const line of readLogSegment(segment).toString('utf-8').split('\n')) {
+      const event = lineEvent(line);
+      if (!event || !kinds.includes(event.kind)) continue;
+
+      const key = replaceableKey(event);
+      const current = latest.get(key);
+      if (!current || isNewer(event, current)) {
+        latest.set(key, event);
+      }
+    }
+  }
+
+  let dropped = 0;
+  for (const archive of segments.filter((s) => s !== logPath)) {
+    const lines = readLogSegment(archive).toString('utf-8').split('\n');
+    const kept = lines.filter((line) => {
+      const event = lineEvent(line);
+      if (!event || !kinds.includes(event.kind)) return true;
+      return latest.get(replaceableKey(event))?.id === event.id;
+    });
+
+    if (kept.length !== lines.length) {
+      dropped += lines.length - kept.length;
+      await writeSegment(archive, Buffer.from(kept.join('\n'), 'utf-8'));
+    }
+  }
+
+  return dropped;
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+/**
+ * Delete archives older than the retention age
+ *
+ * @returns Deleted archive paths
+ */
+export async function pruneLogArchives(logPath: string, keepDays: number, now = new Date()): Promise<string[]> {
+  if (keepDays <= 0) return [];
+
+  const cutoff = now.getTime() - keepDays * 24 * 60 * 60 * 1000;
+  const { base } = splitLogPath(logPath);
+  const deleted: string[] = [];
+
+  for (const archive of listLogArchives(logPath)) {
+    const parsed = parseArchiveName(base, path.basename(archive));
+    if (parsed && stampToDate(parsed.stamp).getTime() < cutoff) {
+      await fs.unlink(archive);
+      deleted.push(archive);
+    }
+  }
+
+  return deleted;
+}
+
+export type RetainedLogType = 'events' | 'notifications';
+
+/**
+ * Logs managed by the retention policy
+ */
+export function findRetainedLogs(): { path: string; type: RetainedLogType }[] {
+  const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+  const logs: { path: string; type: RetainedLogType }[] = [
+    { path: path.join(dataDir, 'nostr_events.jsonl'), type: 'events' },
+  ];
+
+  let npubs: string[] = [];
+  try {
+    npubs = readdirSync(path.join(dataDir, 'npubs'));
+  } catch {
+    // No users yet
+  }
+
+  for (const npub of npubs) {
+    const npubDir = path.join(dataDir, 'npubs', npub);
+    logs.push({ path: path.join(npubDir, 'nostr_events.jsonl'), type: 'events' });
+    logs.push({ path: path.join(npubDir, 'notifications.jsonl'), type: 'notifications' });
+  }
+
+  return logs.filter((log) => existsSync(log.path) || listLogArchives(log.path).length > 0);
+}
+
+export interface LogRetentionResult {
+  path: string;
+  rotatedTo: string | null;
+  compacted: number;
+  pruned: string[];
+}
+
+/**
+ * Rotate, compact, compress and prune one log
+ */
+export async function applyRetention(
+  logPath: string,
+  type: RetainedLogType,
+  policy: RetentionPolicy,
+  now = new Date()
+): Promise<LogRetentionResult> {
+  return withLock(getLogLockResource(logPath), async () => {
+    let rotatedTo: string | null = null;
+    if (needsRotation(logPath, policy, now)) {
+      rotatedTo = await moveToArchive(logPath, now);
+    }
+
+    const compacted =
+      type === 'events' && rotatedTo ? await compactLogArchives(logPath, policy.compactKinds) : 0;
+
+    if (policy.compress) {
+      for (const archive of listLogArchives(logPath)) {
+        const compressed = await compressArchive(archive);
+        if (archive === rotatedTo) rotatedTo = compressed;
+      }
+    }
+
+    const pruned = await pruneLogArchives(logPath, policy.keepArchivesDays, now);
+
+    return { path: logPath, rotatedTo, compacted, pruned };
+  });
+}
+
+/**
+ * Apply the retention policy to every log in DATA_DIR
+ */
+export async function runLogRetention(
+  policy: RetentionPolicy = loadRetentionPolicy(),
+  now = new Date()
+): Promise<LogRetentionResult[]> {
+  const results: LogRetentionResult[] = [];
+  for (const log of findRetainedLogs()) {
+    results.push(await applyRetention(log.path, log.type, policy, now));
+  }
+  return results;
+}
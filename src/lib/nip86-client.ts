@@ -248,12 +248,12 @@ export async function getRelayInfo(relayUrl: string): Promise<{
 }
 
 /**
- * Add user to all configured relays
- *
- * @param npub - User's npub to add
- * @returns Results for each relay
+ * Run a user operation against every relay in NOSTR_RELAYS
  */
-export async function addUserToAllRelays(npub: string): Promise<{
+async function applyToAllRelays(
+  npub: string,
+  operation: (relayUrl: string, npub: string) => Promise<{ success: boolean; error?: string }>
+): Promise<{
   successful: string[];
   failed: Array<{ url: string; error: string }>;
 }> {
@@ -262,13 +262,11 @@ export async function addUserToAllRelays(npub: string): Promise<{
     ? envRelays.split(',').map(r => r.trim()).filter(Boolean)
     : [];
 
-  console.log(`[NIP-86] Adding user to ${relayUrls.length} relays`);
-
   const results = await Promise.allSettled(
     relayUrls.map(url => {
       // Convert wss:// to https://
       const httpUrl = url.replace('wss://', 'https://').replace('ws://', 'http://');
-      return addUserToRelay(httpUrl, npub);
+      return operation(httpUrl, npub);
     })
   );
 
@@ -291,10 +289,50 @@ export async function addUserToAllRelays(npub: string): Promise<{
     }
   });
 
+  return { successful, failed };
+}
+
+/**
+ * Add user to all configured relays
+ *
+ * @param npub - User's npub to add
+ * @returns Results for each relay
+ */
+export async function addUserToAllRelays(npub: string): Promise<{
+  successful: string[];
+  failed: Array<{ url: string; error: string }>;
+}> {
+  console.log('[NIP-86] Adding user to all relays');
+
+  const result = await applyToAllRelays(npub, addUserToRelay);
+
   console.log('[NIP-86] Add user summary:', {
-    successful: successful.length,
-    failed: failed.length,
+    successful: result.successful.length,
+    failed: result.failed.length,
   });
 
-  return { successful, failed };
+  return result;
+}
+
+/**
+ * Remove user from all configured relays
+ * Used when an admin suspends a user
+ *
+ * @param npub - User's npub to remove
+ * @returns Results for each relay
+ */
+export async function removeUserFromAllRelays(npub: string): Promise<{
+  successful: string[];
+  failed: Array<{ url: string; error: string }>;
+}> {
+  console.log('[NIP-86] Removing user from all relays');
+
+  const result = await applyToAllRelays(npub, removeUserFromRelay);
+
+  console.log('[NIP-86] Remove user summary:', {
+    successful: result.successful.length,
+    failed: result.failed.length,
+  });
+
+  return result;
 }
@@ -0,0 +1,225 @@
+/**
+ * NIP-98: HTTP Auth for mutating API routes
+ * https://github.com/nostr-protocol/nips/blob/master/98.md
+ *
+ * Clients send `Authorization: Nostr <base64 event>` where the event is a
+ * kind 27235 event signed by the user, tagged with the request URL, method
+ * and the SHA-256 of the body. Routes wrapped with `withNostrAuth` get the
+ * verified pubkey and must use it instead of any npub sent in the body.
+ *
+ * The client side lives in `createHttpAuthHeader` (nostr-events.ts) and
+ * `useNostrPublisher().signedFetch`.
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { nip19, verifyEvent } from 'nostr-tools';
+import { NOSTR_KINDS, type NostrEvent } from './nostr-events';
+import { getStorageBackend } from './storage-backend';
+
+/**
+ * How far created_at may be from the server clock (NIP-98 suggests 60s)
+ */
+export const NIP98_MAX_AGE_SECONDS = 60;
+
+/**
+ * The authenticated caller of a request
+ */
+export interface NostrAuth {
+  /** Hex pubkey that signed the request */
+  pubkey: string;
+  /** The same key as npub, for comparing with stored records */
+  npub: string;
+  event: NostrEvent;
+}
+
+/**
+ * Thrown when a request carries no valid NIP-98 authorization
+ */
+export class NostrAuthError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'NostrAuthError';
+  }
+}
+
+// Event ids seen within the validity window, so a captured header can't be replayed
+// In production with several app instances, use a shared store
+const seenEvents = new Map<string, number>();
+
+function rememberEvent(id: string, createdAt: number): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  for (const [seenId, expiresAt] of seenEvents) {
+    if (expiresAt < now) seenEvents.delete(seenId);
+  }
+
+  if (seenEvents.has(id)) return false;
+  seenEvents.set(id, createdAt + NIP98_MAX_AGE_SECONDS);
+  return true;
+}
+
+/**
+ * Clear the replay cache
+ * Useful for testing
+ */
+export function clearSeenAuthEvents(): void {
+  seenEvents.clear();
+}
+
+function getTag(event: NostrEvent, name: string): string | undefined {
+  return event.tags.find((t) => t[0] === name)?.[1];
+}
+
+/**
+ * Compare the signed URL with the request as the client sent it
+ * Behind the reverse proxy request.url has the internal host, so the public
+ * host comes from APP_URL. Host and X-Forwarded-Host are set by the client
+ * and can't be trusted. The scheme is not compared: TLS ends at the proxy.
+ */
+function sameUrl(signed: string, request: Request): boolean {
+  let signedUrl: URL;
+  try {
+    signedUrl = new URL(signed);
+  } catch {
+    return false;
+  }
+
+  const requestUrl = new URL(request.url);
+  const host = process.env.APP_URL ? new URL(process.env.APP_URL).host : requestUrl.host;
+
+  return (
+    signedUrl.host === host &&
+    signedUrl.pathname === requestUrl.pathname &&
+    signedUrl.search === requestUrl.search
+  );
+}
+
+/**
+ * Decode the event from an Authorization header value
+ */
+function decodeAuthorization(header: string | null): NostrEvent {
+  if (!header) {
+    throw new NostrAuthError('Missing Authorization header');
+  }
+
+  const [scheme, token] = header.trim().split(/\s+/);
+  if (scheme !== 'Nostr' || !token) {
+    throw new NostrAuthError('Authorization scheme must be Nostr');
+  }
+
+  try {
+    return JSON.parse(Buffer.from(token, 'base64').toString('utf-8')) as NostrEvent;
+  } catch {
+    throw new NostrAuthError('Malformed authorization event');
+  }
+}
+
+/**
+ * Verify the NIP-98 Authorization header of a request
+ *
+ * Checks the signature, kind, timestamp, URL, method and payload hash, and
+ * that the event has not been used before. Reads the body from a clone, so
+ * the handler can still consume the request.
+ *
+ * @param request - Incoming request
+ * @returns The authenticated pubkey
+ * @throws NostrAuthError if the request is not properly signed
+ */
+export async function verifyNostrAuth(request: Request): Promise<NostrAuth> {
+  const event = decodeAuthorization(request.headers.get('authorization'));
+
+  if (event.kind !== NOSTR_KINDS.HTTP_AUTH) {
+    throw new NostrAuthError(`Authorization event must be kind ${NOSTR_KINDS.HTTP_AUTH}`);
+  }
+
+  let validSignature = false;
+  try {
+    validSignature = verifyEvent(event);
+  } catch {
+    // Malformed events throw instead of returning false
+  }
+  if (!validSignature) {
+    throw new NostrAuthError('Invalid authorization event signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - event.created_at) > NIP98_MAX_AGE_SECONDS) {
+    throw new NostrAuthError('Authorization event has expired');
+  }
+
+  const signedUrl = getTag(event, 'u');
+  if (!signedUrl || !sameUrl(signedUrl, request)) {
+    throw new NostrAuthError('Authorization event is for a different URL');
+  }
+
+  if (getTag(event, 'method')?.toUpperCase() !== request.method.toUpperCase()) {
+    throw new NostrAuthError('Authorization event is for a different method');
+  }
+
+  // JSON bodies must be covered by the signature; multipart uploads can't be
+  // hashed by the browser before sending, so the tag is only checked if present
+  const payloadHash = getTag(event, 'payload');
+  const isJson = request.headers.get('content-type')?.includes('application/json') ?? false;
+  if (payloadHash || isJson) {
+    const body = await request.clone().text();
+    if (body || payloadHash) {
+      const actualHash = createHash('sha256').update(body).digest('hex');
+      if (payloadHash !== actualHash) {
+        throw new NostrAuthError('Authorization event does not match the request body');
+      }
+    }
+  }
+
+  if (!rememberEvent(event.id, event.created_at)) {
+    throw new NostrAuthError('Authorization event has already been used');
+  }
+
+  return {
+    pubkey: event.pubkey,
+    npub: nip19.npubEncode(event.pubkey),
+    event,
+  };
+}
+
+/**
+ * Require a NIP-98 signed request before running a route handler
+ * Unauthenticated requests get a 401 in the usual { success, error } shape,
+ * and users suspended by an admin a 403.
+ *
+ * @example
+ * ```typescript
+ * export const DELETE = withNostrAuth(async (request, context, auth) => {
+ *   // auth.npub is the verified caller
+ * });
+ * ```
+ */
+export function withNostrAuth<C = unknown>(
+  handler: (request: NextRequest, context: C, auth: NostrAuth) => Promise<NextResponse>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request: NextRequest, context: C) => {
+    let auth: NostrAuth;
+    try {
+      auth = await verifyNostrAuth(request);
+    } catch (error) {
+      if (error instanceof NostrAuthError) {
+        console.warn(`[Nostr Auth] ${request.method} ${new URL(request.url).pathname} rejected: ${error.message}`);
+        return NextResponse.json(
+          { success: false, error: `Unauthorized: ${error.message}` },
+          { status: error.status, headers: { 'WWW-Authenticate': 'Nostr' } }
+        );
+      }
+      throw error;
+    }
+
+    const profile = await getStorageBackend().getProfileByNpub(auth.npub);
+    if (profile?.suspended) {
+      console.warn(`[Nostr Auth] ${request.method} ${new URL(request.url).pathname} rejected: ${auth.npub} is suspended`);
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: account suspended' },
+        { status: 403 }
+      );
+    }
+
+    return handler(request, context, auth);
+  };
+}
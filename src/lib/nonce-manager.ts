@@ -0,0 +1,112 @@
+/**
+ * Sequential nonces for the deployer account
+ *
+ * Mints, burns and transfers are all sent by the same account. When two go
+ * out at once they can pick the same nonce from the RPC node, and one of them
+ * is dropped. The payment processor submits them one at a time through a
+ * NonceManager, which assigns the next nonce to each submission from its own
+ * counter, or from the chain's pending transaction count if the account moved
+ * on without it.
+ *
+ * The token backends take their nonce from the RPC node, so before a
+ * submission the manager waits for the node to count the transactions it
+ * already sent: a lagging node can't make the next one reuse a nonce. After a
+ * nonce error (see isNonceError) the counter is reset and resyncs from the
+ * chain on the next submission.
+ */
+
+const NONCE_ERROR = /nonce too low|nonce too high|nonce has already been used|invalid nonce|replacement transaction underpriced|already known/i;
+
+const DEFAULT_SYNC_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_SYNC_INTERVAL_MS = 1000;
+
+/**
+ * Whether a submission failed because of its nonce
+ */
+export function isNonceError(error: Error): boolean {
+  return NONCE_ERROR.test(error.message);
+}
+
+export interface NonceManagerOptions {
+  /** How long to wait for the RPC node to catch up with the local counter */
+  syncTimeoutMs?: number;
+  /** How often to ask the RPC node while waiting */
+  syncIntervalMs?: number;
+}
+
+export class NonceManager {
+  private next: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly syncTimeoutMs: number;
+  private readonly syncIntervalMs: number;
+
+  /**
+   * @param fetchPendingNonce - The chain's nonce for the account, counting pending transactions
+   */
+  constructor(private readonly fetchPendingNonce: () => Promise<number>, options: NonceManagerOptions = {}) {
+    this.syncTimeoutMs = options.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT_MS;
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  /**
+   * Run a submission with the next nonce
+   * Submissions run one at a time, in the order they were requested. The nonce
+   * is only used up when the submission succeeds.
+   *
+   * @param submit - Sends the transaction; receives the nonce assigned to it
+   * @throws A nonce error if the RPC node doesn't catch up with the counter in time
+   */
+  async withNonce<T>(submit: (nonce: number) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const nonce = await this.sync();
+
+      try {
+        const result = await submit(nonce);
+        this.next = nonce + 1;
+        return result;
+      } catch (error) {
+        if (error instanceof Error && isNonceError(error)) {
+          this.reset();
+        }
+        throw error;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Wait until the chain counts every transaction sent so far
+   *
+   * @returns The nonce of the next submission
+   */
+  private async sync(): Promise<number> {
+    const deadline = Date.now() + this.syncTimeoutMs;
+    let pending = await this.fetchPendingNonce();
+
+    while (this.next !== null && pending < this.next) {
+      if (Date.now() >= deadline) {
+        const expected = this.next;
+        this.reset();
+        throw new Error(`Invalid nonce: the RPC node is at ${pending}, expected ${expected}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.syncIntervalMs));
+      pending = await this.fetchPendingNonce();
+    }
+    return this.next === null ? pending : Math.max(this.next, pending);
+  }
+
+  /**
+   * Forget the local counter, the next submission resyncs from the chain
+   */
+  reset(): void {
+    this.next = null;
+  }
+
+  /**
+   * The nonce the next submission will use at least, null until the first one
+   */
+  peek(): number | null {
+    return this.next;
+  }
+}
@@ -0,0 +1,756 @@
+/**
+ * Indexed queries over NOSTR event logs (JSONL)
+ *
+ * Parsing a whole log on every request gets slow once it holds tens of
+ * thousands of events. Each log file gets an index that records, per event,
+ * where its line sits in the file plus the fields filters look at
+ * (kind, pubkey, created_at, e/p/d tags):
+ * - Built incrementally: only lines appended since the last call are parsed
+ * - Persisted next to the log (nostr_events.index.json) so a restart
+ *   doesn't re-parse everything
+ * - Covers the rotated archives of the log too (see log-retention.ts), and
+ *   is rebuilt when they change or the log is replaced or truncated
+ *
+ * Queries take NIP-01 style filters and page backwards in time
+ * (newest first) with since/until/limit, or with the cursor returned by
+ * the previous page.
+ */
+
+import { closeSync, existsSync, openSync, readFileSync, readSync, statSync } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { GlobalEventEntry, NostrEvent } from './nostr-logger';
+import { atomicWriteFileSync } from './file-lock';
+import { listLogArchives, readLogSegment } from './log-retention';
+
+/**
+ * NIP-01 style filter
+ *
+ * Values within a field are OR-ed, fields are AND-ed. Empty arrays are
+ * treated as "no filter".
+ */
+export interface NostrEventFilter {
+  ids?: string[];
+  kinds?: number[];
+  /** Hex pubkeys */
+  authors?: string[];
+  '#e'?: string[];
+  '#p'?: string[];
+  '#d'?: string[];
+  /** Only events with created_at >= since */
+  since?: number;
+  /** Only events with created_at <= until */
+  until?: number;
+  /** Maximum number of events to return (default: all) */
+  limit?: number;
+  /** Continue after the last event of a previous page (nextCursor) */
+  cursor?: string;
+}
+
+export interface NostrEventPage {
+  /** Matching entries, newest first */
+  entries: GlobalEventEntry[];
+  /** Pass as cursor to get the next page, null when there are no more events */
+  nextCursor: string | null;
+}
+
+interface IndexRecord {
+  id: string;
+  kind: number;
+  pubkey: string;
+  created_at: number;
+  /** Archive number (oldest first), or ACTIVE_SEGMENT */
+  segment: number;
+  /** Byte offset and length of the line in the (decompressed) segment */
+  offset: number;
+  length: number;
+  e?: string[];
+  p?: string[];
+  d?: string;
+}
+
+// Compact on-disk form: [id, kind, pubkey, created_at, segment, offset, length, e, p, d]
+type PersistedRecord = [string, number, string, number, number, number, number, string[]?, string[]?, string?];
+
+interface ArchiveInfo {
+  name: string;
+  size: number;
+  mtimeMs: number;
+}
+
+interface PersistedIndex {
+  version: number;
+  archives: ArchiveInfo[];
+  logSize: number;
+  headLength: number;
+  headHash: string;
+  records: PersistedRecord[];
+}
+
+const INDEX_VERSION = 2;
+const ACTIVE_SEGMENT = -1;
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+/** Bytes of the first line used to recognise the log file */
+const HEAD_BYTES = 256;
+/** Small logs are cheap to re-parse, don't write an index file for them */
+const PERSIST_MIN_RECORDS = 500;
+const PERSIST_INTERVAL_MS = 10000;
+
+const NEWLINE = 0x0a;
+
+/**
+ * Order by created_at, then id (total order, so cursors are exact)
+ */
+function compareRecords(a: { created_at: number; id: string }, b: { created_at: number; id: string }): number {
+  return a.created_at - b.created_at || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function insertSorted(list: IndexRecord[], record: IndexRecord): void {
+  // Logs are mostly appended in order: check the end first
+  if (list.length === 0 || compareRecords(list[list.length - 1], record) <= 0) {
+    list.push(record);
+    return;
+  }
+
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compareRecords(list[mid], record) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, record);
+}
+
+/**
+ * Number of records in a sorted list that come before the cursor
+ */
+function countBefore(list: IndexRecord[], cursor: { created_at: number; id: string }): number {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compareRecords(list[mid], cursor) < 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Number of records in a sorted list created at or before a timestamp
+ */
+function countUntil(list: IndexRecord[], until: number): number {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].created_at <= until) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function encodeCursor(event: { created_at: number; id: string }): string {
+  return `${event.created_at}:${event.id}`;
+}
+
+function decodeCursor(cursor: string): { created_at: number; id: string } | null {
+  const separator = cursor.indexOf(':');
+  const createdAt = parseInt(cursor.slice(0, separator), 10);
+  if (separator <= 0 || isNaN(createdAt)) {
+    return null;
+  }
+  return { created_at: createdAt, id: cursor.slice(separator + 1) };
+}
+
+/**
+ * Extract the entry from a log line
+ * Handles both the wrapped format ({ timestamp, source, event }) and raw events
+ */
+function parseLine(line: string): GlobalEventEntry | null {
+  try {
+    const parsed = JSON.parse(line);
+    if (parsed.event && typeof parsed.event === 'object' && parsed.event.id) {
+      return parsed as GlobalEventEntry;
+    }
+    if (parsed.id && parsed.pubkey) {
+      const event = parsed as NostrEvent;
+      return {
+        timestamp: new Date(event.created_at * 1000).toISOString(),
+        source: 'unknown',
+        event,
+      };
+    }
+  } catch {
+    // Malformed line
+  }
+  return null;
+}
+
+function tagValues(event: NostrEvent, name: string): string[] | undefined {
+  const values = (event.tags || []).filter((t) => t[0] === name && t[1]).map((t) => t[1]);
+  return values.length > 0 ? values : undefined;
+}
+
+function sameArchives(a: ArchiveInfo[], b: ArchiveInfo[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((archive, i) => archive.name === b[i].name && archive.size === b[i].size && archive.mtimeMs === b[i].mtimeMs)
+  );
+}
+
+function hashHead(buffer: Buffer): string {
+  return createHash('sha1').update(buffer).digest('hex');
+}
+
+/**
+ * Index over one JSONL event log
+ */
+export class NostrEventIndex {
+  readonly logPath: string;
+  readonly indexPath: string;
+
+  // Records in log order (first occurrence of each event id)
+  private records: IndexRecord[] = [];
+  private byId = new Map<string, IndexRecord>();
+  // Records sorted by created_at/id, overall and per kind/author/tag value
+  private sorted: IndexRecord[] = [];
+  private postings = new Map<string, IndexRecord[]>();
+
+  // Rotated archives as they were when indexed
+  private archives: ArchiveInfo[] = [];
+  private archiveCache = new Map<number, Buffer>();
+
+  // Bytes of the active log indexed so far
+  private indexedSize = 0;
+  private headLength = 0;
+  private headHash = '';
+  private inode = 0;
+  private loaded = false;
+  private dirty = false;
+  private lastPersist = 0;
+
+  constructor(logPath: string) {
+    this.logPath = logPath;
+    this.indexPath = logPath.replace(/\.jsonl$/, '') + '.index.json';
+  }
+
+  /**
+   * Query the log, newest first
+   */
+  query(filter: NostrEventFilter = {}): NostrEventPage {
+    this.refresh();
+
+    const candidates = this.candidates(filter);
+
+    let end = candidates.length;
+    if (filter.cursor) {
+      const cursor = decodeCursor(filter.cursor);
+      if (cursor) end = Math.min(end, countBefore(candidates, cursor));
+    }
+    if (filter.until !== undefined) {
+      end = Math.min(end, countUntil(candidates, filter.until));
+    }
+
+    const limit = filter.limit !== undefined && filter.limit >= 0 ? filter.limit : Infinity;
+    const matches: IndexRecord[] = [];
+    for (let i = end - 1; i >= 0 && matches.length <= limit; i--) {
+      const record = candidates[i];
+      if (filter.since !== undefined && record.created_at < filter.since) break;
+      if (this.matches(record, filter)) matches.push(record);
+    }
+
+    const hasMore = matches.length > limit;
+    const page = hasMore ? matches.slice(0, limit) : matches;
+
+    return {
+      entries: this.readEntries(page),
+      nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  /**
+   * All entries in log order
+   */
+  all(): GlobalEventEntry[] {
+    this.refresh();
+    return this.readEntries(this.records);
+  }
+
+  /**
+   * Number of events per kind
+   */
+  countByKind(): Record<number, number> {
+    this.refresh();
+    const counts: Record<number, number> = {};
+    for (const [key, list] of this.postings) {
+      if (key.startsWith('kind:')) {
+        counts[parseInt(key.slice(5), 10)] = list.length;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Unique author pubkeys, in the order they first appear in the log
+   */
+  pubkeys(): string[] {
+    this.refresh();
+    const pubkeys = new Set<string>();
+    for (const record of this.records) {
+      pubkeys.add(record.pubkey);
+    }
+    return Array.from(pubkeys);
+  }
+
+  get size(): number {
+    this.refresh();
+    return this.records.length;
+  }
+
+  // ==========================================================================
+  // Query helpers
+  // ==========================================================================
+
+  /**
+   * Smallest sorted list that contains every match
+   */
+  private candidates(filter: NostrEventFilter): IndexRecord[] {
+    const options: IndexRecord[][] = [];
+
+    if (filter.ids && filter.ids.length > 0) {
+      const records = filter.ids
+        .map((id) => this.byId.get(id))
+        .filter((r): r is IndexRecord => r !== undefined);
+      options.push(records.sort(compareRecords));
+    }
+
+    const fields: [string, (string | number)[] | undefined][] = [
+      ['kind', filter.kinds],
+      ['author', filter.authors],
+      ['e', filter['#e']],
+      ['p', filter['#p']],
+      ['d', filter['#d']],
+    ];
+    for (const [field, values] of fields) {
+      if (values && values.length > 0) {
+        options.push(this.union(values.map((v) => `${field}:${v}`)));
+      }
+    }
+
+    if (options.length === 0) {
+      return this.sorted;
+    }
+    return options.reduce((smallest, list) => (list.length < smallest.length ? list : smallest));
+  }
+
+  private union(keys: string[]): IndexRecord[] {
+    const lists = keys.map((key) => this.postings.get(key) || []);
+    if (lists.length === 1) {
+      return lists[0];
+    }
+
+    const seen = new Set<IndexRecord>();
+    const merged: IndexRecord[] = [];
+    for (const list of lists) {
+      for (const record of list) {
+        if (!seen.has(record)) {
+          seen.add(record);
+          merged.push(record);
+        }
+      }
+    }
+    return merged.sort(compareRecords);
+  }
+
+  private matches(record: IndexRecord, filter: NostrEventFilter): boolean {
+    const anyOf = <T>(values: T[] | undefined, check: (value: T) => boolean) =>
+      !values || values.length === 0 || values.some(check);
+
+    return (
+      anyOf(filter.ids, (id) => id === record.id) &&
+      anyOf(filter.kinds, (kind) => kind === record.kind) &&
+      anyOf(filter.authors, (author) => author === record.pubkey) &&
+      anyOf(filter['#e'], (id) => !!record.e?.includes(id)) &&
+      anyOf(filter['#p'], (pubkey) => !!record.p?.includes(pubkey)) &&
+      anyOf(filter['#d'], (d) => record.d === d)
+    );
+  }
+
+  private readEntries(records: IndexRecord[]): GlobalEventEntry[] {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const entries: GlobalEventEntry[] = [];
+    let fd: number | null = null;
+    try {
+      for (const record of records) {
+        let line: Buffer;
+        if (record.segment === ACTIVE_SEGMENT) {
+          fd ??= openSync(this.logPath, 'r');
+          line = Buffer.alloc(record.length);
+          readSync(fd, line, 0, record.length, record.offset);
+        } else {
+          line = this.archiveContent(record.segment).subarray(record.offset, record.offset + record.length);
+        }
+
+        const entry = parseLine(line.toString('utf-8'));
+        if (entry) entries.push(entry);
+      }
+    } finally {
+      if (fd !== null) closeSync(fd);
+    }
+    return entries;
+  }
+
+  /**
+   * Decompressed content of an archive (only the last one read is kept)
+   */
+  private archiveContent(segment: number): Buffer {
+    let content = this.archiveCache.get(segment);
+    if (!content) {
+      content = readLogSegment(path.join(path.dirname(this.logPath), this.archives[segment].name));
+      this.archiveCache = new Map([[segment, content]]);
+    }
+    return content;
+  }
+
+  // ==========================================================================
+  // Indexing
+  // ==========================================================================
+
+  private reset(): void {
+    this.records = [];
+    this.byId = new Map();
+    this.sorted = [];
+    this.postings = new Map();
+    this.archives = [];
+    this.archiveCache = new Map();
+    this.indexedSize = 0;
+    this.headLength = 0;
+    this.headHash = '';
+    this.dirty = false;
+  }
+
+  private addRecord(record: IndexRecord): void {
+    if (this.byId.has(record.id)) {
+      return;
+    }
+
+    this.records.push(record);
+    this.byId.set(record.id, record);
+    insertSorted(this.sorted, record);
+
+    const keys = [`kind:${record.kind}`, `author:${record.pubkey}`];
+    record.e?.forEach((id) => keys.push(`e:${id}`));
+    record.p?.forEach((pubkey) => keys.push(`p:${pubkey}`));
+    if (record.d !== undefined) keys.push(`d:${record.d}`);
+
+    for (const key of new Set(keys)) {
+      let list = this.postings.get(key);
+      if (!list) {
+        list = [];
+        this.postings.set(key, list);
+      }
+      insertSorted(list, record);
+    }
+  }
+
+  /**
+   * Check whether the file still starts with the first line we indexed
+   */
+  private headMatches(fd: number): boolean {
+    if (this.headLength === 0) {
+      return true;
+    }
+    const buffer = Buffer.alloc(this.headLength);
+    const bytesRead = readSync(fd, buffer, 0, this.headLength, 0);
+    return bytesRead === this.headLength && hashHead(buffer) === this.headHash;
+  }
+
+  private statArchives(): ArchiveInfo[] {
+    const archives: ArchiveInfo[] = [];
+    for (const archivePath of listLogArchives(this.logPath)) {
+      try {
+        const stat = statSync(archivePath);
+        archives.push({ name: path.basename(archivePath), size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Pruned while listing
+      }
+    }
+    return archives;
+  }
+
+  /**
+   * Start over from the archives (after a rotation, compaction or a
+   * replaced log)
+   */
+  private reindexArchives(archives: ArchiveInfo[]): void {
+    this.reset();
+    this.archives = archives;
+    archives.forEach((archive, segment) => {
+      const content = readLogSegment(path.join(path.dirname(this.logPath), archive.name));
+      this.indexBuffer(content, 0, segment, true);
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Bring the index up to date with the log
+   */
+  private refresh(): void {
+    const archives = this.statArchives();
+    const active = existsSync(this.logPath) ? statSync(this.logPath) : null;
+
+    if (!this.loaded) {
+      this.loaded = true;
+      this.loadPersisted(archives, active?.size ?? 0);
+      this.inode = active?.ino ?? 0;
+    }
+
+    if (!sameArchives(archives, this.archives)) {
+      this.reindexArchives(archives);
+      this.inode = active?.ino ?? 0;
+    }
+
+    if (!active) {
+      if (this.indexedSize > 0) {
+        this.reindexArchives(archives);
+      }
+    } else {
+      const fd = openSync(this.logPath, 'r');
+      try {
+        if (active.ino !== this.inode || active.size < this.indexedSize || !this.headMatches(fd)) {
+          this.reindexArchives(archives);
+          this.inode = active.ino;
+        }
+
+        if (active.size > this.indexedSize) {
+          this.indexRange(fd, this.indexedSize, active.size);
+        }
+      } finally {
+        closeSync(fd);
+      }
+    }
+
+    this.persistIfDue();
+  }
+
+  /**
+   * Index the complete lines between two byte offsets of the active log
+   * A trailing line without newline is still being written: left for later
+   */
+  private indexRange(fd: number, start: number, end: number): void {
+    let position = start;
+    let pending = Buffer.alloc(0);
+    let pendingOffset = start;
+
+    while (position < end) {
+      const chunk = Buffer.alloc(Math.min(READ_CHUNK_BYTES, end - position));
+      const bytesRead = readSync(fd, chunk, 0, chunk.length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const buffer = pending.length > 0 ? Buffer.concat([pending, chunk.subarray(0, bytesRead)]) : chunk.subarray(0, bytesRead);
+      const consumed = this.indexBuffer(buffer, pendingOffset, ACTIVE_SEGMENT, false);
+
+      pending = Buffer.from(buffer.subarray(consumed));
+      pendingOffset += consumed;
+    }
+
+    if (this.indexedSize !== pendingOffset) {
+      this.indexedSize = pendingOffset;
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Index the lines of a buffer that starts at baseOffset in its segment
+   *
+   * @param final - Also index a last line without newline (archives are complete)
+   * @returns Number of bytes consumed
+   */
+  private indexBuffer(buffer: Buffer, baseOffset: number, segment: number, final: boolean): number {
+    let lineStart = 0;
+    let newline = buffer.indexOf(NEWLINE, lineStart);
+
+    while (newline !== -1) {
+      this.indexLine(buffer.subarray(lineStart, newline), baseOffset + lineStart, segment);
+      lineStart = newline + 1;
+      newline = buffer.indexOf(NEWLINE, lineStart);
+    }
+
+    if (final && lineStart < buffer.length) {
+      this.indexLine(buffer.subarray(lineStart), baseOffset + lineStart, segment);
+      lineStart = buffer.length;
+    }
+
+    return lineStart;
+  }
+
+  private indexLine(line: Buffer, offset: number, segment: number): void {
+    if (segment === ACTIVE_SEGMENT && this.headLength === 0 && offset === 0) {
+      this.headLength = Math.min(line.length + 1, HEAD_BYTES);
+      this.headHash = hashHead(Buffer.concat([line, Buffer.from('\n')]).subarray(0, this.headLength));
+    }
+
+    if (line.length === 0) {
+      return;
+    }
+
+    const entry = parseLine(line.toString('utf-8'));
+    if (!entry || !entry.event.id || !entry.event.pubkey) {
+      return;
+    }
+
+    const { event } = entry;
+    this.addRecord({
+      id: event.id,
+      kind: event.kind,
+      pubkey: event.pubkey,
+      created_at: event.created_at,
+      segment,
+      offset,
+      length: line.length,
+      e: tagValues(event, 'e'),
+      p: tagValues(event, 'p'),
+      d: tagValues(event, 'd')?.[0],
+    });
+  }
+
+  // ==========================================================================
+  // Persistence
+  // ==========================================================================
+
+  private loadPersisted(archives: ArchiveInfo[], logSize: number): void {
+    try {
+      if (!existsSync(this.indexPath)) return;
+
+      const persisted = JSON.parse(readFileSync(this.indexPath, 'utf-8')) as PersistedIndex;
+      if (
+        persisted.version !== INDEX_VERSION ||
+        persisted.logSize > logSize ||
+        !sameArchives(persisted.archives, archives)
+      ) {
+        return;
+      }
+
+      this.reset();
+      this.archives = persisted.archives;
+      this.headLength = persisted.headLength;
+      this.headHash = persisted.headHash;
+      for (const [id, kind, pubkey, created_at, segment, offset, length, e, p, d] of persisted.records) {
+        // Missing tags are stored as null in JSON
+        this.addRecord({
+          id,
+          kind,
+          pubkey,
+          created_at,
+          segment,
+          offset,
+          length,
+          e: e || undefined,
+          p: p || undefined,
+          d: d ?? undefined,
+        });
+      }
+      this.indexedSize = persisted.logSize;
+      this.lastPersist = Date.now();
+    } catch (error) {
+      console.warn('[NostrEventIndex] Ignoring unreadable index', this.indexPath, error);
+      this.reset();
+    }
+  }
+
+  private persistIfDue(): void {
+    if (
+      !this.dirty ||
+      this.records.length < PERSIST_MIN_RECORDS ||
+      Date.now() - this.lastPersist < PERSIST_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    const persisted: PersistedIndex = {
+      version: INDEX_VERSION,
+      archives: this.archives,
+      logSize: this.indexedSize,
+      headLength: this.headLength,
+      headHash: this.headHash,
+      records: this.records.map((r) => {
+        const compact: PersistedRecord = [r.id, r.kind, r.pubkey, r.created_at, r.segment, r.offset, r.length];
+        if (r.e || r.p || r.d !== undefined) compact.push(r.e, r.p, r.d);
+        return compact;
+      }),
+    };
+
+    try {
+      atomicWriteFileSync(this.indexPath, JSON.stringify(persisted));
+      this.dirty = false;
+      this.lastPersist = Date.now();
+    } catch (error) {
+      console.warn('[NostrEventIndex] Failed to persist index', this.indexPath, error);
+    }
+  }
+}
+
+/**
+ * Build a filter from API query parameters
+ *
+ * ids, kinds, pubkeys, e, p and d are comma-separated lists. Invalid numbers
+ * are ignored and the limit is capped at maxLimit.
+ */
+export function parseEventFilterParams(
+  searchParams: URLSearchParams,
+  options: { defaultLimit: number; maxLimit: number }
+): NostrEventFilter {
+  const list = (name: string): string[] | undefined => {
+    const values = (searchParams.get(name) || '').split(',').map(v => v.trim()).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+  const integer = (name: string): number | undefined => {
+    const value = parseInt(searchParams.get(name) || '', 10);
+    return isNaN(value) ? undefined : value;
+  };
+
+  const kinds = list('kinds')?.map(k => parseInt(k, 10)).filter(k => !isNaN(k));
+  const limit = integer('limit');
+
+  return {
+    ids: list('ids'),
+    kinds: kinds && kinds.length > 0 ? kinds : undefined,
+    authors: list('pubkeys'),
+    '#e': list('e'),
+    '#p': list('p'),
+    '#d': list('d'),
+    since: integer('since'),
+    until: integer('until'),
+    cursor: searchParams.get('cursor') || undefined,
+    limit: Math.min(Math.max(limit ?? options.defaultLimit, 1), options.maxLimit),
+  };
+}
+
+// One index per log file, shared by all callers in this process
+const indexes = new Map<string, NostrEventIndex>();
+
+/**
+ * Get the index for a log file
+ */
+export function getEventIndex(logPath: string): NostrEventIndex {
+  let index = indexes.get(logPath);
+  if (!index) {
+    index = new NostrEventIndex(logPath);
+    indexes.set(logPath, index);
+  }
+  return index;
+}
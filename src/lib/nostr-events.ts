@@ -12,8 +12,8 @@ import {
   nip19
 } from 'nostr-tools';
 
-// Re-export NostrEvent type for convenience
-export type { NostrEvent };
+// Re-export event types for convenience
+export type { NostrEvent, EventTemplate };
 
 /**
  * NOSTR event kinds used in the app
@@ -26,7 +26,10 @@ export const NOSTR_KINDS = {
   RELAY_LIST: 10002,    // NIP-65: Relay list metadata
   PAYMENT_REQUEST: 1734, // Token payment request (regular kind, stored by relays)
   PAYMENT_RECEIPT: 1735, // Token payment receipt (regular kind, stored by relays)
+  BADGE_REBIND: 1736,   // Badge re-binding announcement (old serial revoked, new serial linked)
+  INVOICE: 1737,        // Token request from one villager to another, paid with a kind 1734 transfer
   CALENDAR_EVENT: 31922, // NIP-52: Calendar event (date-based)
+  HTTP_AUTH: 27235,     // NIP-98: HTTP Auth (signed API requests)
 } as const;
 
 /**
@@ -142,6 +145,32 @@ export function createProfileEvent(
     [key: string]: unknown;
   }
 ): NostrEvent {
+  const event = buildProfileEvent(profile);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Profile event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
+  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createProfileEvent(), for signing with a Signer
+ */
+export function buildProfileEvent(
+  profile: {
+    name?: string;
+    username?: string;
+    about?: string;
+    picture?: string;
+    relays?: string[];
+    // Allow additional custom fields (talkAbout, helpWith, links, etc.)
+    [key: string]: unknown;
+  }
+): EventTemplate {
   console.log('[NOSTR] Creating profile event (kind 0)...');
   console.log('[NOSTR] Profile data:', profile);
 
@@ -166,14 +195,7 @@ export function createProfileEvent(
     content: JSON.stringify(content),
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Profile event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
-  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -195,6 +217,23 @@ export function createRelayListEvent(
   secretKey: Uint8Array,
   relays: string[]
 ): NostrEvent {
+  const event = buildRelayListEvent(relays);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Relay list event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Relays count:', relays.length);
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createRelayListEvent(), for signing with a Signer
+ */
+export function buildRelayListEvent(
+  relays: string[]
+): EventTemplate {
   console.log('[NOSTR] Creating relay list event (kind 10002)...');
   console.log('[NOSTR] Relays:', relays);
 
@@ -209,13 +248,7 @@ export function createRelayListEvent(
     content: '', // NIP-65 specifies empty content
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Relay list event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Relays count:', relays.length);
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -238,6 +271,23 @@ export function createContactListEvent(
   secretKey: Uint8Array,
   contacts: Array<{ pubkey: string; relay?: string; petname?: string }>
 ): NostrEvent {
+  const event = buildContactListEvent(contacts);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Contact list event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Contacts count:', contacts.length);
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createContactListEvent(), for signing with a Signer
+ */
+export function buildContactListEvent(
+  contacts: Array<{ pubkey: string; relay?: string; petname?: string }>
+): EventTemplate {
   console.log('[NOSTR] Creating contact list event (kind 3)...');
   console.log('[NOSTR] Contacts count:', contacts.length);
 
@@ -260,13 +310,7 @@ export function createContactListEvent(
     content: '', // NIP-02 specifies empty content (legacy field)
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Contact list event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Contacts count:', contacts.length);
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -293,6 +337,8 @@ export interface CalendarEventOptions {
   status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
   /** Reference to related event ID (optional) */
   relatedEventId?: string;
+  /** npubs of co-authors, who share the RSVP rewards (optional) */
+  coAuthors?: string[];
 }
 
 /**
@@ -319,6 +365,27 @@ export function createCalendarEventClient(
   secretKey: Uint8Array,
   options: CalendarEventOptions
 ): NostrEvent {
+  const event = buildCalendarEvent(options);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Calendar event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Pubkey:', signedEvent.pubkey);
+  console.log('[NOSTR]   Kind:', signedEvent.kind);
+  console.log('[NOSTR]   Tags:', JSON.stringify(signedEvent.tags));
+  console.log('[NOSTR]   Content:', signedEvent.content);
+  console.log('[NOSTR]   Full event:', JSON.stringify(signedEvent));
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createCalendarEventClient(), for signing with a Signer
+ */
+export function buildCalendarEvent(
+  options: CalendarEventOptions
+): EventTemplate {
   console.log('[NOSTR] Creating calendar event (kind 31922)...');
   console.log('[NOSTR] Calendar event:', {
     dTag: options.dTag,
@@ -361,6 +428,13 @@ export function createCalendarEventClient(
     eventTags.push(['e', options.relatedEventId, '', 'related']);
   }
 
+  // Add co-authors (raw hex pubkey in p-tag, like offer events)
+  if (options.coAuthors && options.coAuthors.length > 0) {
+    options.coAuthors.forEach(npub => {
+      eventTags.push(['p', npubToHex(npub), '', 'author']);
+    });
+  }
+
   // Add topic tags
   if (options.tags && options.tags.length > 0) {
     options.tags.forEach(tag => {
@@ -375,17 +449,7 @@ export function createCalendarEventClient(
     content: options.description,
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Calendar event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Pubkey:', signedEvent.pubkey);
-  console.log('[NOSTR]   Kind:', signedEvent.kind);
-  console.log('[NOSTR]   Tags:', JSON.stringify(signedEvent.tags));
-  console.log('[NOSTR]   Content:', signedEvent.content);
-  console.log('[NOSTR]   Full event:', JSON.stringify(signedEvent));
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -431,6 +495,25 @@ export function createOfferEvent(
   secretKey: Uint8Array,
   offer: OfferEventOptions
 ): NostrEvent {
+  const event = buildOfferEvent(offer);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Offer event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
+  console.log('[NOSTR]   Tags:', event.tags.length);
+  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createOfferEvent(), for signing with a Signer
+ */
+export function buildOfferEvent(
+  offer: OfferEventOptions
+): EventTemplate {
   console.log('[NOSTR] Creating offer event (kind 1)...');
   console.log('[NOSTR] Offer data:', {
     title: offer.title,
@@ -485,15 +568,7 @@ export function createOfferEvent(
     content: `${offer.title}\n\n${offer.description}`,
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Offer event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
-  console.log('[NOSTR]   Tags:', tags.length);
-  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -518,6 +593,25 @@ export function createRSVPEvent(
   offerEventId: string,
   author: string
 ): NostrEvent {
+  const event = buildRSVPEvent(offerEventId, author);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] RSVP event created and signed:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
+  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createRSVPEvent(), for signing with a Signer
+ */
+export function buildRSVPEvent(
+  offerEventId: string,
+  author: string
+): EventTemplate {
   console.log('[NOSTR] Creating RSVP event (kind 7)...');
   console.log('[NOSTR] RSVP data:', {
     offerEventId,
@@ -537,14 +631,7 @@ export function createRSVPEvent(
     content: '🎟️',
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] RSVP event created and signed:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Created at:', new Date(signedEvent.created_at * 1000).toISOString());
-  console.log('[NOSTR]   Signature:', signedEvent.sig.substring(0, 16) + '...');
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -566,6 +653,17 @@ export function createRSVPCancellationEvent(
   secretKey: Uint8Array,
   rsvpEventId: string
 ): NostrEvent {
+  const event = buildRSVPCancellationEvent(rsvpEventId);
+
+  return finalizeEvent(event, secretKey);
+}
+
+/**
+ * Build the unsigned event for createRSVPCancellationEvent(), for signing with a Signer
+ */
+export function buildRSVPCancellationEvent(
+  rsvpEventId: string
+): EventTemplate {
   const event: EventTemplate = {
     kind: NOSTR_KINDS.REACTION,
     created_at: Math.floor(Date.now() / 1000),
@@ -575,7 +673,72 @@ export function createRSVPCancellationEvent(
     content: '❌',
   };
 
-  return finalizeEvent(event, secretKey);
+  return event;
+}
+
+/**
+ * Create a NIP-98 Authorization header for an API request
+ * The kind 27235 event commits to the absolute URL, the method and,
+ * when there is one, the SHA-256 of the exact request body
+ *
+ * @param secretKey - User's secret key
+ * @param url - Absolute request URL (including query string)
+ * @param method - HTTP method
+ * @param body - Request body as sent (string bodies only)
+ * @returns The header value: "Nostr <base64 event>"
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify({ offerId });
+ * const authorization = await createHttpAuthHeader(secretKey, 'https://app.example/api/rsvp', 'POST', body);
+ * await fetch('/api/rsvp', { method: 'POST', headers: { Authorization: authorization }, body });
+ * ```
+ */
+export async function createHttpAuthHeader(
+  secretKey: Uint8Array,
+  url: string,
+  method: string,
+  body?: string
+): Promise<string> {
+  const event = await buildHttpAuthEvent(url, method, body);
+  return encodeHttpAuthHeader(finalizeEvent(event, secretKey));
+}
+
+/**
+ * Build the unsigned event for createHttpAuthHeader(), for signing with a Signer
+ */
+export async function buildHttpAuthEvent(
+  url: string,
+  method: string,
+  body?: string
+): Promise<EventTemplate> {
+  const tags = [
+    ['u', url],
+    ['method', method.toUpperCase()],
+  ];
+
+  if (body) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+    const payloadHash = Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+    tags.push(['payload', payloadHash]);
+  }
+
+  return {
+    kind: NOSTR_KINDS.HTTP_AUTH,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: '',
+  };
+}
+
+/**
+ * Encode a signed kind 27235 event as an Authorization header value
+ */
+export function encodeHttpAuthHeader(event: NostrEvent): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(event));
+  return `Nostr ${btoa(String.fromCharCode(...bytes))}`;
 }
 
 /**
@@ -603,6 +766,14 @@ export function storeSecretKey(nsec: string): void {
   localStorage.setItem('osv_nsec', nsec);
 }
 
+/**
+ * Remove the stored nsec (when switching to an external signer)
+ */
+export function clearStoredSecretKey(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem('osv_nsec');
+}
+
 /**
  * Retrieve nsec from localStorage
  *
@@ -700,6 +871,20 @@ export function parseOfferEvent(event: NostrEvent): OfferEventOptions | null {
   };
 }
 
+/**
+ * Get the co-authors tagged in an offer or calendar event (['p', pubkey, '', 'author'])
+ *
+ * @returns npubs of the co-authors, without the event author
+ */
+export function getEventCoAuthors(event: Pick<NostrEvent, 'pubkey' | 'tags'>): string[] {
+  const author = pubkeyTagToNpub(event.pubkey);
+  const coAuthors = event.tags
+    .filter(([key, value, , marker]) => key === 'p' && marker === 'author' && value)
+    .map(([, value]) => pubkeyTagToNpub(value))
+    .filter((npub) => npub !== author);
+  return Array.from(new Set(coAuthors));
+}
+
 // ============================================================================
 // Payment Events (Custom kinds 1734/1735 for token payments)
 // ============================================================================
@@ -708,6 +893,7 @@ export function parseOfferEvent(event: NostrEvent): OfferEventOptions | null {
  * Chain IDs for supported networks
  */
 export const CHAIN_IDS: Record<string, number> = {
+  memory: 1337, // Simulated token, see token-backend.ts
   localhost: 31337,
   local: 31337, // Alias for localhost
   gnosis: 100,
@@ -815,11 +1001,23 @@ export interface PaymentRequestOptions {
   /** Related event ID (e.g., offer ID for RSVP) */
   relatedEventId?: string;
   /** Context of the payment */
-  context: 'rsvp' | 'tip' | 'transfer' | 'offer_creation' | 'badge_claim' | 'refund' | 'workshop_proposal' | 'booking' | 'need';
+  context: 'rsvp' | 'tip' | 'transfer' | 'offer_creation' | 'badge_claim' | 'refund' | 'workshop_proposal' | 'booking' | 'need' | 'admin_adjustment' | 'escrow_release' | 'escrow_refund' | 'invoice';
   /** Human-readable description */
   description?: string;
   /** Method: mint (create new tokens), transfer (move existing tokens), or burn (destroy tokens) */
   method: 'mint' | 'transfer' | 'burn';
+  /** Set when this payment is one author's share of a reward (see lib/rewards.ts) */
+  split?: PaymentSplit;
+}
+
+/**
+ * A reward split between the authors of an offer
+ */
+export interface PaymentSplit {
+  /** Amount in tokens before the split */
+  total: number;
+  /** Number of authors sharing it */
+  shares: number;
 }
 
 /**
@@ -871,6 +1069,25 @@ export function createPaymentRequestEvent(
   secretKey: Uint8Array,
   options: PaymentRequestOptions
 ): NostrEvent {
+  const event = buildPaymentRequestEvent(options);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Payment request event created:');
+  console.log('[NOSTR]   Event ID:', signedEvent.id);
+  console.log('[NOSTR]   Method:', options.method);
+  console.log('[NOSTR]   Payment URL:', event.tags.find((t) => t[0] === 'paymentUrl')?.[1]);
+  console.log('[NOSTR]   Amount:', options.amount, options.tokenSymbol || 'tokens');
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createPaymentRequestEvent(), for signing with a Signer
+ */
+export function buildPaymentRequestEvent(
+  options: PaymentRequestOptions
+): EventTemplate {
   console.log('[NOSTR] Creating payment request event (kind 1734)...');
   console.log('[NOSTR] Payment request:', {
     method: options.method,
@@ -882,7 +1099,7 @@ export function createPaymentRequestEvent(
 
   // Convert amount to smallest unit (assuming 6 decimals for CHT)
   const TOKEN_DECIMALS = 6;
-  const amountInSmallestUnit = BigInt(Math.floor(options.amount * 10 ** TOKEN_DECIMALS));
+  const amountInSmallestUnit = BigInt(Math.round(options.amount * 10 ** TOKEN_DECIMALS));
 
   const isBurn = options.method === 'burn';
 
@@ -950,6 +1167,11 @@ export function createPaymentRequestEvent(
     }
   }
 
+  // Add the reward split: total in smallest unit and number of shares
+  if (options.split) {
+    tags.push(['split', String(Math.round(options.split.total * 10 ** TOKEN_DECIMALS)), String(options.split.shares)]);
+  }
+
   // Deduplicate tags to avoid duplicates
   const dedupedTags = deduplicateTags(tags);
 
@@ -962,15 +1184,7 @@ export function createPaymentRequestEvent(
     content,
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Payment request event created:');
-  console.log('[NOSTR]   Event ID:', signedEvent.id);
-  console.log('[NOSTR]   Method:', options.method);
-  console.log('[NOSTR]   Payment URL:', paymentUrl);
-  console.log('[NOSTR]   Amount:', options.amount, options.tokenSymbol || 'tokens');
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -1133,6 +1347,7 @@ export function parsePaymentRequestEvent(event: NostrEvent): PaymentRequestOptio
 
   const TOKEN_DECIMALS = 6;
   const amountInTokens = Number(BigInt(amount)) / 10 ** TOKEN_DECIMALS;
+  const splitTag = event.tags.find(t => t[0] === 'split');
 
   return {
     recipient,
@@ -1143,10 +1358,12 @@ export function parsePaymentRequestEvent(event: NostrEvent): PaymentRequestOptio
     tokenAddress,
     chainId: parseInt(chainId, 10),
     tokenSymbol: tags.get('symbol'),
-    relatedEventId: event.tags.find(t => t[0] === 'e' && t[3] === 'related')?.[1],
+    // Offer ids aren't event ids, those are referenced with an 'r' tag
+    relatedEventId: event.tags.find(t => t[0] === 'e' && t[3] === 'related')?.[1] ?? tags.get('r'),
     context,
     description: event.content,
     method,
+    split: splitTag ? { total: Number(splitTag[1]) / 10 ** TOKEN_DECIMALS, shares: parseInt(splitTag[2], 10) } : undefined,
   };
 }
 
@@ -1206,6 +1423,116 @@ export function parsePaymentReceiptEvent(event: NostrEvent): {
   };
 }
 
+/**
+ * Options for creating an invoice event (kind 1737)
+ */
+export interface InvoiceEventOptions {
+  /** Requester's npub (the villager who gets paid) */
+  requester: string;
+  /** Requester's 0x wallet address (Safe address) */
+  requesterAddress: string;
+  /** Payer's npub, omitted for requests shown as a QR code that anyone can pay */
+  payer?: string;
+  /** Amount in tokens (will be converted to smallest unit) */
+  amount: number;
+  /** Token contract address */
+  tokenAddress: string;
+  /** Chain ID */
+  chainId: number;
+  /** Token symbol (e.g., 'CHT') */
+  tokenSymbol?: string;
+  /** Memo shown to the payer */
+  description?: string;
+  /** Unix timestamp after which the request can't be paid */
+  expiresAt?: number;
+}
+
+/**
+ * Build an invoice event (kind 1737), for signing with the requester's Signer
+ *
+ * The payer is tagged with 'p' so the request shows in their notifications,
+ * and 'expiration' (NIP-40) lets relays drop it once it expires. Paying it is
+ * a kind 1734 transfer to the requester that references the invoice with an
+ * 'e' tag marked 'related' (see lib/invoices.ts).
+ */
+export function buildInvoiceEvent(
+  options: InvoiceEventOptions
+): EventTemplate {
+  console.log('[NOSTR] Creating invoice event (kind 1737)...');
+
+  const TOKEN_DECIMALS = 6;
+  const amountInSmallestUnit = BigInt(Math.round(options.amount * 10 ** TOKEN_DECIMALS));
+
+  const tags: string[][] = [
+    ['amount', String(amountInSmallestUnit)],
+    ['paymentUrl', createEIP681PaymentUrl(
+      options.tokenAddress,
+      options.requesterAddress,
+      amountInSmallestUnit,
+      options.chainId,
+      'transfer'
+    )],
+    ['chain', String(options.chainId)],
+    ['token', options.tokenAddress],
+    ['toAddress', options.requesterAddress],
+  ];
+
+  if (options.payer) {
+    tags.push(['p', npubToHex(options.payer)]);
+  }
+  if (options.tokenSymbol) {
+    tags.push(['symbol', options.tokenSymbol]);
+  }
+  if (options.expiresAt) {
+    tags.push(['expiration', String(options.expiresAt)]);
+  }
+
+  return {
+    kind: NOSTR_KINDS.INVOICE,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: options.description || `Request for ${options.amount} ${options.tokenSymbol || 'tokens'}`,
+  };
+}
+
+/**
+ * Parse an invoice event (kind 1737)
+ *
+ * @param event - The NOSTR event to parse
+ * @returns Parsed invoice or null if invalid
+ */
+export function parseInvoiceEvent(event: NostrEvent): InvoiceEventOptions | null {
+  if (event.kind !== NOSTR_KINDS.INVOICE) {
+    return null;
+  }
+
+  const tags = new Map(event.tags.map(t => [t[0], t[1]]));
+  const amount = tags.get('amount');
+  const tokenAddress = tags.get('token');
+  const chainId = tags.get('chain');
+  const requesterAddress = tags.get('toAddress');
+  const payerPubkey = tags.get('p');
+  const expiration = tags.get('expiration');
+
+  if (!amount || !/^\d+$/.test(amount) || !tokenAddress || !chainId || !requesterAddress) {
+    return null;
+  }
+
+  const TOKEN_DECIMALS = 6;
+
+  return {
+    requester: pubkeyTagToNpub(event.pubkey),
+    requesterAddress,
+    payer: payerPubkey ? pubkeyTagToNpub(payerPubkey) : undefined,
+    amount: Number(BigInt(amount)) / 10 ** TOKEN_DECIMALS,
+    tokenAddress,
+    chainId: parseInt(chainId, 10),
+    tokenSymbol: tags.get('symbol'),
+    description: event.content,
+    expiresAt: expiration ? parseInt(expiration, 10) : undefined,
+  };
+}
+
 // ============================================================================
 // Human-readable activity events (kind 1 notes and kind 7 reactions)
 // These are published IN ADDITION to the structured events above, so that
@@ -1268,6 +1595,22 @@ export function createNoteEvent(
   secretKey: Uint8Array,
   options: NoteEventOptions
 ): NostrEvent {
+  const event = buildNoteEvent(options);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Note event created:', signedEvent.id);
+  console.log('[NOSTR]   Content:', options.content.substring(0, 100) + (options.content.length > 100 ? '...' : ''));
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createNoteEvent(), for signing with a Signer
+ */
+export function buildNoteEvent(
+  options: NoteEventOptions
+): EventTemplate {
   console.log('[NOSTR] Creating note event (kind 1)...');
 
   const tags: string[][] = [];
@@ -1290,12 +1633,7 @@ export function createNoteEvent(
     content: options.content,
   };
 
-  const signedEvent = finalizeEvent(event, secretKey);
-
-  console.log('[NOSTR] Note event created:', signedEvent.id);
-  console.log('[NOSTR]   Content:', options.content.substring(0, 100) + (options.content.length > 100 ? '...' : ''));
-
-  return signedEvent;
+  return event;
 }
 
 /**
@@ -1322,6 +1660,23 @@ export function createReactionEvent(
   secretKey: Uint8Array,
   options: ReactionEventOptions
 ): NostrEvent {
+  const event = buildReactionEvent(options);
+
+  const signedEvent = finalizeEvent(event, secretKey);
+
+  console.log('[NOSTR] Reaction event created:', signedEvent.id);
+  console.log('[NOSTR]   Reaction:', options.content);
+  console.log('[NOSTR]   To event:', options.referencedEventId);
+
+  return signedEvent;
+}
+
+/**
+ * Build the unsigned event for createReactionEvent(), for signing with a Signer
+ */
+export function buildReactionEvent(
+  options: ReactionEventOptions
+): EventTemplate {
   console.log('[NOSTR] Creating reaction event (kind 7)...');
 
   const authorPubkeyHex = npubToHex(options.authorPubkey);
@@ -1336,11 +1691,60 @@ export function createReactionEvent(
     content: options.content,
   };
 
+  return event;
+}
+
+/**
+ * Options for announcing a badge re-binding (kind 1736)
+ */
+export interface BadgeRebindEventOptions {
+  /** Owner of the badges (npub or hex) */
+  owner: string;
+  /** Serial number that was revoked */
+  revokedSerialNumber: string;
+  /** Serial number now linked to the owner */
+  serialNumber: string;
+  /** Why the old badge was revoked (e.g. 'lost') */
+  reason: string;
+  /** Admin who vouched for the owner (npub or hex), if the owner didn't sign the request */
+  vouchedBy?: string;
+}
+
+/**
+ * Create a badge re-binding announcement (kind 1736)
+ * Signed by the server, so other clients can stop trusting the revoked
+ * serial number and map the new one to the owner.
+ *
+ * @param secretKey - Server's NOSTR secret key (32 bytes)
+ * @param options - Re-binding details
+ * @returns Signed NOSTR event
+ */
+export function createBadgeRebindEvent(
+  secretKey: Uint8Array,
+  options: BadgeRebindEventOptions
+): NostrEvent {
+  console.log('[NOSTR] Creating badge rebind event (kind 1736)...');
+
+  const tags: string[][] = [
+    ['p', npubToHex(options.owner)],
+    ['serial', options.serialNumber],
+    ['revoked', options.revokedSerialNumber],
+    ['reason', options.reason],
+  ];
+  if (options.vouchedBy) {
+    tags.push(['P', npubToHex(options.vouchedBy), '', 'voucher']);
+  }
+
+  const event: EventTemplate = {
+    kind: NOSTR_KINDS.BADGE_REBIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: `Badge ${options.revokedSerialNumber} revoked (${options.reason}), replaced by ${options.serialNumber}`,
+  };
+
   const signedEvent = finalizeEvent(event, secretKey);
 
-  console.log('[NOSTR] Reaction event created:', signedEvent.id);
-  console.log('[NOSTR]   Reaction:', options.content);
-  console.log('[NOSTR]   To event:', options.referencedEventId);
+  console.log('[NOSTR] Badge rebind event created:', signedEvent.id);
 
   return signedEvent;
 }
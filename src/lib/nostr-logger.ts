@@ -7,11 +7,14 @@
  * Events are logged for:
  * - The author of the event (event.pubkey)
  * - All npubs mentioned in p tags
+ *
+ * Reads go through an index per log file (see nostr-event-index.ts)
  */
 
-import { appendFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
+import { appendFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { nip19 } from 'nostr-tools';
+import { getEventIndex, type NostrEventFilter, type NostrEventPage } from './nostr-event-index';
 
 /**
  * NOSTR Event type (simplified for our needs)
@@ -123,16 +126,6 @@ export function logNostrEventToAll(event: NostrEvent): void {
   }
 }
 
-/**
- * Event log entry format (from record-nostr-events.ts)
- */
-interface EventLogEntry {
-  timestamp: string;
-  source: string;
-  mentioned?: boolean;
-  event: NostrEvent;
-}
-
 /**
  * Read all NOSTR events for a user by npub
  *
@@ -141,57 +134,26 @@ interface EventLogEntry {
  * - Old format: {"id": "...", "pubkey": "...", ...} (raw event)
  *
  * @param npub - User's NOSTR public key in npub format
- * @returns Array of NOSTR events
+ * @returns Array of NOSTR events, in log order
  */
 export function readNostrEvents(npub: string): NostrEvent[] {
-  const logFile = getLogFilePath(npub);
-
   try {
-    if (!existsSync(logFile)) {
-      return [];
-    }
-
-    const content = readFileSync(logFile, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.length > 0);
-
-    // Parse events and deduplicate by event ID
-    const eventsMap = new Map<string, NostrEvent>();
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-
-        // Handle new wrapped format: { timestamp, source, event }
-        // Check if it has an 'event' property with an 'id'
-        let event: NostrEvent;
-        if (parsed.event && typeof parsed.event === 'object' && parsed.event.id) {
-          event = parsed.event as NostrEvent;
-        } else if (parsed.id && parsed.pubkey) {
-          // Old format: raw event
-          event = parsed as NostrEvent;
-        } else {
-          // Unknown format, skip
-          continue;
-        }
-
-        // Validate event has required fields
-        if (!event.id || !event.pubkey) {
-          continue;
-        }
-
-        // Use Map to deduplicate by event ID (in case same event was logged multiple times)
-        eventsMap.set(event.id, event);
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    return Array.from(eventsMap.values());
-  } catch (error) {
-    // File doesn't exist yet or is empty
+    return getEventIndex(getLogFilePath(npub)).all().map(entry => entry.event);
+  } catch {
     return [];
   }
 }
 
+/**
+ * Query a user's NOSTR events (newest first, paginated)
+ *
+ * @param npub - User's NOSTR public key in npub format
+ * @param filter - NIP-01 style filter with since/until/limit/cursor
+ */
+export function queryNostrEventsByNpub(npub: string, filter: NostrEventFilter = {}): NostrEventPage {
+  return getEventIndex(getLogFilePath(npub)).query(filter);
+}
+
 /**
  * Read NOSTR events by hex pubkey (converts to npub internally)
  *
@@ -211,16 +173,8 @@ export function readNostrEventsByPubkey(pubkey: string): NostrEvent[] {
  * @returns The most recent event of that kind, or null
  */
 export function getLatestEventByKind(npub: string, kind: number): NostrEvent | null {
-  const events = readNostrEvents(npub);
-  const filtered = events.filter(event => event.kind === kind);
-
-  if (filtered.length === 0) {
-    return null;
-  }
-
-  // Sort by created_at descending and return first
-  filtered.sort((a, b) => b.created_at - a.created_at);
-  return filtered[0];
+  const { entries } = queryNostrEventsByNpub(npub, { kinds: [kind], limit: 1 });
+  return entries[0]?.event || null;
 }
 
 /**
@@ -231,14 +185,7 @@ export function getLatestEventByKind(npub: string, kind: number): NostrEvent | n
  * @returns Object mapping event kinds to counts
  */
 export function countEventsByKind(npub: string): Record<number, number> {
-  const events = readNostrEvents(npub);
-  const counts: Record<number, number> = {};
-
-  for (const event of events) {
-    counts[event.kind] = (counts[event.kind] || 0) + 1;
-  }
-
-  return counts;
+  return getEventIndex(getLogFilePath(npub)).countByKind();
 }
 
 // ============================================================================
@@ -246,11 +193,7 @@ export function countEventsByKind(npub: string): Record<number, number> {
 // ============================================================================
 
 /**
- * Read all NOSTR events from the global events file
- * Used by /nostr page to display all events
- *
- * @param options - Query options for filtering/pagination
- * @returns Array of NOSTR events with metadata
+ * Entry in the global events file (written by nostr-listener)
  */
 export interface GlobalEventEntry {
   timestamp: string;
@@ -259,65 +202,42 @@ export interface GlobalEventEntry {
   event: NostrEvent;
 }
 
+/**
+ * Get the path of the global events file
+ */
+function getGlobalLogFilePath(): string {
+  return join(getDataDir(), 'nostr_events.jsonl');
+}
+
+/**
+ * Query the global events file (newest first, paginated)
+ * Used by /api/nostr/events and /api/activity
+ *
+ * @param filter - NIP-01 style filter with since/until/limit/cursor
+ */
+export function queryNostrEvents(filter: NostrEventFilter = {}): NostrEventPage {
+  return getEventIndex(getGlobalLogFilePath()).query(filter);
+}
+
+/**
+ * Read NOSTR events from the global events file, newest first
+ *
+ * @deprecated Use queryNostrEvents (cursor pagination instead of offset)
+ */
 export function readAllNostrEvents(options?: {
   limit?: number;
   offset?: number;
   kinds?: number[];
   pubkeys?: string[];
 }): GlobalEventEntry[] {
-  const dataDir = getDataDir();
-  const allEventsFile = join(dataDir, 'nostr_events.jsonl');
-
   try {
-    if (!existsSync(allEventsFile)) {
-      return [];
-    }
-
-    const content = readFileSync(allEventsFile, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.length > 0);
-
-    // Parse all events
-    let entries: GlobalEventEntry[] = [];
-    const seenEventIds = new Set<string>();
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line) as GlobalEventEntry;
-
-        // Skip duplicates
-        if (seenEventIds.has(parsed.event.id)) {
-          continue;
-        }
-        seenEventIds.add(parsed.event.id);
-
-        // Apply kind filter
-        if (options?.kinds && options.kinds.length > 0) {
-          if (!options.kinds.includes(parsed.event.kind)) {
-            continue;
-          }
-        }
-
-        // Apply pubkey filter (hex pubkey)
-        if (options?.pubkeys && options.pubkeys.length > 0) {
-          if (!options.pubkeys.includes(parsed.event.pubkey)) {
-            continue;
-          }
-        }
-
-        entries.push(parsed);
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    // Sort by timestamp descending (newest first)
-    entries.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-    // Apply pagination
     const offset = options?.offset || 0;
-    const limit = options?.limit || entries.length;
-
-    return entries.slice(offset, offset + limit);
+    const { entries } = queryNostrEvents({
+      kinds: options?.kinds,
+      authors: options?.pubkeys,
+      limit: options?.limit !== undefined ? offset + options.limit : undefined,
+    });
+    return entries.slice(offset);
   } catch {
     return [];
   }
@@ -328,29 +248,8 @@ export function readAllNostrEvents(options?: {
  * Used for the filter dropdown on /nostr page
  */
 export function getUniquePubkeys(): string[] {
-  const dataDir = getDataDir();
-  const allEventsFile = join(dataDir, 'nostr_events.jsonl');
-
   try {
-    if (!existsSync(allEventsFile)) {
-      return [];
-    }
-
-    const content = readFileSync(allEventsFile, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.length > 0);
-
-    const pubkeys = new Set<string>();
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line) as GlobalEventEntry;
-        pubkeys.add(parsed.event.pubkey);
-      } catch {
-        // Skip malformed lines
-      }
-    }
-
-    return Array.from(pubkeys);
+    return getEventIndex(getGlobalLogFilePath()).pubkeys();
   } catch {
     return [];
   }
@@ -10,8 +10,9 @@
 
 'use client';
 
-import { finalizeEvent, getPublicKey, nip19, type EventTemplate } from 'nostr-tools';
+import { getPublicKey, nip19, type EventTemplate } from 'nostr-tools';
 import { verifyNostrEvent, NOSTR_KINDS, type NostrEvent } from './nostr-events';
+import { toSigner, type Signer } from './signer';
 
 // Re-export from nostr-events for convenience
 export { NOSTR_KINDS, type NostrEvent } from './nostr-events';
@@ -281,7 +282,7 @@ export async function publishEvent(
   relayUrl: string,
   event: NostrEvent,
   timeout = RESPONSE_TIMEOUT,
-  secretKey?: Uint8Array
+  secretKey?: Uint8Array | Signer
 ): Promise<PublishResult> {
   console.log(`[NOSTR:publish] ========== PUBLISHING EVENT ==========`);
   console.log(`[NOSTR:publish] Relay: ${relayUrl}`);
@@ -335,15 +336,18 @@ export async function publishEvent(
           if (secretKey && !authSent) {
             const authChallenge = rest[0];
             console.log(`[NOSTR:publish] Responding to AUTH challenge: ${authChallenge.slice(0, 20)}...`);
-            const authEvent = finalizeEvent({
+            authSent = true;
+            toSigner(secretKey).signEvent({
               kind: 22242,
               created_at: Math.floor(Date.now() / 1000),
               tags: [['challenge', authChallenge], ['relay', relayUrl]],
               content: '',
-            }, secretKey);
-            authSent = true;
-            console.log(`[NOSTR:publish] Sending AUTH event: ${authEvent.id?.slice(0, 8)}`);
-            ws.send(JSON.stringify(['AUTH', authEvent]));
+            }).then((authEvent) => {
+              console.log(`[NOSTR:publish] Sending AUTH event: ${authEvent.id?.slice(0, 8)}`);
+              ws.send(JSON.stringify(['AUTH', authEvent]));
+            }).catch((err) => {
+              console.log(`[NOSTR:publish] Failed to sign AUTH event:`, err);
+            });
           } else {
             console.log(`[NOSTR:publish] Cannot respond to AUTH: no secretKey or already sent`);
           }
@@ -415,7 +419,7 @@ export async function publishEvent(
   });
 }
 
-export async function publishToAllRelays(event: NostrEvent, secretKey?: Uint8Array): Promise<{
+export async function publishToAllRelays(event: NostrEvent, secretKey?: Uint8Array | Signer): Promise<{
   successful: string[];
   failed: Array<{ url: string; error: string }>;
 }> {
@@ -443,6 +447,7 @@ export interface NostrFilter {
   kinds?: number[];
   '#e'?: string[];
   '#p'?: string[];
+  '#P'?: string[];
   since?: number;
   until?: number;
   limit?: number;
@@ -504,7 +509,7 @@ export interface InviteResult {
   error?: string;
 }
 
-export async function redeemInviteCode(inviteCode: string, secretKey: Uint8Array): Promise<{ success: boolean; error?: string }> {
+export async function redeemInviteCode(inviteCode: string, secretKey: Uint8Array | Signer): Promise<{ success: boolean; error?: string }> {
   const relayUrl = getPrimaryRelayUrl();
   const backoff = isRelayInBackoff(relayUrl);
   if (backoff.inBackoff) return { success: false, error: `Rate limited, retry in ${backoff.waitTime}s` };
@@ -518,7 +523,7 @@ export async function redeemInviteCode(inviteCode: string, secretKey: Uint8Array
     tags: [['claim', inviteCode]],
     content: '',
   };
-  const event = finalizeEvent(template, secretKey);
+  const event = await toSigner(secretKey).signEvent(template);
   const ws = conn.ws;
 
   return new Promise((resolve) => {
@@ -539,7 +544,7 @@ export async function redeemInviteCode(inviteCode: string, secretKey: Uint8Array
   });
 }
 
-export async function requestInviteCode(secretKey: Uint8Array): Promise<InviteResult> {
+export async function requestInviteCode(secretKey: Uint8Array | Signer): Promise<InviteResult> {
   const relayUrl = getPrimaryRelayUrl();
   console.log('[InviteCode] Starting request to relay:', relayUrl);
   if (!relayUrl) {
@@ -588,15 +593,19 @@ export async function requestInviteCode(secretKey: Uint8Array): Promise<InviteRe
         if (type === 'AUTH' && typeof rest[0] === 'string') {
           authChallenge = rest[0];
           console.log('[InviteCode] Got AUTH challenge:', authChallenge.substring(0, 20) + '...');
-          const authEvent = finalizeEvent({
+          authSent = true;
+          toSigner(secretKey).signEvent({
             kind: 22242,
             created_at: Math.floor(Date.now() / 1000),
             tags: [['challenge', authChallenge], ['relay', relayUrl]],
             content: '',
-          }, secretKey);
-          authSent = true;
-          ws.send(JSON.stringify(['AUTH', authEvent]));
-          console.log('[InviteCode] AUTH event sent, id:', authEvent.id.substring(0, 16));
+          }).then((authEvent) => {
+            ws.send(JSON.stringify(['AUTH', authEvent]));
+            console.log('[InviteCode] AUTH event sent, id:', authEvent.id.substring(0, 16));
+          }).catch((err) => {
+            clearTimeout(timer);
+            finish({ success: false, error: `Auth failed: ${err instanceof Error ? err.message : String(err)}` });
+          });
         } else if (type === 'OK' && authChallenge) {
           console.log('[InviteCode] Got OK response for:', rest[0]?.substring?.(0, 16), 'success:', rest[1], 'msg:', rest[2]);
           if (rest[1]) {
@@ -647,22 +656,6 @@ export async function requestInviteCode(secretKey: Uint8Array): Promise<InviteRe
   });
 }
 
-export async function getOrRequestInviteCode(secretKey: Uint8Array): Promise<InviteResult> {
-  console.log('[InviteCode] getOrRequestInviteCode called');
-  const stored = localStorage.getItem('osv_invite_code');
-  if (stored && /^[0-9a-f]{192}$/i.test(stored)) {
-    console.log('[InviteCode] Found valid stored invite code');
-    return { success: true, inviteCode: stored };
-  }
-  console.log('[InviteCode] No stored code, requesting from relay...');
-  const result = await requestInviteCode(secretKey);
-  if (result.success && result.inviteCode) {
-    console.log('[InviteCode] Got invite code, storing in localStorage');
-    localStorage.setItem('osv_invite_code', result.inviteCode);
-  }
-  return result;
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Status
 // ─────────────────────────────────────────────────────────────────────────────
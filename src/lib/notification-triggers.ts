@@ -20,7 +20,7 @@ import {
   createTransactionConfirmedNotification,
 } from './notifications';
 import { StorageProfile, Offer } from '@/types';
-import { getProfileByNpub } from './storage';
+import { getStorageBackend } from './storage-backend';
 
 // ============================================================================
 // Token Transfer Notifications
@@ -42,7 +42,7 @@ export async function notifyTokenTransfer(params: {
     // Load sender profile to get username
     let senderUsername: string | undefined;
     try {
-      const senderProfile = await getProfileByNpub(params.fromNpub);
+      const senderProfile = await getStorageBackend().getProfileByNpub(params.fromNpub);
       senderUsername = senderProfile?.username;
     } catch {
       // Profile doesn't exist, use npub
@@ -127,7 +127,7 @@ export async function notifyWorkshopCancelled(params: {
     // Load author profile
     let authorUsername: string | undefined;
     try {
-      const authorProfile = await getProfileByNpub(params.author);
+      const authorProfile = await getStorageBackend().getProfileByNpub(params.author);
       authorUsername = authorProfile?.username;
     } catch {
       // Use npub
@@ -173,7 +173,7 @@ export async function notifyWorkshopRsvp(params: {
     // Load RSVP user profile
     let rsvpUsername: string | undefined;
     try {
-      const rsvpUserProfile = await getProfileByNpub(params.rsvpUserNpub);
+      const rsvpUserProfile = await getStorageBackend().getProfileByNpub(params.rsvpUserNpub);
       rsvpUsername = rsvpUserProfile?.username;
     } catch {
       // Use npub
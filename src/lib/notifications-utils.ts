@@ -17,6 +17,7 @@ export type NotificationType =
   | 'transaction_confirmed';
 
 export interface Notification {
+  schemaVersion?: number; // see schema-migrations.ts
   id: string;
   type: NotificationType;
   recipient: string;
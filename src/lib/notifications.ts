@@ -7,7 +7,8 @@
  * - RSVP notifications (for workshop authors)
  * - Transaction confirmations
  *
- * Storage: JSONL format in profiles/{npub}/notifications.jsonl
+ * Storage: through the storage backend (JSONL in npubs/{npub}/notifications.jsonl
+ * for the file backend)
  * @see specs/screens.md#10-notifications-center
  *
  * NOTE: For client-side code, import from '@/lib/notifications-utils' instead.
@@ -31,14 +32,11 @@ export {
 
 // Import types for use in this file
 import type { Notification, NotificationStats, NotificationType } from './notifications-utils';
-import { getDataDir } from './storage';
-import * as path from 'path';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const NOTIFICATION_FILE = 'notifications.jsonl';
 const MAX_NOTIFICATIONS_PER_USER = 100;
 
 // ============================================================================
@@ -53,10 +51,12 @@ function generateNotificationId(): string {
 }
 
 /**
- * Get notification file path for user (full path)
+ * Get the storage backend
+ * Dynamic import to avoid bundling fs in client code
  */
-function getNotificationFilePath(npub: string): string {
-  return path.join(getDataDir(), 'npubs', npub, NOTIFICATION_FILE);
+async function getBackend() {
+  const { getStorageBackend } = await import('./storage-backend');
+  return getStorageBackend();
 }
 
 /**
@@ -65,11 +65,8 @@ function getNotificationFilePath(npub: string): string {
  */
 export async function loadNotifications(npub: string): Promise<Notification[]> {
   try {
-    // Dynamic import to avoid bundling fs in client code
-    const { readJsonLines } = await import('./storage');
-    const notifications = await readJsonLines<Notification>(
-      getNotificationFilePath(npub)
-    );
+    const backend = await getBackend();
+    const notifications = await backend.getNotifications(npub);
 
     // Sort by createdAt descending (newest first)
     return notifications.sort((a, b) =>
@@ -86,10 +83,8 @@ export async function loadNotifications(npub: string): Promise<Notification[]> {
  * Note: This is a server-side only function
  */
 async function saveNotification(notification: Notification): Promise<void> {
-  // Dynamic import to avoid bundling fs in client code
-  const { appendJsonLine } = await import('./storage');
-  const filePath = getNotificationFilePath(notification.recipient);
-  await appendJsonLine(filePath, notification);
+  const backend = await getBackend();
+  await backend.addNotification(notification);
 }
 
 /**
@@ -105,15 +100,9 @@ export async function cleanupOldNotifications(npub: string): Promise<void> {
   // Keep only the most recent notifications
   const toKeep = notifications.slice(0, MAX_NOTIFICATIONS_PER_USER);
 
-  // Rewrite the file with only the notifications to keep
-  const fs = await import('fs/promises');
-  const filePath = getNotificationFilePath(npub);
-
-  await fs.writeFile(
-    filePath,
-    toKeep.map(n => JSON.stringify(n)).join('\n') + '\n',
-    'utf-8'
-  );
+  // Rewrite the feed with only the notifications to keep
+  const backend = await getBackend();
+  await backend.replaceNotifications(npub, toKeep);
 }
 
 // ============================================================================
@@ -326,15 +315,9 @@ export async function markNotificationAsRead(
   // Update notification
   notification.read = true;
 
-  // Rewrite file with updated notification
-  const fs = await import('fs/promises');
-  const filePath = getNotificationFilePath(npub);
-
-  await fs.writeFile(
-    filePath,
-    notifications.map(n => JSON.stringify(n)).join('\n') + '\n',
-    'utf-8'
-  );
+  // Rewrite feed with updated notification
+  const backend = await getBackend();
+  await backend.replaceNotifications(npub, notifications);
 
   return true;
 }
@@ -355,15 +338,9 @@ export async function markAllNotificationsAsRead(npub: string): Promise<number>
     n.read = true;
   });
 
-  // Rewrite file
-  const fs = await import('fs/promises');
-  const filePath = getNotificationFilePath(npub);
-
-  await fs.writeFile(
-    filePath,
-    notifications.map(n => JSON.stringify(n)).join('\n') + '\n',
-    'utf-8'
-  );
+  // Rewrite feed
+  const backend = await getBackend();
+  await backend.replaceNotifications(npub, notifications);
 
   return unreadCount;
 }
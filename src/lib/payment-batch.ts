@@ -0,0 +1,92 @@
+/**
+ * Batched mints and transfers for the payment processor
+ *
+ * With PAYMENT_BATCH_WINDOW_MS set, the payment processor waits that long
+ * after a request comes in, then submits the pending mints and transfers of
+ * each token together: one transaction per batch, through the token's batch
+ * methods (see TokenBackend). Each request still gets its own receipt
+ * (kind 1735), all carrying the batch's txHash.
+ *
+ * Burns, and tokens that can't batch, are submitted one at a time as before.
+ * Only MemoryToken (CHAIN=memory) has batch methods so far: the chain tokens
+ * from @opencollective/token-factory don't, so batching has no effect there.
+ * A batch that reverts is retried one request at a time, so a single bad
+ * request (e.g. an overdraft) doesn't fail the others.
+ */
+
+import type { TokenBackend } from './token-backend';
+
+export type BatchMethod = 'mint' | 'transfer';
+
+export interface BatchPayment {
+  requestId: string; // kind 1734 event id
+  method: BatchMethod;
+  chainId: number;
+  tokenAddress: string;
+  sender: string; // npub
+  recipient: string; // npub
+  amount: number; // In tokens
+}
+
+export const DEFAULT_MAX_BATCH_SIZE = 50;
+
+export function isBatchMethod(method: string | undefined): method is BatchMethod {
+  return method === 'mint' || method === 'transfer';
+}
+
+/**
+ * Whether a token can submit a batch of mints or transfers
+ */
+export function canBatch(token: TokenBackend, method: BatchMethod): boolean {
+  return typeof (method === 'mint' ? token.batchMintTo : token.batchTransfer) === 'function';
+}
+
+/**
+ * Group payments into batches: same chain, token and method, in arrival order,
+ * at most maxSize per batch
+ */
+export function groupPaymentBatches(payments: BatchPayment[], maxSize: number = DEFAULT_MAX_BATCH_SIZE): BatchPayment[][] {
+  const groups = new Map<string, BatchPayment[]>();
+  for (const payment of payments) {
+    const key = `${payment.chainId}:${payment.tokenAddress.toLowerCase()}:${payment.method}`;
+    const group = groups.get(key) || [];
+    group.push(payment);
+    groups.set(key, group);
+  }
+
+  const batches: BatchPayment[][] = [];
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i += maxSize) {
+      batches.push(group.slice(i, i + maxSize));
+    }
+  }
+  return batches;
+}
+
+/**
+ * Submit a batch as one transaction
+ *
+ * @returns The transaction hash
+ */
+export async function sendPaymentBatch(token: TokenBackend, batch: BatchPayment[]): Promise<string> {
+  const [first] = batch;
+  if (!first || batch.some((payment) => payment.method !== first.method)) {
+    throw new Error('A batch needs payments with the same method');
+  }
+
+  let txHash: string | null = null;
+  if (first.method === 'mint' && token.batchMintTo) {
+    txHash = await token.batchMintTo(batch.map(({ amount, recipient }) => ({ amount, to: `nostr:${recipient}` })));
+  } else if (first.method === 'transfer' && token.batchTransfer) {
+    txHash = await token.batchTransfer(
+      batch.map(({ amount, sender, recipient }) => ({ from: `nostr:${sender}`, to: `nostr:${recipient}`, amount }))
+    );
+  } else {
+    throw new Error(`Token can't batch ${first.method}s`);
+  }
+
+  if (!txHash || txHash === '0x0') {
+    throw new Error(`Batch ${first.method} returned no transaction hash`);
+  }
+  return txHash;
+}
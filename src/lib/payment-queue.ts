@@ -0,0 +1,204 @@
+/**
+ * Payment processor work queue
+ *
+ * Every payment request (kind 1734) the payment processor receives becomes a
+ * job in DATA_DIR/paymentProcessor/queue.jsonl, so that nothing is lost when a
+ * relay or the RPC node hiccups, or the processor restarts:
+ *
+ *   received -> submitting -> submitted -> confirmed
+ *                    |
+ *                    +-> failed (dead letter)
+ *
+ * - received: waiting to be submitted
+ * - submitting: the token operation is in flight, with the nonce it was assigned
+ * - submitted: the transaction went through (txHash), the receipt isn't published yet
+ * - confirmed: the receipt was published
+ * - failed: rejected, or out of retries. Failed jobs are the dead letters,
+ *   until an admin replays them (npm run replay-payments)
+ *
+ * A job interrupted while submitting can't tell whether its transaction went
+ * out, so it is dead-lettered on restart rather than submitted twice.
+ *
+ * The log is append-only: the latest entry per request wins.
+ */
+
+import path from 'path';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { withLock } from './file-lock';
+import type { NostrEvent } from './nostr-events';
+
+export type PaymentJobStatus = 'received' | 'submitting' | 'submitted' | 'confirmed' | 'failed';
+
+export interface PaymentJob {
+  requestId: string; // kind 1734 event id
+  event: NostrEvent;
+  status: PaymentJobStatus;
+  attempts: number; // Submission attempts so far
+  receivedAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  nonce?: number; // Nonce assigned to the last submission attempt, not set on CHAIN=memory
+  txHash?: string;
+  error?: string; // Last error
+  replays?: number; // Times an admin replayed the job from the dead letters
+}
+
+export type PaymentJobUpdate = Partial<Pick<PaymentJob, 'status' | 'attempts' | 'nonce' | 'txHash' | 'error'>>;
+
+/**
+ * Errors worth retrying: the RPC node or network, and nonce collisions
+ * Anything else (insufficient balance, reverted transaction, ...) fails right away.
+ */
+const RETRYABLE_ERROR =
+  /nonce|replacement transaction|already known|timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed|network|rate limit|too many requests|\b(429|502|503|504)\b/i;
+
+export function isRetryablePaymentError(error: Error): boolean {
+  return RETRYABLE_ERROR.test(error.message);
+}
+
+const UNCERTAIN_OUTCOME = 'the transaction may have gone through, check the chain before replaying';
+
+/**
+ * The error of a job that failed without knowing whether its transaction went out
+ */
+export function uncertainOutcomeError(reason: string): string {
+  return `${reason}: ${UNCERTAIN_OUTCOME}`;
+}
+
+function getQueuePath(): string {
+  return path.join(getDataDir(), 'paymentProcessor', 'queue.jsonl');
+}
+
+async function readJobs(): Promise<Map<string, PaymentJob>> {
+  const jobs = new Map<string, PaymentJob>();
+  for (const entry of await readJsonLines<PaymentJob>(getQueuePath())) {
+    jobs.set(entry.requestId, entry);
+  }
+  return jobs;
+}
+
+/**
+ * Add a payment request to the queue
+ *
+ * @returns The new job, or null if the request was already queued
+ */
+export async function enqueuePayment(event: NostrEvent): Promise<PaymentJob | null> {
+  return withLock(getQueuePath(), async () => {
+    if ((await readJobs()).has(event.id)) return null;
+
+    const now = new Date().toISOString();
+    const job: PaymentJob = {
+      requestId: event.id,
+      event,
+      status: 'received',
+      attempts: 0,
+      receivedAt: now,
+      updatedAt: now,
+    };
+    await appendJsonLine(getQueuePath(), job);
+    return job;
+  });
+}
+
+/**
+ * Get a job by payment request id
+ */
+export async function getPaymentJob(requestId: string): Promise<PaymentJob | null> {
+  return (await readJobs()).get(requestId) || null;
+}
+
+/**
+ * List jobs, oldest first
+ *
+ * @param statuses - Only return jobs in one of these states
+ */
+export async function listPaymentJobs(statuses?: PaymentJobStatus[]): Promise<PaymentJob[]> {
+  return Array.from((await readJobs()).values())
+    .filter((job) => !statuses || statuses.includes(job.status))
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+}
+
+/**
+ * List the dead letters: jobs that were rejected or ran out of retries
+ */
+export async function listDeadLetters(): Promise<PaymentJob[]> {
+  return listPaymentJobs(['failed']);
+}
+
+/**
+ * Record a job's progress
+ *
+ * @returns The updated job, or null if it isn't queued
+ */
+export async function updatePaymentJob(requestId: string, update: PaymentJobUpdate): Promise<PaymentJob | null> {
+  return withLock(getQueuePath(), async () => {
+    const job = (await readJobs()).get(requestId);
+    if (!job) return null;
+
+    const updated: PaymentJob = { ...job, ...update, updatedAt: new Date().toISOString() };
+    await appendJsonLine(getQueuePath(), updated);
+    return updated;
+  });
+}
+
+/**
+ * Dead-letter the jobs a previous run left in flight
+ * Called on startup, before processing anything.
+ *
+ * @returns The jobs that were dead-lettered
+ */
+export async function recoverInterruptedJobs(): Promise<PaymentJob[]> {
+  const interrupted = await listPaymentJobs(['submitting']);
+  const recovered: PaymentJob[] = [];
+  for (const job of interrupted) {
+    const updated = await updatePaymentJob(job.requestId, {
+      status: 'failed',
+      error: uncertainOutcomeError(`Interrupted while submitting${job.nonce !== undefined ? ` with nonce ${job.nonce}` : ''}`),
+    });
+    if (updated) recovered.push(updated);
+  }
+  return recovered;
+}
+
+/**
+ * Whether a job is a dead letter whose transaction may or may not have gone
+ * out: interrupted by a restart, or timed out (see uncertainOutcomeError())
+ */
+export function isUncertainJob(job: PaymentJob): boolean {
+  return job.status === 'failed' && (job.error || '').endsWith(UNCERTAIN_OUTCOME);
+}
+
+/**
+ * Put a dead letter back in the queue, with a fresh set of retries
+ *
+ * @returns The requeued job, or null if there is no failed job with this id
+ */
+export async function replayDeadLetter(requestId: string): Promise<PaymentJob | null> {
+  return withLock(getQueuePath(), async () => {
+    const job = (await readJobs()).get(requestId);
+    if (!job || job.status !== 'failed') return null;
+
+    const replayed: PaymentJob = {
+      ...job,
+      status: 'received',
+      attempts: 0,
+      nonce: undefined,
+      error: undefined,
+      replays: (job.replays || 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    await appendJsonLine(getQueuePath(), replayed);
+    return replayed;
+  });
+}
+
+/**
+ * created_at of the newest queued request, null if the queue is empty
+ * The processor resumes its relay subscription from there after a restart.
+ */
+export async function getLatestRequestTime(): Promise<number | null> {
+  let latest: number | null = null;
+  for (const job of (await readJobs()).values()) {
+    if (latest === null || job.event.created_at > latest) latest = job.event.created_at;
+  }
+  return latest;
+}
@@ -0,0 +1,72 @@
+/**
+ * Who may sign a payment request
+ *
+ * The payment processor (scripts/payment-processor.ts) only settles kind 1734
+ * requests signed by the party whose tokens they move:
+ * - mint: the server
+ * - burn: the server, or the sender burning their own tokens
+ * - transfer: the sender
+ *
+ * So the server can mint and burn for anyone, but never move a user's tokens
+ * to someone else: payments the server issues on a user's behalf (refunds,
+ * see refunds.ts) are a burn from that user plus a mint.
+ */
+
+import { getPublicKey, nip19 } from 'nostr-tools';
+import { parsePaymentRequestEvent, type NostrEvent } from './nostr-events';
+
+export type PaymentRequest = NonNullable<ReturnType<typeof parsePaymentRequestEvent>>;
+
+function npubToPubkey(npub: string): string | null {
+  try {
+    const decoded = nip19.decode(npub);
+    return decoded.type === 'npub' ? decoded.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a payment request and check that it is signed by an authorized party
+ *
+ * @param secretKey - The server's key
+ */
+export function validatePaymentRequest(
+  event: NostrEvent,
+  secretKey: Uint8Array
+): { request: PaymentRequest } | { error: string } {
+  const request = parsePaymentRequestEvent(event);
+  if (!request) {
+    console.error(`[PaymentProcessor] Failed to parse payment request: ${event.id}`);
+    return { error: 'Invalid payment request' };
+  }
+
+  const method = request.method || 'transfer';
+  const serverPubkey = getPublicKey(secretKey);
+  const senderPubkey = npubToPubkey(request.sender);
+  const isSignedByServer = event.pubkey === serverPubkey;
+  const isSignedBySender = senderPubkey !== null && event.pubkey === senderPubkey;
+
+  const authorized =
+    method === 'mint' ? isSignedByServer
+    : method === 'burn' ? isSignedByServer || isSignedBySender
+    : isSignedBySender;
+
+  if (!authorized) {
+    console.error(`[PaymentProcessor] REJECTED: ${method} request not signed by an authorized party`);
+    console.error(`[PaymentProcessor] Event details:`, {
+      eventId: event.id,
+      eventPubkey: event.pubkey,
+      serverPubkey,
+      senderPubkey,
+      method,
+      sender: request.sender,
+      recipient: request.recipient,
+      amount: request.amount,
+      context: request.context,
+    });
+    return { error: 'Payment request not signed by an authorized party' };
+  }
+
+  return { request };
+}
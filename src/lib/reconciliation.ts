@@ -0,0 +1,157 @@
+/**
+ * Balance reconciliation: on-chain balances versus payment receipts
+ *
+ * For every profile, recomputes the balance the receipts (kind 1735) say the
+ * villager should have, from the confirmed transactions of their ledger
+ * (see transactions.ts), and compares it with their balance on the chain.
+ *
+ * When the two disagree, the transactions without a successful receipt that
+ * move the balance in the direction of the difference are listed as
+ * candidates. The usual culprit is a payment processor crash between the
+ * transaction and its receipt: the request is then pending, and its job is
+ * submitted or dead-lettered in the payment queue (see payment-queue.ts).
+ *
+ * Nothing is changed: fixing a discrepancy is up to an admin (replaying the
+ * request, or adjusting the balance).
+ */
+
+import { getTransactions, type Transaction, type TransactionStatus } from './transactions';
+import { getPaymentJob, type PaymentJobStatus } from './payment-queue';
+import { getStorageBackend } from './storage-backend';
+import { getBalanceForNpub } from './token-factory';
+
+const TOKEN_DECIMALS = 6;
+
+export interface ReconciliationCandidate {
+  eventId: string; // Payment request event id
+  createdAt: number; // Unix timestamp of the request
+  method: Transaction['method'];
+  context: Transaction['context'];
+  direction: Transaction['direction'];
+  amount: number; // In tokens
+  status: TransactionStatus; // From the receipts
+  queueStatus?: PaymentJobStatus; // From the payment processor's queue, if it has the request
+  txHash?: string;
+  error?: string;
+  matchesDifference: boolean; // The amount alone accounts for the whole difference
+}
+
+export interface BalanceDiscrepancy {
+  npub: string;
+  username?: string;
+  expected: number; // In tokens, from the receipts
+  actual: number; // In tokens, on the chain
+  difference: number; // actual - expected
+  candidates: ReconciliationCandidate[];
+}
+
+export interface ReconciliationReport {
+  checkedAt: string; // ISO 8601
+  profiles: number;
+  matched: number;
+  discrepancies: BalanceDiscrepancy[];
+  errors: { npub: string; error: string }[]; // Profiles whose balance couldn't be fetched
+}
+
+export interface ReconciliationOptions {
+  /** Only reconcile these npubs (default: every profile) */
+  npubs?: string[];
+  /** On-chain balance in the token's smallest unit (default: getBalanceForNpub) */
+  getBalance?: (npub: string) => Promise<bigint>;
+}
+
+function toUnits(amount: number): bigint {
+  return BigInt(Math.round(amount * 10 ** TOKEN_DECIMALS));
+}
+
+function toTokens(units: bigint): number {
+  return Number(units) / 10 ** TOKEN_DECIMALS;
+}
+
+function signedUnits(transaction: Transaction): bigint {
+  const units = toUnits(transaction.amount);
+  return transaction.direction === 'in' ? units : -units;
+}
+
+/**
+ * Transactions that could explain a difference, the ones matching it exactly first
+ */
+async function findCandidates(transactions: Transaction[], difference: bigint): Promise<ReconciliationCandidate[]> {
+  const candidates: ReconciliationCandidate[] = [];
+
+  for (const transaction of transactions) {
+    if (transaction.status === 'confirmed') continue;
+
+    const units = signedUnits(transaction);
+    if (units > BigInt(0) !== difference > BigInt(0)) continue;
+
+    const job = await getPaymentJob(transaction.id);
+    candidates.push({
+      eventId: transaction.id,
+      createdAt: transaction.createdAt,
+      method: transaction.method,
+      context: transaction.context,
+      direction: transaction.direction,
+      amount: transaction.amount,
+      status: transaction.status,
+      queueStatus: job?.status,
+      txHash: transaction.txHash || job?.txHash,
+      error: transaction.error || job?.error,
+      matchesDifference: units === difference,
+    });
+  }
+
+  return candidates.sort(
+    (a, b) => Number(b.matchesDifference) - Number(a.matchesDifference) || a.createdAt - b.createdAt
+  );
+}
+
+/**
+ * Compare every profile's on-chain balance with its receipts
+ */
+export async function reconcileBalances(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+  const getBalance = options.getBalance || getBalanceForNpub;
+  const profiles = await getStorageBackend().getAllProfiles();
+  const usernames = new Map(profiles.map((profile) => [profile.npub, profile.username]));
+  const npubs = options.npubs || profiles.map((profile) => profile.npub);
+
+  const report: ReconciliationReport = {
+    checkedAt: new Date().toISOString(),
+    profiles: npubs.length,
+    matched: 0,
+    discrepancies: [],
+    errors: [],
+  };
+
+  for (const npub of npubs) {
+    let actual: bigint;
+    try {
+      actual = await getBalance(npub);
+    } catch (error) {
+      report.errors.push({ npub, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const { transactions } = await getTransactions(npub);
+    const expected = transactions
+      .filter((transaction) => transaction.status === 'confirmed')
+      .reduce((sum, transaction) => sum + signedUnits(transaction), BigInt(0));
+
+    const difference = actual - expected;
+    if (difference === BigInt(0)) {
+      report.matched++;
+      continue;
+    }
+
+    report.discrepancies.push({
+      npub,
+      username: usernames.get(npub),
+      expected: toTokens(expected),
+      actual: toTokens(actual),
+      difference: toTokens(difference),
+      candidates: await findCandidates(transactions, difference),
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,303 @@
+/**
+ * Refunds for cancelled workshops and bookings
+ *
+ * When an offer is cancelled (POST /api/offers/[id]/cancel):
+ * - The author gets the publication cost back, minted by the server
+ * - Every active RSVP holder gets their tokens back, minted by the server
+ *   (RSVPs paid into escrow are refunded from there instead, see escrow.ts,
+ *   including deposits whose release to the authors hadn't finished)
+ * - Each co-author's share of those RSVP rewards (see rewards.ts) is burned:
+ *   the server can't sign transfers from a user's account, only mints and
+ *   burns (see payment-validation.ts). If a co-author already spent their
+ *   share, the burn fails and the attendee is refunded anyway.
+ * Private bookings cancelled less than an hour before they start aren't refunded.
+ *
+ * Each refund is a kind 1734 payment request ("refund pending"). The payment
+ * processor answers with a kind 1735 receipt carrying the tx hash, which
+ * nostr-listener passes to settleRefund(). Attendees are notified that the
+ * workshop was cancelled once all their refunds settled (or right away when no
+ * refund could be issued).
+ *
+ * DATA_DIR/refunds.jsonl is append-only: the latest entry per request wins.
+ */
+
+import path from 'path';
+import type { Offer } from '@/types';
+import { getPublicKey, nip19 } from 'nostr-tools';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { getActiveRsvps } from './storage-backend';
+import { withLock } from './file-lock';
+import { CHAIN_IDS, createPaymentRequestEvent, decodeNsec } from './nostr-events';
+import { publishNostrEvent } from './nostr-server';
+import { getWalletAddressForNpub } from './token-factory';
+import { notifyWorkshopCancelled } from './notification-triggers';
+import { listEscrowDeposits } from './escrow';
+import { getRewardShares } from './rewards';
+
+export type RefundStatus = 'pending' | 'settled' | 'failed';
+
+export interface Refund {
+  requestId: string; // kind 1734 event id
+  offerId: string;
+  offerTitle: string;
+  author: string; // npub of the author who cancelled
+  reason: 'publication' | 'rsvp' | 'reclaim'; // reclaim: burn of a co-author's RSVP reward
+  sender: string; // npub: the server, or the co-author for reclaims
+  recipient: string; // npub: the co-author for reclaims
+  amount: number;
+  status: RefundStatus;
+  createdAt: string; // ISO 8601
+  txHash?: string;
+  error?: string;
+  settledAt?: string; // ISO 8601
+}
+
+export interface CancellationRefunds {
+  eligible: boolean;
+  author: number; // Tokens refunded to the author
+  attendees: number; // Attendees being refunded
+  refunds: Refund[];
+}
+
+function getRefundsLogPath(): string {
+  return path.join(getDataDir(), 'refunds.jsonl');
+}
+
+async function readRefunds(): Promise<Map<string, Refund>> {
+  const refunds = new Map<string, Refund>();
+  for (const entry of await readJsonLines<Refund>(getRefundsLogPath())) {
+    refunds.set(entry.requestId, entry);
+  }
+  return refunds;
+}
+
+// Get token info from environment variables
+function getTokenInfo(): { address: string; symbol: string; chainId: number } | null {
+  const address = process.env.TOKEN_ADDRESS;
+  if (!address) return null;
+
+  const chainName = process.env.CHAIN || 'gnosis';
+  const chainId = CHAIN_IDS[chainName] || CHAIN_IDS.gnosis;
+
+  return {
+    address,
+    symbol: process.env.TOKEN_SYMBOL || 'OSV',
+    chainId,
+  };
+}
+
+/**
+ * Whether cancelling an offer now refunds anyone
+ * Private bookings are only refunded when cancelled more than 1 hour before they start
+ */
+export function isEligibleForRefund(offer: Offer, now = new Date()): boolean {
+  if (offer.type !== 'private') return true;
+  const hoursUntilStart = offer.startTime
+    ? (new Date(offer.startTime).getTime() - now.getTime()) / (1000 * 60 * 60)
+    : 0;
+  return hoursUntilStart > 1;
+}
+
+/**
+ * List the refunds issued for an offer
+ */
+export async function listRefunds(offerId: string): Promise<Refund[]> {
+  return Array.from((await readRefunds()).values()).filter((refund) => refund.offerId === offerId);
+}
+
+/**
+ * Issue the refunds for a cancelled offer
+ *
+ * @param offer - The offer, already marked cancelled
+ * @param authorNpub - Author who receives the publication refund
+ */
+export async function refundCancelledOffer(offer: Offer, authorNpub: string): Promise<CancellationRefunds> {
+  const isPrivateBooking = offer.type === 'private';
+  const eligible = isEligibleForRefund(offer);
+  const escrowed = new Set(
+    (await listEscrowDeposits(offer.id))
+      .filter((deposit) => deposit.status !== 'released' && deposit.status !== 'refunded')
+      .map((deposit) => deposit.attendee)
+  );
+  const rsvps = isPrivateBooking ? [] : (await getActiveRsvps(offer.id)).filter((rsvp) => !escrowed.has(rsvp.npub));
+  const result: CancellationRefunds = { eligible, author: 0, attendees: 0, refunds: [] };
+
+  const nsec = process.env.NOSTR_NSEC;
+  const tokenInfo = getTokenInfo();
+
+  if (!eligible || !nsec || !tokenInfo) {
+    console.log(
+      eligible
+        ? '[Refunds] Skipping refunds - NOSTR_NSEC or token not configured'
+        : '[Refunds] Skipping refunds - private booking cancelled less than 1 hour before start'
+    );
+    await notifyAttendees(offer, authorNpub, rsvps.map((rsvp) => rsvp.npub));
+    return result;
+  }
+
+  const serverSecretKey = decodeNsec(nsec);
+  const serverNpub = nip19.npubEncode(getPublicKey(serverSecretKey));
+  const unrefunded: string[] = [];
+
+  const issue = async (refund: Omit<Refund, 'requestId' | 'status' | 'createdAt'>): Promise<Refund | null> => {
+    const recipientAddress = await getWalletAddressForNpub(refund.recipient);
+    if (!recipientAddress) {
+      console.error('[Refunds] No wallet address for', refund.recipient);
+      return null;
+    }
+
+    const event = createPaymentRequestEvent(serverSecretKey, {
+      recipient: refund.recipient,
+      recipientAddress,
+      sender: refund.sender,
+      amount: refund.amount,
+      tokenAddress: tokenInfo.address,
+      chainId: tokenInfo.chainId,
+      tokenSymbol: tokenInfo.symbol,
+      relatedEventId: offer.id,
+      context: 'refund',
+      method: refund.reason === 'reclaim' ? 'burn' : 'mint',
+      description: refund.reason === 'publication'
+        ? `Refund ${refund.amount} token${refund.amount !== 1 ? 's' : ''} for cancelled ${isPrivateBooking ? 'booking' : 'workshop'}: ${offer.title}`
+        : refund.reason === 'rsvp'
+          ? `Refund ${refund.amount} token${refund.amount !== 1 ? 's' : ''} for cancelled workshop RSVP: ${offer.title}`
+          : `Reclaim ${refund.amount} token${refund.amount !== 1 ? 's' : ''} of RSVP rewards for cancelled workshop: ${offer.title}`,
+    });
+
+    const pending: Refund = { ...refund, requestId: event.id, status: 'pending', createdAt: new Date().toISOString() };
+    await appendJsonLine(getRefundsLogPath(), pending);
+
+    publishNostrEvent(event).then((published) => {
+      console.log('[Refunds] Published refund request:', {
+        eventId: event.id,
+        recipient: refund.recipient.substring(0, 16) + '...',
+        amount: refund.amount,
+        published: published.published.length,
+      });
+    }).catch((err) => {
+      console.error('[Refunds] Failed to publish refund request:', err);
+    });
+
+    return pending;
+  };
+
+  try {
+    const authorRefund = await issue({
+      offerId: offer.id,
+      offerTitle: offer.title,
+      author: authorNpub,
+      reason: 'publication',
+      sender: serverNpub,
+      recipient: authorNpub,
+      amount: offer.publicationCost || 1,
+    });
+    if (authorRefund) {
+      result.author = authorRefund.amount;
+      result.refunds.push(authorRefund);
+    }
+  } catch (err) {
+    console.error('[Refunds] Failed to refund the author:', err);
+  }
+
+  for (const rsvp of rsvps) {
+    const amount = rsvp.tokensPaid || 1;
+
+    let refund: Refund | null = null;
+    try {
+      refund = await issue({
+        offerId: offer.id,
+        offerTitle: offer.title,
+        author: authorNpub,
+        reason: 'rsvp',
+        sender: serverNpub,
+        recipient: rsvp.npub,
+        amount,
+      });
+    } catch (err) {
+      console.error('[Refunds] Failed to refund attendee:', rsvp.npub, err);
+    }
+    if (!refund) {
+      unrefunded.push(rsvp.npub);
+      continue;
+    }
+    result.attendees++;
+    result.refunds.push(refund);
+
+    // Take back the reward each co-author got for this RSVP
+    for (const share of getRewardShares(offer, amount)) {
+      try {
+        const reclaim = await issue({
+          offerId: offer.id,
+          offerTitle: offer.title,
+          author: authorNpub,
+          reason: 'reclaim',
+          sender: share.npub,
+          recipient: share.npub,
+          amount: share.amount,
+        });
+        if (reclaim) result.refunds.push(reclaim);
+      } catch (err) {
+        console.error('[Refunds] Failed to reclaim the reward of:', share.npub, err);
+      }
+    }
+  }
+
+  await notifyAttendees(offer, authorNpub, unrefunded);
+
+  console.log('[Refunds] Refund requests issued:', {
+    offerId: offer.id,
+    author: result.author,
+    attendees: result.attendees,
+  });
+  return result;
+}
+
+/**
+ * Record the receipt of a refund and notify the attendee
+ * Receipts for requests that aren't refunds, or were already settled, are ignored.
+ *
+ * @returns The updated refund, or null if nothing changed
+ */
+export async function settleRefund(
+  requestId: string,
+  outcome: { success: boolean; txHash?: string; error?: string }
+): Promise<Refund | null> {
+  const settled = await withLock(getRefundsLogPath(), async () => {
+    const refund = (await readRefunds()).get(requestId);
+    if (!refund || refund.status !== 'pending') return null;
+
+    const updated: Refund = {
+      ...refund,
+      status: outcome.success ? 'settled' : 'failed',
+      txHash: outcome.success ? outcome.txHash : undefined,
+      error: outcome.success ? undefined : outcome.error,
+      settledAt: new Date().toISOString(),
+    };
+    await appendJsonLine(getRefundsLogPath(), updated);
+    return updated;
+  });
+
+  if (!settled) return null;
+  console.log(`[Refunds] Refund ${requestId.substring(0, 8)}... ${settled.status}`, settled.txHash || settled.error || '');
+
+  if (settled.reason === 'rsvp') {
+    await notifyWorkshopCancelled({
+      workshopId: settled.offerId,
+      workshopTitle: settled.offerTitle,
+      author: settled.author,
+      rsvpedUserNpubs: [settled.recipient],
+      refundAmount: settled.status === 'settled' ? settled.amount : undefined,
+    });
+  }
+  return settled;
+}
+
+async function notifyAttendees(offer: Offer, authorNpub: string, npubs: string[]): Promise<void> {
+  if (npubs.length === 0) return;
+  await notifyWorkshopCancelled({
+    workshopId: offer.id,
+    workshopTitle: offer.title,
+    author: authorNpub,
+    rsvpedUserNpubs: npubs,
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * RSVP rewards split between co-authors
+ *
+ * Every RSVP is worth rewardPerAttendee tokens to the offer's authors,
+ * split equally between them. Shares are computed in the token's smallest
+ * unit (6 decimals); the indivisible remainder goes to the first author.
+ *
+ * Each share is paid with its own transfer carrying a split tag, so that
+ * every co-author sees their earnings in their own ledger.
+ */
+
+import type { Offer } from '@/types';
+import type { PaymentSplit } from './nostr-events';
+
+const TOKEN_DECIMALS = 6;
+
+export interface RewardShare {
+  npub: string;
+  amount: number; // In tokens
+}
+
+/**
+ * Split an amount equally between authors, the remainder going to the first one
+ *
+ * @param amount - Amount in tokens
+ * @param authors - npubs, first author first (duplicates are ignored)
+ */
+export function splitReward(amount: number, authors: string[]): RewardShare[] {
+  const recipients = Array.from(new Set(authors));
+  if (recipients.length === 0) return [];
+
+  const units = Math.round(amount * 10 ** TOKEN_DECIMALS);
+  const share = Math.floor(units / recipients.length);
+  const remainder = units - share * recipients.length;
+
+  return recipients
+    .map((npub, index) => ({
+      npub,
+      amount: (index === 0 ? share + remainder : share) / 10 ** TOKEN_DECIMALS,
+    }))
+    .filter((reward) => reward.amount > 0);
+}
+
+/**
+ * The shares of one RSVP to an offer
+ */
+export function getRewardShares(offer: Pick<Offer, 'authors' | 'rewardPerAttendee'>, amount?: number): RewardShare[] {
+  return splitReward(amount ?? (offer.rewardPerAttendee || 1), offer.authors);
+}
+
+/**
+ * The split tag for a payment of one of the shares, undefined when there is a single author
+ */
+export function getPaymentSplit(amount: number, shares: RewardShare[]): PaymentSplit | undefined {
+  return shares.length > 1 ? { total: amount, shares: shares.length } : undefined;
+}
@@ -0,0 +1,192 @@
+/**
+ * Versioned schemas for persisted records
+ *
+ * Every profile (profile.json, including its nested UserProfile), offer,
+ * proposal event and notification written by a storage backend carries a
+ * schemaVersion. Records written before versioning are version 1.
+ *
+ * Migrations upgrade a record one version at a time. The backends apply
+ * them on read, so an old data directory loads without a conversion step,
+ * and stamp the current version on write. `npm run migrate` applies them in
+ * bulk and rewrites the stored records.
+ *
+ * To change a record's shape, append a migration with the next version for
+ * its type below; the current versions are derived from this registry.
+ */
+
+export type SchemaRecordType = 'profile' | 'offer' | 'proposalEvent' | 'notification';
+
+export interface SchemaMigration {
+  type: SchemaRecordType;
+  version: number; // Version of the record after this migration
+  description: string;
+  up: (record: any) => any;
+}
+
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    type: 'profile',
+    version: 2,
+    description: 'default offers, rsvps, balance and invitees',
+    up: (record) => ({
+      ...record,
+      offers: record.offers || [],
+      rsvps: record.rsvps || [],
+      balance: record.balance || { confirmed: 0, pending: 0, total: 0 },
+      profile: {
+        ...record.profile,
+        npub: record.profile?.npub || record.npub,
+        username: record.profile?.username || record.username,
+        invitees: record.profile?.invitees || [],
+      },
+    }),
+  },
+  {
+    type: 'offer',
+    version: 2,
+    description: 'default tags, authors and the RSVP count of proposals',
+    up: (record) => ({
+      ...record,
+      tags: record.tags || [],
+      authors: record.authors || [],
+      ...(record.minRsvps !== undefined && { rsvpCount: record.rsvpCount ?? 0 }),
+    }),
+  },
+  {
+    type: 'proposalEvent',
+    version: 2,
+    description: 'default attendees and minRsvps',
+    up: (record) => ({
+      ...record,
+      attendees: record.attendees || [],
+      minRsvps: record.minRsvps ?? 0,
+    }),
+  },
+  {
+    type: 'notification',
+    version: 2,
+    description: 'default read flag',
+    up: (record) => ({
+      ...record,
+      read: record.read ?? false,
+    }),
+  },
+];
+
+/**
+ * Current schema version per record type
+ */
+export const SCHEMA_VERSIONS: Record<SchemaRecordType, number> = {
+  profile: 1,
+  offer: 1,
+  proposalEvent: 1,
+  notification: 1,
+};
+
+for (const migration of MIGRATIONS) {
+  SCHEMA_VERSIONS[migration.type] = Math.max(SCHEMA_VERSIONS[migration.type], migration.version);
+}
+
+/**
+ * Get the migrations registered for a record type, oldest first
+ */
+export function getMigrations(type: SchemaRecordType): SchemaMigration[] {
+  return MIGRATIONS.filter((m) => m.type === type).sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Get the schema version of a stored record (1 if unversioned)
+ */
+export function getSchemaVersion(record: { schemaVersion?: number }): number {
+  return typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+}
+
+export interface MigrationResult<T> {
+  record: T;
+  from: number;
+  to: number;
+  applied: string[]; // Descriptions of the migrations applied
+}
+
+/**
+ * Upgrade a record to the current schema version
+ *
+ * The input is not modified. Records from a newer version of the app are
+ * returned unchanged.
+ */
+export function migrateRecord<T>(type: SchemaRecordType, record: T): MigrationResult<T> {
+  const from = getSchemaVersion(record as { schemaVersion?: number });
+  const current = SCHEMA_VERSIONS[type];
+
+  if (from >= current) {
+    return { record, from, to: from, applied: [] };
+  }
+
+  let upgraded: any = record;
+  const applied: string[] = [];
+  for (const migration of getMigrations(type)) {
+    if (migration.version <= from) continue;
+    upgraded = { ...migration.up(upgraded), schemaVersion: migration.version };
+    applied.push(migration.description);
+  }
+
+  return { record: { ...upgraded, schemaVersion: current }, from, to: current, applied };
+}
+
+/**
+ * Upgrade a record to the current schema version and stamp it
+ *
+ * Used by the backends on every read and write.
+ */
+export function upgradeRecord<T>(type: SchemaRecordType, record: T): T {
+  return migrateRecord(type, record).record;
+}
+
+// ============================================================================
+// Bulk migration reports
+// ============================================================================
+
+export interface MigrationChange {
+  type: SchemaRecordType;
+  id: string;
+  from: number;
+  to: number;
+  applied: string[];
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  scanned: number;
+  changes: MigrationChange[];
+  newer: MigrationChange[]; // Records written by a newer version of the app
+}
+
+export function createMigrationReport(dryRun: boolean): MigrationReport {
+  return { dryRun, scanned: 0, changes: [], newer: [] };
+}
+
+/**
+ * Record the outcome of migrating one stored record
+ *
+ * Returns true if the record changed and should be written back.
+ */
+export function recordMigration(
+  report: MigrationReport,
+  type: SchemaRecordType,
+  id: string,
+  result: MigrationResult<unknown>
+): boolean {
+  report.scanned++;
+
+  const change: MigrationChange = { type, id, from: result.from, to: result.to, applied: result.applied };
+  if (result.from > SCHEMA_VERSIONS[type]) {
+    report.newer.push(change);
+    return false;
+  }
+  if (result.to === result.from) {
+    return false;
+  }
+
+  report.changes.push(change);
+  return true;
+}
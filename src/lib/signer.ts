@@ -0,0 +1,296 @@
+/**
+ * Client-side event signers
+ *
+ * Everything the browser signs goes through a Signer, so villagers can use
+ * the key derived from their badge, a browser extension (NIP-07: Alby,
+ * nos2x) or a remote signer such as Amber (NIP-46 bunker).
+ *
+ * The local key stays in localStorage ('osv_nsec'); the choice of an
+ * external signer is remembered in 'osv_signer'.
+ */
+
+import { finalizeEvent, generateSecretKey, getPublicKey, nip19, utils, type EventTemplate } from 'nostr-tools';
+import type { WindowNostr } from 'nostr-tools/nip07';
+import { BunkerSigner, parseBunkerInput, toBunkerURL } from 'nostr-tools/nip46';
+import {
+  getStoredSecretKey,
+  storeSecretKey,
+  clearStoredSecretKey,
+  decodeNsec,
+  type NostrEvent,
+} from './nostr-events';
+
+const { bytesToHex, hexToBytes } = utils;
+
+const SIGNER_STORAGE_KEY = 'osv_signer';
+
+declare global {
+  interface Window {
+    nostr?: WindowNostr;
+  }
+}
+
+export type SignerType = 'local' | 'nip07' | 'nip46';
+
+/**
+ * Anything that can sign events on behalf of the current user
+ */
+export interface Signer {
+  readonly type: SignerType;
+  /** Hex public key of the identity that signs */
+  getPublicKey(): Promise<string>;
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+}
+
+/**
+ * A signer to remember with saveSigner()
+ */
+export type SignerChoice =
+  | { type: 'local'; nsec: string }
+  | { type: 'nip07' }
+  | { type: 'nip46'; bunker: string; clientKey: string; signer?: Nip46Signer };
+
+/**
+ * What is persisted in localStorage for external signers
+ */
+type StoredSigner =
+  | { type: 'nip07' }
+  | { type: 'nip46'; bunker: string; clientKey: string };
+
+/**
+ * Signs with a secret key held in the browser
+ */
+export class LocalKeySigner implements Signer {
+  readonly type = 'local' as const;
+
+  constructor(private readonly secretKey: Uint8Array) {}
+
+  async getPublicKey(): Promise<string> {
+    return getPublicKey(this.secretKey);
+  }
+
+  async signEvent(template: EventTemplate): Promise<NostrEvent> {
+    return finalizeEvent(template, this.secretKey);
+  }
+}
+
+/**
+ * Signs with a browser extension through window.nostr (NIP-07)
+ */
+export class Nip07Signer implements Signer {
+  readonly type = 'nip07' as const;
+
+  constructor(private readonly provider: WindowNostr) {}
+
+  getPublicKey(): Promise<string> {
+    return this.provider.getPublicKey();
+  }
+
+  signEvent(template: EventTemplate): Promise<NostrEvent> {
+    return this.provider.signEvent(template);
+  }
+}
+
+/**
+ * Signs with a remote signer over a NIP-46 bunker connection
+ */
+export class Nip46Signer implements Signer {
+  readonly type = 'nip46' as const;
+  private pubkey: string | null = null;
+
+  constructor(private readonly bunker: BunkerSigner) {}
+
+  async getPublicKey(): Promise<string> {
+    if (!this.pubkey) {
+      this.pubkey = await this.bunker.getPublicKey();
+    }
+    return this.pubkey;
+  }
+
+  signEvent(template: EventTemplate): Promise<NostrEvent> {
+    return this.bunker.signEvent(template);
+  }
+
+  close(): Promise<void> {
+    return this.bunker.close();
+  }
+}
+
+/**
+ * Wrap a raw secret key; signers are passed through
+ */
+export function toSigner(keyOrSigner: Uint8Array | Signer): Signer {
+  return keyOrSigner instanceof Uint8Array ? new LocalKeySigner(keyOrSigner) : keyOrSigner;
+}
+
+/**
+ * Get the npub of the identity a signer signs as
+ */
+export async function getSignerNpub(signer: Signer): Promise<string> {
+  return nip19.npubEncode(await signer.getPublicKey());
+}
+
+/**
+ * Whether a NIP-07 extension is installed
+ */
+export function hasNip07Extension(): boolean {
+  return typeof window !== 'undefined' && !!window.nostr;
+}
+
+// The bunker connection is reused across calls, it's expensive to set up
+let cachedNip46: { bunker: string; signer: Nip46Signer } | null = null;
+
+function readStoredSigner(): StoredSigner | null {
+  if (typeof window === 'undefined') return null;
+  const raw = localStorage.getItem(SIGNER_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredSigner;
+  } catch {
+    return null;
+  }
+}
+
+function storeSigner(stored: StoredSigner | null): void {
+  if (typeof window === 'undefined') return;
+  if (stored) {
+    localStorage.setItem(SIGNER_STORAGE_KEY, JSON.stringify(stored));
+  } else {
+    localStorage.removeItem(SIGNER_STORAGE_KEY);
+  }
+}
+
+/**
+ * Get the signer for the current user
+ * An external signer, if one was chosen, otherwise the stored local key
+ *
+ * @returns The signer, or null if the user isn't logged in
+ */
+export async function getActiveSigner(): Promise<Signer | null> {
+  const stored = readStoredSigner();
+
+  if (stored?.type === 'nip07') {
+    if (!window.nostr) {
+      throw new Error('Nostr extension not found. Please enable it and try again.');
+    }
+    return new Nip07Signer(window.nostr);
+  }
+
+  if (stored?.type === 'nip46') {
+    if (cachedNip46?.bunker === stored.bunker) {
+      return cachedNip46.signer;
+    }
+    const pointer = await parseBunkerInput(stored.bunker);
+    if (!pointer) {
+      throw new Error('Invalid remote signer connection. Please reconnect.');
+    }
+    // The bunker already knows our client key, no need to connect() again
+    const signer = new Nip46Signer(BunkerSigner.fromBunker(hexToBytes(stored.clientKey), pointer));
+    cachedNip46 = { bunker: stored.bunker, signer };
+    return signer;
+  }
+
+  const nsec = getStoredSecretKey();
+  return nsec ? new LocalKeySigner(decodeNsec(nsec)) : null;
+}
+
+/**
+ * Like getActiveSigner(), but throws when the user isn't logged in
+ */
+export async function requireActiveSigner(): Promise<Signer> {
+  const signer = await getActiveSigner();
+  if (!signer) {
+    throw new Error('No secret key found. Please log in again.');
+  }
+  return signer;
+}
+
+/**
+ * Connect to the NIP-07 browser extension
+ * Asks the extension for the public key; remember it with saveSigner()
+ */
+export async function connectNip07(): Promise<Nip07Signer> {
+  if (!window.nostr) {
+    throw new Error('No Nostr extension found. Install Alby or nos2x and reload the page.');
+  }
+  const signer = new Nip07Signer(window.nostr);
+  await signer.getPublicKey();
+  return signer;
+}
+
+/**
+ * Connect to a remote signer from a bunker:// URL or NIP-05 address
+ * Asks the bunker for the public key; remember it with saveSigner()
+ *
+ * @param onauth - Called with a URL when the bunker asks the user to approve
+ */
+export async function connectNip46(
+  input: string,
+  onauth?: (url: string) => void
+): Promise<{ signer: Nip46Signer; bunker: string; clientKey: string }> {
+  const pointer = await parseBunkerInput(input.trim());
+  if (!pointer) {
+    throw new Error('Invalid bunker URL');
+  }
+
+  const clientKey = generateSecretKey();
+  const bunker = BunkerSigner.fromBunker(clientKey, pointer, { onauth });
+  await bunker.connect();
+
+  const signer = new Nip46Signer(bunker);
+  await signer.getPublicKey();
+
+  // Store the pointer without the one-time connection secret
+  const bunkerUrl = toBunkerURL({ ...pointer, secret: null });
+  return { signer, bunker: bunkerUrl, clientKey: bytesToHex(clientKey) };
+}
+
+/**
+ * Make a signer the active one for this browser
+ * A local signer stores its key (nsec) and forgets any external signer
+ */
+export function saveSigner(choice: SignerChoice): void {
+  if (typeof window === 'undefined') return;
+
+  if (choice.type === 'local') {
+    storeSecretKey(choice.nsec);
+    storeSigner(null);
+  } else if (choice.type === 'nip07') {
+    clearStoredSecretKey();
+    storeSigner({ type: 'nip07' });
+  } else {
+    clearStoredSecretKey();
+    storeSigner({ type: 'nip46', bunker: choice.bunker, clientKey: choice.clientKey });
+    cachedNip46 = choice.signer ? { bunker: choice.bunker, signer: choice.signer } : null;
+  }
+}
+
+/**
+ * Get the type of the active signer without connecting to it
+ */
+export function getActiveSignerType(): SignerType | null {
+  const stored = readStoredSigner();
+  if (stored) return stored.type;
+  return getStoredSecretKey() ? 'local' : null;
+}
+
+/**
+ * Get what saveSigner() remembered, to hand it over to another device
+ */
+export function getSavedSignerChoice(): SignerChoice | null {
+  const stored = readStoredSigner();
+  if (stored) return stored;
+  const nsec = getStoredSecretKey();
+  return nsec ? { type: 'local', nsec } : null;
+}
+
+/**
+ * Forget the active signer and the local key
+ */
+export function forgetSigner(): void {
+  if (typeof window === 'undefined') return;
+  clearStoredSecretKey();
+  storeSigner(null);
+  cachedNip46?.signer.close().catch(() => {});
+  cachedNip46 = null;
+}
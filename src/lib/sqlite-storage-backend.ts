@@ -0,0 +1,471 @@
+/**
+ * SQLite storage backend
+ *
+ * Stores all village state in a single embedded database file
+ * (DATA_DIR/osv.sqlite, or SQLITE_PATH). Records are kept as JSON
+ * documents alongside the indexed columns used for lookups, so the
+ * shapes returned are identical to the file backend.
+ *
+ * Avatars, ICS files and the Nostr event logs stay on disk.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { BadgeRevocation, Offer, RSVP, StorageProfile, UserProfile } from '@/types';
+import type { ProposalEvent } from './local-calendar';
+import type { Notification } from './notifications-utils';
+import type { CreateProfileOptions, MigrateOptions, OfferFilter, StorageBackend } from './storage-backend';
+import { getDataDir } from './storage';
+import { reviveProposalEvent } from './file-storage-backend';
+import {
+  MigrationReport,
+  SCHEMA_VERSIONS,
+  SchemaRecordType,
+  createMigrationReport,
+  migrateRecord,
+  recordMigration,
+  upgradeRecord,
+} from './schema-migrations';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS profiles (
+    npub TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    serial_number TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS badges (
+    serial_number TEXT PRIMARY KEY,
+    npub TEXT,
+    setup_at TEXT NOT NULL,
+    claimed_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS badge_revocations (
+    serial_number TEXT PRIMARY KEY,
+    npub TEXT NOT NULL,
+    revoked_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS offers (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS offers_type_status ON offers (type, status);
+  CREATE TABLE IF NOT EXISTS rsvps (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    offer_id TEXT NOT NULL,
+    npub TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS rsvps_offer ON rsvps (offer_id, seq);
+  CREATE TABLE IF NOT EXISTS proposal_events (
+    room_slug TEXT NOT NULL,
+    offer_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (room_slug, offer_id)
+  );
+  CREATE TABLE IF NOT EXISTS notifications (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS notifications_recipient ON notifications (recipient, seq);
+`;
+
+/**
+ * Get the SQLite database path
+ */
+export function getSqlitePath(): string {
+  return process.env.SQLITE_PATH || path.join(getDataDir(), 'osv.sqlite');
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly type = 'sqlite' as const;
+
+  private db: Database.Database | null = null;
+
+  constructor(private readonly dbPath: string = getSqlitePath()) {}
+
+  /**
+   * Open the database lazily so importing the backend has no side effects
+   */
+  private getDb(): Database.Database {
+    if (!this.db) {
+      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      this.db = new Database(this.dbPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('busy_timeout = 5000');
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+
+  // ==========================================================================
+  // Profiles
+  // ==========================================================================
+
+  async getProfileByNpub(npub: string): Promise<StorageProfile | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM profiles WHERE npub = ?')
+      .get(npub) as { data: string } | undefined;
+    return row ? upgradeRecord('profile', JSON.parse(row.data)) : null;
+  }
+
+  async getProfileByUsername(username: string): Promise<StorageProfile | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM profiles WHERE username = ?')
+      .get(username.toLowerCase()) as { data: string } | undefined;
+    return row ? upgradeRecord('profile', JSON.parse(row.data)) : null;
+  }
+
+  async getProfileBySerialNumber(serialNumber: string): Promise<StorageProfile | null> {
+    const row = this.getDb()
+      .prepare(
+        `SELECT p.data FROM badges b JOIN profiles p ON p.npub = b.npub
+         WHERE b.serial_number = ?`
+      )
+      .get(serialNumber) as { data: string } | undefined;
+    return row ? upgradeRecord('profile', JSON.parse(row.data)) : null;
+  }
+
+  async getAllProfiles(): Promise<StorageProfile[]> {
+    const rows = this.getDb()
+      .prepare('SELECT data FROM profiles ORDER BY created_at DESC')
+      .all() as { data: string }[];
+    return rows.map((row) => upgradeRecord('profile', JSON.parse(row.data)));
+  }
+
+  async createProfile(
+    serialNumber: string,
+    username: string,
+    npub: string,
+    options?: CreateProfileOptions
+  ): Promise<StorageProfile> {
+    const now = new Date().toISOString();
+    const profile: StorageProfile = {
+      schemaVersion: SCHEMA_VERSIONS.profile,
+      npub,
+      username,
+      serialNumber,
+      profile: {
+        npub,
+        username,
+        name: options?.name,
+        invitedBy: options?.invitedBy,
+        invitees: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      offers: [],
+      rsvps: [],
+      balance: {
+        confirmed: 0,
+        pending: 50, // Initial mint
+        total: 50,
+      },
+    };
+
+    const db = this.getDb();
+    db.transaction(() => {
+      const existing = db
+        .prepare('SELECT npub FROM profiles WHERE username = ?')
+        .get(username.toLowerCase());
+      if (existing) {
+        throw new Error('Username already taken');
+      }
+
+      db.prepare(
+        `INSERT INTO profiles (npub, username, serial_number, created_at, data)
+         VALUES (?, ?, ?, ?, ?)`
+      ).run(npub, username.toLowerCase(), serialNumber, now, JSON.stringify(profile));
+
+      db.prepare(
+        `INSERT INTO badges (serial_number, npub, setup_at, claimed_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (serial_number) DO UPDATE SET npub = excluded.npub, claimed_at = excluded.claimed_at`
+      ).run(serialNumber, npub, now, now);
+    })();
+
+    return profile;
+  }
+
+  async updateProfile(npub: string, updates: Partial<UserProfile>): Promise<StorageProfile> {
+    const profile = await this.getProfileByNpub(npub);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    profile.profile = {
+      ...profile.profile,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.saveProfile(profile);
+    return profile;
+  }
+
+  async saveProfile(profile: StorageProfile): Promise<void> {
+    this.getDb()
+      .prepare(
+        `INSERT INTO profiles (npub, username, serial_number, created_at, data)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (npub) DO UPDATE SET
+           username = excluded.username,
+           serial_number = excluded.serial_number,
+           data = excluded.data`
+      )
+      .run(
+        profile.npub,
+        profile.username.toLowerCase(),
+        profile.serialNumber,
+        profile.profile.createdAt || new Date().toISOString(),
+        JSON.stringify(upgradeRecord('profile', profile))
+      );
+  }
+
+  // ==========================================================================
+  // Badges
+  // ==========================================================================
+
+  async isBadgeSetup(serialNumber: string): Promise<boolean> {
+    const row = this.getDb()
+      .prepare('SELECT 1 FROM badges WHERE serial_number = ?')
+      .get(serialNumber);
+    return !!row;
+  }
+
+  async isBadgeClaimed(serialNumber: string): Promise<boolean> {
+    const row = this.getDb()
+      .prepare('SELECT 1 FROM badges WHERE serial_number = ? AND npub IS NOT NULL')
+      .get(serialNumber);
+    return !!row;
+  }
+
+  async setupBadge(serialNumber: string): Promise<{ alreadyExists: boolean }> {
+    const result = this.getDb()
+      .prepare(
+        `INSERT INTO badges (serial_number, setup_at) VALUES (?, ?)
+         ON CONFLICT (serial_number) DO NOTHING`
+      )
+      .run(serialNumber, new Date().toISOString());
+    return { alreadyExists: result.changes === 0 };
+  }
+
+  async assignBadge(serialNumber: string, npub: string): Promise<StorageProfile> {
+    const profile = await this.getProfileByNpub(npub);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    const previousSerial = profile.serialNumber;
+    profile.serialNumber = serialNumber;
+    const now = new Date().toISOString();
+
+    const db = this.getDb();
+    db.transaction(() => {
+      // Release the previous badge unless it was meanwhile given to someone else
+      db.prepare('UPDATE badges SET npub = NULL, claimed_at = NULL WHERE serial_number = ? AND npub = ?')
+        .run(previousSerial, npub);
+      db.prepare(
+        `INSERT INTO badges (serial_number, npub, setup_at, claimed_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (serial_number) DO UPDATE SET npub = excluded.npub, claimed_at = excluded.claimed_at`
+      ).run(serialNumber, npub, now, now);
+      db.prepare('UPDATE profiles SET serial_number = ?, data = ? WHERE npub = ?')
+        .run(serialNumber, JSON.stringify(upgradeRecord('profile', profile)), npub);
+    })();
+
+    return profile;
+  }
+
+  async revokeBadge(revocation: BadgeRevocation): Promise<void> {
+    this.getDb()
+      .prepare(
+        `INSERT INTO badge_revocations (serial_number, npub, revoked_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (serial_number) DO NOTHING`
+      )
+      .run(revocation.serialNumber, revocation.npub, revocation.revokedAt, JSON.stringify(revocation));
+  }
+
+  async getBadgeRevocation(serialNumber: string): Promise<BadgeRevocation | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM badge_revocations WHERE serial_number = ?')
+      .get(serialNumber) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // ==========================================================================
+  // Offers
+  // ==========================================================================
+
+  async getOffer(offerId: string): Promise<Offer | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM offers WHERE id = ?')
+      .get(offerId) as { data: string } | undefined;
+    return row ? upgradeRecord('offer', JSON.parse(row.data)) : null;
+  }
+
+  async listOffers(filter?: OfferFilter): Promise<Offer[]> {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter?.type) {
+      clauses.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter?.status) {
+      clauses.push('status = ?');
+      params.push(filter.status);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.getDb()
+      .prepare(`SELECT data FROM offers ${where}`)
+      .all(...params) as { data: string }[];
+    return rows.map((row) => upgradeRecord('offer', JSON.parse(row.data)));
+  }
+
+  async saveOffer(offer: Offer): Promise<void> {
+    this.getDb()
+      .prepare(
+        `INSERT INTO offers (id, type, status, created_at, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           type = excluded.type,
+           status = excluded.status,
+           data = excluded.data`
+      )
+      .run(
+        offer.id,
+        offer.type,
+        offer.status,
+        offer.createdAt || new Date().toISOString(),
+        JSON.stringify(upgradeRecord('offer', offer))
+      );
+  }
+
+  // ==========================================================================
+  // RSVPs
+  // ==========================================================================
+
+  async appendRsvp(rsvp: RSVP): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO rsvps (offer_id, npub, status, data) VALUES (?, ?, ?, ?)')
+      .run(rsvp.offerId, rsvp.npub, rsvp.status, JSON.stringify(rsvp));
+  }
+
+  async getRsvps(offerId: string): Promise<RSVP[]> {
+    const rows = this.getDb()
+      .prepare('SELECT data FROM rsvps WHERE offer_id = ? ORDER BY seq')
+      .all(offerId) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // ==========================================================================
+  // Proposal events
+  // ==========================================================================
+
+  async getProposalEvents(roomSlug: string): Promise<ProposalEvent[]> {
+    const rows = this.getDb()
+      .prepare('SELECT data FROM proposal_events WHERE room_slug = ? ORDER BY position')
+      .all(roomSlug) as { data: string }[];
+    return rows.map((row) => reviveProposalEvent(JSON.parse(row.data)));
+  }
+
+  async getRoomSlugs(): Promise<string[]> {
+    const rows = this.getDb()
+      .prepare('SELECT DISTINCT room_slug FROM proposal_events ORDER BY room_slug')
+      .all() as { room_slug: string }[];
+    return rows.map((row) => row.room_slug);
+  }
+
+  async saveProposalEvents(roomSlug: string, events: ProposalEvent[]): Promise<void> {
+    const db = this.getDb();
+    const insert = db.prepare(
+      'INSERT INTO proposal_events (room_slug, offer_id, position, data) VALUES (?, ?, ?, ?)'
+    );
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM proposal_events WHERE room_slug = ?').run(roomSlug);
+      events.forEach((event, position) => {
+        insert.run(roomSlug, event.offerId, position, JSON.stringify(upgradeRecord('proposalEvent', event)));
+      });
+    })();
+  }
+
+  // ==========================================================================
+  // Notifications
+  // ==========================================================================
+
+  async getNotifications(npub: string): Promise<Notification[]> {
+    const rows = this.getDb()
+      .prepare('SELECT data FROM notifications WHERE recipient = ? ORDER BY seq')
+      .all(npub) as { data: string }[];
+    return rows.map((row) => upgradeRecord('notification', JSON.parse(row.data)));
+  }
+
+  async addNotification(notification: Notification): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO notifications (id, recipient, data) VALUES (?, ?, ?)')
+      .run(notification.id, notification.recipient, JSON.stringify(upgradeRecord('notification', notification)));
+  }
+
+  async replaceNotifications(npub: string, notifications: Notification[]): Promise<void> {
+    const db = this.getDb();
+    const insert = db.prepare('INSERT INTO notifications (id, recipient, data) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM notifications WHERE recipient = ?').run(npub);
+      for (const notification of notifications) {
+        insert.run(notification.id, npub, JSON.stringify(upgradeRecord('notification', notification)));
+      }
+    })();
+  }
+
+  // ==========================================================================
+  // Schema migrations
+  // ==========================================================================
+
+  async migrateRecords(options: MigrateOptions = {}): Promise<MigrationReport> {
+    const report = createMigrationReport(!!options.dryRun);
+    const db = this.getDb();
+
+    // Table, row key and record id for each record type
+    const tables: { type: SchemaRecordType; table: string; key: string; id: string }[] = [
+      { type: 'profile', table: 'profiles', key: 'npub', id: 'npub' },
+      { type: 'offer', table: 'offers', key: 'id', id: 'id' },
+      { type: 'proposalEvent', table: 'proposal_events', key: 'rowid', id: "room_slug || '/' || offer_id" },
+      { type: 'notification', table: 'notifications', key: 'seq', id: 'id' },
+    ];
+
+    db.transaction(() => {
+      for (const { type, table, key, id } of tables) {
+        const rows = db
+          .prepare(`SELECT ${key} AS key, ${id} AS id, data FROM ${table}`)
+          .all() as { key: string | number; id: string; data: string }[];
+        const update = db.prepare(`UPDATE ${table} SET data = ? WHERE ${key} = ?`);
+
+        for (const row of rows) {
+          const result = migrateRecord(type, JSON.parse(row.data));
+          if (recordMigration(report, type, row.id, result) && !options.dryRun) {
+            update.run(JSON.stringify(result.record), row.key);
+          }
+        }
+      }
+    })();
+
+    return report;
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,913 @@
+/**
+ * Event-sourced state rebuild
+ *
+ * Replays the recorded NOSTR log (DATA_DIR/nostr_events.jsonl plus the
+ * per-npub logs) and regenerates the state derived from it:
+ * - offers/:id.json                       (kinds 1, 31922, 1734/1735)
+ * - RSVP log and per-user RSVP lists      (kinds 7, 1735)
+ * - calendars/:room/events.json and proposals.ics
+ * Kind 0 supplies display names for attendees without a local profile.
+ *
+ * The log doesn't carry everything, so the rebuild is conservative:
+ * - Only offers that appear in the log are rebuilt. Fields the log doesn't
+ *   carry (createdAt, rewardPerAttendee, ...) are kept from the offer on disk.
+ * - Offer status only moves forward (pending → tentative → confirmed →
+ *   cancelled). Cancellations aren't always published.
+ * - Calendar events only update an offer when signed by its author or by
+ *   the server (NOSTR_NSEC), which publishes status updates.
+ * - RSVPs from the log override the RSVP on disk for the same offer and user.
+ *   RSVPs the log doesn't mention are kept.
+ * - Room calendars are regenerated from all offers. Events whose offer no
+ *   longer exists are left as they are.
+ *
+ * Used by scripts/rebuild-state.ts (`npm run rebuild-state [-- --verify]`).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getPublicKey, nip19 } from 'nostr-tools';
+import type { Offer, OfferStatus, RSVP, StorageProfile } from '@/types';
+import {
+  NOSTR_KINDS,
+  decodeNsec,
+  getEventCoAuthors,
+  parseOfferEvent,
+  parsePaymentRequestEvent,
+  parsePaymentReceiptEvent,
+  type NostrEvent,
+} from './nostr-events';
+import { getDataDir } from './storage';
+import { getStorageBackend, getOfferLockResource, latestRsvpPerUser } from './storage-backend';
+import { withLock } from './file-lock';
+import { listLogSegments, readLogSegment } from './log-retention';
+import {
+  generateIcsContent,
+  generateIcsFile,
+  getRoomSlug,
+  readIcsFile,
+  replaceProposalEvents,
+  type Attendee,
+  type ProposalEvent,
+} from './local-calendar';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Event kinds replayed by the rebuild
+ */
+export const REPLAYED_KINDS: number[] = [
+  NOSTR_KINDS.PROFILE,
+  NOSTR_KINDS.NOTE,
+  NOSTR_KINDS.REACTION,
+  NOSTR_KINDS.PAYMENT_REQUEST,
+  NOSTR_KINDS.PAYMENT_RECEIPT,
+  NOSTR_KINDS.CALENDAR_EVENT,
+];
+
+/**
+ * State derived from replaying the log
+ */
+export interface ReplayResult {
+  /** Offers that appear in the log (merged with the offer on disk) */
+  offers: Map<string, Offer>;
+  /** Latest RSVP per user, per offer (offerId -> npub -> RSVP) */
+  rsvps: Map<string, Map<string, RSVP>>;
+  /** Display names from kind 0 profiles (npub -> name) */
+  names: Map<string, string>;
+  replayed: number;
+  ignored: number;
+}
+
+export interface StateDifference {
+  type: 'offer' | 'rsvp' | 'profile' | 'calendar' | 'ics';
+  id: string;
+  message: string;
+}
+
+/**
+ * Writes needed to bring the state on disk in line with the log
+ */
+export interface RebuildPlan {
+  offers: Offer[];
+  rsvpEntries: RSVP[];
+  profiles: StorageProfile[];
+  calendars: Map<string, ProposalEvent[]>;
+  differences: StateDifference[];
+}
+
+export interface RebuildReport {
+  eventsReplayed: number;
+  eventsIgnored: number;
+  offersRebuilt: number;
+  roomsRebuilt: number;
+  differences: StateDifference[];
+  applied: boolean;
+}
+
+// ============================================================================
+// Reading the log
+// ============================================================================
+
+/**
+ * Extract the event from a log line
+ * Handles both the wrapped format ({ timestamp, source, event }) and raw events
+ */
+function unwrapLogEntry(entry: unknown): NostrEvent | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const candidate = (entry as { event?: unknown }).event ?? entry;
+  const event = candidate as Partial<NostrEvent>;
+  if (
+    typeof event.id !== 'string' ||
+    typeof event.pubkey !== 'string' ||
+    typeof event.kind !== 'number' ||
+    typeof event.created_at !== 'number' ||
+    !Array.isArray(event.tags)
+  ) {
+    return null;
+  }
+  return event as NostrEvent;
+}
+
+/**
+ * Read the events of a log, including its rotated archives
+ */
+function readLogFile(filePath: string): NostrEvent[] {
+  const events: NostrEvent[] = [];
+  for (const segment of listLogSegments(filePath)) {
+    let content: string;
+    try {
+      content = readLogSegment(segment).toString('utf-8');
+    } catch {
+      continue;
+    }
+    events.push(...parseLogLines(content));
+  }
+  return events;
+}
+
+function parseLogLines(content: string): NostrEvent[] {
+  const events: NostrEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = unwrapLogEntry(JSON.parse(line));
+      if (event) events.push(event);
+    } catch {
+      // Skip lines cut short by a crash mid-write
+    }
+  }
+  return events;
+}
+
+/**
+ * Read every recorded event of a replayed kind, deduplicated and in order
+ * (created_at, then log order: events from the same second keep the order
+ * they were recorded in)
+ */
+export async function readEventLog(): Promise<NostrEvent[]> {
+  const dataDir = getDataDir();
+  const files = [path.join(dataDir, 'nostr_events.jsonl')];
+
+  try {
+    const npubs = await fs.readdir(path.join(dataDir, 'npubs'));
+    for (const npub of npubs) {
+      files.push(path.join(dataDir, 'npubs', npub, 'nostr_events.jsonl'));
+    }
+  } catch {
+    // No per-user logs
+  }
+
+  const byId = new Map<string, NostrEvent>();
+  for (const file of files) {
+    for (const event of readLogFile(file)) {
+      if (REPLAYED_KINDS.includes(event.kind) && !byId.has(event.id)) {
+        byId.set(event.id, event);
+      }
+    }
+  }
+
+  return Array.from(byId.values()).sort((a, b) => a.created_at - b.created_at);
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+const STATUS_ORDER: OfferStatus[] = ['pending', 'tentative', 'confirmed', 'cancelled'];
+
+const CALENDAR_STATUS: Record<string, OfferStatus> = {
+  TENTATIVE: 'tentative',
+  CONFIRMED: 'confirmed',
+  CANCELLED: 'cancelled',
+};
+
+/** Reactions that mean "I'm attending" (createRSVPEvent and the offer page) */
+const RSVP_REACTIONS = ['🎟️', '✅'];
+
+function getTag(event: NostrEvent, name: string): string | undefined {
+  return event.tags.find((t) => t[0] === name)?.[1];
+}
+
+/**
+ * Offer/booking referenced by an event: an 'e' tag marked related,
+ * or an 'r' tag for ids that aren't NOSTR event ids
+ */
+function getRelatedId(event: NostrEvent): string | undefined {
+  return event.tags.find((t) => t[0] === 'e' && t[3] === 'related')?.[1] || getTag(event, 'r');
+}
+
+function toNpub(pubkey: string): string {
+  if (pubkey.startsWith('npub1')) return pubkey;
+  try {
+    return nip19.npubEncode(pubkey);
+  } catch {
+    return pubkey;
+  }
+}
+
+function toIso(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+function advanceStatus(offer: Offer, status: OfferStatus): void {
+  if (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(offer.status)) {
+    offer.status = status;
+  }
+}
+
+/**
+ * The server's pubkey (hex, from NOSTR_NSEC), null if it isn't configured
+ */
+function getServerPubkey(): string | null {
+  const nsec = process.env.NOSTR_NSEC;
+  if (!nsec) return null;
+  try {
+    return getPublicKey(decodeNsec(nsec));
+  } catch {
+    return null;
+  }
+}
+
+class Replayer {
+  readonly offers = new Map<string, Offer>();
+  readonly rsvps = new Map<string, Map<string, RSVP>>();
+  readonly names = new Map<string, string>();
+  replayed = 0;
+  ignored = 0;
+
+  private readonly baseline: Map<string, Offer>;
+  // pubkey:d-tag -> offerId (replaceable calendar events)
+  private readonly addressIndex = new Map<string, string>();
+  // NOSTR event id -> offerId (RSVP reactions reference the calendar event)
+  private readonly eventIndex = new Map<string, string>();
+  private readonly requests = new Map<string, NostrEvent>();
+  private readonly settledRequests = new Set<string>();
+  private readonly rsvpReactions = new Map<string, { offerId: string; npub: string }>();
+
+  constructor(baselineOffers: Offer[], private readonly serverPubkey: string | null) {
+    this.baseline = new Map(baselineOffers.map((o) => [o.id, o]));
+    for (const offer of baselineOffers) {
+      if (offer.nostrEventId) {
+        this.eventIndex.set(offer.nostrEventId, offer.id);
+      }
+      if (offer.nostrDTag && offer.nostrAuthorPubkey) {
+        this.addressIndex.set(`${offer.nostrAuthorPubkey}:${offer.nostrDTag}`, offer.id);
+      }
+    }
+  }
+
+  replay(event: NostrEvent): void {
+    let applied: boolean;
+    switch (event.kind) {
+      case NOSTR_KINDS.PROFILE:
+        applied = this.applyProfile(event);
+        break;
+      case NOSTR_KINDS.NOTE:
+        applied = this.applyOfferNote(event);
+        break;
+      case NOSTR_KINDS.REACTION:
+        applied = this.applyReaction(event);
+        break;
+      case NOSTR_KINDS.PAYMENT_REQUEST:
+        this.requests.set(event.id, event);
+        applied = true;
+        break;
+      case NOSTR_KINDS.PAYMENT_RECEIPT:
+        applied = this.applyReceipt(event);
+        break;
+      case NOSTR_KINDS.CALENDAR_EVENT:
+        applied = this.applyCalendarEvent(event);
+        break;
+      default:
+        applied = false;
+    }
+
+    if (applied) {
+      this.replayed++;
+    } else {
+      this.ignored++;
+    }
+  }
+
+  private isKnown(offerId: string): boolean {
+    return this.offers.has(offerId) || this.baseline.has(offerId);
+  }
+
+  /**
+   * Get the offer being rebuilt, starting from the copy on disk
+   */
+  private touch(offerId: string): Offer | null {
+    let offer = this.offers.get(offerId);
+    if (!offer) {
+      const existing = this.baseline.get(offerId);
+      if (!existing) return null;
+      offer = { ...existing, authors: [...existing.authors], tags: [...(existing.tags || [])] };
+      this.offers.set(offerId, offer);
+    }
+    return offer;
+  }
+
+  private createOffer(offerId: string, createdAt: number, fields: Partial<Offer>): Offer {
+    const offer: Offer = {
+      id: offerId,
+      type: 'workshop',
+      title: '',
+      description: '',
+      authors: [],
+      tags: [],
+      createdAt: toIso(createdAt),
+      updatedAt: toIso(createdAt),
+      status: 'pending',
+      publicationCost: 0,
+      rewardPerAttendee: 1,
+      rsvpCount: 0,
+      ...fields,
+    };
+    this.offers.set(offerId, offer);
+    return offer;
+  }
+
+  private setRsvp(
+    offerId: string | undefined,
+    npub: string,
+    status: RSVP['status'],
+    createdAt: number,
+    tokensPaid = 1
+  ): boolean {
+    if (!offerId || !this.isKnown(offerId)) return false;
+    this.touch(offerId);
+
+    const byUser = this.rsvps.get(offerId) || new Map<string, RSVP>();
+    const previous = byUser.get(npub);
+    if (previous?.status !== status) {
+      byUser.set(npub, { offerId, npub, createdAt: toIso(createdAt), status, tokensPaid });
+    }
+    this.rsvps.set(offerId, byUser);
+    return true;
+  }
+
+  // Kind 0: display names
+  private applyProfile(event: NostrEvent): boolean {
+    try {
+      const metadata = JSON.parse(event.content);
+      const name = metadata.display_name || metadata.name;
+      if (!name) return false;
+      this.names.set(toNpub(event.pubkey), name);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Kind 1: structured offers (human-readable notes don't parse and are ignored)
+  private applyOfferNote(event: NostrEvent): boolean {
+    const parsed = parseOfferEvent(event);
+    if (!parsed) return false;
+
+    const offerId = this.eventIndex.get(event.id) || event.id;
+    const offer = this.touch(offerId) || this.createOffer(offerId, event.created_at, {});
+
+    offer.type = parsed.type;
+    offer.title = parsed.title;
+    offer.description = parsed.description;
+    offer.tags = parsed.tags || [];
+    offer.authors = [toNpub(event.pubkey), ...(parsed.coAuthors || []).map(toNpub)];
+    if (parsed.location) offer.room = parsed.location;
+    if (parsed.startTime) {
+      offer.startTime = parsed.startTime;
+      if (parsed.duration) {
+        const end = new Date(new Date(parsed.startTime).getTime() + parsed.duration * 60000);
+        offer.endTime = end.toISOString();
+      }
+    }
+    if (parsed.minAttendance !== undefined) offer.minRsvps = parsed.minAttendance;
+    if (parsed.maxAttendance !== undefined) offer.maxAttendees = parsed.maxAttendance;
+
+    this.eventIndex.set(event.id, offerId);
+    return true;
+  }
+
+  // Kind 31922: workshop proposals, bookings and their status updates
+  private applyCalendarEvent(event: NostrEvent): boolean {
+    const dTag = getTag(event, 'd');
+    if (!dTag) return false;
+
+    const address = `${event.pubkey}:${dTag}`;
+    const related = getRelatedId(event);
+    // Server status updates use the offer id as d-tag and related reference;
+    // bookings use the calendar event id as booking id
+    const offerId =
+      this.addressIndex.get(address) ||
+      related ||
+      (this.isKnown(dTag) ? dTag : undefined) ||
+      event.id;
+
+    // Only the author and the server may update an offer: others referencing
+    // it (e.g. to cancel it) are ignored
+    const existing = this.offers.get(offerId) || this.baseline.get(offerId);
+    const isServer = !!this.serverPubkey && event.pubkey === this.serverPubkey;
+    if (existing?.nostrAuthorPubkey && existing.nostrAuthorPubkey !== event.pubkey && !isServer) {
+      return false;
+    }
+
+    const topics = event.tags.filter((t) => t[0] === 't').map((t) => t[1]);
+    const offer =
+      this.touch(offerId) ||
+      this.createOffer(offerId, event.created_at, {
+        type: topics.includes('booking') ? 'private' : 'workshop',
+        authors: [toNpub(event.pubkey)],
+        nostrAuthorPubkey: event.pubkey,
+      });
+
+    const start = getTag(event, 'start');
+    const end = getTag(event, 'end');
+    if (start) offer.startTime = toIso(parseInt(start, 10));
+    if (end) offer.endTime = toIso(parseInt(end, 10));
+
+    // Only the author's events carry the offer content
+    const isAuthor = !offer.nostrAuthorPubkey || offer.nostrAuthorPubkey === event.pubkey;
+    if (isAuthor) {
+      offer.title = getTag(event, 'title') || offer.title;
+      offer.description = event.content;
+      const location = getTag(event, 'location');
+      if (location) offer.room = location;
+      if (topics.length > 0) offer.tags = topics;
+      offer.nostrEventId = event.id;
+      offer.nostrDTag = dTag;
+      offer.nostrAuthorPubkey = event.pubkey;
+      const coAuthors = getEventCoAuthors(event);
+      if (coAuthors.length > 0) offer.authors = [toNpub(event.pubkey), ...coAuthors];
+    }
+
+    const status = CALENDAR_STATUS[getTag(event, 'status') || ''];
+    if (status) advanceStatus(offer, status);
+
+    this.addressIndex.set(address, offerId);
+    this.eventIndex.set(event.id, offerId);
+    return true;
+  }
+
+  // Kind 7: RSVP reactions and cancellations
+  private applyReaction(event: NostrEvent): boolean {
+    const npub = toNpub(event.pubkey);
+    const eTags = event.tags.filter((t) => t[0] === 'e');
+
+    const cancelTag = eTags.find((t) => t[3] === 'cancel');
+    if (cancelTag) {
+      const original = this.rsvpReactions.get(cancelTag[1]);
+      if (!original || original.npub !== npub) return false;
+      return this.setRsvp(original.offerId, npub, 'cancelled', event.created_at);
+    }
+
+    if (!RSVP_REACTIONS.includes(event.content) || eTags.length === 0) return false;
+
+    const target = eTags[0][1];
+    const offerId = this.eventIndex.get(target) || target;
+    if (!this.setRsvp(offerId, npub, 'active', event.created_at)) return false;
+
+    this.rsvpReactions.set(event.id, { offerId, npub });
+    return true;
+  }
+
+  // Kind 1735: settled payments confirm bookings, proposals, needs and RSVPs
+  private applyReceipt(event: NostrEvent): boolean {
+    const receipt = parsePaymentReceiptEvent(event);
+    if (!receipt || !receipt.success || this.settledRequests.has(receipt.requestEventId)) {
+      return false;
+    }
+
+    const requestEvent = this.requests.get(receipt.requestEventId) || receipt.embeddedRequest;
+    const request = requestEvent ? parsePaymentRequestEvent(requestEvent) : null;
+    if (!requestEvent || !request) return false;
+
+    this.settledRequests.add(receipt.requestEventId);
+    const related = getRelatedId(requestEvent);
+
+    switch (request.context) {
+      case 'booking': {
+        let details: { id?: string; title?: string; room?: string; startTime?: string; endTime?: string } = {};
+        try {
+          details = JSON.parse(request.description || '{}');
+        } catch {
+          // Plain-text description
+        }
+
+        const offerId = related || details.id;
+        if (!offerId) return false;
+
+        const offer =
+          this.touch(offerId) ||
+          this.createOffer(offerId, event.created_at, {
+            type: 'private',
+            title: details.title || 'Room Booking',
+            room: details.room,
+            startTime: details.startTime,
+            endTime: details.endTime,
+            authors: [request.sender],
+          });
+        if (!offer.publicationCost) offer.publicationCost = request.amount;
+        advanceStatus(offer, 'confirmed');
+        return true;
+      }
+
+      case 'workshop_proposal':
+      case 'need': {
+        const offer = related ? this.touch(related) : null;
+        if (!offer) return false;
+        if (!offer.publicationCost) offer.publicationCost = request.amount;
+        // Needs are confirmed immediately, workshops need RSVPs
+        advanceStatus(offer, request.context === 'need' ? 'confirmed' : 'tentative');
+        return true;
+      }
+
+      case 'rsvp':
+        return this.setRsvp(related, request.sender, 'active', event.created_at, request.amount);
+
+      default:
+        return false;
+    }
+  }
+}
+
+/**
+ * Replay events in order on top of the offers currently on disk
+ *
+ * @param serverPubkey - Hex pubkey allowed to update any offer's status (default: from NOSTR_NSEC)
+ */
+export function replayEvents(
+  events: NostrEvent[],
+  baselineOffers: Offer[] = [],
+  serverPubkey: string | null = getServerPubkey()
+): ReplayResult {
+  const replayer = new Replayer(baselineOffers, serverPubkey);
+  for (const event of events) {
+    replayer.replay(event);
+  }
+
+  return {
+    offers: replayer.offers,
+    rsvps: replayer.rsvps,
+    names: replayer.names,
+    replayed: replayer.replayed,
+    ignored: replayer.ignored,
+  };
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+interface CurrentState {
+  offers: Map<string, Offer>;
+  rsvps: Map<string, Map<string, RSVP>>;
+  profiles: StorageProfile[];
+  calendars: Map<string, ProposalEvent[]>;
+  ics: Map<string, string | null>;
+}
+
+/**
+ * Load the derived state currently on disk
+ */
+async function loadCurrentState(): Promise<CurrentState> {
+  const storage = getStorageBackend();
+  const offerList = await storage.listOffers();
+
+  const rsvps = new Map<string, Map<string, RSVP>>();
+  for (const offer of offerList) {
+    const latest = latestRsvpPerUser(await storage.getRsvps(offer.id));
+    if (latest.length > 0) {
+      rsvps.set(offer.id, new Map(latest.map((r) => [r.npub, r])));
+    }
+  }
+
+  const calendars = new Map<string, ProposalEvent[]>();
+  const ics = new Map<string, string | null>();
+  const slugs = new Set(await storage.getRoomSlugs());
+  for (const offer of offerList) {
+    if (offer.room) slugs.add(getRoomSlug(offer.room));
+  }
+  for (const slug of slugs) {
+    calendars.set(slug, await storage.getProposalEvents(slug));
+    ics.set(slug, await readIcsFile(slug));
+  }
+
+  return {
+    offers: new Map(offerList.map((o) => [o.id, o])),
+    rsvps,
+    profiles: await storage.getAllProfiles(),
+    calendars,
+    ics,
+  };
+}
+
+const COMPARED_OFFER_FIELDS: (keyof Offer)[] = [
+  'type',
+  'title',
+  'description',
+  'status',
+  'room',
+  'startTime',
+  'endTime',
+  'rsvpCount',
+  'authors',
+];
+
+function describeOfferChanges(current: Offer | undefined, target: Offer): string | null {
+  if (!current) return 'missing on disk';
+
+  const changes = COMPARED_OFFER_FIELDS.filter(
+    (field) => JSON.stringify(current[field]) !== JSON.stringify(target[field])
+  ).map((field) => `${field}: ${JSON.stringify(current[field])} → ${JSON.stringify(target[field])}`);
+
+  return changes.length > 0 ? changes.join(', ') : null;
+}
+
+function calendarStatus(status: OfferStatus): ProposalEvent['status'] {
+  if (status === 'confirmed') return 'CONFIRMED';
+  if (status === 'cancelled') return 'CANCELLED';
+  return 'TENTATIVE';
+}
+
+/**
+ * Comparable summary of a calendar event (ignores bookkeeping timestamps)
+ */
+function summarizeEvent(event: ProposalEvent): string {
+  return JSON.stringify({
+    title: event.title,
+    room: event.room,
+    status: event.status,
+    startTime: event.startTime.toISOString(),
+    endTime: event.endTime.toISOString(),
+    attendees: event.attendees.map((a) => a.npub).sort(),
+  });
+}
+
+/**
+ * Work out the writes that bring the state on disk in line with the log
+ */
+export function planRebuild(replay: ReplayResult, current: CurrentState): RebuildPlan {
+  const differences: StateDifference[] = [];
+  const plan: RebuildPlan = {
+    offers: [],
+    rsvpEntries: [],
+    profiles: [],
+    calendars: new Map(),
+    differences,
+  };
+
+  // RSVPs: the log wins for every offer/user pair it mentions
+  const rsvps = new Map<string, Map<string, RSVP>>();
+  for (const [offerId, byUser] of current.rsvps) {
+    rsvps.set(offerId, new Map(byUser));
+  }
+  for (const [offerId, byUser] of replay.rsvps) {
+    const merged = rsvps.get(offerId) || new Map<string, RSVP>();
+    for (const [npub, rsvp] of byUser) {
+      const existing = merged.get(npub);
+      if (existing?.status !== rsvp.status) {
+        plan.rsvpEntries.push(rsvp);
+        differences.push({
+          type: 'rsvp',
+          id: `${offerId}/${npub}`,
+          message: `${existing?.status || 'missing'} → ${rsvp.status}`,
+        });
+        merged.set(npub, rsvp);
+      }
+    }
+    rsvps.set(offerId, merged);
+  }
+
+  const activeNpubs = (offerId: string): RSVP[] =>
+    Array.from(rsvps.get(offerId)?.values() || []).filter((r) => r.status === 'active');
+
+  // Offers: recount RSVPs and apply the confirmation threshold
+  const offers = new Map(current.offers);
+  for (const [offerId, replayed] of replay.offers) {
+    const target: Offer = { ...replayed };
+    const currentOffer = current.offers.get(offerId);
+    if (currentOffer?.status === 'cancelled') {
+      target.status = 'cancelled';
+    }
+
+    target.rsvpCount = activeNpubs(offerId).length;
+    const minRsvps = target.minRsvps || target.minAttendees || 5;
+    if (
+      target.rsvpCount >= minRsvps &&
+      (target.status === 'tentative' || target.status === 'pending') &&
+      target.type !== 'private'
+    ) {
+      target.status = 'confirmed';
+    }
+
+    const changes = describeOfferChanges(currentOffer, target);
+    if (changes) {
+      target.updatedAt = new Date().toISOString();
+      plan.offers.push(target);
+      differences.push({ type: 'offer', id: offerId, message: changes });
+    }
+    offers.set(offerId, target);
+  }
+
+  // Per-user RSVP lists and offer copies in profiles
+  const usernames = new Map<string, string>();
+  const rebuiltOfferIds = new Set(plan.offers.map((o) => o.id));
+  for (const profile of current.profiles) {
+    usernames.set(profile.npub, profile.profile?.username || profile.username);
+
+    let changed = false;
+    const updated: StorageProfile = {
+      ...profile,
+      rsvps: profile.rsvps.map((r) => ({ ...r })),
+      offers: profile.offers.map((o) => ({ ...o })),
+    };
+
+    for (const [offerId, byUser] of replay.rsvps) {
+      const rsvp = rsvps.get(offerId)?.get(profile.npub);
+      if (!rsvp || !byUser.has(profile.npub)) continue;
+
+      const active = updated.rsvps.filter((r) => r.offerId === offerId && r.status === 'active');
+      if (rsvp.status === 'active' && active.length === 0) {
+        updated.rsvps.push({ ...rsvp });
+        changed = true;
+      } else if (rsvp.status === 'cancelled' && active.length > 0) {
+        active.forEach((r) => (r.status = 'cancelled'));
+        changed = true;
+      }
+    }
+
+    for (const offerCopy of updated.offers) {
+      const target = offers.get(offerCopy.id);
+      if (target && rebuiltOfferIds.has(offerCopy.id) && offerCopy.status !== target.status) {
+        offerCopy.status = target.status;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      plan.profiles.push(updated);
+      differences.push({ type: 'profile', id: profile.npub, message: 'RSVP list or offer status out of date' });
+    }
+  }
+
+  // Room calendars: one event per scheduled offer
+  const rooms = new Map<string, ProposalEvent[]>();
+  for (const [slug, events] of current.calendars) {
+    rooms.set(slug, events);
+  }
+
+  const targetEvents = new Map<string, ProposalEvent[]>();
+  for (const [slug, events] of rooms) {
+    targetEvents.set(slug, events.filter((e) => !offers.has(e.offerId)));
+  }
+
+  for (const offer of offers.values()) {
+    if (!offer.room || !offer.startTime || !offer.endTime) continue;
+
+    const slug = getRoomSlug(offer.room);
+    const existing = rooms.get(slug)?.find((e) => e.offerId === offer.id);
+
+    const attendees: Attendee[] = activeNpubs(offer.id).map((r) => ({
+      npub: r.npub,
+      username:
+        usernames.get(r.npub) ||
+        existing?.attendees.find((a) => a.npub === r.npub)?.username ||
+        replay.names.get(r.npub) ||
+        r.npub.slice(0, 12),
+    }));
+    // Keep the existing attendee order, new attendees at the end
+    const order = (existing?.attendees || []).map((a) => a.npub);
+    attendees.sort((a, b) => {
+      const ai = order.indexOf(a.npub);
+      const bi = order.indexOf(b.npub);
+      return (ai < 0 ? order.length : ai) - (bi < 0 ? order.length : bi);
+    });
+
+    const author = existing?.author || offer.authors[0];
+    const event: ProposalEvent = {
+      offerId: offer.id,
+      title: offer.title,
+      description: offer.description,
+      startTime: new Date(offer.startTime),
+      endTime: new Date(offer.endTime),
+      room: offer.room,
+      status: calendarStatus(offer.status),
+      minRsvps: existing?.minRsvps ?? offer.minRsvps ?? offer.minAttendees ?? 0,
+      attendees,
+      createdAt: existing?.createdAt || new Date(offer.createdAt),
+      updatedAt: existing?.updatedAt,
+      author,
+      authorUsername:
+        existing?.authorUsername || usernames.get(author) || replay.names.get(author) || '',
+    };
+
+    if (!existing || summarizeEvent(existing) !== summarizeEvent(event)) {
+      event.updatedAt = new Date();
+      differences.push({
+        type: 'calendar',
+        id: `${slug}/${offer.id}`,
+        message: existing ? 'event out of date' : 'event missing',
+      });
+      plan.calendars.set(slug, []);
+    }
+
+    targetEvents.set(slug, [...(targetEvents.get(slug) || []), event]);
+  }
+
+  // Preserve the original event order within each room
+  for (const [slug, events] of targetEvents) {
+    const order = (rooms.get(slug) || []).map((e) => e.offerId);
+    events.sort((a, b) => {
+      const ai = order.indexOf(a.offerId);
+      const bi = order.indexOf(b.offerId);
+      return (ai < 0 ? order.length : ai) - (bi < 0 ? order.length : bi);
+    });
+
+    const icsCurrent = current.ics.get(slug) ?? null;
+    if (events.length > 0 && icsCurrent !== generateIcsContent(events) && !plan.calendars.has(slug)) {
+      differences.push({ type: 'ics', id: slug, message: 'proposals.ics out of date' });
+      plan.calendars.set(slug, []);
+    }
+  }
+
+  for (const slug of plan.calendars.keys()) {
+    plan.calendars.set(slug, targetEvents.get(slug) || []);
+  }
+
+  return plan;
+}
+
+// ============================================================================
+// Rebuild
+// ============================================================================
+
+/**
+ * Write a rebuild plan to storage
+ */
+async function applyPlan(plan: RebuildPlan): Promise<void> {
+  const storage = getStorageBackend();
+
+  for (const offer of plan.offers) {
+    await withLock(getOfferLockResource(offer.id), () => storage.saveOffer(offer));
+  }
+
+  for (const rsvp of plan.rsvpEntries) {
+    await storage.appendRsvp(rsvp);
+  }
+
+  for (const profile of plan.profiles) {
+    await storage.saveProfile(profile);
+  }
+
+  for (const [slug, events] of plan.calendars) {
+    await replaceProposalEvents(slug, events);
+    await generateIcsFile(slug);
+  }
+}
+
+/**
+ * Rebuild the derived state from the recorded NOSTR log
+ *
+ * With verify, nothing is written: the report lists where the state on
+ * disk differs from the log.
+ */
+export async function rebuildState(options: { verify?: boolean } = {}): Promise<RebuildReport> {
+  const events = await readEventLog();
+  const current = await loadCurrentState();
+  const replay = replayEvents(events, Array.from(current.offers.values()));
+  const plan = planRebuild(replay, current);
+
+  if (!options.verify) {
+    await applyPlan(plan);
+  }
+
+  return {
+    eventsReplayed: replay.replayed,
+    eventsIgnored: replay.ignored,
+    offersRebuilt: plan.offers.length,
+    roomsRebuilt: plan.calendars.size,
+    differences: plan.differences,
+    applied: !options.verify,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Pluggable storage backend for Open Source Village
+ *
+ * All persistent village state (profiles, badges, offers, RSVPs, proposal
+ * calendar events and notifications) goes through a StorageBackend.
+ *
+ * Backends:
+ * - file:   the JSON/JSONL layout under DATA_DIR (default)
+ * - sqlite: a single embedded SQLite database (DATA_DIR/osv.sqlite)
+ *
+ * Select with the STORAGE_BACKEND environment variable.
+ * SQLITE_PATH overrides the database file location.
+ *
+ * Backends stamp a schemaVersion on every record they write and upgrade
+ * older records when reading them (see schema-migrations.ts).
+ */
+
+import type { BadgeRevocation, Offer, RSVP, StorageProfile, UserProfile } from '@/types';
+import type { ProposalEvent } from './local-calendar';
+import type { Notification } from './notifications-utils';
+import type { MigrationReport } from './schema-migrations';
+import { withLock } from './file-lock';
+import { FileStorageBackend } from './file-storage-backend';
+import { SqliteStorageBackend } from './sqlite-storage-backend';
+
+export type StorageBackendType = 'file' | 'sqlite';
+
+/**
+ * Filters for listing offers
+ */
+export interface OfferFilter {
+  type?: string;
+  status?: string;
+}
+
+/**
+ * Options for creating a profile on badge claim
+ */
+export interface CreateProfileOptions {
+  name?: string;
+  invitedBy?: string;
+}
+
+/**
+ * Options for upgrading stored records in bulk
+ */
+export interface MigrateOptions {
+  dryRun?: boolean; // Report what would change without writing
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+
+  // Profiles
+  getProfileByNpub(npub: string): Promise<StorageProfile | null>;
+  getProfileByUsername(username: string): Promise<StorageProfile | null>;
+  getProfileBySerialNumber(serialNumber: string): Promise<StorageProfile | null>;
+  getAllProfiles(): Promise<StorageProfile[]>;
+  createProfile(
+    serialNumber: string,
+    username: string,
+    npub: string,
+    options?: CreateProfileOptions
+  ): Promise<StorageProfile>;
+  updateProfile(npub: string, updates: Partial<UserProfile>): Promise<StorageProfile>;
+  saveProfile(profile: StorageProfile): Promise<void>;
+
+  // Badges
+  isBadgeSetup(serialNumber: string): Promise<boolean>;
+  isBadgeClaimed(serialNumber: string): Promise<boolean>;
+  setupBadge(serialNumber: string): Promise<{ alreadyExists: boolean }>;
+  assignBadge(serialNumber: string, npub: string): Promise<StorageProfile>;
+  revokeBadge(revocation: BadgeRevocation): Promise<void>;
+  getBadgeRevocation(serialNumber: string): Promise<BadgeRevocation | null>;
+
+  // Offers
+  getOffer(offerId: string): Promise<Offer | null>;
+  listOffers(filter?: OfferFilter): Promise<Offer[]>;
+  saveOffer(offer: Offer): Promise<void>;
+
+  // RSVPs (append-only log, latest entry per npub wins)
+  appendRsvp(rsvp: RSVP): Promise<void>;
+  getRsvps(offerId: string): Promise<RSVP[]>;
+
+  // Proposal events (local room calendars)
+  getProposalEvents(roomSlug: string): Promise<ProposalEvent[]>;
+  getRoomSlugs(): Promise<string[]>;
+  saveProposalEvents(roomSlug: string, events: ProposalEvent[]): Promise<void>;
+
+  // Notifications
+  getNotifications(npub: string): Promise<Notification[]>;
+  addNotification(notification: Notification): Promise<void>;
+  replaceNotifications(npub: string, notifications: Notification[]): Promise<void>;
+
+  // Schema migrations (records are also upgraded on every read)
+  migrateRecords(options?: MigrateOptions): Promise<MigrationReport>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Collapse an RSVP log to the latest entry per npub
+ */
+export function latestRsvpPerUser(rsvps: RSVP[]): RSVP[] {
+  const byUser = new Map<string, RSVP>();
+  for (const rsvp of rsvps) {
+    byUser.set(rsvp.npub, rsvp);
+  }
+  return Array.from(byUser.values());
+}
+
+/**
+ * Get the active RSVPs for an offer
+ */
+export async function getActiveRsvps(offerId: string): Promise<RSVP[]> {
+  const rsvps = await getStorageBackend().getRsvps(offerId);
+  return latestRsvpPerUser(rsvps).filter((r) => r.status === 'active');
+}
+
+/**
+ * Lock resource name for an offer and its RSVP count
+ */
+export function getOfferLockResource(offerId: string): string {
+  return `offer:${offerId}`;
+}
+
+/**
+ * Lock resource name for a user's profile (balance, RSVPs)
+ */
+export function getProfileLockResource(npub: string): string {
+  return `profile:${npub}`;
+}
+
+/**
+ * Transactional read-modify-write of an offer
+ *
+ * The offer is loaded, passed to mutate and saved while holding the offer
+ * lock, so concurrent RSVPs and cancellations can't lose each other's
+ * updates. Returning false from mutate skips the save.
+ * Returns the resulting offer, or null if it doesn't exist.
+ */
+export async function updateOffer(
+  offerId: string,
+  mutate: (offer: Offer) => boolean | void | Promise<boolean | void>
+): Promise<Offer | null> {
+  return withLock(getOfferLockResource(offerId), async () => {
+    const storage = getStorageBackend();
+    const offer = await storage.getOffer(offerId);
+    if (!offer) {
+      return null;
+    }
+
+    if ((await mutate(offer)) !== false) {
+      await storage.saveOffer(offer);
+    }
+    return offer;
+  });
+}
+
+let backend: StorageBackend | null = null;
+let backendKey: string | null = null;
+
+/**
+ * Get the configured backend type from the environment
+ */
+export function getStorageBackendType(): StorageBackendType {
+  return process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'file';
+}
+
+/**
+ * Create a storage backend of the given type
+ */
+export function createStorageBackend(type: StorageBackendType): StorageBackend {
+  if (type === 'sqlite') {
+    return new SqliteStorageBackend();
+  }
+  return new FileStorageBackend();
+}
+
+/**
+ * Get the shared storage backend instance
+ *
+ * The instance is recreated when STORAGE_BACKEND or DATA_DIR change
+ * (tests switch DATA_DIR between suites).
+ */
+export function getStorageBackend(): StorageBackend {
+  const type = getStorageBackendType();
+  const key = `${type}:${process.env.DATA_DIR || ''}:${process.env.SQLITE_PATH || ''}`;
+
+  if (!backend || backendKey !== key) {
+    if (backend) {
+      backend.close().catch(() => {});
+    }
+    backend = createStorageBackend(type);
+    backendKey = key;
+  }
+
+  return backend;
+}
+
+/**
+ * Override the shared storage backend (for tests and scripts)
+ */
+export function setStorageBackend(instance: StorageBackend | null): void {
+  backend = instance;
+  backendKey = instance
+    ? `${instance.type}:${process.env.DATA_DIR || ''}:${process.env.SQLITE_PATH || ''}`
+    : null;
+}
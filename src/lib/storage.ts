@@ -16,7 +16,9 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import { UserProfile, StorageProfile } from '@/types';
+import { BadgeRevocation, UserProfile, StorageProfile } from '@/types';
+import { atomicWriteFile } from './file-lock';
+import { SCHEMA_VERSIONS, upgradeRecord } from './schema-migrations';
 
 export function getDataDir(): string {
   return process.env.DATA_DIR || path.join(process.cwd(), 'data');
@@ -77,7 +79,7 @@ export async function appendFile(filePath: string, content: string): Promise<voi
 /**
  * Ensure directory exists, create if not
  */
-async function ensureDir(dirPath: string): Promise<void> {
+export async function ensureDir(dirPath: string): Promise<void> {
   try {
     await fs.access(dirPath);
   } catch {
@@ -88,7 +90,7 @@ async function ensureDir(dirPath: string): Promise<void> {
 /**
  * Read JSON file, return null if not found
  */
-async function readJsonFile<T>(filePath: string): Promise<T | null> {
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
     return JSON.parse(content);
@@ -103,13 +105,8 @@ async function readJsonFile<T>(filePath: string): Promise<T | null> {
 /**
  * Write JSON file atomically
  */
-async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
-  await ensureDir(path.dirname(filePath));
-  const content = JSON.stringify(data, null, 2);
-  // Atomic write: write to temp file then rename
-  const tempPath = `${filePath}.tmp`;
-  await fs.writeFile(tempPath, content, 'utf-8');
-  await fs.rename(tempPath, filePath);
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await atomicWriteFile(filePath, JSON.stringify(data, null, 2));
 }
 
 /**
@@ -150,12 +147,28 @@ export function getNpubDir(npub: string): string {
   return path.join(getDataDir(), 'npubs', npub);
 }
 
+/**
+ * Read a profile.json, upgraded to the current schema version
+ */
+async function readProfileFile(profilePath: string): Promise<StorageProfile | null> {
+  const profile = await readJsonFile<StorageProfile>(profilePath);
+  return profile ? upgradeRecord('profile', profile) : null;
+}
+
+/**
+ * Write a profile.json, stamped with the current schema version
+ */
+export async function writeProfileFile(profile: StorageProfile): Promise<void> {
+  const profilePath = path.join(getNpubDir(profile.npub), 'profile.json');
+  await writeJsonFile(profilePath, upgradeRecord('profile', profile));
+}
+
 /**
  * Get profile by npub
  */
 export async function getProfileByNpub(npub: string): Promise<StorageProfile | null> {
   const profilePath = path.join(getNpubDir(npub), 'profile.json');
-  return readJsonFile<StorageProfile>(profilePath);
+  return readProfileFile(profilePath);
 }
 
 /**
@@ -170,7 +183,7 @@ export async function getProfileBySerialNumber(serialNumber: string): Promise<St
       const targetPath = await fs.readlink(badgePath);
       const npubDir = path.resolve(path.dirname(badgePath), targetPath);
       const profilePath = path.join(npubDir, 'profile.json');
-      return readJsonFile<StorageProfile>(profilePath);
+      return readProfileFile(profilePath);
     }
     // Legacy: direct directory (for unclaimed badges)
     return null;
@@ -191,7 +204,7 @@ export async function getProfileByUsername(username: string): Promise<StoragePro
     const targetPath = await fs.readlink(symlinkPath);
     const npubDir = path.resolve(path.dirname(symlinkPath), targetPath);
     const profilePath = path.join(npubDir, 'profile.json');
-    return readJsonFile<StorageProfile>(profilePath);
+    return readProfileFile(profilePath);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       return null;
@@ -221,6 +234,7 @@ export async function createProfile(
   }
 
   const profile: StorageProfile = {
+    schemaVersion: SCHEMA_VERSIONS.profile,
     npub,
     username,
     serialNumber,
@@ -247,8 +261,7 @@ export async function createProfile(
   await ensureDir(npubDir);
 
   // Write profile
-  const profilePath = path.join(npubDir, 'profile.json');
-  await writeJsonFile(profilePath, profile);
+  await writeProfileFile(profile);
 
   // Write metadata
   const metadata = {
@@ -303,7 +316,7 @@ export async function getAllProfiles(): Promise<StorageProfile[]> {
     for (const entry of entries) {
       if (entry.isDirectory() && entry.name.startsWith('npub1')) {
         const profilePath = path.join(npubsDir, entry.name, 'profile.json');
-        const profile = await readJsonFile<StorageProfile>(profilePath);
+        const profile = await readProfileFile(profilePath);
         if (profile) {
           profiles.push(profile);
         }
@@ -344,8 +357,7 @@ export async function updateProfile(
     updatedAt: new Date().toISOString(),
   };
 
-  const profilePath = path.join(getNpubDir(npub), 'profile.json');
-  await writeJsonFile(profilePath, profile);
+  await writeProfileFile(profile);
 
   return profile;
 }
@@ -425,6 +437,68 @@ export async function setupBadge(serialNumber: string): Promise<{ alreadyExists:
   return { alreadyExists: false };
 }
 
+/**
+ * Link a badge to a profile, replacing the profile's current badge
+ *
+ * The profile's previous badge is released (it stays in the whitelist and can
+ * be claimed again) unless it has meanwhile been linked to another profile.
+ */
+export async function assignBadge(serialNumber: string, npub: string): Promise<StorageProfile> {
+  const profile = await getProfileByNpub(npub);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+
+  const badgesDir = path.join(getDataDir(), 'badges');
+  await ensureDir(badgesDir);
+  const npubDir = getNpubDir(npub);
+
+  const previousSerial = profile.serialNumber;
+  if (previousSerial && previousSerial !== serialNumber) {
+    const previousLinkPath = path.join(badgesDir, previousSerial);
+    try {
+      const target = await fs.readlink(previousLinkPath);
+      if (path.resolve(badgesDir, target) === npubDir) {
+        await fs.unlink(previousLinkPath);
+      }
+    } catch {
+      // No link for the previous badge
+    }
+  }
+
+  const badgeLinkPath = path.join(badgesDir, serialNumber);
+  await fs.rm(badgeLinkPath, { recursive: true, force: true });
+  await fs.symlink(path.relative(badgesDir, npubDir), badgeLinkPath);
+
+  profile.serialNumber = serialNumber;
+  await writeProfileFile(profile);
+
+  return profile;
+}
+
+/**
+ * Get path to the badge revocation list
+ */
+function getRevocationListPath(): string {
+  return path.join(getDataDir(), 'badges', 'revoked.jsonl');
+}
+
+/**
+ * Add a badge to the revocation list
+ * Revoked badges can no longer be claimed or used to look up their owner.
+ */
+export async function revokeBadge(revocation: BadgeRevocation): Promise<void> {
+  await appendJsonLine(getRevocationListPath(), revocation);
+}
+
+/**
+ * Get the revocation of a badge, or null if it is still valid
+ */
+export async function getBadgeRevocation(serialNumber: string): Promise<BadgeRevocation | null> {
+  const revocations = await readJsonLines<BadgeRevocation>(getRevocationListPath());
+  return revocations.find((r) => r.serialNumber === serialNumber) || null;
+}
+
 // ============================================================================
 // Blockchain Queue
 // ============================================================================
@@ -0,0 +1,174 @@
+/**
+ * Token backends
+ *
+ * The token operations the app and the payment processor need, implemented by
+ * the @opencollective/token-factory Token (on a real chain) and by MemoryToken,
+ * a simulated ERC20 selected with CHAIN=memory for offline development and
+ * tests (see createTokenBackend in token-factory.ts).
+ *
+ * MemoryToken keeps the ERC20 Transfer log of each token in
+ * DATA_DIR/memoryChain/{tokenAddress}.jsonl: mints come from the zero
+ * address, burns go to it, and balances are summed from the log. Transaction
+ * hashes are random. User addresses are derived from the account id, like the
+ * Safe wallets of the real token are. Batches are one transaction: they go
+ * through as a whole or revert as a whole.
+ */
+
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { appendJsonLine, getDataDir, readJsonLines } from './storage';
+import { withLock } from './file-lock';
+
+/**
+ * Accounts are "provider:id" strings, e.g. "nostr:npub1...", or 0x addresses
+ * Amounts are in tokens; balances in the token's smallest unit.
+ */
+export interface TokenBackend {
+  /** @returns The transaction hash */
+  mintTo(amount: number, to: string): Promise<string | null>;
+  /** @returns The transaction hash */
+  burnFrom(amount: number, from: string): Promise<string | null>;
+  /** @returns The transaction hash */
+  transfer(from: string, to: string, amount: number): Promise<string | null>;
+  getBalance(account: string): Promise<bigint>;
+  /** Mint to several accounts in one transaction, for backends that can batch */
+  batchMintTo?(mints: { amount: number; to: string }[]): Promise<string | null>;
+  /** Several transfers in one transaction, for backends that can batch */
+  batchTransfer?(transfers: { from: string; to: string; amount: number }[]): Promise<string | null>;
+}
+
+export const MEMORY_CHAIN_ID = 1337;
+
+const TOKEN_DECIMALS = 6;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const DEFAULT_TOKEN_ADDRESS = '0x00000000000000000000000000000000000000cc';
+
+interface MemoryTransfer {
+  hash: string;
+  from: string; // Zero address for mints
+  to: string; // Zero address for burns
+  value: string; // In the token's smallest unit
+  timestamp: string; // ISO 8601
+}
+
+export class MemoryToken implements TokenBackend {
+  readonly tokenAddress: string;
+
+  constructor(tokenAddress?: string) {
+    this.tokenAddress = (tokenAddress || DEFAULT_TOKEN_ADDRESS).toLowerCase();
+  }
+
+  /**
+   * Address of a user's wallet, e.g. getUserAddress('nostr', npub)
+   */
+  static getUserAddress(provider: string, userId: string): string {
+    return `0x${createHash('sha256').update(`${provider}:${userId}`).digest('hex').slice(0, 40)}`;
+  }
+
+  private static toAddress(account: string): string {
+    if (/^0x[0-9a-fA-F]{40}$/.test(account)) return account.toLowerCase();
+
+    const separator = account.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid account: ${account}`);
+    }
+    return MemoryToken.getUserAddress(account.slice(0, separator), account.slice(separator + 1));
+  }
+
+  private static toUnits(amount: number): bigint {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Invalid amount: ${amount}`);
+    }
+    return BigInt(Math.round(amount * 10 ** TOKEN_DECIMALS));
+  }
+
+  private getLogPath(): string {
+    return path.join(getDataDir(), 'memoryChain', `${this.tokenAddress}.jsonl`);
+  }
+
+  private async balanceOf(address: string): Promise<bigint> {
+    let balance = BigInt(0);
+    for (const transfer of await readJsonLines<MemoryTransfer>(this.getLogPath())) {
+      if (transfer.to === address) balance += BigInt(transfer.value);
+      if (transfer.from === address) balance -= BigInt(transfer.value);
+    }
+    return balance;
+  }
+
+  /**
+   * Record the transfers of one transaction, reverting all of them like an
+   * ERC20 if a sender can't cover theirs
+   */
+  private async record(
+    transfers: { from: string; to: string; value: bigint }[],
+    operation: 'transfer' | 'burn'
+  ): Promise<string> {
+    return withLock(this.getLogPath(), async () => {
+      const balances = new Map<string, bigint>();
+      for (const { from, to, value } of transfers) {
+        if (from !== ZERO_ADDRESS) {
+          const balance = balances.get(from) ?? (await this.balanceOf(from));
+          if (balance < value) {
+            throw new Error(`ERC20: ${operation} amount exceeds balance`);
+          }
+          balances.set(from, balance - value);
+        }
+        if (to !== ZERO_ADDRESS) {
+          balances.set(to, (balances.get(to) ?? (await this.balanceOf(to))) + value);
+        }
+      }
+
+      const hash = `0x${randomBytes(32).toString('hex')}`;
+      const timestamp = new Date().toISOString();
+      for (const { from, to, value } of transfers) {
+        const transfer: MemoryTransfer = { hash, from, to, value: value.toString(), timestamp };
+        await appendJsonLine(this.getLogPath(), transfer);
+      }
+      return hash;
+    });
+  }
+
+  async mintTo(amount: number, to: string): Promise<string> {
+    return this.batchMintTo([{ amount, to }]);
+  }
+
+  async burnFrom(amount: number, from: string): Promise<string> {
+    return this.record(
+      [{ from: MemoryToken.toAddress(from), to: ZERO_ADDRESS, value: MemoryToken.toUnits(amount) }],
+      'burn'
+    );
+  }
+
+  async transfer(from: string, to: string, amount: number): Promise<string> {
+    return this.batchTransfer([{ from, to, amount }]);
+  }
+
+  async batchMintTo(mints: { amount: number; to: string }[]): Promise<string> {
+    return this.record(
+      mints.map(({ amount, to }) => ({ from: ZERO_ADDRESS, to: MemoryToken.toAddress(to), value: MemoryToken.toUnits(amount) })),
+      'transfer'
+    );
+  }
+
+  async batchTransfer(transfers: { from: string; to: string; amount: number }[]): Promise<string> {
+    return this.record(
+      transfers.map(({ from, to, amount }) => ({
+        from: MemoryToken.toAddress(from),
+        to: MemoryToken.toAddress(to),
+        value: MemoryToken.toUnits(amount),
+      })),
+      'transfer'
+    );
+  }
+
+  async getBalance(account: string): Promise<bigint> {
+    return this.balanceOf(MemoryToken.toAddress(account));
+  }
+
+  /**
+   * Number of transactions sent so far
+   */
+  async getTransactionCount(): Promise<number> {
+    return new Set((await readJsonLines<MemoryTransfer>(this.getLogPath())).map((transfer) => transfer.hash)).size;
+  }
+}
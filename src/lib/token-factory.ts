@@ -3,15 +3,26 @@
  *
  * Manages wallet and token operations using @opencollective/token-factory
  * Uses direct JSON-RPC calls for blockchain queries (no viem dependency)
+ *
+ * CHAIN=memory replaces the chain with a simulated ERC20 persisted in DATA_DIR
+ * (see token-backend.ts), for offline development and tests.
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
+import { randomBytes } from 'crypto';
+import { MemoryToken, type TokenBackend } from './token-backend';
 
-export type SupportedChain = 'localhost' | 'gnosis' | 'gnosis_chiado' | 'base' | 'base_sepolia';
+export type SupportedChain = 'memory' | 'localhost' | 'gnosis' | 'gnosis_chiado' | 'base' | 'base_sepolia';
 
 // Chain configurations
 const CHAIN_INFO: Record<SupportedChain, { name: string; symbol: string; rpc: string; explorer: string }> = {
+  memory: {
+    name: 'In-memory',
+    symbol: 'ETH',
+    rpc: '',
+    explorer: '',
+  },
   localhost: {
     name: 'Localhost',
     symbol: 'ETH',
@@ -150,33 +161,10 @@ export function getChain(): SupportedChain {
 }
 
 /**
- * Get wallet address from private key using token-factory
+ * Get wallet address from private key
  */
 async function getAddressFromPrivateKey(privateKey: `0x${string}`): Promise<string> {
   try {
-    // Use token-factory's internal viem to get the address
-    const { Token } = await import('@opencollective/token-factory');
-    const token = new Token({
-      name: 'temp',
-      symbol: 'TEMP',
-      chain: getChain(),
-      deployerPrivateKey: privateKey,
-    });
-    // The Token class stores the deployer address internally
-    // We can get it by deploying or predicting - let's use a workaround
-    // Actually, let's just compute it ourselves using the private key
-
-    // Simple workaround: create a test and extract from error or use the utils
-    const { utils } = await import('@opencollective/token-factory');
-
-    // If utils has a method, use it. Otherwise compute manually
-    // For now, let's use a simple computation
-    const key = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-
-    // Use Node's crypto to compute keccak256 of public key
-    // This is a simplified version - in production use proper secp256k1
-    const { createHash } = await import('crypto');
-
     // For proper address derivation, we need secp256k1
     // Let's use ethers which is already a dependency
     const { Wallet } = await import('ethers');
@@ -198,17 +186,21 @@ export async function getWalletInfo(): Promise<WalletInfo> {
 
   const address = await getAddressFromPrivateKey(privateKey);
 
-  let balance: bigint;
-  try {
-    balance = await getNativeBalance(chainInfo.rpc, address);
-  } catch (error) {
-    console.error('[TokenFactory] Failed to fetch balance:', error);
-    balance = BigInt(0);
+  // The in-memory chain has no gas
+  let balance = chain === 'memory' ? MIN_BALANCE : BigInt(0);
+  if (chain !== 'memory') {
+    try {
+      balance = await getNativeBalance(chainInfo.rpc, address);
+    } catch (error) {
+      console.error('[TokenFactory] Failed to fetch balance:', error);
+    }
   }
 
-  const explorerUrl = chain === 'localhost'
-    ? `${chainInfo.explorer}?address=${address}`
-    : `${chainInfo.explorer}/${address}`;
+  const explorerUrl = chain === 'memory'
+    ? ''
+    : chain === 'localhost'
+      ? `${chainInfo.explorer}?address=${address}`
+      : `${chainInfo.explorer}/${address}`;
 
   return {
     address,
@@ -223,6 +215,19 @@ export async function getWalletInfo(): Promise<WalletInfo> {
   };
 }
 
+/**
+ * Get the next nonce of the deployer account, counting pending transactions
+ */
+export async function getPendingNonce(chain: SupportedChain = getChain()): Promise<number> {
+  if (chain === 'memory') {
+    throw new Error('The in-memory token has no nonces');
+  }
+
+  const address = await getAddressFromPrivateKey(getPrivateKey());
+  const result = await rpcCall(CHAIN_INFO[chain].rpc, 'eth_getTransactionCount', [address, 'pending']);
+  return Number(BigInt(result as string));
+}
+
 /**
  * Load settings from settings.json
  */
@@ -304,21 +309,24 @@ export async function deployToken(
   symbol: string = 'OSV',
   chainOverride?: SupportedChain
 ): Promise<TokenInfo> {
-  const { Token } = await import('@opencollective/token-factory');
-
   const chain = chainOverride || getChain();
-  const privateKey = getPrivateKey();
 
   console.log(`[TokenFactory] Deploying token "${name}" (${symbol}) on ${chain}...`);
 
-  const token = new Token({
-    name,
-    symbol,
-    chain,
-    deployerPrivateKey: privateKey,
-  });
-
-  const tokenAddress = await token.deployToken();
+  let tokenAddress: string;
+  if (chain === 'memory') {
+    // Nothing to deploy: any address names a new in-memory token
+    tokenAddress = `0x${randomBytes(20).toString('hex')}`;
+  } else {
+    const { Token } = await import('@opencollective/token-factory');
+    const token = new Token({
+      name,
+      symbol,
+      chain,
+      deployerPrivateKey: getPrivateKey(),
+    });
+    tokenAddress = await token.deployToken();
+  }
 
   console.log(`[TokenFactory] Token deployed at: ${tokenAddress}`);
 
@@ -360,22 +368,46 @@ export async function getOrDeployToken(
   return await deployToken(name, symbol, chainOverride);
 }
 
+export interface TokenBackendOptions {
+  name: string;
+  symbol: string;
+  chain: SupportedChain;
+  tokenAddress?: string;
+  deployerPrivateKey?: string; // Not needed on the in-memory chain, nor to read balances
+}
+
 /**
- * Get a Token instance for operations
+ * Create the token backend for a chain: the in-memory token for CHAIN=memory,
+ * a token-factory Token otherwise
  */
-export async function getTokenInstance() {
+export async function createTokenBackend(options: TokenBackendOptions): Promise<TokenBackend> {
+  if (options.chain === 'memory') {
+    return new MemoryToken(options.tokenAddress);
+  }
+
   const { Token } = await import('@opencollective/token-factory');
+  return new Token({
+    name: options.name,
+    symbol: options.symbol,
+    chain: options.chain,
+    deployerPrivateKey: options.deployerPrivateKey as `0x${string}` | undefined,
+    tokenAddress: options.tokenAddress as `0x${string}` | undefined,
+  });
+}
 
+/**
+ * Get a token backend for operations
+ */
+export async function getTokenInstance(): Promise<TokenBackend> {
   const tokenInfo = await getTokenInfo();
   const chain = getChain();
-  const privateKey = getPrivateKey();
 
-  return new Token({
+  return createTokenBackend({
     name: tokenInfo?.name || 'Open Source Village Token',
     symbol: tokenInfo?.symbol || 'OSV',
     chain,
-    deployerPrivateKey: privateKey,
-    tokenAddress: tokenInfo?.address as `0x${string}` | undefined,
+    deployerPrivateKey: chain === 'memory' ? undefined : getPrivateKey(),
+    tokenAddress: tokenInfo?.address,
   });
 }
 
@@ -383,11 +415,16 @@ export async function getTokenInstance() {
  * Get wallet address for a nostr npub
  */
 export async function getWalletAddressForNpub(npub: string): Promise<string> {
+  const chain = getChain();
+  if (chain === 'memory') {
+    return MemoryToken.getUserAddress('nostr', npub);
+  }
+
   const { Token } = await import('@opencollective/token-factory');
   const token = new Token({
     name: 'temp',
     symbol: 'TEMP',
-    chain: getChain(),
+    chain,
   });
   return token.getUserAddress('nostr', npub);
 }
@@ -416,7 +453,7 @@ export async function transferTokens(
   fromNpub: string,
   toNpub: string,
   amount: number
-): Promise<string> {
+): Promise<string | null> {
   const token = await getTokenInstance();
   const hash = await token.transfer(`nostr:${fromNpub}`, `nostr:${toNpub}`, amount);
   return hash;
@@ -0,0 +1,223 @@
+/**
+ * Transaction ledger
+ *
+ * A villager's token history, built from the payment requests (kind 1734)
+ * and receipts (kind 1735) recorded in their event log
+ * (DATA_DIR/npubs/:npub/nostr_events.jsonl, see nostr-listener.ts).
+ *
+ * Every payment request is one transaction. Its status comes from the
+ * receipt published by the payment processor: confirmed or failed, and
+ * pending until a receipt shows up. Receipts signed by anyone else are
+ * ignored. Receipts whose request isn't in the log fall back to the request
+ * embedded in the receipt, if it is validly signed and is the request the
+ * receipt is for.
+ */
+
+import { verifyEvent } from 'nostr-tools';
+import {
+  NOSTR_KINDS,
+  npubToHex,
+  parsePaymentReceiptEvent,
+  parsePaymentRequestEvent,
+  type NostrEvent,
+  type PaymentRequestOptions,
+  type PaymentSplit,
+} from './nostr-events';
+import { queryNostrEventsByNpub } from './nostr-logger';
+import { encodeCursor } from './nostr-event-index';
+import { getServerNpub } from './nostr-server';
+import { getStorageBackend } from './storage-backend';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * Filters offered by the API: mint, transfer and burn match the method,
+ * rsvp and booking the context of the payment
+ */
+export type TransactionType = 'mint' | 'transfer' | 'burn' | 'rsvp' | 'booking';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['mint', 'transfer', 'burn', 'rsvp', 'booking'];
+
+export interface Transaction {
+  id: string; // Payment request event id
+  createdAt: number; // Unix timestamp of the request
+  method: PaymentRequestOptions['method'];
+  context: PaymentRequestOptions['context'];
+  amount: number; // In tokens
+  symbol?: string;
+  direction: 'in' | 'out';
+  counterparty: { npub: string; username?: string } | null; // null for mints and burns
+  relatedEventId?: string; // Offer or booking the payment is for
+  relatedTitle?: string;
+  split?: PaymentSplit; // This payment is one co-author's share of a reward
+  description: string;
+  status: TransactionStatus;
+  txHash?: string;
+  error?: string;
+  settledAt?: number; // Unix timestamp of the receipt
+}
+
+export interface TransactionQuery {
+  types?: TransactionType[];
+  status?: TransactionStatus;
+  /** Maximum number of transactions to return (default: all) */
+  limit?: number;
+  /** Continue after the last transaction of a previous page (nextCursor) */
+  cursor?: string;
+}
+
+export interface TransactionPage {
+  /** Newest first */
+  transactions: Transaction[];
+  /** Pass as cursor to get the next page, null when there are no more transactions */
+  nextCursor: string | null;
+}
+
+type Receipt = NonNullable<ReturnType<typeof parsePaymentReceiptEvent>>;
+
+function toTransaction(
+  npub: string,
+  request: NostrEvent,
+  receipt: { parsed: Receipt; event: NostrEvent } | undefined
+): Transaction | null {
+  const payment = parsePaymentRequestEvent(request);
+  if (!payment) return null;
+
+  const incoming = payment.method !== 'burn' && payment.recipient === npub;
+  const counterparty = payment.method === 'transfer' ? (incoming ? payment.sender : payment.recipient) : null;
+
+  return {
+    id: request.id,
+    createdAt: request.created_at,
+    method: payment.method,
+    context: payment.context,
+    amount: payment.amount,
+    symbol: payment.tokenSymbol,
+    direction: incoming ? 'in' : 'out',
+    counterparty: counterparty ? { npub: counterparty } : null,
+    relatedEventId: payment.relatedEventId,
+    split: payment.split,
+    description: payment.description || '',
+    status: receipt ? (receipt.parsed.success ? 'confirmed' : 'failed') : 'pending',
+    txHash: receipt?.parsed.success ? receipt.parsed.txHash : undefined,
+    error: receipt?.parsed.error,
+    settledAt: receipt?.event.created_at,
+  };
+}
+
+function matchesQuery(transaction: Transaction, query: TransactionQuery): boolean {
+  if (query.status && transaction.status !== query.status) return false;
+  if (query.types && query.types.length > 0) {
+    return query.types.some((type) => type === transaction.method || type === transaction.context);
+  }
+  return true;
+}
+
+/**
+ * Booking requests carry the booking as JSON in their content
+ */
+function getBookingTitle(description: string): string | undefined {
+  try {
+    const booking = JSON.parse(description);
+    return booking?.type === 'booking' && typeof booking.title === 'string' ? booking.title : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fill in counterparty usernames and the titles of related offers
+ */
+async function describe(transactions: Transaction[]): Promise<void> {
+  const storage = getStorageBackend();
+  const usernames = new Map<string, string | undefined>();
+  const titles = new Map<string, string | undefined>();
+
+  for (const transaction of transactions) {
+    const { counterparty, relatedEventId } = transaction;
+
+    if (counterparty) {
+      if (!usernames.has(counterparty.npub)) {
+        usernames.set(counterparty.npub, (await storage.getProfileByNpub(counterparty.npub))?.username);
+      }
+      counterparty.username = usernames.get(counterparty.npub);
+    }
+
+    if (relatedEventId) {
+      if (!titles.has(relatedEventId)) {
+        titles.set(relatedEventId, (await storage.getOffer(relatedEventId))?.title);
+      }
+      transaction.relatedTitle = titles.get(relatedEventId) || getBookingTitle(transaction.description);
+    }
+  }
+}
+
+/**
+ * Get a villager's transactions, newest first
+ *
+ * @param npub - Villager's npub
+ * @param query - Type and status filters, limit and cursor
+ * @param serverNpub - The payment processor, the only signer of receipts (default: from NOSTR_NSEC)
+ */
+export async function getTransactions(
+  npub: string,
+  query: TransactionQuery = {},
+  serverNpub: string | null = getServerNpub()
+): Promise<TransactionPage> {
+  const serverPubkey = serverNpub ? npubToHex(serverNpub) : null;
+  const { entries } = queryNostrEventsByNpub(npub, {
+    kinds: [NOSTR_KINDS.PAYMENT_REQUEST, NOSTR_KINDS.PAYMENT_RECEIPT],
+  });
+
+  const requests = new Map<string, NostrEvent>();
+  const receipts = new Map<string, { parsed: Receipt; event: NostrEvent }>();
+
+  for (const { event } of entries) {
+    if (event.kind === NOSTR_KINDS.PAYMENT_REQUEST) {
+      requests.set(event.id, event);
+      continue;
+    }
+
+    if (!serverPubkey || event.pubkey !== serverPubkey) continue;
+    const parsed = parsePaymentReceiptEvent(event);
+    if (!parsed) continue;
+
+    // Entries are newest first: keep the latest receipt per request
+    if (!receipts.has(parsed.requestEventId)) {
+      receipts.set(parsed.requestEventId, { parsed, event });
+    }
+    const embedded = parsed.embeddedRequest;
+    if (
+      !requests.has(parsed.requestEventId) &&
+      embedded?.kind === NOSTR_KINDS.PAYMENT_REQUEST &&
+      embedded.id === parsed.requestEventId &&
+      verifyEvent(embedded)
+    ) {
+      requests.set(parsed.requestEventId, embedded);
+    }
+  }
+
+  const all = Array.from(requests.values())
+    .map((request) => toTransaction(npub, request, receipts.get(request.id)))
+    .filter((transaction): transaction is Transaction => transaction !== null && matchesQuery(transaction, query))
+    .sort((a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id));
+
+  let start = 0;
+  if (query.cursor) {
+    const index = all.findIndex((transaction) => cursorOf(transaction) === query.cursor);
+    start = index === -1 ? all.length : index + 1;
+  }
+
+  const end = query.limit !== undefined ? start + query.limit : all.length;
+  const transactions = all.slice(start, end);
+  await describe(transactions);
+
+  return {
+    transactions,
+    nextCursor: end < all.length && transactions.length > 0 ? cursorOf(transactions[transactions.length - 1]) : null,
+  };
+}
+
+function cursorOf(transaction: Transaction): string {
+  return encodeCursor({ created_at: transaction.createdAt, id: transaction.id });
+}
@@ -0,0 +1,180 @@
+/**
+ * Village vendors (point of sale)
+ *
+ * Vendors are the accounts listed under "vendors" in settings.json, e.g. the
+ * café or the merch stand. Logged in as one of them, /pos charges an amount
+ * with a payment request (kind 1737, see lib/invoices.ts) that the payer
+ * pays by scanning its QR code or tapping their badge on the vendor's phone.
+ *
+ * Sales are the vendor's confirmed incoming payments of payment requests,
+ * taken from their transaction ledger and grouped by day in the event's
+ * timezone (settings.timezone), exportable as CSV.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { withNostrAuth, type NostrAuth } from './nip98-auth';
+import { getTransactions } from './transactions';
+
+export interface Vendor {
+  npub: string;
+  name: string;
+}
+
+export interface VendorSale {
+  id: string; // Payment request (kind 1734) event id
+  invoiceId?: string; // Payment request (kind 1737) the vendor charged with
+  settledAt: string; // ISO 8601, when the payment was confirmed
+  amount: number; // In tokens
+  symbol?: string;
+  payer: { npub: string; username?: string } | null;
+  memo: string;
+  txHash?: string;
+}
+
+export interface VendorSales {
+  date: string; // YYYY-MM-DD in timezone
+  timezone: string;
+  sales: VendorSale[]; // Oldest first
+  total: number;
+}
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Read settings.json on every call so edits apply without a restart
+ */
+function readSettings(): { vendors?: unknown; timezone?: unknown } {
+  try {
+    return JSON.parse(readFileSync(path.join(process.cwd(), 'settings.json'), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load the vendors from settings.json
+ */
+export function getVendors(): Vendor[] {
+  const { vendors } = readSettings();
+  if (!Array.isArray(vendors)) return [];
+  return vendors.filter((vendor): vendor is Vendor =>
+    typeof vendor?.npub === 'string' && typeof vendor?.name === 'string'
+  );
+}
+
+/**
+ * Get the vendor with this npub, if any
+ */
+export function getVendor(npub: string, vendors: Vendor[] = getVendors()): Vendor | null {
+  return vendors.find((vendor) => vendor.npub === npub) || null;
+}
+
+/**
+ * Timezone sales are grouped by (settings.timezone)
+ */
+export function getSalesTimezone(): string {
+  const { timezone } = readSettings();
+  return typeof timezone === 'string' && timezone ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Day (YYYY-MM-DD) of a unix timestamp in a timezone
+ */
+export function getSalesDate(timestamp: number, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp * 1000));
+}
+
+/**
+ * Require a NIP-98 signed request from a vendor before running a route handler
+ * Unsigned requests get a 401, signed requests from other villagers a 403.
+ */
+export function withVendorAuth<C = unknown>(
+  handler: (request: NextRequest, context: C, auth: NostrAuth, vendor: Vendor) => Promise<NextResponse>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return withNostrAuth<C>(async (request, context, auth) => {
+    const vendor = getVendor(auth.npub);
+    if (!vendor) {
+      console.warn(`[Vendors] ${request.method} ${new URL(request.url).pathname} rejected for non-vendor ${auth.npub}`);
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: vendor account required' },
+        { status: 403 }
+      );
+    }
+    return handler(request, context, auth, vendor);
+  });
+}
+
+/**
+ * Get a vendor's sales of one day
+ *
+ * @param npub - Vendor's npub
+ * @param date - Day, YYYY-MM-DD in timezone
+ * @param timezone - IANA timezone (default: settings.timezone)
+ */
+export async function getVendorSales(
+  npub: string,
+  date: string,
+  timezone: string = getSalesTimezone()
+): Promise<VendorSales> {
+  const { transactions } = await getTransactions(npub, { types: ['transfer'], status: 'confirmed' });
+
+  const sales = transactions
+    .filter((transaction) =>
+      transaction.direction === 'in' &&
+      transaction.context === 'invoice' &&
+      getSalesDate(transaction.settledAt ?? transaction.createdAt, timezone) === date
+    )
+    .map((transaction): VendorSale => ({
+      id: transaction.id,
+      invoiceId: transaction.relatedEventId,
+      settledAt: new Date((transaction.settledAt ?? transaction.createdAt) * 1000).toISOString(),
+      amount: transaction.amount,
+      symbol: transaction.symbol,
+      payer: transaction.counterparty,
+      memo: transaction.description,
+      txHash: transaction.txHash,
+    }))
+    .sort((a, b) => a.settledAt.localeCompare(b.settledAt));
+
+  // Sum in the token's smallest unit (6 decimals) to avoid float drift
+  const total = sales.reduce((sum, sale) => sum + Math.round(sale.amount * 1e6), 0) / 1e6;
+
+  return { date, timezone, sales, total };
+}
+
+/**
+ * Quote a CSV cell; cells starting with =, +, - or @ get a leading ' so
+ * spreadsheets don't evaluate them as formulas
+ */
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render sales as CSV, one row per sale
+ */
+export function salesToCsv(sales: VendorSale[]): string {
+  const header = ['time', 'amount', 'symbol', 'payer', 'payer_npub', 'memo', 'payment_request', 'tx_hash'];
+  const rows = sales.map((sale) => [
+    sale.settledAt,
+    sale.amount,
+    sale.symbol,
+    sale.payer?.username,
+    sale.payer?.npub,
+    sale.memo,
+    sale.invoiceId,
+    sale.txHash,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
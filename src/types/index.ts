@@ -41,6 +41,7 @@ export type OfferType = 'workshop' | '1:1' | 'other' | 'offer' | 'private' | 'ne
 export type OfferStatus = 'pending' | 'tentative' | 'confirmed' | 'cancelled';
 
 export interface Offer {
+  schemaVersion?: number; // see lib/schema-migrations.ts
   id: string;
   type: OfferType;
   title: string;
@@ -66,11 +67,15 @@ export interface Offer {
   minRsvps?: number; // Minimum RSVPs required to confirm (>= 2 for proposals)
   rsvpCount?: number; // Current number of active RSVPs
   burnTxHash?: string; // Transaction hash of the token burn for proposals
+  attendanceConfirmedAt?: string; // ISO 8601, releases the RSVP escrow to the author (see lib/escrow.ts)
 
   // NOSTR fields (NIP-52 calendar event)
   nostrEventId?: string; // ID of the kind 31922 calendar event
   nostrDTag?: string; // d-tag for replaceable event (same across updates)
   nostrAuthorPubkey?: string; // pubkey of the original author
+
+  // Moderation
+  hidden?: boolean; // Hidden from listings by an admin
 }
 
 export interface RSVP {
@@ -176,6 +181,7 @@ export interface CreateRSVPResponse {
 
 // Storage Types
 export interface StorageProfile {
+  schemaVersion?: number; // see lib/schema-migrations.ts
   npub: string;
   username: string;
   serialNumber: string;
@@ -183,6 +189,23 @@ export interface StorageProfile {
   offers: Offer[];
   rsvps: RSVP[];
   balance: TokenBalance;
+  suspended?: Suspension; // Set by an admin, see lib/admin.ts
+  inviteQuota?: number; // Set by an admin, overrides settings.maxInvitesPerUser
+}
+
+export interface BadgeRevocation {
+  serialNumber: string;
+  npub: string; // owner of the badge when it was revoked
+  revokedAt: string; // ISO 8601
+  revokedBy: string; // npub of the owner or of the admin who vouched
+  reason: string;
+  replacedBy?: string; // serial number of the new badge
+}
+
+export interface Suspension {
+  at: string; // ISO 8601
+  by: string; // admin npub
+  reason?: string;
 }
 
 // Configuration Types
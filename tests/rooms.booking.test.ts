@@ -14,10 +14,14 @@
 import { POST as createOffer, GET as getOffers } from '@/app/api/offers/route';
 import { POST as rsvp } from '@/app/api/rsvp/route';
 import { createProfile, getProfileByNpub } from '@/lib/storage';
+import { clearSeenAuthEvents } from '@/lib/nip98-auth';
+import { createHttpAuthHeader } from '@/lib/nostr-events';
+import { MemoryToken } from '@/lib/token-backend';
 import { NextRequest } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
 import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import settings from '../settings.json';
 
 // Use tests/data directory
 const TEST_DATA_DIR = path.join(process.cwd(), 'tests', 'data');
@@ -25,6 +29,12 @@ const TEST_DATA_DIR = path.join(process.cwd(), 'tests', 'data');
 // Store original env
 const originalEnv = process.env;
 
+// Balances are read from the in-memory chain
+const TOKEN_ADDRESS = '0x00000000000000000000000000000000000000bb';
+
+// Minimum RSVPs a workshop may ask for, from settings.json
+const MIN_RSVPS = settings.defaults.workshops.attendees.min;
+
 // Room costs from settings.json
 const ROOM_COSTS = {
   'Ostrom Room': 3,
@@ -43,22 +53,27 @@ function generateTestNostrKeys() {
   return { secretKey, publicKey, nsec, npub };
 }
 
-// Helper to create mock offer requests
-function createOfferRequest(body: object): NextRequest {
-  return new NextRequest('http://localhost:3000/api/offers', {
+// Helper to create POST requests NIP-98 signed by the given user
+async function createSignedRequest(url: string, secretKey: Uint8Array, body: object): Promise<NextRequest> {
+  const payload = JSON.stringify(body);
+  return new NextRequest(url, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: await createHttpAuthHeader(secretKey, url, 'POST', payload),
+    },
+    body: payload,
   });
 }
 
-// Helper to create mock RSVP requests
-function createRsvpRequest(body: object): NextRequest {
-  return new NextRequest('http://localhost:3000/api/rsvp', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
+// Helper to create offer requests
+function createOfferRequest(secretKey: Uint8Array, body: object): Promise<NextRequest> {
+  return createSignedRequest('http://localhost:3000/api/offers', secretKey, body);
+}
+
+// Helper to create RSVP requests
+function createRsvpRequest(secretKey: Uint8Array, body: object): Promise<NextRequest> {
+  return createSignedRequest('http://localhost:3000/api/rsvp', secretKey, body);
 }
 
 // Helper to clean up specific directories
@@ -70,8 +85,14 @@ async function cleanDirectory(dirPath: string) {
   }
 }
 
-// Helper to set user balance by directly updating the profile file
+// Helper to set user balance by minting or burning on the in-memory chain
+// and directly updating the profile file
 async function setUserBalance(npub: string, balance: number) {
+  const token = new MemoryToken(TOKEN_ADDRESS);
+  const difference = balance - Number(await token.getBalance(`nostr:${npub}`)) / 1e6;
+  if (difference > 0) await token.mintTo(difference, `nostr:${npub}`);
+  if (difference < 0) await token.burnFrom(-difference, `nostr:${npub}`);
+
   const profile = await getProfileByNpub(npub);
   if (profile) {
     profile.balance.confirmed = balance;
@@ -102,6 +123,8 @@ describe('Room Booking Integration Tests', () => {
     process.env = {
       ...originalEnv,
       DATA_DIR: TEST_DATA_DIR,
+      CHAIN: 'memory',
+      TOKEN_ADDRESS,
       NOSTR_NSEC: nip19.nsecEncode(generateSecretKey()),
     };
 
@@ -111,6 +134,7 @@ describe('Room Booking Integration Tests', () => {
     await cleanDirectory(path.join(TEST_DATA_DIR, 'usernames'));
     await cleanDirectory(path.join(TEST_DATA_DIR, 'offers'));
     await cleanDirectory(path.join(TEST_DATA_DIR, 'calendars'));
+    await cleanDirectory(path.join(TEST_DATA_DIR, 'memoryChain'));
 
     // Create test directories
     await fs.mkdir(path.join(TEST_DATA_DIR, 'badges'), { recursive: true });
@@ -132,6 +156,10 @@ describe('Room Booking Integration Tests', () => {
     await setUserBalance(user4.npub, 0);
   }, 30000);
 
+  beforeEach(() => {
+    clearSeenAuthEvents();
+  });
+
   afterAll(async () => {
     // Restore original env
     process.env = originalEnv;
@@ -142,6 +170,7 @@ describe('Room Booking Integration Tests', () => {
     await cleanDirectory(path.join(TEST_DATA_DIR, 'usernames'));
     await cleanDirectory(path.join(TEST_DATA_DIR, 'offers'));
     await cleanDirectory(path.join(TEST_DATA_DIR, 'calendars'));
+    await cleanDirectory(path.join(TEST_DATA_DIR, 'memoryChain'));
   });
 
   describe('TC1: Insufficient Balance Check', () => {
@@ -149,7 +178,7 @@ describe('Room Booking Integration Tests', () => {
       // Ensure user1 has 0 tokens
       await setUserBalance(user1.npub, 0);
 
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Test Workshop',
         description: 'A test workshop',
@@ -157,7 +186,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-28T15:00:00Z',
         room: 'Ostrom Room', // 3 tokens/hour
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
@@ -173,7 +201,7 @@ describe('Room Booking Integration Tests', () => {
       // User has 2 tokens but needs 3 for Ostrom Room
       await setUserBalance(user1.npub, 2);
 
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Test Workshop',
         description: 'A test workshop',
@@ -181,7 +209,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-28T15:00:00Z',
         room: 'Ostrom Room',
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
@@ -198,7 +225,7 @@ describe('Room Booking Integration Tests', () => {
       // Give user1 51 tokens
       await setUserBalance(user1.npub, 51);
 
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Intro to Nostr',
         description: 'Learn about Nostr protocol',
@@ -206,7 +233,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-28T15:00:00Z',
         room: 'Ostrom Room', // 3 tokens/hour
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
@@ -216,14 +242,14 @@ describe('Room Booking Integration Tests', () => {
       expect(data.success).toBe(true);
       expect(data.offer).toBeDefined();
       expect(data.offer.status).toBe('pending');
-      expect(data.offer.cost).toBe(3); // 3 tokens/hour * 1 hour
+      expect(data.offer.publicationCost).toBe(3); // 3 tokens/hour * 1 hour
       expect(data.pendingBurn).toBe(true); // Should indicate burn is pending
     });
 
     it('should calculate cost correctly for 2-hour workshop', async () => {
       await setUserBalance(user1.npub, 10);
 
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Extended Workshop',
         description: 'A longer workshop',
@@ -231,14 +257,13 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-29T16:00:00Z', // 2 hours
         room: 'Satoshi Room', // 2 tokens/hour
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
       expect(response.status).toBe(200);
-      expect(data.offer.cost).toBe(4); // 2 tokens/hour * 2 hours
+      expect(data.offer.publicationCost).toBe(4); // 2 tokens/hour * 2 hours
     });
   });
 
@@ -249,7 +274,7 @@ describe('Room Booking Integration Tests', () => {
 
       // First, create a workshop by user1
       await setUserBalance(user1.npub, 51);
-      const workshop1Request = createOfferRequest({
+      const workshop1Request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'User1 Workshop',
         description: 'First workshop',
@@ -257,7 +282,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-30T15:00:00Z',
         room: 'Angel Room', // 1 token/hour
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const workshop1Response = await createOffer(workshop1Request);
@@ -265,7 +289,7 @@ describe('Room Booking Integration Tests', () => {
       expect(workshop1Response.status).toBe(200);
 
       // Now user2 proposes at the same time/room
-      const workshop2Request = createOfferRequest({
+      const workshop2Request = await createOfferRequest(user2.secretKey, {
         type: 'workshop',
         title: 'User2 Workshop',
         description: 'Competing workshop',
@@ -273,7 +297,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-01-30T15:00:00Z',
         room: 'Angel Room',
         minRsvps: 3,
-        npub: user2.npub,
       });
 
       const workshop2Response = await createOffer(workshop2Request);
@@ -292,7 +315,7 @@ describe('Room Booking Integration Tests', () => {
     });
 
     it('should charge 3 tokens/hour for Ostrom Room', async () => {
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Ostrom Test',
         description: 'Test',
@@ -300,17 +323,16 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-01T11:00:00Z',
         room: 'Ostrom Room',
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
-      expect(data.offer.cost).toBe(3);
+      expect(data.offer.publicationCost).toBe(3);
     });
 
     it('should charge 2 tokens/hour for Satoshi Room', async () => {
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Satoshi Test',
         description: 'Test',
@@ -318,17 +340,16 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-01T11:00:00Z',
         room: 'Satoshi Room',
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
-      expect(data.offer.cost).toBe(2);
+      expect(data.offer.publicationCost).toBe(2);
     });
 
     it('should charge 1 token/hour for Angel Room', async () => {
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Angel Test',
         description: 'Test',
@@ -336,18 +357,17 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-01T11:00:00Z',
         room: 'Angel Room',
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
-      expect(data.offer.cost).toBe(1);
+      expect(data.offer.publicationCost).toBe(1);
     });
 
     it('should calculate fractional hours as ceiling', async () => {
       // 90 minutes = 1.5 hours, should charge for 2 hours
-      const request = createOfferRequest({
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Partial Hour Test',
         description: 'Test',
@@ -355,13 +375,12 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-01T11:30:00Z', // 1.5 hours
         room: 'Satoshi Room', // 2 tokens/hour
         minRsvps: 3,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
-      expect(data.offer.cost).toBe(3); // ceil(1.5 * 2) = 3
+      expect(data.offer.publicationCost).toBe(3); // ceil(1.5 * 2) = 3
     });
   });
 
@@ -370,27 +389,26 @@ describe('Room Booking Integration Tests', () => {
       await setUserBalance(user1.npub, 100);
     });
 
-    it('should reject workshop with minRsvps < 2', async () => {
-      const request = createOfferRequest({
+    it('should reject workshop with minRsvps below the settings minimum', async () => {
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Too Few RSVPs',
         description: 'Test',
         startTime: '2026-02-02T10:00:00Z',
         endTime: '2026-02-02T11:00:00Z',
         room: 'Angel Room',
-        minRsvps: 1, // Invalid - must be >= 2
-        npub: user1.npub,
+        minRsvps: MIN_RSVPS - 1,
       });
 
       const response = await createOffer(request);
       const data = await response.json();
 
       expect(response.status).toBe(400);
-      expect(data.error).toContain('Minimum RSVPs must be at least 2');
+      expect(data.error).toContain(`Minimum RSVPs must be at least ${MIN_RSVPS}`);
     });
 
-    it('should accept workshop with minRsvps >= 2', async () => {
-      const request = createOfferRequest({
+    it('should accept workshop with minRsvps at or above the settings minimum', async () => {
+      const request = await createOfferRequest(user1.secretKey, {
         type: 'workshop',
         title: 'Valid RSVPs',
         description: 'Test',
@@ -398,7 +416,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-02T13:00:00Z',
         room: 'Angel Room',
         minRsvps: 5,
-        npub: user1.npub,
       });
 
       const response = await createOffer(request);
@@ -413,7 +430,7 @@ describe('Room Booking Integration Tests', () => {
     it('should return 404 for non-existent user', async () => {
       const fakeUser = generateTestNostrKeys();
 
-      const request = createOfferRequest({
+      const request = await createOfferRequest(fakeUser.secretKey, {
         type: 'workshop',
         title: 'No Profile',
         description: 'Test',
@@ -421,7 +438,6 @@ describe('Room Booking Integration Tests', () => {
         endTime: '2026-02-03T11:00:00Z',
         room: 'Angel Room',
         minRsvps: 3,
-        npub: fakeUser.npub, // This user has no profile
       });
 
       const response = await createOffer(request);